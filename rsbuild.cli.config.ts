@@ -0,0 +1,53 @@
+import path from 'path';
+import { defineConfig } from '@rsbuild/core';
+import { pluginReact } from '@rsbuild/plugin-react';
+import { pluginSass } from '@rsbuild/plugin-sass';
+
+// Bundles the headless bot runner for Node. Blockly and jsdom stay external, which is why
+// both are dependencies, so that Blockly's Node entry, which renders its DOM through jsdom,
+// is the one that loads.
+export default defineConfig({
+    plugins: [pluginSass({ exclude: /node_modules/ }), pluginReact()],
+    source: {
+        entry: {
+            'run-bot': './src/external/bot-skeleton/cli/run-bot.ts',
+        },
+        define: {
+            'process.env.APP_ENV': JSON.stringify(process.env.APP_ENV || 'production'),
+        },
+    },
+    resolve: {
+        alias: {
+            '@/external': path.resolve(__dirname, './src/external'),
+            '@/components': path.resolve(__dirname, './src/components'),
+            '@/hooks': path.resolve(__dirname, './src/hooks'),
+            '@/utils': path.resolve(__dirname, './src/utils'),
+            '@/constants': path.resolve(__dirname, './src/constants'),
+            '@/stores': path.resolve(__dirname, './src/stores'),
+        },
+    },
+    output: {
+        target: 'node',
+        distPath: {
+            root: 'dist-cli',
+        },
+        filename: {
+            js: '[name].cjs',
+        },
+        externals: ['blockly', /^blockly\//, 'jsdom'],
+        minify: false,
+    },
+    tools: {
+        rspack: {
+            module: {
+                rules: [
+                    {
+                        test: /\.xml$/,
+                        exclude: /node_modules/,
+                        use: 'raw-loader',
+                    },
+                ],
+            },
+        },
+    },
+});
@@ -0,0 +1,210 @@
+import classNames from 'classnames';
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Money from '@/components/shared_ui/money';
+import Text from '@/components/shared_ui/text';
+import { MessageTypes } from '@/external/bot-skeleton';
+import { isBotActive, TActiveBot, TActiveBotStatus } from '@/external/bot-skeleton/services/multi-bot';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const getStatusLabel = (status: TActiveBotStatus) => {
+    switch (status) {
+        case 'starting':
+            return localize('Starting');
+        case 'running':
+            return localize('Running');
+        case 'stopping':
+            return localize('Stopping');
+        case 'error':
+            return localize('Stopped on error');
+        default:
+            return localize('Stopped');
+    }
+};
+
+const BotJournal = ({ journal }: Pick<TActiveBot, 'journal'>) => (
+    <div className='active-bots__journal'>
+        {journal.length ? (
+            journal.map(({ time, type, message }, index) => (
+                <div
+                    key={`${time}-${index}`}
+                    className={classNames('active-bots__journal-entry', {
+                        'active-bots__journal-entry--error': type === MessageTypes.ERROR,
+                    })}
+                >
+                    <Text size='xxxs' color='less-prominent'>
+                        {new Date(time).toLocaleTimeString()}
+                    </Text>
+                    <Text size='xxs'>{message}</Text>
+                </div>
+            ))
+        ) : (
+            <Text size='xxs' color='less-prominent'>
+                <Localize i18n_default_text='Nothing has been logged yet.' />
+            </Text>
+        )}
+    </div>
+);
+
+const BotCard = observer(({ bot }: { bot: TActiveBot }) => {
+    const { client, multi_bot } = useStore();
+    const { journal_bot_id, stopBot, toggleBotJournal } = multi_bot;
+    const { name, symbol, status, statistics } = bot;
+
+    return (
+        <div className='active-bots__bot'>
+            <div className='active-bots__bot-header'>
+                <div className='active-bots__bot-details'>
+                    <Text size='xs' weight='bold'>
+                        {name}
+                    </Text>
+                    <Text size='xxs' color='less-prominent'>
+                        {symbol ? `${symbol} · ${getStatusLabel(status)}` : getStatusLabel(status)}
+                    </Text>
+                </div>
+                <Button
+                    type='button'
+                    text={localize('Journal')}
+                    onClick={() => toggleBotJournal(bot.id)}
+                    secondary
+                    small
+                />
+                {isBotActive(bot) && (
+                    <Button
+                        type='button'
+                        text={localize('Stop')}
+                        onClick={() => stopBot(bot.id)}
+                        disabled={status === 'stopping'}
+                        primary
+                        small
+                    />
+                )}
+            </div>
+            <div className='active-bots__bot-statistics'>
+                <Text size='xxs'>
+                    {localize('Runs: {{ number_of_runs }}', { number_of_runs: statistics.number_of_runs })}
+                </Text>
+                <Text size='xxs'>
+                    {localize('Won: {{ won_contracts }}', { won_contracts: statistics.won_contracts })}
+                </Text>
+                <Text size='xxs'>
+                    {localize('Lost: {{ lost_contracts }}', { lost_contracts: statistics.lost_contracts })}
+                </Text>
+                <Text
+                    size='xxs'
+                    weight='bold'
+                    className={classNames({
+                        'active-bots__profit--positive': statistics.total_profit > 0,
+                        'active-bots__profit--negative': statistics.total_profit < 0,
+                    })}
+                >
+                    <Money amount={statistics.total_profit} currency={client.currency} has_sign show_currency />
+                </Text>
+            </div>
+            {journal_bot_id === bot.id && <BotJournal journal={bot.journal} />}
+        </div>
+    );
+});
+
+const ActiveBots = observer(() => {
+    const { client, load_modal, multi_bot } = useStore();
+    const {
+        active_bots,
+        bots,
+        clearStoppedBots,
+        combined_statistics,
+        is_starting,
+        selected_strategy_id,
+        setSelectedStrategyId,
+        startBot,
+        stopAllBots,
+    } = multi_bot;
+    const strategies = load_modal.dashboard_strategies ?? [];
+
+    return (
+        <div className='active-bots'>
+            <div className='active-bots__account'>
+                <div className='active-bots__account-tile'>
+                    <Text size='xxs' color='less-prominent'>
+                        <Localize i18n_default_text='Account balance' />
+                    </Text>
+                    <Text size='xs' weight='bold'>
+                        <Money amount={client.balance} currency={client.currency} show_currency />
+                    </Text>
+                </div>
+                <div className='active-bots__account-tile'>
+                    <Text size='xxs' color='less-prominent'>
+                        <Localize i18n_default_text='Total profit/loss' />
+                    </Text>
+                    <Text size='xs' weight='bold'>
+                        <Money
+                            amount={combined_statistics.total_profit}
+                            currency={client.currency}
+                            has_sign
+                            show_currency
+                        />
+                    </Text>
+                </div>
+                <div className='active-bots__account-tile'>
+                    <Text size='xxs' color='less-prominent'>
+                        <Localize i18n_default_text='Running' />
+                    </Text>
+                    <Text size='xs' weight='bold'>
+                        {active_bots.length}
+                    </Text>
+                </div>
+            </div>
+            <div className='active-bots__start'>
+                <select
+                    aria-label={localize('Bot')}
+                    value={selected_strategy_id}
+                    onChange={e => setSelectedStrategyId(e.target.value)}
+                >
+                    <option value=''>{localize('Choose a saved bot')}</option>
+                    {strategies.map(({ id, name }) => (
+                        <option key={id} value={id}>
+                            {name}
+                        </option>
+                    ))}
+                </select>
+                <Button
+                    type='button'
+                    text={localize('Run')}
+                    onClick={startBot}
+                    disabled={!selected_strategy_id || is_starting}
+                    is_loading={is_starting}
+                    primary
+                />
+            </div>
+            <Text as='p' size='xxs' color='less-prominent' lineHeight='l'>
+                <Localize i18n_default_text='Saved bots run here side by side, each with its own journal and statistics. They all trade on the account above, and Bot Builder waits until they stop.' />
+            </Text>
+            <div className='active-bots__list'>
+                {bots.map(bot => (
+                    <BotCard key={bot.id} bot={bot} />
+                ))}
+            </div>
+            {!!bots.length && (
+                <div className='active-bots__footer'>
+                    <Button
+                        type='button'
+                        text={localize('Clear stopped')}
+                        onClick={clearStoppedBots}
+                        disabled={bots.length === active_bots.length}
+                        secondary
+                    />
+                    <Button
+                        type='button'
+                        text={localize('Stop all')}
+                        onClick={stopAllBots}
+                        disabled={!active_bots.length}
+                        primary
+                    />
+                </div>
+            )}
+        </div>
+    );
+});
+
+export default ActiveBots;
@@ -0,0 +1,4 @@
+import ActiveBots from './active-bots';
+import './active-bots.scss';
+
+export default ActiveBots;
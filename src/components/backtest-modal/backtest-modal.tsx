@@ -0,0 +1,192 @@
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import Button from '@/components/shared_ui/button';
+import Input from '@/components/shared_ui/input';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const formatEpoch = (epoch: number) => new Date(epoch * 1000).toLocaleTimeString();
+
+const BacktestModal = observer(() => {
+    const { backtest, client, tick_history } = useStore();
+    const {
+        dataset,
+        error_message,
+        file_name,
+        initial_balance,
+        is_modal_open,
+        is_running,
+        onFileChange,
+        progress,
+        result,
+        setInitialBalance,
+        startBacktest,
+        stopBacktest,
+        toggleModal,
+    } = backtest;
+    const file_input_ref = React.useRef<HTMLInputElement>(null);
+    const currency = client.currency;
+
+    const stats = result
+        ? [
+              { label: localize('Trades'), value: result.trades.length },
+              { label: localize('Win rate'), value: `${result.win_rate}%` },
+              { label: localize('Total profit/loss'), value: `${result.total_profit} ${currency}` },
+              { label: localize('Final balance'), value: `${result.final_balance} ${currency}` },
+              {
+                  label: localize('Max drawdown'),
+                  value: `${result.max_drawdown} ${currency} (${result.max_drawdown_percentage}%)`,
+              },
+              { label: localize('Longest losing streak'), value: result.longest_losing_streak },
+          ]
+        : [];
+
+    return (
+        <Modal
+            title={localize('Backtest on recorded ticks')}
+            className='backtest-modal'
+            width='880px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>
+                <div className='backtest-modal__setup'>
+                    <Text as='p' size='xs' lineHeight='l'>
+                        <Localize i18n_default_text='Replay the bot in your workspace against a recorded tick file. Live market data is paused while the backtest runs.' />
+                    </Text>
+                    <div className='backtest-modal__inputs'>
+                        <input
+                            ref={file_input_ref}
+                            type='file'
+                            accept='.json,.csv'
+                            hidden
+                            onChange={e => {
+                                const [file] = Array.from(e.target.files ?? []);
+                                if (file) onFileChange(file);
+                                e.target.value = '';
+                            }}
+                        />
+                        <Button
+                            type='button'
+                            text={file_name || localize('Choose tick file')}
+                            onClick={() => file_input_ref.current?.click()}
+                            is_disabled={is_running}
+                            secondary
+                        />
+                        <Button
+                            type='button'
+                            text={localize('Use recorded ticks')}
+                            onClick={tick_history.toggleModal}
+                            is_disabled={is_running}
+                            secondary
+                        />
+                        <Input
+                            type='number'
+                            label={localize('Initial balance')}
+                            value={initial_balance}
+                            disabled={is_running}
+                            onChange={e => setInitialBalance(Number((e.target as HTMLInputElement).value))}
+                        />
+                    </div>
+                    {dataset && (
+                        <Text as='p' size='xxs' color='less-prominent'>
+                            {localize('{{ count }} ticks of {{ symbol }}', {
+                                count: dataset.ticks.length,
+                                symbol: dataset.symbol,
+                            })}
+                        </Text>
+                    )}
+                    {is_running && progress && (
+                        <Text as='p' size='xxs'>
+                            {localize('Replayed {{ processed }} of {{ total }} ticks, {{ trades }} trades', {
+                                processed: progress.processed_ticks,
+                                total: progress.total_ticks,
+                                trades: progress.trades,
+                            })}
+                        </Text>
+                    )}
+                    {error_message && (
+                        <Text as='p' size='xxs' color='loss-danger'>
+                            {error_message}
+                        </Text>
+                    )}
+                </div>
+                {result && (
+                    <div className='backtest-modal__result'>
+                        <div className='backtest-modal__stats'>
+                            {stats.map(({ label, value }) => (
+                                <div key={label} className='backtest-modal__stat'>
+                                    <Text size='xxs' color='less-prominent'>
+                                        {label}
+                                    </Text>
+                                    <Text size='xs' weight='bold'>
+                                        {value}
+                                    </Text>
+                                </div>
+                            ))}
+                        </div>
+                        <div className='backtest-modal__chart'>
+                            <ResponsiveContainer width='100%' height='100%'>
+                                <LineChart data={result.equity_curve}>
+                                    <CartesianGrid strokeDasharray='3 3' vertical={false} />
+                                    <XAxis dataKey='epoch' tickFormatter={formatEpoch} minTickGap={40} />
+                                    <YAxis domain={['auto', 'auto']} width={70} />
+                                    <Tooltip labelFormatter={label => formatEpoch(Number(label))} />
+                                    <Line type='monotone' dataKey='balance' stroke='#4bb4b3' dot={false} />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                        <div className='backtest-modal__trades'>
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th>{localize('Type')}</th>
+                                        <th>{localize('Entry spot')}</th>
+                                        <th>{localize('Exit spot')}</th>
+                                        <th>{localize('Buy price')}</th>
+                                        <th>{localize('Profit/Loss')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {result.trades.map(trade => (
+                                        <tr key={trade.contract_id}>
+                                            <td>{trade.contract_type}</td>
+                                            <td>{trade.entry_tick}</td>
+                                            <td>{trade.exit_tick}</td>
+                                            <td>{trade.buy_price}</td>
+                                            <td
+                                                className={
+                                                    trade.is_win ? 'backtest-modal--win' : 'backtest-modal--loss'
+                                                }
+                                            >
+                                                {trade.profit}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+            </Modal.Body>
+            <Modal.Footer has_separator>
+                {is_running ? (
+                    <Button type='button' text={localize('Stop')} onClick={stopBacktest} secondary />
+                ) : (
+                    <Button
+                        type='button'
+                        text={localize('Run backtest')}
+                        onClick={startBacktest}
+                        is_disabled={!dataset}
+                        primary
+                    />
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default BacktestModal;
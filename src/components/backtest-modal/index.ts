@@ -0,0 +1,4 @@
+import BacktestModal from './backtest-modal';
+import './backtest-modal.scss';
+
+export default BacktestModal;
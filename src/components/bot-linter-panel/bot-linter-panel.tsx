@@ -0,0 +1,132 @@
+import React from 'react';
+import classNames from 'classnames';
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Text from '@/components/shared_ui/text';
+import {
+    getLintFindingMessage,
+    getLintRuleTitle,
+    LINT_RULES,
+    TLintSeverity,
+} from '@/external/bot-skeleton/services/bot-linter';
+import { useStore } from '@/hooks/useStore';
+import { LegacyClose1pxIcon } from '@deriv/quill-icons/Legacy';
+import { Localize, localize } from '@deriv-com/translations';
+
+const getBlockName = (type: string) => {
+    const block = window.Blockly?.Blocks?.[type];
+    return (block?.meta instanceof Function && block.meta().display_name) || type;
+};
+
+const BotLinterPanel = observer(() => {
+    const { bot_linter } = useStore();
+    const {
+        error_count,
+        error_message,
+        findings,
+        is_panel_open,
+        jumpToBlock,
+        runLint,
+        setSeverity,
+        severities,
+        togglePanel,
+        warning_count,
+    } = bot_linter;
+    const [is_settings_open, setIsSettingsOpen] = React.useState(false);
+
+    if (!is_panel_open) return null;
+
+    const severity_options: { value: TLintSeverity; text: string }[] = [
+        { value: 'error', text: localize('Error: stop the bot from running') },
+        { value: 'warning', text: localize('Warning') },
+        { value: 'off', text: localize('Off') },
+    ];
+
+    return (
+        <div className='bot-linter-panel' data-testid='dt_bot_linter_panel'>
+            <div className='bot-linter-panel__header'>
+                <Text size='xs' weight='bold'>
+                    {localize('Bot check')}
+                </Text>
+                <Text size='xxs' color='less-prominent'>
+                    {localize('{{ error_count }} errors, {{ warning_count }} warnings', {
+                        error_count,
+                        warning_count,
+                    })}
+                </Text>
+                <span className='bot-linter-panel__close' onClick={togglePanel}>
+                    <LegacyClose1pxIcon height='16px' width='16px' fill='var(--text-general)' />
+                </span>
+            </div>
+            <div className='bot-linter-panel__actions'>
+                <Button type='button' text={localize('Check again')} onClick={runLint} small secondary />
+                <Button
+                    type='button'
+                    text={is_settings_open ? localize('Hide rules') : localize('Rules')}
+                    onClick={() => setIsSettingsOpen(!is_settings_open)}
+                    small
+                    secondary
+                />
+            </div>
+            {is_settings_open && (
+                <div className='bot-linter-panel__rules'>
+                    {LINT_RULES.map(rule => (
+                        <label key={rule} className='bot-linter-panel__rule'>
+                            <Text size='xxs'>{getLintRuleTitle(rule)}</Text>
+                            <select
+                                value={severities[rule]}
+                                onChange={e => setSeverity(rule, e.target.value as TLintSeverity)}
+                            >
+                                {severity_options.map(({ value, text }) => (
+                                    <option key={value} value={value}>
+                                        {text}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    ))}
+                </div>
+            )}
+            {error_message && (
+                <Text as='p' size='xxs' color='loss-danger'>
+                    {error_message}
+                </Text>
+            )}
+            <div className='bot-linter-panel__findings'>
+                {!findings.length ? (
+                    <Text as='p' size='xxs' color='less-prominent'>
+                        <Localize i18n_default_text='No problems found.' />
+                    </Text>
+                ) : (
+                    findings.map(finding => (
+                        <div
+                            key={`${finding.rule}_${finding.block_id}`}
+                            className={classNames(
+                                'bot-linter-panel__finding',
+                                `bot-linter-panel__finding--${finding.severity}`
+                            )}
+                        >
+                            <Text size='xxs' weight='bold'>
+                                {getLintRuleTitle(finding.rule)}
+                            </Text>
+                            <Text as='p' size='xxs'>
+                                {getLintFindingMessage(finding)}
+                            </Text>
+                            <button
+                                type='button'
+                                className='bot-linter-panel__jump'
+                                onClick={() => jumpToBlock(finding.block_id)}
+                            >
+                                {localize('Jump to "{{ block_name }}" block', {
+                                    block_name: getBlockName(finding.block_type),
+                                })}
+                            </button>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+});
+
+export default BotLinterPanel;
@@ -0,0 +1,4 @@
+import BotLinterPanel from './bot-linter-panel';
+import './bot-linter-panel.scss';
+
+export default BotLinterPanel;
@@ -0,0 +1,150 @@
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import { TExportFormat } from '@/external/bot-skeleton/services/export';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const ExportModal = observer(() => {
+    const { export_data } = useStore();
+    const {
+        bots,
+        error_message,
+        export_count,
+        exportData,
+        filter,
+        format,
+        is_exporting,
+        is_modal_open,
+        setFilter,
+        setFormat,
+        symbols,
+        tab,
+        toggleModal,
+    } = export_data;
+    const is_transactions = tab === 'transactions';
+
+    const formats: { value: TExportFormat; label: string }[] = [
+        { value: 'csv', label: localize('CSV (Excel, Google Sheets)') },
+        { value: 'json', label: localize('JSON') },
+        ...(is_transactions
+            ? [{ value: 'audit' as const, label: localize('Audit bundle with the ticks of each contract (JSON)') }]
+            : []),
+    ];
+
+    return (
+        <Modal
+            title={is_transactions ? localize('Export transactions') : localize('Export journal')}
+            className='export-modal'
+            width='560px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>
+                <div className='export-modal__content'>
+                    <div className='export-modal__field'>
+                        <label htmlFor='export-format'>{localize('Format')}</label>
+                        <select
+                            id='export-format'
+                            value={format}
+                            onChange={e => setFormat(e.target.value as TExportFormat)}
+                        >
+                            {formats.map(({ value, label }) => (
+                                <option key={value} value={value}>
+                                    {label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className='export-modal__fields'>
+                        <div className='export-modal__field'>
+                            <label htmlFor='export-date-from'>{localize('From (GMT)')}</label>
+                            <input
+                                id='export-date-from'
+                                type='date'
+                                value={filter.date_from}
+                                max={filter.date_to || undefined}
+                                onChange={e => setFilter({ date_from: e.target.value })}
+                            />
+                        </div>
+                        <div className='export-modal__field'>
+                            <label htmlFor='export-date-to'>{localize('To (GMT)')}</label>
+                            <input
+                                id='export-date-to'
+                                type='date'
+                                value={filter.date_to}
+                                min={filter.date_from || undefined}
+                                onChange={e => setFilter({ date_to: e.target.value })}
+                            />
+                        </div>
+                        {is_transactions && (
+                            <>
+                                <div className='export-modal__field'>
+                                    <label htmlFor='export-bot'>{localize('Bot')}</label>
+                                    <select
+                                        id='export-bot'
+                                        value={filter.bot}
+                                        onChange={e => setFilter({ bot: e.target.value })}
+                                    >
+                                        <option value=''>{localize('All bots')}</option>
+                                        {bots.map(bot => (
+                                            <option key={bot} value={bot}>
+                                                {bot}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className='export-modal__field'>
+                                    <label htmlFor='export-symbol'>{localize('Symbol')}</label>
+                                    <select
+                                        id='export-symbol'
+                                        value={filter.symbol}
+                                        onChange={e => setFilter({ symbol: e.target.value })}
+                                    >
+                                        <option value=''>{localize('All symbols')}</option>
+                                        {symbols.map(symbol => (
+                                            <option key={symbol} value={symbol}>
+                                                {symbol}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                    <Text as='p' size='xs' color='less-prominent'>
+                        {is_transactions ? (
+                            <Localize
+                                i18n_default_text='{{ count }} contracts match. Contracts bought outside a recorded run have no bot name.'
+                                values={{ count: export_count }}
+                            />
+                        ) : (
+                            <Localize
+                                i18n_default_text='{{ count }} messages match.'
+                                values={{ count: export_count }}
+                            />
+                        )}
+                    </Text>
+                    {error_message && (
+                        <Text as='p' size='xs' color='loss-danger'>
+                            {error_message}
+                        </Text>
+                    )}
+                </div>
+            </Modal.Body>
+            <Modal.Footer has_separator>
+                <Button
+                    type='button'
+                    text={localize('Export')}
+                    onClick={exportData}
+                    disabled={!export_count || is_exporting}
+                    is_loading={is_exporting}
+                    primary
+                />
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default ExportModal;
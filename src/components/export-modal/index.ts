@@ -0,0 +1,4 @@
+import ExportModal from './export-modal';
+import './export-modal.scss';
+
+export default ExportModal;
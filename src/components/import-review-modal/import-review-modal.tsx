@@ -0,0 +1,53 @@
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import { getScanFindingMessage, getScanFindingTitle } from '@/external/bot-skeleton/services/strategy-scanner';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const getBlockName = (type: string) => {
+    const block = window.Blockly?.Blocks?.[type];
+    return (block?.meta instanceof Function && block.meta().display_name) || type;
+};
+
+const ImportReviewModal = observer(() => {
+    const { strategy_scan } = useStore();
+    const { cancelReview, confirmReview, review } = strategy_scan;
+
+    return (
+        <Modal
+            title={localize('Review {{ bot_name }} before loading', { bot_name: review?.name })}
+            className='import-review-modal'
+            width='560px'
+            is_open={!!review}
+            toggleModal={cancelReview}
+        >
+            <Modal.Body>
+                <div className='import-review-modal__content'>
+                    <Text as='p' size='xs' lineHeight='l'>
+                        <Localize i18n_default_text='This strategy does things a shared file could hide from you. Load it only if you trust where it came from.' />
+                    </Text>
+                    <ul className='import-review-modal__findings'>
+                        {review?.findings.map((finding, index) => (
+                            <li key={`${finding.code}-${finding.block_id}-${index}`}>
+                                <Text size='xxs' weight='bold'>
+                                    {`${getScanFindingTitle(finding)} · ${getBlockName(finding.block_type)}`}
+                                </Text>
+                                <Text as='p' size='xxs'>
+                                    {getScanFindingMessage(finding)}
+                                </Text>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </Modal.Body>
+            <Modal.Footer has_separator>
+                <Button type='button' text={localize('Cancel')} onClick={cancelReview} secondary />
+                <Button type='button' text={localize('Load anyway')} onClick={confirmReview} primary />
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default ImportReviewModal;
@@ -0,0 +1,4 @@
+import ImportReviewModal from './import-review-modal';
+import './import-review-modal.scss';
+
+export default ImportReviewModal;
@@ -12,6 +12,7 @@ const LocalFooter = observer(() => {
         is_open_button_loading,
         is_open_button_disabled,
         loadStrategyOnBotBuilder,
+        reviewLocalStrategy,
         setLoadedLocalFile,
         saveStrategyToLocalStorage,
         toggleLoadModal,
@@ -27,7 +28,8 @@ const LocalFooter = observer(() => {
             )}
             <Button
                 text={localize('Open')}
-                onClick={() => {
+                onClick={async () => {
+                    if (!(await reviewLocalStrategy())) return;
                     loadStrategyOnBotBuilder();
                     saveStrategyToLocalStorage();
                     setLoadedLocalFile(null);
@@ -0,0 +1,4 @@
+import NotificationChannelsModal from './notification-channels-modal';
+import './notification-channels-modal.scss';
+
+export default NotificationChannelsModal;
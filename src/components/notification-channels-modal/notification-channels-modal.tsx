@@ -0,0 +1,243 @@
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import {
+    CHANNEL_TYPES,
+    getChannelTypeName,
+    getNotificationEventName,
+    NOTIFICATION_EVENTS,
+    TChannelType,
+    TNotificationEvent,
+} from '@/external/bot-skeleton/services/notifications';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const TEMPLATE_PLACEHOLDERS = [
+    'event',
+    'title',
+    'message',
+    'text',
+    'source',
+    'bot_name',
+    'profit',
+    'currency',
+    'timestamp',
+]
+    .map(key => `{{ ${key} }}`)
+    .join(', ');
+
+const ChannelForm = observer(() => {
+    const { notifications } = useStore();
+    const { draft, draft_error, test_results, testChannel, updateDraft } = notifications;
+    if (!draft) return null;
+
+    const { type, events } = draft;
+    const has_url = type === 'webhook' || type === 'discord' || type === 'slack';
+    const test_result = test_results[draft.id || 'draft'];
+
+    const toggleEvent = (event: TNotificationEvent) =>
+        updateDraft({ events: events.includes(event) ? events.filter(e => e !== event) : [...events, event] });
+
+    return (
+        <div className='notification-channels-modal__content'>
+            <div className='notification-channels-modal__fields'>
+                <div className='notification-channels-modal__field'>
+                    <label htmlFor='notification-channel-type'>{localize('Type')}</label>
+                    <select
+                        id='notification-channel-type'
+                        value={type}
+                        disabled={!!draft.id}
+                        onChange={e => updateDraft({ type: e.target.value as TChannelType })}
+                    >
+                        {CHANNEL_TYPES.map(channel_type => (
+                            <option key={channel_type} value={channel_type}>
+                                {getChannelTypeName(channel_type)}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div className='notification-channels-modal__field'>
+                    <label htmlFor='notification-channel-name'>{localize('Name')}</label>
+                    <input
+                        id='notification-channel-name'
+                        value={draft.name}
+                        onChange={e => updateDraft({ name: e.target.value })}
+                    />
+                </div>
+                {type === 'telegram' && (
+                    <>
+                        <div className='notification-channels-modal__field'>
+                            <label htmlFor='notification-channel-token'>{localize('Access token')}</label>
+                            <input
+                                id='notification-channel-token'
+                                type='password'
+                                value={draft.access_token}
+                                onChange={e => updateDraft({ access_token: e.target.value.trim() })}
+                            />
+                        </div>
+                        <div className='notification-channels-modal__field'>
+                            <label htmlFor='notification-channel-chat'>{localize('Chat ID')}</label>
+                            <input
+                                id='notification-channel-chat'
+                                value={draft.chat_id}
+                                onChange={e => updateDraft({ chat_id: e.target.value.trim() })}
+                            />
+                        </div>
+                    </>
+                )}
+            </div>
+            {has_url && (
+                <div className='notification-channels-modal__field'>
+                    <label htmlFor='notification-channel-url'>{localize('Webhook URL')}</label>
+                    <input
+                        id='notification-channel-url'
+                        type='url'
+                        placeholder='https://'
+                        value={draft.url}
+                        onChange={e => updateDraft({ url: e.target.value.trim() })}
+                    />
+                </div>
+            )}
+            {type === 'webhook' && (
+                <div className='notification-channels-modal__field'>
+                    <label htmlFor='notification-channel-template'>{localize('JSON payload')}</label>
+                    <textarea
+                        id='notification-channel-template'
+                        rows={8}
+                        spellCheck={false}
+                        value={draft.template}
+                        onChange={e => updateDraft({ template: e.target.value })}
+                    />
+                    <Text size='xxs' color='less-prominent'>
+                        {localize('Available placeholders:')} {TEMPLATE_PLACEHOLDERS}
+                    </Text>
+                </div>
+            )}
+            <fieldset className='notification-channels-modal__events'>
+                <legend>{localize('Send these events')}</legend>
+                {NOTIFICATION_EVENTS.map(event => (
+                    <label key={event}>
+                        <input type='checkbox' checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+                        {getNotificationEventName(event)}
+                    </label>
+                ))}
+            </fieldset>
+            {(draft_error || test_result) && (
+                <Text as='p' size='xs' color={draft_error ? 'loss-danger' : 'less-prominent'}>
+                    {draft_error || test_result}
+                </Text>
+            )}
+            <div className='notification-channels-modal__actions'>
+                <Button
+                    type='button'
+                    text={localize('Send test')}
+                    onClick={() => testChannel(draft)}
+                    disabled={!!draft_error}
+                    secondary
+                />
+            </div>
+        </div>
+    );
+});
+
+const ChannelList = observer(() => {
+    const { notifications } = useStore();
+    const { channels, editChannel, removeChannel, test_results, testChannel, toggleChannel } = notifications;
+
+    if (!channels.length) {
+        return (
+            <div className='notification-channels-modal__content'>
+                <Text as='p' size='xs' lineHeight='l'>
+                    <Localize i18n_default_text='Add a channel to get notified when your bots stop, hit take profit or stop loss, or run into an error. The Send notification block sends custom messages to the same channels.' />
+                </Text>
+            </div>
+        );
+    }
+
+    return (
+        <div className='notification-channels-modal__content'>
+            {channels.map(channel => (
+                <div key={channel.id} className='notification-channels-modal__channel'>
+                    <input
+                        type='checkbox'
+                        aria-label={localize('Enabled')}
+                        checked={channel.is_enabled}
+                        onChange={() => toggleChannel(channel.id)}
+                    />
+                    <div className='notification-channels-modal__channel-details'>
+                        <Text size='xs' weight='bold'>
+                            {channel.name || getChannelTypeName(channel.type)}
+                        </Text>
+                        <Text size='xxs' color='less-prominent'>
+                            {[getChannelTypeName(channel.type), ...channel.events.map(getNotificationEventName)].join(
+                                ' · '
+                            )}
+                        </Text>
+                        {test_results[channel.id] && (
+                            <Text size='xxs' color='less-prominent'>
+                                {test_results[channel.id]}
+                            </Text>
+                        )}
+                    </div>
+                    <Button
+                        type='button'
+                        text={localize('Test')}
+                        onClick={() => testChannel(channel)}
+                        secondary
+                        small
+                    />
+                    <Button
+                        type='button'
+                        text={localize('Edit')}
+                        onClick={() => editChannel(channel.id)}
+                        secondary
+                        small
+                    />
+                    <Button
+                        type='button'
+                        text={localize('Delete')}
+                        onClick={() => removeChannel(channel.id)}
+                        secondary
+                        small
+                    />
+                </div>
+            ))}
+        </div>
+    );
+});
+
+const NotificationChannelsModal = observer(() => {
+    const { notifications } = useStore();
+    const { addChannel, cancelDraft, draft, draft_error, is_modal_open, saveDraft, toggleModal } = notifications;
+
+    return (
+        <Modal
+            title={localize('Notification channels')}
+            className='notification-channels-modal'
+            width='640px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>{draft ? <ChannelForm /> : <ChannelList />}</Modal.Body>
+            <Modal.Footer has_separator>
+                {draft ? (
+                    <>
+                        <Button type='button' text={localize('Cancel')} onClick={cancelDraft} secondary />
+                        <Button
+                            type='button'
+                            text={localize('Save')}
+                            onClick={saveDraft}
+                            disabled={!!draft_error}
+                            primary
+                        />
+                    </>
+                ) : (
+                    <Button type='button' text={localize('Add channel')} onClick={() => addChannel()} primary />
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default NotificationChannelsModal;
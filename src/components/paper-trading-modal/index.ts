@@ -0,0 +1,4 @@
+import PaperTradingModal from './paper-trading-modal';
+import './paper-trading-modal.scss';
+
+export default PaperTradingModal;
@@ -0,0 +1,134 @@
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Input from '@/components/shared_ui/input';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import { DEFAULT_PAPER_BALANCE } from '@/external/bot-skeleton/services/paper-trading';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const PaperTradingModal = observer(() => {
+    const { paper_trading } = useStore();
+    const {
+        error_message,
+        is_enabled,
+        is_modal_open,
+        is_replaying,
+        resetBalance,
+        setEnabled,
+        setTickInterval,
+        startReplay,
+        state,
+        stopReplay,
+        summaries,
+        tick_interval_ms,
+        toggleModal,
+    } = paper_trading;
+    const [initial_balance, setInitialBalance] = React.useState(DEFAULT_PAPER_BALANCE);
+    const [replay_symbol, setReplaySymbol] = React.useState('');
+    const symbol = replay_symbol || summaries[0]?.symbol || '';
+
+    const stats = [
+        { label: localize('Balance'), value: `${state.balance.toFixed(2)} ${state.currency}` },
+        { label: localize('Open contracts'), value: state.open_contracts },
+        { label: localize('Ticks'), value: state.replay_symbol ?? localize('Live') },
+    ];
+
+    return (
+        <Modal
+            title={localize('Paper trading')}
+            className='paper-trading-modal'
+            width='640px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>
+                <div className='paper-trading-modal__content'>
+                    <Text as='p' size='xs' lineHeight='l'>
+                        <Localize i18n_default_text='While paper trading is on, Bot Builder, Smart Trading and Auto Trader buy contracts on a simulated account. Contracts are priced from a local payout table and settled on live ticks, or on recorded ticks when a replay is running. No login is needed.' />
+                    </Text>
+                    <div className='paper-trading-modal__stats'>
+                        {stats.map(({ label, value }) => (
+                            <div key={label} className='paper-trading-modal__stat'>
+                                <Text size='xxs' color='less-prominent'>
+                                    {label}
+                                </Text>
+                                <Text size='xs' weight='bold'>
+                                    {value}
+                                </Text>
+                            </div>
+                        ))}
+                    </div>
+                    <div className='paper-trading-modal__row'>
+                        <Input
+                            type='number'
+                            label={localize('Starting balance ({{ currency }})', { currency: state.currency })}
+                            value={initial_balance}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setInitialBalance(Number(e.target.value))
+                            }
+                        />
+                        <Button
+                            type='button'
+                            text={localize('Reset balance')}
+                            onClick={() => resetBalance(initial_balance)}
+                            secondary
+                        />
+                    </div>
+                    {is_enabled && (
+                        <div className='paper-trading-modal__row'>
+                            <select
+                                className='paper-trading-modal__select'
+                                value={symbol}
+                                onChange={e => setReplaySymbol(e.target.value)}
+                                disabled={is_replaying || !summaries.length}
+                            >
+                                {!summaries.length && <option value=''>{localize('No ticks recorded yet')}</option>}
+                                {summaries.map(({ symbol: summary_symbol, count }) => (
+                                    <option key={summary_symbol} value={summary_symbol}>
+                                        {localize('{{ symbol }} ({{ count }} ticks)', {
+                                            symbol: summary_symbol,
+                                            count,
+                                        })}
+                                    </option>
+                                ))}
+                            </select>
+                            <Input
+                                type='number'
+                                label={localize('Tick interval (ms)')}
+                                defaultValue={tick_interval_ms}
+                                disabled={is_replaying}
+                                onBlur={(e: React.FocusEvent<HTMLInputElement>) =>
+                                    setTickInterval(Number(e.target.value))
+                                }
+                            />
+                            <Button
+                                type='button'
+                                text={is_replaying ? localize('Stop replay') : localize('Replay ticks')}
+                                onClick={() => (is_replaying ? stopReplay() : startReplay(symbol))}
+                                disabled={!is_replaying && !symbol}
+                                secondary
+                            />
+                        </div>
+                    )}
+                    {error_message && (
+                        <Text as='p' size='xs' color='loss-danger'>
+                            {error_message}
+                        </Text>
+                    )}
+                </div>
+            </Modal.Body>
+            <Modal.Footer has_separator>
+                <Button
+                    type='button'
+                    text={is_enabled ? localize('Stop paper trading') : localize('Start paper trading')}
+                    onClick={() => setEnabled(!is_enabled)}
+                    primary
+                />
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default PaperTradingModal;
@@ -0,0 +1,4 @@
+import RiskManagerModal from './risk-manager-modal';
+import './risk-manager-modal.scss';
+
+export default RiskManagerModal;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Input from '@/components/shared_ui/input';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import { TRiskLimits } from '@/external/bot-skeleton/services/risk';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const RiskManagerModal = observer(() => {
+    const { risk, client } = useStore();
+    const {
+        daily_profit,
+        engageKillSwitch,
+        exposure,
+        is_modal_open,
+        last_violation_message,
+        open_contracts,
+        releaseKillSwitch,
+        setLimits,
+        state,
+        toggleModal,
+    } = risk;
+    const { limits, is_kill_switch_engaged } = state;
+    const currency = client.currency || 'USD';
+
+    const limit_inputs: { key: keyof TRiskLimits; label: string }[] = [
+        { key: 'daily_loss_limit', label: localize('Daily loss limit ({{ currency }})', { currency }) },
+        { key: 'max_exposure', label: localize('Max exposure ({{ currency }})', { currency }) },
+        { key: 'max_open_contracts', label: localize('Max open contracts') },
+        { key: 'max_stake', label: localize('Max stake ({{ currency }})', { currency }) },
+    ];
+
+    const onLimitBlur = (key: keyof TRiskLimits) => (e: React.FocusEvent<HTMLInputElement>) => {
+        const value = Math.max(0, Number(e.target.value));
+        if (Number.isFinite(value) && value !== limits[key]) setLimits({ [key]: value });
+    };
+
+    const stats = [
+        { label: localize("Today's P/L"), value: `${daily_profit.toFixed(2)} ${currency}` },
+        { label: localize('Exposure'), value: `${exposure.toFixed(2)} ${currency}` },
+        { label: localize('Open contracts'), value: open_contracts },
+    ];
+
+    return (
+        <Modal
+            title={localize('Risk manager')}
+            className='risk-manager-modal'
+            width='640px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>
+                <div className='risk-manager-modal__content'>
+                    <Text as='p' size='xs' lineHeight='l'>
+                        <Localize i18n_default_text='These limits apply to every bot trading on this account: Bot Builder, Smart Trading, Auto Trader and Copy Trading. A limit of 0 disables it.' />
+                    </Text>
+                    <div className='risk-manager-modal__inputs'>
+                        {limit_inputs.map(({ key, label }) => (
+                            <Input
+                                key={`${key}_${limits[key]}`}
+                                type='number'
+                                label={label}
+                                defaultValue={limits[key]}
+                                onBlur={onLimitBlur(key)}
+                            />
+                        ))}
+                    </div>
+                    <div className='risk-manager-modal__stats'>
+                        {stats.map(({ label, value }) => (
+                            <div key={label} className='risk-manager-modal__stat'>
+                                <Text size='xxs' color='less-prominent'>
+                                    {label}
+                                </Text>
+                                <Text size='xs' weight='bold'>
+                                    {value}
+                                </Text>
+                            </div>
+                        ))}
+                    </div>
+                    {(is_kill_switch_engaged || last_violation_message) && (
+                        <Text as='p' size='xs' color='loss-danger'>
+                            {last_violation_message ||
+                                localize('The kill switch is engaged. No new trades will be placed.')}
+                        </Text>
+                    )}
+                </div>
+            </Modal.Body>
+            <Modal.Footer has_separator>
+                {is_kill_switch_engaged ? (
+                    <Button type='button' text={localize('Release kill switch')} onClick={releaseKillSwitch} primary />
+                ) : (
+                    <Button
+                        type='button'
+                        text={localize('Stop all bots')}
+                        onClick={engageKillSwitch}
+                        className='risk-manager-modal__kill-switch'
+                        primary
+                    />
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default RiskManagerModal;
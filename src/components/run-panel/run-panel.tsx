@@ -1,6 +1,7 @@
 import React from 'react';
 import classNames from 'classnames';
 import { observer } from 'mobx-react-lite';
+import ActiveBots from '@/components/active-bots';
 import Journal from '@/components/journal';
 import SelfExclusion from '@/components/self-exclusion';
 import Button from '@/components/shared_ui/button';
@@ -13,6 +14,7 @@ import Summary from '@/components/summary';
 import TradeAnimation from '@/components/trade-animation';
 import Transactions from '@/components/transactions';
 import { DBOT_TABS } from '@/constants/bot-contents';
+import { run_panel as run_panel_tabs } from '@/constants/run-panel';
 import { popover_zindex } from '@/constants/z-indexes';
 import usePWA from '@/hooks/usePWA';
 import { useStore } from '@/hooks/useStore';
@@ -159,8 +161,13 @@ const DrawerContent = ({ active_index, is_drawer_open, active_tour, setActiveTab
                 <div id='db-run-panel-tab__journal' label={<Localize i18n_default_text='Journal' />}>
                     <Journal />
                 </div>
+                <div id='db-run-panel-tab__bots' label={<Localize i18n_default_text='Bots' />}>
+                    <ActiveBots />
+                </div>
             </Tabs>
-            {((is_drawer_open && active_index !== 2) || active_tour) && <StatisticsSummary {...props} />}
+            {((is_drawer_open && active_index < run_panel_tabs.JOURNAL) || active_tour) && (
+                <StatisticsSummary {...props} />
+            )}
         </>
     );
 };
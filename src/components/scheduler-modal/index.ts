@@ -0,0 +1,4 @@
+import SchedulerModal from './scheduler-modal';
+import './scheduler-modal.scss';
+
+export default SchedulerModal;
@@ -0,0 +1,225 @@
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import {
+    ALL_DAYS,
+    getDayName,
+    getNextScheduleTime,
+    getSkipReasonMessage,
+    TBotSchedule,
+    WEEKDAYS,
+} from '@/external/bot-skeleton/services/scheduler';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const formatGmt = (timestamp: number) => `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} GMT`;
+
+const getDaysLabel = (days: number[]) => {
+    if (days.length === ALL_DAYS.length) return localize('Every day');
+    if (days.length === WEEKDAYS.length && WEEKDAYS.every(day => days.includes(day))) return localize('Weekdays');
+    return [...days]
+        .sort()
+        .map(day => getDayName(day))
+        .join(', ');
+};
+
+const getTimesLabel = ({ start_time, end_time }: TBotSchedule) =>
+    start_time
+        ? localize('{{ start_time }}–{{ end_time }} GMT', { start_time, end_time })
+        : localize('Stop at {{ end_time }} GMT', { end_time });
+
+const ScheduleForm = observer(() => {
+    const { load_modal, scheduler } = useStore();
+    const { draft, draft_error, updateDraft } = scheduler;
+    if (!draft) return null;
+
+    const strategies = load_modal.dashboard_strategies ?? [];
+    const toggleDay = (day: number) =>
+        updateDraft({ days: draft.days.includes(day) ? draft.days.filter(d => d !== day) : [...draft.days, day] });
+
+    return (
+        <div className='scheduler-modal__content'>
+            <div className='scheduler-modal__field'>
+                <label htmlFor='scheduler-strategy'>{localize('Bot')}</label>
+                <select
+                    id='scheduler-strategy'
+                    value={draft.strategy_id}
+                    onChange={e =>
+                        updateDraft({
+                            strategy_id: e.target.value,
+                            strategy_name: strategies.find(({ id }) => id === e.target.value)?.name ?? '',
+                        })
+                    }
+                >
+                    <option value=''>{localize('Choose a bot')}</option>
+                    {strategies.map(({ id, name }) => (
+                        <option key={id} value={id}>
+                            {name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            <fieldset className='scheduler-modal__days'>
+                <legend>{localize('Days (GMT)')}</legend>
+                {ALL_DAYS.map(day => (
+                    <label key={day}>
+                        <input type='checkbox' checked={draft.days.includes(day)} onChange={() => toggleDay(day)} />
+                        {getDayName(day)}
+                    </label>
+                ))}
+            </fieldset>
+            <div className='scheduler-modal__fields'>
+                <div className='scheduler-modal__field'>
+                    <label htmlFor='scheduler-start-time'>
+                        <input
+                            type='checkbox'
+                            checked={!!draft.start_time}
+                            onChange={e => updateDraft({ start_time: e.target.checked ? '08:00' : '' })}
+                        />
+                        {localize('Start at (GMT)')}
+                    </label>
+                    <input
+                        id='scheduler-start-time'
+                        type='time'
+                        value={draft.start_time}
+                        disabled={!draft.start_time}
+                        onChange={e => updateDraft({ start_time: e.target.value })}
+                    />
+                </div>
+                <div className='scheduler-modal__field'>
+                    <label htmlFor='scheduler-end-time'>{localize('Stop at (GMT)')}</label>
+                    <input
+                        id='scheduler-end-time'
+                        type='time'
+                        value={draft.end_time}
+                        onChange={e => updateDraft({ end_time: e.target.value })}
+                    />
+                </div>
+            </div>
+            <Text as='p' size='xxs' color='less-prominent' lineHeight='l'>
+                {draft.start_time ? (
+                    <Localize i18n_default_text='The bot is loaded into Bot Builder and started when the window opens, unless its market is closed or another bot is running. It stops when the window ends or the market closes.' />
+                ) : (
+                    <Localize i18n_default_text='Without a start time, the bot is only stopped at the stop time if it is running.' />
+                )}
+            </Text>
+            {draft_error && (
+                <Text as='p' size='xs' color='loss-danger'>
+                    {draft_error}
+                </Text>
+            )}
+        </div>
+    );
+});
+
+const ScheduleList = observer(() => {
+    const { common, scheduler } = useStore();
+    const { clearSkippedRuns, editSchedule, removeSchedule, schedules, skipped_runs, toggleSchedule } = scheduler;
+    const now = common.server_time.valueOf();
+
+    return (
+        <div className='scheduler-modal__content'>
+            <Text as='p' size='xs' lineHeight='l'>
+                <Localize i18n_default_text='Schedules follow the server time in GMT and only run while this page is open.' />
+            </Text>
+            {schedules.map(schedule => {
+                const next_time = schedule.is_enabled ? getNextScheduleTime(schedule, now) : null;
+                return (
+                    <div key={schedule.id} className='scheduler-modal__schedule'>
+                        <input
+                            type='checkbox'
+                            aria-label={localize('Enabled')}
+                            checked={schedule.is_enabled}
+                            onChange={() => toggleSchedule(schedule.id)}
+                        />
+                        <div className='scheduler-modal__schedule-details'>
+                            <Text size='xs' weight='bold'>
+                                {schedule.strategy_name}
+                            </Text>
+                            <Text size='xxs' color='less-prominent'>
+                                {`${getDaysLabel(schedule.days)} · ${getTimesLabel(schedule)}`}
+                            </Text>
+                            {next_time && (
+                                <Text size='xxs' color='less-prominent'>
+                                    {localize('Next: {{ time }}', { time: formatGmt(next_time) })}
+                                </Text>
+                            )}
+                        </div>
+                        <Button
+                            type='button'
+                            text={localize('Edit')}
+                            onClick={() => editSchedule(schedule.id)}
+                            secondary
+                            small
+                        />
+                        <Button
+                            type='button'
+                            text={localize('Delete')}
+                            onClick={() => removeSchedule(schedule.id)}
+                            secondary
+                            small
+                        />
+                    </div>
+                );
+            })}
+            {!!skipped_runs.length && (
+                <div className='scheduler-modal__skipped'>
+                    <div className='scheduler-modal__skipped-header'>
+                        <Text size='xs' weight='bold'>
+                            {localize('Skipped runs')}
+                        </Text>
+                        <Button type='button' text={localize('Clear')} onClick={clearSkippedRuns} secondary small />
+                    </div>
+                    <table>
+                        <tbody>
+                            {skipped_runs.map(({ id, time, strategy_name, symbol, reason }) => (
+                                <tr key={id}>
+                                    <td>{formatGmt(time)}</td>
+                                    <td>{strategy_name}</td>
+                                    <td>{symbol}</td>
+                                    <td>{getSkipReasonMessage(reason)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+});
+
+const SchedulerModal = observer(() => {
+    const { scheduler } = useStore();
+    const { addSchedule, cancelDraft, draft, draft_error, is_modal_open, saveDraft, toggleModal } = scheduler;
+
+    return (
+        <Modal
+            title={localize('Bot schedules')}
+            className='scheduler-modal'
+            width='640px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>{draft ? <ScheduleForm /> : <ScheduleList />}</Modal.Body>
+            <Modal.Footer has_separator>
+                {draft ? (
+                    <>
+                        <Button type='button' text={localize('Cancel')} onClick={cancelDraft} secondary />
+                        <Button
+                            type='button'
+                            text={localize('Save')}
+                            onClick={saveDraft}
+                            disabled={!!draft_error}
+                            primary
+                        />
+                    </>
+                ) : (
+                    <Button type='button' text={localize('Add schedule')} onClick={() => addSchedule()} primary />
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default SchedulerModal;
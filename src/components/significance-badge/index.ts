@@ -0,0 +1,4 @@
+import SignificanceBadge from './significance-badge';
+import './significance-badge.scss';
+
+export default SignificanceBadge;
@@ -0,0 +1,61 @@
+import classNames from 'classnames';
+import { SIGNIFICANCE_LEVEL, TSignificance } from '@/lib/analysis/statistics';
+import { localize } from '@deriv-com/translations';
+
+type TSignificanceBadge = {
+    significance: TSignificance;
+    className?: string;
+};
+
+const formatPValue = (p_value: number) => (p_value < 0.001 ? '< 0.001' : p_value.toFixed(3));
+
+const getTestDescription = ({ test, interval, statistic }: TSignificance) => {
+    switch (test) {
+        case 'chi_square':
+            return localize('Chi-square test of the digit distribution against a uniform one (χ² = {{ statistic }}).', {
+                statistic: statistic.toFixed(2),
+            });
+        case 'runs':
+            return localize('Runs test of the sequence for streaks or alternation (z = {{ statistic }}).', {
+                statistic: statistic.toFixed(2),
+            });
+        default:
+            return localize('Binomial test of the observed rate, 95% interval {{ lower }}% to {{ upper }}%.', {
+                lower: ((interval?.lower ?? 0) * 100).toFixed(1),
+                upper: ((interval?.upper ?? 1) * 100).toFixed(1),
+            });
+    }
+};
+
+/**
+ * Tells whether the bias behind a signal stands out from chance for the current sample,
+ * with the p-value and sample size so that small samples are visible at a glance.
+ */
+const SignificanceBadge = ({ significance, className }: TSignificanceBadge) => {
+    const { is_significant, p_value, sample_size } = significance;
+
+    return (
+        <span
+            className={classNames(
+                'significance-badge',
+                { 'significance-badge--significant': is_significant },
+                className
+            )}
+            title={`${getTestDescription(significance)} ${localize('Significant below p = {{ level }}.', {
+                level: SIGNIFICANCE_LEVEL,
+            })}`}
+        >
+            <span className='significance-badge__label'>
+                {is_significant ? localize('Significant') : localize('Not significant')}
+            </span>
+            <span className='significance-badge__details'>
+                {localize('p = {{ p_value }}, n = {{ sample_size }}', {
+                    p_value: formatPValue(p_value),
+                    sample_size,
+                })}
+            </span>
+        </span>
+    );
+};
+
+export default SignificanceBadge;
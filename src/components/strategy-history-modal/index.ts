@@ -0,0 +1,4 @@
+import StrategyHistoryModal from './strategy-history-modal';
+import './strategy-history-modal.scss';
+
+export default StrategyHistoryModal;
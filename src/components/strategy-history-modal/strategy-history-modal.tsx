@@ -0,0 +1,215 @@
+import React from 'react';
+import classNames from 'classnames';
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Input from '@/components/shared_ui/input';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import { TFieldChange, TStrategyVersion } from '@/external/bot-skeleton/services/strategy-history';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const getBlockName = (type: string) => {
+    const block = window.Blockly?.Blocks?.[type];
+    return (block?.meta instanceof Function && block.meta().display_name) || type;
+};
+
+const formatFieldChange = ({ name, before, after }: TFieldChange) =>
+    `${name}: ${before ?? localize('(none)')} → ${after ?? localize('(none)')}`;
+
+type TVersionSelectProps = {
+    label: string;
+    value: string;
+    versions: TStrategyVersion[];
+    onChange: (version_id: string) => void;
+};
+
+const VersionSelect = ({ label, value, versions, onChange }: TVersionSelectProps) => (
+    <label className='strategy-history-modal__select'>
+        <Text size='xxs' color='less-prominent'>
+            {label}
+        </Text>
+        <select value={value} onChange={e => onChange(e.target.value)}>
+            {versions.map(({ id, timestamp, note }) => (
+                <option key={id} value={id}>
+                    {note ? `${formatTimestamp(timestamp)} - ${note}` : formatTimestamp(timestamp)}
+                </option>
+            ))}
+        </select>
+    </label>
+);
+
+const StrategyHistoryModal = observer(() => {
+    const { strategy_history } = useStore();
+    const {
+        base_version_id,
+        compare_version_id,
+        diff,
+        error_message,
+        is_loading,
+        is_modal_open,
+        restoreVersion,
+        setBaseVersionId,
+        setCompareVersionId,
+        toggleModal,
+        updateNote,
+        versions,
+    } = strategy_history;
+
+    const onNoteBlur = (version: TStrategyVersion) => (e: React.FocusEvent<HTMLInputElement>) => {
+        const note = e.target.value.trim();
+        if (note !== version.note) updateNote(version.id, note);
+    };
+
+    const diff_rows = diff
+        ? [
+              ...diff.added.map(block => ({
+                  id: block.id,
+                  status: 'added',
+                  label: localize('Added'),
+                  name: getBlockName(block.type),
+                  details: Object.entries(block.fields).map(([name, value]) => `${name}: ${value}`),
+              })),
+              ...diff.removed.map(block => ({
+                  id: block.id,
+                  status: 'removed',
+                  label: localize('Removed'),
+                  name: getBlockName(block.type),
+                  details: Object.entries(block.fields).map(([name, value]) => `${name}: ${value}`),
+              })),
+              ...diff.changed.map(change => ({
+                  id: change.id,
+                  status: 'changed',
+                  label: localize('Changed'),
+                  name: getBlockName(change.type),
+                  details: [
+                      ...change.field_changes.map(formatFieldChange),
+                      ...(change.is_moved ? [localize('Moved to another block')] : []),
+                      ...(change.is_toggled ? [localize('Enabled or disabled')] : []),
+                  ],
+              })),
+          ]
+        : [];
+
+    return (
+        <Modal
+            title={localize('Version history')}
+            className='strategy-history-modal'
+            width='880px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>
+                <div className='strategy-history-modal__content'>
+                    <Text as='p' size='xs' lineHeight='l'>
+                        <Localize i18n_default_text='A version of this bot is kept every time it is saved with different blocks or values. Compare two versions to see what changed, or restore one to the workspace.' />
+                    </Text>
+                    {error_message && (
+                        <Text as='p' size='xxs' color='loss-danger'>
+                            {error_message}
+                        </Text>
+                    )}
+                    {!versions.length ? (
+                        <Text as='p' size='xs' color='less-prominent'>
+                            {is_loading ? localize('Loading...') : localize('This bot has no saved versions yet.')}
+                        </Text>
+                    ) : (
+                        <>
+                            <div className='strategy-history-modal__versions'>
+                                <table>
+                                    <thead>
+                                        <tr>
+                                            <th>{localize('Saved')}</th>
+                                            <th>{localize('Name')}</th>
+                                            <th>{localize('Note')}</th>
+                                            <th />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {versions.map((version, index) => (
+                                            <tr key={version.id}>
+                                                <td>{formatTimestamp(version.timestamp)}</td>
+                                                <td>{version.name}</td>
+                                                <td>
+                                                    <Input
+                                                        key={`${version.id}_${version.note}`}
+                                                        type='text'
+                                                        defaultValue={version.note}
+                                                        placeholder={localize('Add a note')}
+                                                        max_characters={80}
+                                                        onBlur={onNoteBlur(version)}
+                                                    />
+                                                </td>
+                                                <td>
+                                                    <Button
+                                                        type='button'
+                                                        text={index ? localize('Restore') : localize('Latest')}
+                                                        onClick={() => restoreVersion(version.id)}
+                                                        is_disabled={!index}
+                                                        small
+                                                        secondary
+                                                    />
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <div className='strategy-history-modal__compare'>
+                                <VersionSelect
+                                    label={localize('Compare')}
+                                    value={base_version_id}
+                                    versions={versions}
+                                    onChange={setBaseVersionId}
+                                />
+                                <VersionSelect
+                                    label={localize('With')}
+                                    value={compare_version_id}
+                                    versions={versions}
+                                    onChange={setCompareVersionId}
+                                />
+                            </div>
+                            <div className='strategy-history-modal__diff'>
+                                {!diff_rows.length ? (
+                                    <Text as='p' size='xs' color='less-prominent'>
+                                        {diff
+                                            ? localize('These versions have the same blocks and values.')
+                                            : localize('Select two versions to compare.')}
+                                    </Text>
+                                ) : (
+                                    diff_rows.map(({ id, status, label, name, details }) => (
+                                        <div
+                                            key={`${status}_${id}`}
+                                            className={classNames(
+                                                'strategy-history-modal__change',
+                                                `strategy-history-modal__change--${status}`
+                                            )}
+                                        >
+                                            <Text size='xxs' weight='bold'>
+                                                {`${label}: ${name}`}
+                                            </Text>
+                                            {details.map(detail => (
+                                                <Text key={detail} as='p' size='xxs'>
+                                                    {detail}
+                                                </Text>
+                                            ))}
+                                        </div>
+                                    ))
+                                )}
+                                {diff && (
+                                    <Text as='p' size='xxs' color='less-prominent'>
+                                        {localize('{{ count }} blocks unchanged', { count: diff.unchanged_count })}
+                                    </Text>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </Modal.Body>
+        </Modal>
+    );
+});
+
+export default StrategyHistoryModal;
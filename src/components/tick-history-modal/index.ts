@@ -0,0 +1,4 @@
+import TickHistoryModal from './tick-history-modal';
+import './tick-history-modal.scss';
+
+export default TickHistoryModal;
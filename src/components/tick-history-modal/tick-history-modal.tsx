@@ -0,0 +1,172 @@
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Input from '@/components/shared_ui/input';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import ToggleSwitch from '@/components/shared_ui/toggle-switch';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+
+const formatEpoch = (epoch: number) => new Date(epoch * 1000).toLocaleString();
+
+const TickHistoryModal = observer(() => {
+    const { tick_history, backtest } = useStore();
+    const {
+        error_message,
+        exportSymbol,
+        importFile,
+        is_loading,
+        is_modal_open,
+        removeSymbol,
+        settings,
+        summaries,
+        toggleModal,
+        updateSettings,
+        useForAnalysis,
+        useForBacktest,
+    } = tick_history;
+    const file_input_ref = React.useRef<HTMLInputElement>(null);
+
+    const onLimitBlur = (key: 'max_ticks_per_symbol' | 'max_age_days') => (e: React.FocusEvent<HTMLInputElement>) => {
+        const value = Math.max(0, Math.floor(Number(e.target.value)));
+        if (Number.isFinite(value) && value !== settings[key]) updateSettings({ [key]: value });
+    };
+
+    return (
+        <Modal
+            title={localize('Recorded ticks')}
+            className='tick-history-modal'
+            width='880px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>
+                <div className='tick-history-modal__settings'>
+                    <Text as='p' size='xs' lineHeight='l'>
+                        <Localize i18n_default_text='Ticks streamed to this browser are kept per market so they can be analysed or replayed later. A limit of 0 keeps everything.' />
+                    </Text>
+                    <div className='tick-history-modal__toggle'>
+                        <ToggleSwitch
+                            id='tick-history-recording'
+                            is_enabled={settings.is_enabled}
+                            handleToggle={() => updateSettings({ is_enabled: !settings.is_enabled })}
+                        />
+                        <Text size='xs'>{localize('Record ticks')}</Text>
+                    </div>
+                    <div className='tick-history-modal__inputs'>
+                        <Input
+                            key={`max_ticks_${settings.max_ticks_per_symbol}`}
+                            type='number'
+                            label={localize('Max ticks per market')}
+                            defaultValue={settings.max_ticks_per_symbol}
+                            onBlur={onLimitBlur('max_ticks_per_symbol')}
+                        />
+                        <Input
+                            key={`max_age_${settings.max_age_days}`}
+                            type='number'
+                            label={localize('Keep for (days)')}
+                            defaultValue={settings.max_age_days}
+                            onBlur={onLimitBlur('max_age_days')}
+                        />
+                    </div>
+                    {error_message && (
+                        <Text as='p' size='xxs' color='loss-danger'>
+                            {error_message}
+                        </Text>
+                    )}
+                </div>
+                <div className='tick-history-modal__datasets'>
+                    {!summaries.length ? (
+                        <Text as='p' size='xs' color='less-prominent'>
+                            {is_loading ? localize('Loading...') : localize('No ticks have been recorded yet.')}
+                        </Text>
+                    ) : (
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>{localize('Market')}</th>
+                                    <th>{localize('Ticks')}</th>
+                                    <th>{localize('From')}</th>
+                                    <th>{localize('To')}</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {summaries.map(({ symbol, count, first_epoch, last_epoch }) => (
+                                    <tr key={symbol}>
+                                        <td>{symbol}</td>
+                                        <td>{count}</td>
+                                        <td>{formatEpoch(first_epoch)}</td>
+                                        <td>{formatEpoch(last_epoch)}</td>
+                                        <td>
+                                            <div className='tick-history-modal__actions'>
+                                                <Button
+                                                    type='button'
+                                                    text={localize('Analyse')}
+                                                    onClick={() => useForAnalysis(symbol)}
+                                                    small
+                                                    secondary
+                                                />
+                                                <Button
+                                                    type='button'
+                                                    text={localize('Backtest')}
+                                                    onClick={() => useForBacktest(symbol)}
+                                                    is_disabled={backtest.is_running || count < 2}
+                                                    small
+                                                    secondary
+                                                />
+                                                <Button
+                                                    type='button'
+                                                    text='CSV'
+                                                    onClick={() => exportSymbol(symbol, 'csv')}
+                                                    small
+                                                    secondary
+                                                />
+                                                <Button
+                                                    type='button'
+                                                    text='JSON'
+                                                    onClick={() => exportSymbol(symbol, 'json')}
+                                                    small
+                                                    secondary
+                                                />
+                                                <Button
+                                                    type='button'
+                                                    text={localize('Delete')}
+                                                    onClick={() => removeSymbol(symbol)}
+                                                    small
+                                                    secondary
+                                                />
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </Modal.Body>
+            <Modal.Footer has_separator>
+                <input
+                    ref={file_input_ref}
+                    type='file'
+                    accept='.json,.csv'
+                    hidden
+                    onChange={e => {
+                        const [file] = Array.from(e.target.files ?? []);
+                        if (file) importFile(file);
+                        e.target.value = '';
+                    }}
+                />
+                <Button
+                    type='button'
+                    text={localize('Import tick file')}
+                    onClick={() => file_input_ref.current?.click()}
+                    primary
+                />
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default TickHistoryModal;
@@ -0,0 +1,4 @@
+import TradeAnalyticsModal from './trade-analytics-modal';
+import './trade-analytics-modal.scss';
+
+export default TradeAnalyticsModal;
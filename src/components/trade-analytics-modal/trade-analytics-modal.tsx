@@ -0,0 +1,300 @@
+import classNames from 'classnames';
+import { observer } from 'mobx-react-lite';
+import { formatMoney } from '@/components/shared';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import { TRiskSource } from '@/external/bot-skeleton/services/risk';
+import { getRunSourceName } from '@/external/bot-skeleton/services/run-history';
+import { TGroupStats, TTradeAnalytics } from '@/external/bot-skeleton/services/trade-analytics';
+import { useStore } from '@/hooks/useStore';
+import { TAnalyticsScope } from '@/stores/trade-analytics-store';
+import { Localize, localize } from '@deriv-com/translations';
+
+const SOURCES: TRiskSource[] = ['blockly', 'smart_trading', 'auto_trader', 'copy_trader'];
+
+const CURVE_WIDTH = 600;
+const CURVE_HEIGHT = 160;
+
+const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatDuration = (duration: number) => {
+    const seconds = Math.floor(duration / 1000);
+    return [Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+        .map(value => String(value).padStart(2, '0'))
+        .join(':');
+};
+
+const formatHour = (hour: string) => `${hour.padStart(2, '0')}:00`;
+
+const getProfitClassName = (profit: number) =>
+    classNames({
+        'trade-analytics-modal__profit--won': profit > 0,
+        'trade-analytics-modal__profit--lost': profit < 0,
+    });
+
+type TEquityCurveProps = Pick<TTradeAnalytics, 'equity_curve' | 'drawdown'>;
+
+/** Equity after each trade, starting from 0, with the largest drawdown and its recovery marked. */
+const EquityCurve = ({ equity_curve, drawdown }: TEquityCurveProps) => {
+    const equities = [0, ...equity_curve.map(({ equity }) => equity)];
+    const min = Math.min(...equities);
+    const span = Math.max(...equities) - min || 1;
+    const getX = (index: number) => ((index + 1) / equity_curve.length) * CURVE_WIDTH;
+    const getY = (equity: number) => CURVE_HEIGHT - ((equity - min) / span) * CURVE_HEIGHT;
+    const points = equities.map((equity, index) => `${getX(index - 1)},${getY(equity)}`).join(' ');
+    const { max_drawdown, peak_index, trough_index, recovery_index } = drawdown;
+
+    return (
+        <svg
+            className='trade-analytics-modal__curve'
+            viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+            preserveAspectRatio='none'
+            role='img'
+            aria-label={localize('Equity after each trade')}
+        >
+            <line className='trade-analytics-modal__curve-zero' x1={0} x2={CURVE_WIDTH} y1={getY(0)} y2={getY(0)} />
+            {max_drawdown > 0 && (
+                <rect
+                    className='trade-analytics-modal__curve-drawdown'
+                    x={getX(peak_index)}
+                    width={getX(recovery_index ?? equity_curve.length - 1) - getX(peak_index)}
+                    y={0}
+                    height={CURVE_HEIGHT}
+                />
+            )}
+            <polyline className='trade-analytics-modal__curve-line' points={points} />
+            {max_drawdown > 0 && (
+                <line
+                    className='trade-analytics-modal__curve-drop'
+                    x1={getX(trough_index)}
+                    x2={getX(trough_index)}
+                    y1={getY(equities[peak_index + 1])}
+                    y2={getY(equities[trough_index + 1])}
+                />
+            )}
+        </svg>
+    );
+};
+
+type TStreakHistogramProps = Pick<TTradeAnalytics, 'streaks'>;
+
+const StreakHistogram = ({ streaks }: TStreakHistogramProps) => {
+    const highest = Math.max(1, ...streaks.flatMap(({ win_streaks, loss_streaks }) => [win_streaks, loss_streaks]));
+
+    return (
+        <div className='trade-analytics-modal__histogram'>
+            {streaks.map(({ length, win_streaks, loss_streaks }) => (
+                <div key={length} className='trade-analytics-modal__histogram-column'>
+                    <div className='trade-analytics-modal__histogram-bars'>
+                        <span
+                            className='trade-analytics-modal__histogram-bar trade-analytics-modal__histogram-bar--won'
+                            style={{ height: `${(win_streaks / highest) * 100}%` }}
+                            title={localize('{{ count }} winning streaks of {{ length }}', {
+                                count: win_streaks,
+                                length,
+                            })}
+                        />
+                        <span
+                            className='trade-analytics-modal__histogram-bar trade-analytics-modal__histogram-bar--lost'
+                            style={{ height: `${(loss_streaks / highest) * 100}%` }}
+                            title={localize('{{ count }} losing streaks of {{ length }}', {
+                                count: loss_streaks,
+                                length,
+                            })}
+                        />
+                    </div>
+                    <Text size='xxxs' color='less-prominent'>
+                        {length}
+                    </Text>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+type TGroupTableProps = {
+    title: string;
+    groups: TGroupStats[];
+    currency: string;
+    formatKey?: (key: string) => string;
+};
+
+const GroupTable = ({ title, groups, currency, formatKey = key => key || '-' }: TGroupTableProps) => (
+    <div className='trade-analytics-modal__table'>
+        <table>
+            <thead>
+                <tr>
+                    <th>{title}</th>
+                    <th>{localize('Trades')}</th>
+                    <th>{localize('Win rate')}</th>
+                    <th>{localize('Profit/loss')}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {groups.map(({ key, trades, win_rate, profit }) => (
+                    <tr key={key}>
+                        <td>{formatKey(key)}</td>
+                        <td>{trades}</td>
+                        <td>{formatPercentage(win_rate)}</td>
+                        <td className={getProfitClassName(profit)}>{formatMoney(currency, profit, true)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const TradeAnalyticsModal = observer(() => {
+    const { trade_analytics } = useStore();
+    const { analytics, currency, is_modal_open, scope, setScope, setSourceFilter, source_filter, toggleModal } =
+        trade_analytics;
+    const {
+        average_loss,
+        average_win,
+        by_contract_type,
+        by_hour,
+        by_symbol,
+        drawdown,
+        equity_curve,
+        expectancy,
+        longest_loss_streak,
+        longest_win_streak,
+        profit_factor,
+        streaks,
+        total_profit,
+        trade_count,
+        win_rate,
+    } = analytics;
+
+    const stats = [
+        { label: localize('Trades'), value: trade_count },
+        { label: localize('Win rate'), value: formatPercentage(win_rate) },
+        {
+            label: localize('Total profit/loss'),
+            value: (
+                <span className={getProfitClassName(total_profit)}>{formatMoney(currency, total_profit, true)}</span>
+            ),
+        },
+        { label: localize('Profit factor'), value: profit_factor === null ? '-' : profit_factor.toFixed(2) },
+        { label: localize('Expectancy per trade'), value: formatMoney(currency, expectancy, true) },
+        {
+            label: localize('Average win / loss'),
+            value: `${formatMoney(currency, average_win, true)} / ${formatMoney(currency, average_loss, true)}`,
+        },
+        { label: localize('Max drawdown'), value: formatMoney(currency, drawdown.max_drawdown, true) },
+        {
+            label: localize('Recovery time'),
+            value:
+                drawdown.recovery_time === null
+                    ? localize('Not recovered')
+                    : localize('{{ duration }} ({{ count }} trades)', {
+                          duration: formatDuration(drawdown.recovery_time),
+                          count: drawdown.recovery_trades,
+                      }),
+        },
+        { label: localize('Longest winning / losing streak'), value: `${longest_win_streak} / ${longest_loss_streak}` },
+    ];
+
+    return (
+        <Modal
+            title={localize('Trade analytics')}
+            className='trade-analytics-modal'
+            width='880px'
+            is_open={is_modal_open}
+            toggleModal={toggleModal}
+        >
+            <Modal.Body>
+                <div className='trade-analytics-modal__content'>
+                    <div className='trade-analytics-modal__controls'>
+                        <div className='trade-analytics-modal__field'>
+                            <label htmlFor='trade-analytics-scope'>{localize('Trades')}</label>
+                            <select
+                                id='trade-analytics-scope'
+                                value={scope}
+                                onChange={e => setScope(e.target.value as TAnalyticsScope)}
+                            >
+                                <option value='transactions'>{localize('Transactions in the run panel')}</option>
+                                <option value='history'>{localize('All runs in the run history')}</option>
+                            </select>
+                        </div>
+                        {scope === 'history' && (
+                            <div className='trade-analytics-modal__field'>
+                                <label htmlFor='trade-analytics-source'>{localize('Source')}</label>
+                                <select
+                                    id='trade-analytics-source'
+                                    value={source_filter}
+                                    onChange={e => setSourceFilter(e.target.value as TRiskSource | '')}
+                                >
+                                    <option value=''>{localize('All sources')}</option>
+                                    {SOURCES.map(source => (
+                                        <option key={source} value={source}>
+                                            {getRunSourceName(source)}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                    </div>
+
+                    {!trade_count ? (
+                        <Text as='p' size='xs' color='less-prominent'>
+                            <Localize i18n_default_text='There are no completed contracts to analyse yet.' />
+                        </Text>
+                    ) : (
+                        <>
+                            <div className='trade-analytics-modal__stats'>
+                                {stats.map(({ label, value }) => (
+                                    <div key={label} className='trade-analytics-modal__stat'>
+                                        <Text size='xxs' color='less-prominent'>
+                                            {label}
+                                        </Text>
+                                        <Text size='xs' weight='bold'>
+                                            {value}
+                                        </Text>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className='trade-analytics-modal__section'>
+                                <Text size='xs' weight='bold'>
+                                    <Localize i18n_default_text='Equity curve' />
+                                </Text>
+                                <EquityCurve equity_curve={equity_curve} drawdown={drawdown} />
+                                <Text size='xxs' color='less-prominent'>
+                                    <Localize i18n_default_text='The shaded area runs from the peak before the largest drawdown until the equity got back to it.' />
+                                </Text>
+                            </div>
+
+                            <div className='trade-analytics-modal__section'>
+                                <Text size='xs' weight='bold'>
+                                    <Localize i18n_default_text='Win and loss streaks' />
+                                </Text>
+                                <StreakHistogram streaks={streaks} />
+                                <Text size='xxs' color='less-prominent'>
+                                    <Localize i18n_default_text='Number of streaks by length, in trades.' />
+                                </Text>
+                            </div>
+
+                            <div className='trade-analytics-modal__groups'>
+                                <GroupTable
+                                    title={localize('Contract type')}
+                                    groups={by_contract_type}
+                                    currency={currency}
+                                />
+                                <GroupTable title={localize('Symbol')} groups={by_symbol} currency={currency} />
+                                <GroupTable
+                                    title={localize('Hour (GMT)')}
+                                    groups={by_hour.filter(({ trades }) => trades)}
+                                    currency={currency}
+                                    formatKey={formatHour}
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
+            </Modal.Body>
+        </Modal>
+    );
+});
+
+export default TradeAnalyticsModal;
@@ -55,7 +55,7 @@ const TransactionItem = ({ row = false, onClickTransaction, active_transaction_i
 
 const Transactions = observer(({ is_drawer_open }: TTransactions) => {
     const [active_transaction_id, setActiveTransactionId] = React.useState<number | null>(null);
-    const { run_panel, transactions } = useStore();
+    const { run_panel, trade_analytics, transactions } = useStore();
     const { contract_stage } = run_panel;
     const { transactions: transaction_list, toggleTransactionDetailsModal, recoverPendingContracts } = transactions;
     const { isDesktop } = useDevice();
@@ -115,6 +115,14 @@ const Transactions = observer(({ is_drawer_open }: TTransactions) => {
                 >
                     <Localize i18n_default_text='View Detail' />
                 </Button>
+                <Button
+                    id='download__container__analytics-button'
+                    className='download__container__view-detail-button'
+                    onClick={trade_analytics.toggleModal}
+                    secondary
+                >
+                    <Localize i18n_default_text='Analytics' />
+                </Button>
             </div>
             <div className='transactions__header'>
                 <span className='transactions__header-column transactions__header-type'>
@@ -27,6 +27,8 @@ export const DBOT_TABS: TDashboardTabIndex = Object.freeze({
     SMART_ANALYSIS: 12,
     TUTORIALS: 13,
     CIRCLES: 14,
+    STRATEGY_LAB: 15,
+    RUN_HISTORY: 16,
 });
 
 export const MAX_STRATEGIES = 10;
@@ -47,6 +49,8 @@ export const TAB_IDS = [
     'id-smart-analysis',
     'id-tutorials',
     'id-circles',
+    'id-strategy-lab',
+    'id-run-history',
 ];
 
 export const DEBOUNCE_INTERVAL_TIME = 500;
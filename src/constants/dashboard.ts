@@ -2,6 +2,7 @@ export const STRATEGY = {
     OPEN: 'open',
     EDIT: 'edit',
     SAVE: 'save',
+    SCHEDULE: 'schedule',
     DELETE: 'delete',
     PREVIEW: 'preview',
     PREVIEW_LIST: 'list',
@@ -0,0 +1,83 @@
+import { localize } from '@deriv-com/translations';
+import { TDescriptionItem } from '../../pages/bot-builder/quick-strategy/types';
+
+export const FIBONACCI = (): TDescriptionItem[] => [
+    {
+        type: 'subtitle',
+        content: [localize('Exploring the Fibonacci strategy in Deriv Bot')],
+        expanded: true,
+        no_collapsible: false,
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The Fibonacci strategy sizes each stake with the Fibonacci sequence (1, 1, 2, 3, 5, 8, ...), where one unit is equal to the initial stake. After a losing trade, the stake moves one step forward in the sequence. After a successful trade, it moves two steps back, so a single win recovers the losses of the previous two steps.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Key parameters')],
+    },
+    {
+        type: 'text',
+        content: [localize('These are the trade parameters used for the Fibonacci strategy in Deriv Bot.')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Initial stake:</strong> The starting trade amount and the smallest stake the plan will use.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Max stake:</strong> The stake for your next trade will reset to the initial stake if it exceeds this value.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Profit threshold:</strong> The bot will stop trading if your total profit exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Loss threshold:</strong> The bot will stop trading if your total loss exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Risk management')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The sequence grows more slowly than a martingale, but a long run of losses still leads to large stakes. Set a max stake and a loss threshold that match your risk tolerance.'
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [localize('<strong>Disclaimer:</strong>')],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Trading inherently involves risks, and actual profits can fluctuate due to various factors, including market volatility and other unforeseen variables. As such, exercise caution and conduct thorough research before engaging in any trading activities.'
+            ),
+        ],
+    },
+];
@@ -0,0 +1,91 @@
+import { localize } from '@deriv-com/translations';
+import { TDescriptionItem } from '../../pages/bot-builder/quick-strategy/types';
+
+export const KELLY = (): TDescriptionItem[] => [
+    {
+        type: 'subtitle',
+        content: [localize('Exploring the Kelly fraction strategy in Deriv Bot')],
+        expanded: true,
+        no_collapsible: false,
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The Kelly criterion sizes each stake from your edge: it stakes the share p − (1 − p) / b of the balance, where p is the win rate and b is the net payout of a successful trade. The bot estimates both from the trades of the current run, so the stake grows when the strategy wins more often than the payout requires and drops to the initial stake when it has no edge.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Key parameters')],
+    },
+    {
+        type: 'text',
+        content: [localize('These are the trade parameters used for the Kelly fraction strategy in Deriv Bot.')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Initial stake:</strong> The starting trade amount and the smallest stake the plan will use.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Kelly fraction:</strong> The share of the full Kelly stake to use. A fraction of 0.5 (half Kelly) is common because the full Kelly stake is very sensitive to errors in the estimated win rate.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Max stake:</strong> The stake for your next trade will reset to the initial stake if it exceeds this value.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Profit threshold:</strong> The bot will stop trading if your total profit exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Loss threshold:</strong> The bot will stop trading if your total loss exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Risk management')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The estimated win rate is unreliable after only a few trades. Use a small fraction and a max stake, especially on contracts with a win rate close to the break-even point.'
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [localize('<strong>Disclaimer:</strong>')],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Trading inherently involves risks, and actual profits can fluctuate due to various factors, including market volatility and other unforeseen variables. As such, exercise caution and conduct thorough research before engaging in any trading activities.'
+            ),
+        ],
+    },
+];
@@ -0,0 +1,91 @@
+import { localize } from '@deriv-com/translations';
+import { TDescriptionItem } from '../../pages/bot-builder/quick-strategy/types';
+
+export const LABOUCHERE = (): TDescriptionItem[] => [
+    {
+        type: 'subtitle',
+        content: [localize('Exploring the Labouchère strategy in Deriv Bot')],
+        expanded: true,
+        no_collapsible: false,
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The Labouchère strategy, also called the cancellation system, keeps a line of numbers, e.g. 1, 2, 3, 4. Each stake is the sum of the first and last numbers of the line, in units of the initial stake. After a successful trade both numbers are crossed off, and after a losing trade the lost amount is added to the end of the line. When the line has been cleared, the cycle is complete and starts over with the original line.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Key parameters')],
+    },
+    {
+        type: 'text',
+        content: [localize('These are the trade parameters used for the Labouchère strategy in Deriv Bot.')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Initial stake:</strong> The starting trade amount and the smallest stake the plan will use.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Sequence length:</strong> The length of the starting line. A length of 4 starts with 1, 2, 3, 4.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Max stake:</strong> The stake for your next trade will reset to the initial stake if it exceeds this value.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Profit threshold:</strong> The bot will stop trading if your total profit exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Loss threshold:</strong> The bot will stop trading if your total loss exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Risk management')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'A completed cycle earns roughly the sum of the starting line, but a losing streak makes the line and the stakes grow quickly. Keep the starting line short and use the max stake and loss threshold to cap the risk.'
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [localize('<strong>Disclaimer:</strong>')],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Trading inherently involves risks, and actual profits can fluctuate due to various factors, including market volatility and other unforeseen variables. As such, exercise caution and conduct thorough research before engaging in any trading activities.'
+            ),
+        ],
+    },
+];
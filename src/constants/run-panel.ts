@@ -2,4 +2,5 @@ export const run_panel = Object.freeze({
     SUMMARY: 0,
     TRANSACTIONS: 1,
     JOURNAL: 2,
+    BOTS: 3,
 });
@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import { initializeI18n } from '@deriv-com/translations';
+import { MessageTypes } from '../constants/messages';
+import { parseTickFile } from '../services/backtest/tick-file';
+import { setupHeadlessEnvironment } from '../services/headless/headless-environment';
+import type { TJournalEntry } from '../services/headless/headless-runner';
+import type { TRunReport } from '../services/headless/run-report';
+import { parseRunnerArgs, RUNNER_USAGE, TRunnerOutput } from '../services/headless/runner-args';
+
+const writeJournal = (output: TRunnerOutput) => (entry: TJournalEntry) => {
+    const line =
+        output === 'json' ? JSON.stringify(entry) : `[${entry.time}] ${entry.type.toUpperCase()} ${entry.message}`;
+    process.stdout.write(`${line}\n`);
+};
+
+const writeReport = (output: TRunnerOutput, report: TRunReport) => {
+    if (output === 'json') {
+        process.stdout.write(`${JSON.stringify({ type: 'report', ...report })}\n`);
+        return;
+    }
+
+    const lines = [
+        `Mode: ${report.mode}${report.symbol ? ` (${report.symbol})` : ''}`,
+        `Trades: ${report.trades.length} (${report.wins} won, ${report.losses} lost)`,
+        `Profit: ${report.total_profit.toFixed(2)}`,
+        `Balance: ${report.initial_balance.toFixed(2)} -> ${report.final_balance.toFixed(2)}`,
+        `Max drawdown: ${report.max_drawdown.toFixed(2)}`,
+    ];
+    if (report.error) lines.push(`Error: ${report.error}`);
+    process.stdout.write(`${lines.join('\n')}\n`);
+};
+
+const main = async (argv: string[]) => {
+    if (argv.includes('--help')) {
+        process.stdout.write(`${RUNNER_USAGE}\n`);
+        return 0;
+    }
+
+    const args = parseRunnerArgs(argv, process.env);
+    const xml = readFileSync(args.bot_file, 'utf8');
+    const dataset = args.ticks_file
+        ? parseTickFile(readFileSync(args.ticks_file, 'utf8'), { symbol: args.symbol })
+        : undefined;
+
+    // The engine reads browser globals while its modules load, so they must exist first.
+    setupHeadlessEnvironment();
+    // Block definitions are built from localized messages, which are empty until this runs.
+    initializeI18n({ cdnUrl: '' });
+    const { runHeadlessBot } = await import('../services/headless/headless-runner');
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    process.once('SIGINT', abort);
+    process.once('SIGTERM', abort);
+    const timer = args.max_runtime ? setTimeout(abort, args.max_runtime * 1000) : undefined;
+
+    // Errors the bot runs into inside the interpreter only reach the journal, not the report.
+    let has_journal_errors = false;
+    const write = writeJournal(args.output);
+
+    try {
+        const report = await runHeadlessBot({
+            xml,
+            token: args.token,
+            endpoint: args.endpoint,
+            app_id: args.app_id,
+            is_paper: args.is_paper,
+            balance: args.balance,
+            dataset,
+            signal: controller.signal,
+            onJournal: entry => {
+                if (entry.type === MessageTypes.ERROR) has_journal_errors = true;
+                write(entry);
+            },
+        });
+        writeReport(args.output, report);
+        return report.error || has_journal_errors ? 1 : 0;
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+main(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(error => {
+        process.stderr.write(`${error?.message ?? error}\n`);
+        process.exit(1);
+    });
@@ -196,6 +196,18 @@ export const config = () => ({
         [localize('Close'), 'close'],
         [localize('Open Time'), 'epoch'],
     ],
+    digitRanks: [
+        [localize('Most'), 'most'],
+        [localize('Least'), 'least'],
+    ],
+    digitParities: [
+        [localize('Even'), 'even'],
+        [localize('Odd'), 'odd'],
+    ],
+    digitSides: [
+        [localize('Over'), 'over'],
+        [localize('Under'), 'under'],
+    ],
     candleIntervals: [
         [localize('Default'), 'default'],
         [localize('1 minute'), '60'],
@@ -287,6 +299,21 @@ export const config = () => ({
         [localize('MACD'), '1'],
         [localize('Signal'), '2'],
     ],
+    stochResult: [
+        [localize('%K'), '0'],
+        [localize('%D'), '1'],
+    ],
+    adxResult: [
+        [localize('ADX'), '0'],
+        [localize('+DI'), '1'],
+        [localize('-DI'), '2'],
+    ],
+    ichimokuResult: [
+        [localize('conversion line'), '0'],
+        [localize('base line'), '1'],
+        [localize('leading span A'), '2'],
+        [localize('leading span B'), '3'],
+    ],
     GOOGLE_DRIVE: {
         SCOPE: 'https://www.googleapis.com/auth/drive',
         DISCOVERY_DOCS: 'https://www.googleapis.com/discovery/v1/apis/drive/v3/rest',
@@ -1,6 +1,7 @@
 export const unrecoverable_errors = [
     'InsufficientBalance',
     'CustomLimitsReached',
+    'RiskLimitReached',
     'OfferingsValidationError',
     'InvalidCurrency',
     'ContractBuyValidationError',
@@ -13,7 +13,8 @@ export const DEFAULT_PROPOSAL_REQUEST = {
 };
 
 export const forgetAccumulatorsProposalRequest = async instance => {
-    if (instance && !instance.is_bot_running) {
+    // Bots run side by side (see `MultiBotRunner`) still stream their proposals.
+    if (instance && !instance.is_bot_running && !api_base.is_running) {
         await api_base?.api?.send({ forget_all: 'proposal' });
         instance.subscription_id_for_accumulators = null;
         instance.is_proposal_requested_for_accumulators = false;
@@ -350,11 +350,11 @@ export default class BlockConversion {
             const el_field = xml.querySelector(`field[name="${field_name}"]`);
 
             if (el_field) {
-                const value = el_field.innerText;
+                const value = el_field.textContent;
 
                 Object.keys(renamed_fields[field_name]).forEach(old_name => {
                     if (value === old_name) {
-                        el_field.innerText = renamed_fields[field_name][old_name];
+                        el_field.textContent = renamed_fields[field_name][old_name];
                     }
                 });
             }
@@ -634,7 +634,7 @@ export default class BlockConversion {
                             this.workspace_variables[variable.id_] = variable_name;
                             field.setValue(variable.id_);
                         } else {
-                            field.setValue(el_block_child.innerText);
+                            field.setValue(el_block_child.textContent ?? el_block_child.innerText);
                         }
                     }
                     break;
@@ -0,0 +1,37 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../../utils';
+
+window.Blockly.Blocks.conversion_period = {
+    init() {
+        this.jsonInit({
+            message0: localize('Conversion Line Period {{ input_period }}', { input_period: '%1' }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'CONVERSION_PERIOD',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            previousStatement: null,
+            nextStatement: null,
+        });
+
+        this.setMovable(false);
+        this.setDeletable(false);
+    },
+    onchange: window.Blockly.Blocks.input_list.onchange,
+    allowed_parents: ['ichimoku_statement', 'ichimokua_statement'],
+    getRequiredValueInputs() {
+        return {
+            CONVERSION_PERIOD: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.conversion_period = () => {};
@@ -5,3 +5,10 @@ import './std_dev_multiplier_down';
 import './fast_ema_period';
 import './slow_ema_period';
 import './signal_ema_period';
+import './signal_period';
+import './acceleration_step';
+import './acceleration_max';
+import './conversion_period';
+import './base_period';
+import './span_period';
+import './channel_multiplier';
@@ -62,15 +62,35 @@ window.Blockly.Blocks.input_list = {
         }
     },
     allowed_parents: [
+        'adx_statement',
+        'adxa_statement',
+        'atr_statement',
+        'atra_statement',
         'bb_statement',
         'bba_statement',
+        'cci_statement',
+        'ccia_statement',
+        'dc_statement',
+        'dca_statement',
         'ema_statement',
         'emaa_statement',
+        'ichimoku_statement',
+        'ichimokua_statement',
+        'kc_statement',
+        'kca_statement',
         'macda_statement',
+        'psar_statement',
+        'psara_statement',
         'rsi_statement',
         'rsia_statement',
         'sma_statement',
         'smaa_statement',
+        'stoch_statement',
+        'stocha_statement',
+        'vwap_statement',
+        'vwapa_statement',
+        'willr_statement',
+        'willra_statement',
     ],
     getRequiredValueInputs() {
         return {
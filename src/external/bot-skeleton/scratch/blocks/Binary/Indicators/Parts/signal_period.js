@@ -0,0 +1,37 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../../utils';
+
+window.Blockly.Blocks.signal_period = {
+    init() {
+        this.jsonInit({
+            message0: localize('Signal Period {{ input_period }}', { input_period: '%1' }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'SIGNAL_PERIOD',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            previousStatement: null,
+            nextStatement: null,
+        });
+
+        this.setMovable(false);
+        this.setDeletable(false);
+    },
+    onchange: window.Blockly.Blocks.input_list.onchange,
+    allowed_parents: ['stoch_statement', 'stocha_statement'],
+    getRequiredValueInputs() {
+        return {
+            SIGNAL_PERIOD: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.signal_period = () => {};
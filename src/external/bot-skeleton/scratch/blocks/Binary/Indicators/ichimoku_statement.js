@@ -0,0 +1,82 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.ichimoku_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'conversion_period', 'base_period', 'span_period'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Ichimoku Cloud {{ line_type }} {{ dummy }}', {
+                variable: '%1',
+                line_type: '%2',
+                dummy: '%3',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'ichimoku',
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'ICHIMOKURESULT_LIST',
+                    options: config().ichimokuResult,
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates the Ichimoku Cloud from a list'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Ichimoku Cloud'),
+            description: localize(
+                'The Ichimoku Cloud is made of lines halfway between the highest and the lowest prices of different periods. When the conversion line crosses above the base line, the trend may be turning up. The leading spans form the cloud, which traders usually plot ahead of the price.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.ichimoku_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const ichimoku_result = block.getFieldValue('ICHIMOKURESULT_LIST');
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const conversion_period = block.childValueToCode('conversion_period', 'CONVERSION_PERIOD');
+    const base_period = block.childValueToCode('base_period', 'BASE_PERIOD');
+    const span_period = block.childValueToCode('span_period', 'SPAN_PERIOD');
+    const code = `${var_name} = Bot.ichimoku(${input}, {
+        conversionPeriods: ${conversion_period},
+        basePeriods: ${base_period},
+        spanPeriods: ${span_period},
+    }, ${ichimoku_result});\n`;
+
+    return code;
+};
@@ -7,4 +7,24 @@ import './rsia_statement';
 import './sma_statement';
 import './smaa_statement';
 import './macda_statement';
+import './stoch_statement';
+import './stocha_statement';
+import './atr_statement';
+import './atra_statement';
+import './adx_statement';
+import './adxa_statement';
+import './cci_statement';
+import './ccia_statement';
+import './willr_statement';
+import './willra_statement';
+import './psar_statement';
+import './psara_statement';
+import './ichimoku_statement';
+import './ichimokua_statement';
+import './vwap_statement';
+import './vwapa_statement';
+import './kc_statement';
+import './kca_statement';
+import './dc_statement';
+import './dca_statement';
 import './Parts';
@@ -0,0 +1,72 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.psar_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'acceleration_step', 'acceleration_max'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Parabolic SAR {{ dummy }}', {
+                variable: '%1',
+                dummy: '%2',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'psar',
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates the Parabolic SAR from a list'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Parabolic SAR (PSAR)'),
+            description: localize(
+                'Parabolic SAR follows the trend with a stop that moves closer to the price as the trend goes on. When the price crosses the SAR, the trend is likely to reverse. The acceleration step sets how fast the SAR moves closer, up to the maximum acceleration.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.psar_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const acceleration_step = block.childValueToCode('acceleration_step', 'ACCELERATION_STEP');
+    const acceleration_max = block.childValueToCode('acceleration_max', 'ACCELERATION_MAX');
+    const code = `${var_name} = Bot.psar(${input}, {
+        step: ${acceleration_step},
+        maxStep: ${acceleration_max},
+    });\n`;
+
+    return code;
+};
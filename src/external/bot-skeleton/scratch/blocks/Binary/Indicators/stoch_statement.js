@@ -0,0 +1,80 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.stoch_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'period', 'signal_period'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Stochastic Oscillator {{ line_type }} {{ dummy }}', {
+                variable: '%1',
+                line_type: '%2',
+                dummy: '%3',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'stoch',
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'STOCHRESULT_LIST',
+                    options: config().stochResult,
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates the Stochastic Oscillator from a list with a period'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Stochastic Oscillator (STOCH)'),
+            description: localize(
+                'The Stochastic Oscillator compares the latest price with the highest and lowest prices of a period. It gives you a value from 0 to 100 for the %K line, and its moving average over the signal period for the %D line. A value above 80 means that the asset may be overbought, while a value below 20 means that it may be oversold.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.stoch_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const stoch_result = block.getFieldValue('STOCHRESULT_LIST');
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const period = block.childValueToCode('period', 'PERIOD');
+    const signal_period = block.childValueToCode('signal_period', 'SIGNAL_PERIOD');
+    const code = `${var_name} = Bot.stoch(${input}, {
+        periods: ${period},
+        signalPeriods: ${signal_period},
+    }, ${stoch_result});\n`;
+
+    return code;
+};
@@ -0,0 +1,70 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.digit_frequency = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Percentage of digit {{ input_digit }} in the last {{ input_ticks }} ticks', {
+                input_digit: '%1',
+                input_ticks: '%2',
+            }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'DIGIT',
+                    check: 'Number',
+                },
+                {
+                    type: 'input_value',
+                    name: 'TICKS',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns how often a digit came up as the last digit of recent ticks, in percent'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Digit frequency'),
+            description: localize(
+                'This block gives you the percentage of the last N ticks that ended with the selected digit.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            DIGIT: null,
+            TICKS: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.digit_frequency = block => {
+    const digit =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'DIGIT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '0';
+    const ticks =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'TICKS',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.digitFrequency(Bot.getLastDigitList(), ${ticks}, ${digit})`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -0,0 +1,70 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.digit_unseen = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Digit {{ input_digit }} not seen for {{ input_ticks }} ticks?', {
+                input_digit: '%1',
+                input_ticks: '%2',
+            }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'DIGIT',
+                    check: 'Number',
+                },
+                {
+                    type: 'input_value',
+                    name: 'TICKS',
+                    check: 'Number',
+                },
+            ],
+            output: 'Boolean',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns "True" if a digit has not been the last digit of any of the recent ticks'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Digit not seen for N ticks'),
+            description: localize(
+                'This block returns “True” if none of the last N ticks ended with the selected digit.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            DIGIT: null,
+            TICKS: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.digit_unseen = block => {
+    const digit =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'DIGIT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '0';
+    const ticks =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'TICKS',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.isDigitUnseen(Bot.getLastDigitList(), ${digit}, ${ticks})`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -0,0 +1,65 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.frequent_digit = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('{{ digit_rank }} frequent digit in the last {{ input_ticks }} ticks', {
+                digit_rank: '%1',
+                input_ticks: '%2',
+            }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'DIGITRANK_LIST',
+                    options: config().digitRanks,
+                },
+                {
+                    type: 'input_value',
+                    name: 'TICKS',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the most or the least frequent last digit of recent ticks'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Most or least frequent digit'),
+            description: localize(
+                'This block gives you the digit that came up the most or the least as the last digit of the last N ticks. When digits are tied, the lower digit comes first for the most frequent one, and the higher digit for the least frequent one.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            TICKS: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.frequent_digit = block => {
+    const digit_rank = block.getFieldValue('DIGITRANK_LIST');
+    const ticks =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'TICKS',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.frequentDigit(Bot.getLastDigitList(), ${ticks}, '${digit_rank}')`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -8,5 +8,11 @@ import './check_direction';
 import './tick_analysis';
 import './last_digit';
 import './lastDigitList';
+import './digit_frequency';
+import './frequent_digit';
+import './parity_percentage';
+import './over_under_percentage';
+import './parity_streak';
+import './digit_unseen';
 import './stat';
 import './stat_list';
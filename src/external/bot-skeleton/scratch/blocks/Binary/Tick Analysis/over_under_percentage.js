@@ -0,0 +1,81 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.over_under_percentage = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize(
+                'Digits {{ digit_side }} {{ input_barrier }} percentage in the last {{ input_ticks }} ticks',
+                {
+                    digit_side: '%1',
+                    input_barrier: '%2',
+                    input_ticks: '%3',
+                }
+            ),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'DIGITSIDE_LIST',
+                    options: config().digitSides,
+                },
+                {
+                    type: 'input_value',
+                    name: 'BARRIER',
+                    check: 'Number',
+                },
+                {
+                    type: 'input_value',
+                    name: 'TICKS',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the percentage of last digits of recent ticks over or under a barrier'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Over or under percentage'),
+            description: localize(
+                'This block gives you the percentage of the last N ticks whose last digit was strictly over, or strictly under, the barrier, as with Over/Under contracts.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            BARRIER: null,
+            TICKS: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.over_under_percentage = block => {
+    const digit_side = block.getFieldValue('DIGITSIDE_LIST');
+    const barrier =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'BARRIER',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '4';
+    const ticks =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'TICKS',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.overUnderPercentage(Bot.getLastDigitList(), ${ticks}, '${digit_side}', ${barrier})`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -0,0 +1,65 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.parity_percentage = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('{{ digit_parity }} digits percentage in the last {{ input_ticks }} ticks', {
+                digit_parity: '%1',
+                input_ticks: '%2',
+            }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'DIGITPARITY_LIST',
+                    options: config().digitParities,
+                },
+                {
+                    type: 'input_value',
+                    name: 'TICKS',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the percentage of even or odd last digits of recent ticks'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Even or odd percentage'),
+            description: localize(
+                'This block gives you the percentage of the last N ticks whose last digit was even, or odd.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            TICKS: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.parity_percentage = block => {
+    const digit_parity = block.getFieldValue('DIGITPARITY_LIST');
+    const ticks =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'TICKS',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.parityPercentage(Bot.getLastDigitList(), ${ticks}, '${digit_parity}')`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
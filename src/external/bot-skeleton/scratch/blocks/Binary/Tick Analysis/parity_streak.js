@@ -0,0 +1,48 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.parity_streak = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Current {{ digit_parity }} digits streak', {
+                digit_parity: '%1',
+            }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'DIGITPARITY_LIST',
+                    options: config().digitParities,
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns how many ticks in a row have ended with an even or odd digit'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Even or odd streak'),
+            description: localize(
+                'This block gives you how many of the latest ticks in a row ended with an even, or odd, digit. It gives you 0 when the latest digit has the other parity.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.parity_streak = block => {
+    const digit_parity = block.getFieldValue('DIGITPARITY_LIST');
+
+    const code = `Bot.parityStreak(Bot.getLastDigitList(), '${digit_parity}')`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
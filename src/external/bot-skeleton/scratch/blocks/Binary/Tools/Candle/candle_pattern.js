@@ -0,0 +1,57 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../../constants/config';
+import { getCandlePatternOptions } from '../../../../../services/candle-patterns';
+import { modifyContextMenu } from '../../../../utils';
+
+window.Blockly.Blocks.candle_pattern = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Is there a {{ candle_pattern }} on candles with interval: {{ candle_interval_type }}?', {
+                candle_pattern: '%1',
+                candle_interval_type: '%2',
+            }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'CANDLEPATTERN_LIST',
+                    options: getCandlePatternOptions().map(({ text, value }) => [text, value]),
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'CANDLEINTERVAL_LIST',
+                    options: config().candleIntervals,
+                },
+            ],
+            output: 'Boolean',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns "True" if the selected pattern ends at the latest candle'),
+            category: window.Blockly.Categories.Candle,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Is there a candlestick pattern?'),
+            description: localize(
+                'This block returns “True” if the selected candlestick pattern ends at the latest candle of the selected interval. The latest candle is still open, so the pattern can still change until it closes.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.candle_pattern = block => {
+    const pattern = block.getFieldValue('CANDLEPATTERN_LIST');
+    const selectedGranularity = block.getFieldValue('CANDLEINTERVAL_LIST');
+    const granularity = selectedGranularity === 'default' ? 'undefined' : selectedGranularity;
+
+    const code = `Bot.isCandlePattern(Bot.getOhlc({ granularity: ${granularity} }), '${pattern}')`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -0,0 +1,49 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../../constants/config';
+import { modifyContextMenu } from '../../../../utils';
+
+window.Blockly.Blocks.candle_patterns_list = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Candlestick patterns on candles with interval: {{ candle_interval_type }}', {
+                candle_interval_type: '%1',
+            }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'CANDLEINTERVAL_LIST',
+                    options: config().candleIntervals,
+                },
+            ],
+            output: 'Array',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns a list of the patterns that end at the latest candle'),
+            category: window.Blockly.Categories.Candle,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Candlestick patterns list'),
+            description: localize(
+                'This block gives you a list of the candlestick patterns that end at the latest candle of the selected interval, e.g. "doji" or "bullish_engulfing". The list is empty when there is none.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.candle_patterns_list = block => {
+    const selectedGranularity = block.getFieldValue('CANDLEINTERVAL_LIST');
+    const granularity = selectedGranularity === 'default' ? 'undefined' : selectedGranularity;
+
+    const code = `Bot.candlePatterns(Bot.getOhlc({ granularity: ${granularity} }))`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -1,3 +1,5 @@
+import './candle_pattern';
+import './candle_patterns_list';
 import './is_candle_black';
 import './ohlc_values_in_list';
 import './read_ohlc_obj';
@@ -3,7 +3,9 @@ import './barrier_offset';
 import './block_holder';
 import './loader';
 import './notify';
+import './notify_channels';
 import './notify_telegram';
+import './staking_plan';
 import './total_profit';
 import './total_runs';
 import './useless_block';
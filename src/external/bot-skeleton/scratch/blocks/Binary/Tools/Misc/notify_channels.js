@@ -0,0 +1,72 @@
+import { localize } from '@deriv-com/translations';
+import { emptyTextValidator, modifyContextMenu } from '../../../../utils';
+
+window.Blockly.Blocks.notify_channels = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Send notification %1 Message: %2 Channel name (optional): %3'),
+            args0: [
+                {
+                    type: 'input_dummy',
+                },
+                {
+                    type: 'input_value',
+                    name: 'MESSAGE',
+                },
+                {
+                    type: 'input_value',
+                    name: 'CHANNEL_NAME',
+                },
+            ],
+            inputsInline: true,
+            colour: window.Blockly.Colours.Special3.colour,
+            colourSecondary: window.Blockly.Colours.Special3.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Special3.colourTertiary,
+            previousStatement: null,
+            nextStatement: null,
+            tooltip: localize('Sends a message to your notification channels'),
+            category: window.Blockly.Categories.Miscellaneous,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    meta() {
+        return {
+            display_name: localize('Send notification'),
+            description: localize(
+                'This block sends a message to the notification channels you set up, such as Telegram, Discord, Slack, webhooks or browser notifications. Leave the channel name empty to send it to every channel that receives custom messages.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            MESSAGE: emptyTextValidator,
+        };
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.notify_channels = block => {
+    const message =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'MESSAGE',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '';
+    const channel_name =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'CHANNEL_NAME',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || "''";
+
+    if (!message) {
+        return '';
+    }
+
+    const code = `Bot.notifyChannels(${message}, ${channel_name});\n`;
+    return code;
+};
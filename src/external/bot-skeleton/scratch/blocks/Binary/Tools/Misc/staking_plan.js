@@ -0,0 +1,113 @@
+import { localize } from '@deriv-com/translations';
+import { getStakingPlanOptions } from '../../../../../services/staking-plans';
+import { modifyContextMenu } from '../../../../utils';
+
+window.Blockly.Blocks.staking_plan_setup = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Staking plan %1 Initial stake: %2 Parameter: %3 Max stake: %4'),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'STAKINGPLAN_LIST',
+                    options: getStakingPlanOptions().map(({ text, value }) => [text, value]),
+                },
+                {
+                    type: 'input_value',
+                    name: 'INITIAL_STAKE',
+                    check: 'Number',
+                },
+                {
+                    type: 'input_value',
+                    name: 'PARAMETER',
+                    check: 'Number',
+                },
+                {
+                    type: 'input_value',
+                    name: 'MAX_STAKE',
+                    check: 'Number',
+                },
+            ],
+            inputsInline: true,
+            colour: window.Blockly.Colours.Special3.colour,
+            colourSecondary: window.Blockly.Colours.Special3.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Special3.colourTertiary,
+            previousStatement: null,
+            nextStatement: null,
+            tooltip: localize('Selects the staking plan that sizes the stake of each trade'),
+            category: window.Blockly.Categories.Miscellaneous,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    meta() {
+        return {
+            display_name: localize('Staking plan'),
+            description: localize(
+                'This block selects a staking plan and resets it to the initial stake. The parameter is the multiplier of the martingale plans, the unit of the d’Alembert plans, the sequence length of Labouchère, the Kelly fraction or the percentage of balance. A max stake of 0 disables the limit. Use the “Staking plan stake” block as the stake of your trade.'
+            ),
+        };
+    },
+};
+
+window.Blockly.Blocks.staking_plan_stake = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Staking plan stake'),
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the stake of the next trade according to the staking plan'),
+            category: window.Blockly.Categories.Miscellaneous,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    meta() {
+        return {
+            display_name: localize('Staking plan stake'),
+            description: localize(
+                'This block gives you the stake of the next trade. The staking plan updates it after every contract that is sold.'
+            ),
+        };
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.staking_plan_setup = block => {
+    const plan = block.getFieldValue('STAKINGPLAN_LIST');
+    const initial_stake =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'INITIAL_STAKE',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '0';
+    const parameter =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'PARAMETER',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || 'undefined';
+    const max_stake =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'MAX_STAKE',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '0';
+
+    return `Bot.setStakingPlan({ plan: '${plan}', initial_stake: ${initial_stake}, parameter: ${parameter}, max_stake: ${max_stake} });\n`;
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.staking_plan_stake = () => [
+    'Bot.getStakingPlanStake()',
+    window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC,
+];
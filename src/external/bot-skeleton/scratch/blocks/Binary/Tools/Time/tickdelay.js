@@ -5,7 +5,7 @@ import { evaluateExpression, modifyContextMenu } from '../../../../utils';
 Blockly.Blocks.tick_delay = {
     init() {
         this.jsonInit(this.definition());
-        const { client } = DBotStore.instance;
+        const { client } = DBotStore.instance ?? {};
         if (client && client.is_logged_in) {
             this.workspace_to_code = Blockly.JavaScript.javascriptGenerator.workspaceToCode(Blockly.derivWorkspace);
         }
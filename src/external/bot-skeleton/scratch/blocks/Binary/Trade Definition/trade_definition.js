@@ -1,10 +1,10 @@
 import { localize } from '@deriv-com/translations';
 import { config } from '../../../../constants/config';
 import { initErrorHandlingListener, removeErrorHandlingEventListener } from '../../../../utils';
-import DBotStore from '../../../dbot-store';
 import {
     appendCollapsedMainBlocksFields,
     excludeOptionFromContextMenu,
+    getTradingAccount,
     modifyContextMenu,
     runIrreversibleEvents,
 } from '../../../utils';
@@ -160,14 +160,12 @@ window.Blockly.Blocks.trade_definition = {
 };
 
 window.Blockly.JavaScript.javascriptGenerator.forBlock.trade_definition = block => {
-    const { client } = DBotStore.instance;
+    const { token: account } = getTradingAccount();
 
-    if (!client || !client.is_logged_in) {
+    if (!account) {
         throw new Error('Please login');
     }
 
-    const { loginid } = client;
-    const account = client.getToken(loginid);
     const market_block = block.getChildByType('trade_definition_market');
     const trade_type_block = block.getChildByType('trade_definition_tradetype');
     const contract_type_block = block.getChildByType('trade_definition_contracttype');
@@ -6,6 +6,7 @@ import { handleProposalRequestForAccumulators } from '../../../accumulators-prop
 import DBotStore from '../../../dbot-store';
 import {
     excludeOptionFromContextMenu,
+    getTradingAccount,
     modifyContextMenu,
     runGroupedEvents,
     runIrreversibleEvents,
@@ -279,8 +280,8 @@ window.Blockly.JavaScript.javascriptGenerator.forBlock.trade_definition_accumula
             'AMOUNT',
             window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
         ) || '0';
-    const { currency } = DBotStore.instance.client;
-    const { setContractUpdateConfig } = DBotStore.instance;
+    const { currency } = getTradingAccount();
+    const { setContractUpdateConfig } = DBotStore.instance ?? {};
     const growth_rate = block.getFieldValue('GROWTHRATE_LIST') || '1';
     const take_profit =
         !block.getChildByType('accumulator_take_profit')?.disabled &&
@@ -290,7 +291,7 @@ window.Blockly.JavaScript.javascriptGenerator.forBlock.trade_definition_accumula
         take_profit: take_profit ? `+(Number(${take_profit}).toFixed(2))` : undefined,
     };
 
-    setContractUpdateConfig(undefined, take_profit);
+    setContractUpdateConfig?.(undefined, take_profit);
     // Determine decimal places for rounding the stake, this is done so Martingale accumulators
     // are not affected by fractional values e.g. USD 12.232323 will become 12.23.
     const decimal_places = getDecimalPlaces(currency);
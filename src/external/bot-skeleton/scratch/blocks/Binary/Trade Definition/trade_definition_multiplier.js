@@ -5,6 +5,7 @@ import ApiHelpers from '../../../../services/api/api-helpers';
 import DBotStore from '../../../dbot-store';
 import {
     excludeOptionFromContextMenu,
+    getTradingAccount,
     modifyContextMenu,
     runGroupedEvents,
     runIrreversibleEvents,
@@ -288,8 +289,8 @@ window.Blockly.JavaScript.javascriptGenerator.forBlock.trade_definition_multipli
             'AMOUNT',
             window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
         ) || '0';
-    const { currency } = DBotStore.instance.client;
-    const { setContractUpdateConfig } = DBotStore.instance;
+    const { currency } = getTradingAccount();
+    const { setContractUpdateConfig } = DBotStore.instance ?? {};
     const multiplier_value = block.getFieldValue('MULTIPLIERTYPE_LIST') || '1';
     const stop_loss =
         !block.getChildByType('multiplier_stop_loss')?.disabled &&
@@ -302,7 +303,7 @@ window.Blockly.JavaScript.javascriptGenerator.forBlock.trade_definition_multipli
         take_profit: take_profit ? `+(Number(${take_profit}).toFixed(2))` : undefined,
     };
 
-    setContractUpdateConfig(take_profit, stop_loss);
+    setContractUpdateConfig?.(take_profit, stop_loss);
     // Determine decimal places for rounding the stake, this is done so Martingale multipliers
     // are not affected by fractional values e.g. USD 12.232323 will become 12.23.
     const decimal_places = getDecimalPlaces(currency);
@@ -6,6 +6,7 @@ import ApiHelpers from '../../../../services/api/api-helpers';
 import DBotStore from '../../../dbot-store';
 import {
     excludeOptionFromContextMenu,
+    getTradingAccount,
     modifyContextMenu,
     runGroupedEvents,
     runIrreversibleEvents,
@@ -612,7 +613,7 @@ window.Blockly.JavaScript.javascriptGenerator.forBlock.trade_definition_tradeopt
             'AMOUNT',
             window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
         ) || '0';
-    const { currency } = DBotStore.instance.client;
+    const { currency } = getTradingAccount();
     const duration_type = block.getFieldValue('DURATIONTYPE_LIST') || '0';
     const duration_value =
         window.Blockly.JavaScript.javascriptGenerator.valueToCode(
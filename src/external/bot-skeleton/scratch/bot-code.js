@@ -0,0 +1,72 @@
+/**
+ * Generates the code that is passed to the interpreter. The generated workspace code only
+ * defines the bot's handlers, this wrapper calls them in the trade engine's run loop.
+ * @param {window.Blockly.Workspace} workspace Workspace to generate the code from
+ * @param {Object} limitations Optional limitations (legacy argument)
+ */
+export const generateBotCode = (workspace, limitations = {}) => `
+    var BinaryBotPrivateInit;
+    var BinaryBotPrivateStart;
+    var BinaryBotPrivateBeforePurchase;
+    var BinaryBotPrivateDuringPurchase;
+    var BinaryBotPrivateAfterPurchase;
+    var BinaryBotPrivateLastTickTime;
+    var BinaryBotPrivateTickAnalysisList = [];
+    var BinaryBotPrivateHasCalledTradeOptions = false;
+
+    function recursiveList(list, final_list){
+        for(var i=0; i < list.length; i++){
+            if(typeof(list[i]) === 'object'){
+                recursiveList(list[i], final_list);
+            }
+            if(typeof(list[i]) == 'number'){
+                final_list.push(list[i]);
+
+            }
+        }
+        return final_list;
+    }
+
+    function BinaryBotPrivateRun(f, arg) {
+        if (f) return f(arg);
+        return false;
+    }
+    function BinaryBotPrivateTickAnalysis() {
+        var currentTickTime = Bot.getLastTick(true);
+        while (currentTickTime === 'MarketIsClosed') {
+            sleep(5);
+            currentTickTime = Bot.getLastTick(true);
+        }
+        currentTickTime = currentTickTime.epoch;
+        if (currentTickTime === BinaryBotPrivateLastTickTime) {
+            return;
+        }
+        BinaryBotPrivateLastTickTime = currentTickTime;
+        for (var BinaryBotPrivateI = 0; BinaryBotPrivateI < BinaryBotPrivateTickAnalysisList.length; BinaryBotPrivateI++) {
+            BinaryBotPrivateRun(BinaryBotPrivateTickAnalysisList[BinaryBotPrivateI]);
+        }
+    }
+    var BinaryBotPrivateLimitations = ${JSON.stringify(limitations)};
+    ${window.Blockly.JavaScript.javascriptGenerator.workspaceToCode(workspace)}
+    BinaryBotPrivateRun(BinaryBotPrivateInit);
+    while (true) {
+        BinaryBotPrivateTickAnalysis();
+        BinaryBotPrivateRun(BinaryBotPrivateStart);
+        if (!BinaryBotPrivateHasCalledTradeOptions) {
+            sleep(1);
+            continue;
+        }
+        while (watch('before')) {
+            BinaryBotPrivateTickAnalysis();
+            BinaryBotPrivateRun(BinaryBotPrivateBeforePurchase);
+        }
+        while (watch('during')) {
+            BinaryBotPrivateTickAnalysis();
+            BinaryBotPrivateRun(BinaryBotPrivateDuringPurchase);
+        }
+        BinaryBotPrivateTickAnalysis();
+        if (!BinaryBotPrivateRun(BinaryBotPrivateAfterPurchase)) {
+            break;
+        }
+    }
+`;
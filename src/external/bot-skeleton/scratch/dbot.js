@@ -2,6 +2,7 @@ import { save_types } from '../constants';
 import { config } from '../constants/config';
 import { api_base } from '../services/api/api-base';
 import ApiHelpers from '../services/api/api-helpers';
+import { getLintFindingMessage, hasLintErrors, lintStrategy, loadLintSeverities } from '../services/bot-linter';
 import Interpreter from '../services/tradeEngine/utils/interpreter';
 import { compareXml, observer as globalObserver } from '../utils';
 import { getSavedWorkspaces, saveWorkspaceToRecent } from '../utils/local-storage';
@@ -9,6 +10,7 @@ import { isDbotRTL } from '../utils/workspace';
 import main_xml from './xml/main.xml';
 import { forgetAccumulatorsProposalRequest } from './accumulators-proposal-handler';
 import { loadBlockly } from './blockly';
+import { generateBotCode } from './bot-code';
 import DBotStore from './dbot-store';
 import { isAllRequiredBlocksEnabled, updateDisabledBlocks, validateErrorOnBlockDelete } from './utils';
 
@@ -69,8 +71,11 @@ class DBot {
                             }
                         });
                         that.symbol = symbol;
+                        // Forgetting the ticks would stop the bots run side by side, so the Bot Builder
+                        // bot watches the new symbol once it runs, see `MultiBotStore`.
                         if (
                             !that.is_bot_running &&
+                            !api_base.is_running &&
                             that.interpreter &&
                             !this.workspace.options.readOnly &&
                             symbol !== that.interpreter.bot.tradeEngine.symbol
@@ -146,6 +151,8 @@ class DBot {
                 });
 
                 window.Blockly.derivWorkspace = this.workspace;
+                globalObserver.unregisterAll('bot.highlight_block');
+                globalObserver.register('bot.highlight_block', this.highlightExecutedBlock);
 
                 const varDB = new window.Blockly.Names('window');
                 varDB.variableMap = window.Blockly.derivWorkspace.getVariableMap();
@@ -156,6 +163,7 @@ class DBot {
                 this.addBeforeRunFunction(this.disableStrayBlocks.bind(this));
                 this.addBeforeRunFunction(this.checkForErroredBlocks.bind(this));
                 this.addBeforeRunFunction(this.checkForRequiredBlocks.bind(this));
+                this.addBeforeRunFunction(this.checkForLintErrors.bind(this));
 
                 // Push main.xml to workspace and reset the undo stack.
                 this.workspace.current_strategy_id = window.Blockly.utils.idGenerator.genUid();
@@ -285,74 +293,7 @@ class DBot {
      * @param {Object} limitations Optional limitations (legacy argument)
      */
     generateCode(limitations = {}) {
-        return `
-            var BinaryBotPrivateInit;
-            var BinaryBotPrivateStart;
-            var BinaryBotPrivateBeforePurchase; 
-            var BinaryBotPrivateDuringPurchase;
-            var BinaryBotPrivateAfterPurchase;
-            var BinaryBotPrivateLastTickTime;
-            var BinaryBotPrivateTickAnalysisList = [];
-            var BinaryBotPrivateHasCalledTradeOptions = false;
-
-           
-            function recursiveList(list, final_list){
-                for(var i=0; i < list.length; i++){
-                    if(typeof(list[i]) === 'object'){
-                        recursiveList(list[i], final_list);
-                    }
-                    if(typeof(list[i]) == 'number'){
-                        final_list.push(list[i]);   
-                                  
-                    }
-                }
-                return final_list;
-            }
-
-            function BinaryBotPrivateRun(f, arg) {
-                if (f) return f(arg);
-                return false;
-            }
-            function BinaryBotPrivateTickAnalysis() {
-                var currentTickTime = Bot.getLastTick(true);
-                while (currentTickTime === 'MarketIsClosed') {
-                    sleep(5);
-                    currentTickTime = Bot.getLastTick(true);
-                }
-                currentTickTime = currentTickTime.epoch;
-                if (currentTickTime === BinaryBotPrivateLastTickTime) {
-                    return;
-                }
-                BinaryBotPrivateLastTickTime = currentTickTime;
-                for (var BinaryBotPrivateI = 0; BinaryBotPrivateI < BinaryBotPrivateTickAnalysisList.length; BinaryBotPrivateI++) {
-                    BinaryBotPrivateRun(BinaryBotPrivateTickAnalysisList[BinaryBotPrivateI]);
-                }
-            }
-            var BinaryBotPrivateLimitations = ${JSON.stringify(limitations)};
-            ${window.Blockly.JavaScript.javascriptGenerator.workspaceToCode(this.workspace)}
-            BinaryBotPrivateRun(BinaryBotPrivateInit);
-            while (true) {
-                BinaryBotPrivateTickAnalysis();
-                BinaryBotPrivateRun(BinaryBotPrivateStart);
-                if (!BinaryBotPrivateHasCalledTradeOptions) {
-                    sleep(1);
-                    continue;
-                }
-                while (watch('before')) {
-                    BinaryBotPrivateTickAnalysis();
-                    BinaryBotPrivateRun(BinaryBotPrivateBeforePurchase);
-                }
-                while (watch('during')) {
-                    BinaryBotPrivateTickAnalysis();
-                    BinaryBotPrivateRun(BinaryBotPrivateDuringPurchase);
-                }
-                BinaryBotPrivateTickAnalysis();
-                if (!BinaryBotPrivateRun(BinaryBotPrivateAfterPurchase)) {
-                    break;
-                }
-            }
-            
-            `;
+        return generateBotCode(this.workspace, limitations);
     }
 
     /**
@@ -384,6 +325,28 @@ class DBot {
         }
     }
 
+    /**
+     * Briefly highlights the block the interpreter is executing. The trade engine only
+     * announces the block id, so it can run without a rendered workspace.
+     */
+    highlightExecutedBlock = block_id => {
+        const block = this.workspace?.getBlockById(block_id);
+        window.Blockly.BlockSvg.prototype.highlightExecutedBlock = function () {
+            const highlight_block_class = 'block--execution-highlighted';
+            if (!window.Blockly.utils.dom.hasClass(this.svgGroup_, highlight_block_class)) {
+                window.Blockly.utils.dom.addClass(this.svgGroup_, highlight_block_class);
+                setTimeout(() => {
+                    if (this.svgGroup_) {
+                        window.Blockly.utils.dom.removeClass(this.svgGroup_, highlight_block_class);
+                    }
+                }, 1505);
+            }
+        };
+        if (block) {
+            block.highlightExecutedBlock(block);
+        }
+    };
+
     terminateConnection = () => {
         api_base.terminate();
     };
@@ -476,6 +439,32 @@ class DBot {
         return isAllRequiredBlocksEnabled(this.workspace);
     }
 
+    /**
+     * Runs the bot linter on the workspace with the rule severities chosen by the user.
+     */
+    lintWorkspace() {
+        const xml = window.Blockly.Xml.workspaceToDom(this.workspace);
+        return lintStrategy(window.Blockly.Xml.domToText(xml), loadLintSeverities());
+    }
+
+    /**
+     * Stops the bot from running when a lint rule marked as an error fails.
+     */
+    checkForLintErrors() {
+        const findings = this.lintWorkspace();
+        globalObserver.emit('bot.lint', findings);
+
+        if (!hasLintErrors(findings)) {
+            return true;
+        }
+
+        const errors = findings.filter(({ severity }) => severity === 'error');
+        this.centerAndHighlightBlock(errors[0].block_id);
+        errors.forEach(finding => globalObserver.emit('ui.log.error', getLintFindingMessage(finding)));
+
+        return false;
+    }
+
     /**
      * Checks all blocks in the workspace to see if they need to be highlighted
      * in case one of their inputs is not populated, returns an empty value, or doesn't
@@ -0,0 +1,70 @@
+import { localize } from '@deriv-com/translations';
+import BlockConversion from './backward-compatibility';
+import { loadBlockly } from './blockly';
+import { generateBotCode } from './bot-code';
+import { isAllRequiredBlocksEnabled } from './utils';
+
+/**
+ * Loads a strategy into a workspace that is never rendered and generates the code the
+ * interpreter runs, so a bot can be started without the Bot Builder page. The workspace
+ * becomes `derivWorkspace`, which the trade engine inspects for blocks such as `payout`.
+ * @param {string} block_string Strategy XML
+ * @returns {Promise<string>} Code for the interpreter
+ */
+export const generateCodeFromXml = async block_string => {
+    if (!window.Blockly?.JavaScript) {
+        await loadBlockly(false);
+    }
+
+    let xml;
+    try {
+        xml = window.Blockly.utils.xml.textToDom(block_string);
+    } catch (e) {
+        throw new Error(localize('XML file contains unsupported elements. Please check or modify file.'));
+    }
+    // Collections are sets of blocks to add to a strategy, not strategies of their own.
+    if (xml.getAttribute('collection') === 'true') {
+        throw new Error(localize('The strategy is missing required blocks.'));
+    }
+
+    // Blocks reshape themselves as if rendered, so a virtual SVG workspace is used, as in BlockConversion.
+    const options = new window.Blockly.Options({ media: 'assets/images' });
+    const workspace = window.Blockly.createVirtualWorkspace_(new DocumentFragment(), options, false, false);
+    // Blocks created while converting old strategies look for the main workspace.
+    window.Blockly.derivWorkspace = workspace;
+
+    xml = new BlockConversion().convertStrategy(xml);
+    const block_types = Array.from(xml.querySelectorAll('block')).map(block => block.getAttribute('type'));
+    if (!block_types.length || block_types.some(type => !window.Blockly.Blocks[type])) {
+        throw new Error(localize('XML file contains unsupported elements. Please check or modify file.'));
+    }
+
+    // Collapsing only changes how blocks are drawn, and collapsed blocks can't be laid out without a browser.
+    xml.querySelectorAll('block[collapsed]').forEach(block => block.removeAttribute('collapsed'));
+
+    // Block onchange listeners expect the Bot Builder stores, which don't exist here.
+    window.Blockly.Events.disable();
+    try {
+        window.Blockly.Xml.domToWorkspace(xml, workspace);
+    } finally {
+        window.Blockly.Events.enable();
+    }
+
+    const variable_db = new window.Blockly.Names('window');
+    variable_db.variableMap = workspace.getVariableMap();
+    window.Blockly.JavaScript.variableDB_ = variable_db;
+
+    // Same as DBot.disableStrayBlocks, blocks outside the main blocks are not run.
+    workspace.getTopBlocks().forEach(top_block => {
+        if (top_block.isMainBlock() || top_block.isIndependentBlock()) return;
+        for (let block = top_block; block; block = block.getNextBlock()) {
+            block.setDisabled(true);
+        }
+    });
+
+    if (!isAllRequiredBlocksEnabled(workspace)) {
+        throw new Error(localize('The strategy is missing required blocks.'));
+    }
+
+    return generateBotCode(workspace);
+};
@@ -173,7 +173,7 @@ window.Blockly.WorkspaceSvg.prototype.cleanUp = function (x = 0, y = 0, blocks_t
             const xy = block.getRelativeToSurfaceXY();
 
             const cursor_x = is_import ? x : -xy.x;
-            const cursor_y = original_cursor_y - (is_import ? 0 : xy.y) + (DBotStore.instance.is_mobile ? 50 : 0);
+            const cursor_y = original_cursor_y - (is_import ? 0 : xy.y) + (DBotStore.instance?.is_mobile ? 50 : 0);
 
             if (column_index === 0) {
                 block.moveBy(cursor_x, cursor_y);
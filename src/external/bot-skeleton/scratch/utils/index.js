@@ -4,6 +4,8 @@ import { getCurrencyDisplayCode } from '@/components/shared';
 import { localize } from '@deriv-com/translations';
 import { config } from '../../constants/config';
 import { LogTypes } from '../../constants/messages';
+import { api_base } from '../../services/api/api-base';
+import { BACKTEST_LOGINID } from '../../services/backtest/replay-api';
 import { error_message_map } from '../../utils/error-config';
 import { saveWorkspaceToRecent } from '../../utils/local-storage';
 import { observer as globalObserver } from '../../utils/observer';
@@ -35,6 +37,22 @@ export const updateXmlValues = blockly_options => {
     };
 };
 
+/**
+ * Token and currency the generated code trades with. Headless runs have no Bot Builder
+ * stores, so they fall back to the connected account. Simulated accounts (paper trading
+ * and replays) have no token, the trade engine only needs a non-empty one.
+ */
+export const getTradingAccount = () => {
+    const { client } = DBotStore.instance ?? {};
+    if (client?.is_logged_in) {
+        return { token: client.getToken(), currency: client.currency };
+    }
+
+    const { currency, loginid } = api_base.account_info;
+    const is_simulated = !!api_base.paper_trading_api || loginid === BACKTEST_LOGINID;
+    return { token: api_base.token || (is_simulated ? loginid : ''), currency };
+};
+
 export const getSelectedTradeType = (workspace = window.Blockly.derivWorkspace) => {
     const trade_type_block = workspace.getAllBlocks(true).find(block => block.type === 'trade_definition_tradetype');
     const selected_trade_type = trade_type_block?.getFieldValue('TRADETYPE_LIST');
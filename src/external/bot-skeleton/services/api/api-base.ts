@@ -3,6 +3,7 @@ import CommonStore from '@/stores/common-store';
 import { TAuthData } from '@/types/api-types';
 import { clearAuthData } from '@/utils/auth-utils';
 import { observer as globalObserver } from '../../utils/observer';
+import type PaperTradingApi from '../paper-trading/paper-trading-api';
 import { doUntilDone, socket_state } from '../tradeEngine/utils/helpers';
 import {
     CONNECTION_STATUS,
@@ -42,13 +43,20 @@ type TApiBaseApi = {
     };
 } & ReturnType<typeof generateDerivApiInstance>;
 
-class APIBase {
+const MAIN_BOT_ID = 'main';
+
+/** The connection of the app is `api_base`; a backtest runs its bot on an instance of its own. */
+export class APIBase {
     api: TApiBaseApi | null = null;
     token: string = '';
     account_id: string = '';
     pip_sizes = {};
     account_info = {};
+    live_account_info = {};
+    paper_trading_api: PaperTradingApi | null = null;
     is_running = false;
+    /** The bots that are running: the Bot Builder bot and the bots run side by side. */
+    running_bots = new Set<string>();
     subscriptions: CurrentSubscription[] = [];
     time_interval: ReturnType<typeof setInterval> | null = null;
     has_active_symbols = false;
@@ -106,7 +114,10 @@ class APIBase {
                 this.api.connection.removeEventListener('close', this.onsocketclose.bind(this));
             }
 
-            this.api = generateDerivApiInstance();
+            const live_api = generateDerivApiInstance();
+            this.api = this.paper_trading_api
+                ? (this.paper_trading_api.setUpstream(live_api) as unknown as TApiBaseApi)
+                : live_api;
             this.api?.connection.addEventListener('open', this.onsocketopen.bind(this));
             this.api?.connection.addEventListener('close', this.onsocketclose.bind(this));
 
@@ -216,7 +227,8 @@ class APIBase {
                 setIsAuthorizing(false);
                 return error;
             }
-            this.account_info = authorize;
+            this.live_account_info = authorize;
+            this.account_info = this.paper_trading_api?.getAccountInfo() ?? authorize;
             setAccountList(authorize?.account_list || []);
             setAuthData(authorize);
             setIsAuthorized(true);
@@ -292,14 +304,40 @@ class APIBase {
         );
     };
 
+    /**
+     * Points every trading surface at a simulated account, or back at the real one when
+     * called with `null`. The live connection stays authorised for the rest of the app and
+     * keeps serving ticks and other market data to the paper account.
+     */
+    setPaperTradingApi(paper_trading_api: PaperTradingApi | null) {
+        const live_api = (this.paper_trading_api ? this.paper_trading_api.upstream : this.api) as TApiBaseApi | null;
+        if (!this.paper_trading_api) this.live_account_info = this.account_info;
+
+        this.paper_trading_api?.setUpstream(null);
+        this.paper_trading_api = paper_trading_api;
+        if (paper_trading_api) {
+            this.api = paper_trading_api.setUpstream(live_api) as unknown as TApiBaseApi;
+            this.account_info = paper_trading_api.getAccountInfo();
+        } else {
+            this.api = live_api;
+            this.account_info = this.live_account_info;
+        }
+    }
+
     toggleRunButton = (toggle: boolean) => {
         const run_button = document.querySelector('#db-animation__run-button');
         if (!run_button) return;
         (run_button as HTMLButtonElement).disabled = toggle;
     };
 
-    setIsRunning(toggle = false) {
-        this.is_running = toggle;
+    /** Marks a bot as running or not; `is_running` stays set while any bot runs. */
+    setIsRunning(toggle = false, bot_id = MAIN_BOT_ID) {
+        if (toggle) {
+            this.running_bots.add(bot_id);
+        } else {
+            this.running_bots.delete(bot_id);
+        }
+        this.is_running = this.running_bots.size > 0;
     }
 
     pushSubscription(subscription: CurrentSubscription) {
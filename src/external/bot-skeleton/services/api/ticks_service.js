@@ -3,6 +3,7 @@ import { Map } from 'immutable';
 import { clearAuthData } from '@/utils/auth-utils';
 import { getLast, historyToTicks } from '../../utils/binary-utils';
 import { observer as globalObserver } from '../../utils/observer';
+import { tick_recorder } from '../tick-history';
 import { doUntilDone, getUUID } from '../tradeEngine/utils/helpers';
 import { api_base } from './api-base';
 
@@ -41,8 +42,16 @@ const updateCandles = (candles, ohlc) => {
 
 const getType = isCandle => (isCandle ? 'candles' : 'ticks');
 
+/**
+ * Streams ticks and candles to the bots. The app's service streams on `api_base`; a backtest
+ * passes its own connection and `events`, and turns `is_recording` off so replayed ticks
+ * stay out of the tick history.
+ */
 export default class TicksService {
-    constructor() {
+    constructor({ api_base: connection = api_base, events = globalObserver, is_recording = true } = {}) {
+        this.api_base = connection;
+        this.events = events;
+        this.is_recording = is_recording;
         this.ticks = new Map();
         this.candles = new Map();
         this.tickListeners = new Map();
@@ -62,7 +71,7 @@ export default class TicksService {
 
         if (!this.active_symbols_promise) {
             this.active_symbols_promise = new Promise(resolve => {
-                this.pipSizes = api_base.pip_sizes;
+                this.pipSizes = this.api_base.pip_sizes;
                 resolve(this.pipSizes);
             });
         }
@@ -103,17 +112,17 @@ export default class TicksService {
                 .then(() => {
                     if (type === 'ticks') {
                         this.tickListeners = this.tickListeners.setIn([symbol, key], callback);
-                        globalObserver.emit('bot.bot_ready');
-                        api_base.toggleRunButton(false);
+                        this.events.emit('bot.bot_ready');
+                        this.api_base.toggleRunButton(false);
                     } else {
                         this.ohlcListeners = this.ohlcListeners.setIn([symbol, Number(granularity), key], callback);
                     }
                     resolve(key);
                 })
                 .catch(e => {
-                    globalObserver.emit('Error', e);
+                    this.events.emit('Error', e);
                     this.ticks_history_promise = null;
-                    api_base.toggleRunButton(false);
+                    this.api_base.toggleRunButton(false);
                     reject(e);
                 });
         });
@@ -144,6 +153,13 @@ export default class TicksService {
         if (tickListener && !tickListener.size) {
             this.tickListeners = this.tickListeners.delete(symbol);
             this.ticks = this.ticks.delete(symbol);
+            // Without its ticks the symbol has to be requested again when it is monitored next.
+            if (
+                this.ticks_history_promise &&
+                JSON.parse(this.ticks_history_promise.stringified_options).symbol === symbol
+            ) {
+                this.ticks_history_promise = null;
+            }
             needToUnsubscribe = true;
         }
 
@@ -165,7 +181,7 @@ export default class TicksService {
 
         const subscription = [...(ohlcSubscriptions ? Array.from(ohlcSubscriptions.values()) : [])];
 
-        Promise.all(subscription.map(id => doUntilDone(() => api_base.api.forget(id))));
+        Promise.all(subscription.map(id => doUntilDone(() => this.api_base.api.forget(id))));
 
         this.subscriptions = new Map();
     }
@@ -175,6 +191,9 @@ export default class TicksService {
             return;
         }
         this.ticks = this.ticks.set(symbol, ticks);
+        if (this.is_recording) {
+            tick_recorder.record(symbol, ticks, (this.pipSizes ?? this.api_base.pip_sizes)?.[symbol]);
+        }
 
         const listeners = this.tickListeners.get(symbol);
 
@@ -197,8 +216,8 @@ export default class TicksService {
     }
 
     observe() {
-        if (api_base.api) {
-            const subscription = api_base.api.onMessage().subscribe(({ data }) => {
+        if (this.api_base.api) {
+            const subscription = this.api_base.api.onMessage().subscribe(({ data }) => {
                 if (data.msg_type === 'tick') {
                     const { tick } = data;
                     const { symbol, id } = tick;
@@ -221,7 +240,7 @@ export default class TicksService {
                     }
                 }
             });
-            api_base.pushSubscription(subscription);
+            this.api_base.pushSubscription(subscription);
         }
     }
 
@@ -255,18 +274,18 @@ export default class TicksService {
     }
 
     requestTicks(options) {
-        const { symbol, granularity, style } = options;
+        const { symbol, granularity, style, is_streamed } = options;
         const request_object = {
             ticks_history: symbol === 'na' ? 'R_100' : symbol,
-            subscribe: 1,
+            subscribe: is_streamed ? undefined : 1,
             end: 'latest',
             count: 1000,
             granularity: granularity ? Number(granularity) : undefined,
             style,
         };
         return new Promise((resolve, reject) => {
-            if (!api_base.api) resolve([]);
-            doUntilDone(() => api_base.api.send(request_object), [], api_base)
+            if (!this.api_base.api) resolve([]);
+            doUntilDone(() => this.api_base.api.send(request_object), [], this.api_base)
                 .then(r => {
                     if (style === 'ticks') {
                         const ticks = historyToTicks(r.history);
@@ -285,6 +304,14 @@ export default class TicksService {
                     if (error?.code === 'InvalidSymbol') {
                         clearAuthData();
                     }
+                    // Another ticks service, e.g. of a bot run side by side, streams the symbol on this
+                    // connection already. Its ticks reach this service too, so only the history is needed.
+                    if ((error?.error?.code ?? error?.code) === 'AlreadySubscribed' && request_object.subscribe) {
+                        this.requestTicks({ ...options, is_streamed: true })
+                            .then(resolve)
+                            .catch(reject);
+                        return;
+                    }
                     reject(error);
                 });
         });
@@ -292,8 +319,8 @@ export default class TicksService {
 
     forget = () => {
         return new Promise((resolve, reject) => {
-            if (api_base?.api) {
-                api_base.api
+            if (this.api_base?.api) {
+                this.api_base.api
                     .forgetAll('ticks')
                     .then(() => {
                         resolve();
@@ -307,8 +334,8 @@ export default class TicksService {
 
     forgetCandleSubscription = () => {
         return new Promise((resolve, reject) => {
-            if (api_base?.api) {
-                api_base.api
+            if (this.api_base?.api) {
+                this.api_base.api
                     .forgetAll('candles')
                     .then(() => {
                         resolve();
@@ -0,0 +1,88 @@
+import { api_base, APIBase } from '../../api/api-base';
+import { risk_manager } from '../../risk/risk-manager';
+import Interpreter from '../../tradeEngine/utils/interpreter';
+import { runBacktest } from '../backtester';
+import ReplayApi, { BACKTEST_LOGINID } from '../replay-api';
+import { parseTickFile } from '../tick-file';
+
+jest.mock('../../api/api-base', () => {
+    class MockApiBase {
+        api: unknown = null;
+        account_info = {};
+        pip_sizes = {};
+        is_running = false;
+        setIsRunning(toggle: boolean) {
+            this.is_running = toggle;
+        }
+    }
+    const mockApiBase = Object.assign(new MockApiBase(), { api: 'live api', pip_sizes: { R_100: 2 } });
+    return { APIBase: MockApiBase, api_base: mockApiBase };
+});
+jest.mock('../../api/ticks_service', () => jest.fn());
+jest.mock('../../risk/risk-manager', () => ({ risk_manager: { setAccountExempt: jest.fn() } }));
+jest.mock('../../tradeEngine/utils/interpreter', () => jest.fn());
+
+type TScopeOptions = { api_base: APIBase; events: { emit: (event: string, data: unknown) => void } };
+
+const dataset = parseTickFile(['epoch,quote', '1000,100.10', '1001,100.21', '1002,100.32'].join('\n'), {
+    symbol: 'R_100',
+});
+
+const mockInterpreter = (run: (options: TScopeOptions) => Promise<void>) => {
+    const scopes: TScopeOptions[] = [];
+    (Interpreter as jest.Mock).mockImplementation((options: TScopeOptions) => {
+        scopes.push(options);
+        return { run: () => run(options), terminateSession: jest.fn(async () => undefined) };
+    });
+    return scopes;
+};
+
+const requestTicks = ({ api_base: connection }: TScopeOptions) =>
+    (connection.api as unknown as ReplayApi).send({ ticks_history: 'R_100', subscribe: 1, style: 'ticks' });
+
+describe('runBacktest', () => {
+    it('should run the bot on a connection of its own while the live bots keep theirs', async () => {
+        api_base.setIsRunning(true);
+        const scopes = mockInterpreter(async options => {
+            await requestTicks(options);
+            await new Promise(() => undefined);
+        });
+
+        const result = await runBacktest({ code: '', dataset, warmup_ticks: 1 });
+
+        const [{ api_base: replay_api_base }] = scopes;
+        expect(replay_api_base.api).toBeInstanceOf(ReplayApi);
+        expect(replay_api_base.account_info).toMatchObject({ loginid: BACKTEST_LOGINID });
+        expect(replay_api_base.pip_sizes).toEqual({ R_100: 2 });
+        expect(replay_api_base.is_running).toBe(false);
+        expect(result.processed_ticks).toBe(dataset.ticks.length - 1);
+        expect(api_base).toMatchObject({ api: 'live api', is_running: true });
+
+        api_base.setIsRunning(false);
+    });
+
+    it('should report the errors of the bot on its own observer', async () => {
+        const onReady = jest.fn();
+        mockInterpreter(async options => {
+            await requestTicks(options);
+            options.events.emit('Error', { error: { message: 'Insufficient balance' } });
+        });
+
+        const result = await runBacktest({ code: '', dataset, onReady });
+
+        expect(result.error).toBe('Insufficient balance');
+        expect(onReady).toHaveBeenCalledWith(expect.objectContaining({ eam: expect.anything() }));
+    });
+
+    it('should release the exemption of the backtest account when the replay throws', async () => {
+        mockInterpreter(async () => undefined);
+        (Interpreter as jest.Mock).mockImplementationOnce(() => {
+            throw new Error('Interpreter failed');
+        });
+
+        await expect(runBacktest({ code: '', dataset })).rejects.toThrow('Interpreter failed');
+
+        expect(risk_manager.setAccountExempt).toHaveBeenLastCalledWith(BACKTEST_LOGINID, false);
+        expect(api_base.api).toBe('live api');
+    });
+});
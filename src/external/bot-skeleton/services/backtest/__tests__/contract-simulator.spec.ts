@@ -0,0 +1,69 @@
+import {
+    getExitTickOffset,
+    getWinProbability,
+    isWinningContract,
+    priceContract,
+    resolveBarrier,
+} from '../contract-simulator';
+
+describe('contract-simulator', () => {
+    it('should derive win probabilities from the barrier for digit contracts', () => {
+        expect(getWinProbability({ contract_type: 'DIGITMATCH', barrier: 3 })).toBe(0.1);
+        expect(getWinProbability({ contract_type: 'DIGITDIFF', barrier: 3 })).toBe(0.9);
+        expect(getWinProbability({ contract_type: 'DIGITOVER', barrier: 2 })).toBe(0.7);
+        expect(getWinProbability({ contract_type: 'DIGITUNDER', barrier: 2 })).toBe(0.2);
+        expect(getWinProbability({ contract_type: 'DIGITEVEN' })).toBe(0.5);
+        expect(getWinProbability({ contract_type: 'CALL' })).toBe(0.5);
+    });
+
+    it('should price stake and payout based contracts with the commission taken off', () => {
+        const contract = { contract_type: 'DIGITEVEN', duration: 1, duration_unit: 't' };
+
+        expect(priceContract({ ...contract, amount: 10, basis: 'stake' }, 0.05)).toEqual({
+            ask_price: 10,
+            payout: 19,
+        });
+        expect(priceContract({ ...contract, amount: 19, basis: 'payout' }, 0.05)).toEqual({
+            ask_price: 10,
+            payout: 19,
+        });
+    });
+
+    it('should reject unsupported contracts and impossible barriers', () => {
+        expect(() => priceContract({ contract_type: 'ACCU', amount: 1, duration: 1, duration_unit: 't' })).toThrow(
+            'not supported'
+        );
+        expect(() =>
+            priceContract({ contract_type: 'DIGITOVER', barrier: 9, amount: 1, duration: 1, duration_unit: 't' })
+        ).toThrow('not valid');
+    });
+
+    it('should count the entry tick as the first tick of digit contracts only', () => {
+        expect(getExitTickOffset({ contract_type: 'DIGITMATCH', duration: 1 })).toBe(0);
+        expect(getExitTickOffset({ contract_type: 'DIGITMATCH', duration: 5 })).toBe(4);
+        expect(getExitTickOffset({ contract_type: 'CALL', duration: 5 })).toBe(5);
+    });
+
+    it('should resolve relative and absolute barriers', () => {
+        expect(resolveBarrier('+0.5', 100)).toBe(100.5);
+        expect(resolveBarrier('-1.25', 100)).toBe(98.75);
+        expect(resolveBarrier('101', 100)).toBe(101);
+        expect(resolveBarrier(undefined, 100)).toBe(100);
+    });
+
+    it('should settle digit contracts on the last digit of the exit quote', () => {
+        expect(isWinningContract({ contract_type: 'DIGITMATCH', barrier: 0 }, 0, 1234.1, 2)).toBe(true);
+        expect(isWinningContract({ contract_type: 'DIGITOVER', barrier: 4 }, 0, 1234.15, 2)).toBe(true);
+        expect(isWinningContract({ contract_type: 'DIGITUNDER', barrier: 4 }, 0, 1234.15, 2)).toBe(false);
+        expect(isWinningContract({ contract_type: 'DIGITODD' }, 0, 1234.15, 2)).toBe(true);
+        expect(isWinningContract({ contract_type: 'DIGITEVEN' }, 0, 1234.15, 2)).toBe(false);
+    });
+
+    it('should settle rise/fall and higher/lower contracts against the barrier', () => {
+        expect(isWinningContract({ contract_type: 'CALL' }, 100, 100.01, 2)).toBe(true);
+        expect(isWinningContract({ contract_type: 'CALL' }, 100, 100, 2)).toBe(false);
+        expect(isWinningContract({ contract_type: 'CALLE' }, 100, 100, 2)).toBe(true);
+        expect(isWinningContract({ contract_type: 'PUT', barrier: '+0.5' }, 100, 100.4, 2)).toBe(true);
+        expect(isWinningContract({ contract_type: 'CALL', barrier: '+0.5' }, 100, 100.4, 2)).toBe(false);
+    });
+});
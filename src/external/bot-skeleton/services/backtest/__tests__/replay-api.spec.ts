@@ -0,0 +1,191 @@
+import {
+    BuyContractResponse,
+    PriceProposalOpenContractsResponse,
+    PriceProposalResponse,
+    TicksHistoryResponse,
+} from '@deriv/api-types';
+import { buildBacktestReport } from '../backtest-report';
+import ReplayApi, { TReplayCandle } from '../replay-api';
+import { parseTickFile } from '../tick-file';
+
+const dataset = parseTickFile(
+    ['epoch,quote', '1000,100.10', '1001,100.21', '1002,100.32', '1003,100.43', '1004,100.54', '1005,100.60'].join(
+        '\n'
+    ),
+    { symbol: 'R_100' }
+);
+
+const createApi = () =>
+    new ReplayApi({ dataset, initial_balance: 100, currency: 'USD', commission: 0.05, warmup_ticks: 2 });
+
+describe('parseTickFile', () => {
+    it('should read CSV files and infer the pip size', () => {
+        expect(dataset.symbol).toBe('R_100');
+        expect(dataset.pip_size).toBe(2);
+        expect(dataset.ticks).toHaveLength(6);
+    });
+
+    it('should read ticks_history responses and sort ticks by epoch', () => {
+        const parsed = parseTickFile(
+            JSON.stringify({
+                echo_req: { ticks_history: '1HZ10V' },
+                pip_size: 3,
+                history: { times: [2, 1], prices: [10.002, 10.001] },
+            })
+        );
+
+        expect(parsed).toEqual({
+            symbol: '1HZ10V',
+            pip_size: 3,
+            ticks: [
+                { epoch: 1, quote: 10.001 },
+                { epoch: 2, quote: 10.002 },
+            ],
+        });
+    });
+
+    it('should reject files without enough ticks', () => {
+        expect(() => parseTickFile('[]')).toThrow('at least two ticks');
+    });
+});
+
+describe('ReplayApi', () => {
+    it('should only return history up to the warm-up tick', async () => {
+        const api = createApi();
+        const response = (await api.send({
+            ticks_history: 'R_100',
+            count: 1000,
+            subscribe: 1,
+        })) as TicksHistoryResponse;
+
+        expect(response.history?.times).toEqual([1000, 1001]);
+        await expect(api.whenStreaming()).resolves.toBeUndefined();
+    });
+
+    it('should stream candles that grow with every replayed tick', async () => {
+        const api = createApi();
+        const ohlc: TReplayCandle[] = [];
+        api.onMessage().subscribe(({ data }) => data.msg_type === 'ohlc' && ohlc.push(data.ohlc as TReplayCandle));
+
+        const { candles } = (await api.send({
+            ticks_history: 'R_100',
+            style: 'candles',
+            granularity: 2,
+            subscribe: 1,
+        })) as { candles: TReplayCandle[] };
+        expect(candles).toEqual([
+            { open: 100.1, high: 100.21, low: 100.1, close: 100.21, epoch: 1001, open_time: 1000 },
+        ]);
+
+        api.advance();
+        api.advance();
+        api.advance();
+
+        expect(ohlc.map(({ open_time, close }) => [open_time, close])).toEqual([
+            [1002, 100.32],
+            [1002, 100.43],
+            [1004, 100.54],
+        ]);
+
+        const history = (await api.send({ ticks_history: 'R_100', style: 'candles', granularity: 2 })) as {
+            candles: TReplayCandle[];
+        };
+        expect(history.candles.map(({ open, close }) => [open, close])).toEqual([
+            [100.1, 100.21],
+            [100.32, 100.43],
+            [100.54, 100.54],
+        ]);
+        expect(candles[0].close).toBe(100.21);
+    });
+
+    it('should settle a bought contract on the tick it expires and credit the payout', async () => {
+        const api = createApi();
+        const messages: PriceProposalOpenContractsResponse[] = [];
+        api.onMessage().subscribe(({ data }) => messages.push(data as PriceProposalOpenContractsResponse));
+
+        const { buy } = (await api.send({
+            buy: '1',
+            price: 10,
+            parameters: { amount: 10, basis: 'stake', contract_type: 'CALL', duration: 2, duration_unit: 't' },
+        })) as BuyContractResponse;
+        expect(api.balance).toBe(90);
+
+        api.advance(); // entry tick
+        api.advance();
+        expect(api.settled_trades).toHaveLength(0);
+        api.advance(); // exit tick, two ticks after entry
+
+        const sold = messages.filter(
+            message => message.msg_type === 'proposal_open_contract' && message.proposal_open_contract?.is_sold
+        );
+        expect(sold).toHaveLength(1);
+        expect(sold[0].proposal_open_contract).toMatchObject({
+            contract_id: buy?.contract_id,
+            entry_tick: 100.32,
+            exit_tick: 100.54,
+            status: 'won',
+            sell_price: 19,
+        });
+        expect(api.balance).toBe(109);
+    });
+
+    it('should answer proposals and buy them by id', async () => {
+        const api = createApi();
+        const { proposal } = (await api.send({
+            proposal: 1,
+            amount: 1,
+            basis: 'stake',
+            contract_type: 'DIGITMATCH',
+            barrier: 0,
+            duration: 1,
+            duration_unit: 't',
+            passthrough: { contract_type: 'DIGITMATCH' },
+        })) as PriceProposalResponse;
+
+        expect(proposal).toMatchObject({ ask_price: 1, payout: 9.5 });
+
+        await api.send({ buy: proposal?.id, price: proposal?.ask_price });
+        api.advance();
+
+        expect(api.settled_trades[0]).toMatchObject({ contract_type: 'DIGITMATCH', is_win: false, profit: -1 });
+    });
+
+    it('should reject contracts that cannot be simulated', async () => {
+        const api = createApi();
+
+        await expect(
+            api.send({ proposal: 1, amount: 1, contract_type: 'MULTUP', duration: 1, duration_unit: 't' })
+        ).rejects.toMatchObject({ error: { code: 'ContractBuyValidationError' } });
+    });
+});
+
+describe('buildBacktestReport', () => {
+    it('should summarise trades into win rate, equity curve and drawdown', () => {
+        const trade = {
+            contract_type: 'CALL',
+            transaction_ids: { buy: 1, sell: 2 },
+            buy_price: 10,
+            payout: 19,
+            entry_tick: 1,
+            entry_tick_time: 1,
+            exit_tick: 1,
+        };
+        const report = buildBacktestReport(
+            [
+                { ...trade, contract_id: 1, exit_tick_time: 2, is_win: true, sell_price: 19, profit: 9 },
+                { ...trade, contract_id: 2, exit_tick_time: 3, is_win: false, sell_price: 0, profit: -10 },
+                { ...trade, contract_id: 3, exit_tick_time: 4, is_win: false, sell_price: 0, profit: -10 },
+                { ...trade, contract_id: 4, exit_tick_time: 5, is_win: true, sell_price: 19, profit: 9 },
+            ],
+            100
+        );
+
+        expect(report.equity_curve.map(({ balance }) => balance)).toEqual([100, 109, 99, 89, 98]);
+        expect(report.win_rate).toBe(50);
+        expect(report.total_profit).toBe(-2);
+        expect(report.final_balance).toBe(98);
+        expect(report.max_drawdown).toBe(20);
+        expect(report.max_drawdown_percentage).toBe(18.35);
+        expect(report.longest_losing_streak).toBe(2);
+    });
+});
@@ -0,0 +1,106 @@
+import { roundAmount } from './contract-simulator';
+
+export type TBacktestTrade = {
+    contract_id: number;
+    transaction_ids: { buy: number; sell: number };
+    contract_type: string;
+    barrier?: string | number;
+    buy_price: number;
+    payout: number;
+    sell_price: number;
+    profit: number;
+    is_win: boolean;
+    entry_tick: number;
+    entry_tick_time: number;
+    exit_tick: number;
+    exit_tick_time: number;
+};
+
+export type TEquityPoint = {
+    epoch: number;
+    balance: number;
+};
+
+export type TBacktestReport = {
+    trades: TBacktestTrade[];
+    equity_curve: TEquityPoint[];
+    initial_balance: number;
+    final_balance: number;
+    total_profit: number;
+    total_stake: number;
+    wins: number;
+    losses: number;
+    win_rate: number;
+    max_drawdown: number;
+    max_drawdown_percentage: number;
+    longest_losing_streak: number;
+};
+
+export const buildEquityCurve = (trades: TBacktestTrade[], initial_balance: number, start_epoch = 0) => {
+    let balance = initial_balance;
+    const equity_curve: TEquityPoint[] = [{ epoch: trades[0]?.entry_tick_time ?? start_epoch, balance }];
+
+    trades.forEach(trade => {
+        balance = roundAmount(balance + trade.profit);
+        equity_curve.push({ epoch: trade.exit_tick_time, balance });
+    });
+
+    return equity_curve;
+};
+
+/**
+ * Largest peak-to-trough fall of the equity curve, both as an amount and as a
+ * percentage of the peak it fell from.
+ */
+export const getMaxDrawdown = (equity_curve: TEquityPoint[]) => {
+    let peak = equity_curve[0]?.balance ?? 0;
+    let max_drawdown = 0;
+    let max_drawdown_percentage = 0;
+
+    equity_curve.forEach(({ balance }) => {
+        peak = Math.max(peak, balance);
+        const drawdown = peak - balance;
+        if (drawdown > max_drawdown) {
+            max_drawdown = drawdown;
+            max_drawdown_percentage = peak > 0 ? (drawdown / peak) * 100 : 0;
+        }
+    });
+
+    return { max_drawdown: roundAmount(max_drawdown), max_drawdown_percentage: roundAmount(max_drawdown_percentage) };
+};
+
+const getLongestLosingStreak = (trades: TBacktestTrade[]) => {
+    let longest = 0;
+    let current = 0;
+
+    trades.forEach(({ is_win }) => {
+        current = is_win ? 0 : current + 1;
+        longest = Math.max(longest, current);
+    });
+
+    return longest;
+};
+
+export const buildBacktestReport = (
+    trades: TBacktestTrade[],
+    initial_balance: number,
+    start_epoch?: number
+): TBacktestReport => {
+    const equity_curve = buildEquityCurve(trades, initial_balance, start_epoch);
+    const wins = trades.filter(trade => trade.is_win).length;
+    const total_profit = roundAmount(trades.reduce((total, trade) => total + trade.profit, 0));
+
+    return {
+        trades,
+        equity_curve,
+        initial_balance,
+        final_balance: equity_curve[equity_curve.length - 1].balance,
+        total_profit,
+        total_stake: roundAmount(trades.reduce((total, trade) => total + trade.buy_price, 0)),
+        wins,
+        losses: trades.length - wins,
+        win_rate: trades.length ? roundAmount((wins / trades.length) * 100) : 0,
+        ...getMaxDrawdown(equity_curve),
+        longest_losing_streak: getLongestLosingStreak(trades),
+    };
+};
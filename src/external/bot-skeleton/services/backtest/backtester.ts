@@ -0,0 +1,134 @@
+import { getErrorMessage } from '../../utils/error-message';
+import Observer from '../../utils/observer';
+import { api_base, APIBase } from '../api/api-base';
+import TicksService from '../api/ticks_service';
+import { risk_manager } from '../risk/risk-manager';
+import Interpreter from '../tradeEngine/utils/interpreter';
+import { buildBacktestReport, TBacktestReport } from './backtest-report';
+import ReplayApi, { BACKTEST_LOGINID } from './replay-api';
+import { TReplayDataset } from './tick-file';
+
+export type TBacktestProgress = {
+    processed_ticks: number;
+    total_ticks: number;
+    trades: number;
+    balance: number;
+};
+
+export type TBacktestOptions = {
+    code: string;
+    dataset: TReplayDataset;
+    initial_balance?: number;
+    currency?: string;
+    commission?: number;
+    warmup_ticks?: number;
+    tick_interval_ms?: number;
+    onProgress?: (progress: TBacktestProgress) => void;
+    /** Called with the observer the bot reports on, to listen to its events during the replay. */
+    onReady?: (events: Observer) => void;
+    shouldStop?: () => boolean;
+};
+
+export type TBacktestResult = TBacktestReport & {
+    symbol: string;
+    processed_ticks: number;
+    open_contracts: number;
+    error?: string;
+};
+
+const STREAM_START_TIMEOUT = 10000;
+
+const wait = (ms: number) =>
+    new Promise(resolve => {
+        setTimeout(resolve, ms);
+    });
+
+/**
+ * Runs generated bot code through the real Interpreter and TradeEngine against a
+ * recorded tick file. The bot trades on a connection of its own that is backed by a
+ * ReplayApi and reports on an observer of its own, so the app's connection, its bots
+ * and its panels are left untouched while the replay runs.
+ */
+export const runBacktest = async ({
+    code,
+    dataset,
+    initial_balance = 1000,
+    currency = 'USD',
+    commission,
+    warmup_ticks,
+    tick_interval_ms = 0,
+    onProgress,
+    onReady,
+    shouldStop = () => false,
+}: TBacktestOptions): Promise<TBacktestResult> => {
+    const replay_api = new ReplayApi({ dataset, initial_balance, currency, commission, warmup_ticks });
+    const first_tick_index = replay_api.cursor;
+    const replay_api_base = new APIBase();
+    replay_api_base.api = replay_api as unknown as APIBase['api'];
+    replay_api_base.account_info = { loginid: BACKTEST_LOGINID, currency, balance: initial_balance, is_virtual: 1 };
+    replay_api_base.pip_sizes = { ...api_base.pip_sizes, [dataset.symbol]: dataset.pip_size };
+    const events = new Observer();
+
+    let error: string | undefined;
+    let is_finished = false;
+
+    const stopWithError = (e: unknown) => {
+        if (!error) error = getErrorMessage(e);
+    };
+
+    try {
+        replay_api_base.setIsRunning(true);
+        // Simulated trades must not count towards the risk limits of real accounts.
+        risk_manager.setAccountExempt(BACKTEST_LOGINID, true);
+
+        events.register('Error', stopWithError);
+        events.register('ui.log.error', stopWithError);
+        onReady?.(events);
+
+        const interpreter = Interpreter({
+            api_base: replay_api_base,
+            events,
+            // Replayed ticks must not leak into the recorded tick history.
+            ticksService: new TicksService({ api_base: replay_api_base, events, is_recording: false }),
+        });
+        interpreter
+            .run(code)
+            .catch(stopWithError)
+            .finally(() => {
+                is_finished = true;
+            });
+
+        const has_started = await Promise.race([
+            replay_api.whenStreaming().then(() => true),
+            wait(STREAM_START_TIMEOUT).then(() => false),
+        ]);
+        if (!has_started && !error) {
+            error = 'The bot did not request any ticks.';
+        }
+
+        while (has_started && !error && !is_finished && !shouldStop() && replay_api.advance()) {
+            onProgress?.({
+                processed_ticks: replay_api.cursor - first_tick_index,
+                total_ticks: dataset.ticks.length - first_tick_index - 1,
+                trades: replay_api.settled_trades.length,
+                balance: replay_api.balance,
+            });
+            // Give the interpreter a chance to react to the tick before the next one arrives.
+            // eslint-disable-next-line no-await-in-loop
+            await wait(tick_interval_ms);
+        }
+
+        await interpreter.terminateSession().catch(() => undefined);
+    } finally {
+        replay_api_base.setIsRunning(false);
+        risk_manager.setAccountExempt(BACKTEST_LOGINID, false);
+    }
+
+    return {
+        ...buildBacktestReport(replay_api.settled_trades, initial_balance, dataset.ticks[first_tick_index].epoch),
+        symbol: dataset.symbol,
+        processed_ticks: replay_api.cursor - first_tick_index,
+        open_contracts: replay_api.open_contract_count,
+        error,
+    };
+};
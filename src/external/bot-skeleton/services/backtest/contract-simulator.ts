@@ -0,0 +1,161 @@
+export const DIGIT_CONTRACT_TYPES = ['DIGITMATCH', 'DIGITDIFF', 'DIGITOVER', 'DIGITUNDER', 'DIGITEVEN', 'DIGITODD'];
+
+// Rise/Fall and Higher/Lower share these contract types, Higher/Lower only adds a barrier.
+export const UP_DOWN_CONTRACT_TYPES = ['CALL', 'PUT', 'CALLE', 'PUTE'];
+
+export const SUPPORTED_CONTRACT_TYPES = [...DIGIT_CONTRACT_TYPES, ...UP_DOWN_CONTRACT_TYPES];
+
+export const DEFAULT_COMMISSION = 0.05;
+
+export type TSimulatedContract = {
+    contract_type: string;
+    amount: number;
+    basis?: 'stake' | 'payout' | string;
+    duration: number;
+    duration_unit: string;
+    barrier?: string | number;
+};
+
+export type TContractPrice = {
+    ask_price: number;
+    payout: number;
+};
+
+const DURATION_IN_SECONDS: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400,
+};
+
+export const roundAmount = (value: number, decimals = 2) => {
+    const factor = 10 ** decimals;
+    return Math.round((value + Number.EPSILON) * factor) / factor;
+};
+
+export const isDigitContract = (contract_type: string) => DIGIT_CONTRACT_TYPES.includes(contract_type);
+
+export const isSupportedContract = (contract_type: string) => SUPPORTED_CONTRACT_TYPES.includes(contract_type);
+
+export const getLastDigitOfQuote = (quote: number, pip_size: number) => {
+    const quote_string = quote.toFixed(pip_size);
+    return Number(quote_string[quote_string.length - 1]);
+};
+
+/**
+ * Returns the fair probability of a contract winning, assuming uniformly distributed
+ * last digits and a symmetric random walk for up/down contracts.
+ */
+export const getWinProbability = ({
+    contract_type,
+    barrier,
+}: Pick<TSimulatedContract, 'contract_type' | 'barrier'>) => {
+    const digit = Number(barrier);
+
+    switch (contract_type) {
+        case 'DIGITMATCH':
+            return 0.1;
+        case 'DIGITDIFF':
+            return 0.9;
+        case 'DIGITOVER':
+            return (9 - digit) / 10;
+        case 'DIGITUNDER':
+            return digit / 10;
+        case 'DIGITEVEN':
+        case 'DIGITODD':
+        case 'CALL':
+        case 'PUT':
+        case 'CALLE':
+        case 'PUTE':
+            return 0.5;
+        default:
+            return 0;
+    }
+};
+
+/**
+ * Prices a contract deterministically from its win probability so that replays are
+ * reproducible. The commission is taken off the fair payout.
+ */
+export const priceContract = (contract: TSimulatedContract, commission = DEFAULT_COMMISSION): TContractPrice => {
+    const probability = getWinProbability(contract);
+
+    if (!isSupportedContract(contract.contract_type)) {
+        throw new Error(`Contract type ${contract.contract_type} is not supported by the backtester`);
+    }
+    if (!(probability > 0 && probability < 1)) {
+        throw new Error(`Barrier ${contract.barrier} is not valid for ${contract.contract_type}`);
+    }
+
+    const amount = Number(contract.amount);
+    if (contract.basis === 'payout') {
+        return { ask_price: roundAmount((amount * probability) / (1 - commission)), payout: amount };
+    }
+
+    return { ask_price: amount, payout: roundAmount((amount / probability) * (1 - commission)) };
+};
+
+export const getDurationInSeconds = (duration: number, duration_unit: string) =>
+    Number(duration) * (DURATION_IN_SECONDS[duration_unit] ?? 0);
+
+/**
+ * Number of ticks after the entry tick at which a tick contract settles. Digit contracts
+ * count the entry tick itself as their first tick.
+ */
+export const getExitTickOffset = ({
+    contract_type,
+    duration,
+}: Pick<TSimulatedContract, 'contract_type' | 'duration'>) =>
+    isDigitContract(contract_type) ? Math.max(Number(duration) - 1, 0) : Math.max(Number(duration), 1);
+
+export const resolveBarrier = (barrier: string | number | undefined, entry_quote: number) => {
+    if (barrier === undefined || barrier === '') return entry_quote;
+
+    const barrier_string = String(barrier).trim();
+    if (barrier_string.startsWith('+') || barrier_string.startsWith('-')) {
+        return entry_quote + Number(barrier_string);
+    }
+
+    return Number(barrier_string);
+};
+
+export const isWinningContract = (
+    { contract_type, barrier }: Pick<TSimulatedContract, 'contract_type' | 'barrier'>,
+    entry_quote: number,
+    exit_quote: number,
+    pip_size: number
+) => {
+    if (isDigitContract(contract_type)) {
+        const last_digit = getLastDigitOfQuote(exit_quote, pip_size);
+        const digit = Number(barrier);
+
+        switch (contract_type) {
+            case 'DIGITMATCH':
+                return last_digit === digit;
+            case 'DIGITDIFF':
+                return last_digit !== digit;
+            case 'DIGITOVER':
+                return last_digit > digit;
+            case 'DIGITUNDER':
+                return last_digit < digit;
+            case 'DIGITEVEN':
+                return last_digit % 2 === 0;
+            default:
+                return last_digit % 2 === 1;
+        }
+    }
+
+    const barrier_quote = Number(resolveBarrier(barrier, entry_quote).toFixed(pip_size));
+    const rounded_exit = Number(exit_quote.toFixed(pip_size));
+
+    switch (contract_type) {
+        case 'CALL':
+            return rounded_exit > barrier_quote;
+        case 'CALLE':
+            return rounded_exit >= barrier_quote;
+        case 'PUT':
+            return rounded_exit < barrier_quote;
+        default:
+            return rounded_exit <= barrier_quote;
+    }
+};
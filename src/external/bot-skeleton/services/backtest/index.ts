@@ -0,0 +1,5 @@
+export * from './backtest-report';
+export * from './backtester';
+export * from './contract-simulator';
+export { BACKTEST_LOGINID, default as ReplayApi } from './replay-api';
+export * from './tick-file';
@@ -0,0 +1,451 @@
+import { Authorize, ProposalOpenContract } from '@deriv/api-types';
+import { TBacktestTrade } from './backtest-report';
+import {
+    DEFAULT_COMMISSION,
+    getDurationInSeconds,
+    getExitTickOffset,
+    isWinningContract,
+    priceContract,
+    roundAmount,
+    TSimulatedContract,
+} from './contract-simulator';
+import SimulatedApi, {
+    createApiError,
+    MAX_HISTORY_COUNT,
+    TSimulatedRequest,
+    TSimulatedResponse,
+} from './simulated-api';
+import { TReplayDataset, TReplayTick } from './tick-file';
+
+export type TReplayCandle = {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    epoch: number;
+    open_time: number;
+};
+
+/** The candles of a granularity, built from the ticks up to and including `cursor`. */
+type TCandleSeries = { candles: TReplayCandle[]; cursor: number };
+
+type TReplayContract = TSimulatedContract & {
+    contract_id: number;
+    transaction_id: number;
+    currency: string;
+    buy_price: number;
+    payout: number;
+    purchase_index: number;
+    purchase_time: number;
+    entry_index?: number;
+};
+
+export type TReplayApiOptions = {
+    dataset: TReplayDataset;
+    initial_balance: number;
+    currency: string;
+    commission?: number;
+    warmup_ticks?: number;
+};
+
+export const BACKTEST_LOGINID = 'BACKTEST';
+
+/**
+ * A stand-in for the DerivAPI instance on `api_base.api` that answers the requests
+ * made by the TradeEngine from a recorded tick file instead of the websocket. Ticks
+ * only move forward when `advance` is called, which lets a runner drive the replay.
+ */
+export default class ReplayApi extends SimulatedApi {
+    dataset: TReplayDataset;
+    balance: number;
+    currency: string;
+    commission: number;
+    cursor: number;
+    settled_trades: TBacktestTrade[] = [];
+
+    protected id_prefix = 'replay';
+
+    private proposals = new Map<string, TReplayContract>();
+    private open_contracts = new Map<number, TReplayContract>();
+    private candle_granularities = new Set<number>();
+    private candle_series = new Map<number, TCandleSeries>();
+    private is_streaming = false;
+    private onStreamStart: (() => void) | null = null;
+
+    constructor({
+        dataset,
+        initial_balance,
+        currency,
+        commission = DEFAULT_COMMISSION,
+        warmup_ticks = 100,
+    }: TReplayApiOptions) {
+        super();
+        this.dataset = dataset;
+        this.balance = initial_balance;
+        this.currency = currency;
+        this.commission = commission;
+        this.cursor = Math.min(Math.max(warmup_ticks, 1), dataset.ticks.length) - 1;
+    }
+
+    get current_tick(): TReplayTick {
+        return this.dataset.ticks[this.cursor];
+    }
+
+    get open_contract_count() {
+        return this.open_contracts.size;
+    }
+
+    hasNextTick() {
+        return this.cursor < this.dataset.ticks.length - 1;
+    }
+
+    whenStreaming() {
+        if (this.is_streaming) return Promise.resolve();
+        return new Promise<void>(resolve => {
+            this.onStreamStart = resolve;
+        });
+    }
+
+    forget() {
+        return Promise.resolve({ forget: 1 });
+    }
+
+    forgetAll(...types: string[]) {
+        if (types.includes('candles')) this.candle_granularities.clear();
+        return Promise.resolve({ forget_all: [] });
+    }
+
+    /**
+     * Moves the replay one tick forward, streams the tick (and candle) to the
+     * subscribers and updates every open contract against it.
+     */
+    advance() {
+        if (!this.hasNextTick()) return false;
+
+        this.cursor++;
+        const { epoch, quote } = this.current_tick;
+        const { symbol, pip_size } = this.dataset;
+
+        this.emit({ msg_type: 'tick', tick: { id: 'replay-ticks', symbol, epoch, quote, pip_size } });
+        this.candle_granularities.forEach(granularity => {
+            const candles = this.getCandles(granularity);
+            this.emit({
+                msg_type: 'ohlc',
+                ohlc: { ...candles[candles.length - 1], id: `replay-ohlc-${granularity}`, granularity, symbol },
+            });
+        });
+        this.open_contracts.forEach(contract => this.updateContract(contract));
+
+        return true;
+    }
+
+    protected handleRequest(request: TSimulatedRequest): TSimulatedResponse {
+        if (request.ticks_history) return this.getHistory(request);
+        if (request.proposal) return this.getProposal(request);
+        if (request.buy) return this.buy(request);
+        if (request.proposal_open_contract) return this.getOpenContract(request);
+        if (request.balance) return this.getBalance();
+        if (request.authorize) return { msg_type: 'authorize', authorize: this.getAccountInfo() };
+        if (request.time) return { msg_type: 'time', time: this.current_tick.epoch };
+        if (request.forget) return { msg_type: 'forget', forget: 1 };
+        if (request.forget_all) return { msg_type: 'forget_all', forget_all: [] };
+        if (request.sell) {
+            throw createApiError(request, 'sell', 'InvalidOfferings', 'Selling before expiry is not simulated.');
+        }
+
+        const [msg_type] = Object.keys(request);
+        throw createApiError(request, msg_type, 'UnsupportedRequest', `${msg_type} is not available in a backtest.`);
+    }
+
+    private getAccountInfo(): Authorize {
+        return { loginid: BACKTEST_LOGINID, currency: this.currency, balance: this.balance, is_virtual: 1 };
+    }
+
+    private getBalance(): TSimulatedResponse {
+        return {
+            msg_type: 'balance',
+            balance: { balance: this.balance, currency: this.currency, loginid: BACKTEST_LOGINID },
+        };
+    }
+
+    /** Adds the ticks replayed since the last call to the candles, so each tick is only counted once. */
+    private getCandles(granularity: number) {
+        let series = this.candle_series.get(granularity);
+        if (!series) {
+            series = { candles: [], cursor: -1 };
+            this.candle_series.set(granularity, series);
+        }
+
+        const { candles } = series;
+        for (let index = series.cursor + 1; index <= this.cursor; index++) {
+            const { epoch, quote } = this.dataset.ticks[index];
+            const open_time = epoch - (epoch % granularity);
+            const last_candle = candles[candles.length - 1];
+
+            if (last_candle?.open_time === open_time) {
+                last_candle.high = Math.max(last_candle.high, quote);
+                last_candle.low = Math.min(last_candle.low, quote);
+                last_candle.close = quote;
+                last_candle.epoch = epoch;
+            } else {
+                candles.push({ open: quote, high: quote, low: quote, close: quote, epoch, open_time });
+            }
+        }
+        series.cursor = this.cursor;
+
+        return candles;
+    }
+
+    private getHistory(request: TSimulatedRequest): TSimulatedResponse {
+        const count = Math.min(Number(request.count) || MAX_HISTORY_COUNT, MAX_HISTORY_COUNT);
+
+        if (!this.is_streaming && request.subscribe) {
+            this.is_streaming = true;
+            this.onStreamStart?.();
+        }
+
+        if (request.style === 'candles') {
+            const granularity = Number(request.granularity) || 60;
+            if (request.subscribe) this.candle_granularities.add(granularity);
+            return {
+                msg_type: 'candles',
+                candles: this.getCandles(granularity)
+                    .slice(-count)
+                    .map(candle => ({ ...candle })),
+                pip_size: this.dataset.pip_size,
+            };
+        }
+
+        const ticks = this.dataset.ticks.slice(Math.max(this.cursor + 1 - count, 0), this.cursor + 1);
+        return {
+            msg_type: 'history',
+            history: { times: ticks.map(({ epoch }) => epoch), prices: ticks.map(({ quote }) => quote) },
+            pip_size: this.dataset.pip_size,
+        };
+    }
+
+    private createContract(request: TSimulatedRequest, parameters: TSimulatedRequest): TReplayContract {
+        const contract: TSimulatedContract = {
+            contract_type: parameters.contract_type ?? '',
+            amount: Number(parameters.amount),
+            basis: parameters.basis,
+            duration: Number(parameters.duration),
+            duration_unit: parameters.duration_unit ?? '',
+            barrier: parameters.barrier,
+        };
+
+        let price;
+        try {
+            price = priceContract(contract, this.commission);
+        } catch (error) {
+            throw createApiError(
+                request,
+                request.proposal ? 'proposal' : 'buy',
+                'ContractBuyValidationError',
+                (error as Error).message
+            );
+        }
+
+        return {
+            ...contract,
+            contract_id: 0,
+            transaction_id: 0,
+            currency: parameters.currency || this.currency,
+            buy_price: price.ask_price,
+            payout: price.payout,
+            purchase_index: this.cursor,
+            purchase_time: this.current_tick.epoch,
+        };
+    }
+
+    private getProposal(request: TSimulatedRequest): TSimulatedResponse {
+        const contract = this.createContract(request, request);
+        const id = `replay-proposal-${this.next_id++}`;
+        this.proposals.set(id, contract);
+
+        return {
+            msg_type: 'proposal',
+            passthrough: request.passthrough,
+            proposal: {
+                id,
+                ask_price: contract.buy_price,
+                display_value: contract.buy_price.toFixed(2),
+                payout: contract.payout,
+                spot: this.current_tick.quote,
+                spot_time: this.current_tick.epoch,
+                date_start: this.current_tick.epoch,
+                longcode: this.getLongcode(contract),
+            },
+        };
+    }
+
+    private buy(request: TSimulatedRequest): TSimulatedResponse {
+        const template = request.parameters
+            ? this.createContract(request, request.parameters)
+            : this.proposals.get(String(request.buy));
+
+        if (!template) {
+            throw createApiError(request, 'buy', 'InvalidContractProposal', 'Proposal has expired.');
+        }
+        if (template.buy_price > this.balance) {
+            throw createApiError(
+                request,
+                'buy',
+                'InsufficientBalance',
+                'Your account balance is insufficient for this trade.'
+            );
+        }
+
+        const contract: TReplayContract = {
+            ...template,
+            contract_id: this.next_id++,
+            transaction_id: this.next_id++,
+            purchase_index: this.cursor,
+            purchase_time: this.current_tick.epoch,
+        };
+
+        this.open_contracts.set(contract.contract_id, contract);
+        this.balance = roundAmount(this.balance - contract.buy_price);
+        this.emit(this.getBalance());
+
+        return {
+            msg_type: 'buy',
+            buy: {
+                balance_after: this.balance,
+                buy_price: contract.buy_price,
+                contract_id: contract.contract_id,
+                longcode: this.getLongcode(contract),
+                payout: contract.payout,
+                purchase_time: contract.purchase_time,
+                shortcode: `${contract.contract_type}_${this.dataset.symbol}_${contract.payout}`,
+                start_time: contract.purchase_time,
+                transaction_id: contract.transaction_id,
+            },
+        };
+    }
+
+    private getOpenContract(request: TSimulatedRequest): TSimulatedResponse {
+        const contract_id = Number(request.contract_id);
+        const open_contract = this.open_contracts.get(contract_id);
+        const settled_trade = this.settled_trades.find(trade => trade.contract_id === contract_id);
+
+        let proposal_open_contract: ProposalOpenContract = {};
+        if (open_contract) proposal_open_contract = this.toOpenContract(open_contract);
+        else if (settled_trade) proposal_open_contract = this.toSoldContract(settled_trade);
+
+        return { msg_type: 'proposal_open_contract', proposal_open_contract };
+    }
+
+    private isContractExpired(contract: TReplayContract) {
+        if (contract.entry_index === undefined) return false;
+
+        if (contract.duration_unit === 't') {
+            return this.cursor >= contract.entry_index + getExitTickOffset(contract);
+        }
+
+        const expiry = contract.purchase_time + getDurationInSeconds(contract.duration, contract.duration_unit);
+        return this.current_tick.epoch >= expiry;
+    }
+
+    private updateContract(contract: TReplayContract) {
+        if (contract.entry_index === undefined && this.cursor > contract.purchase_index) {
+            contract.entry_index = this.cursor;
+        }
+
+        if (!this.isContractExpired(contract)) {
+            this.emit({ msg_type: 'proposal_open_contract', proposal_open_contract: this.toOpenContract(contract) });
+            return;
+        }
+
+        const entry_tick = this.dataset.ticks[contract.entry_index as number];
+        const exit_tick = this.current_tick;
+        const is_win = isWinningContract(contract, entry_tick.quote, exit_tick.quote, this.dataset.pip_size);
+        const sell_price = is_win ? contract.payout : 0;
+
+        const trade: TBacktestTrade = {
+            contract_id: contract.contract_id,
+            transaction_ids: { buy: contract.transaction_id, sell: this.next_id++ },
+            contract_type: contract.contract_type,
+            barrier: contract.barrier,
+            buy_price: contract.buy_price,
+            payout: contract.payout,
+            sell_price,
+            profit: roundAmount(sell_price - contract.buy_price),
+            is_win,
+            entry_tick: entry_tick.quote,
+            entry_tick_time: entry_tick.epoch,
+            exit_tick: exit_tick.quote,
+            exit_tick_time: exit_tick.epoch,
+        };
+
+        this.open_contracts.delete(contract.contract_id);
+        this.settled_trades.push(trade);
+        this.balance = roundAmount(this.balance + sell_price);
+
+        this.emit({ msg_type: 'proposal_open_contract', proposal_open_contract: this.toSoldContract(trade) });
+        this.emit(this.getBalance());
+    }
+
+    private getLongcode(contract: TSimulatedContract) {
+        const barrier = contract.barrier === undefined ? '' : ` (barrier ${contract.barrier})`;
+        return `Replay ${contract.contract_type}${barrier} on ${this.dataset.symbol} for ${contract.duration}${contract.duration_unit}.`;
+    }
+
+    private getCommonContractFields(contract: TBacktestTrade | TReplayContract) {
+        const { symbol } = this.dataset;
+
+        return {
+            barrier: contract.barrier === undefined ? undefined : String(contract.barrier),
+            buy_price: contract.buy_price,
+            contract_id: contract.contract_id,
+            contract_type: contract.contract_type,
+            currency: this.currency,
+            display_name: symbol,
+            payout: contract.payout,
+            shortcode: `${contract.contract_type}_${symbol}_${contract.payout}`,
+            underlying: symbol,
+        };
+    }
+
+    private toOpenContract(contract: TReplayContract): ProposalOpenContract {
+        const entry_tick = contract.entry_index === undefined ? undefined : this.dataset.ticks[contract.entry_index];
+
+        return {
+            ...this.getCommonContractFields(contract),
+            bid_price: contract.buy_price,
+            current_spot: this.current_tick.quote,
+            current_spot_time: this.current_tick.epoch,
+            date_start: contract.purchase_time,
+            entry_tick: entry_tick?.quote,
+            entry_tick_time: entry_tick?.epoch,
+            is_expired: 0,
+            is_sold: 0,
+            is_valid_to_sell: 0,
+            longcode: this.getLongcode(contract),
+            status: 'open',
+            transaction_ids: { buy: contract.transaction_id },
+        };
+    }
+
+    private toSoldContract(trade: TBacktestTrade): ProposalOpenContract {
+        return {
+            ...this.getCommonContractFields(trade),
+            bid_price: trade.sell_price,
+            current_spot: trade.exit_tick,
+            current_spot_time: trade.exit_tick_time,
+            date_start: trade.entry_tick_time,
+            entry_tick: trade.entry_tick,
+            entry_tick_time: trade.entry_tick_time,
+            exit_tick: trade.exit_tick,
+            exit_tick_time: trade.exit_tick_time,
+            is_expired: 1,
+            is_sold: 1,
+            is_valid_to_sell: 0,
+            profit: trade.profit,
+            sell_price: trade.sell_price,
+            sell_time: trade.exit_tick_time,
+            status: trade.is_win ? 'won' : 'lost',
+            transaction_ids: trade.transaction_ids,
+        };
+    }
+}
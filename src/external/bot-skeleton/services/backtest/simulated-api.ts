@@ -0,0 +1,140 @@
+import {
+    AuthorizeRequest,
+    AuthorizeResponse,
+    BalanceRequest,
+    BalanceResponse,
+    BuyContractRequest,
+    BuyContractResponse,
+    ForgetAllRequest,
+    ForgetAllResponse,
+    ForgetRequest,
+    ForgetResponse,
+    PriceProposalOpenContractsRequest,
+    PriceProposalOpenContractsResponse,
+    PriceProposalRequest,
+    PriceProposalResponse,
+    SellContractRequest,
+    ServerTimeRequest,
+    ServerTimeResponse,
+    TicksHistoryRequest,
+    TicksHistoryResponse,
+    TicksStreamRequest,
+    TicksStreamResponse,
+    TransactionsStreamRequest,
+    TransactionsStreamResponse,
+} from '@deriv/api-types';
+
+/**
+ * Fields a bot sends looser than the schema has them: digit barriers are numbers, a replay
+ * builds candles of any granularity and the schema types `count` as `number & string`.
+ */
+type TLooseFields = { barrier?: string | number; count?: number; granularity?: number };
+
+/** A request as the TradeEngine sends it, so any field may be left out. */
+export type TSimulatedRequest = Partial<
+    Omit<
+        AuthorizeRequest &
+            BalanceRequest &
+            BuyContractRequest &
+            ForgetAllRequest &
+            ForgetRequest &
+            PriceProposalOpenContractsRequest &
+            PriceProposalRequest &
+            SellContractRequest &
+            ServerTimeRequest &
+            TicksHistoryRequest &
+            TicksStreamRequest &
+            TransactionsStreamRequest,
+        keyof TLooseFields | 'parameters'
+    >
+> &
+    TLooseFields & { parameters?: TSimulatedRequest };
+
+type TWithoutEcho<T> = T extends unknown ? { [K in keyof T as K extends 'echo_req' ? never : K]: T[K] } : never;
+
+/** A response or stream message of a simulated account. `send` echoes the request into it. */
+export type TSimulatedResponse = TWithoutEcho<
+    | AuthorizeResponse
+    | BalanceResponse
+    | BuyContractResponse
+    | ForgetAllResponse
+    | ForgetResponse
+    | PriceProposalOpenContractsResponse
+    | PriceProposalResponse
+    | ServerTimeResponse
+    | TicksHistoryResponse
+    | TicksStreamResponse
+    | TransactionsStreamResponse
+>;
+
+export type TSimulatedMessage = { data: TSimulatedResponse };
+
+export type TMessageListener = (message: TSimulatedMessage) => void;
+
+export type TSubscription = { unsubscribe: () => void };
+
+export type TSimulatedApiError = {
+    error: { code: string; message: string; echo_req: TSimulatedRequest };
+    echo_req: TSimulatedRequest;
+    msg_type: string;
+};
+
+/** The most ticks or candles a history request returns, as on the live API. */
+export const MAX_HISTORY_COUNT = 5000;
+
+export const createApiError = (
+    request: TSimulatedRequest,
+    msg_type: string,
+    code: string,
+    message: string
+): TSimulatedApiError => ({
+    error: { code, message, echo_req: request },
+    echo_req: request,
+    msg_type,
+});
+
+/**
+ * What the simulated accounts have in common with the DerivAPI instance they stand in
+ * for: requests are answered asynchronously, and every response and stream message goes
+ * to the `onMessage` subscribers.
+ */
+export default abstract class SimulatedApi {
+    protected listeners = new Set<TMessageListener>();
+    protected next_id = 1;
+
+    /** Prefixes the ids of the subscriptions, e.g. `replay-1`. */
+    protected abstract id_prefix: string;
+
+    protected abstract handleRequest(request: TSimulatedRequest): TSimulatedResponse;
+
+    onMessage() {
+        return {
+            subscribe: (callback: TMessageListener) => {
+                this.listeners.add(callback);
+                return {
+                    id: `${this.id_prefix}-${this.next_id++}`,
+                    unsubscribe: () => this.listeners.delete(callback),
+                };
+            },
+        };
+    }
+
+    send(request: TSimulatedRequest) {
+        return new Promise<TSimulatedResponse>((resolve, reject) => {
+            // Respond asynchronously, the same way a socket response would arrive.
+            Promise.resolve().then(() => {
+                try {
+                    const response = { echo_req: request, req_id: request.req_id, ...this.handleRequest(request) };
+                    this.emit(response);
+                    resolve(response);
+                } catch (error) {
+                    reject(error);
+                }
+            });
+        });
+    }
+
+    protected emit(data: TSimulatedResponse) {
+        this.listeners.forEach(listener => listener({ data }));
+    }
+}
@@ -0,0 +1,118 @@
+export type TReplayTick = {
+    epoch: number;
+    quote: number;
+};
+
+export type TReplayDataset = {
+    symbol: string;
+    pip_size: number;
+    ticks: TReplayTick[];
+};
+
+type TRawTick = { epoch?: number | string; quote?: number | string; time?: number | string; price?: number | string };
+
+type TRawDataset = {
+    symbol?: string;
+    pip_size?: number;
+    ticks?: TRawTick[];
+    history?: { times: (number | string)[]; prices: (number | string)[] };
+    echo_req?: { ticks_history?: string };
+};
+
+const countDecimals = (value: string) => {
+    const [, decimals = ''] = value.trim().split('.');
+    return decimals.length;
+};
+
+const normaliseTicks = (raw_ticks: TRawTick[]): TReplayTick[] => {
+    const by_epoch = new Map<number, TReplayTick>();
+
+    raw_ticks.forEach(raw_tick => {
+        const epoch = Number(raw_tick.epoch ?? raw_tick.time);
+        const quote = Number(raw_tick.quote ?? raw_tick.price);
+        if (Number.isFinite(epoch) && Number.isFinite(quote)) {
+            by_epoch.set(epoch, { epoch, quote });
+        }
+    });
+
+    return [...by_epoch.values()].sort((a, b) => a.epoch - b.epoch);
+};
+
+const inferPipSize = (raw_quotes: (number | string | undefined)[]) =>
+    raw_quotes.reduce<number>((pip_size, quote) => Math.max(pip_size, countDecimals(String(quote ?? ''))), 0);
+
+const parseCsv = (content: string): { symbol?: string; raw_ticks: TRawTick[] } => {
+    const rows = content
+        .split(/\r?\n/)
+        .map(row => row.trim())
+        .filter(Boolean);
+
+    if (!rows.length) return { raw_ticks: [] };
+
+    const header = rows[0].split(',').map(column => column.trim().replace(/^"|"$/g, '').toLowerCase());
+    const has_header = header.some(column => Number.isNaN(Number(column)));
+    const epoch_index = has_header ? header.findIndex(column => ['epoch', 'time'].includes(column)) : 0;
+    const quote_index = has_header ? header.findIndex(column => ['quote', 'price'].includes(column)) : 1;
+    const symbol_index = has_header ? header.indexOf('symbol') : -1;
+
+    if (epoch_index === -1 || quote_index === -1) {
+        throw new Error('CSV tick files need "epoch" and "quote" columns');
+    }
+
+    let symbol: string | undefined;
+    const raw_ticks = rows.slice(has_header ? 1 : 0).map(row => {
+        const columns = row.split(',').map(column => column.trim().replace(/^"|"$/g, ''));
+        if (symbol_index !== -1 && !symbol) symbol = columns[symbol_index];
+        return { epoch: columns[epoch_index], quote: columns[quote_index] };
+    });
+
+    return { symbol, raw_ticks };
+};
+
+const parseJson = (data: TRawDataset | TRawTick[]): { symbol?: string; pip_size?: number; raw_ticks: TRawTick[] } => {
+    if (Array.isArray(data)) return { raw_ticks: data };
+
+    if (data.history) {
+        const { times, prices } = data.history;
+        return {
+            symbol: data.echo_req?.ticks_history,
+            pip_size: data.pip_size,
+            raw_ticks: times.map((epoch, index) => ({ epoch, quote: prices[index] })),
+        };
+    }
+
+    return { symbol: data.symbol, pip_size: data.pip_size, raw_ticks: data.ticks ?? [] };
+};
+
+/**
+ * Parses a recorded tick file into a replay dataset. Accepts a JSON array of ticks,
+ * a `{ symbol, pip_size, ticks }` object, a raw `ticks_history` response or a CSV
+ * file with `epoch` and `quote` columns.
+ */
+export const parseTickFile = (content: string, defaults: Partial<Omit<TReplayDataset, 'ticks'>> = {}) => {
+    const trimmed = content.trim();
+    const is_json = trimmed.startsWith('{') || trimmed.startsWith('[');
+
+    let parsed: { symbol?: string; pip_size?: number; raw_ticks: TRawTick[] };
+    try {
+        parsed = is_json ? parseJson(JSON.parse(trimmed)) : parseCsv(trimmed);
+    } catch (error) {
+        throw new Error(`Unable to read tick file: ${(error as Error).message}`);
+    }
+
+    const ticks = normaliseTicks(parsed.raw_ticks);
+    if (ticks.length < 2) {
+        throw new Error('Tick file must contain at least two ticks');
+    }
+
+    const dataset: TReplayDataset = {
+        symbol: parsed.symbol || defaults.symbol || 'R_100',
+        pip_size:
+            parsed.pip_size ??
+            defaults.pip_size ??
+            inferPipSize(parsed.raw_ticks.map(raw_tick => raw_tick.quote ?? raw_tick.price)),
+        ticks,
+    };
+
+    return dataset;
+};
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import { createMockForage } from '@/utils/mock/mock-storage';
+import { FREE_BOTS_DATA } from '../../../../../pages/free-bots/free-bots-data';
+import { checkBotXml } from '../bot-import-check';
+import BotLibrary from '../bot-library';
+import {
+    getManifestProblems,
+    getNextVersion,
+    getStrategyTradeDetails,
+    getXmlChecksum,
+    TBotManifest,
+} from '../bot-manifest';
+import { getManifestValues, searchBots } from '../bot-search';
+
+const createStrategy = ({ trade_type = 'callput' } = {}) => `
+<xml xmlns="http://www.w3.org/1999/xhtml" is_dbot="true">
+    <block type="trade_definition" id="trade" x="0" y="0">
+        <statement name="SUBMARKET">
+            <block type="trade_definition_market" id="market">
+                <field name="MARKET_LIST">synthetic_index</field>
+                <field name="SYMBOL_LIST">R_100</field>
+                <next>
+                    <block type="trade_definition_tradetype" id="trade_type">
+                        <field name="TRADETYPECAT_LIST">digits</field>
+                        <field name="TRADETYPE_LIST">${trade_type}</field>
+                    </block>
+                </next>
+            </block>
+        </statement>
+    </block>
+    <block type="before_purchase" id="before" x="0" y="400">
+        <statement name="BEFOREPURCHASE_STACK">
+            <block type="purchase" id="purchase">
+                <field name="PURCHASE_LIST">CALL</field>
+            </block>
+        </statement>
+    </block>
+</xml>`;
+
+const KNOWN_BLOCK_TYPES = [
+    'trade_definition',
+    'trade_definition_market',
+    'trade_definition_tradetype',
+    'before_purchase',
+    'purchase',
+];
+
+const createManifest = (details: Partial<TBotManifest> = {}): TBotManifest => ({
+    id: 'bot',
+    name: 'Rise Fall',
+    description: 'Buys rise contracts',
+    author: 'ProfitHub',
+    version: '1.0.0',
+    category: 'Normal',
+    contract_types: ['callput'],
+    markets: ['synthetic_index'],
+    risk_level: 'medium',
+    changelog: [{ version: '1.0.0', date: '2024-01-05', notes: '' }],
+    checksum: 'crc32-00000000',
+    is_premium: false,
+    ...details,
+});
+
+describe('bot manifests', () => {
+    it('should give the same checksum to the same XML whatever its line endings', () => {
+        const xml = createStrategy();
+
+        expect(getXmlChecksum(xml)).toMatch(/^crc32-[0-9a-f]{8}$/);
+        expect(getXmlChecksum(xml.replace(/\n/g, '\r\n'))).toBe(getXmlChecksum(xml));
+        expect(getXmlChecksum(createStrategy({ trade_type: 'overunder' }))).not.toBe(getXmlChecksum(xml));
+    });
+
+    it('should read the trade types and markets of a strategy', () => {
+        expect(getStrategyTradeDetails(createStrategy())).toEqual({
+            contract_types: ['callput'],
+            markets: ['synthetic_index'],
+        });
+    });
+
+    it('should report the problems of a manifest', () => {
+        expect(getManifestProblems(createManifest())).toEqual([]);
+        expect(
+            getManifestProblems(createManifest({ author: '', version: '1.0', risk_level: 'extreme' as 'high' }))
+        ).toEqual([
+            { code: 'missing_field', field: 'author' },
+            { code: 'invalid_version' },
+            { code: 'invalid_risk_level' },
+            { code: 'outdated_changelog' },
+        ]);
+    });
+
+    it('should raise the patch number of a version', () => {
+        expect(getNextVersion('1.2.9')).toBe('1.2.10');
+        expect(getNextVersion('latest')).toBe('1.0.0');
+    });
+});
+
+describe('bundled bots', () => {
+    it.each(FREE_BOTS_DATA.map(bot => [bot.name, bot]))('should have a valid manifest for %s', (_, bot) => {
+        const xml = fs.readFileSync(path.resolve(__dirname, '../../../../../..', bot.xml_path as string), 'utf8');
+
+        expect(getManifestProblems(bot)).toEqual([]);
+        expect(getXmlChecksum(xml)).toBe(bot.checksum);
+        expect(getStrategyTradeDetails(xml)).toEqual({ contract_types: bot.contract_types, markets: bot.markets });
+    });
+});
+
+describe('checkBotXml', () => {
+    it('should pass a strategy with known blocks and a matching checksum', () => {
+        const xml = createStrategy();
+
+        expect(checkBotXml(xml, { checksum: getXmlChecksum(xml), known_block_types: KNOWN_BLOCK_TYPES })).toEqual([]);
+    });
+
+    it('should keep bots that fail the check from loading', () => {
+        const xml = createStrategy();
+        const issues = checkBotXml(xml, { checksum: 'crc32-00000000', known_block_types: KNOWN_BLOCK_TYPES.slice(1) });
+
+        expect(issues).toEqual([
+            { code: 'checksum_mismatch' },
+            { code: 'unknown_block', block_id: 'trade', block_type: 'trade_definition' },
+        ]);
+        expect(checkBotXml('<xml><block', { known_block_types: KNOWN_BLOCK_TYPES })).toEqual([{ code: 'invalid_xml' }]);
+    });
+
+    it('should skip the block check when no block types are known', () => {
+        expect(checkBotXml(createStrategy(), { known_block_types: [] })).toEqual([]);
+    });
+});
+
+describe('searchBots', () => {
+    const bots = [
+        createManifest(),
+        createManifest({ id: 'digits', name: 'Over Under', contract_types: ['overunder'], risk_level: 'high' }),
+        createManifest({ id: 'mine', name: 'My over bot', category: 'My', author: 'Me' }),
+    ];
+
+    it('should match every word of the query', () => {
+        expect(searchBots(bots, { query: 'over' }).map(({ id }) => id)).toEqual(['digits', 'mine']);
+        expect(searchBots(bots, { query: 'over overunder' }).map(({ id }) => id)).toEqual(['digits']);
+    });
+
+    it('should filter by category, risk level and trade type', () => {
+        expect(searchBots(bots, { category: 'My' }).map(({ id }) => id)).toEqual(['mine']);
+        expect(searchBots(bots, { risk_level: 'high' }).map(({ id }) => id)).toEqual(['digits']);
+        expect(searchBots(bots, { contract_type: 'callput', market: 'synthetic_index' })).toHaveLength(2);
+        expect(getManifestValues(bots, 'contract_types')).toEqual(['callput', 'overunder']);
+    });
+});
+
+describe('BotLibrary', () => {
+    it('should add bots with a manifest made from their XML', async () => {
+        const library = new BotLibrary(createMockForage(), () => 1704448800000);
+        const xml = createStrategy();
+        const { manifest } = await library.addBot({ name: 'Rise Fall ', xml, risk_level: 'low', notes: 'First' });
+
+        expect(manifest).toEqual(
+            expect.objectContaining({
+                id: 'my-bot-1704448800000',
+                name: 'Rise Fall',
+                version: '1.0.0',
+                category: 'My',
+                contract_types: ['callput'],
+                markets: ['synthetic_index'],
+                risk_level: 'low',
+                checksum: getXmlChecksum(xml),
+                changelog: [{ version: '1.0.0', date: '2024-01-05T10:00:00.000Z', notes: 'First' }],
+            })
+        );
+        expect(getManifestProblems(manifest)).toEqual([{ code: 'missing_field', field: 'author' }]);
+        expect(await library.getBots()).toEqual([{ manifest, xml }]);
+    });
+
+    it('should make a new version of a bot with the same name and different XML', async () => {
+        const library = new BotLibrary(createMockForage());
+        const first = await library.addBot({ name: 'Rise Fall', xml: createStrategy(), description: 'Rises' });
+
+        expect(await library.addBot({ name: 'rise fall', xml: createStrategy() })).toBe(first);
+
+        const { manifest } = await library.addBot({
+            name: 'rise fall',
+            xml: createStrategy({ trade_type: 'overunder' }),
+            notes: 'Trades digits',
+        });
+        expect(manifest).toEqual(
+            expect.objectContaining({ id: first.manifest.id, version: '1.0.1', description: 'Rises' })
+        );
+        expect(manifest.changelog.map(({ version, notes }) => [version, notes])).toEqual([
+            ['1.0.1', 'Trades digits'],
+            ['1.0.0', ''],
+        ]);
+        expect(await library.getBots()).toHaveLength(1);
+    });
+
+    it('should remove bots', async () => {
+        const library = new BotLibrary(createMockForage());
+        const { manifest } = await library.addBot({ name: 'Rise Fall', xml: createStrategy() });
+        await library.removeBot(manifest.id);
+
+        expect(await library.getBots()).toEqual([]);
+    });
+});
@@ -0,0 +1,55 @@
+import { getXmlChecksum } from './bot-manifest';
+
+export type TBotImportIssueCode = 'invalid_xml' | 'checksum_mismatch' | 'unknown_block';
+
+export type TBotImportIssue = {
+    code: TBotImportIssueCode;
+    block_id?: string;
+    block_type?: string;
+};
+
+export type TBotImportCheckOptions = {
+    /** The checksum the manifest of the bot gives for its XML. */
+    checksum?: string;
+    /** The block types this app defines. The check is skipped when the list is empty. */
+    known_block_types?: string[];
+};
+
+const isBlockElement = (element: Element | null) =>
+    !!element && ['block', 'shadow'].includes(element.tagName.toLowerCase());
+
+const getBlockDetails = (element: Element) => ({
+    block_id: element.getAttribute('id') ?? undefined,
+    block_type: element.getAttribute('type') ?? undefined,
+});
+
+const getKnownBlockTypes = () => Object.keys(window.Blockly?.Blocks ?? {});
+
+/**
+ * Checks a bot before it is loaded into the workspace. Bots with XML that can't be read,
+ * a checksum that doesn't match their manifest or blocks this app doesn't define won't
+ * load. What a bot does is up to the strategy scanner, which runs before any import loads.
+ */
+export const checkBotXml = (
+    xml: string,
+    { checksum, known_block_types = getKnownBlockTypes() }: TBotImportCheckOptions = {}
+) => {
+    const xml_doc = new DOMParser().parseFromString(xml, 'text/xml');
+    if (xml_doc.getElementsByTagName('parsererror').length) {
+        return [{ code: 'invalid_xml' }] as TBotImportIssue[];
+    }
+
+    const issues: TBotImportIssue[] = [];
+    if (checksum && checksum !== getXmlChecksum(xml)) {
+        issues.push({ code: 'checksum_mismatch' });
+    }
+
+    const known_types = new Set(known_block_types);
+    const elements = Array.from(xml_doc.getElementsByTagName('*')).filter(isBlockElement);
+
+    elements
+        .filter(element => known_types.size && !known_types.has(element.getAttribute('type') ?? ''))
+        .forEach(element => issues.push({ code: 'unknown_block', ...getBlockDetails(element) }));
+
+    return issues;
+};
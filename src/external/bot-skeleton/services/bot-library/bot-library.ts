@@ -0,0 +1,97 @@
+import localForage from 'localforage';
+import { getNextVersion, getStrategyTradeDetails, getXmlChecksum, TBotManifest, TBotRiskLevel } from './bot-manifest';
+
+export type TLibraryStorage = Pick<LocalForage, 'getItem' | 'setItem'>;
+
+export type TLibraryBot = {
+    manifest: TBotManifest;
+    xml: string;
+};
+
+export type TNewLibraryBot = {
+    name: string;
+    xml: string;
+    description?: string;
+    author?: string;
+    risk_level?: TBotRiskLevel;
+    notes?: string;
+};
+
+const BOTS_KEY = 'bots';
+
+const isSameName = (name: string, other_name: string) => name.trim().toLowerCase() === other_name.trim().toLowerCase();
+
+/**
+ * Keeps the bots users add to their library, with a manifest each. Adding a bot with the
+ * name of one already in the library makes a new version of it, unless its XML is the same.
+ */
+export default class BotLibrary {
+    storage: TLibraryStorage;
+    now: () => number;
+    write_queue: Promise<unknown> = Promise.resolve();
+
+    constructor(storage?: TLibraryStorage, now = () => Date.now()) {
+        this.storage = storage ?? localForage.createInstance({ name: 'dbot', storeName: 'bot_library' });
+        this.now = now;
+    }
+
+    async getBots(): Promise<TLibraryBot[]> {
+        try {
+            return (await this.storage.getItem<TLibraryBot[]>(BOTS_KEY)) ?? [];
+        } catch (e) {
+            return [];
+        }
+    }
+
+    addBot({ name, xml, description = '', author = '', risk_level = 'medium', notes = '' }: TNewLibraryBot) {
+        return this.enqueueWrite(async () => {
+            const bots = await this.getBots();
+            const existing = bots.find(({ manifest }) => isSameName(manifest.name, name));
+            const checksum = getXmlChecksum(xml);
+            if (existing?.manifest.checksum === checksum) return existing;
+
+            const timestamp = this.now();
+            const version = existing ? getNextVersion(existing.manifest.version) : '1.0.0';
+            const bot: TLibraryBot = {
+                manifest: {
+                    id: existing?.manifest.id ?? `my-bot-${timestamp}`,
+                    name: name.trim(),
+                    description: description || existing?.manifest.description || '',
+                    author: author || existing?.manifest.author || '',
+                    version,
+                    category: 'My',
+                    ...getStrategyTradeDetails(xml),
+                    risk_level,
+                    changelog: [
+                        { version, date: new Date(timestamp).toISOString(), notes },
+                        ...(existing?.manifest.changelog ?? []),
+                    ],
+                    checksum,
+                    is_premium: false,
+                },
+                xml,
+            };
+
+            await this.storage.setItem(BOTS_KEY, [bot, ...bots.filter(item => item !== existing)]);
+            return bot;
+        });
+    }
+
+    removeBot(bot_id: string) {
+        return this.enqueueWrite(async () => {
+            const bots = await this.getBots();
+            await this.storage.setItem(
+                BOTS_KEY,
+                bots.filter(({ manifest }) => manifest.id !== bot_id)
+            );
+        });
+    }
+
+    enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+        const result = this.write_queue.then(write);
+        this.write_queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+export const bot_library = new BotLibrary();
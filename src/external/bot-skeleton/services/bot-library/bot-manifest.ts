@@ -0,0 +1,87 @@
+import crc32 from 'crc-32/crc32';
+import { parseStrategyBlocks } from '../strategy-history/strategy-diff';
+
+export type TBotRiskLevel = 'low' | 'medium' | 'high';
+
+/** `My` holds the bots users add from the save modal, the others are bundled with the app. */
+export type TBotCategory = 'Popular' | 'Automatic' | 'Hybrid' | 'Normal' | 'My';
+
+export type TBotChangelogEntry = {
+    version: string;
+    date: string;
+    notes: string;
+};
+
+export type TBotManifest = {
+    id: string;
+    name: string;
+    description: string;
+    author: string;
+    version: string;
+    category: TBotCategory;
+    contract_types: string[];
+    markets: string[];
+    risk_level: TBotRiskLevel;
+    /** Newest first. The first entry describes the current version. */
+    changelog: TBotChangelogEntry[];
+    /** The checksum of the strategy XML, see `getXmlChecksum`. */
+    checksum: string;
+    /** The path of the XML file of a bundled bot, relative to the site root. */
+    xml_path?: string;
+    is_premium: boolean;
+    color?: string;
+};
+
+export type TManifestProblem =
+    | { code: 'missing_field'; field: keyof TBotManifest }
+    | { code: 'invalid_version' }
+    | { code: 'invalid_risk_level' }
+    | { code: 'outdated_changelog' };
+
+export const BOT_RISK_LEVELS: TBotRiskLevel[] = ['low', 'medium', 'high'];
+
+const REQUIRED_FIELDS: (keyof TBotManifest)[] = ['id', 'name', 'author', 'version', 'category', 'checksum'];
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+/**
+ * Returns the CRC-32 of a strategy XML, ignoring line endings and surrounding white space.
+ * It tells whether a file still is the one a manifest describes, it is no signature.
+ */
+export const getXmlChecksum = (xml: string) =>
+    `crc32-${(crc32.str(xml.replace(/\r\n?/g, '\n').trim()) >>> 0).toString(16).padStart(8, '0')}`;
+
+/** Reads the trade types and markets a strategy trades from its trade parameters block. */
+export const getStrategyTradeDetails = (xml: string) => {
+    const contract_types = new Set<string>();
+    const markets = new Set<string>();
+
+    parseStrategyBlocks(xml).forEach(({ fields }) => {
+        if (fields.TRADETYPE_LIST) contract_types.add(fields.TRADETYPE_LIST);
+        if (fields.MARKET_LIST) markets.add(fields.MARKET_LIST);
+    });
+
+    return { contract_types: [...contract_types], markets: [...markets] };
+};
+
+export const getManifestProblems = (manifest: Partial<TBotManifest>) => {
+    const problems: TManifestProblem[] = REQUIRED_FIELDS.filter(field => !manifest[field]).map(field => ({
+        code: 'missing_field' as const,
+        field,
+    }));
+
+    if (manifest.version && !VERSION_PATTERN.test(manifest.version)) problems.push({ code: 'invalid_version' });
+    if (!BOT_RISK_LEVELS.includes(manifest.risk_level as TBotRiskLevel)) problems.push({ code: 'invalid_risk_level' });
+    if (manifest.changelog?.length && manifest.changelog[0].version !== manifest.version) {
+        problems.push({ code: 'outdated_changelog' });
+    }
+
+    return problems;
+};
+
+/** Raises the patch number of a `major.minor.patch` version. */
+export const getNextVersion = (version: string) => {
+    if (!VERSION_PATTERN.test(version)) return '1.0.0';
+    const [major, minor, patch] = version.split('.').map(Number);
+    return `${major}.${minor}.${patch + 1}`;
+};
@@ -0,0 +1,37 @@
+import { TBotCategory, TBotManifest, TBotRiskLevel } from './bot-manifest';
+
+export type TBotSearch = {
+    query?: string;
+    category?: TBotCategory | null;
+    risk_level?: TBotRiskLevel | null;
+    market?: string | null;
+    contract_type?: string | null;
+};
+
+const getSearchText = ({ name, description, author, contract_types, markets }: TBotManifest) =>
+    [name, description, author, ...contract_types, ...markets].join(' ').toLowerCase();
+
+/**
+ * Filters manifests by the given fields. Every word of the query has to appear in the
+ * name, description, author, trade types or markets of a bot.
+ */
+export const searchBots = <T extends TBotManifest>(
+    bots: T[],
+    { query = '', category, risk_level, market, contract_type }: TBotSearch
+) => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    return bots.filter(bot => {
+        if (category && bot.category !== category) return false;
+        if (risk_level && bot.risk_level !== risk_level) return false;
+        if (market && !bot.markets.includes(market)) return false;
+        if (contract_type && !bot.contract_types.includes(contract_type)) return false;
+
+        const text = getSearchText(bot);
+        return words.every(word => text.includes(word));
+    });
+};
+
+/** Lists the distinct values of a list field of the manifests, sorted. */
+export const getManifestValues = (bots: TBotManifest[], field: 'markets' | 'contract_types') =>
+    [...new Set(bots.flatMap(bot => bot[field]))].sort();
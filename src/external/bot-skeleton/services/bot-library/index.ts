@@ -0,0 +1,6 @@
+export * from './bot-import-check';
+export * from './bot-library';
+export { default as BotLibrary } from './bot-library';
+export * from './bot-manifest';
+export * from './bot-search';
+export * from './library-messages';
@@ -0,0 +1,27 @@
+import { localize } from '@deriv-com/translations';
+import { TBotImportIssue } from './bot-import-check';
+import { TBotRiskLevel } from './bot-manifest';
+
+export const getRiskLevelName = (risk_level: TBotRiskLevel) => {
+    switch (risk_level) {
+        case 'low':
+            return localize('Low risk');
+        case 'high':
+            return localize('High risk');
+        default:
+            return localize('Medium risk');
+    }
+};
+
+export const getImportIssueMessage = ({ code, block_type }: TBotImportIssue) => {
+    switch (code) {
+        case 'invalid_xml':
+            return localize('The bot file is not a valid strategy.');
+        case 'checksum_mismatch':
+            return localize('The bot file has changed since it was added to the library.');
+        case 'unknown_block':
+            return localize('The bot uses a block this app doesn’t have: {{ block_type }}.', { block_type });
+        default:
+            return code;
+    }
+};
@@ -0,0 +1,200 @@
+import { createMockStorage } from '@/utils/mock/mock-storage';
+import { DEFAULT_LINT_SEVERITIES, hasLintErrors, lintStrategy } from '../bot-linter';
+import { LINT_SEVERITIES_STORAGE_KEY, loadLintSeverities, saveLintSeverities } from '../lint-settings';
+import { parseLintTree } from '../lint-tree';
+
+const number = (value: number) => `<block type="math_number"><field name="NUM">${value}</field></block>`;
+const get = (variable: string, id = `get-${variable}`) =>
+    `<block type="variables_get" id="${id}"><field name="VAR">${variable}</field></block>`;
+const set = (variable: string, value: string, id = `set-${variable}`) =>
+    `<block type="variables_set" id="${id}"><field name="VAR">${variable}</field><value name="VALUE">${value}</value></block>`;
+const multiply = (a: string, b: string) =>
+    `<block type="math_arithmetic"><field name="OP">MULTIPLY</field><value name="A">${a}</value><value name="B">${b}</value></block>`;
+const compare = (op: string, a: string, b: string) =>
+    `<block type="logic_compare"><field name="OP">${op}</field><value name="A">${a}</value><value name="B">${b}</value></block>`;
+const ifBlock = (condition: string, statement: string) =>
+    `<block type="controls_if"><value name="IF0">${condition}</value><statement name="DO0">${statement}</statement></block>`;
+const TRADE_AGAIN = '<block type="trade_again" id="trade-again"></block>';
+
+// Connects statement blocks with the next one, inside the closing tag of the outer block.
+const stack = (...blocks: string[]) =>
+    blocks
+        .filter(Boolean)
+        .reduceRight((next, block) => (next ? block.replace(/<\/block>$/, `<next>${next}</next></block>`) : block), '');
+
+const createStrategy = ({
+    initialization = '',
+    amount = number(1),
+    before_purchase = '',
+    after_purchase = '',
+    extra = '',
+}: Record<string, string>) => `
+<xml xmlns="http://www.w3.org/1999/xhtml" is_dbot="true">
+    <block type="trade_definition" id="trade">
+        <statement name="INITIALIZATION">${initialization}</statement>
+        <statement name="SUBMARKET">
+            <block type="trade_definition_tradeoptions" id="options">
+                <value name="AMOUNT">${amount}</value>
+            </block>
+        </statement>
+    </block>
+    <block type="before_purchase" id="before">
+        <statement name="BEFOREPURCHASE_STACK">${stack(before_purchase, '<block type="purchase" id="purchase"></block>')}</statement>
+    </block>
+    <block type="after_purchase" id="after">
+        <statement name="AFTERPURCHASE_STACK">${after_purchase}</statement>
+    </block>
+    ${extra}
+</xml>`;
+
+const getRules = (xml: string) =>
+    lintStrategy(xml).map(({ rule, block_id, variable }) => ({ rule, block_id, variable }));
+
+describe('lint-tree', () => {
+    it('should skip disabled blocks and prefer blocks over shadows', () => {
+        const [trade] = parseLintTree(`
+            <xml>
+                <block type="trade_definition" id="trade">
+                    <statement name="INITIALIZATION">
+                        ${stack(
+                            set('a', number(1)).replace('<block', '<block disabled="true"'),
+                            set('b', `<shadow type="math_number"><field name="NUM">1</field></shadow>${get('a')}`)
+                        )}
+                    </statement>
+                </block>
+            </xml>`);
+
+        expect(trade.inputs.INITIALIZATION.map(({ id }) => id)).toEqual(['set-b']);
+        expect(trade.inputs.INITIALIZATION[0].inputs.VALUE[0].type).toBe('variables_get');
+    });
+});
+
+describe('lintStrategy', () => {
+    it('should not report a strategy with a capped stake and a profit limit', () => {
+        const xml = createStrategy({
+            initialization: stack(set('stake', number(1)), set('max stake', number(50))),
+            amount: get('stake', 'amount-stake'),
+            after_purchase: stack(
+                set('stake', multiply(get('stake', 'current-stake'), number(2))),
+                ifBlock(compare('GT', get('stake', 'cap-stake'), get('max stake')), set('stake', number(1), 'reset')),
+                ifBlock(compare('LT', '<block type="total_profit"></block>', number(10)), TRADE_AGAIN)
+            ),
+        });
+
+        expect(lintStrategy(xml)).toEqual([]);
+    });
+
+    it('should report a stake that is multiplied without a maximum', () => {
+        const xml = createStrategy({
+            initialization: set('stake', number(1)),
+            amount: get('stake', 'amount-stake'),
+            after_purchase: stack(
+                set('stake', multiply(get('stake', 'current-stake'), number(2)), 'double-stake'),
+                ifBlock(compare('LT', '<block type="total_runs"></block>', number(10)), TRADE_AGAIN)
+            ),
+        });
+
+        expect(getRules(xml)).toEqual([{ rule: 'UnboundedMartingale', block_id: 'double-stake', variable: 'stake' }]);
+    });
+
+    it('should follow the stake through procedures', () => {
+        const xml = createStrategy({
+            initialization: set('multiplier', number(1)),
+            amount: '<block type="procedures_callreturn"><mutation name="Stake"></mutation></block>',
+            after_purchase: stack(
+                set('multiplier', multiply(get('multiplier', 'current'), number(2)), 'double'),
+                ifBlock(compare('LT', '<block type="balance"></block>', number(10)), TRADE_AGAIN)
+            ),
+            extra: `
+                <block type="procedures_defreturn" id="stake-procedure">
+                    <field name="NAME">Stake</field>
+                    <value name="RETURN">${multiply(get('multiplier', 'returned'), number(0.35))}</value>
+                </block>`,
+        });
+
+        expect(getRules(xml)).toEqual([{ rule: 'UnboundedMartingale', block_id: 'double', variable: 'multiplier' }]);
+    });
+
+    it('should report trade again without a stop condition or limits', () => {
+        expect(getRules(createStrategy({ after_purchase: TRADE_AGAIN }))).toEqual([
+            { rule: 'MissingStopCondition', block_id: 'trade-again', variable: undefined },
+        ]);
+
+        const condition = compare('EQ', '<block type="contract_check_result"></block>', number(1));
+        expect(getRules(createStrategy({ after_purchase: ifBlock(condition, TRADE_AGAIN) }))).toEqual([
+            { rule: 'UnlimitedTradeAgain', block_id: 'trade-again', variable: undefined },
+        ]);
+    });
+
+    it('should accept limits kept in variables', () => {
+        const xml = createStrategy({
+            initialization: set('profit', number(0)),
+            after_purchase: stack(
+                set('profit', '<block type="read_details"><field name="DETAIL_INDEX">4</field></block>'),
+                ifBlock(compare('LT', get('profit', 'check-profit'), number(10)), TRADE_AGAIN)
+            ),
+        });
+
+        expect(lintStrategy(xml)).toEqual([]);
+    });
+
+    it('should report variables read before they are set', () => {
+        const xml = createStrategy({
+            before_purchase: stack(
+                set('prediction', get('last digit', 'read-digit'), 'set-prediction'),
+                ifBlock(compare('EQ', get('threshold', 'null-check'), '<block type="logic_null"></block>'), '')
+            ),
+            after_purchase: set('last digit', '<block type="last_digit"></block>'),
+            extra: `
+                <block type="procedures_defnoreturn" id="unused">
+                    <field name="NAME">Unused</field>
+                    <statement name="STACK">${set('threshold', number(5))}</statement>
+                </block>`,
+        });
+
+        expect(getRules(xml)).toEqual([
+            { rule: 'VariableReadBeforeSet', block_id: 'read-digit', variable: 'last digit' },
+        ]);
+    });
+
+    it('should report delays inside loops and tick analysis', () => {
+        const delay = (id: string) => `<block type="tick_delay" id="${id}"></block>`;
+        const xml = createStrategy({
+            before_purchase: `<block type="controls_repeat_ext"><statement name="DO">${delay('loop-delay')}</statement></block>`,
+            after_purchase: delay('after-delay'),
+            extra: `
+                <block type="tick_analysis" id="analysis">
+                    <statement name="TICKANALYSIS_STACK">${delay('tick-delay')}</statement>
+                </block>`,
+        });
+
+        expect(getRules(xml).map(({ block_id }) => block_id)).toEqual(['loop-delay', 'tick-delay']);
+    });
+
+    it('should apply the chosen severities', () => {
+        const xml = createStrategy({ after_purchase: TRADE_AGAIN });
+
+        expect(hasLintErrors(lintStrategy(xml))).toBe(false);
+        expect(lintStrategy(xml, { ...DEFAULT_LINT_SEVERITIES, MissingStopCondition: 'off' })).toEqual([]);
+        expect(hasLintErrors(lintStrategy(xml, { ...DEFAULT_LINT_SEVERITIES, MissingStopCondition: 'error' }))).toBe(
+            true
+        );
+    });
+});
+
+describe('lint-settings', () => {
+    it('should save severities and ignore invalid stored values', () => {
+        const storage = createMockStorage();
+
+        expect(loadLintSeverities(storage)).toEqual(DEFAULT_LINT_SEVERITIES);
+
+        saveLintSeverities({ ...DEFAULT_LINT_SEVERITIES, DelayInHotLoop: 'error' }, storage);
+        expect(loadLintSeverities(storage).DelayInHotLoop).toBe('error');
+
+        storage.setItem(LINT_SEVERITIES_STORAGE_KEY, JSON.stringify({ DelayInHotLoop: 'fatal' }));
+        expect(loadLintSeverities(storage)).toEqual(DEFAULT_LINT_SEVERITIES);
+
+        storage.setItem(LINT_SEVERITIES_STORAGE_KEY, '{');
+        expect(loadLintSeverities(storage)).toEqual(DEFAULT_LINT_SEVERITIES);
+    });
+});
@@ -0,0 +1,384 @@
+import { findBlocks, getChildBlocks, parseLintTree, TLintBlock, walkBlocks } from './lint-tree';
+
+export type TLintRule =
+    | 'UnboundedMartingale'
+    | 'MissingStopCondition'
+    | 'UnlimitedTradeAgain'
+    | 'VariableReadBeforeSet'
+    | 'DelayInHotLoop';
+
+export type TLintSeverity = 'error' | 'warning' | 'off';
+
+export type TLintSeverities = Record<TLintRule, TLintSeverity>;
+
+export type TLintFinding = {
+    rule: TLintRule;
+    severity: Exclude<TLintSeverity, 'off'>;
+    block_id: string;
+    block_type: string;
+    variable?: string;
+};
+
+type TRuleFinding = Omit<TLintFinding, 'severity'>;
+
+export const LINT_RULES: TLintRule[] = [
+    'UnboundedMartingale',
+    'MissingStopCondition',
+    'UnlimitedTradeAgain',
+    'VariableReadBeforeSet',
+    'DelayInHotLoop',
+];
+
+// Rules only warn until a rule is marked as an error, which stops the bot from running.
+export const DEFAULT_LINT_SEVERITIES: TLintSeverities = {
+    UnboundedMartingale: 'warning',
+    MissingStopCondition: 'warning',
+    UnlimitedTradeAgain: 'warning',
+    VariableReadBeforeSet: 'warning',
+    DelayInHotLoop: 'warning',
+};
+
+type TReferences = {
+    variables: Set<string>;
+    types: Set<string>;
+};
+
+type TRunContext = {
+    blocks: TLintBlock[];
+    stage: number;
+    procedure_name?: string;
+};
+
+type TLintWorkspace = {
+    procedures: Map<string, TLintBlock>;
+    contexts: TRunContext[];
+    assignments: Map<string, TLintBlock[]>;
+};
+
+// The order in which the parts of a bot first run: initialisation, then every trade.
+const MAIN_BLOCK_STAGES: Record<string, number> = {
+    before_purchase: 1,
+    tick_analysis: 1,
+    during_purchase: 2,
+    after_purchase: 3,
+};
+const INITIALIZATION_STAGE = 0;
+const TRADE_OPTIONS_STAGE = 1;
+
+const PROCEDURE_DEFINITIONS = ['procedures_defnoreturn', 'procedures_defreturn'];
+const PROCEDURE_CALLS = ['procedures_callnoreturn', 'procedures_callreturn'];
+const LOOPS = ['controls_repeat', 'controls_repeat_ext', 'controls_whileUntil', 'controls_for', 'controls_forEach'];
+const DELAYS = ['tick_delay', 'timeout'];
+const EVERY_TICK_BLOCKS = ['tick_analysis', 'during_purchase'];
+const ORDER_OPERATORS = ['LT', 'LTE', 'GT', 'GTE'];
+const LIMIT_SOURCES = ['total_profit', 'total_profit_string', 'total_runs', 'balance', 'read_details'];
+const VARIABLE_SETTERS: Record<string, string | null> = {
+    variables_set: 'VALUE',
+    math_change: 'DELTA',
+    text_append: 'TEXT',
+    controls_for: null,
+    controls_forEach: null,
+};
+
+/**
+ * Lists the parts of the strategy that run and the stage at which each of them first runs.
+ * Procedures run at the earliest stage they are called from; uncalled ones never run.
+ */
+const getRunContexts = (roots: TLintBlock[], procedures: Map<string, TLintBlock>) => {
+    const contexts: TRunContext[] = [];
+
+    roots.forEach(root => {
+        if (root.type === 'trade_definition') {
+            Object.entries(root.inputs).forEach(([name, blocks]) =>
+                contexts.push({
+                    blocks,
+                    stage: name === 'INITIALIZATION' ? INITIALIZATION_STAGE : TRADE_OPTIONS_STAGE,
+                })
+            );
+        } else if (root.type in MAIN_BLOCK_STAGES) {
+            contexts.push({ blocks: [root], stage: MAIN_BLOCK_STAGES[root.type] });
+        }
+    });
+
+    const procedure_stages = new Map<string, number>();
+    let has_changed = true;
+    while (has_changed) {
+        has_changed = false;
+        [...contexts, ...getProcedureContexts(procedures, procedure_stages)].forEach(({ blocks, stage }) => {
+            blocks.forEach(block =>
+                findBlocks(block, ({ type }) => PROCEDURE_CALLS.includes(type)).forEach(({ procedure_name }) => {
+                    if (procedures.has(procedure_name) && stage < (procedure_stages.get(procedure_name) ?? Infinity)) {
+                        procedure_stages.set(procedure_name, stage);
+                        has_changed = true;
+                    }
+                })
+            );
+        });
+    }
+
+    return [...contexts, ...getProcedureContexts(procedures, procedure_stages)];
+};
+
+const getProcedureContexts = (procedures: Map<string, TLintBlock>, procedure_stages: Map<string, number>) =>
+    [...procedure_stages].map(([procedure_name, stage]) => ({
+        blocks: [procedures.get(procedure_name) as TLintBlock],
+        stage,
+        procedure_name,
+    }));
+
+// Statement blocks such as text_join and the indicators store their result in a VARIABLE field.
+const getAssignedVariable = (block: TLintBlock) =>
+    block.type in VARIABLE_SETTERS ? block.fields.VAR : block.fields.VARIABLE;
+
+const getAssignedValues = (block: TLintBlock) => {
+    if (!(block.type in VARIABLE_SETTERS)) return getChildBlocks(block);
+    const input = VARIABLE_SETTERS[block.type];
+    return input ? (block.inputs[input] ?? []) : [];
+};
+
+const getAssignments = (roots: TLintBlock[]) => {
+    const assignments = new Map<string, TLintBlock[]>();
+
+    roots.forEach(root =>
+        walkBlocks(root, block => {
+            const variable = getAssignedVariable(block);
+            if (variable === undefined) return;
+
+            assignments.set(variable, [...(assignments.get(variable) ?? []), ...getAssignedValues(block)]);
+        })
+    );
+
+    return assignments;
+};
+
+/**
+ * Collects the variables and block types a group of blocks depends on, following the
+ * procedures they call for a value.
+ */
+const getReferences = (blocks: TLintBlock[], workspace: TLintWorkspace, visited = new Set<string>()) => {
+    const references: TReferences = { variables: new Set(), types: new Set() };
+
+    const visit = (block: TLintBlock) =>
+        walkBlocks(block, current => {
+            references.types.add(current.type);
+            if (current.type === 'variables_get') references.variables.add(current.fields.VAR);
+            if (current.type === 'procedures_callreturn' && !visited.has(current.procedure_name)) {
+                visited.add(current.procedure_name);
+                const definition = workspace.procedures.get(current.procedure_name);
+                if (definition) visit(definition);
+            }
+        });
+    blocks.forEach(visit);
+
+    return references;
+};
+
+/**
+ * Adds the variables that the given ones are calculated from.
+ */
+const getUpstreamVariables = (variables: Set<string>, workspace: TLintWorkspace) => {
+    const upstream = new Set(variables);
+    const queue = [...variables];
+
+    while (queue.length) {
+        const variable = queue.shift() as string;
+        getReferences(workspace.assignments.get(variable) ?? [], workspace).variables.forEach(source => {
+            if (!upstream.has(source)) {
+                upstream.add(source);
+                queue.push(source);
+            }
+        });
+    }
+
+    return upstream;
+};
+
+const dependsOnLimit = (blocks: TLintBlock[], workspace: TLintWorkspace) => {
+    const references = getReferences(blocks, workspace);
+    const sources = [...getUpstreamVariables(references.variables, workspace)].map(variable =>
+        getReferences(workspace.assignments.get(variable) ?? [], workspace)
+    );
+
+    return [references, ...sources].some(({ types }) => LIMIT_SOURCES.some(type => types.has(type)));
+};
+
+const isNullCheck = (block: TLintBlock) =>
+    block.type === 'logic_compare' &&
+    [...(block.inputs.A ?? []), ...(block.inputs.B ?? [])].some(({ type }) => type === 'logic_null');
+
+/**
+ * Finds stakes that are multiplied by themselves, as in a martingale, while nothing
+ * compares them with a maximum.
+ */
+const checkUnboundedMartingale = (workspace: TLintWorkspace) => {
+    const all_blocks = workspace.contexts.flatMap(({ blocks }) => blocks);
+    const amount_blocks = all_blocks.flatMap(block =>
+        findBlocks(block, ({ inputs }) => !!inputs.AMOUNT).flatMap(({ inputs }) => inputs.AMOUNT)
+    );
+    const stake_variables = getUpstreamVariables(getReferences(amount_blocks, workspace).variables, workspace);
+    const capped_variables = new Set(
+        all_blocks
+            .flatMap(block =>
+                findBlocks(
+                    block,
+                    ({ type, fields }) =>
+                        (type === 'logic_compare' && ORDER_OPERATORS.includes(fields.OP)) ||
+                        type === 'math_constrain' ||
+                        (type === 'math_on_list' && fields.OP === 'MIN')
+                )
+            )
+            .flatMap(block => [...getReferences([block], workspace).variables])
+    );
+
+    const growing_stakes = all_blocks.flatMap(block =>
+        findBlocks(block, ({ type, fields, inputs }) => {
+            if (type !== 'variables_set' || !stake_variables.has(fields.VAR)) return false;
+            return (inputs.VALUE ?? []).some(
+                value =>
+                    findBlocks(
+                        value,
+                        current =>
+                            current.type === 'math_arithmetic' &&
+                            ['MULTIPLY', 'POWER'].includes(current.fields.OP) &&
+                            getReferences([current], workspace).variables.has(fields.VAR)
+                    ).length > 0
+            );
+        })
+    );
+
+    return growing_stakes
+        .filter(({ fields }) => !capped_variables.has(fields.VAR))
+        .map<TRuleFinding>(({ id, type, fields }) => ({
+            rule: 'UnboundedMartingale',
+            block_id: id,
+            block_type: type,
+            variable: fields.VAR,
+        }));
+};
+
+/**
+ * Checks the `trade_again` blocks in the after purchase block. One that always runs means
+ * the bot never stops by itself; one that runs on conditions that don't look at the profit,
+ * the balance or the number of runs can keep trading without limit.
+ */
+const checkTradeAgain = (workspace: TLintWorkspace) => {
+    const after_purchase = workspace.contexts.find(({ blocks }) => blocks[0]?.type === 'after_purchase');
+    if (!after_purchase) return [];
+
+    const trade_again_blocks: { block: TLintBlock; is_conditional: boolean }[] = [];
+    walkBlocks(after_purchase.blocks[0], (block, ancestors) => {
+        if (block.type !== 'trade_again') return;
+        trade_again_blocks.push({ block, is_conditional: ancestors.some(({ type }) => type === 'controls_if') });
+    });
+
+    const conditions = workspace.contexts
+        .flatMap(({ blocks }) => blocks)
+        .flatMap(block => findBlocks(block, ({ type }) => type === 'controls_if'))
+        .flatMap(({ inputs }) =>
+            Object.entries(inputs)
+                .filter(([name]) => /^IF\d+$/.test(name))
+                .flatMap(([, blocks]) => blocks)
+        );
+    const has_limit = dependsOnLimit(conditions, workspace);
+
+    return trade_again_blocks
+        .filter(({ is_conditional }) => !is_conditional || !has_limit)
+        .map<TRuleFinding>(({ block, is_conditional }) => ({
+            rule: is_conditional ? 'UnlimitedTradeAgain' : 'MissingStopCondition',
+            block_id: block.id,
+            block_type: block.type,
+        }));
+};
+
+/**
+ * Finds variables that are read before anything sets them: never set at all, or only set
+ * in a part of the bot that runs later. Checks against `null`, which strategies use to set
+ * a variable once, are allowed.
+ */
+const checkVariableReadBeforeSet = (workspace: TLintWorkspace) => {
+    const set_stages = new Map<string, number>();
+    workspace.contexts.forEach(({ blocks, stage }) =>
+        blocks.forEach(block =>
+            walkBlocks(block, current => {
+                const variable = getAssignedVariable(current);
+                if (variable === undefined) return;
+                set_stages.set(variable, Math.min(stage, set_stages.get(variable) ?? stage));
+            })
+        )
+    );
+
+    const findings = new Map<string, TRuleFinding>();
+    workspace.contexts.forEach(({ blocks, stage, procedure_name }) => {
+        const args = procedure_name ? (workspace.procedures.get(procedure_name)?.procedure_args ?? []) : [];
+        blocks.forEach(block =>
+            walkBlocks(block, (current, ancestors) => {
+                const variable = current.fields.VAR;
+                if (current.type !== 'variables_get' || findings.has(variable) || args.includes(variable)) return;
+                if (isNullCheck(ancestors[ancestors.length - 1] ?? current)) return;
+                if ((set_stages.get(variable) ?? Infinity) <= stage) return;
+
+                findings.set(variable, {
+                    rule: 'VariableReadBeforeSet',
+                    block_id: current.id,
+                    block_type: current.type,
+                    variable,
+                });
+            })
+        );
+    });
+
+    return [...findings.values()];
+};
+
+/**
+ * Finds delays inside loops or blocks that run on every tick. Their stacks are scheduled
+ * rather than awaited, so each pass adds another pending delay.
+ */
+const checkDelayInHotLoop = (workspace: TLintWorkspace) =>
+    workspace.contexts.flatMap(({ blocks }) =>
+        blocks.flatMap(block => {
+            const delays: TLintBlock[] = [];
+            walkBlocks(block, (current, ancestors) => {
+                if (!DELAYS.includes(current.type)) return;
+                const in_hot_loop = ancestors.some(
+                    ({ type }) => LOOPS.includes(type) || EVERY_TICK_BLOCKS.includes(type)
+                );
+                if (in_hot_loop) delays.push(current);
+            });
+            return delays.map<TRuleFinding>(({ id, type }) => ({
+                rule: 'DelayInHotLoop',
+                block_id: id,
+                block_type: type,
+            }));
+        })
+    );
+
+/**
+ * Analyses a strategy XML for patterns that tend to lose money or misbehave while running.
+ * Rules set to `off` are skipped.
+ */
+export const lintStrategy = (xml: string, severities: TLintSeverities = DEFAULT_LINT_SEVERITIES): TLintFinding[] => {
+    const roots = parseLintTree(xml);
+    const procedures = new Map(
+        roots
+            .filter(({ type }) => PROCEDURE_DEFINITIONS.includes(type))
+            .map(definition => [definition.procedure_name, definition])
+    );
+    const workspace: TLintWorkspace = {
+        procedures,
+        contexts: getRunContexts(roots, procedures),
+        assignments: getAssignments(roots),
+    };
+
+    return [
+        ...checkUnboundedMartingale(workspace),
+        ...checkTradeAgain(workspace),
+        ...checkVariableReadBeforeSet(workspace),
+        ...checkDelayInHotLoop(workspace),
+    ].flatMap(finding => {
+        const severity = severities[finding.rule];
+        return severity === 'off' ? [] : [{ ...finding, severity }];
+    });
+};
+
+export const hasLintErrors = (findings: TLintFinding[]) => findings.some(({ severity }) => severity === 'error');
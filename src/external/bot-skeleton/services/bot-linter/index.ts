@@ -0,0 +1,4 @@
+export * from './bot-linter';
+export * from './lint-messages';
+export * from './lint-settings';
+export * from './lint-tree';
@@ -0,0 +1,41 @@
+import { localize } from '@deriv-com/translations';
+import { TLintFinding, TLintRule } from './bot-linter';
+
+export const getLintRuleTitle = (rule: TLintRule) => {
+    switch (rule) {
+        case 'UnboundedMartingale':
+            return localize('Martingale without a maximum stake');
+        case 'MissingStopCondition':
+            return localize('No stop condition after purchase');
+        case 'UnlimitedTradeAgain':
+            return localize('Trade again without limits');
+        case 'VariableReadBeforeSet':
+            return localize('Variable used before it is set');
+        default:
+            return localize('Delay inside a loop');
+    }
+};
+
+export const getLintFindingMessage = ({ rule, variable = '' }: TLintFinding) => {
+    switch (rule) {
+        case 'UnboundedMartingale':
+            return localize(
+                'The stake in "{{ variable }}" is multiplied after every loss, but nothing limits it to a maximum stake.',
+                { variable }
+            );
+        case 'MissingStopCondition':
+            return localize('"Trade again" always runs, so the bot only stops when you stop it.');
+        case 'UnlimitedTradeAgain':
+            return localize(
+                '"Trade again" doesn\'t depend on the total profit, the balance or the number of runs, so losses are not limited.'
+            );
+        case 'VariableReadBeforeSet':
+            return localize('"{{ variable }}" is used before any block sets it, so its value is empty at first.', {
+                variable,
+            });
+        default:
+            return localize(
+                'This delay is inside a loop or a block that runs on every tick. Delays are not waited for, so they pile up.'
+            );
+    }
+};
@@ -0,0 +1,24 @@
+import { getBrowserStorage, readSettings, TSettingsStorage, writeSettings } from '../../utils/settings-storage';
+import { DEFAULT_LINT_SEVERITIES, LINT_RULES, TLintSeverities, TLintSeverity } from './bot-linter';
+
+export const LINT_SEVERITIES_STORAGE_KEY = 'dbot_lint_severities';
+
+const SEVERITIES: TLintSeverity[] = ['error', 'warning', 'off'];
+
+export const loadLintSeverities = (storage: TSettingsStorage | undefined = getBrowserStorage()): TLintSeverities => {
+    const stored = readSettings<Record<string, TLintSeverity>>(storage, LINT_SEVERITIES_STORAGE_KEY) ?? {};
+    return LINT_RULES.reduce(
+        (severities, rule) => ({
+            ...severities,
+            [rule]: SEVERITIES.includes(stored[rule]) ? stored[rule] : DEFAULT_LINT_SEVERITIES[rule],
+        }),
+        { ...DEFAULT_LINT_SEVERITIES }
+    );
+};
+
+export const saveLintSeverities = (
+    severities: TLintSeverities,
+    storage: TSettingsStorage | undefined = getBrowserStorage()
+) => {
+    writeSettings(storage, LINT_SEVERITIES_STORAGE_KEY, severities);
+};
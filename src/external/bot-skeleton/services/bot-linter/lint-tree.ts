@@ -0,0 +1,95 @@
+export type TLintBlock = {
+    id: string;
+    type: string;
+    fields: Record<string, string>;
+    /** Blocks connected to each input. Statement inputs hold the whole stack in order. */
+    inputs: Record<string, TLintBlock[]>;
+    /** Name of the procedure a call or definition block refers to. */
+    procedure_name: string;
+    /** Parameter names of a procedure definition. */
+    procedure_args: string[];
+};
+
+const getChildElements = (element: Element, tag_name: string) =>
+    Array.from(element.children).filter(child => child.tagName.toLowerCase() === tag_name);
+
+const isDisabled = (element: Element) => element.getAttribute('disabled') === 'true';
+
+/**
+ * Returns the block in a value or statement tag. A real block replaces its shadow, so the
+ * shadow is only used when nothing is connected.
+ */
+const getConnectedElement = (connection: Element) =>
+    getChildElements(connection, 'block')[0] ?? getChildElements(connection, 'shadow')[0];
+
+const readStack = (element: Element | undefined): TLintBlock[] => {
+    const stack: TLintBlock[] = [];
+    let current = element;
+
+    while (current) {
+        // Disabled blocks are not run, and neither are the blocks inside them.
+        if (!isDisabled(current)) stack.push(readBlock(current));
+        const next = getChildElements(current, 'next')[0];
+        current = next ? getConnectedElement(next) : undefined;
+    }
+
+    return stack;
+};
+
+const readBlock = (element: Element): TLintBlock => {
+    const mutation = getChildElements(element, 'mutation')[0];
+    const fields = getChildElements(element, 'field').reduce<Record<string, string>>((values, field) => {
+        values[field.getAttribute('name') ?? ''] = field.textContent ?? '';
+        return values;
+    }, {});
+    const inputs = [...getChildElements(element, 'value'), ...getChildElements(element, 'statement')].reduce<
+        Record<string, TLintBlock[]>
+    >((connected, connection) => {
+        connected[connection.getAttribute('name') ?? ''] = readStack(getConnectedElement(connection));
+        return connected;
+    }, {});
+
+    return {
+        id: element.getAttribute('id') ?? '',
+        type: element.getAttribute('type') ?? '',
+        fields,
+        inputs,
+        procedure_name: fields.NAME ?? mutation?.getAttribute('name') ?? '',
+        procedure_args: mutation ? getChildElements(mutation, 'arg').map(arg => arg.getAttribute('name') ?? '') : [],
+    };
+};
+
+/**
+ * Reads the enabled top blocks of a strategy XML into trees that the lint rules walk.
+ */
+export const parseLintTree = (xml: string) => {
+    const xml_doc = new DOMParser().parseFromString(xml, 'text/xml');
+    if (xml_doc.getElementsByTagName('parsererror').length) {
+        throw new Error('Unable to read the strategy XML');
+    }
+
+    return getChildElements(xml_doc.documentElement, 'block').flatMap(element => readStack(element));
+};
+
+export const getChildBlocks = (block: TLintBlock) => Object.values(block.inputs).flat();
+
+/**
+ * Visits `block` and every block inside it, passing the blocks it is nested in from the
+ * outermost one.
+ */
+export const walkBlocks = (
+    block: TLintBlock,
+    visit: (block: TLintBlock, ancestors: TLintBlock[]) => void,
+    ancestors: TLintBlock[] = []
+) => {
+    visit(block, ancestors);
+    getChildBlocks(block).forEach(child => walkBlocks(child, visit, [...ancestors, block]));
+};
+
+export const findBlocks = (block: TLintBlock, predicate: (block: TLintBlock) => boolean) => {
+    const found: TLintBlock[] = [];
+    walkBlocks(block, current => {
+        if (predicate(current)) found.push(current);
+    });
+    return found;
+};
@@ -0,0 +1,78 @@
+import { findCandlePatterns, isCandlePattern, isCandlePatternId, TPatternCandle } from '../candle-patterns';
+
+const candle = (open: number, high: number, low: number, close: number): TPatternCandle => ({ open, high, low, close });
+
+const FALLING = candle(12, 12.5, 9.5, 10);
+const RISING = candle(10, 12.5, 9.5, 12);
+
+describe('candle patterns', () => {
+    it('should find engulfing candles that reverse the previous one', () => {
+        expect(isCandlePattern([candle(11, 11.2, 9.8, 10), candle(9.9, 11.5, 9.7, 11.3)], 'bullish_engulfing')).toBe(
+            true
+        );
+        expect(isCandlePattern([candle(10, 11.2, 9.8, 11), candle(11.1, 11.3, 9.5, 9.8)], 'bearish_engulfing')).toBe(
+            true
+        );
+        expect(isCandlePattern([candle(11, 11.2, 9.8, 10), candle(10.2, 11.5, 9.7, 11.3)], 'bullish_engulfing')).toBe(
+            false
+        );
+    });
+
+    it('should find a doji whatever the candles before it', () => {
+        expect(isCandlePattern([candle(10, 11, 9, 10.05)], 'doji')).toBe(true);
+        expect(isCandlePattern([candle(10, 11, 9, 10.5)], 'doji')).toBe(false);
+    });
+
+    it('should only find hammers and shooting stars that reverse the previous candle', () => {
+        const hammer = candle(10, 10.6, 8, 10.5);
+        const shooting_star = candle(10.5, 13, 9.9, 10);
+
+        expect(isCandlePattern([FALLING, hammer], 'hammer')).toBe(true);
+        expect(isCandlePattern([RISING, hammer], 'hammer')).toBe(false);
+        expect(isCandlePattern([RISING, shooting_star], 'shooting_star')).toBe(true);
+        expect(isCandlePattern([FALLING, shooting_star], 'shooting_star')).toBe(false);
+    });
+
+    it('should find stars that close past the middle of the first candle', () => {
+        const morning = [candle(14, 14.2, 9.8, 10), candle(9.8, 10, 9.4, 9.7), candle(10, 13.2, 9.9, 13)];
+        const evening = [candle(10, 14.2, 9.8, 14), candle(14.2, 14.6, 14, 14.3), candle(14, 14.1, 10.5, 11)];
+
+        expect(isCandlePattern(morning, 'morning_star')).toBe(true);
+        expect(isCandlePattern(evening, 'evening_star')).toBe(true);
+        expect(isCandlePattern([...morning.slice(0, 2), candle(10, 11.5, 9.9, 11.5)], 'morning_star')).toBe(false);
+    });
+
+    it('should find a three line strike that wipes out the three candles before it', () => {
+        const falling_line = [candle(13, 13.1, 11.9, 12), candle(12.5, 12.6, 10.9, 11), candle(11.5, 11.6, 9.9, 10)];
+        const rising_line = [candle(10, 11.1, 9.9, 11), candle(10.5, 12.1, 10.4, 12), candle(11.5, 13.1, 11.4, 13)];
+
+        expect(isCandlePattern([...falling_line, candle(9.8, 13.5, 9.7, 13.4)], 'bullish_three_line_strike')).toBe(
+            true
+        );
+        expect(isCandlePattern([...rising_line, candle(13.2, 13.3, 9.5, 9.6)], 'bearish_three_line_strike')).toBe(true);
+        expect(isCandlePattern([...falling_line, candle(9.8, 12.5, 9.7, 12.4)], 'bullish_three_line_strike')).toBe(
+            false
+        );
+    });
+
+    it('should list every pattern that ends at the latest candle', () => {
+        const harami = [candle(12, 12.5, 9.5, 10), candle(10.5, 11.8, 10.2, 11.5)];
+
+        expect(findCandlePatterns(harami)).toEqual(['bullish_harami', 'inside_bar']);
+        expect(findCandlePatterns([candle(10, 12.5, 9.5, 12), candle(11.5, 12, 10, 10.5)])).toEqual([
+            'bearish_harami',
+            'inside_bar',
+        ]);
+        expect(findCandlePatterns([RISING])).toEqual([]);
+    });
+
+    it('should not match patterns longer than the candles given', () => {
+        expect(isCandlePattern([FALLING], 'bullish_engulfing')).toBe(false);
+        expect(isCandlePattern([], 'doji')).toBe(false);
+    });
+
+    it('should tell the known pattern ids apart', () => {
+        expect(isCandlePatternId('morning_star')).toBe(true);
+        expect(isCandlePatternId('constructor')).toBe(false);
+    });
+});
@@ -0,0 +1,34 @@
+import { localize } from '@deriv-com/translations';
+import { CANDLE_PATTERN_IDS, TCandlePatternId } from './candle-patterns';
+
+export const getCandlePatternName = (id: TCandlePatternId) => {
+    switch (id) {
+        case 'bullish_engulfing':
+            return localize('Bullish engulfing');
+        case 'bearish_engulfing':
+            return localize('Bearish engulfing');
+        case 'hammer':
+            return localize('Hammer');
+        case 'shooting_star':
+            return localize('Shooting star');
+        case 'morning_star':
+            return localize('Morning star');
+        case 'evening_star':
+            return localize('Evening star');
+        case 'bullish_three_line_strike':
+            return localize('Bullish three line strike');
+        case 'bearish_three_line_strike':
+            return localize('Bearish three line strike');
+        case 'bullish_harami':
+            return localize('Bullish harami');
+        case 'bearish_harami':
+            return localize('Bearish harami');
+        case 'inside_bar':
+            return localize('Inside bar');
+        default:
+            return localize('Doji');
+    }
+};
+
+export const getCandlePatternOptions = () =>
+    CANDLE_PATTERN_IDS.map(id => ({ value: id, text: getCandlePatternName(id) }));
@@ -0,0 +1,174 @@
+export type TCandlePatternId =
+    | 'bullish_engulfing'
+    | 'bearish_engulfing'
+    | 'doji'
+    | 'hammer'
+    | 'shooting_star'
+    | 'morning_star'
+    | 'evening_star'
+    | 'bullish_three_line_strike'
+    | 'bearish_three_line_strike'
+    | 'bullish_harami'
+    | 'bearish_harami'
+    | 'inside_bar';
+
+export type TPatternCandle = {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+};
+
+type TPatternDetector = {
+    /** Number of candles the pattern is made of, the last one being the latest candle. */
+    length: number;
+    matches: (candles: TPatternCandle[]) => boolean;
+};
+
+/** A body up to this share of the candle range makes a doji. */
+export const DOJI_BODY_RATIO = 0.1;
+/** The shadow of a hammer or shooting star is at least this many times its body. */
+export const SHADOW_BODY_RATIO = 2;
+/** The middle candle of a star has a body up to this share of the body of the first candle. */
+export const STAR_BODY_RATIO = 0.3;
+
+const body = ({ open, close }: TPatternCandle) => Math.abs(close - open);
+const range = ({ high, low }: TPatternCandle) => high - low;
+const bodyTop = ({ open, close }: TPatternCandle) => Math.max(open, close);
+const bodyBottom = ({ open, close }: TPatternCandle) => Math.min(open, close);
+const upperShadow = (candle: TPatternCandle) => candle.high - bodyTop(candle);
+const lowerShadow = (candle: TPatternCandle) => bodyBottom(candle) - candle.low;
+const isBullish = ({ open, close }: TPatternCandle) => close > open;
+const isBearish = ({ open, close }: TPatternCandle) => close < open;
+const isDoji = (candle: TPatternCandle) => body(candle) <= range(candle) * DOJI_BODY_RATIO;
+
+const engulfs = (candle: TPatternCandle, previous: TPatternCandle) =>
+    bodyTop(candle) > bodyTop(previous) && bodyBottom(candle) < bodyBottom(previous);
+
+const isHeldBy = (candle: TPatternCandle, previous: TPatternCandle) =>
+    bodyTop(candle) < bodyTop(previous) && bodyBottom(candle) > bodyBottom(previous);
+
+const isStar = ([first, middle, last]: TPatternCandle[], is_morning: boolean) => {
+    const is_first_in_trend = is_morning ? isBearish(first) : isBullish(first);
+    const is_last_reversed = is_morning ? isBullish(last) : isBearish(last);
+    const first_midpoint = (first.open + first.close) / 2;
+
+    return (
+        is_first_in_trend &&
+        is_last_reversed &&
+        body(middle) <= body(first) * STAR_BODY_RATIO &&
+        (is_morning ? last.close > first_midpoint : last.close < first_midpoint)
+    );
+};
+
+const isThreeLineStrike = (candles: TPatternCandle[], is_bullish: boolean) => {
+    const [first, second, third, strike] = candles;
+    const line = [first, second, third];
+
+    if (is_bullish) {
+        return (
+            line.every(isBearish) &&
+            second.close < first.close &&
+            third.close < second.close &&
+            isBullish(strike) &&
+            strike.close > first.open
+        );
+    }
+
+    return (
+        line.every(isBullish) &&
+        second.close > first.close &&
+        third.close > second.close &&
+        isBearish(strike) &&
+        strike.close < first.open
+    );
+};
+
+/**
+ * Patterns are matched on their shape only. The hammer and the shooting star also need the
+ * candle before them to move against the reversal they signal, which tells them apart from the
+ * hanging man and the inverted hammer.
+ */
+const PATTERNS: Record<TCandlePatternId, TPatternDetector> = {
+    bullish_engulfing: {
+        length: 2,
+        matches: ([previous, candle]) => isBearish(previous) && isBullish(candle) && engulfs(candle, previous),
+    },
+    bearish_engulfing: {
+        length: 2,
+        matches: ([previous, candle]) => isBullish(previous) && isBearish(candle) && engulfs(candle, previous),
+    },
+    doji: {
+        length: 1,
+        matches: ([candle]) => isDoji(candle),
+    },
+    hammer: {
+        length: 2,
+        matches: ([previous, candle]) =>
+            isBearish(previous) &&
+            !isDoji(candle) &&
+            lowerShadow(candle) >= body(candle) * SHADOW_BODY_RATIO &&
+            upperShadow(candle) <= body(candle),
+    },
+    shooting_star: {
+        length: 2,
+        matches: ([previous, candle]) =>
+            isBullish(previous) &&
+            !isDoji(candle) &&
+            upperShadow(candle) >= body(candle) * SHADOW_BODY_RATIO &&
+            lowerShadow(candle) <= body(candle),
+    },
+    morning_star: {
+        length: 3,
+        matches: candles => isStar(candles, true),
+    },
+    evening_star: {
+        length: 3,
+        matches: candles => isStar(candles, false),
+    },
+    bullish_three_line_strike: {
+        length: 4,
+        matches: candles => isThreeLineStrike(candles, true),
+    },
+    bearish_three_line_strike: {
+        length: 4,
+        matches: candles => isThreeLineStrike(candles, false),
+    },
+    bullish_harami: {
+        length: 2,
+        matches: ([previous, candle]) => isBearish(previous) && isBullish(candle) && isHeldBy(candle, previous),
+    },
+    bearish_harami: {
+        length: 2,
+        matches: ([previous, candle]) => isBullish(previous) && isBearish(candle) && isHeldBy(candle, previous),
+    },
+    inside_bar: {
+        length: 2,
+        matches: ([previous, candle]) => candle.high < previous.high && candle.low > previous.low,
+    },
+};
+
+export const CANDLE_PATTERN_IDS = Object.keys(PATTERNS) as TCandlePatternId[];
+
+export const isCandlePatternId = (id: string): id is TCandlePatternId =>
+    CANDLE_PATTERN_IDS.includes(id as TCandlePatternId);
+
+/** Tells whether the pattern ends at the latest candle, candles being ordered from the oldest. */
+export const isCandlePattern = (candles: TPatternCandle[], id: TCandlePatternId) => {
+    const { length, matches } = PATTERNS[id];
+
+    if (candles.length < length) return false;
+
+    return matches(
+        candles.slice(-length).map(({ open, high, low, close }) => ({
+            open: +open,
+            high: +high,
+            low: +low,
+            close: +close,
+        }))
+    );
+};
+
+/** Returns the patterns ending at the latest candle, in the order of `CANDLE_PATTERN_IDS`. */
+export const findCandlePatterns = (candles: TPatternCandle[]) =>
+    CANDLE_PATTERN_IDS.filter(id => isCandlePattern(candles, id));
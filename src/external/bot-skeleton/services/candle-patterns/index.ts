@@ -0,0 +1,2 @@
+export * from './candle-pattern-labels';
+export * from './candle-patterns';
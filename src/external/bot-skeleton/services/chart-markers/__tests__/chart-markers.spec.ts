@@ -0,0 +1,114 @@
+import { TContractInfo } from '@/components/summary/summary-card.types';
+import {
+    getChartContracts,
+    getContractBarrier,
+    getEntryEpoch,
+    getSessionProfit,
+    getTradeMarkers,
+} from '../chart-markers';
+
+const createContract = (contract_id: number, overrides: Partial<TContractInfo> = {}): TContractInfo => ({
+    contract_id,
+    contract_type: 'CALL',
+    underlying: 'R_100',
+    currency: 'USD',
+    buy_price: 10,
+    purchase_time: 1000 + contract_id * 10,
+    entry_spot: 100 + contract_id,
+    entry_tick_time: 1001 + contract_id * 10,
+    barrier: String(100 + contract_id),
+    is_completed: true,
+    profit: 5,
+    sell_spot: 101 + contract_id,
+    sell_spot_time: 1006 + contract_id * 10,
+    ...overrides,
+});
+
+describe('chart-markers', () => {
+    it('should keep the latest contracts of the chart symbol in the order they were bought', () => {
+        const contracts = [
+            createContract(3),
+            createContract(1),
+            createContract(2, { underlying: 'R_50' }),
+            createContract(4),
+        ];
+
+        expect(getChartContracts(contracts, 'R_100').map(({ contract_id }) => contract_id)).toEqual([1, 3, 4]);
+        expect(getChartContracts(contracts, 'R_100', 2).map(({ contract_id }) => contract_id)).toEqual([3, 4]);
+    });
+
+    it('should mark the entry and exit spots of a contract with its stake and profit', () => {
+        expect(getTradeMarkers(createContract(1))).toEqual([
+            expect.objectContaining({
+                key: '1-entry',
+                type: 'entry',
+                epoch: 1011,
+                price: 101,
+                buy_price: 10,
+                profit: 5,
+            }),
+            expect.objectContaining({ key: '1-exit', type: 'exit', epoch: 1016, price: 102, buy_price: 10, profit: 5 }),
+        ]);
+
+        const open_contract = createContract(2, {
+            is_completed: false,
+            sell_spot: undefined,
+            sell_spot_time: undefined,
+        });
+        expect(getTradeMarkers(open_contract)).toEqual([expect.objectContaining({ type: 'entry', profit: null })]);
+    });
+
+    it('should read the tick times the transactions store saves as GMT dates', () => {
+        const contract = createContract(1, {
+            entry_tick_time: '2024-1-5 10:00:02 GMT',
+            exit_tick_time: '2024-1-5 10:00:07 GMT',
+            entry_spot: undefined,
+            entry_tick: '1234.56',
+            sell_spot: undefined,
+            sell_spot_time: undefined,
+            exit_tick: '1234.6',
+        });
+
+        expect(getEntryEpoch(contract)).toBe(1704448802);
+        expect(getTradeMarkers(contract)).toEqual([
+            expect.objectContaining({ type: 'entry', epoch: 1704448802, price: 1234.56 }),
+            expect.objectContaining({ type: 'exit', epoch: 1704448807, price: 1234.6 }),
+        ]);
+    });
+
+    it('should shade the barriers of open contracts and skip the ones that are not prices', () => {
+        expect(getContractBarrier(createContract(1, { is_completed: false }))).toEqual(
+            expect.objectContaining({ high: 101, shade: 'ABOVE', lineStyle: 'solid', isSingleBarrier: true })
+        );
+        expect(getContractBarrier(createContract(2, { profit: -10 }))).toEqual(
+            expect.objectContaining({ high: 102, shade: 'NONE_SINGLE', lineStyle: 'dotted', color: '#ec3f3f' })
+        );
+        expect(
+            getContractBarrier(
+                createContract(3, {
+                    contract_type: 'ACCU',
+                    barrier: undefined,
+                    high_barrier: '103.5',
+                    low_barrier: '102.5',
+                })
+            )
+        ).toEqual(expect.objectContaining({ high: 103.5, low: 102.5, isSingleBarrier: false }));
+        expect(getContractBarrier(createContract(4, { contract_type: 'DIGITOVER', barrier: '5' }))).toBeNull();
+        expect(getContractBarrier(createContract(5, { barrier: '+0.25' }))).toBeNull();
+    });
+
+    it('should add up the profit of the settled contracts in the order they were settled', () => {
+        const contracts = [
+            createContract(1, { profit: 5, sell_spot_time: 1030 }),
+            createContract(2, { profit: -10, sell_spot_time: 1025 }),
+            createContract(3, { is_completed: false }),
+            createContract(4, { profit: 9, sell_spot_time: 1050 }),
+        ];
+
+        expect(getSessionProfit(contracts)).toEqual([
+            { key: '2', epoch: 1025, profit: -10, total_profit: -10 },
+            { key: '1', epoch: 1030, profit: 5, total_profit: -5 },
+            { key: '4', epoch: 1050, profit: 9, total_profit: 4 },
+        ]);
+    });
+});
@@ -0,0 +1,167 @@
+import moment from 'moment';
+import { BARRIER_COLORS, BARRIER_LINE_STYLES, CONTRACT_SHADES } from '@/components/shared/utils/constants/barriers';
+import { TContractInfo } from '@/components/summary/summary-card.types';
+import { getEquityCurve } from '../trade-analytics';
+
+export type TTradeMarker = {
+    key: string;
+    contract_id: number;
+    type: 'entry' | 'exit';
+    /** Epoch in seconds and price the marker is drawn at on the chart. */
+    epoch: number;
+    price: number;
+    contract_type: string;
+    currency: string;
+    buy_price: number;
+    /** The profit of the contract, `null` while it is still open. */
+    profit: number | null;
+};
+
+export type TChartBarrier = {
+    key: string;
+    high: number;
+    low?: number;
+    color: string;
+    shade: string;
+    lineStyle: string;
+    isSingleBarrier: boolean;
+    hidePriceLines: boolean;
+    hideOffscreenBarrier: boolean;
+};
+
+export type TProfitPoint = {
+    key: string;
+    /** Epoch in seconds the contract was settled at. */
+    epoch: number;
+    profit: number;
+    /** Profit of the session up to and including this contract. */
+    total_profit: number;
+};
+
+/** The most recent contracts of the chart symbol that get markers, so long sessions stay responsive. */
+export const MAX_CHART_CONTRACTS = 100;
+
+// The format the transactions store saves the entry and exit tick times in.
+const TRANSACTION_DATE_FORMAT = 'YYYY-M-D HH:mm:ss [GMT]';
+
+const toEpoch = (value?: string | number) => {
+    if (typeof value === 'number') return value;
+    if (!value) return null;
+    const date = moment.utc(value, TRANSACTION_DATE_FORMAT, true);
+    return date.isValid() ? date.unix() : null;
+};
+
+const toPrice = (value?: string | number | null) => {
+    if (value === null || value === undefined || value === '') return null;
+    const price = Number(value);
+    return Number.isFinite(price) ? price : null;
+};
+
+// Relative barriers are offsets from the entry spot and digit barriers are digits, neither is a price.
+const toBarrierPrice = (contract_type: string, value?: string | null) =>
+    contract_type.startsWith('DIGIT') || /^[+-]/.test(value ?? '') ? null : toPrice(value);
+
+const getKey = (contract: TContractInfo) => String(contract.contract_id ?? contract.transaction_ids?.buy);
+
+/** The contracts bought on the symbol, from the first to the last one, at most `limit` of them. */
+export const getChartContracts = (contracts: TContractInfo[], symbol: string, limit = MAX_CHART_CONTRACTS) =>
+    contracts
+        .filter(({ underlying }) => underlying === symbol)
+        .sort((a, b) => (a.purchase_time ?? 0) - (b.purchase_time ?? 0))
+        .slice(-limit);
+
+export const getEntryEpoch = (contract: TContractInfo) =>
+    contract.tick_stream?.[0]?.epoch ?? toEpoch(contract.entry_tick_time) ?? contract.purchase_time ?? null;
+
+export const getExitEpoch = (contract: TContractInfo) =>
+    contract.is_completed ? (contract.sell_spot_time ?? toEpoch(contract.exit_tick_time) ?? null) : null;
+
+export const getTradeMarkers = (contract: TContractInfo): TTradeMarker[] => {
+    const contract_type = contract.contract_type ?? '';
+    const common = {
+        contract_id: contract.contract_id ?? 0,
+        contract_type,
+        currency: contract.currency ?? '',
+        buy_price: Number(contract.buy_price ?? 0),
+        profit: contract.is_completed ? Number(contract.profit ?? 0) : null,
+    };
+    const markers: TTradeMarker[] = [];
+
+    const entry_epoch = getEntryEpoch(contract);
+    const entry_price = toPrice(contract.entry_spot) ?? toPrice(contract.entry_tick);
+    if (entry_epoch && entry_price !== null) {
+        markers.push({
+            ...common,
+            key: `${getKey(contract)}-entry`,
+            type: 'entry',
+            epoch: entry_epoch,
+            price: entry_price,
+        });
+    }
+
+    const exit_epoch = getExitEpoch(contract);
+    const exit_price = toPrice(contract.sell_spot) ?? toPrice(contract.exit_tick);
+    if (exit_epoch && exit_price !== null) {
+        markers.push({
+            ...common,
+            key: `${getKey(contract)}-exit`,
+            type: 'exit',
+            epoch: exit_epoch,
+            price: exit_price,
+        });
+    }
+    return markers;
+};
+
+/**
+ * The barriers of the contract as the chart draws them. Open contracts are shaded like DTrader
+ * shades its trades, settled ones keep a dotted line in the colour of their result.
+ */
+export const getContractBarrier = (contract: TContractInfo): TChartBarrier | null => {
+    const contract_type = contract.contract_type ?? '';
+    const high =
+        toBarrierPrice(contract_type, contract.high_barrier) ?? toBarrierPrice(contract_type, contract.barrier);
+    if (high === null) return null;
+
+    const low = toBarrierPrice(contract_type, contract.low_barrier) ?? undefined;
+    const is_single_barrier = low === undefined;
+    const shade = CONTRACT_SHADES[contract_type as keyof typeof CONTRACT_SHADES];
+    const is_won = Number(contract.profit ?? 0) > 0;
+
+    return {
+        key: `${getKey(contract)}-barrier`,
+        high,
+        low,
+        color: (contract.is_completed && (is_won ? BARRIER_COLORS.GREEN : BARRIER_COLORS.RED)) || BARRIER_COLORS.BLUE,
+        shade: (!contract.is_completed && shade) || (is_single_barrier ? 'NONE_SINGLE' : 'NONE_DOUBLE'),
+        lineStyle: contract.is_completed ? BARRIER_LINE_STYLES.DOTTED : BARRIER_LINE_STYLES.SOLID,
+        isSingleBarrier: is_single_barrier,
+        hidePriceLines: !!contract.is_completed,
+        hideOffscreenBarrier: !!contract.is_completed,
+    };
+};
+
+/** Profit of the session after each settled contract, in the order they were settled. */
+export const getSessionProfit = (contracts: TContractInfo[]): TProfitPoint[] => {
+    const settled = contracts
+        .map(contract => ({ contract, epoch: getExitEpoch(contract) ?? contract.sell_time ?? null }))
+        .filter((item): item is { contract: TContractInfo; epoch: number } => !!item.epoch)
+        .sort((a, b) => a.epoch - b.epoch);
+    const equity_curve = getEquityCurve(
+        settled.map(({ contract, epoch }) => ({
+            contract_type: contract.contract_type ?? '',
+            symbol: contract.underlying ?? '',
+            buy_price: Number(contract.buy_price ?? 0),
+            profit: Number(contract.profit ?? 0),
+            purchased_at: (contract.purchase_time ?? epoch) * 1000,
+            settled_at: epoch * 1000,
+        }))
+    );
+
+    return settled.map(({ contract, epoch }, index) => ({
+        key: getKey(contract),
+        epoch,
+        profit: Number(contract.profit ?? 0),
+        total_profit: equity_curve[index].equity,
+    }));
+};
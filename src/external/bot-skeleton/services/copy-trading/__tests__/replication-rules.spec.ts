@@ -0,0 +1,115 @@
+import {
+    addDailyProfit,
+    DEFAULT_REPLICATION_RULES,
+    getDailyProfit,
+    getReplicationDecision,
+    parseAllowList,
+    summariseReplications,
+    TReplicationRecord,
+    TSourceTrade,
+    TTargetSnapshot,
+} from '../replication-rules';
+
+const DAY = 86400 * 1000;
+
+const trade: TSourceTrade = { contract_id: 1, contract_type: 'DIGITEVEN', symbol: 'R_100', stake: 2 };
+const target: TTargetSnapshot = { balance: 500, source_balance: 1000, daily_profit: 0 };
+
+describe('replication rules', () => {
+    it('should scale the stake by ratio, fixed amount or balance', () => {
+        expect(getReplicationDecision({ ...DEFAULT_REPLICATION_RULES, stake_ratio: 1.5 }, trade, target)).toEqual({
+            should_copy: true,
+            stake: 3,
+        });
+        expect(
+            getReplicationDecision(
+                { ...DEFAULT_REPLICATION_RULES, stake_mode: 'fixed', fixed_stake: 0.35 },
+                trade,
+                target
+            )
+        ).toEqual({ should_copy: true, stake: 0.35 });
+        expect(
+            getReplicationDecision({ ...DEFAULT_REPLICATION_RULES, stake_mode: 'balance_proportional' }, trade, target)
+        ).toEqual({ should_copy: true, stake: 1 });
+    });
+
+    it('should skip trades that the stake cannot be calculated for', () => {
+        const rules = { ...DEFAULT_REPLICATION_RULES, stake_mode: 'balance_proportional' as const };
+
+        expect(getReplicationDecision(rules, trade, { ...target, source_balance: 0 })).toEqual({
+            should_copy: false,
+            reason: 'InvalidStake',
+        });
+        expect(getReplicationDecision({ ...DEFAULT_REPLICATION_RULES, stake_ratio: 0 }, trade, target)).toEqual({
+            should_copy: false,
+            reason: 'InvalidStake',
+        });
+    });
+
+    it('should only copy allowed contract types and symbols', () => {
+        const rules = { ...DEFAULT_REPLICATION_RULES, contract_types: ['DIGITODD'], symbols: ['R_100'] };
+
+        expect(getReplicationDecision(rules, trade, target)).toEqual({
+            should_copy: false,
+            reason: 'ContractTypeNotAllowed',
+        });
+        expect(getReplicationDecision(rules, { ...trade, contract_type: 'DIGITODD' }, target).should_copy).toBe(true);
+        expect(getReplicationDecision(rules, { ...trade, contract_type: 'DIGITODD', symbol: 'R_50' }, target)).toEqual({
+            should_copy: false,
+            reason: 'SymbolNotAllowed',
+        });
+    });
+
+    it('should stop copying when paused or once the daily loss cap is reached', () => {
+        expect(getReplicationDecision({ ...DEFAULT_REPLICATION_RULES, is_paused: true }, trade, target)).toEqual({
+            should_copy: false,
+            reason: 'Paused',
+        });
+
+        const rules = { ...DEFAULT_REPLICATION_RULES, daily_loss_cap: 10 };
+        expect(getReplicationDecision(rules, trade, { ...target, daily_profit: -9.99 }).should_copy).toBe(true);
+        expect(getReplicationDecision(rules, trade, { ...target, daily_profit: -10 })).toEqual({
+            should_copy: false,
+            reason: 'DailyLossCapReached',
+        });
+    });
+
+    it('should reset the daily profit on a new UTC day', () => {
+        const ledger = addDailyProfit(addDailyProfit(undefined, -4, DAY), -2, DAY + 1000);
+
+        expect(ledger).toEqual({ day: '1970-01-02', profit: -6 });
+        expect(getDailyProfit(ledger, DAY + 1000)).toBe(-6);
+        expect(getDailyProfit(ledger, 2 * DAY)).toBe(0);
+        expect(addDailyProfit(ledger, 1, 2 * DAY)).toEqual({ day: '1970-01-03', profit: 1 });
+    });
+
+    it('should parse allow-lists', () => {
+        expect(parseAllowList(' call, put  digitodd,,')).toEqual(['CALL', 'PUT', 'DIGITODD']);
+        expect(parseAllowList('')).toEqual([]);
+    });
+
+    it('should summarise the outcomes of every target', () => {
+        const records: TReplicationRecord[] = [1, 2, 3].map(id => ({
+            source_contract_id: id,
+            timestamp: id,
+            symbol: 'R_100',
+            contract_type: 'CALL',
+            source_stake: 1,
+            outcomes: [
+                {
+                    target_key: 'CR1',
+                    target_label: 'First',
+                    status: id === 3 ? 'failed' : 'copied',
+                    message: '',
+                    profit: id === 3 ? undefined : -1,
+                },
+                { target_key: 'CR2', target_label: 'Second', status: id === 1 ? 'pending' : 'skipped', message: '' },
+            ],
+        }));
+
+        expect(summariseReplications(records)).toEqual([
+            { target_key: 'CR1', target_label: 'First', copied: 2, skipped: 0, failed: 1, profit: -2 },
+            { target_key: 'CR2', target_label: 'Second', copied: 0, skipped: 2, failed: 0, profit: 0 },
+        ]);
+    });
+});
@@ -0,0 +1,163 @@
+export type TStakeMode = 'fixed' | 'ratio' | 'balance_proportional';
+
+export type TReplicationRules = {
+    stake_mode: TStakeMode;
+    /** Stake of every copied trade in `fixed` mode. */
+    fixed_stake: number;
+    /** Multiplier of the source stake in `ratio` mode. */
+    stake_ratio: number;
+    /** Empty lists allow every contract type or symbol. */
+    contract_types: string[];
+    symbols: string[];
+    /** Realised loss of the current UTC day at which the target stops copying. 0 disables it. */
+    daily_loss_cap: number;
+    is_paused: boolean;
+};
+
+export type TSourceTrade = {
+    contract_id: string | number;
+    contract_type: string;
+    symbol: string;
+    stake: number;
+};
+
+export type TTargetSnapshot = {
+    balance: number;
+    source_balance: number;
+    daily_profit: number;
+};
+
+export type TSkipReason =
+    | 'Paused'
+    | 'ContractTypeNotAllowed'
+    | 'SymbolNotAllowed'
+    | 'DailyLossCapReached'
+    | 'InvalidStake';
+
+export type TReplicationDecision = { should_copy: true; stake: number } | { should_copy: false; reason: TSkipReason };
+
+export type TDailyProfit = {
+    day: string;
+    profit: number;
+};
+
+export type TReplicationStatus = 'pending' | 'copied' | 'skipped' | 'failed';
+
+export type TReplicationOutcome = {
+    target_key: string;
+    target_label: string;
+    status: TReplicationStatus;
+    message: string;
+    stake?: number;
+    contract_id?: string | number;
+    profit?: number;
+};
+
+/**
+ * One source trade and what happened to it on every target, so that copied, skipped and
+ * failed trades can be reconciled per target.
+ */
+export type TReplicationRecord = {
+    source_contract_id: string | number;
+    timestamp: number;
+    symbol: string;
+    contract_type: string;
+    source_stake: number;
+    outcomes: TReplicationOutcome[];
+};
+
+export type TReplicationSummary = {
+    target_key: string;
+    target_label: string;
+    copied: number;
+    skipped: number;
+    failed: number;
+    profit: number;
+};
+
+export const DEFAULT_REPLICATION_RULES: TReplicationRules = {
+    stake_mode: 'ratio',
+    fixed_stake: 1,
+    stake_ratio: 1,
+    contract_types: [],
+    symbols: [],
+    daily_loss_cap: 0,
+    is_paused: false,
+};
+
+export const getUtcDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export const getDailyProfit = (ledger: TDailyProfit | undefined, now: number) =>
+    ledger?.day === getUtcDay(now) ? ledger.profit : 0;
+
+export const addDailyProfit = (ledger: TDailyProfit | undefined, profit: number, now: number): TDailyProfit => ({
+    day: getUtcDay(now),
+    profit: getDailyProfit(ledger, now) + profit,
+});
+
+const roundStake = (stake: number) => Math.round(stake * 100) / 100;
+
+/**
+ * Stake of the copied trade on one target. Balance-proportional copies risk the same share
+ * of the target balance as the source trade risks of the source balance.
+ */
+export const getReplicationStake = (rules: TReplicationRules, trade: TSourceTrade, target: TTargetSnapshot) => {
+    switch (rules.stake_mode) {
+        case 'fixed':
+            return roundStake(rules.fixed_stake);
+        case 'balance_proportional':
+            return target.source_balance > 0 ? roundStake((trade.stake * target.balance) / target.source_balance) : 0;
+        default:
+            return roundStake(trade.stake * rules.stake_ratio);
+    }
+};
+
+export const getReplicationDecision = (
+    rules: TReplicationRules,
+    trade: TSourceTrade,
+    target: TTargetSnapshot
+): TReplicationDecision => {
+    if (rules.is_paused) return { should_copy: false, reason: 'Paused' };
+    if (rules.contract_types.length && !rules.contract_types.includes(trade.contract_type)) {
+        return { should_copy: false, reason: 'ContractTypeNotAllowed' };
+    }
+    if (rules.symbols.length && !rules.symbols.includes(trade.symbol)) {
+        return { should_copy: false, reason: 'SymbolNotAllowed' };
+    }
+    if (rules.daily_loss_cap > 0 && -target.daily_profit >= rules.daily_loss_cap) {
+        return { should_copy: false, reason: 'DailyLossCapReached' };
+    }
+
+    const stake = getReplicationStake(rules, trade, target);
+    if (!Number.isFinite(stake) || stake <= 0) return { should_copy: false, reason: 'InvalidStake' };
+    return { should_copy: true, stake };
+};
+
+/**
+ * Parses a comma or space separated allow-list such as `CALL, PUT` into upper-case entries.
+ */
+export const parseAllowList = (value: string) =>
+    value
+        .split(/[\s,]+/)
+        .map(entry => entry.trim().toUpperCase())
+        .filter(Boolean);
+
+export const summariseReplications = (records: TReplicationRecord[]): TReplicationSummary[] => {
+    const summaries = new Map<string, TReplicationSummary>();
+    records.forEach(({ outcomes }) =>
+        outcomes.forEach(({ target_key, target_label, status, profit }) => {
+            const summary = summaries.get(target_key) ?? {
+                target_key,
+                target_label,
+                copied: 0,
+                skipped: 0,
+                failed: 0,
+                profit: 0,
+            };
+            if (status !== 'pending') summary[status]++;
+            summary.profit += profit ?? 0;
+            summaries.set(target_key, summary);
+        })
+    );
+    return [...summaries.values()];
+};
@@ -0,0 +1,58 @@
+import {
+    getDigitFrequencies,
+    getDigitPercentage,
+    getLeastFrequentDigit,
+    getMostFrequentDigit,
+    getOverPercentage,
+    getParityPercentage,
+    getParityStreak,
+    getTicksSinceDigit,
+    getUnderPercentage,
+    isDigitUnseen,
+    rankDigits,
+} from '../digit-patterns';
+
+const DIGITS = [3, 7, 7, 2, 9, 0, 7, 4, 4, 1];
+
+describe('digit patterns', () => {
+    it('should count every digit and its share of the list', () => {
+        const frequencies = getDigitFrequencies(DIGITS);
+
+        expect(frequencies).toHaveLength(10);
+        expect(frequencies[7]).toEqual({ digit: 7, count: 3, percentage: 30 });
+        expect(frequencies[5]).toEqual({ digit: 5, count: 0, percentage: 0 });
+        expect(getDigitPercentage(DIGITS, 4)).toBe(20);
+        expect(getDigitFrequencies([]).every(({ percentage }) => percentage === 0)).toBe(true);
+    });
+
+    it('should rank the digits from the most to the least frequent one', () => {
+        expect(rankDigits(DIGITS)).toEqual([7, 4, 0, 1, 2, 3, 9, 5, 6, 8]);
+        expect(getMostFrequentDigit(DIGITS)).toBe(7);
+        expect(getLeastFrequentDigit(DIGITS)).toBe(8);
+        expect(getMostFrequentDigit([])).toBe(0);
+        expect(getLeastFrequentDigit([])).toBe(9);
+    });
+
+    it('should give the even, odd, over and under shares', () => {
+        expect(getParityPercentage(DIGITS, 'even')).toBe(40);
+        expect(getParityPercentage(DIGITS, 'odd')).toBe(60);
+        expect(getOverPercentage(DIGITS, 4)).toBe(40);
+        expect(getUnderPercentage(DIGITS, 4)).toBe(40);
+        expect(getOverPercentage([], 4)).toBe(0);
+    });
+
+    it('should measure the streak of the parity of the latest digit', () => {
+        expect(getParityStreak([1, 2, 4, 6])).toEqual({ parity: 'even', length: 3 });
+        expect(getParityStreak([2, 3, 5])).toEqual({ parity: 'odd', length: 2 });
+        expect(getParityStreak([])).toEqual({ parity: null, length: 0 });
+    });
+
+    it('should tell how long a digit has not been seen for', () => {
+        expect(getTicksSinceDigit(DIGITS, 7)).toBe(3);
+        expect(getTicksSinceDigit(DIGITS, 1)).toBe(0);
+        expect(getTicksSinceDigit(DIGITS, 5)).toBe(10);
+        expect(isDigitUnseen(DIGITS, 7, 3)).toBe(true);
+        expect(isDigitUnseen(DIGITS, 7, 4)).toBe(false);
+        expect(isDigitUnseen(DIGITS, 5, 11)).toBe(false);
+    });
+});
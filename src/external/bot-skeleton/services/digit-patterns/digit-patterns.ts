@@ -0,0 +1,78 @@
+export type TDigitFrequency = {
+    digit: number;
+    count: number;
+    percentage: number;
+};
+
+export type TParity = 'even' | 'odd';
+
+export type TParityStreak = {
+    parity: TParity | null;
+    length: number;
+};
+
+export const DIGITS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+export const isEvenDigit = (digit: number) => digit % 2 === 0;
+
+const getPercentage = (digits: number[], isCounted: (digit: number) => boolean) =>
+    digits.length ? (digits.filter(isCounted).length / digits.length) * 100 : 0;
+
+/** Count and share of every digit, indexed by digit. Values out of 0-9 only count in the total. */
+export const getDigitFrequencies = (digits: number[]): TDigitFrequency[] => {
+    const counts = DIGITS.map(() => 0);
+    digits.forEach(digit => {
+        if (digit >= 0 && digit <= 9) counts[digit]++;
+    });
+
+    return counts.map((count, digit) => ({
+        digit,
+        count,
+        percentage: digits.length ? (count / digits.length) * 100 : 0,
+    }));
+};
+
+/** The digits from the most to the least frequent one, ties keeping the lower digit first. */
+export const rankDigits = (digits: number[]) =>
+    getDigitFrequencies(digits)
+        .sort((a, b) => b.count - a.count)
+        .map(({ digit }) => digit);
+
+export const getMostFrequentDigit = (digits: number[]) => rankDigits(digits)[0];
+
+export const getLeastFrequentDigit = (digits: number[]) => rankDigits(digits)[DIGITS.length - 1];
+
+export const getDigitPercentage = (digits: number[], digit: number) => getPercentage(digits, d => d === digit);
+
+export const getParityPercentage = (digits: number[], parity: TParity) =>
+    getPercentage(digits, digit => isEvenDigit(digit) === (parity === 'even'));
+
+/** Share of the digits strictly over the barrier, as a DIGITOVER contract would win with. */
+export const getOverPercentage = (digits: number[], barrier: number) => getPercentage(digits, digit => digit > barrier);
+
+/** Share of the digits strictly under the barrier, as a DIGITUNDER contract would win with. */
+export const getUnderPercentage = (digits: number[], barrier: number) =>
+    getPercentage(digits, digit => digit < barrier);
+
+/** The parity of the latest digit and how many digits in a row up to it share it. */
+export const getParityStreak = (digits: number[]): TParityStreak => {
+    if (!digits.length) return { parity: null, length: 0 };
+
+    const is_even = isEvenDigit(digits[digits.length - 1]);
+    let length = 0;
+    while (length < digits.length && isEvenDigit(digits[digits.length - 1 - length]) === is_even) {
+        length++;
+    }
+
+    return { parity: is_even ? 'even' : 'odd', length };
+};
+
+/** Digits since the digit last appeared, the whole list when it never did. */
+export const getTicksSinceDigit = (digits: number[], digit: number) => {
+    const index = digits.lastIndexOf(digit);
+    return index < 0 ? digits.length : digits.length - 1 - index;
+};
+
+/** Tells whether the digit is missing from the last `ticks` digits, which needs that many digits. */
+export const isDigitUnseen = (digits: number[], digit: number, ticks: number) =>
+    digits.length >= ticks && getTicksSinceDigit(digits, digit) >= ticks;
@@ -0,0 +1,184 @@
+import { TContractInfo } from '@/components/summary/summary-card.types';
+import { createAuditBundle, TFetchTicks } from '../audit-bundle';
+import { escapeCsvField, toCsv } from '../csv';
+import {
+    EMPTY_EXPORT_FILTER,
+    filterExportContracts,
+    filterJournalMessages,
+    formatEpoch,
+    getExportContract,
+    omitTickStream,
+    serialiseRecords,
+    TExportColumn,
+    TExportContract,
+    TExportJournalMessage,
+} from '../export-records';
+
+// 2024-01-01 10:00:00 GMT
+const PURCHASE_TIME = 1704103200;
+
+const createContract = (overrides: Partial<TContractInfo> = {}): TContractInfo => ({
+    contract_id: 101,
+    transaction_ids: { buy: 201, sell: 202 },
+    underlying: 'R_100',
+    display_name: 'Volatility 100 Index',
+    contract_type: 'DIGITOVER',
+    barrier: '5',
+    purchase_time: PURCHASE_TIME,
+    sell_time: PURCHASE_TIME + 6,
+    entry_tick: '1234.56',
+    entry_tick_time: '2024-1-1 10:00:02 GMT',
+    exit_tick: '1234.98',
+    exit_tick_time: '2024-1-1 10:00:06 GMT',
+    buy_price: 10,
+    payout: 19.5,
+    profit: 9.5,
+    currency: 'USD',
+    is_completed: true,
+    ...overrides,
+});
+
+describe('csv', () => {
+    it('should quote fields the way RFC 4180 describes', () => {
+        expect(escapeCsvField('Rise/Fall')).toBe('Rise/Fall');
+        expect(escapeCsvField('1,234.56')).toBe('"1,234.56"');
+        expect(escapeCsvField('Bought "Rise"')).toBe('"Bought ""Rise"""');
+        expect(escapeCsvField('line\nbreak')).toBe('"line\nbreak"');
+        expect(escapeCsvField(null)).toBe('');
+        expect(escapeCsvField(0)).toBe('0');
+    });
+
+    it('should join rows with CRLF after a byte order mark', () => {
+        expect(
+            toCsv([
+                ['a', 'b'],
+                [1, 'c,d'],
+            ])
+        ).toBe('\uFEFFa,b\r\n1,"c,d"\r\n');
+    });
+});
+
+describe('export-records', () => {
+    it('should read the details of a contract', () => {
+        expect(getExportContract(createContract(), 'Martingale')).toEqual({
+            contract_id: 101,
+            buy_transaction_id: 201,
+            sell_transaction_id: 202,
+            bot: 'Martingale',
+            symbol: 'R_100',
+            market: 'Volatility 100 Index',
+            contract_type: 'DIGITOVER',
+            barrier: '5',
+            purchase_time: PURCHASE_TIME,
+            sell_time: PURCHASE_TIME + 6,
+            duration: 6,
+            entry_spot: '1234.56',
+            entry_spot_time: '2024-1-1 10:00:02 GMT',
+            exit_spot: '1234.98',
+            exit_spot_time: '2024-1-1 10:00:06 GMT',
+            buy_price: 10,
+            payout: 19.5,
+            profit: 9.5,
+            currency: 'USD',
+            is_completed: true,
+            tick_stream: [],
+        });
+    });
+
+    it('should filter contracts by date, bot and symbol', () => {
+        const contracts = [
+            getExportContract(createContract(), 'Martingale'),
+            getExportContract(createContract({ contract_id: 2, underlying: 'R_50' }), 'Martingale'),
+            getExportContract(createContract({ contract_id: 3, purchase_time: PURCHASE_TIME + 86400 }), 'Oscar'),
+        ];
+        const getIds = (filter: Partial<typeof EMPTY_EXPORT_FILTER>) =>
+            filterExportContracts(contracts, { ...EMPTY_EXPORT_FILTER, ...filter }).map(
+                ({ contract_id }) => contract_id
+            );
+
+        expect(getIds({})).toEqual([101, 2, 3]);
+        expect(getIds({ date_from: '2024-01-02' })).toEqual([3]);
+        expect(getIds({ date_from: '2024-01-01', date_to: '2024-01-01' })).toEqual([101, 2]);
+        expect(getIds({ bot: 'Martingale', symbol: 'R_50' })).toEqual([2]);
+        expect(
+            filterJournalMessages(
+                [
+                    { date: '2024-01-01', time: '10:00:00 GMT', message_type: 'success', message: 'Bought' },
+                    { date: '2024-01-03', time: '10:00:00 GMT', message_type: 'error', message: 'Failed' },
+                ],
+                { ...EMPTY_EXPORT_FILTER, date_to: '2024-01-02' }
+            )
+        ).toHaveLength(1);
+    });
+
+    it('should export records as CSV and JSON', () => {
+        const columns: TExportColumn<Omit<TExportContract, 'tick_stream'>>[] = [
+            { getLabel: () => 'Market', getValue: ({ market }) => market },
+            { getLabel: () => 'Start Time', getValue: ({ purchase_time }) => formatEpoch(purchase_time) },
+            { getLabel: () => 'Duration', getValue: ({ duration }) => duration },
+            { getLabel: () => 'Payout', getValue: ({ payout }) => payout },
+        ];
+        const contracts = omitTickStream([getExportContract(createContract({ display_name: 'Vol, 100' }))]);
+
+        expect(serialiseRecords(contracts, columns, 'csv')).toBe(
+            '\uFEFFMarket,Start Time,Duration,Payout\r\n"Vol, 100",2024-01-01 10:00:00 GMT,6,19.5\r\n'
+        );
+        expect(JSON.parse(serialiseRecords(contracts, columns, 'json'))).toEqual([
+            expect.not.objectContaining({ tick_stream: expect.anything() }),
+        ]);
+
+        const journal: TExportJournalMessage[] = [
+            { date: '2024-01-01', time: '10:00:00 GMT', message_type: 'error', message: 'Say "hi"' },
+        ];
+        const journal_columns: TExportColumn<TExportJournalMessage>[] = [
+            { getLabel: () => 'Date', getValue: ({ date }) => date },
+            { getLabel: () => 'Message', getValue: ({ message }) => message },
+        ];
+        expect(serialiseRecords(journal, journal_columns, 'csv')).toBe(
+            '\uFEFFDate,Message\r\n2024-01-01,"Say ""hi"""\r\n'
+        );
+        expect(JSON.parse(serialiseRecords(journal, journal_columns, 'json'))).toEqual(journal);
+    });
+});
+
+describe('audit-bundle', () => {
+    it('should bundle every contract with the ticks between its entry and exit', async () => {
+        const fetchTicks = jest.fn<ReturnType<TFetchTicks>, Parameters<TFetchTicks>>(async (_, start, end) => [
+            { epoch: start + 2, quote: 1234.56 },
+            { epoch: end, quote: 1234.98 },
+        ]);
+        const contracts = [
+            getExportContract(createContract(), 'Martingale'),
+            getExportContract(
+                createContract({ contract_id: 2, tick_stream: [{ epoch: PURCHASE_TIME + 2, tick: 1234.5 }] }),
+                'Martingale'
+            ),
+            getExportContract(createContract({ contract_id: 3, sell_time: undefined, is_completed: false })),
+        ];
+
+        const bundle = await createAuditBundle(contracts, fetchTicks, {
+            account: 'CR123',
+            filter: EMPTY_EXPORT_FILTER,
+            now: 0,
+        });
+
+        expect(fetchTicks).toHaveBeenCalledTimes(1);
+        expect(fetchTicks).toHaveBeenCalledWith('R_100', PURCHASE_TIME, PURCHASE_TIME + 6);
+        expect(bundle).toMatchObject({ generated_at: '1970-01-01T00:00:00.000Z', account: 'CR123' });
+        expect(bundle.contracts.map(({ tick_source, ticks }) => [tick_source, ticks.length])).toEqual([
+            ['ticks_history', 2],
+            ['contract', 1],
+            ['unavailable', 0],
+        ]);
+    });
+
+    it('should keep exporting when the ticks of a contract cannot be loaded', async () => {
+        const bundle = await createAuditBundle(
+            [getExportContract(createContract())],
+            () => Promise.reject(new Error('Rate limit')),
+            { account: 'CR123', filter: EMPTY_EXPORT_FILTER }
+        );
+
+        expect(bundle.contracts[0]).toMatchObject({ contract_id: 101, ticks: [], tick_source: 'unavailable' });
+    });
+});
@@ -0,0 +1,55 @@
+import { TExportContract, TExportFilter, TExportTick } from './export-records';
+
+export type TAuditTickSource = 'contract' | 'ticks_history' | 'unavailable';
+
+export type TAuditContract = Omit<TExportContract, 'tick_stream'> & {
+    ticks: TExportTick[];
+    tick_source: TAuditTickSource;
+};
+
+export type TAuditBundle = {
+    generated_at: string;
+    account: string;
+    filter: TExportFilter;
+    contracts: TAuditContract[];
+};
+
+/** Loads the ticks of a symbol between two epochs, both included. */
+export type TFetchTicks = (symbol: string, start: number, end: number) => Promise<TExportTick[]>;
+
+/**
+ * Collects the ticks from the purchase to the sale of a contract. The ticks reported with the
+ * contract are used when there are any, otherwise they are loaded from the tick history.
+ */
+export const getAuditContract = async (
+    { tick_stream, ...contract }: TExportContract,
+    fetchTicks: TFetchTicks
+): Promise<TAuditContract> => {
+    if (tick_stream.length) return { ...contract, ticks: tick_stream, tick_source: 'contract' };
+
+    const { symbol, purchase_time, sell_time } = contract;
+    if (!symbol || !purchase_time || !sell_time) return { ...contract, ticks: [], tick_source: 'unavailable' };
+
+    try {
+        const ticks = await fetchTicks(symbol, purchase_time, sell_time);
+        return { ...contract, ticks, tick_source: ticks.length ? 'ticks_history' : 'unavailable' };
+    } catch (error) {
+        return { ...contract, ticks: [], tick_source: 'unavailable' };
+    }
+};
+
+/**
+ * Builds a JSON bundle with every contract and the ticks it was settled on. Contracts are
+ * loaded one after another so a long list doesn't flood the connection with requests.
+ */
+export const createAuditBundle = async (
+    contracts: TExportContract[],
+    fetchTicks: TFetchTicks,
+    { account, filter, now = Date.now() }: { account: string; filter: TExportFilter; now?: number }
+): Promise<TAuditBundle> => {
+    const audit_contracts: TAuditContract[] = [];
+    for (const contract of contracts) {
+        audit_contracts.push(await getAuditContract(contract, fetchTicks));
+    }
+    return { generated_at: new Date(now).toISOString(), account, filter, contracts: audit_contracts };
+};
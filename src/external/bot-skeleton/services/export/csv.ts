@@ -0,0 +1,14 @@
+export type TCsvValue = string | number | boolean | null | undefined;
+
+// Lets Excel detect that the file is UTF-8 instead of reading it in the system code page.
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/** Quotes a field when it contains a separator, a quote or a line break, as RFC 4180 describes. */
+export const escapeCsvField = (value: TCsvValue) => {
+    const field = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+/** Builds an RFC 4180 CSV file, with CRLF line breaks and a byte order mark for spreadsheets. */
+export const toCsv = (rows: TCsvValue[][]) =>
+    `${BYTE_ORDER_MARK}${rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n')}\r\n`;
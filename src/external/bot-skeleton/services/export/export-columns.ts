@@ -0,0 +1,35 @@
+import { localize } from '@deriv-com/translations';
+import { formatEpoch, TExportColumn, TExportContract, TExportJournalMessage } from './export-records';
+
+export const CONTRACT_COLUMNS: TExportColumn<Omit<TExportContract, 'tick_stream'>>[] = [
+    { getLabel: () => localize('Contract ID'), getValue: ({ contract_id }) => contract_id },
+    { getLabel: () => localize('Reference ID (buy)'), getValue: ({ buy_transaction_id }) => buy_transaction_id },
+    { getLabel: () => localize('Reference ID (sell)'), getValue: ({ sell_transaction_id }) => sell_transaction_id },
+    { getLabel: () => localize('Bot'), getValue: ({ bot }) => bot },
+    { getLabel: () => localize('Market'), getValue: ({ market }) => market },
+    { getLabel: () => localize('Symbol'), getValue: ({ symbol }) => symbol },
+    { getLabel: () => localize('Contract type'), getValue: ({ contract_type }) => contract_type },
+    { getLabel: () => localize('Barrier'), getValue: ({ barrier }) => barrier },
+    { getLabel: () => localize('Start Time'), getValue: ({ purchase_time }) => formatEpoch(purchase_time) },
+    { getLabel: () => localize('Entry Spot'), getValue: ({ entry_spot }) => entry_spot },
+    { getLabel: () => localize('Entry Spot Time'), getValue: ({ entry_spot_time }) => entry_spot_time },
+    { getLabel: () => localize('Exit Spot'), getValue: ({ exit_spot }) => exit_spot },
+    { getLabel: () => localize('Exit Spot Time'), getValue: ({ exit_spot_time }) => exit_spot_time },
+    { getLabel: () => localize('Sell Time'), getValue: ({ sell_time }) => formatEpoch(sell_time) },
+    { getLabel: () => localize('Duration (seconds)'), getValue: ({ duration }) => duration },
+    { getLabel: () => localize('Buy Price'), getValue: ({ buy_price }) => buy_price },
+    { getLabel: () => localize('Payout'), getValue: ({ payout }) => payout },
+    { getLabel: () => localize('Profit/Loss'), getValue: ({ profit }) => profit },
+    { getLabel: () => localize('Currency'), getValue: ({ currency }) => currency },
+    {
+        getLabel: () => localize('Status'),
+        getValue: ({ is_completed }) => (is_completed ? localize('Completed') : localize('Open')),
+    },
+];
+
+export const JOURNAL_COLUMNS: TExportColumn<TExportJournalMessage>[] = [
+    { getLabel: () => localize('Date'), getValue: ({ date }) => date },
+    { getLabel: () => localize('Time'), getValue: ({ time }) => time },
+    { getLabel: () => localize('Type'), getValue: ({ message_type }) => message_type },
+    { getLabel: () => localize('Message'), getValue: ({ message }) => message },
+];
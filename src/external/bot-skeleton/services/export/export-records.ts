@@ -0,0 +1,128 @@
+import { TContractInfo } from '@/components/summary/summary-card.types';
+import { TCsvValue, toCsv } from './csv';
+
+export type TExportFormat = 'csv' | 'json' | 'audit';
+
+/** Dates are `YYYY-MM-DD` in GMT and both ends are included. Empty fields don't filter. */
+export type TExportFilter = {
+    date_from: string;
+    date_to: string;
+    bot: string;
+    symbol: string;
+};
+
+export type TExportTick = {
+    epoch: number;
+    quote: number;
+};
+
+export type TExportContract = {
+    contract_id: number | string;
+    buy_transaction_id: number | string;
+    sell_transaction_id: number | string;
+    bot: string;
+    symbol: string;
+    market: string;
+    contract_type: string;
+    barrier: string;
+    purchase_time: number | null;
+    sell_time: number | null;
+    duration: number | null;
+    entry_spot: string;
+    entry_spot_time: string;
+    exit_spot: string;
+    exit_spot_time: string;
+    buy_price: number;
+    payout: number;
+    profit: number;
+    currency: string;
+    is_completed: boolean;
+    /** The ticks reported with the contract, used by the audit bundle. */
+    tick_stream: TExportTick[];
+};
+
+export type TExportJournalMessage = {
+    date: string;
+    time: string;
+    message_type: string;
+    message: string;
+};
+
+export const EMPTY_EXPORT_FILTER: TExportFilter = { date_from: '', date_to: '', bot: '', symbol: '' };
+
+const toNumber = (value: unknown) => (Number.isFinite(Number(value)) ? Number(value) : 0);
+
+const toText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+export const getEpochDate = (epoch: number) => new Date(epoch * 1000).toISOString().slice(0, 10);
+
+/** Formats an epoch in seconds the way the transactions show dates, in GMT. */
+export const formatEpoch = (epoch: number | null) =>
+    epoch ? new Date(epoch * 1000).toISOString().replace('T', ' ').replace('.000Z', ' GMT') : '';
+
+export const getExportContract = (contract: TContractInfo, bot = ''): TExportContract => {
+    const purchase_time = contract.purchase_time ?? null;
+    const sell_time = contract.sell_time ?? null;
+
+    return {
+        contract_id: contract.contract_id ?? '',
+        buy_transaction_id: contract.transaction_ids?.buy ?? '',
+        sell_transaction_id: contract.transaction_ids?.sell ?? '',
+        bot,
+        symbol: contract.underlying ?? '',
+        market: contract.display_name ?? '',
+        contract_type: contract.contract_type ?? '',
+        barrier: toText(contract.barrier),
+        purchase_time,
+        sell_time,
+        duration: purchase_time && sell_time ? sell_time - purchase_time : null,
+        entry_spot: toText(contract.entry_tick),
+        entry_spot_time: toText(contract.entry_tick_time),
+        exit_spot: toText(contract.exit_tick),
+        exit_spot_time: toText(contract.exit_tick_time),
+        buy_price: toNumber(contract.buy_price),
+        payout: toNumber(contract.payout),
+        profit: toNumber(contract.profit),
+        currency: contract.currency ?? '',
+        is_completed: !!contract.is_completed,
+        tick_stream: (contract.tick_stream ?? [])
+            .filter(({ epoch, tick }) => epoch && tick !== null && tick !== undefined)
+            .map(({ epoch, tick }) => ({ epoch: Number(epoch), quote: Number(tick) })),
+    };
+};
+
+const isInDateRange = (date: string, { date_from, date_to }: TExportFilter) =>
+    (!date_from || date >= date_from) && (!date_to || date <= date_to);
+
+export const filterExportContracts = (contracts: TExportContract[], filter: TExportFilter) =>
+    contracts.filter(
+        contract =>
+            (!contract.purchase_time || isInDateRange(getEpochDate(contract.purchase_time), filter)) &&
+            (!filter.bot || contract.bot === filter.bot) &&
+            (!filter.symbol || contract.symbol === filter.symbol)
+    );
+
+/** Journal messages have no bot or symbol, so only the dates filter them. */
+export const filterJournalMessages = (messages: TExportJournalMessage[], filter: TExportFilter) =>
+    messages.filter(({ date }) => isInDateRange(date, filter));
+
+export type TExportColumn<T> = {
+    getLabel: () => string;
+    getValue: (record: T) => TCsvValue;
+};
+
+const toRows = <T>(columns: TExportColumn<T>[], records: T[]) => [
+    columns.map(({ getLabel }) => getLabel()),
+    ...records.map(record => columns.map(({ getValue }) => getValue(record))),
+];
+
+/** The JSON export keeps the records as they are, the CSV export has one column for each of `columns`. */
+export const serialiseRecords = <T>(
+    records: T[],
+    columns: TExportColumn<T>[],
+    format: Exclude<TExportFormat, 'audit'>
+) => (format === 'json' ? JSON.stringify(records, null, 2) : toCsv(toRows(columns, records)));
+
+export const omitTickStream = (contracts: TExportContract[]) =>
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    contracts.map(({ tick_stream, ...contract }) => contract);
@@ -0,0 +1,4 @@
+export * from './audit-bundle';
+export * from './csv';
+export * from './export-columns';
+export * from './export-records';
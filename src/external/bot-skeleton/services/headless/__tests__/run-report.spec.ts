@@ -0,0 +1,51 @@
+import { createTradeCollector, getTradeFromContract } from '../run-report';
+
+const contract = {
+    contract_id: 1,
+    contract_type: 'DIGITEVEN',
+    transaction_ids: { buy: 10, sell: 11 },
+    buy_price: '1.00',
+    payout: '1.95',
+    sell_price: '1.95',
+    profit: '0.95',
+    entry_tick: '100.12',
+    entry_tick_time: 1700000000,
+    exit_tick: '100.24',
+    exit_tick_time: 1700000010,
+    is_sold: 1,
+};
+
+describe('run-report', () => {
+    it('should turn a sold contract into a trade', () => {
+        expect(getTradeFromContract(contract)).toEqual({
+            contract_id: 1,
+            transaction_ids: { buy: 10, sell: 11 },
+            contract_type: 'DIGITEVEN',
+            barrier: undefined,
+            buy_price: 1,
+            payout: 1.95,
+            sell_price: 1.95,
+            profit: 0.95,
+            is_win: true,
+            entry_tick: 100.12,
+            entry_tick_time: 1700000000,
+            exit_tick: 100.24,
+            exit_tick_time: 1700000010,
+        });
+    });
+
+    it('should count each sold contract once', () => {
+        const collector = createTradeCollector();
+
+        expect(collector.add({ ...contract, is_sold: 0 })).toBe(false);
+        expect(collector.add(contract)).toBe(true);
+        expect(collector.add(contract)).toBe(false);
+        expect(collector.add({ ...contract, contract_id: 2, profit: '-1', sell_price: 0 })).toBe(true);
+
+        const report = collector.getReport(100);
+        expect(report.trades).toHaveLength(2);
+        expect(report.wins).toBe(1);
+        expect(report.losses).toBe(1);
+        expect(report.final_balance).toBeCloseTo(99.95);
+    });
+});
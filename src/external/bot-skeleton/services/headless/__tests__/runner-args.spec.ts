@@ -0,0 +1,61 @@
+import { parseRunnerArgs } from '../runner-args';
+
+describe('parseRunnerArgs', () => {
+    it('should read the bot file, account and options', () => {
+        expect(
+            parseRunnerArgs([
+                'bot.xml',
+                '--token',
+                'abc',
+                '--endpoint',
+                'ws://localhost:8080',
+                '--json',
+                '--max-runtime',
+                '60',
+            ])
+        ).toEqual({
+            bot_file: 'bot.xml',
+            token: 'abc',
+            endpoint: 'ws://localhost:8080',
+            app_id: undefined,
+            is_paper: false,
+            balance: undefined,
+            ticks_file: undefined,
+            symbol: undefined,
+            output: 'json',
+            max_runtime: 60,
+        });
+    });
+
+    it('should fall back to the token in the environment', () => {
+        expect(parseRunnerArgs(['bot.xml'], { DERIV_TOKEN: 'from-env' }).token).toBe('from-env');
+    });
+
+    it('should not pass the token on for paper and replay runs', () => {
+        const env = { DERIV_TOKEN: 'from-env' };
+
+        expect(parseRunnerArgs(['bot.xml', '--paper', '--balance', '500'], env)).toMatchObject({
+            token: undefined,
+            is_paper: true,
+            balance: 500,
+        });
+        expect(parseRunnerArgs(['bot.xml', '--ticks', 'ticks.csv', '--symbol', 'R_50'], env)).toMatchObject({
+            token: undefined,
+            ticks_file: 'ticks.csv',
+            symbol: 'R_50',
+            output: 'text',
+        });
+    });
+
+    it('should reject incomplete or contradicting arguments', () => {
+        expect(() => parseRunnerArgs(['--paper'])).toThrow('exactly one bot XML file');
+        expect(() => parseRunnerArgs(['bot.xml'])).toThrow('Give an API token');
+        expect(() => parseRunnerArgs(['bot.xml', '--paper', '--ticks', 'ticks.csv'])).toThrow('only one of');
+        expect(() => parseRunnerArgs(['bot.xml', '--ticks', 'ticks.csv', '--endpoint', 'ws://x'])).toThrow(
+            'not used with --ticks'
+        );
+        expect(() => parseRunnerArgs(['bot.xml', '--token'])).toThrow('--token needs a value');
+        expect(() => parseRunnerArgs(['bot.xml', '--paper', '--verbose'])).toThrow('Unknown option --verbose');
+        expect(() => parseRunnerArgs(['bot.xml', '--paper', '--balance', '-5'])).toThrow('positive number');
+    });
+});
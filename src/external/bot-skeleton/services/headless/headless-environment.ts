@@ -0,0 +1,38 @@
+import { JSDOM } from 'jsdom';
+
+const HEADLESS_URL = 'https://localhost/';
+const APPROX_CHAR_WIDTH = 8;
+
+/**
+ * Gives Node the browser globals the bot engine and Blockly's code generators expect.
+ * The engine itself only needs `window`, `localStorage` and `WebSocket`, but the shared
+ * modules it imports touch the DOM while they load. Does nothing in a browser.
+ */
+export const setupHeadlessEnvironment = () => {
+    if (typeof window !== 'undefined') return;
+
+    const { window: dom_window } = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
+        url: HEADLESS_URL,
+        pretendToBeVisual: true,
+    });
+    const global_scope = globalThis as Record<string, unknown>;
+
+    // Converting old strategies renders blocks, and Blockly sizes their labels on a canvas,
+    // which jsdom doesn't implement. The sizes don't affect the generated code.
+    dom_window.HTMLCanvasElement.prototype.getContext = (() => ({
+        font: '',
+        measureText: (text: string) => ({ width: text.length * APPROX_CHAR_WIDTH }),
+    })) as unknown as HTMLCanvasElement['getContext'];
+
+    Object.getOwnPropertyNames(dom_window)
+        .filter(key => !key.startsWith('_') && !(key in global_scope))
+        .forEach(key => {
+            global_scope[key] = (dom_window as unknown as Record<string, unknown>)[key];
+        });
+    global_scope.window = dom_window;
+    // Some blocks refer to the global `Blockly` instead of `window.Blockly`.
+    Object.defineProperty(globalThis, 'Blockly', {
+        configurable: true,
+        get: () => (dom_window as unknown as Record<string, unknown>).Blockly,
+    });
+};
@@ -0,0 +1,147 @@
+import { getSuccessJournalMessage, TExtra } from '@/utils/download';
+import { BalanceResponse } from '@deriv/api-types';
+import { MessageTypes } from '../../constants/messages';
+import { generateCodeFromXml } from '../../scratch/headless-workspace';
+import { getErrorMessage } from '../../utils/error-message';
+import { observer as globalObserver } from '../../utils/observer';
+import { api_base } from '../api/api-base';
+import { generateDerivApiInstance } from '../api/appId';
+import { TBacktestTrade } from '../backtest/backtest-report';
+import { runBacktest } from '../backtest/backtester';
+import { BACKTEST_LOGINID } from '../backtest/replay-api';
+import { TReplayDataset } from '../backtest/tick-file';
+import PaperTradingApi from '../paper-trading/paper-trading-api';
+import Interpreter from '../tradeEngine/utils/interpreter';
+import { createTradeCollector, getTradeFromContract, TRunReport, TSoldContract } from './run-report';
+
+export type TJournalEntry = {
+    time: string;
+    type: MessageTypes | 'contract';
+    message: string;
+    contract?: TBacktestTrade;
+};
+
+export type THeadlessRunOptions = {
+    xml: string;
+    token?: string;
+    endpoint?: string;
+    app_id?: string;
+    is_paper?: boolean;
+    balance?: number;
+    dataset?: TReplayDataset;
+    signal?: AbortSignal;
+    onJournal: (entry: TJournalEntry) => void;
+};
+
+/**
+ * Writes what the trade engine reports on `observer` to `onJournal`, counting sold
+ * contracts in `trades`. Bots run side by side report on observers of their own.
+ */
+export const registerJournal = (
+    onJournal: THeadlessRunOptions['onJournal'],
+    trades: ReturnType<typeof createTradeCollector>,
+    observer = globalObserver
+) => {
+    const write = (type: TJournalEntry['type'], message: string, contract?: TBacktestTrade) =>
+        onJournal({ time: new Date().toISOString(), type, message, ...(contract ? { contract } : {}) });
+
+    observer.register('ui.log.success', ({ log_type, extra }: { log_type: string; extra: TExtra }) => {
+        const message = getSuccessJournalMessage(log_type, extra);
+        if (message) write(MessageTypes.SUCCESS, String(message));
+    });
+    observer.register('ui.log.notify', ({ message }: { message: string }) =>
+        write(MessageTypes.NOTIFY, String(message))
+    );
+    observer.register('ui.log.error', (error: unknown) => write(MessageTypes.ERROR, getErrorMessage(error)));
+    observer.register('Error', (error: unknown) => write(MessageTypes.ERROR, getErrorMessage(error)));
+    observer.register('bot.contract', (contract: TSoldContract) => {
+        if (!trades.add(contract)) return;
+        const trade = getTradeFromContract(contract);
+        write('contract', `${trade.contract_type} ${trade.is_win ? 'won' : 'lost'} ${trade.profit}`, trade);
+    });
+};
+
+const connect = async ({ token, endpoint, app_id, is_paper, balance }: THeadlessRunOptions) => {
+    if (app_id) localStorage.setItem('config.app_id', app_id);
+
+    api_base.api = generateDerivApiInstance(endpoint);
+
+    if (is_paper) {
+        api_base.setPaperTradingApi(new PaperTradingApi({ initial_balance: balance }));
+    }
+    if (token) {
+        localStorage.setItem('authToken', token);
+        const error = await api_base.authorizeAndSubscribe();
+        if (error || !api_base.is_authorized) {
+            throw new Error(getErrorMessage(error ?? 'Authorization failed'));
+        }
+    }
+    await api_base.getActiveSymbols();
+
+    // Keeps the balance that the engine reads in step with the account.
+    return api_base.api?.onMessage().subscribe(({ data }: { data: BalanceResponse }) => {
+        if (data?.msg_type === 'balance' && data.balance) {
+            api_base.account_info = { ...api_base.account_info, balance: data.balance.balance };
+        }
+    });
+};
+
+const runReplay = async ({ xml, dataset, balance, signal, onJournal }: THeadlessRunOptions): Promise<TRunReport> => {
+    const trades = createTradeCollector();
+    // The trade definition needs an account to generate; runBacktest sets the real one.
+    api_base.account_info = { loginid: BACKTEST_LOGINID, currency: 'USD' };
+    const code = await generateCodeFromXml(xml);
+    const result = await runBacktest({
+        code,
+        dataset: dataset as TReplayDataset,
+        initial_balance: balance,
+        onReady: events => registerJournal(onJournal, trades, events),
+        shouldStop: () => !!signal?.aborted,
+    });
+
+    return { mode: 'replay', ...result };
+};
+
+const runLive = async (options: THeadlessRunOptions): Promise<TRunReport> => {
+    const { xml, is_paper, signal, onJournal } = options;
+    const trades = createTradeCollector();
+    // Connection and authorization errors are reported on the journal too.
+    registerJournal(onJournal, trades);
+    const balance_subscription = await connect(options);
+    const initial_balance = Number((api_base.account_info as { balance?: number }).balance ?? 0);
+    const code = await generateCodeFromXml(xml);
+    const interpreter = Interpreter();
+    let error: string | undefined;
+
+    // The interpreter doesn't settle its promise once stopped, so stopping ends the run instead.
+    const stopped = new Promise<void>(resolve => {
+        const stop = () => interpreter.stop().then(resolve);
+        signal?.addEventListener('abort', stop, { once: true });
+        globalObserver.register('bot.click_stop', stop, true);
+    });
+
+    api_base.setIsRunning(true);
+    try {
+        await Promise.race([interpreter.run(code), stopped]);
+    } catch (e) {
+        const message: string = getErrorMessage(e);
+        error = message;
+        onJournal({ time: new Date().toISOString(), type: MessageTypes.ERROR, message });
+    } finally {
+        api_base.setIsRunning(false);
+        await interpreter.terminateSession();
+        balance_subscription?.unsubscribe();
+        api_base.terminate();
+    }
+
+    return { mode: is_paper ? 'paper' : 'live', ...trades.getReport(initial_balance), error };
+};
+
+/**
+ * Runs a strategy outside the browser: against a live or paper account when `dataset` is
+ * not given, or as a replay of `dataset` otherwise. Journal messages are passed to
+ * `onJournal` as they happen and the run is summarised like a backtest. Expects the globals
+ * set up by `setupHeadlessEnvironment`.
+ */
+export const runHeadlessBot = (options: THeadlessRunOptions): Promise<TRunReport> =>
+    options.dataset ? runReplay(options) : runLive(options);
@@ -0,0 +1,4 @@
+export * from './headless-environment';
+export * from './headless-runner';
+export * from './run-report';
+export * from './runner-args';
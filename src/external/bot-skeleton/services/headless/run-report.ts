@@ -0,0 +1,69 @@
+import { buildBacktestReport, TBacktestReport, TBacktestTrade } from '../backtest/backtest-report';
+
+export type TSoldContract = {
+    contract_id: number;
+    contract_type: string;
+    transaction_ids?: { buy?: number; sell?: number };
+    barrier?: string | number | null;
+    buy_price: number | string;
+    payout?: number | string;
+    sell_price?: number | string;
+    profit: number | string;
+    entry_tick?: number | string;
+    entry_tick_time?: number | string;
+    exit_tick?: number | string;
+    exit_tick_time?: number | string;
+    is_sold?: number | boolean;
+};
+
+export type TRunReport = TBacktestReport & {
+    mode: 'live' | 'paper' | 'replay';
+    symbol?: string;
+    error?: string;
+};
+
+/**
+ * Turns a sold `proposal_open_contract` into a trade record, so that live and paper runs
+ * are summarised the same way as backtests.
+ */
+export const getTradeFromContract = (contract: TSoldContract): TBacktestTrade => {
+    const profit = Number(contract.profit);
+
+    return {
+        contract_id: contract.contract_id,
+        transaction_ids: {
+            buy: contract.transaction_ids?.buy ?? 0,
+            sell: contract.transaction_ids?.sell ?? 0,
+        },
+        contract_type: contract.contract_type,
+        barrier: contract.barrier ?? undefined,
+        buy_price: Number(contract.buy_price),
+        payout: Number(contract.payout ?? 0),
+        sell_price: Number(contract.sell_price ?? 0),
+        profit,
+        is_win: profit > 0,
+        entry_tick: Number(contract.entry_tick ?? 0),
+        entry_tick_time: Number(contract.entry_tick_time ?? 0),
+        exit_tick: Number(contract.exit_tick ?? 0),
+        exit_tick_time: Number(contract.exit_tick_time ?? 0),
+    };
+};
+
+/**
+ * Collects the trades of a run. The engine reports every update of an open contract,
+ * so only the first sold update of each contract is counted.
+ */
+export const createTradeCollector = () => {
+    const trades = new Map<number, TBacktestTrade>();
+
+    return {
+        add(contract: TSoldContract) {
+            if (!contract.is_sold || trades.has(contract.contract_id)) return false;
+            trades.set(contract.contract_id, getTradeFromContract(contract));
+            return true;
+        },
+        getReport(initial_balance: number) {
+            return buildBacktestReport(Array.from(trades.values()), initial_balance);
+        },
+    };
+};
@@ -0,0 +1,104 @@
+export type TRunnerOutput = 'text' | 'json';
+
+export type TRunnerArgs = {
+    bot_file: string;
+    token?: string;
+    endpoint?: string;
+    app_id?: string;
+    is_paper: boolean;
+    balance?: number;
+    ticks_file?: string;
+    symbol?: string;
+    output: TRunnerOutput;
+    max_runtime?: number;
+};
+
+export const RUNNER_USAGE = `Usage: run-bot <bot.xml> [options]
+
+Runs a Bot Builder strategy without a browser and writes its journal to stdout.
+
+Account (one of):
+  --token <token>       API token of the account to trade on (or set DERIV_TOKEN)
+  --paper               Trade on a simulated account, priced on live ticks
+  --ticks <file>        Replay a recorded tick file (CSV or JSON) offline
+
+Options:
+  --balance <amount>    Starting balance of the simulated account
+  --symbol <symbol>     Symbol of the tick file, if the file doesn't say
+  --endpoint <url>      WebSocket URL of the API, e.g. a local mock server
+  --app-id <id>         App id sent to the API
+  --json                Write newline-delimited JSON instead of text
+  --max-runtime <secs>  Stop the bot after this many seconds
+  --help                Show this message`;
+
+const VALUE_OPTIONS = ['--token', '--ticks', '--balance', '--symbol', '--endpoint', '--app-id', '--max-runtime'];
+
+const parsePositiveNumber = (name: string, value: string) => {
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) {
+        throw new Error(`${name} must be a positive number`);
+    }
+    return number;
+};
+
+/**
+ * Parses the command line of the headless runner. Throws with a message meant for the
+ * user when the arguments are incomplete or contradict each other.
+ */
+export const parseRunnerArgs = (argv: string[], env: Record<string, string | undefined> = {}): TRunnerArgs => {
+    const values: Record<string, string> = {};
+    const flags = new Set<string>();
+    const positionals: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (VALUE_OPTIONS.includes(arg)) {
+            const value = argv[i + 1];
+            if (value === undefined || value.startsWith('--')) {
+                throw new Error(`${arg} needs a value`);
+            }
+            values[arg] = value;
+            i++;
+        } else if (arg === '--paper' || arg === '--json') {
+            flags.add(arg);
+        } else if (arg.startsWith('--')) {
+            throw new Error(`Unknown option ${arg}`);
+        } else {
+            positionals.push(arg);
+        }
+    }
+
+    if (positionals.length !== 1) {
+        throw new Error('Give exactly one bot XML file');
+    }
+
+    const token = values['--token'] ?? env.DERIV_TOKEN;
+    const is_paper = flags.has('--paper');
+    const ticks_file = values['--ticks'];
+    const accounts = [is_paper, !!ticks_file, !!values['--token']].filter(Boolean).length;
+
+    if (accounts > 1) {
+        throw new Error('Use only one of --token, --paper and --ticks');
+    }
+    if (!token && !is_paper && !ticks_file) {
+        throw new Error('Give an API token, --paper or --ticks');
+    }
+    if (ticks_file && values['--endpoint']) {
+        throw new Error('--endpoint is not used with --ticks');
+    }
+
+    return {
+        bot_file: positionals[0],
+        token: is_paper || ticks_file ? undefined : token,
+        endpoint: values['--endpoint'],
+        app_id: values['--app-id'],
+        is_paper,
+        balance: values['--balance'] ? parsePositiveNumber('--balance', values['--balance']) : undefined,
+        ticks_file,
+        symbol: values['--symbol'],
+        output: flags.has('--json') ? 'json' : 'text',
+        max_runtime: values['--max-runtime']
+            ? parsePositiveNumber('--max-runtime', values['--max-runtime'])
+            : undefined,
+    };
+};
@@ -0,0 +1,142 @@
+import { TReplayTick } from '../../backtest/tick-file';
+import MarketDataHub, { TMarketStats, TTickSource } from '../market-data-hub';
+import TickRingBuffer from '../tick-ring-buffer';
+
+type TCallback = (ticks: TReplayTick[]) => void;
+
+const createSource = () => {
+    const callbacks = new Map<string, { symbol: string; callback: TCallback }>();
+    let count = 0;
+    const source = {
+        monitor: jest.fn(async ({ symbol, callback }: { symbol: string; callback: TCallback }) => {
+            const key = `key-${++count}`;
+            callbacks.set(key, { symbol, callback });
+            return key;
+        }),
+        stopMonitor: jest.fn(({ key }: { symbol: string; key: string }) => callbacks.delete(key)),
+    };
+    const emit = (symbol: string, ticks: TReplayTick[]) =>
+        callbacks.forEach(item => item.symbol === symbol && item.callback(ticks));
+
+    return { source: source as TTickSource & typeof source, emit };
+};
+
+const toTicks = (quotes: number[], first_epoch = 1) =>
+    quotes.map((quote, index) => ({ epoch: first_epoch + index, quote }));
+
+const flush = () => new Promise(resolve => setTimeout(resolve));
+
+describe('TickRingBuffer', () => {
+    it('should keep the newest ticks in order once full', () => {
+        const buffer = new TickRingBuffer(3);
+        toTicks([1, 2, 3, 4, 5]).forEach(tick => buffer.push(tick));
+
+        expect(buffer.size).toBe(3);
+        expect(buffer.toArray().map(({ quote }) => quote)).toEqual([3, 4, 5]);
+        expect(buffer.last).toEqual({ epoch: 5, quote: 5 });
+    });
+});
+
+describe('MarketDataHub', () => {
+    it('should stream a symbol once for all its subscribers', async () => {
+        const { source } = createSource();
+        const hub = new MarketDataHub();
+        hub.setSource(source);
+
+        const unsubscribe_first = hub.subscribe('R_100', jest.fn());
+        const unsubscribe_second = hub.subscribe('R_100', jest.fn());
+        hub.subscribe('R_50', jest.fn());
+
+        expect(source.monitor).toHaveBeenCalledTimes(2);
+
+        unsubscribe_first();
+        unsubscribe_first();
+        await flush();
+        expect(source.stopMonitor).not.toHaveBeenCalled();
+
+        unsubscribe_second();
+        await flush();
+        expect(source.stopMonitor).toHaveBeenCalledWith({ symbol: 'R_100', key: 'key-1' });
+    });
+
+    it('should give every subscriber the same digits read with the pip size of the symbol', async () => {
+        const { source, emit } = createSource();
+        const hub = new MarketDataHub({ getPipSize: symbol => (symbol === 'R_100' ? 2 : undefined) });
+        hub.setSource(source);
+        const listener = jest.fn();
+        hub.subscribe('R_100', listener);
+        await flush();
+
+        emit('R_100', toTicks([1234.5, 1234.51, 1234]));
+
+        expect(listener).toHaveBeenCalledWith(
+            expect.objectContaining({ pip_size: 2, quote: '1234.00', last_digit: 0, digits: [0, 1, 0], epoch: 3 })
+        );
+
+        const other_listener = jest.fn();
+        hub.subscribe('R_10', other_listener);
+        await flush();
+        emit('R_10', toTicks([6.5, 6.125]));
+
+        expect(other_listener).toHaveBeenCalledWith(expect.objectContaining({ pip_size: 3, digits: [0, 5] }));
+    });
+
+    it('should only buffer new ticks and share the buffer with late subscribers', async () => {
+        const { source, emit } = createSource();
+        const stats: Record<string, TMarketStats | null> = {};
+        const hub = new MarketDataHub({
+            capacity: 3,
+            getPipSize: () => 1,
+            onStatsChange: (symbol, symbol_stats) => (stats[symbol] = symbol_stats),
+        });
+        hub.setSource(source);
+        const unsubscribe = hub.subscribe('R_100', jest.fn());
+        await flush();
+
+        emit('R_100', toTicks([1.1, 1.2, 1.3]));
+        emit('R_100', toTicks([1.2, 1.3, 1.4], 2));
+        emit('R_100', toTicks([1.2, 1.3, 1.4], 2));
+
+        const late_listener = jest.fn();
+        const unsubscribe_late = hub.subscribe('R_100', late_listener);
+
+        expect(late_listener).toHaveBeenCalledTimes(1);
+        expect(late_listener.mock.calls[0][0].digits).toEqual([2, 3, 4]);
+        expect(stats.R_100).toEqual({
+            symbol: 'R_100',
+            pip_size: 1,
+            subscribers: 2,
+            tick_count: 4,
+            buffered: 3,
+            epoch: 4,
+            quote: '1.4',
+            last_digit: 4,
+        });
+
+        unsubscribe();
+        unsubscribe_late();
+        expect(stats.R_100).toBeNull();
+        expect(hub.getSnapshot('R_100')).toBeNull();
+    });
+
+    it('should move the streamed symbols to a new source', async () => {
+        const first = createSource();
+        const second = createSource();
+        const hub = new MarketDataHub({ getPipSize: () => 2 });
+        const listener = jest.fn();
+
+        hub.subscribe('R_100', listener);
+        expect(first.source.monitor).not.toHaveBeenCalled();
+
+        hub.setSource(first.source);
+        await flush();
+        hub.setSource(second.source);
+        await flush();
+
+        expect(first.source.stopMonitor).toHaveBeenCalledWith({ symbol: 'R_100', key: 'key-1' });
+        expect(second.source.monitor).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'R_100' }));
+
+        second.emit('R_100', toTicks([10.25]));
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ quote: '10.25', last_digit: 5 }));
+    });
+});
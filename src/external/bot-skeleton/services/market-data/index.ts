@@ -0,0 +1,9 @@
+export type {
+    TMarketDataHubOptions,
+    TMarketDataListener,
+    TMarketSnapshot,
+    TMarketStats,
+    TTickSource,
+} from './market-data-hub';
+export { MARKET_DATA_BUFFER_SIZE, default as MarketDataHub } from './market-data-hub';
+export { default as TickRingBuffer } from './tick-ring-buffer';
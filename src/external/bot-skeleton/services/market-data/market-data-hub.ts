@@ -0,0 +1,192 @@
+import { getLastDigitOfQuote } from '../backtest/contract-simulator';
+import { TReplayTick } from '../backtest/tick-file';
+import { getPipSizeOfQuotes } from '../tick-history/tick-history-utils';
+import TickRingBuffer from './tick-ring-buffer';
+
+/** What the hub streams from, the ticks service of the app connection implements it. */
+export type TTickSource = {
+    monitor: (options: { symbol: string; callback: (ticks: TReplayTick[]) => void }) => Promise<string>;
+    stopMonitor: (options: { symbol: string; key: string }) => unknown;
+};
+
+export type TMarketSnapshot = {
+    symbol: string;
+    pip_size: number;
+    epoch: number;
+    /** The latest quote with as many decimals as the pip size of the symbol. */
+    quote: string;
+    last_digit: number;
+    /** The buffered ticks and their last digits, from the oldest to the newest one. */
+    ticks: TReplayTick[];
+    digits: number[];
+};
+
+export type TMarketStats = {
+    symbol: string;
+    pip_size: number;
+    subscribers: number;
+    /** Ticks received since the symbol was first subscribed to, its history included. */
+    tick_count: number;
+    buffered: number;
+    epoch: number;
+    quote: string;
+    last_digit: number | null;
+};
+
+export type TMarketDataListener = (snapshot: TMarketSnapshot) => void;
+
+export type TMarketDataHubOptions = {
+    capacity?: number;
+    /** The pip size of a symbol if it is known, otherwise it is read from the quotes. */
+    getPipSize?: (symbol: string) => number | undefined;
+    /** Called with the stats of a symbol on every change, and with `null` once it is unsubscribed. */
+    onStatsChange?: (symbol: string, stats: TMarketStats | null) => void;
+};
+
+type TMarketFeed = {
+    buffer: TickRingBuffer;
+    listeners: Set<TMarketDataListener>;
+    monitor_key: Promise<string | null> | null;
+    tick_count: number;
+    snapshot: TMarketSnapshot | null;
+};
+
+export const MARKET_DATA_BUFFER_SIZE = 1000;
+
+/**
+ * Streams every symbol the app shows once, however many pages read it. Subscriptions are
+ * counted per symbol: the first one starts the stream and the last one to leave stops it.
+ * Ticks are kept in a ring buffer per symbol and their last digits always use the pip size
+ * of the symbol, so every page sees the same digits.
+ */
+export default class MarketDataHub {
+    source: TTickSource | null = null;
+    feeds = new Map<string, TMarketFeed>();
+    capacity: number;
+    getPipSize: (symbol: string) => number | undefined;
+    onStatsChange: (symbol: string, stats: TMarketStats | null) => void;
+
+    constructor({
+        capacity = MARKET_DATA_BUFFER_SIZE,
+        getPipSize = () => undefined,
+        onStatsChange = () => undefined,
+    }: TMarketDataHubOptions = {}) {
+        this.capacity = capacity;
+        this.getPipSize = getPipSize;
+        this.onStatsChange = onStatsChange;
+    }
+
+    /** Moves the streamed symbols to another source, e.g. after the connection was renewed. */
+    setSource(source: TTickSource | null) {
+        if (source === this.source) return;
+
+        this.feeds.forEach((feed, symbol) => this.stopFeed(symbol, feed));
+        this.source = source;
+        this.feeds.forEach((feed, symbol) => this.startFeed(symbol, feed));
+    }
+
+    /**
+     * Calls the listener with a snapshot of the symbol on every tick, and straight away when
+     * ticks of the symbol are buffered already. Returns the function that unsubscribes it.
+     */
+    subscribe(symbol: string, listener: TMarketDataListener) {
+        let feed = this.feeds.get(symbol);
+        if (!feed) {
+            feed = {
+                buffer: new TickRingBuffer(this.capacity),
+                listeners: new Set(),
+                monitor_key: null,
+                tick_count: 0,
+                snapshot: null,
+            };
+            this.feeds.set(symbol, feed);
+            this.startFeed(symbol, feed);
+        }
+
+        const subscribed_feed = feed;
+        subscribed_feed.listeners.add(listener);
+        this.onStatsChange(symbol, this.getStats(symbol));
+        if (subscribed_feed.snapshot) listener(subscribed_feed.snapshot);
+
+        return () => {
+            if (this.feeds.get(symbol) !== subscribed_feed || !subscribed_feed.listeners.delete(listener)) return;
+            if (!subscribed_feed.listeners.size) {
+                this.stopFeed(symbol, subscribed_feed);
+                this.feeds.delete(symbol);
+            }
+            this.onStatsChange(symbol, this.getStats(symbol));
+        };
+    }
+
+    getSnapshot(symbol: string) {
+        return this.feeds.get(symbol)?.snapshot ?? null;
+    }
+
+    getStats(symbol: string): TMarketStats | null {
+        const feed = this.feeds.get(symbol);
+        if (!feed) return null;
+
+        return {
+            symbol,
+            pip_size: feed.snapshot?.pip_size ?? this.getPipSize(symbol) ?? 0,
+            subscribers: feed.listeners.size,
+            tick_count: feed.tick_count,
+            buffered: feed.buffer.size,
+            epoch: feed.snapshot?.epoch ?? 0,
+            quote: feed.snapshot?.quote ?? '',
+            last_digit: feed.snapshot?.last_digit ?? null,
+        };
+    }
+
+    startFeed(symbol: string, feed: TMarketFeed) {
+        if (!this.source) return;
+
+        const monitor_key: Promise<string | null> = this.source
+            .monitor({
+                symbol,
+                callback: ticks => {
+                    // A stopped stream can still call back until the source has removed it.
+                    if (feed.monitor_key === monitor_key) this.addTicks(symbol, feed, ticks);
+                },
+            })
+            .catch(() => null);
+        feed.monitor_key = monitor_key;
+    }
+
+    stopFeed(symbol: string, feed: TMarketFeed) {
+        const { monitor_key } = feed;
+        const { source } = this;
+        feed.monitor_key = null;
+        monitor_key?.then(key => {
+            if (key) source?.stopMonitor({ symbol, key });
+        });
+    }
+
+    /** Buffers the ticks newer than the last buffered one, sources pass their whole window. */
+    addTicks(symbol: string, feed: TMarketFeed, ticks: TReplayTick[]) {
+        const last_epoch = feed.buffer.last?.epoch ?? -Infinity;
+        const new_ticks = ticks.filter(({ epoch }) => +epoch > last_epoch);
+        if (!new_ticks.length) return;
+
+        new_ticks.forEach(({ epoch, quote }) => feed.buffer.push({ epoch: +epoch, quote: +quote }));
+        feed.tick_count += new_ticks.length;
+
+        const buffered = feed.buffer.toArray();
+        const pip_size = this.getPipSize(symbol) ?? getPipSizeOfQuotes(buffered.map(({ quote }) => quote));
+        const digits = buffered.map(({ quote }) => getLastDigitOfQuote(quote, pip_size));
+        const { epoch, quote } = buffered[buffered.length - 1];
+        const snapshot: TMarketSnapshot = {
+            symbol,
+            pip_size,
+            epoch,
+            quote: quote.toFixed(pip_size),
+            last_digit: digits[digits.length - 1],
+            ticks: buffered,
+            digits,
+        };
+
+        feed.snapshot = snapshot;
+        feed.listeners.forEach(listener => listener(snapshot));
+        this.onStatsChange(symbol, this.getStats(symbol));
+    }
+}
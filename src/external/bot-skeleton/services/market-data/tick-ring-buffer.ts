@@ -0,0 +1,37 @@
+import { TReplayTick } from '../backtest/tick-file';
+
+/**
+ * Keeps the most recent ticks of a symbol up to a fixed capacity. Once full, every new
+ * tick overwrites the oldest one, so streaming never grows or shifts the underlying array.
+ */
+export default class TickRingBuffer {
+    capacity: number;
+    items: TReplayTick[] = [];
+    start = 0;
+
+    constructor(capacity: number) {
+        this.capacity = Math.max(1, capacity);
+    }
+
+    get size() {
+        return this.items.length;
+    }
+
+    get last(): TReplayTick | undefined {
+        return this.size ? this.items[(this.start + this.size - 1) % this.size] : undefined;
+    }
+
+    push(tick: TReplayTick) {
+        if (this.size < this.capacity) {
+            this.items.push(tick);
+            return;
+        }
+        this.items[this.start] = tick;
+        this.start = (this.start + 1) % this.capacity;
+    }
+
+    /** Returns the buffered ticks from the oldest to the newest one. */
+    toArray() {
+        return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+    }
+}
@@ -0,0 +1,88 @@
+import { MessageTypes } from '../../../constants/messages';
+import {
+    addJournalEntry,
+    createActiveBot,
+    getCombinedStatistics,
+    isBotActive,
+    MAX_JOURNAL_ENTRIES,
+    TActiveBot,
+} from '../active-bots';
+
+const createBot = (details: Partial<TActiveBot> = {}): TActiveBot => ({
+    ...createActiveBot({ id: 'bot-1', strategy_id: 'strategy-1', name: 'Martingale', symbol: 'R_100' }, 1000),
+    ...details,
+});
+
+const createTradeEntry = (profit: number) => ({
+    time: '2024-01-05T10:00:00.000Z',
+    type: 'contract' as const,
+    message: `CALL ${profit > 0 ? 'won' : 'lost'} ${profit}`,
+    contract: {
+        contract_id: 1,
+        transaction_ids: { buy: 1, sell: 2 },
+        contract_type: 'CALL',
+        buy_price: 10,
+        payout: 19.5,
+        sell_price: profit > 0 ? 19.5 : 0,
+        profit,
+        is_win: profit > 0,
+        entry_tick: 100,
+        entry_tick_time: 1,
+        exit_tick: 101,
+        exit_tick_time: 2,
+    },
+});
+
+describe('active-bots', () => {
+    it('should start bots without journal entries or statistics', () => {
+        const bot = createBot();
+
+        expect(bot).toEqual(
+            expect.objectContaining({ status: 'starting', started_at: 1000, journal: [], symbol: 'R_100' })
+        );
+        expect(bot.statistics.number_of_runs).toBe(0);
+        expect(isBotActive(bot)).toBe(true);
+        expect(isBotActive({ status: 'stopping' })).toBe(true);
+        expect(isBotActive({ status: 'stopped' })).toBe(false);
+        expect(isBotActive({ status: 'error' })).toBe(false);
+    });
+
+    it('should count the contracts in the journal of a bot', () => {
+        const bot = [createTradeEntry(9.5), createTradeEntry(-10)].reduce(addJournalEntry, createBot());
+
+        expect(bot.statistics).toEqual({
+            number_of_runs: 2,
+            won_contracts: 1,
+            lost_contracts: 1,
+            total_stake: 20,
+            total_payout: 19.5,
+            total_profit: -0.5,
+        });
+        expect(bot.journal[0].message).toBe('CALL lost -10');
+    });
+
+    it('should only keep the latest journal entries', () => {
+        let bot = createBot();
+        for (let index = 1; index <= MAX_JOURNAL_ENTRIES + 5; index++) {
+            bot = addJournalEntry(bot, {
+                time: '2024-01-05T10:00:00.000Z',
+                type: MessageTypes.NOTIFY,
+                message: `${index}`,
+            });
+        }
+
+        expect(bot.journal).toHaveLength(MAX_JOURNAL_ENTRIES);
+        expect(bot.journal[0].message).toBe(`${MAX_JOURNAL_ENTRIES + 5}`);
+        expect(bot.statistics.number_of_runs).toBe(0);
+    });
+
+    it('should add up the statistics of bots on the same account', () => {
+        const first = addJournalEntry(createBot(), createTradeEntry(9.5));
+        const second = addJournalEntry(createBot({ id: 'bot-2', status: 'stopped' }), createTradeEntry(-10));
+
+        expect(getCombinedStatistics([first, second])).toEqual(
+            expect.objectContaining({ number_of_runs: 2, won_contracts: 1, lost_contracts: 1, total_profit: -0.5 })
+        );
+        expect(getCombinedStatistics([]).total_profit).toBe(0);
+    });
+});
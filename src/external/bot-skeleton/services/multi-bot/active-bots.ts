@@ -0,0 +1,85 @@
+import type { TJournalEntry } from '../headless/headless-runner';
+
+export type TActiveBotStatus = 'starting' | 'running' | 'stopping' | 'stopped' | 'error';
+
+export type TBotStatistics = {
+    number_of_runs: number;
+    won_contracts: number;
+    lost_contracts: number;
+    total_stake: number;
+    total_payout: number;
+    total_profit: number;
+};
+
+export type TActiveBot = {
+    id: string;
+    strategy_id: string;
+    name: string;
+    symbol: string;
+    status: TActiveBotStatus;
+    started_at: number;
+    stopped_at?: number;
+    error?: string;
+    /** The latest journal entries of the bot, newest first. */
+    journal: TJournalEntry[];
+    statistics: TBotStatistics;
+};
+
+// Only the latest journal entries of each bot are kept.
+export const MAX_JOURNAL_ENTRIES = 100;
+
+export const createStatistics = (): TBotStatistics => ({
+    number_of_runs: 0,
+    won_contracts: 0,
+    lost_contracts: 0,
+    total_stake: 0,
+    total_payout: 0,
+    total_profit: 0,
+});
+
+export const createActiveBot = (
+    details: Pick<TActiveBot, 'id' | 'strategy_id' | 'name' | 'symbol'>,
+    now: number
+): TActiveBot => ({
+    ...details,
+    status: 'starting',
+    started_at: now,
+    journal: [],
+    statistics: createStatistics(),
+});
+
+/** Tells whether a bot still runs, or is about to. */
+export const isBotActive = ({ status }: Pick<TActiveBot, 'status'>) =>
+    status === 'starting' || status === 'running' || status === 'stopping';
+
+type TJournalTrade = NonNullable<TJournalEntry['contract']>;
+
+const addTrade = (statistics: TBotStatistics, { buy_price, sell_price, profit, is_win }: TJournalTrade) => ({
+    number_of_runs: statistics.number_of_runs + 1,
+    won_contracts: statistics.won_contracts + (is_win ? 1 : 0),
+    lost_contracts: statistics.lost_contracts + (is_win ? 0 : 1),
+    total_stake: statistics.total_stake + buy_price,
+    total_payout: statistics.total_payout + sell_price,
+    total_profit: statistics.total_profit + profit,
+});
+
+/** Adds a journal entry to a bot, counting the contract it settled in its statistics. */
+export const addJournalEntry = (bot: TActiveBot, entry: TJournalEntry): TActiveBot => ({
+    ...bot,
+    journal: [entry, ...bot.journal].slice(0, MAX_JOURNAL_ENTRIES),
+    statistics: entry.contract ? addTrade(bot.statistics, entry.contract) : bot.statistics,
+});
+
+/** Adds up the statistics of bots that trade on the same account. */
+export const getCombinedStatistics = (bots: TActiveBot[]) =>
+    bots.reduce(
+        (combined, { statistics }) => ({
+            number_of_runs: combined.number_of_runs + statistics.number_of_runs,
+            won_contracts: combined.won_contracts + statistics.won_contracts,
+            lost_contracts: combined.lost_contracts + statistics.lost_contracts,
+            total_stake: combined.total_stake + statistics.total_stake,
+            total_payout: combined.total_payout + statistics.total_payout,
+            total_profit: combined.total_profit + statistics.total_profit,
+        }),
+        createStatistics()
+    );
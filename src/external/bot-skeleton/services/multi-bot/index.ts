@@ -0,0 +1,3 @@
+export * from './active-bots';
+export * from './multi-bot-runner';
+export { default as MultiBotRunner } from './multi-bot-runner';
@@ -0,0 +1,152 @@
+import { MessageTypes } from '../../constants/messages';
+import { generateCodeFromXml } from '../../scratch/headless-workspace';
+import { getErrorMessage } from '../../utils/error-message';
+import Observer from '../../utils/observer';
+import { api_base } from '../api/api-base';
+import TicksService from '../api/ticks_service';
+import { registerJournal, TJournalEntry } from '../headless/headless-runner';
+import { createTradeCollector } from '../headless/run-report';
+import { getStrategySymbol } from '../scheduler/schedule-windows';
+import Interpreter from '../tradeEngine/utils/interpreter';
+import { addJournalEntry, createActiveBot, isBotActive, TActiveBot } from './active-bots';
+
+export type TBotStrategy = { id: string; name: string; xml: string };
+
+type TInterpreter = ReturnType<typeof Interpreter>;
+type TListener = (bots: TActiveBot[]) => void;
+
+/**
+ * Generates the code of a strategy in a workspace of its own. The Bot Builder workspace and
+ * its variable names are put back afterwards, since generating replaces them.
+ */
+const generateStrategyCode = async (xml: string) => {
+    const main_workspace = window.Blockly?.derivWorkspace;
+    const variable_db = window.Blockly?.JavaScript?.variableDB_;
+    try {
+        const code: string = await generateCodeFromXml(xml);
+        return { code, workspace: window.Blockly.derivWorkspace };
+    } finally {
+        if (main_workspace) {
+            window.Blockly.derivWorkspace = main_workspace;
+            window.Blockly.JavaScript.variableDB_ = variable_db;
+        }
+    }
+};
+
+/**
+ * Runs saved strategies side by side. Each bot has its own interpreter and trade engine, and
+ * reports on an observer of its own, so it keeps its own journal and statistics. The bots
+ * share the ticks they watch and the account they trade on.
+ */
+export default class MultiBotRunner {
+    bots: TActiveBot[] = [];
+    interpreters = new Map<string, TInterpreter>();
+    listeners = new Set<TListener>();
+    ticks_service: TicksService | null = null;
+    count = 0;
+
+    getBots(): TActiveBot[] {
+        return this.bots.map(bot => ({ ...bot, journal: [...bot.journal], statistics: { ...bot.statistics } }));
+    }
+
+    get has_active_bots() {
+        return this.bots.some(isBotActive);
+    }
+
+    subscribe(listener: TListener) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    notify() {
+        this.listeners.forEach(listener => listener(this.getBots()));
+    }
+
+    updateBot(bot_id: string, update: (bot: TActiveBot) => TActiveBot) {
+        this.bots = this.bots.map(bot => (bot.id === bot_id ? update(bot) : bot));
+        this.notify();
+    }
+
+    /** Starts a strategy next to the bots that already run, and returns the id of its bot. */
+    async start(strategy: TBotStrategy, now = Date.now()) {
+        const bot = createActiveBot(
+            {
+                id: `bot-${now}-${++this.count}`,
+                strategy_id: strategy.id,
+                name: strategy.name,
+                symbol: getStrategySymbol(strategy.xml),
+            },
+            now
+        );
+        this.bots = [...this.bots, bot];
+        this.notify();
+
+        const events = new Observer();
+        registerJournal(
+            entry => this.updateBot(bot.id, item => addJournalEntry(item, entry)),
+            createTradeCollector(),
+            events
+        );
+        // Errors the bot can't recover from stop it, as in Bot Builder.
+        events.register('bot.click_stop', () => this.stop(bot.id));
+
+        try {
+            const { code, workspace } = await generateStrategyCode(strategy.xml);
+            // Stopped while its code was generated.
+            if (!this.bots.some(({ id, status }) => id === bot.id && status === 'starting')) return bot.id;
+
+            this.ticks_service ??= new TicksService();
+            const interpreter = Interpreter({ bot_id: bot.id, events, ticksService: this.ticks_service, workspace });
+            this.interpreters.set(bot.id, interpreter);
+            api_base.setIsRunning(true, bot.id);
+            this.updateBot(bot.id, item => ({ ...item, status: 'running' }));
+
+            interpreter.run(code).then(
+                () => this.stop(bot.id),
+                (error: unknown) => this.stop(bot.id, getErrorMessage(error))
+            );
+        } catch (error) {
+            await this.stop(bot.id, getErrorMessage(error));
+        }
+        return bot.id;
+    }
+
+    /** Stops a bot. Its open contract, if any, is settled first, as in Bot Builder. */
+    async stop(bot_id: string, error?: string) {
+        const bot = this.bots.find(({ id }) => id === bot_id);
+        if (!bot || !isBotActive(bot) || bot.status === 'stopping') return;
+
+        if (error) {
+            const entry: TJournalEntry = { time: new Date().toISOString(), type: MessageTypes.ERROR, message: error };
+            this.updateBot(bot_id, item => addJournalEntry({ ...item, error }, entry));
+        }
+        this.updateBot(bot_id, item => ({ ...item, status: 'stopping' }));
+
+        try {
+            await this.interpreters.get(bot_id)?.stop();
+        } finally {
+            this.interpreters.delete(bot_id);
+            api_base.setIsRunning(false, bot_id);
+            if (!this.interpreters.size) this.ticks_service = null;
+            this.updateBot(bot_id, item => ({
+                ...item,
+                status: item.error ? 'error' : 'stopped',
+                stopped_at: Date.now(),
+            }));
+        }
+    }
+
+    stopAll() {
+        return Promise.all(this.bots.filter(isBotActive).map(({ id }) => this.stop(id)));
+    }
+
+    /** Removes the bots that no longer run from the list. */
+    clearStoppedBots() {
+        this.bots = this.bots.filter(isBotActive);
+        this.notify();
+    }
+}
+
+export const multi_bot_runner = new MultiBotRunner();
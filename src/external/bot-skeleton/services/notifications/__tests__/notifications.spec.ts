@@ -0,0 +1,185 @@
+import { createMockStorage } from '@/utils/mock/mock-storage';
+import {
+    buildChannelRequest,
+    createChannel,
+    getChannelError,
+    renderTemplate,
+    TChannelRequest,
+    TNotification,
+} from '../notification-channels';
+import NotificationDispatcher, {
+    NOTIFICATION_CHANNELS_STORAGE_KEY,
+    NotificationDeliveryError,
+    TNotificationTransport,
+} from '../notification-dispatcher';
+
+const NOTIFICATION: TNotification = {
+    event: 'take_profit',
+    title: 'Martingale stopped',
+    message: 'Take profit reached with "5.00" USD',
+    bot_name: 'Martingale',
+    profit: 5,
+    currency: 'USD',
+    timestamp: 0,
+};
+
+const createTransport = (post: TNotificationTransport['post'] = async () => undefined) => ({
+    post: jest.fn(post),
+    showBrowserNotification: jest.fn(async () => undefined),
+});
+
+describe('notification-channels', () => {
+    it('should build the request each channel expects', () => {
+        expect(
+            buildChannelRequest(createChannel('telegram', { access_token: '123:abc', chat_id: '42' }), NOTIFICATION)
+        ).toEqual({
+            url: 'https://api.telegram.org/bot123:abc/sendMessage',
+            body: { chat_id: '42', text: 'Martingale stopped\nTake profit reached with "5.00" USD' },
+        });
+        expect(
+            buildChannelRequest(createChannel('discord', { url: 'https://discord.test/hook' }), {
+                ...NOTIFICATION,
+                title: '',
+                message: 'x'.repeat(2500),
+            }).body
+        ).toEqual({ content: 'x'.repeat(2000) });
+        expect(buildChannelRequest(createChannel('slack', { url: 'https://slack.test/hook' }), NOTIFICATION)).toEqual({
+            url: 'https://slack.test/hook',
+            body: { text: 'Martingale stopped\nTake profit reached with "5.00" USD' },
+            is_opaque: true,
+        });
+    });
+
+    it('should fill webhook templates with escaped values', () => {
+        const channel = createChannel('webhook', {
+            url: 'https://example.test/hook',
+            template: '{ "summary": "{{ bot_name }}: {{message}}", "extra": "{{ unknown }}" }',
+        });
+
+        expect(buildChannelRequest(channel, NOTIFICATION).body).toEqual({
+            summary: 'Martingale: Take profit reached with "5.00" USD',
+            extra: '',
+        });
+        expect(buildChannelRequest(createChannel('webhook'), NOTIFICATION).body).toMatchObject({
+            event: 'take_profit',
+            profit: '5',
+            timestamp: '1970-01-01T00:00:00.000Z',
+        });
+        expect(() => renderTemplate('{ "text": {{ message }} }', { message: 'hi' })).toThrow('not valid JSON');
+    });
+
+    it('should tell which channels are not set up yet', () => {
+        expect(getChannelError(createChannel('telegram', { access_token: 'token' }))).toBe('MissingTelegramDetails');
+        expect(getChannelError(createChannel('discord', { url: 'http://discord.test' }))).toBe('InvalidUrl');
+        expect(getChannelError(createChannel('webhook', { url: 'https://a.test', template: '{' }))).toBe(
+            'InvalidTemplate'
+        );
+        expect(getChannelError(createChannel('webhook', { url: 'https://a.test' }))).toBeNull();
+        expect(getChannelError(createChannel('browser'))).toBeNull();
+    });
+});
+
+describe('NotificationDispatcher', () => {
+    const sleep = jest.fn(async () => undefined);
+
+    it('should keep channels across page loads', () => {
+        const storage = createMockStorage();
+        const dispatcher = new NotificationDispatcher({ storage });
+        const listener = jest.fn();
+        dispatcher.subscribe(listener);
+
+        const { id } = dispatcher.saveChannel(createChannel('slack', { name: 'Team', url: 'https://slack.test' }));
+        dispatcher.saveChannel({ ...dispatcher.getChannels()[0], name: 'Desk' });
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(new NotificationDispatcher({ storage }).getChannels()).toEqual([
+            expect.objectContaining({ id, name: 'Desk' }),
+        ]);
+
+        dispatcher.removeChannel(id);
+        expect(JSON.parse(storage.getItem(NOTIFICATION_CHANNELS_STORAGE_KEY) ?? '')).toEqual([]);
+    });
+
+    it('should only notify enabled channels that follow the event', async () => {
+        const transport = createTransport();
+        const dispatcher = new NotificationDispatcher({ storage: createMockStorage(), transport, sleep });
+        dispatcher.saveChannel(createChannel('discord', { url: 'https://discord.test/1' }));
+        dispatcher.saveChannel(createChannel('discord', { url: 'https://discord.test/2', events: ['error'] }));
+        dispatcher.saveChannel(createChannel('discord', { url: 'https://discord.test/3', is_enabled: false }));
+        dispatcher.saveChannel(createChannel('discord', { url: '' }));
+        dispatcher.saveChannel(createChannel('browser'));
+
+        const results = await dispatcher.notify(NOTIFICATION);
+
+        expect(results.map(({ error }) => error)).toEqual([null, null]);
+        expect(transport.post.mock.calls.map(([{ url }]: [TChannelRequest]) => url)).toEqual([
+            'https://discord.test/1',
+        ]);
+        expect(transport.showBrowserNotification).toHaveBeenCalledWith(NOTIFICATION);
+    });
+
+    it('should retry failed requests with a growing delay', async () => {
+        const transport = createTransport(
+            jest
+                .fn()
+                .mockRejectedValueOnce(new NotificationDeliveryError('Failed to fetch', true))
+                .mockRejectedValueOnce(new NotificationDeliveryError('Request failed with status 429', true, 429))
+                .mockResolvedValue(undefined)
+        );
+        const dispatcher = new NotificationDispatcher({
+            storage: createMockStorage(),
+            transport,
+            sleep,
+            retry_delay_ms: 100,
+        });
+
+        const result = await dispatcher.send(createChannel('slack', { url: 'https://slack.test' }), NOTIFICATION);
+
+        expect(result).toMatchObject({ attempts: 3, error: null });
+        expect(sleep.mock.calls).toEqual([[100], [200]]);
+    });
+
+    it('should report deliveries that fail for good', async () => {
+        const transport = createTransport(async () => {
+            throw new NotificationDeliveryError('Request failed with status 401', false, 401);
+        });
+        const dispatcher = new NotificationDispatcher({ storage: createMockStorage(), transport, sleep });
+        const onFailure = jest.fn();
+        dispatcher.onFailure(onFailure);
+
+        const result = await dispatcher.send(
+            createChannel('telegram', { access_token: 'a', chat_id: 'b' }),
+            NOTIFICATION
+        );
+
+        expect(result.attempts).toBe(1);
+        expect(onFailure).toHaveBeenCalledWith(result);
+        expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should send queued notifications one at a time and drop the oldest when the queue is full', async () => {
+        const sent: string[] = [];
+        let releaseFirst = () => {};
+        const transport = createTransport(async ({ body }) => {
+            const { text } = body as { text: string };
+            if (!sent.length) await new Promise<void>(resolve => (releaseFirst = resolve));
+            sent.push(text);
+        });
+        const dispatcher = new NotificationDispatcher({
+            storage: createMockStorage(),
+            transport,
+            sleep,
+            max_queue_size: 2,
+        });
+        const channel = createChannel('slack', { url: 'https://slack.test' });
+
+        const deliveries = ['1', '2', '3', '4'].map(message =>
+            dispatcher.send(channel, { ...NOTIFICATION, title: '', message })
+        );
+        releaseFirst();
+        const results = await Promise.all(deliveries);
+
+        expect(sent).toEqual(['1', '3', '4']);
+        expect(results[1].error?.message).toBe('The notification queue is full');
+    });
+});
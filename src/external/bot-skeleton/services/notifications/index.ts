@@ -0,0 +1,4 @@
+export * from './notification-channels';
+export * from './notification-dispatcher';
+export { default as NotificationDispatcher } from './notification-dispatcher';
+export * from './notification-messages';
@@ -0,0 +1,152 @@
+export type TNotificationEvent = 'custom' | 'bot_stopped' | 'take_profit' | 'stop_loss' | 'error';
+
+export type TChannelType = 'telegram' | 'webhook' | 'discord' | 'slack' | 'browser';
+
+export type TNotification = {
+    event: TNotificationEvent;
+    title: string;
+    message: string;
+    source?: string;
+    bot_name?: string;
+    profit?: number;
+    currency?: string;
+    timestamp: number;
+};
+
+export type TNotificationChannel = {
+    id: string;
+    name: string;
+    type: TChannelType;
+    is_enabled: boolean;
+    /** The events sent to the channel. Blocks always send `custom` notifications. */
+    events: TNotificationEvent[];
+    /** The webhook of Discord, Slack and generic webhook channels. */
+    url: string;
+    access_token: string;
+    chat_id: string;
+    /** A JSON payload for generic webhooks, with `{{ placeholders }}` for the notification fields. */
+    template: string;
+};
+
+export type TChannelRequest = {
+    url: string;
+    body: unknown;
+    /**
+     * Slack webhooks don't allow cross-origin requests, so they are sent without reading the
+     * response and can't be retried.
+     */
+    is_opaque?: boolean;
+};
+
+export const NOTIFICATION_EVENTS: TNotificationEvent[] = ['custom', 'bot_stopped', 'take_profit', 'stop_loss', 'error'];
+
+export const CHANNEL_TYPES: TChannelType[] = ['telegram', 'webhook', 'discord', 'slack', 'browser'];
+
+export const DEFAULT_WEBHOOK_TEMPLATE = JSON.stringify(
+    {
+        event: '{{ event }}',
+        title: '{{ title }}',
+        message: '{{ message }}',
+        bot: '{{ bot_name }}',
+        profit: '{{ profit }}',
+        currency: '{{ currency }}',
+        timestamp: '{{ timestamp }}',
+    },
+    null,
+    2
+);
+
+// Discord rejects messages longer than this.
+const DISCORD_MAX_LENGTH = 2000;
+
+export const createChannel = (
+    type: TChannelType,
+    details: Partial<Omit<TNotificationChannel, 'type'>> = {}
+): TNotificationChannel => ({
+    id: '',
+    name: '',
+    is_enabled: true,
+    events: [...NOTIFICATION_EVENTS],
+    url: '',
+    access_token: '',
+    chat_id: '',
+    template: type === 'webhook' ? DEFAULT_WEBHOOK_TEMPLATE : '',
+    ...details,
+    type,
+});
+
+export const getNotificationText = ({ title, message }: TNotification) =>
+    title && message ? `${title}\n${message}` : title || message;
+
+export const getTemplateValues = (notification: TNotification): Record<string, string> => ({
+    event: notification.event,
+    title: notification.title,
+    message: notification.message,
+    text: getNotificationText(notification),
+    source: notification.source ?? '',
+    bot_name: notification.bot_name ?? '',
+    profit: notification.profit === undefined ? '' : String(notification.profit),
+    currency: notification.currency ?? '',
+    timestamp: new Date(notification.timestamp).toISOString(),
+});
+
+/**
+ * Fills the `{{ placeholders }}` of a JSON template. Values are escaped for a JSON string, so
+ * placeholders belong inside quotes, and unknown placeholders are left empty.
+ */
+export const renderTemplate = (template: string, values: Record<string, string>) => {
+    const rendered = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) =>
+        JSON.stringify(values[key] ?? '').slice(1, -1)
+    );
+    try {
+        return JSON.parse(rendered);
+    } catch {
+        throw new Error('The webhook template is not valid JSON');
+    }
+};
+
+/** Returns the reason a channel can't be used yet, or `null` when it is set up. */
+export const getChannelError = (channel: TNotificationChannel) => {
+    switch (channel.type) {
+        case 'telegram':
+            return channel.access_token && channel.chat_id ? null : 'MissingTelegramDetails';
+        case 'webhook':
+            if (!/^https?:\/\//.test(channel.url)) return 'InvalidUrl';
+            try {
+                renderTemplate(channel.template, {});
+                return null;
+            } catch {
+                return 'InvalidTemplate';
+            }
+        case 'discord':
+        case 'slack':
+            return /^https:\/\//.test(channel.url) ? null : 'InvalidUrl';
+        default:
+            return null;
+    }
+};
+
+export type TChannelError = NonNullable<ReturnType<typeof getChannelError>>;
+
+/** Builds the POST request a channel expects. Browser channels don't send requests. */
+export const buildChannelRequest = (channel: TNotificationChannel, notification: TNotification): TChannelRequest => {
+    const text = getNotificationText(notification);
+    switch (channel.type) {
+        case 'telegram':
+            return {
+                url: `https://api.telegram.org/bot${channel.access_token}/sendMessage`,
+                body: { chat_id: channel.chat_id, text },
+            };
+        case 'discord':
+            return { url: channel.url, body: { content: text.slice(0, DISCORD_MAX_LENGTH) } };
+        case 'slack':
+            return { url: channel.url, body: { text }, is_opaque: true };
+        case 'webhook':
+            return {
+                url: channel.url,
+                body: renderTemplate(channel.template || DEFAULT_WEBHOOK_TEMPLATE, getTemplateValues(notification)),
+            };
+        default:
+            throw new Error(`${channel.type} channels don't send requests`);
+    }
+};
@@ -0,0 +1,232 @@
+import { getBrowserStorage, readSettings, TSettingsStorage, writeSettings } from '../../utils/settings-storage';
+import {
+    buildChannelRequest,
+    getChannelError,
+    TChannelRequest,
+    TNotification,
+    TNotificationChannel,
+} from './notification-channels';
+
+export type TNotificationTransport = {
+    post: (request: TChannelRequest) => Promise<void>;
+    showBrowserNotification: (notification: TNotification) => Promise<void>;
+};
+
+export type TDeliveryResult = {
+    channel: TNotificationChannel;
+    notification: TNotification;
+    attempts: number;
+    error: Error | null;
+};
+
+export type TNewNotification = Omit<TNotification, 'timestamp'> & { timestamp?: number };
+
+type TChannelsListener = (channels: TNotificationChannel[]) => void;
+type TFailureListener = (result: TDeliveryResult) => void;
+
+type TDelivery = {
+    channel: TNotificationChannel;
+    notification: TNotification;
+    resolve: (result: TDeliveryResult) => void;
+};
+
+export type TNotificationDispatcherOptions = {
+    storage?: TSettingsStorage;
+    transport?: TNotificationTransport;
+    max_attempts?: number;
+    retry_delay_ms?: number;
+    max_queue_size?: number;
+    now?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+};
+
+export const NOTIFICATION_CHANNELS_STORAGE_KEY = 'dbot_notification_channels';
+
+export class NotificationDeliveryError extends Error {
+    is_retryable: boolean;
+    status?: number;
+
+    constructor(message: string, is_retryable: boolean, status?: number) {
+        super(message);
+        this.name = 'NotificationDeliveryError';
+        this.is_retryable = is_retryable;
+        this.status = status;
+    }
+}
+
+const postJson = async ({ url, body, is_opaque }: TChannelRequest) => {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            mode: is_opaque ? 'no-cors' : 'cors',
+            headers: { 'Content-Type': is_opaque ? 'text/plain' : 'application/json' },
+            body: JSON.stringify(body),
+        });
+    } catch (error) {
+        throw new NotificationDeliveryError((error as Error).message, true);
+    }
+    // The result of opaque requests can't be read, so they count as sent.
+    if (!is_opaque && !response.ok) {
+        const is_retryable = response.status === 429 || response.status >= 500;
+        throw new NotificationDeliveryError(
+            `Request failed with status ${response.status}`,
+            is_retryable,
+            response.status
+        );
+    }
+};
+
+const showBrowserNotification = async ({ title, message }: TNotification) => {
+    if (typeof Notification === 'undefined') {
+        throw new NotificationDeliveryError('This browser does not support notifications', false);
+    }
+    const permission =
+        Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+    if (permission !== 'granted') {
+        throw new NotificationDeliveryError('Notifications are blocked for this site', false);
+    }
+    new Notification(title || message, { body: title ? message : undefined }); // eslint-disable-line no-new
+};
+
+/**
+ * Sends notifications to the channels set up by the user. Deliveries wait in a queue and
+ * are sent one at a time, so a burst of trades can't flood a webhook, and failed requests
+ * are retried with a growing delay before they are reported to the failure listeners.
+ */
+export default class NotificationDispatcher {
+    storage?: TSettingsStorage;
+    transport: TNotificationTransport;
+    max_attempts: number;
+    retry_delay_ms: number;
+    max_queue_size: number;
+    now: () => number;
+    sleep: (ms: number) => Promise<void>;
+    channels: TNotificationChannel[] = [];
+    queue: TDelivery[] = [];
+    processing: Promise<void> | null = null;
+    listeners = new Set<TChannelsListener>();
+    failure_listeners = new Set<TFailureListener>();
+    channel_count = 0;
+
+    constructor({
+        storage = getBrowserStorage(),
+        transport = { post: postJson, showBrowserNotification },
+        max_attempts = 3,
+        retry_delay_ms = 2000,
+        max_queue_size = 50,
+        now = () => Date.now(),
+        sleep = ms => new Promise(resolve => setTimeout(resolve, ms)),
+    }: TNotificationDispatcherOptions = {}) {
+        this.storage = storage;
+        this.transport = transport;
+        this.max_attempts = max_attempts;
+        this.retry_delay_ms = retry_delay_ms;
+        this.max_queue_size = max_queue_size;
+        this.now = now;
+        this.sleep = sleep;
+        this.restore();
+    }
+
+    restore() {
+        const stored = readSettings<TNotificationChannel[]>(this.storage, NOTIFICATION_CHANNELS_STORAGE_KEY);
+        if (Array.isArray(stored)) this.channels = stored;
+    }
+
+    persist() {
+        writeSettings(this.storage, NOTIFICATION_CHANNELS_STORAGE_KEY, this.channels);
+        this.listeners.forEach(listener => listener(this.getChannels()));
+    }
+
+    getChannels() {
+        return this.channels.map(channel => ({ ...channel, events: [...channel.events] }));
+    }
+
+    subscribe(listener: TChannelsListener) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    onFailure(listener: TFailureListener) {
+        this.failure_listeners.add(listener);
+        return () => {
+            this.failure_listeners.delete(listener);
+        };
+    }
+
+    /** Adds a channel, or replaces the channel with the same id. */
+    saveChannel(channel: TNotificationChannel) {
+        const saved = { ...channel, id: channel.id || `${this.now()}-${++this.channel_count}` };
+        const index = this.channels.findIndex(({ id }) => id === saved.id);
+        if (index >= 0) this.channels[index] = saved;
+        else this.channels = [...this.channels, saved];
+        this.persist();
+        return saved;
+    }
+
+    removeChannel(channel_id: string) {
+        this.channels = this.channels.filter(({ id }) => id !== channel_id);
+        this.persist();
+    }
+
+    /** Queues a notification for every enabled channel that follows its event. */
+    notify(notification: TNewNotification) {
+        const channels = this.channels.filter(
+            channel => channel.is_enabled && channel.events.includes(notification.event) && !getChannelError(channel)
+        );
+        return Promise.all(channels.map(channel => this.send(channel, notification)));
+    }
+
+    /** Queues a notification for a single channel, which doesn't have to be saved. */
+    send(channel: TNotificationChannel, { timestamp = this.now(), ...notification }: TNewNotification) {
+        return new Promise<TDeliveryResult>(resolve => {
+            this.queue.push({ channel, notification: { ...notification, timestamp }, resolve });
+            // Keep the newest notifications when the queue overflows, e.g. while offline.
+            this.queue
+                .splice(0, this.queue.length - this.max_queue_size)
+                .forEach(delivery =>
+                    this.finish(delivery, 0, new NotificationDeliveryError('The notification queue is full', false))
+                );
+            this.process();
+        });
+    }
+
+    process() {
+        this.processing ??= (async () => {
+            while (this.queue.length) {
+                await this.deliver(this.queue.shift() as TDelivery);
+            }
+            this.processing = null;
+        })();
+        return this.processing;
+    }
+
+    async deliver(delivery: TDelivery) {
+        const { channel, notification } = delivery;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                if (channel.type === 'browser') await this.transport.showBrowserNotification(notification);
+                else await this.transport.post(buildChannelRequest(channel, notification));
+                this.finish(delivery, attempt, null);
+                return;
+            } catch (error) {
+                const is_retryable = error instanceof NotificationDeliveryError && error.is_retryable;
+                if (!is_retryable || attempt >= this.max_attempts) {
+                    this.finish(delivery, attempt, error as Error);
+                    return;
+                }
+                await this.sleep(this.retry_delay_ms * 2 ** (attempt - 1));
+            }
+        }
+    }
+
+    finish({ channel, notification, resolve }: TDelivery, attempts: number, error: Error | null) {
+        const result = { channel, notification, attempts, error };
+        if (error) this.failure_listeners.forEach(listener => listener(result));
+        resolve(result);
+    }
+}
+
+export const notification_dispatcher = new NotificationDispatcher();
@@ -0,0 +1,49 @@
+import { localize } from '@deriv-com/translations';
+import { TChannelError, TChannelType, TNotificationEvent } from './notification-channels';
+
+export const getChannelTypeName = (type: TChannelType) => {
+    switch (type) {
+        case 'telegram':
+            return localize('Telegram');
+        case 'webhook':
+            return localize('Webhook');
+        case 'discord':
+            return localize('Discord');
+        case 'slack':
+            return localize('Slack');
+        case 'browser':
+            return localize('Browser notification');
+        default:
+            return type;
+    }
+};
+
+export const getNotificationEventName = (event: TNotificationEvent) => {
+    switch (event) {
+        case 'custom':
+            return localize('Notification blocks');
+        case 'bot_stopped':
+            return localize('Bot stopped');
+        case 'take_profit':
+            return localize('Take profit hit');
+        case 'stop_loss':
+            return localize('Stop loss hit');
+        case 'error':
+            return localize('Bot error');
+        default:
+            return event;
+    }
+};
+
+export const getChannelErrorMessage = (error: TChannelError) => {
+    switch (error) {
+        case 'MissingTelegramDetails':
+            return localize('Enter the access token of your Telegram bot and the chat ID.');
+        case 'InvalidUrl':
+            return localize('Enter the URL of the webhook.');
+        case 'InvalidTemplate':
+            return localize('The payload template must be valid JSON.');
+        default:
+            return error;
+    }
+};
@@ -0,0 +1,180 @@
+import { createMockStorage } from '@/utils/mock/mock-storage';
+import {
+    BalanceResponse,
+    BuyContractResponse,
+    PriceProposalOpenContractsResponse,
+    PriceProposalResponse,
+    TransactionsStreamResponse,
+} from '@deriv/api-types';
+import { TSimulatedMessage, TSimulatedRequest, TSimulatedResponse } from '../../backtest/simulated-api';
+import { parseTickFile } from '../../backtest/tick-file';
+import PaperTradingApi, { PAPER_LOGINID, PAPER_TRADING_STORAGE_KEY } from '../paper-trading-api';
+
+const dataset = parseTickFile(
+    ['epoch,quote', '1000,100.10', '1001,100.21', '1002,100.32', '1003,100.43', '1004,100.54', '1005,100.60'].join(
+        '\n'
+    ),
+    { symbol: 'R_100' }
+);
+
+type TApiMessage = BalanceResponse | PriceProposalOpenContractsResponse | TransactionsStreamResponse;
+
+const createUpstream = () => {
+    const listeners = new Set<(message: TSimulatedMessage) => void>();
+    return {
+        requests: [] as TSimulatedRequest[],
+        send(request: TSimulatedRequest) {
+            this.requests.push(request);
+            return Promise.resolve<TSimulatedResponse>({ echo_req: request, msg_type: 'time', time: 1000 });
+        },
+        onMessage: () => ({
+            subscribe: (callback: (message: TSimulatedMessage) => void) => {
+                listeners.add(callback);
+                return { unsubscribe: () => listeners.delete(callback) };
+            },
+        }),
+        emit: (data: TSimulatedResponse) => listeners.forEach(listener => listener({ data })),
+    };
+};
+
+const createApi = () =>
+    new PaperTradingApi({ initial_balance: 100, currency: 'USD', commission: 0.05, storage: createMockStorage() });
+
+const buy_parameters: TSimulatedRequest = {
+    amount: 10,
+    basis: 'stake',
+    contract_type: 'DIGITEVEN',
+    duration: 1,
+    duration_unit: 't',
+};
+
+const getSoldContracts = (messages: TApiMessage[]) =>
+    messages.filter(
+        (message): message is PriceProposalOpenContractsResponse =>
+            message.msg_type === 'proposal_open_contract' && !!message.proposal_open_contract?.is_sold
+    );
+
+describe('PaperTradingApi', () => {
+    it('should answer authorize and balance from the simulated account', async () => {
+        const api = createApi();
+
+        expect(await api.send({ authorize: 'token' })).toMatchObject({
+            authorize: { loginid: PAPER_LOGINID, balance: 100, currency: 'USD' },
+        });
+        expect(await api.send({ balance: 1, subscribe: 1 })).toMatchObject({
+            balance: { balance: 100, currency: 'USD', loginid: PAPER_LOGINID },
+        });
+    });
+
+    it('should price proposals from the payout table and buy them', async () => {
+        const api = createApi();
+        api.loadDataset(dataset, 2);
+
+        const { proposal } = (await api.send({
+            proposal: 1,
+            symbol: 'R_100',
+            ...buy_parameters,
+        })) as PriceProposalResponse;
+        expect(proposal).toMatchObject({ ask_price: 10, payout: 19, spot: 100.21, spot_time: 1001 });
+
+        const { buy } = (await api.send({ buy: proposal?.id, price: 10 })) as BuyContractResponse;
+        expect(buy).toMatchObject({ buy_price: 10, payout: 19, balance_after: 90 });
+        await expect(api.send({ buy: proposal?.id, price: 10 })).rejects.toMatchObject({
+            error: { code: 'InvalidContractProposal' },
+        });
+    });
+
+    it('should settle contracts on recorded ticks only when the replay advances', async () => {
+        const api = createApi();
+        const messages: TApiMessage[] = [];
+        api.onMessage().subscribe(({ data }) => messages.push(data as TApiMessage));
+        api.loadDataset(dataset, 2);
+
+        const { buy } = (await api.send({
+            buy: '1',
+            price: 10,
+            parameters: { symbol: 'R_100', ...buy_parameters },
+        })) as BuyContractResponse;
+        expect(getSoldContracts(messages)).toHaveLength(0);
+
+        expect(api.advance()).toBe(true); // 100.32 ends in an even digit
+        const [sold] = getSoldContracts(messages);
+        expect(sold.proposal_open_contract).toMatchObject({
+            contract_id: buy?.contract_id,
+            entry_tick: 100.32,
+            exit_tick: 100.32,
+            status: 'won',
+            profit: 9,
+        });
+        expect(api.balance).toBe(109);
+        expect(messages).toContainEqual(
+            expect.objectContaining({
+                msg_type: 'transaction',
+                transaction: expect.objectContaining({ action: 'sell', contract_id: buy?.contract_id, amount: 19 }),
+            })
+        );
+        expect(await api.send({ proposal_open_contract: 1, contract_id: buy?.contract_id })).toMatchObject({
+            proposal_open_contract: { is_sold: 1, status: 'won' },
+        });
+    });
+
+    it('should serve the history of the recorded symbol up to the replay cursor', async () => {
+        const api = createApi();
+        api.loadDataset(dataset, 3);
+
+        expect(await api.send({ ticks_history: 'R_100', count: 1000, end: 'latest' })).toMatchObject({
+            history: { times: [1000, 1001, 1002] },
+            pip_size: 2,
+        });
+        await expect(api.send({ ticks_history: 'R_50' })).rejects.toMatchObject({
+            error: { code: 'UnsupportedRequest' },
+        });
+    });
+
+    it('should reject purchases above the balance', async () => {
+        const api = createApi();
+
+        await expect(
+            api.send({ buy: '1', price: 200, parameters: { symbol: 'R_100', ...buy_parameters, amount: 200 } })
+        ).rejects.toMatchObject({ error: { code: 'InsufficientBalance' } });
+        expect(api.balance).toBe(100);
+    });
+
+    it('should pass other requests to the live connection and settle on its ticks', async () => {
+        const api = createApi();
+        const upstream = createUpstream();
+        const messages: TApiMessage[] = [];
+        api.setUpstream(upstream);
+        api.onMessage().subscribe(({ data }) => messages.push(data as TApiMessage));
+
+        await api.send({ time: 1 });
+        expect(upstream.requests).toEqual([{ time: 1 }]);
+
+        await api.send({ buy: '1', price: 10, parameters: { symbol: '1HZ10V', ...buy_parameters } });
+        expect(upstream.requests).toContainEqual({ ticks: '1HZ10V', subscribe: 1 });
+
+        // Messages about the real account never reach the paper account's subscribers.
+        upstream.emit({ msg_type: 'balance', balance: { balance: 5000, currency: 'USD', loginid: 'CR90000000' } });
+        upstream.emit({ msg_type: 'tick', tick: { symbol: '1HZ10V', epoch: 2000, quote: 10.01, pip_size: 2 } });
+
+        expect(messages.some(message => message.msg_type === 'balance' && message.balance?.balance === 5000)).toBe(
+            false
+        );
+        expect(getSoldContracts(messages)[0].proposal_open_contract).toMatchObject({ status: 'lost', profit: -10 });
+        expect(api.balance).toBe(90);
+    });
+
+    it('should keep the balance between sessions until it is reset', async () => {
+        const storage = createMockStorage();
+        const api = new PaperTradingApi({ initial_balance: 100, storage });
+        api.loadDataset(dataset, 2);
+        await api.send({ buy: '1', price: 10, parameters: { symbol: 'R_100', ...buy_parameters } });
+
+        expect(JSON.parse(storage.getItem(PAPER_TRADING_STORAGE_KEY) as string).balance).toBe(90);
+        expect(new PaperTradingApi({ initial_balance: 100, storage }).balance).toBe(90);
+
+        api.resetBalance(500);
+        expect(api.getState()).toMatchObject({ balance: 500, open_contracts: 0 });
+        expect(new PaperTradingApi({ storage }).balance).toBe(500);
+    });
+});
@@ -0,0 +1,6 @@
+import PaperTradingApi from './paper-trading-api';
+
+export * from './paper-trading-api';
+export { default as PaperTradingApi } from './paper-trading-api';
+
+export const paper_trading_api = new PaperTradingApi();
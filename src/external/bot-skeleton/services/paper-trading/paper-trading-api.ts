@@ -0,0 +1,615 @@
+import {
+    Authorize,
+    AuthorizeResponse,
+    ForgetAllResponse,
+    ForgetResponse,
+    ProposalOpenContract,
+    TicksStreamResponse,
+} from '@deriv/api-types';
+import { getBrowserStorage, readSettings, TSettingsStorage, writeSettings } from '../../utils/settings-storage';
+import {
+    DEFAULT_COMMISSION,
+    getDurationInSeconds,
+    getExitTickOffset,
+    isWinningContract,
+    priceContract,
+    roundAmount,
+    TSimulatedContract,
+} from '../backtest/contract-simulator';
+import SimulatedApi, {
+    createApiError,
+    MAX_HISTORY_COUNT,
+    TMessageListener,
+    TSimulatedMessage,
+    TSimulatedRequest,
+    TSimulatedResponse,
+    TSubscription,
+} from '../backtest/simulated-api';
+import { TReplayDataset } from '../backtest/tick-file';
+
+export type TPaperUpstreamApi = {
+    connection?: {
+        readyState: number;
+        addEventListener: (event: string, callback: () => void) => void;
+        removeEventListener: (event: string, callback: () => void) => void;
+    };
+    send: (request: TSimulatedRequest) => Promise<TSimulatedResponse>;
+    onMessage: () => { subscribe: (callback: TMessageListener) => TSubscription };
+    authorize?: (token: string) => Promise<AuthorizeResponse>;
+    disconnect?: () => void;
+    forget?: (id: string) => Promise<ForgetResponse>;
+    forgetAll?: (...types: string[]) => Promise<ForgetAllResponse>;
+};
+
+export type TPaperTick = {
+    symbol: string;
+    epoch: number;
+    quote: number;
+    pip_size: number;
+};
+
+type TPaperContract = TSimulatedContract & {
+    contract_id: number;
+    transaction_id: number;
+    symbol: string;
+    currency: string;
+    buy_price: number;
+    payout: number;
+    purchase_time: number;
+    entry_tick?: TPaperTick;
+    ticks_since_entry: number;
+};
+
+/** What is kept of the account between sessions. */
+type TPaperLedger = { balance: number; currency: string; next_id: number };
+
+export type TPaperTradingOptions = {
+    initial_balance?: number;
+    currency?: string;
+    commission?: number;
+    storage?: TSettingsStorage;
+};
+
+export type TPaperTradingState = {
+    balance: number;
+    currency: string;
+    open_contracts: number;
+    settled_contracts: number;
+    replay_symbol: string | null;
+};
+
+type TReplay = {
+    dataset: TReplayDataset;
+    cursor: number;
+};
+
+export const PAPER_LOGINID = 'PAPER';
+
+export const PAPER_TRADING_STORAGE_KEY = 'dbot_paper_trading';
+
+export const DEFAULT_PAPER_BALANCE = 10000;
+
+// Responses for these come from the simulated account, never from the real one.
+const SIMULATED_MSG_TYPES = [
+    'authorize',
+    'balance',
+    'buy',
+    'proposal',
+    'proposal_open_contract',
+    'sell',
+    'transaction',
+] as const;
+
+const MAX_SETTLED_CONTRACTS = 500;
+
+/**
+ * A simulated account that sits in front of the DerivAPI instance on `api_base.api`. It
+ * prices and settles `proposal` and `buy` requests locally with the backtest payout table
+ * and answers `balance` and `proposal_open_contract` from its own ledger. Ticks come from
+ * the live connection or, when a recorded dataset is loaded, from the recording, which is
+ * only advanced by `advance` so fills are deterministic. Every other request is passed
+ * through to the live connection when there is one.
+ */
+export default class PaperTradingApi extends SimulatedApi {
+    upstream: TPaperUpstreamApi | null = null;
+    balance: number;
+    currency: string;
+    commission: number;
+    storage?: TSettingsStorage;
+
+    protected id_prefix = 'paper';
+
+    private replay: TReplay | null = null;
+    private state_listeners = new Set<(state: TPaperTradingState) => void>();
+    private upstream_subscription: TSubscription | null = null;
+    private proposals = new Map<string, TPaperContract>();
+    private open_contracts = new Map<number, TPaperContract>();
+    private settled_contracts = new Map<number, ProposalOpenContract>();
+    private last_ticks = new Map<string, TPaperTick>();
+    private streamed_symbols = new Set<string>();
+
+    constructor({
+        initial_balance = DEFAULT_PAPER_BALANCE,
+        currency = 'USD',
+        commission = DEFAULT_COMMISSION,
+        storage = getBrowserStorage(),
+    }: TPaperTradingOptions = {}) {
+        super();
+        this.balance = initial_balance;
+        this.currency = currency;
+        this.commission = commission;
+        this.storage = storage;
+        this.restore();
+    }
+
+    restore() {
+        const stored = readSettings<Partial<TPaperLedger>>(this.storage, PAPER_TRADING_STORAGE_KEY);
+        if (!stored) return;
+
+        if (Number.isFinite(stored.balance)) this.balance = Number(stored.balance);
+        if (stored.currency) this.currency = stored.currency;
+        if (Number.isFinite(stored.next_id)) this.next_id = Number(stored.next_id);
+    }
+
+    persist() {
+        const ledger: TPaperLedger = { balance: this.balance, currency: this.currency, next_id: this.next_id };
+        writeSettings(this.storage, PAPER_TRADING_STORAGE_KEY, ledger);
+    }
+
+    getState(): TPaperTradingState {
+        return {
+            balance: this.balance,
+            currency: this.currency,
+            open_contracts: this.open_contracts.size,
+            settled_contracts: this.settled_contracts.size,
+            replay_symbol: this.replay?.dataset.symbol ?? null,
+        };
+    }
+
+    subscribe(listener: (state: TPaperTradingState) => void) {
+        this.state_listeners.add(listener);
+        return () => {
+            this.state_listeners.delete(listener);
+        };
+    }
+
+    getAccountInfo(): Authorize {
+        return {
+            loginid: PAPER_LOGINID,
+            currency: this.currency,
+            balance: this.balance,
+            is_virtual: 1,
+            account_list: [],
+        };
+    }
+
+    /**
+     * Starts over with a fresh balance. Open contracts are dropped without being settled.
+     */
+    resetBalance(balance = DEFAULT_PAPER_BALANCE, currency = this.currency) {
+        this.balance = roundAmount(balance);
+        this.currency = currency;
+        this.proposals.clear();
+        this.open_contracts.clear();
+        this.settled_contracts.clear();
+        this.persist();
+        this.emit(this.getBalance());
+        this.notify();
+    }
+
+    /**
+     * Connects the live API that serves ticks and every request the simulated account
+     * does not answer itself. Returns the paper API so it can be assigned in one go.
+     */
+    setUpstream(upstream: TPaperUpstreamApi | null) {
+        this.upstream_subscription?.unsubscribe();
+        this.upstream_subscription = null;
+        this.streamed_symbols.clear();
+        this.upstream = upstream;
+
+        if (upstream) {
+            this.upstream_subscription = upstream.onMessage().subscribe(message => this.onUpstreamMessage(message));
+        }
+        return this;
+    }
+
+    /**
+     * Serves ticks of the dataset's symbol from the recording instead of the live stream.
+     * The first `warmup_ticks` are available as history straight away.
+     */
+    loadDataset(dataset: TReplayDataset, warmup_ticks = 100) {
+        const cursor = Math.min(Math.max(warmup_ticks, 1), dataset.ticks.length) - 1;
+        this.replay = { dataset, cursor };
+        this.updateLastTick(this.getReplayTick());
+        this.notify();
+    }
+
+    clearDataset() {
+        this.replay = null;
+        this.notify();
+    }
+
+    hasNextTick() {
+        return !!this.replay && this.replay.cursor < this.replay.dataset.ticks.length - 1;
+    }
+
+    /**
+     * Moves the recorded dataset one tick forward and streams the tick to subscribers.
+     */
+    advance() {
+        if (!this.replay || !this.hasNextTick()) return false;
+
+        this.replay.cursor++;
+        const tick = this.getReplayTick() as TPaperTick;
+        this.emit({
+            msg_type: 'tick',
+            tick: {
+                id: 'paper-ticks',
+                symbol: tick.symbol,
+                epoch: tick.epoch,
+                quote: tick.quote,
+                pip_size: tick.pip_size,
+            },
+        });
+        this.onTick(tick);
+        return true;
+    }
+
+    get connection() {
+        return (
+            this.upstream?.connection ?? {
+                readyState: 1,
+                addEventListener: () => undefined,
+                removeEventListener: () => undefined,
+            }
+        );
+    }
+
+    authorize(token: string) {
+        if (this.upstream?.authorize) return this.upstream.authorize(token);
+        return Promise.resolve({ authorize: this.getAccountInfo() });
+    }
+
+    disconnect() {
+        this.upstream?.disconnect?.();
+    }
+
+    send(request: TSimulatedRequest) {
+        if (!this.isSimulatedRequest(request)) {
+            if (!this.upstream) {
+                const [msg_type] = Object.keys(request);
+                return Promise.reject(
+                    createApiError(request, msg_type, 'UnsupportedRequest', `${msg_type} needs a live connection.`)
+                );
+            }
+            return this.upstream.send(request);
+        }
+        return super.send(request);
+    }
+
+    forget(id: string) {
+        return this.upstream?.forget?.(id) ?? Promise.resolve({ forget: 1 });
+    }
+
+    forgetAll(...types: string[]) {
+        return this.upstream?.forgetAll?.(...types) ?? Promise.resolve({ forget_all: [] });
+    }
+
+    private isSimulatedRequest(request: TSimulatedRequest) {
+        // Only tick history is served from a recording, candles still come from the live connection.
+        if (request.ticks_history || request.ticks) {
+            const symbol = request.ticks_history ?? request.ticks;
+            return symbol === this.replay?.dataset.symbol && request.style !== 'candles';
+        }
+        return SIMULATED_MSG_TYPES.some(type => request[type] !== undefined);
+    }
+
+    private notify() {
+        const state = this.getState();
+        this.state_listeners.forEach(listener => listener(state));
+    }
+
+    private onUpstreamMessage(message: TSimulatedMessage) {
+        const { data } = message;
+        if (SIMULATED_MSG_TYPES.some(msg_type => msg_type === data?.msg_type)) return;
+
+        const tick = data?.msg_type === 'tick' ? (data as TicksStreamResponse).tick : undefined;
+        if (tick && tick.symbol !== this.replay?.dataset.symbol) {
+            this.listeners.forEach(listener => listener(message));
+            this.onTick({
+                symbol: String(tick.symbol),
+                epoch: Number(tick.epoch),
+                quote: Number(tick.quote),
+                pip_size: Number(tick.pip_size),
+            });
+            return;
+        }
+        this.listeners.forEach(listener => listener(message));
+    }
+
+    private getReplayTick(): TPaperTick | undefined {
+        if (!this.replay) return undefined;
+
+        const { dataset, cursor } = this.replay;
+        const tick = dataset.ticks[cursor];
+        return tick && { symbol: dataset.symbol, pip_size: dataset.pip_size, ...tick };
+    }
+
+    private updateLastTick(tick?: TPaperTick) {
+        if (tick) this.last_ticks.set(tick.symbol, tick);
+    }
+
+    private onTick(tick: TPaperTick) {
+        this.updateLastTick(tick);
+        this.open_contracts.forEach(contract => {
+            if (contract.symbol === tick.symbol) this.updateContract(contract, tick);
+        });
+    }
+
+    /**
+     * Makes sure the live connection streams ticks of a symbol with an open contract, so
+     * that it settles even when nothing else subscribed to the symbol.
+     */
+    private ensureTickStream(symbol: string) {
+        if (!this.upstream || symbol === this.replay?.dataset.symbol || this.streamed_symbols.has(symbol)) return;
+
+        this.streamed_symbols.add(symbol);
+        this.upstream.send({ ticks: symbol, subscribe: 1 }).catch(() => {
+            // AlreadySubscribed means the ticks are streamed already, anything else is retried on the next buy.
+            this.streamed_symbols.delete(symbol);
+        });
+    }
+
+    protected handleRequest(request: TSimulatedRequest): TSimulatedResponse {
+        if (request.ticks_history || request.ticks) return this.getHistory(request);
+        if (request.proposal) return this.getProposal(request);
+        if (request.buy) return this.buy(request);
+        if (request.proposal_open_contract) return this.getOpenContract(request);
+        if (request.balance) return this.getBalance();
+        if (request.authorize) return { msg_type: 'authorize', authorize: this.getAccountInfo() };
+        if (request.transaction) return { msg_type: 'transaction', transaction: {} };
+
+        throw createApiError(request, 'sell', 'InvalidOfferings', 'Selling before expiry is not simulated.');
+    }
+
+    private getBalance(): TSimulatedResponse {
+        return {
+            msg_type: 'balance',
+            balance: { balance: this.balance, currency: this.currency, loginid: PAPER_LOGINID },
+        };
+    }
+
+    private getHistory(request: TSimulatedRequest): TSimulatedResponse {
+        const { dataset, cursor } = this.replay as TReplay;
+        const count = Math.min(Number(request.count) || MAX_HISTORY_COUNT, MAX_HISTORY_COUNT);
+        const ticks = dataset.ticks.slice(0, cursor + 1).slice(-count);
+
+        if (request.ticks) {
+            const { epoch, quote } = ticks[ticks.length - 1];
+            return { msg_type: 'tick', tick: { id: 'paper-ticks', symbol: dataset.symbol, epoch, quote } };
+        }
+        return {
+            msg_type: 'history',
+            history: { times: ticks.map(({ epoch }) => epoch), prices: ticks.map(({ quote }) => quote) },
+            pip_size: dataset.pip_size,
+            subscription: request.subscribe ? { id: 'paper-ticks' } : undefined,
+        };
+    }
+
+    private createContract(request: TSimulatedRequest, parameters: TSimulatedRequest): TPaperContract {
+        const msg_type = request.proposal ? 'proposal' : 'buy';
+        const symbol = parameters.symbol ?? '';
+        const contract: TSimulatedContract = {
+            contract_type: parameters.contract_type ?? '',
+            amount: Number(parameters.amount),
+            basis: parameters.basis,
+            duration: Number(parameters.duration),
+            duration_unit: parameters.duration_unit ?? '',
+            barrier: parameters.barrier,
+        };
+
+        if (!symbol) throw createApiError(request, msg_type, 'InputValidationFailed', 'A symbol is required.');
+
+        let price;
+        try {
+            price = priceContract(contract, this.commission);
+        } catch (error) {
+            throw createApiError(request, msg_type, 'ContractBuyValidationError', (error as Error).message);
+        }
+
+        return {
+            ...contract,
+            contract_id: 0,
+            transaction_id: 0,
+            symbol,
+            currency: parameters.currency || this.currency,
+            buy_price: price.ask_price,
+            payout: price.payout,
+            purchase_time: this.getTime(symbol),
+            ticks_since_entry: 0,
+        };
+    }
+
+    private getTime(symbol: string) {
+        return this.last_ticks.get(symbol)?.epoch ?? Math.floor(Date.now() / 1000);
+    }
+
+    private getProposal(request: TSimulatedRequest): TSimulatedResponse {
+        const contract = this.createContract(request, request);
+        const id = `paper-proposal-${this.next_id++}`;
+        const tick = this.last_ticks.get(contract.symbol);
+        this.proposals.set(id, contract);
+
+        return {
+            msg_type: 'proposal',
+            passthrough: request.passthrough,
+            proposal: {
+                id,
+                ask_price: contract.buy_price,
+                display_value: contract.buy_price.toFixed(2),
+                payout: contract.payout,
+                // Before the first tick of the symbol arrives there is no spot to quote.
+                spot: tick?.quote ?? 0,
+                spot_time: tick?.epoch ?? contract.purchase_time,
+                date_start: contract.purchase_time,
+                longcode: this.getLongcode(contract),
+            },
+            subscription: request.subscribe ? { id } : undefined,
+        };
+    }
+
+    private buy(request: TSimulatedRequest): TSimulatedResponse {
+        const template = request.parameters
+            ? this.createContract(request, request.parameters)
+            : this.proposals.get(String(request.buy));
+
+        if (!template) {
+            throw createApiError(request, 'buy', 'InvalidContractProposal', 'Proposal has expired.');
+        }
+        if (template.buy_price > this.balance) {
+            throw createApiError(
+                request,
+                'buy',
+                'InsufficientBalance',
+                'Your account balance is insufficient for this trade.'
+            );
+        }
+        this.proposals.delete(String(request.buy));
+
+        const contract: TPaperContract = {
+            ...template,
+            contract_id: this.next_id++,
+            transaction_id: this.next_id++,
+            purchase_time: this.getTime(template.symbol),
+        };
+
+        this.open_contracts.set(contract.contract_id, contract);
+        this.balance = roundAmount(this.balance - contract.buy_price);
+        this.persist();
+        this.ensureTickStream(contract.symbol);
+        this.emit(this.getBalance());
+        this.emit(this.getTransaction('buy', contract.contract_id, -contract.buy_price));
+        this.notify();
+
+        return {
+            msg_type: 'buy',
+            buy: {
+                balance_after: this.balance,
+                buy_price: contract.buy_price,
+                contract_id: contract.contract_id,
+                longcode: this.getLongcode(contract),
+                payout: contract.payout,
+                purchase_time: contract.purchase_time,
+                shortcode: `${contract.contract_type}_${contract.symbol}_${contract.payout}`,
+                start_time: contract.purchase_time,
+                transaction_id: contract.transaction_id,
+            },
+        };
+    }
+
+    private getOpenContract(request: TSimulatedRequest): TSimulatedResponse {
+        const contract_id = Number(request.contract_id);
+        const open_contract = this.open_contracts.get(contract_id);
+
+        const proposal_open_contract = open_contract
+            ? this.toOpenContract(open_contract)
+            : (this.settled_contracts.get(contract_id) ?? {});
+
+        return { msg_type: 'proposal_open_contract', proposal_open_contract };
+    }
+
+    private getTransaction(action: 'buy' | 'sell', contract_id: number, amount: number): TSimulatedResponse {
+        return {
+            msg_type: 'transaction',
+            transaction: {
+                action,
+                amount,
+                balance: this.balance,
+                contract_id,
+                currency: this.currency,
+                transaction_id: this.next_id++,
+            },
+        };
+    }
+
+    private isContractExpired(contract: TPaperContract, tick: TPaperTick) {
+        if (contract.duration_unit === 't') return contract.ticks_since_entry >= getExitTickOffset(contract);
+
+        const expiry = contract.purchase_time + getDurationInSeconds(contract.duration, contract.duration_unit);
+        return tick.epoch >= expiry;
+    }
+
+    private updateContract(contract: TPaperContract, tick: TPaperTick) {
+        // The first tick after the purchase is the entry tick.
+        if (!contract.entry_tick) contract.entry_tick = tick;
+        else contract.ticks_since_entry++;
+
+        if (!this.isContractExpired(contract, tick)) {
+            this.emit({ msg_type: 'proposal_open_contract', proposal_open_contract: this.toOpenContract(contract) });
+            return;
+        }
+
+        const { entry_tick } = contract;
+        const is_win = isWinningContract(contract, entry_tick.quote, tick.quote, tick.pip_size);
+        const sell_price = is_win ? contract.payout : 0;
+        const sold_contract: ProposalOpenContract = {
+            ...this.toOpenContract(contract),
+            bid_price: sell_price,
+            exit_tick: tick.quote,
+            exit_tick_time: tick.epoch,
+            is_expired: 1,
+            is_sold: 1,
+            profit: roundAmount(sell_price - contract.buy_price),
+            sell_price,
+            sell_time: tick.epoch,
+            status: is_win ? 'won' : 'lost',
+            transaction_ids: { buy: contract.transaction_id, sell: this.next_id++ },
+        };
+
+        this.open_contracts.delete(contract.contract_id);
+        this.settled_contracts.set(contract.contract_id, sold_contract);
+        if (this.settled_contracts.size > MAX_SETTLED_CONTRACTS) {
+            this.settled_contracts.delete(this.settled_contracts.keys().next().value as number);
+        }
+        this.balance = roundAmount(this.balance + sell_price);
+        this.persist();
+
+        this.emit({ msg_type: 'proposal_open_contract', proposal_open_contract: sold_contract });
+        this.emit(this.getTransaction('sell', contract.contract_id, sell_price));
+        this.emit(this.getBalance());
+        this.notify();
+    }
+
+    private getLongcode(contract: TPaperContract) {
+        const barrier = contract.barrier === undefined ? '' : ` (barrier ${contract.barrier})`;
+        return `Paper ${contract.contract_type}${barrier} on ${contract.symbol} for ${contract.duration}${contract.duration_unit}.`;
+    }
+
+    private toOpenContract(contract: TPaperContract): ProposalOpenContract {
+        const tick = this.last_ticks.get(contract.symbol);
+
+        return {
+            barrier: contract.barrier === undefined ? undefined : String(contract.barrier),
+            bid_price: contract.buy_price,
+            buy_price: contract.buy_price,
+            contract_id: contract.contract_id,
+            contract_type: contract.contract_type,
+            currency: contract.currency,
+            current_spot: tick?.quote,
+            current_spot_time: tick?.epoch,
+            date_start: contract.purchase_time,
+            display_name: contract.symbol,
+            entry_tick: contract.entry_tick?.quote,
+            entry_tick_time: contract.entry_tick?.epoch,
+            is_expired: 0,
+            is_sold: 0,
+            is_valid_to_sell: 0,
+            longcode: this.getLongcode(contract),
+            payout: contract.payout,
+            shortcode: `${contract.contract_type}_${contract.symbol}_${contract.payout}`,
+            status: 'open',
+            transaction_ids: { buy: contract.transaction_id },
+            underlying: contract.symbol,
+        };
+    }
+}
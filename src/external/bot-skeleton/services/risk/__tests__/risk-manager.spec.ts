@@ -0,0 +1,106 @@
+import { createMockStorage } from '@/utils/mock/mock-storage';
+import RiskManager, { RISK_STORAGE_KEY } from '../risk-manager';
+
+const DAY = 86400 * 1000;
+
+const createManager = (now = () => DAY) => new RiskManager(createMockStorage(), now);
+
+describe('RiskManager', () => {
+    it('should allow every purchase when no limits are set', () => {
+        const manager = createManager();
+
+        expect(manager.requestPurchase({ source: 'blockly', account: 'CR1', stake: 1000 })).toEqual({
+            is_allowed: true,
+            position_id: 'blockly-1',
+        });
+    });
+
+    it('should reject stakes above the max stake', () => {
+        const manager = createManager();
+        manager.setLimits({ max_stake: 10 });
+
+        expect(manager.requestPurchase({ source: 'smart_trading', account: 'CR1', stake: 11 })).toEqual({
+            is_allowed: false,
+            violation: 'MaxStakeExceeded',
+        });
+        expect(manager.getState().last_violation).toBe('MaxStakeExceeded');
+        expect(manager.requestPurchase({ source: 'smart_trading', account: 'CR1', stake: 10 }).is_allowed).toBe(true);
+        expect(manager.getState().last_violation).toBeNull();
+    });
+
+    it('should reserve exposure and open contracts until the purchase settles or is released', () => {
+        const manager = createManager();
+        manager.setLimits({ max_exposure: 15, max_open_contracts: 2 });
+
+        const first = manager.requestPurchase({ source: 'auto_trader', account: 'CR1', stake: 10 });
+        expect(manager.requestPurchase({ source: 'auto_trader', account: 'CR1', stake: 10 })).toEqual({
+            is_allowed: false,
+            violation: 'MaxExposureExceeded',
+        });
+        const second = manager.requestPurchase({ source: 'auto_trader', account: 'CR1', stake: 5 });
+        expect(manager.requestPurchase({ source: 'auto_trader', account: 'CR1', stake: 1 })).toEqual({
+            is_allowed: false,
+            violation: 'MaxOpenContractsReached',
+        });
+        expect(manager.requestPurchase({ source: 'auto_trader', account: 'CR2', stake: 10 }).is_allowed).toBe(true);
+
+        if (!first.is_allowed || !second.is_allowed) throw new Error('Purchases should be allowed');
+        manager.settlePurchase(first.position_id, 9);
+        manager.releasePurchase(second.position_id);
+
+        expect(manager.getExposure('CR1')).toBe(0);
+        expect(manager.getDailyProfit('CR1')).toBe(9);
+    });
+
+    it('should engage the kill switch once the daily loss limit is reached and reset on the next day', () => {
+        let now = DAY;
+        const manager = createManager(() => now);
+        const onKillSwitch = jest.fn();
+        manager.onKillSwitch(onKillSwitch);
+        manager.setLimits({ daily_loss_limit: 20 });
+
+        const purchase = manager.requestPurchase({ source: 'copy_trader', account: 'CR1', stake: 20 });
+        if (!purchase.is_allowed) throw new Error('Purchase should be allowed');
+        manager.settlePurchase(purchase.position_id, -20);
+
+        expect(onKillSwitch).toHaveBeenCalledWith(
+            expect.objectContaining({ is_kill_switch_engaged: true, kill_switch_reason: 'DailyLossLimitReached' })
+        );
+        expect(manager.requestPurchase({ source: 'blockly', account: 'CR1', stake: 1 })).toEqual({
+            is_allowed: false,
+            violation: 'KillSwitchEngaged',
+        });
+
+        now += DAY;
+        manager.releaseKillSwitch();
+        expect(manager.getDailyProfit('CR1')).toBe(0);
+        expect(manager.requestPurchase({ source: 'blockly', account: 'CR1', stake: 1 }).is_allowed).toBe(true);
+    });
+
+    it('should never limit exempt accounts', () => {
+        const manager = createManager();
+        manager.setLimits({ max_stake: 1 });
+        manager.setAccountExempt('BACKTEST', true);
+
+        expect(manager.requestPurchase({ source: 'blockly', account: 'BACKTEST', stake: 100 })).toEqual({
+            is_allowed: true,
+            position_id: null,
+        });
+        expect(manager.getExposure('BACKTEST')).toBe(0);
+    });
+
+    it('should restore the limits and kill switch from storage', () => {
+        const storage = createMockStorage();
+        const manager = new RiskManager(storage, () => DAY);
+        manager.setLimits({ max_stake: 5 });
+        manager.engageKillSwitch();
+
+        const restored = new RiskManager(storage, () => DAY);
+        expect(JSON.parse(storage.getItem(RISK_STORAGE_KEY) ?? '{}').limits.max_stake).toBe(5);
+        expect(restored.getState()).toMatchObject({
+            limits: { max_stake: 5 },
+            is_kill_switch_engaged: true,
+            kill_switch_reason: 'Manual',
+        });
+    });
+});
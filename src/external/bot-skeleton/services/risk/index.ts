@@ -0,0 +1,3 @@
+export * from './risk-manager';
+export { default as RiskManager } from './risk-manager';
+export * from './risk-messages';
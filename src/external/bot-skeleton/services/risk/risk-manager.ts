@@ -0,0 +1,249 @@
+import { getBrowserStorage, readSettings, TSettingsStorage, writeSettings } from '../../utils/settings-storage';
+
+export type TRiskSource = 'blockly' | 'smart_trading' | 'auto_trader' | 'copy_trader';
+
+export type TRiskLimits = {
+    daily_loss_limit: number;
+    max_exposure: number;
+    max_open_contracts: number;
+    max_stake: number;
+};
+
+export type TRiskViolation =
+    | 'KillSwitchEngaged'
+    | 'DailyLossLimitReached'
+    | 'MaxStakeExceeded'
+    | 'MaxExposureExceeded'
+    | 'MaxOpenContractsReached';
+
+export type TPurchaseRequest = {
+    source: TRiskSource;
+    account: string;
+    stake: number;
+};
+
+export type TRiskCheck =
+    | { is_allowed: true; position_id: string | null }
+    | { is_allowed: false; violation: TRiskViolation };
+
+export type TOpenPosition = TPurchaseRequest & {
+    id: string;
+    opened_at: number;
+};
+
+type TDailyLedger = {
+    day: string;
+    profit: number;
+};
+
+export type TRiskState = {
+    limits: TRiskLimits;
+    ledgers: Record<string, TDailyLedger>;
+    open_positions: TOpenPosition[];
+    is_kill_switch_engaged: boolean;
+    kill_switch_reason: TRiskViolation | 'Manual' | null;
+    last_violation: TRiskViolation | null;
+};
+
+type TListener = (state: TRiskState) => void;
+
+export const RISK_STORAGE_KEY = 'dbot_risk_manager';
+
+// A limit of 0 disables that rule.
+export const DEFAULT_RISK_LIMITS: TRiskLimits = {
+    daily_loss_limit: 0,
+    max_exposure: 0,
+    max_open_contracts: 0,
+    max_stake: 0,
+};
+
+const getUtcDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * Account-wide guard every purchase path has to go through. It reserves the stake of
+ * each purchase until the contract settles, keeps the realised P/L of the current UTC
+ * day per account and owns the kill switch that stops all running bots at once.
+ */
+export default class RiskManager {
+    storage?: TSettingsStorage;
+    now: () => number;
+    limits: TRiskLimits = { ...DEFAULT_RISK_LIMITS };
+    ledgers: Record<string, TDailyLedger> = {};
+    open_positions = new Map<string, TOpenPosition>();
+    exempt_accounts = new Set<string>();
+    is_kill_switch_engaged = false;
+    kill_switch_reason: TRiskState['kill_switch_reason'] = null;
+    last_violation: TRiskViolation | null = null;
+    listeners = new Set<TListener>();
+    kill_switch_listeners = new Set<TListener>();
+    position_count = 0;
+
+    constructor(storage: TSettingsStorage | undefined = getBrowserStorage(), now = () => Date.now()) {
+        this.storage = storage;
+        this.now = now;
+        this.restore();
+    }
+
+    restore() {
+        const stored = readSettings<Partial<TRiskState>>(this.storage, RISK_STORAGE_KEY);
+        if (!stored) return;
+
+        this.limits = { ...DEFAULT_RISK_LIMITS, ...stored.limits };
+        this.ledgers = stored.ledgers ?? {};
+        this.is_kill_switch_engaged = !!stored.is_kill_switch_engaged;
+        this.kill_switch_reason = stored.kill_switch_reason ?? null;
+    }
+
+    persist() {
+        const { limits, ledgers, is_kill_switch_engaged, kill_switch_reason } = this;
+        writeSettings(this.storage, RISK_STORAGE_KEY, { limits, ledgers, is_kill_switch_engaged, kill_switch_reason });
+    }
+
+    getState(): TRiskState {
+        return {
+            limits: { ...this.limits },
+            ledgers: Object.fromEntries(
+                Object.keys(this.ledgers).map(account => [account, { ...this.getLedger(account) }])
+            ),
+            open_positions: [...this.open_positions.values()],
+            is_kill_switch_engaged: this.is_kill_switch_engaged,
+            kill_switch_reason: this.kill_switch_reason,
+            last_violation: this.last_violation,
+        };
+    }
+
+    subscribe(listener: TListener) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Registers a callback that has to stop a trading surface when the kill switch engages.
+     */
+    onKillSwitch(listener: TListener) {
+        this.kill_switch_listeners.add(listener);
+        return () => {
+            this.kill_switch_listeners.delete(listener);
+        };
+    }
+
+    notify() {
+        this.persist();
+        const state = this.getState();
+        this.listeners.forEach(listener => listener(state));
+    }
+
+    setLimits(limits: Partial<TRiskLimits>) {
+        this.limits = { ...this.limits, ...limits };
+        this.notify();
+    }
+
+    /**
+     * Excludes an account from every check, e.g. the simulated account of a backtest, so
+     * that its trades never count towards the limits of real accounts.
+     */
+    setAccountExempt(account: string, is_exempt: boolean) {
+        if (is_exempt) this.exempt_accounts.add(account);
+        else this.exempt_accounts.delete(account);
+    }
+
+    getLedger(account: string) {
+        const day = getUtcDay(this.now());
+        if (this.ledgers[account]?.day !== day) {
+            this.ledgers[account] = { day, profit: 0 };
+        }
+        return this.ledgers[account];
+    }
+
+    getDailyProfit(account: string) {
+        return this.getLedger(account).profit;
+    }
+
+    getOpenPositions(account: string) {
+        return [...this.open_positions.values()].filter(position => position.account === account);
+    }
+
+    getExposure(account: string) {
+        return this.getOpenPositions(account).reduce((exposure, { stake }) => exposure + stake, 0);
+    }
+
+    check({ account, stake }: Omit<TPurchaseRequest, 'source'>): TRiskViolation | null {
+        const { daily_loss_limit, max_exposure, max_open_contracts, max_stake } = this.limits;
+
+        if (this.is_kill_switch_engaged) return 'KillSwitchEngaged';
+        if (daily_loss_limit > 0 && this.getDailyProfit(account) <= -daily_loss_limit) return 'DailyLossLimitReached';
+        if (max_stake > 0 && stake > max_stake) return 'MaxStakeExceeded';
+        if (max_open_contracts > 0 && this.getOpenPositions(account).length >= max_open_contracts) {
+            return 'MaxOpenContractsReached';
+        }
+        if (max_exposure > 0 && this.getExposure(account) + stake > max_exposure) return 'MaxExposureExceeded';
+
+        return null;
+    }
+
+    /**
+     * Checks a purchase against the limits and, when allowed, reserves its stake until
+     * `settlePurchase` or `releasePurchase` is called with the returned position id.
+     */
+    requestPurchase(request: TPurchaseRequest): TRiskCheck {
+        if (this.exempt_accounts.has(request.account)) return { is_allowed: true, position_id: null };
+
+        const violation = this.check(request);
+        this.last_violation = violation;
+        if (violation) {
+            if (violation === 'DailyLossLimitReached') this.engageKillSwitch(violation);
+            else this.notify();
+            return { is_allowed: false, violation };
+        }
+
+        const id = `${request.source}-${++this.position_count}`;
+        this.open_positions.set(id, { ...request, stake: Number(request.stake), id, opened_at: this.now() });
+        this.notify();
+
+        return { is_allowed: true, position_id: id };
+    }
+
+    /**
+     * Frees the reservation of a purchase that was never bought, e.g. after a buy error.
+     */
+    releasePurchase(position_id?: string | null) {
+        if (!position_id || !this.open_positions.delete(position_id)) return;
+        this.notify();
+    }
+
+    settlePurchase(position_id: string | null | undefined, profit: number) {
+        const position = position_id ? this.open_positions.get(position_id) : undefined;
+        if (!position) return;
+
+        this.open_positions.delete(position.id);
+        const ledger = this.getLedger(position.account);
+        ledger.profit = Math.round((ledger.profit + Number(profit || 0)) * 100) / 100;
+
+        const { daily_loss_limit } = this.limits;
+        if (daily_loss_limit > 0 && ledger.profit <= -daily_loss_limit && !this.is_kill_switch_engaged) {
+            this.engageKillSwitch('DailyLossLimitReached');
+            return;
+        }
+        this.notify();
+    }
+
+    engageKillSwitch(reason: TRiskState['kill_switch_reason'] = 'Manual') {
+        this.is_kill_switch_engaged = true;
+        this.kill_switch_reason = reason;
+        this.notify();
+
+        const state = this.getState();
+        this.kill_switch_listeners.forEach(listener => listener(state));
+    }
+
+    releaseKillSwitch() {
+        this.is_kill_switch_engaged = false;
+        this.kill_switch_reason = null;
+        this.last_violation = null;
+        this.notify();
+    }
+}
+
+export const risk_manager = new RiskManager();
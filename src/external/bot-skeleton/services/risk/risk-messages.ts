@@ -0,0 +1,19 @@
+import { localize } from '@deriv-com/translations';
+import { TRiskState, TRiskViolation } from './risk-manager';
+
+export const getRiskViolationMessage = (violation: TRiskViolation | NonNullable<TRiskState['kill_switch_reason']>) => {
+    switch (violation) {
+        case 'KillSwitchEngaged':
+            return localize('Trading is stopped by the kill switch. Release it in the risk manager to trade again.');
+        case 'DailyLossLimitReached':
+            return localize('The daily loss limit of this account has been reached.');
+        case 'MaxStakeExceeded':
+            return localize('The stake is above the maximum stake allowed by the risk manager.');
+        case 'MaxExposureExceeded':
+            return localize('This purchase would exceed the maximum exposure of open contracts.');
+        case 'MaxOpenContractsReached':
+            return localize('The maximum number of open contracts has been reached.');
+        default:
+            return localize('All bots were stopped with the kill switch.');
+    }
+};
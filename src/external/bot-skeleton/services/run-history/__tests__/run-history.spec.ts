@@ -0,0 +1,161 @@
+import { createMockForage } from '@/utils/mock/mock-storage';
+import RunHistory, { getRunTrade, TRunSession, TRunTrade } from '../run-history';
+import { getMaxDrawdown, getProfitCurve, summarizeRun } from '../run-summary';
+
+const createTrade = (contract_id: number, profit: number, buy_price = 10): TRunTrade => ({
+    contract_id,
+    contract_type: 'DIGITOVER',
+    symbol: 'R_100',
+    buy_price,
+    sell_price: profit > 0 ? buy_price + profit : 0,
+    profit,
+    settled_at: contract_id * 1000,
+});
+
+const NEW_SESSION = { source: 'blockly', bot_name: 'Martingale', account: 'VRTC1', currency: 'USD' } as const;
+
+describe('RunHistory', () => {
+    let time: number;
+    let history: RunHistory;
+
+    beforeEach(() => {
+        time = 1000;
+        history = new RunHistory(createMockForage(), 3, () => time);
+    });
+
+    it('should record a run from its start to the reason it stopped', async () => {
+        const { id } = await history.startSession({ ...NEW_SESSION, xml_hash: 'MTIz' });
+        await history.recordTrade(id, createTrade(1, 9.5));
+        await history.recordTrade(id, createTrade(2, -10));
+        time = 5000;
+        await history.finishSession(id, 'StopLoss');
+
+        const session = await history.getSession(id);
+        expect(session).toMatchObject({
+            id,
+            source: 'blockly',
+            bot_name: 'Martingale',
+            xml_hash: 'MTIz',
+            start_time: 1000,
+            stop_time: 5000,
+            stop_reason: 'StopLoss',
+        });
+        expect(session?.trades.map(({ contract_id }) => contract_id)).toEqual([1, 2]);
+        expect(await history.getSession('missing')).toBeNull();
+    });
+
+    it('should replace contracts that are reported again and keep the first stop reason', async () => {
+        const { id } = await history.startSession(NEW_SESSION);
+        await history.recordTrade(id, createTrade(1, 0));
+        await history.recordTrade(id, createTrade(1, 9.5));
+        await history.finishSession(id, 'Error', 'Rate limit reached');
+        await history.finishSession(id, 'Manual');
+
+        const [session] = await history.getSessions();
+        expect(session.trades).toEqual([createTrade(1, 9.5)]);
+        expect(session).toMatchObject({ stop_reason: 'Error', stop_message: 'Rate limit reached' });
+    });
+
+    it('should keep the newest runs only', async () => {
+        const ids = [];
+        for (let i = 0; i < 4; i++) {
+            time += 1;
+            ids.push((await history.startSession(NEW_SESSION)).id);
+        }
+
+        expect((await history.getSessions()).map(({ id }) => id)).toEqual(ids.slice(1).reverse());
+    });
+
+    it('should close runs left open by a previous page load at their last trade', async () => {
+        const { id: finished_id } = await history.startSession(NEW_SESSION);
+        await history.finishSession(finished_id, 'Finished');
+        const { id: traded_id } = await history.startSession({ ...NEW_SESSION, source: 'auto_trader' });
+        await history.recordTrade(traded_id, createTrade(3, 1));
+        await history.startSession({ ...NEW_SESSION, source: 'copy_trader' });
+
+        const sessions = await history.closeInterruptedSessions();
+
+        expect(sessions.map(({ stop_reason, stop_time }) => [stop_reason, stop_time])).toEqual([
+            ['Interrupted', 1000],
+            ['Interrupted', 3000],
+            ['Finished', 1000],
+        ]);
+    });
+
+    it('should remove single runs and clear the history', async () => {
+        const { id } = await history.startSession(NEW_SESSION);
+        await history.startSession(NEW_SESSION);
+
+        await history.removeSession(id);
+        expect(await history.getSessions()).toHaveLength(1);
+
+        await history.clearSessions();
+        expect(await history.getSessions()).toEqual([]);
+    });
+
+    it('should read a trade from a sold contract', () => {
+        expect(
+            getRunTrade({
+                contract_id: 7,
+                contract_type: 'CALL',
+                underlying: '1HZ100V',
+                buy_price: 5,
+                sell_price: 9.75,
+                profit: 4.75,
+                purchase_time: 1699999990,
+                sell_time: 1700000000,
+            })
+        ).toEqual({
+            contract_id: 7,
+            contract_type: 'CALL',
+            symbol: '1HZ100V',
+            buy_price: 5,
+            sell_price: 9.75,
+            profit: 4.75,
+            purchased_at: 1699999990000,
+            settled_at: 1700000000000,
+        });
+    });
+});
+
+describe('run-summary', () => {
+    const session: TRunSession = {
+        ...NEW_SESSION,
+        id: 'run',
+        xml_hash: null,
+        start_time: 0,
+        stop_time: 60000,
+        stop_reason: 'Manual',
+        stop_message: '',
+        trades: [createTrade(1, 5), createTrade(2, -10), createTrade(3, -10), createTrade(4, 9), createTrade(5, 9)],
+    };
+
+    it('should follow the running profit and its largest drawdown', () => {
+        const curve = getProfitCurve(session.trades);
+
+        expect(curve).toEqual([5, -5, -15, -6, 3]);
+        expect(getMaxDrawdown(curve)).toBe(20);
+        expect(getMaxDrawdown([-4, -2])).toBe(4);
+        expect(getMaxDrawdown([])).toBe(0);
+    });
+
+    it('should total a run like the run panel statistics', () => {
+        expect(summarizeRun(session)).toEqual({
+            number_of_runs: 5,
+            won_contracts: 3,
+            lost_contracts: 2,
+            win_rate: 0.6,
+            total_stake: 50,
+            total_payout: 53,
+            total_profit: 3,
+            average_profit: 0.6,
+            max_drawdown: 20,
+            duration: 60000,
+        });
+        expect(summarizeRun({ ...session, stop_time: null, trades: [] }, 1500)).toMatchObject({
+            number_of_runs: 0,
+            win_rate: 0,
+            duration: 1500,
+        });
+    });
+});
@@ -0,0 +1,4 @@
+export * from './run-history';
+export { default as RunHistory } from './run-history';
+export * from './run-history-messages';
+export * from './run-summary';
@@ -0,0 +1,41 @@
+import { localize } from '@deriv-com/translations';
+import { TRiskSource } from '../risk/risk-manager';
+import { TRunStopReason } from './run-history';
+
+export const getRunSourceName = (source: TRiskSource) => {
+    switch (source) {
+        case 'blockly':
+            return localize('Bot Builder');
+        case 'smart_trading':
+            return localize('Smart Trading');
+        case 'auto_trader':
+            return localize('Auto Trader');
+        case 'copy_trader':
+            return localize('Copy trading');
+        default:
+            return source;
+    }
+};
+
+export const getRunStopReasonMessage = (stop_reason: TRunStopReason | null) => {
+    switch (stop_reason) {
+        case 'Manual':
+            return localize('Stopped by you');
+        case 'Finished':
+            return localize('The strategy finished');
+        case 'TakeProfit':
+            return localize('Take profit reached');
+        case 'StopLoss':
+            return localize('Stop loss reached');
+        case 'RiskLimit':
+            return localize('Stopped by the risk manager');
+        case 'Schedule':
+            return localize('Stopped by the schedule');
+        case 'Error':
+            return localize('Stopped by an error');
+        case 'Interrupted':
+            return localize('The page was closed while running');
+        default:
+            return localize('Running');
+    }
+};
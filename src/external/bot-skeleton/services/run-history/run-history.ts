@@ -0,0 +1,187 @@
+import localForage from 'localforage';
+import { ProposalOpenContract } from '@deriv/api-types';
+import { TRiskSource } from '../risk/risk-manager';
+
+export type TRunHistoryStorage = Pick<LocalForage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export type TRunStopReason =
+    | 'Manual'
+    | 'Finished'
+    | 'TakeProfit'
+    | 'StopLoss'
+    | 'RiskLimit'
+    | 'Schedule'
+    | 'Error'
+    | 'Interrupted';
+
+export type TRunTrade = {
+    contract_id: number | string;
+    contract_type: string;
+    symbol: string;
+    buy_price: number;
+    sell_price: number;
+    profit: number;
+    /** Missing from runs recorded before purchase times were kept. */
+    purchased_at?: number;
+    settled_at: number;
+};
+
+export type TRunSession = {
+    id: string;
+    source: TRiskSource;
+    bot_name: string;
+    xml_hash: string | null;
+    account: string;
+    currency: string;
+    start_time: number;
+    stop_time: number | null;
+    stop_reason: TRunStopReason | null;
+    stop_message: string;
+    trades: TRunTrade[];
+};
+
+export type TNewRunSession = Pick<TRunSession, 'source' | 'bot_name' | 'account' | 'currency'> & {
+    xml_hash?: string | null;
+};
+
+export const MAX_RUN_SESSIONS = 100;
+export const MAX_TRADES_PER_RUN = 5000;
+
+const SESSIONS_KEY = 'sessions';
+
+export const getRunTrade = (contract: ProposalOpenContract, settled_at = Date.now()): TRunTrade => ({
+    contract_id: contract.contract_id ?? '',
+    contract_type: contract.contract_type ?? '',
+    symbol: contract.underlying ?? '',
+    buy_price: Number(contract.buy_price ?? 0),
+    sell_price: Number(contract.sell_price ?? 0),
+    profit: Number(contract.profit ?? 0),
+    purchased_at: contract.purchase_time ? contract.purchase_time * 1000 : undefined,
+    settled_at: contract.sell_time ? contract.sell_time * 1000 : settled_at,
+});
+
+/**
+ * Keeps a record of every bot run, newest first, across page loads. A run is started when
+ * a bot starts trading, collects each settled contract and is closed with the reason the
+ * bot stopped. Unlike the run panel statistics, runs survive clearing the statistics.
+ */
+export default class RunHistory {
+    storage: TRunHistoryStorage;
+    max_sessions: number;
+    now: () => number;
+    session_count = 0;
+    write_queue: Promise<unknown> = Promise.resolve();
+
+    constructor(storage?: TRunHistoryStorage, max_sessions = MAX_RUN_SESSIONS, now = () => Date.now()) {
+        this.storage = storage ?? localForage.createInstance({ name: 'dbot', storeName: 'run_history' });
+        this.max_sessions = max_sessions;
+        this.now = now;
+    }
+
+    async getSessions(): Promise<TRunSession[]> {
+        try {
+            return (await this.storage.getItem<TRunSession[]>(SESSIONS_KEY)) ?? [];
+        } catch (e) {
+            return [];
+        }
+    }
+
+    /** Reads a run once every write queued before the call has been stored. */
+    async getSession(session_id: string) {
+        await this.write_queue;
+        return (await this.getSessions()).find(({ id }) => id === session_id) ?? null;
+    }
+
+    startSession({ xml_hash = null, ...details }: TNewRunSession) {
+        return this.enqueueWrite(async () => {
+            const sessions = await this.getSessions();
+            const start_time = this.now();
+            const session: TRunSession = {
+                ...details,
+                id: `${start_time}-${details.source}-${++this.session_count}`,
+                xml_hash,
+                start_time,
+                stop_time: null,
+                stop_reason: null,
+                stop_message: '',
+                trades: [],
+            };
+            await this.storage.setItem(SESSIONS_KEY, [session, ...sessions].slice(0, this.max_sessions));
+            return session;
+        });
+    }
+
+    /**
+     * Adds a settled contract to a run. Contracts that were already recorded are replaced,
+     * since the same contract can be reported more than once after it is sold.
+     */
+    recordTrade(session_id: string, trade: TRunTrade) {
+        return this.updateSession(session_id, session => {
+            const index = session.trades.findIndex(({ contract_id }) => contract_id === trade.contract_id);
+            if (index >= 0) session.trades[index] = trade;
+            else session.trades = [...session.trades, trade].slice(-MAX_TRADES_PER_RUN);
+        });
+    }
+
+    finishSession(session_id: string, stop_reason: TRunStopReason, stop_message = '') {
+        return this.updateSession(session_id, session => {
+            if (session.stop_time) return;
+            session.stop_time = this.now();
+            session.stop_reason = stop_reason;
+            session.stop_message = stop_message;
+        });
+    }
+
+    /**
+     * Closes the runs that were still open when the page was left. They end with their last
+     * trade, as nothing is known about them after that.
+     */
+    closeInterruptedSessions() {
+        return this.enqueueWrite(async () => {
+            const sessions = await this.getSessions();
+            const interrupted = sessions.filter(({ stop_time }) => !stop_time);
+            if (!interrupted.length) return sessions;
+
+            interrupted.forEach(session => {
+                session.stop_time = session.trades[session.trades.length - 1]?.settled_at ?? session.start_time;
+                session.stop_reason = 'Interrupted';
+            });
+            await this.storage.setItem(SESSIONS_KEY, sessions);
+            return sessions;
+        });
+    }
+
+    removeSession(session_id: string) {
+        return this.enqueueWrite(async () => {
+            const sessions = await this.getSessions();
+            await this.storage.setItem(
+                SESSIONS_KEY,
+                sessions.filter(({ id }) => id !== session_id)
+            );
+        });
+    }
+
+    clearSessions() {
+        return this.enqueueWrite(() => this.storage.removeItem(SESSIONS_KEY));
+    }
+
+    updateSession(session_id: string, update: (session: TRunSession) => void) {
+        return this.enqueueWrite(async () => {
+            const sessions = await this.getSessions();
+            const session = sessions.find(({ id }) => id === session_id);
+            if (!session) return null;
+
+            update(session);
+            await this.storage.setItem(SESSIONS_KEY, sessions);
+            return session;
+        });
+    }
+
+    enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+        const result = this.write_queue.then(write);
+        this.write_queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+export const run_history = new RunHistory();
@@ -0,0 +1,49 @@
+import { TRunSession, TRunTrade } from './run-history';
+
+export type TRunSummary = {
+    number_of_runs: number;
+    won_contracts: number;
+    lost_contracts: number;
+    win_rate: number;
+    total_stake: number;
+    total_payout: number;
+    total_profit: number;
+    average_profit: number;
+    max_drawdown: number;
+    duration: number;
+};
+
+/** Running total of the profit after each trade, in the order the trades settled. */
+export const getProfitCurve = (trades: TRunTrade[]) =>
+    trades.reduce<number[]>((curve, { profit }) => [...curve, (curve[curve.length - 1] ?? 0) + profit], []);
+
+/** Largest fall of the running profit from its highest point, counting from the start of the run. */
+export const getMaxDrawdown = (curve: number[]) => {
+    let peak = 0;
+    return curve.reduce((max_drawdown, profit) => {
+        peak = Math.max(peak, profit);
+        return Math.max(max_drawdown, peak - profit);
+    }, 0);
+};
+
+/**
+ * Totals of a run, counted the same way as the run panel statistics: a contract with a
+ * profit is won and its sell price counts towards the payout.
+ */
+export const summarizeRun = ({ trades, start_time, stop_time }: TRunSession, now = Date.now()): TRunSummary => {
+    const won = trades.filter(({ profit }) => profit > 0);
+    const total_profit = trades.reduce((total, { profit }) => total + profit, 0);
+
+    return {
+        number_of_runs: trades.length,
+        won_contracts: won.length,
+        lost_contracts: trades.length - won.length,
+        win_rate: trades.length ? won.length / trades.length : 0,
+        total_stake: trades.reduce((total, { buy_price }) => total + buy_price, 0),
+        total_payout: won.reduce((total, { sell_price }) => total + sell_price, 0),
+        total_profit,
+        average_profit: trades.length ? total_profit / trades.length : 0,
+        max_drawdown: getMaxDrawdown(getProfitCurve(trades)),
+        duration: Math.max(0, (stop_time ?? now) - start_time),
+    };
+};
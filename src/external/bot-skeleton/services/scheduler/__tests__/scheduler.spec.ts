@@ -0,0 +1,144 @@
+import { createMockStorage } from '@/utils/mock/mock-storage';
+import BotScheduler, { MAX_SKIPPED_RUNS, SCHEDULER_STORAGE_KEY } from '../bot-scheduler';
+import {
+    getActiveWindow,
+    getLastStopTime,
+    getNextScheduleTime,
+    getScheduleError,
+    getStrategySymbol,
+    isMarketOpen,
+    TBotSchedule,
+    WEEKDAYS,
+} from '../schedule-windows';
+
+const createSchedule = (details: Partial<TBotSchedule> = {}): TBotSchedule => ({
+    id: 'schedule-1',
+    strategy_id: 'strategy-1',
+    strategy_name: 'Martingale',
+    is_enabled: true,
+    days: WEEKDAYS,
+    start_time: '08:00',
+    end_time: '11:00',
+    ...details,
+});
+
+// 2024-01-05 was a Friday.
+const at = (time: string, date = '2024-01-05') => Date.parse(`${date}T${time}:00Z`);
+
+describe('schedule-windows', () => {
+    it('should find the window the time falls in on scheduled days only', () => {
+        const schedule = createSchedule();
+
+        expect(getActiveWindow(schedule, at('07:59'))).toBeNull();
+        expect(getActiveWindow(schedule, at('09:30'))).toEqual({ start: at('08:00'), end: at('11:00') });
+        expect(getActiveWindow(schedule, at('11:00'))).toBeNull();
+        expect(getActiveWindow(schedule, at('09:30', '2024-01-06'))).toBeNull();
+        expect(getActiveWindow(createSchedule({ start_time: '' }), at('09:30'))).toBeNull();
+    });
+
+    it('should keep overnight windows running past midnight', () => {
+        const schedule = createSchedule({ start_time: '22:00', end_time: '02:00' });
+
+        expect(getActiveWindow(schedule, at('01:00', '2024-01-06'))).toEqual({
+            start: at('22:00'),
+            end: at('02:00', '2024-01-06'),
+        });
+        // Sunday's window didn't start, since Sunday isn't scheduled.
+        expect(getActiveWindow(schedule, at('01:00', '2024-01-08'))).toBeNull();
+        expect(getLastStopTime(schedule, at('03:00', '2024-01-06'))).toBe(at('02:00', '2024-01-06'));
+        expect(getLastStopTime(schedule, at('03:00', '2024-01-08'))).toBeNull();
+    });
+
+    it('should find the stop times of stop-only schedules', () => {
+        const schedule = createSchedule({ start_time: '', end_time: '18:00' });
+
+        expect(getLastStopTime(schedule, at('17:59'))).toBe(at('18:00', '2024-01-04'));
+        expect(getLastStopTime(schedule, at('18:01'))).toBe(at('18:00'));
+        expect(getLastStopTime(schedule, at('18:01', '2024-01-06'))).toBe(at('18:00'));
+    });
+
+    it('should tell when a schedule acts next', () => {
+        expect(getNextScheduleTime(createSchedule(), at('09:00'))).toBe(at('11:00'));
+        // Friday's window is over, so the next one is on Monday.
+        expect(getNextScheduleTime(createSchedule(), at('12:00'))).toBe(at('08:00', '2024-01-08'));
+        expect(getNextScheduleTime(createSchedule({ days: [] }), at('12:00'))).toBeNull();
+    });
+
+    it('should validate schedules', () => {
+        expect(getScheduleError(createSchedule())).toBeNull();
+        expect(getScheduleError(createSchedule({ strategy_id: '' }))).toBe('MissingStrategy');
+        expect(getScheduleError(createSchedule({ days: [] }))).toBe('MissingDays');
+        expect(getScheduleError(createSchedule({ end_time: '24:00' }))).toBe('InvalidTime');
+        expect(getScheduleError(createSchedule({ end_time: '08:00' }))).toBe('EmptyWindow');
+    });
+
+    it('should tell whether a market is open from its trading times', () => {
+        const times = [{ open: new Date(at('08:00')), close: new Date(at('16:00')) }];
+
+        expect(isMarketOpen({ is_open_all_day: false, is_closed_all_day: false, times }, at('09:00'))).toBe(true);
+        expect(isMarketOpen({ is_open_all_day: false, is_closed_all_day: false, times }, at('16:00'))).toBe(false);
+        expect(isMarketOpen({ is_open_all_day: false, is_closed_all_day: true }, at('09:00'))).toBe(false);
+        expect(isMarketOpen(undefined, at('09:00'))).toBe(true);
+    });
+
+    it('should read the symbol of a strategy', () => {
+        const xml = `<xml xmlns="http://www.w3.org/1999/xhtml" is_dbot="true">
+            <block type="trade_definition" id="trade">
+                <statement name="TRADE_OPTIONS">
+                    <block type="trade_definition_market" id="market">
+                        <field name="MARKET_LIST">forex</field>
+                        <field name="SYMBOL_LIST">frxEURUSD</field>
+                    </block>
+                </statement>
+            </block>
+        </xml>`;
+
+        expect(getStrategySymbol(xml)).toBe('frxEURUSD');
+        expect(getStrategySymbol('<xml />')).toBe('');
+    });
+});
+
+describe('BotScheduler', () => {
+    it('should keep schedules and skipped runs across page loads', () => {
+        const storage = createMockStorage();
+        const scheduler = new BotScheduler(storage);
+        const listener = jest.fn();
+        scheduler.subscribe(listener);
+
+        const { id } = scheduler.saveSchedule(createSchedule({ id: '' }), 1000);
+        scheduler.recordSkippedRun({
+            schedule_id: id,
+            strategy_name: 'Martingale',
+            symbol: 'frxEURUSD',
+            reason: 'MarketClosed',
+            time: 2000,
+        });
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(new BotScheduler(storage).getState()).toEqual({
+            schedules: [expect.objectContaining({ id: '1000-1', strategy_id: 'strategy-1' })],
+            skipped_runs: [expect.objectContaining({ schedule_id: id, reason: 'MarketClosed', time: 2000 })],
+        });
+
+        scheduler.removeStrategySchedules('strategy-1');
+        expect(JSON.parse(storage.getItem(SCHEDULER_STORAGE_KEY) ?? '').schedules).toEqual([]);
+    });
+
+    it('should only keep the latest skipped runs', () => {
+        const scheduler = new BotScheduler(createMockStorage());
+
+        for (let time = 1; time <= MAX_SKIPPED_RUNS + 5; time++) {
+            scheduler.recordSkippedRun({
+                schedule_id: 'schedule-1',
+                strategy_name: 'Martingale',
+                symbol: 'R_100',
+                reason: 'BotRunning',
+                time,
+            });
+        }
+
+        const { skipped_runs } = scheduler.getState();
+        expect(skipped_runs).toHaveLength(MAX_SKIPPED_RUNS);
+        expect(skipped_runs[0].time).toBe(MAX_SKIPPED_RUNS + 5);
+    });
+});
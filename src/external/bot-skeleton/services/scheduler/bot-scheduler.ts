@@ -0,0 +1,122 @@
+import { getBrowserStorage, readSettings, TSettingsStorage, writeSettings } from '../../utils/settings-storage';
+import { TBotSchedule } from './schedule-windows';
+
+export type TSkipReason =
+    | 'MarketClosed'
+    | 'BotRunning'
+    | 'BacktestRunning'
+    | 'StrategyMissing'
+    | 'UnsavedChanges'
+    | 'NotStarted';
+
+export type TSkippedRun = {
+    id: string;
+    schedule_id: string;
+    strategy_name: string;
+    symbol: string;
+    reason: TSkipReason;
+    /** The server time the run was due, in milliseconds. */
+    time: number;
+};
+
+export type TSchedulerState = {
+    schedules: TBotSchedule[];
+    skipped_runs: TSkippedRun[];
+};
+
+type TListener = (state: TSchedulerState) => void;
+
+export const SCHEDULER_STORAGE_KEY = 'dbot_bot_scheduler';
+
+// Only the latest skipped runs are kept, newest first.
+export const MAX_SKIPPED_RUNS = 50;
+
+/** Keeps the schedules of saved strategies and the runs they had to skip. */
+export default class BotScheduler {
+    storage?: TSettingsStorage;
+    state: TSchedulerState = { schedules: [], skipped_runs: [] };
+    listeners = new Set<TListener>();
+    count = 0;
+
+    constructor(storage = getBrowserStorage()) {
+        this.storage = storage;
+        this.restore();
+    }
+
+    restore() {
+        const stored = readSettings<Partial<TSchedulerState>>(this.storage, SCHEDULER_STORAGE_KEY);
+        if (!stored) return;
+
+        this.state = {
+            schedules: Array.isArray(stored.schedules) ? stored.schedules : [],
+            skipped_runs: Array.isArray(stored.skipped_runs) ? stored.skipped_runs : [],
+        };
+    }
+
+    persist() {
+        writeSettings(this.storage, SCHEDULER_STORAGE_KEY, this.state);
+        this.listeners.forEach(listener => listener(this.getState()));
+    }
+
+    getState(): TSchedulerState {
+        return {
+            schedules: this.state.schedules.map(schedule => ({ ...schedule, days: [...schedule.days] })),
+            skipped_runs: [...this.state.skipped_runs],
+        };
+    }
+
+    subscribe(listener: TListener) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    generateId(now: number) {
+        return `${now}-${++this.count}`;
+    }
+
+    /** Adds a schedule, or replaces the schedule with the same id. */
+    saveSchedule(schedule: TBotSchedule, now = Date.now()) {
+        const saved = { ...schedule, id: schedule.id || this.generateId(now) };
+        const { schedules } = this.state;
+        const index = schedules.findIndex(({ id }) => id === saved.id);
+        this.state = {
+            ...this.state,
+            schedules:
+                index >= 0 ? schedules.map(item => (item.id === saved.id ? saved : item)) : [...schedules, saved],
+        };
+        this.persist();
+        return saved;
+    }
+
+    removeSchedule(schedule_id: string) {
+        this.state = { ...this.state, schedules: this.state.schedules.filter(({ id }) => id !== schedule_id) };
+        this.persist();
+    }
+
+    /** Removes the schedules of a strategy, e.g. after it is deleted. */
+    removeStrategySchedules(strategy_id: string) {
+        const schedules = this.state.schedules.filter(schedule => schedule.strategy_id !== strategy_id);
+        if (schedules.length === this.state.schedules.length) return;
+        this.state = { ...this.state, schedules };
+        this.persist();
+    }
+
+    recordSkippedRun(skipped_run: Omit<TSkippedRun, 'id'>) {
+        const run = { ...skipped_run, id: this.generateId(skipped_run.time) };
+        this.state = {
+            ...this.state,
+            skipped_runs: [run, ...this.state.skipped_runs].slice(0, MAX_SKIPPED_RUNS),
+        };
+        this.persist();
+        return run;
+    }
+
+    clearSkippedRuns() {
+        this.state = { ...this.state, skipped_runs: [] };
+        this.persist();
+    }
+}
+
+export const bot_scheduler = new BotScheduler();
@@ -0,0 +1,4 @@
+export * from './bot-scheduler';
+export { default as BotScheduler } from './bot-scheduler';
+export * from './schedule-windows';
+export * from './scheduler-messages';
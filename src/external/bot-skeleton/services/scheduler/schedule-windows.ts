@@ -0,0 +1,122 @@
+export type TBotSchedule = {
+    id: string;
+    strategy_id: string;
+    strategy_name: string;
+    is_enabled: boolean;
+    /** The UTC week days of the schedule, with 0 for Sunday. */
+    days: number[];
+    /** The UTC time the bot starts, as `HH:mm`. Schedules without one only stop the bot. */
+    start_time: string;
+    /** The UTC time the bot stops, as `HH:mm`. An end before the start runs past midnight. */
+    end_time: string;
+};
+
+export type TScheduleWindow = { start: number; end: number };
+
+/** The trading times of a symbol, as kept by `TradingTimes`. */
+export type TSymbolTradingTimes = {
+    is_open_all_day: boolean;
+    is_closed_all_day: boolean;
+    times?: { open: Date; close: Date }[];
+};
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidTime = (time: string) => TIME_PATTERN.test(time);
+
+const getMinutes = (time: string) => {
+    const [, hours, minutes] = TIME_PATTERN.exec(time) ?? [];
+    return Number(hours) * 60 + Number(minutes);
+};
+
+const getUtcMidnight = (timestamp: number) => timestamp - (timestamp % DAY_MS);
+
+const isScheduledDay = (days: number[], timestamp: number) => days.includes(new Date(timestamp).getUTCDay());
+
+/** Returns the reason a schedule can't be saved, or `null` when it is valid. */
+export const getScheduleError = ({ strategy_id, days, start_time, end_time }: TBotSchedule) => {
+    if (!strategy_id) return 'MissingStrategy';
+    if (!days.length) return 'MissingDays';
+    if (!isValidTime(end_time) || (start_time && !isValidTime(start_time))) return 'InvalidTime';
+    if (start_time === end_time) return 'EmptyWindow';
+    return null;
+};
+
+export type TScheduleError = NonNullable<ReturnType<typeof getScheduleError>>;
+
+/**
+ * Returns the window of a schedule that `now` falls in. A window belongs to the day it
+ * starts on, so a Friday 22:00–02:00 window still runs early on Saturday.
+ */
+export const getActiveWindow = (schedule: TBotSchedule, now: number): TScheduleWindow | null => {
+    if (!schedule.start_time || getScheduleError(schedule)) return null;
+
+    const start_minutes = getMinutes(schedule.start_time);
+    const end_minutes = getMinutes(schedule.end_time);
+    const duration = ((end_minutes - start_minutes + 24 * 60) % (24 * 60)) * 60 * 1000;
+
+    for (const day of [getUtcMidnight(now), getUtcMidnight(now) - DAY_MS]) {
+        const start = day + start_minutes * 60 * 1000;
+        if (isScheduledDay(schedule.days, start) && start <= now && now < start + duration) {
+            return { start, end: start + duration };
+        }
+    }
+    return null;
+};
+
+/** Returns the latest stop time of a schedule that isn't after `now`, within the last day. */
+export const getLastStopTime = (schedule: TBotSchedule, now: number) => {
+    if (getScheduleError(schedule)) return null;
+
+    const end_minutes = getMinutes(schedule.end_time);
+    const start_minutes = schedule.start_time ? getMinutes(schedule.start_time) : end_minutes;
+    // Stops that end an overnight window belong to the day before.
+    const day_offset = end_minutes < start_minutes ? DAY_MS : 0;
+
+    for (const day of [getUtcMidnight(now), getUtcMidnight(now) - DAY_MS]) {
+        const stop_time = day + end_minutes * 60 * 1000;
+        if (stop_time <= now && isScheduledDay(schedule.days, stop_time - day_offset)) return stop_time;
+    }
+    return null;
+};
+
+/** Returns the next time a schedule starts or stops the bot, looking a week ahead. */
+export const getNextScheduleTime = (schedule: TBotSchedule, now: number) => {
+    if (getScheduleError(schedule)) return null;
+
+    const times = [schedule.start_time, schedule.end_time].filter(Boolean).map(getMinutes);
+    for (let day = getUtcMidnight(now); day <= now + 8 * DAY_MS; day += DAY_MS) {
+        const next_time = times
+            .map(minutes => day + minutes * 60 * 1000)
+            .filter(time => time > now && (getActiveWindow(schedule, time) || getLastStopTime(schedule, time) === time))
+            .sort((a, b) => a - b)[0];
+        if (next_time) return next_time;
+    }
+    return null;
+};
+
+/**
+ * Tells whether a market is open at `now`. Symbols without trading times count as open,
+ * so a missing `trading_times` response doesn't block every schedule.
+ */
+export const isMarketOpen = (trading_times: TSymbolTradingTimes | undefined, now: number) => {
+    if (!trading_times || trading_times.is_open_all_day) return true;
+    if (trading_times.is_closed_all_day) return false;
+    return (trading_times.times ?? []).some(({ open, close }) => open.getTime() <= now && now < close.getTime());
+};
+
+/** Reads the symbol of the trade definition of a strategy, or `''` when it has none. */
+export const getStrategySymbol = (xml: string) => {
+    const xml_doc = new DOMParser().parseFromString(xml, 'text/xml');
+    const market_block = Array.from(xml_doc.getElementsByTagName('block')).find(
+        block => block.getAttribute('type') === 'trade_definition_market'
+    );
+    const symbol_field = Array.from(market_block?.children ?? []).find(
+        child => child.tagName.toLowerCase() === 'field' && child.getAttribute('name') === 'SYMBOL_LIST'
+    );
+    return symbol_field?.textContent ?? '';
+};
@@ -0,0 +1,48 @@
+import { localize } from '@deriv-com/translations';
+import { TSkipReason } from './bot-scheduler';
+import { TScheduleError } from './schedule-windows';
+
+export const getDayName = (day: number) =>
+    [
+        localize('Sun'),
+        localize('Mon'),
+        localize('Tue'),
+        localize('Wed'),
+        localize('Thu'),
+        localize('Fri'),
+        localize('Sat'),
+    ][day] ?? '';
+
+export const getSkipReasonMessage = (reason: TSkipReason) => {
+    switch (reason) {
+        case 'MarketClosed':
+            return localize('The market was closed');
+        case 'BotRunning':
+            return localize('Another bot was running');
+        case 'BacktestRunning':
+            return localize('A backtest was running');
+        case 'StrategyMissing':
+            return localize('The strategy was deleted');
+        case 'UnsavedChanges':
+            return localize('The Bot Builder workspace had unsaved changes');
+        case 'NotStarted':
+            return localize('The bot could not start');
+        default:
+            return reason;
+    }
+};
+
+export const getScheduleErrorMessage = (error: TScheduleError) => {
+    switch (error) {
+        case 'MissingStrategy':
+            return localize('Choose a bot.');
+        case 'MissingDays':
+            return localize('Choose at least one day.');
+        case 'InvalidTime':
+            return localize('Enter times as HH:MM.');
+        case 'EmptyWindow':
+            return localize('The start and stop times must be different.');
+        default:
+            return error;
+    }
+};
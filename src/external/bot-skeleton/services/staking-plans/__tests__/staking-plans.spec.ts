@@ -0,0 +1,111 @@
+import { createStakingPlan, getStakingPlanConfig, StakingPlan, TStakingPlanConfig } from '../staking-plans';
+
+const WIN = { profit: 0.95, stake: 1 };
+const LOSS = { profit: -1, stake: 1 };
+
+const playStakes = (plan: StakingPlan, results: ('W' | 'L')[]) =>
+    results.map(result => {
+        const stake = plan.getStake();
+        plan.recordResult(
+            result === 'W' ? { profit: stake * (WIN.profit / WIN.stake), stake } : { profit: -stake, stake }
+        );
+        return plan.getStake();
+    });
+
+const createPlan = (config: Omit<TStakingPlanConfig, 'initial_stake'> & { initial_stake?: number }) =>
+    createStakingPlan({ initial_stake: 1, ...config });
+
+describe('staking plans', () => {
+    it('should double after losses and reset after a win with martingale', () => {
+        const plan = createPlan({ id: 'martingale', multiplier: 2 });
+
+        expect(playStakes(plan, ['L', 'L', 'W', 'L'])).toEqual([2, 4, 1, 2]);
+    });
+
+    it('should restart a progression that would exceed the max stake', () => {
+        const plan = createPlan({ id: 'martingale', multiplier: 2, max_stake: 5 });
+
+        expect(playStakes(plan, ['L', 'L', 'L'])).toEqual([2, 4, 1]);
+    });
+
+    it('should grow after wins with reverse martingale', () => {
+        const plan = createPlan({ id: 'reverse_martingale', multiplier: 2 });
+
+        expect(playStakes(plan, ['W', 'W', 'L'])).toEqual([2, 4, 1]);
+    });
+
+    it("should step by one unit with d'Alembert and never drop below the initial stake", () => {
+        expect(playStakes(createPlan({ id: 'dalembert', unit: 1 }), ['L', 'L', 'W', 'W', 'W'])).toEqual([
+            2, 3, 2, 1, 1,
+        ]);
+        expect(playStakes(createPlan({ id: 'reverse_dalembert', unit: 1 }), ['W', 'W', 'L', 'L', 'L'])).toEqual([
+            2, 3, 2, 1, 1,
+        ]);
+    });
+
+    it("should end an Oscar's Grind cycle once it made one unit of profit", () => {
+        const plan = createPlan({ id: 'oscars_grind', payout: 0.95 });
+
+        // Losses keep the stake, wins add a unit but never more than the cycle still needs.
+        expect(playStakes(plan, ['L', 'L', 'W', 'W', 'W'])).toEqual([1, 1, 2, 0.11, 1]);
+    });
+
+    it('should follow the 1-3-2-6 steps and reset on a loss or after the last step', () => {
+        expect(playStakes(createPlan({ id: '1_3_2_6' }), ['W', 'W', 'W', 'W'])).toEqual([3, 2, 6, 1]);
+        expect(playStakes(createPlan({ id: '1_3_2_6' }), ['W', 'L'])).toEqual([3, 1]);
+    });
+
+    it('should move forward on losses and two steps back on wins with Fibonacci', () => {
+        const plan = createPlan({ id: 'fibonacci', initial_stake: 0.5 });
+
+        expect(playStakes(plan, ['L', 'L', 'L', 'L', 'W', 'W'])).toEqual([0.5, 1, 1.5, 2.5, 1, 0.5]);
+    });
+
+    it('should cross off or extend the Labouchère line', () => {
+        const plan = createStakingPlan(getStakingPlanConfig('labouchere', 1, 3));
+
+        expect(plan.getStake()).toBe(4);
+        // Loss appends 4: [1, 2, 3, 4] → 5, win leaves [2, 3] → 5, win clears the line.
+        expect(playStakes(plan, ['L', 'W', 'W'])).toEqual([5, 5, 4]);
+    });
+
+    it('should size Kelly stakes from the edge and fall back to the initial stake without one', () => {
+        const plan = createPlan({ id: 'kelly', fraction: 0.5, win_probability: 0.6, payout: 1 });
+
+        expect(plan.getStake({ balance: 1000 })).toBe(100);
+        expect(plan.getStake()).toBe(1);
+        expect(createPlan({ id: 'kelly', win_probability: 0.4, payout: 1 }).getStake({ balance: 1000 })).toBe(1);
+        expect(
+            createPlan({ id: 'kelly', fraction: 1, win_probability: 0.6, payout: 1, max_stake: 50 }).getStake({
+                balance: 1000,
+            })
+        ).toBe(50);
+    });
+
+    it('should estimate the Kelly win rate from the recorded results', () => {
+        const plan = createPlan({ id: 'kelly', fraction: 1 });
+
+        [WIN, WIN, WIN, LOSS].forEach(result => plan.recordResult(result));
+        // p = (3 + 1) / (4 + 2), b = 0.95
+        expect(plan.getStake({ balance: 100 })).toBe(31.58);
+        plan.reset();
+        expect(plan.getStake({ balance: 100 })).toBe(1);
+    });
+
+    it('should stake a share of the balance', () => {
+        const plan = createStakingPlan(getStakingPlanConfig('percent_of_balance', 0.35, 2));
+
+        expect(plan.getStake({ balance: 500 })).toBe(10);
+        expect(plan.getStake({ balance: 10 })).toBe(0.35);
+    });
+
+    it('should build configs from generic inputs', () => {
+        expect(getStakingPlanConfig('martingale', 2, undefined, 10)).toEqual({
+            id: 'martingale',
+            initial_stake: 2,
+            max_stake: 10,
+            multiplier: 2,
+        });
+        expect(getStakingPlanConfig('unknown', 1)).toEqual({ id: 'flat', initial_stake: 1, max_stake: 0 });
+    });
+});
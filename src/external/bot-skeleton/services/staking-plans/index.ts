@@ -0,0 +1,2 @@
+export * from './staking-plan-labels';
+export * from './staking-plans';
@@ -0,0 +1,48 @@
+import { localize } from '@deriv-com/translations';
+import { STAKING_PLAN_IDS, STAKING_PLAN_PARAMETERS, TStakingPlanId } from './staking-plans';
+
+export const getStakingPlanName = (id: TStakingPlanId) => {
+    switch (id) {
+        case 'martingale':
+            return localize('Martingale');
+        case 'reverse_martingale':
+            return localize('Reverse Martingale');
+        case 'dalembert':
+            return localize("D'Alembert");
+        case 'reverse_dalembert':
+            return localize("Reverse D'Alembert");
+        case 'oscars_grind':
+            return localize("Oscar's Grind");
+        case '1_3_2_6':
+            return localize('1-3-2-6');
+        case 'fibonacci':
+            return localize('Fibonacci');
+        case 'labouchere':
+            return localize('Labouchère');
+        case 'kelly':
+            return localize('Kelly fraction');
+        case 'percent_of_balance':
+            return localize('Percentage of balance');
+        default:
+            return localize('Flat stake');
+    }
+};
+
+export const getStakingPlanParameterLabel = (id: TStakingPlanId) => {
+    switch (STAKING_PLAN_PARAMETERS[id]?.key) {
+        case 'multiplier':
+            return localize('Multiplier');
+        case 'unit':
+            return localize('Unit');
+        case 'sequence_length':
+            return localize('Sequence length');
+        case 'fraction':
+            return localize('Kelly fraction');
+        case 'percentage':
+            return localize('Balance %');
+        default:
+            return '';
+    }
+};
+
+export const getStakingPlanOptions = () => STAKING_PLAN_IDS.map(id => ({ value: id, text: getStakingPlanName(id) }));
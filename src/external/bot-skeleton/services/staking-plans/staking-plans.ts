@@ -0,0 +1,391 @@
+export type TStakingPlanId =
+    | 'flat'
+    | 'martingale'
+    | 'reverse_martingale'
+    | 'dalembert'
+    | 'reverse_dalembert'
+    | 'oscars_grind'
+    | '1_3_2_6'
+    | 'fibonacci'
+    | 'labouchere'
+    | 'kelly'
+    | 'percent_of_balance';
+
+export type TStakingPlanConfig = {
+    id: TStakingPlanId;
+    initial_stake: number;
+    /** Stake multiplier of the martingale plans. */
+    multiplier?: number;
+    /** Step of the d'Alembert plans, in multiples of the initial stake. */
+    unit?: number;
+    /** Starting line of the Labouchère plan, in multiples of the initial stake. */
+    sequence?: number[];
+    /** Share of the full Kelly stake to bet, e.g. 0.5 for half Kelly. */
+    fraction?: number;
+    /** Win probability used by the Kelly plan instead of the observed win rate. */
+    win_probability?: number;
+    /** Net profit per unit of stake on a win, used until a win has been observed. */
+    payout?: number;
+    /** Share of the balance staked by the percentage-of-balance plan. */
+    percentage?: number;
+    /** 0 disables the limit. */
+    max_stake?: number;
+};
+
+export type TStakingTradeResult = {
+    profit: number;
+    stake: number;
+};
+
+export type TStakingContext = {
+    balance?: number;
+};
+
+/**
+ * Decides the stake of the next trade from the results of the previous ones. Every
+ * trading surface asks `getStake` before a purchase and reports the settled contract to
+ * `recordResult`, so the same plan behaves identically in the builder, Quick Strategy
+ * and the trading stores.
+ */
+export interface StakingPlan {
+    readonly id: TStakingPlanId;
+    readonly config: TStakingPlanConfig;
+    getStake(context?: TStakingContext): number;
+    recordResult(result: TStakingTradeResult): void;
+    reset(): void;
+}
+
+export const STAKING_PLAN_IDS: TStakingPlanId[] = [
+    'flat',
+    'martingale',
+    'reverse_martingale',
+    'dalembert',
+    'reverse_dalembert',
+    'oscars_grind',
+    '1_3_2_6',
+    'fibonacci',
+    'labouchere',
+    'kelly',
+    'percent_of_balance',
+];
+
+type TStakingPlanParameter = {
+    key: 'multiplier' | 'unit' | 'sequence_length' | 'fraction' | 'percentage';
+    default_value: number;
+    min: number;
+};
+
+/**
+ * The single tunable of each plan, so that forms and blocks can offer one generic
+ * "parameter" input next to the plan selector.
+ */
+export const STAKING_PLAN_PARAMETERS: Record<TStakingPlanId, TStakingPlanParameter | null> = {
+    flat: null,
+    martingale: { key: 'multiplier', default_value: 2, min: 1 },
+    reverse_martingale: { key: 'multiplier', default_value: 2, min: 1 },
+    dalembert: { key: 'unit', default_value: 1, min: 0 },
+    reverse_dalembert: { key: 'unit', default_value: 1, min: 0 },
+    oscars_grind: null,
+    '1_3_2_6': null,
+    fibonacci: null,
+    labouchere: { key: 'sequence_length', default_value: 4, min: 1 },
+    kelly: { key: 'fraction', default_value: 0.5, min: 0 },
+    percent_of_balance: { key: 'percentage', default_value: 1, min: 0 },
+};
+
+const DEFAULT_PAYOUT = 0.95;
+const STEPS_1_3_2_6 = [1, 3, 2, 6];
+
+const roundStake = (stake: number) => Math.round(stake * 100) / 100;
+
+const isStakingPlanId = (id: unknown): id is TStakingPlanId => STAKING_PLAN_IDS.includes(id as TStakingPlanId);
+
+/**
+ * Builds a plan config from the generic inputs of a form or block. Unknown plans fall
+ * back to a flat stake.
+ */
+export const getStakingPlanConfig = (
+    id: string,
+    initial_stake: number,
+    parameter?: number,
+    max_stake = 0
+): TStakingPlanConfig => {
+    const plan_id = isStakingPlanId(id) ? id : 'flat';
+    const config: TStakingPlanConfig = { id: plan_id, initial_stake: Number(initial_stake), max_stake };
+    const plan_parameter = STAKING_PLAN_PARAMETERS[plan_id];
+    if (!plan_parameter) return config;
+
+    const value = Number.isFinite(Number(parameter)) ? Number(parameter) : plan_parameter.default_value;
+    if (plan_parameter.key === 'sequence_length') {
+        const length = Math.max(1, Math.round(value));
+        return { ...config, sequence: Array.from({ length }, (_, index) => index + 1) };
+    }
+    return { ...config, [plan_parameter.key]: value };
+};
+
+abstract class BaseStakingPlan implements StakingPlan {
+    readonly config: TStakingPlanConfig;
+    stake: number;
+
+    constructor(config: TStakingPlanConfig) {
+        this.config = config;
+        this.stake = config.initial_stake;
+    }
+
+    get id() {
+        return this.config.id;
+    }
+
+    get initial_stake() {
+        return this.config.initial_stake;
+    }
+
+    getStake() {
+        return roundStake(this.stake);
+    }
+
+    recordResult({ profit }: TStakingTradeResult) {
+        if (profit > 0) this.onWin();
+        else this.onLoss();
+
+        // Like the Quick Strategy "max stake" option, a progression that would exceed the
+        // limit starts over from the initial stake.
+        const { max_stake = 0 } = this.config;
+        if (max_stake > 0 && this.stake > max_stake) this.reset();
+    }
+
+    reset() {
+        this.stake = this.initial_stake;
+    }
+
+    onWin() {
+        this.stake = this.initial_stake;
+    }
+
+    onLoss() {
+        this.stake = this.initial_stake;
+    }
+}
+
+class FlatPlan extends BaseStakingPlan {}
+
+class MartingalePlan extends BaseStakingPlan {
+    onLoss() {
+        this.stake *= this.config.multiplier ?? 2;
+    }
+}
+
+class ReverseMartingalePlan extends BaseStakingPlan {
+    onWin() {
+        this.stake *= this.config.multiplier ?? 2;
+    }
+}
+
+class DAlembertPlan extends BaseStakingPlan {
+    get step() {
+        return (this.config.unit ?? 1) * this.initial_stake;
+    }
+
+    onWin() {
+        this.stake = Math.max(this.initial_stake, this.stake - this.step);
+    }
+
+    onLoss() {
+        this.stake += this.step;
+    }
+}
+
+class ReverseDAlembertPlan extends DAlembertPlan {
+    onWin() {
+        this.stake += this.step;
+    }
+
+    onLoss() {
+        this.stake = Math.max(this.initial_stake, this.stake - this.step);
+    }
+}
+
+/**
+ * Aims for a profit of one winning initial stake per cycle: the stake grows by one unit
+ * after each win, stays put after a loss and never risks more than the cycle still needs.
+ */
+class OscarsGrindPlan extends BaseStakingPlan {
+    cycle_profit = 0;
+    payout = this.config.payout ?? DEFAULT_PAYOUT;
+
+    recordResult(result: TStakingTradeResult) {
+        this.cycle_profit += result.profit;
+        if (result.profit > 0 && result.stake > 0) this.payout = result.profit / result.stake;
+        super.recordResult(result);
+    }
+
+    onWin() {
+        const target = this.initial_stake * this.payout;
+        if (this.cycle_profit >= target - 0.005) {
+            this.reset();
+            return;
+        }
+        const required_stake = (target - this.cycle_profit) / this.payout;
+        this.stake = Math.min(this.stake + this.initial_stake, required_stake);
+    }
+
+    onLoss() {
+        // The stake stays the same after a loss.
+    }
+
+    reset() {
+        super.reset();
+        this.cycle_profit = 0;
+    }
+}
+
+class Plan1326 extends BaseStakingPlan {
+    step = 0;
+
+    onWin() {
+        this.step = (this.step + 1) % STEPS_1_3_2_6.length;
+        this.stake = this.initial_stake * STEPS_1_3_2_6[this.step];
+    }
+
+    reset() {
+        super.reset();
+        this.step = 0;
+    }
+
+    onLoss() {
+        this.reset();
+    }
+}
+
+class FibonacciPlan extends BaseStakingPlan {
+    index = 0;
+
+    static getNumber(index: number) {
+        let [previous, current] = [0, 1];
+        for (let i = 0; i < index; i++) [previous, current] = [current, previous + current];
+        return current;
+    }
+
+    onWin() {
+        this.index = Math.max(0, this.index - 2);
+        this.stake = this.initial_stake * FibonacciPlan.getNumber(this.index);
+    }
+
+    onLoss() {
+        this.index++;
+        this.stake = this.initial_stake * FibonacciPlan.getNumber(this.index);
+    }
+
+    reset() {
+        super.reset();
+        this.index = 0;
+    }
+}
+
+/**
+ * Stakes the sum of the first and last numbers of the line. A win crosses both off, a
+ * loss appends the lost amount, and the line starts over once it has been cleared.
+ */
+class LaboucherePlan extends BaseStakingPlan {
+    line: number[] = [];
+
+    constructor(config: TStakingPlanConfig) {
+        super(config);
+        this.reset();
+    }
+
+    get initial_line() {
+        return this.config.sequence?.length ? this.config.sequence : [1, 2, 3, 4];
+    }
+
+    updateStake() {
+        if (!this.line.length) this.line = [...this.initial_line];
+        const units = this.line.length === 1 ? this.line[0] : this.line[0] + this.line[this.line.length - 1];
+        this.stake = units * this.initial_stake;
+    }
+
+    onWin() {
+        this.line = this.line.slice(1, -1);
+        this.updateStake();
+    }
+
+    onLoss() {
+        this.line = [...this.line, this.stake / this.initial_stake];
+        this.updateStake();
+    }
+
+    reset() {
+        this.line = [...this.initial_line];
+        this.updateStake();
+    }
+}
+
+/**
+ * Stakes a fraction of the Kelly criterion `p - (1 - p) / b` of the balance, where `p` is
+ * the configured or observed win rate and `b` the net payout. The initial stake is the
+ * floor used without a positive edge or a known balance.
+ */
+class KellyPlan extends BaseStakingPlan {
+    wins = 0;
+    trades = 0;
+    payout = this.config.payout ?? DEFAULT_PAYOUT;
+
+    get win_probability() {
+        // Laplace estimate, so that the first trades do not produce an extreme edge.
+        return this.config.win_probability ?? (this.wins + 1) / (this.trades + 2);
+    }
+
+    get edge() {
+        const p = this.win_probability;
+        return p - (1 - p) / this.payout;
+    }
+
+    getStake({ balance }: TStakingContext = {}) {
+        const { fraction = 0.5, max_stake = 0 } = this.config;
+        const kelly_stake = balance && this.edge > 0 ? balance * fraction * this.edge : 0;
+        const stake = Math.max(this.initial_stake, kelly_stake);
+        return roundStake(max_stake > 0 ? Math.min(stake, max_stake) : stake);
+    }
+
+    recordResult({ profit, stake }: TStakingTradeResult) {
+        this.trades++;
+        if (profit > 0) {
+            this.wins++;
+            if (stake > 0) this.payout = profit / stake;
+        }
+    }
+
+    reset() {
+        super.reset();
+        this.wins = 0;
+        this.trades = 0;
+        this.payout = this.config.payout ?? DEFAULT_PAYOUT;
+    }
+}
+
+class PercentOfBalancePlan extends BaseStakingPlan {
+    getStake({ balance }: TStakingContext = {}) {
+        const { percentage = 1, max_stake = 0 } = this.config;
+        const stake = Math.max(this.initial_stake, ((balance ?? 0) * percentage) / 100);
+        return roundStake(max_stake > 0 ? Math.min(stake, max_stake) : stake);
+    }
+}
+
+const STAKING_PLANS: Record<TStakingPlanId, new (config: TStakingPlanConfig) => StakingPlan> = {
+    flat: FlatPlan,
+    martingale: MartingalePlan,
+    reverse_martingale: ReverseMartingalePlan,
+    dalembert: DAlembertPlan,
+    reverse_dalembert: ReverseDAlembertPlan,
+    oscars_grind: OscarsGrindPlan,
+    '1_3_2_6': Plan1326,
+    fibonacci: FibonacciPlan,
+    labouchere: LaboucherePlan,
+    kelly: KellyPlan,
+    percent_of_balance: PercentOfBalancePlan,
+};
+
+export const createStakingPlan = (config: TStakingPlanConfig): StakingPlan => {
+    const Plan = STAKING_PLANS[config.id] ?? FlatPlan;
+    return new Plan({ ...config, initial_stake: Number(config.initial_stake) || 0 });
+};
@@ -0,0 +1,141 @@
+import { createMockForage } from '@/utils/mock/mock-storage';
+import { diffStrategies, hasStrategyChanged, parseStrategyBlocks } from '../strategy-diff';
+import StrategyHistory from '../strategy-history';
+
+const createStrategy = ({ amount = '1', x = 0, with_log = false, log_disabled = false } = {}) => `
+<xml xmlns="http://www.w3.org/1999/xhtml" is_dbot="true">
+    <block type="trade_definition" id="trade" x="${x}" y="0">
+        <statement name="SUBMARKET">
+            <block type="trade_definition_market" id="market">
+                <field name="MARKET_LIST">synthetic_index</field>
+                <field name="SYMBOL_LIST">R_100</field>
+            </block>
+        </statement>
+    </block>
+    <block type="before_purchase" id="before" x="0" y="400">
+        <statement name="BEFOREPURCHASE_STACK">
+            <block type="purchase" id="purchase">
+                <field name="PURCHASE_LIST">CALL</field>
+                ${
+                    with_log
+                        ? `<next><block type="notify" id="log"${log_disabled ? ' disabled="true"' : ''}>
+                            <field name="NOTIFICATION_TYPE">success</field>
+                        </block></next>`
+                        : ''
+                }
+            </block>
+        </statement>
+    </block>
+    <block type="math_number" id="amount" x="0" y="800">
+        <field name="NUM">${amount}</field>
+    </block>
+</xml>`;
+
+describe('strategy-diff', () => {
+    it('should read blocks with their fields and parent connection', () => {
+        const blocks = parseStrategyBlocks(createStrategy());
+
+        expect([...blocks.keys()]).toEqual(['trade', 'market', 'before', 'purchase', 'amount']);
+        expect(blocks.get('market')).toEqual({
+            id: 'market',
+            type: 'trade_definition_market',
+            fields: { MARKET_LIST: 'synthetic_index', SYMBOL_LIST: 'R_100' },
+            parent_id: 'trade',
+            input: 'SUBMARKET',
+            is_disabled: false,
+        });
+    });
+
+    it('should reject XML that cannot be parsed', () => {
+        expect(() => parseStrategyBlocks('<xml><block></xml>')).toThrow('Unable to read the strategy XML');
+    });
+
+    it('should report added, removed and changed blocks', () => {
+        const diff = diffStrategies(createStrategy({ with_log: true }), createStrategy({ amount: '2.5' }));
+
+        expect(diff.added).toEqual([]);
+        expect(diff.removed.map(({ id }) => id)).toEqual(['log']);
+        expect(diff.changed).toEqual([
+            {
+                id: 'amount',
+                type: 'math_number',
+                field_changes: [{ name: 'NUM', before: '1', after: '2.5' }],
+                is_moved: false,
+                is_toggled: false,
+            },
+        ]);
+        expect(diff.unchanged_count).toBe(4);
+        expect(diffStrategies(createStrategy(), createStrategy({ with_log: true })).added[0]).toMatchObject({
+            id: 'log',
+            parent_id: 'purchase',
+            input: 'next',
+        });
+    });
+
+    it('should report blocks that were disabled', () => {
+        const diff = diffStrategies(
+            createStrategy({ with_log: true }),
+            createStrategy({ with_log: true, log_disabled: true })
+        );
+
+        expect(diff.changed).toEqual([
+            { id: 'log', type: 'notify', field_changes: [], is_moved: false, is_toggled: true },
+        ]);
+    });
+
+    it('should ignore blocks moved around the canvas', () => {
+        expect(hasStrategyChanged(diffStrategies(createStrategy(), createStrategy({ x: 300 })))).toBe(false);
+    });
+});
+
+describe('StrategyHistory', () => {
+    const strategy_id = 'bot-1';
+    let history: StrategyHistory;
+
+    beforeEach(() => {
+        history = new StrategyHistory(createMockForage(), 3);
+    });
+
+    it('should keep versions newest first', async () => {
+        await history.addVersion({ strategy_id, name: 'Bot', xml: createStrategy() });
+        await history.addVersion({ strategy_id, name: 'Bot', xml: createStrategy({ amount: '2' }), note: 'Stake 2' });
+
+        const versions = await history.getVersions(strategy_id);
+        expect(versions.map(({ note }) => note)).toEqual(['Stake 2', '']);
+        expect(versions[0]).toMatchObject({ strategy_id, name: 'Bot' });
+        expect(versions[0].id).not.toBe(versions[1].id);
+        expect(await history.getVersions('bot-2')).toEqual([]);
+    });
+
+    it('should not add a version when the blocks have not changed', async () => {
+        await history.addVersion({ strategy_id, name: 'Bot', xml: createStrategy() });
+        await history.addVersion({ strategy_id, name: 'Bot', xml: createStrategy({ x: 120 }) });
+        await history.addVersion({ strategy_id, name: 'Bot v2', xml: createStrategy(), note: 'Renamed' });
+
+        const versions = await history.getVersions(strategy_id);
+        expect(versions).toHaveLength(1);
+        expect(versions[0]).toMatchObject({ name: 'Bot v2', note: 'Renamed' });
+    });
+
+    it('should keep only the latest versions', async () => {
+        await Promise.all(
+            ['1', '2', '3', '4'].map(amount =>
+                history.addVersion({ strategy_id, name: 'Bot', xml: createStrategy({ amount }) })
+            )
+        );
+
+        const versions = await history.getVersions(strategy_id);
+        expect(versions.map(({ xml }) => parseStrategyBlocks(xml).get('amount')?.fields.NUM)).toEqual(['4', '3', '2']);
+    });
+
+    it('should update notes and remove the history of a strategy', async () => {
+        const version = await history.addVersion({ strategy_id, name: 'Bot', xml: createStrategy() });
+
+        await history.updateNote(strategy_id, version.id, 'Works on R_100');
+        expect((await history.getVersions(strategy_id))[0].note).toBe('Works on R_100');
+        expect(await history.updateNote(strategy_id, 'unknown', 'note')).toBeNull();
+
+        await history.removeHistory(strategy_id);
+        expect(await history.getVersions(strategy_id)).toEqual([]);
+    });
+});
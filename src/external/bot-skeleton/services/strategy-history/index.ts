@@ -0,0 +1,3 @@
+export * from './strategy-diff';
+export * from './strategy-history';
+export { default as StrategyHistory } from './strategy-history';
@@ -0,0 +1,117 @@
+export type TStrategyBlock = {
+    id: string;
+    type: string;
+    fields: Record<string, string>;
+    parent_id: string;
+    input: string;
+    is_disabled: boolean;
+};
+
+export type TFieldChange = {
+    name: string;
+    before?: string;
+    after?: string;
+};
+
+export type TBlockChange = {
+    id: string;
+    type: string;
+    field_changes: TFieldChange[];
+    is_moved: boolean;
+    is_toggled: boolean;
+};
+
+export type TStrategyDiff = {
+    added: TStrategyBlock[];
+    removed: TStrategyBlock[];
+    changed: TBlockChange[];
+    unchanged_count: number;
+};
+
+const CONNECTION_TAGS = ['statement', 'value', 'next'];
+
+const getChildElements = (element: Element, tag_name: string) =>
+    Array.from(element.children).filter(child => child.tagName.toLowerCase() === tag_name);
+
+/**
+ * Reads the blocks of a strategy XML by id, with their own field values and the input
+ * of the block they are attached to. Shadow blocks are included, since the numbers and
+ * texts of a strategy usually live in them.
+ */
+export const parseStrategyBlocks = (xml: string) => {
+    const xml_doc = new DOMParser().parseFromString(xml, 'text/xml');
+    if (xml_doc.getElementsByTagName('parsererror').length) {
+        throw new Error('Unable to read the strategy XML');
+    }
+
+    const blocks = new Map<string, TStrategyBlock>();
+    const elements = Array.from(xml_doc.getElementsByTagName('*')).filter(element =>
+        ['block', 'shadow'].includes(element.tagName.toLowerCase())
+    );
+
+    elements.forEach((element, index) => {
+        const connection = element.parentElement;
+        const is_connected = !!connection && CONNECTION_TAGS.includes(connection.tagName.toLowerCase());
+        const parent = is_connected ? connection.parentElement : null;
+        const fields = getChildElements(element, 'field').reduce<Record<string, string>>((values, field) => {
+            values[field.getAttribute('name') ?? ''] = field.textContent ?? '';
+            return values;
+        }, {});
+        const id = element.getAttribute('id') || `${element.getAttribute('type')}-${index}`;
+
+        blocks.set(id, {
+            id,
+            type: element.getAttribute('type') ?? '',
+            fields,
+            parent_id: parent?.getAttribute('id') ?? '',
+            input: is_connected ? connection.getAttribute('name') || connection.tagName.toLowerCase() : '',
+            is_disabled: element.getAttribute('disabled') === 'true',
+        });
+    });
+
+    return blocks;
+};
+
+const getFieldChanges = (before: TStrategyBlock, after: TStrategyBlock) =>
+    [...new Set([...Object.keys(before.fields), ...Object.keys(after.fields)])]
+        .filter(name => before.fields[name] !== after.fields[name])
+        .map(name => ({ name, before: before.fields[name], after: after.fields[name] }));
+
+/**
+ * Compares two versions of a strategy block by block. Blocks keep their ids while a
+ * strategy is edited, so a block is matched by id; a block whose type changed is
+ * reported as removed and added. Positions on the canvas are ignored.
+ */
+export const diffStrategies = (before_xml: string, after_xml: string): TStrategyDiff => {
+    const before_blocks = parseStrategyBlocks(before_xml);
+    const after_blocks = parseStrategyBlocks(after_xml);
+    const diff: TStrategyDiff = { added: [], removed: [], changed: [], unchanged_count: 0 };
+
+    before_blocks.forEach((before, id) => {
+        const after = after_blocks.get(id);
+        if (!after || after.type !== before.type) diff.removed.push(before);
+    });
+
+    after_blocks.forEach((after, id) => {
+        const before = before_blocks.get(id);
+        if (!before || before.type !== after.type) {
+            diff.added.push(after);
+            return;
+        }
+
+        const field_changes = getFieldChanges(before, after);
+        const is_moved = before.parent_id !== after.parent_id || before.input !== after.input;
+        const is_toggled = before.is_disabled !== after.is_disabled;
+
+        if (field_changes.length || is_moved || is_toggled) {
+            diff.changed.push({ id, type: after.type, field_changes, is_moved, is_toggled });
+        } else {
+            diff.unchanged_count++;
+        }
+    });
+
+    return diff;
+};
+
+export const hasStrategyChanged = (diff: TStrategyDiff) =>
+    !!(diff.added.length || diff.removed.length || diff.changed.length);
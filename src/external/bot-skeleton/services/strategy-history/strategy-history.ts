@@ -0,0 +1,102 @@
+import localForage from 'localforage';
+import { diffStrategies, hasStrategyChanged } from './strategy-diff';
+
+export type THistoryStorage = Pick<LocalForage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export type TStrategyVersion = {
+    id: string;
+    strategy_id: string;
+    name: string;
+    xml: string;
+    timestamp: number;
+    note: string;
+};
+
+export type TNewStrategyVersion = Pick<TStrategyVersion, 'strategy_id' | 'name' | 'xml'> & { note?: string };
+
+export const MAX_VERSIONS_PER_STRATEGY = 50;
+
+const VERSIONS_KEY_PREFIX = 'versions:';
+
+const getVersionsKey = (strategy_id: string) => `${VERSIONS_KEY_PREFIX}${strategy_id}`;
+
+const isSameStrategy = (xml: string, other_xml: string) => {
+    try {
+        return !hasStrategyChanged(diffStrategies(xml, other_xml));
+    } catch (e) {
+        return xml === other_xml;
+    }
+};
+
+/**
+ * Keeps the earlier versions of every saved strategy, newest first. The recent strategies
+ * list only holds the latest XML of a strategy, so a version is added whenever it is saved
+ * with different blocks or field values. Moving blocks around doesn't make a new version.
+ */
+export default class StrategyHistory {
+    storage: THistoryStorage;
+    max_versions: number;
+    write_queue: Promise<unknown> = Promise.resolve();
+
+    constructor(storage?: THistoryStorage, max_versions = MAX_VERSIONS_PER_STRATEGY) {
+        this.storage = storage ?? localForage.createInstance({ name: 'dbot', storeName: 'strategy_history' });
+        this.max_versions = max_versions;
+    }
+
+    async getVersions(strategy_id: string): Promise<TStrategyVersion[]> {
+        if (!strategy_id) return [];
+        try {
+            return (await this.storage.getItem<TStrategyVersion[]>(getVersionsKey(strategy_id))) ?? [];
+        } catch (e) {
+            return [];
+        }
+    }
+
+    /**
+     * Records a version unless it has the same blocks as the latest one. In that case a
+     * note, if given, is attached to the latest version instead.
+     */
+    addVersion({ strategy_id, name, xml, note = '' }: TNewStrategyVersion) {
+        return this.enqueueWrite(async () => {
+            const versions = await this.getVersions(strategy_id);
+            const [latest] = versions;
+
+            if (latest && isSameStrategy(latest.xml, xml)) {
+                if (!note && latest.name === name) return latest;
+                latest.note = note || latest.note;
+                latest.name = name;
+                await this.storage.setItem(getVersionsKey(strategy_id), versions);
+                return latest;
+            }
+
+            const timestamp = Date.now();
+            const version = { id: `${timestamp}-${versions.length}`, strategy_id, name, xml, timestamp, note };
+            await this.storage.setItem(getVersionsKey(strategy_id), [version, ...versions].slice(0, this.max_versions));
+            return version;
+        });
+    }
+
+    updateNote(strategy_id: string, version_id: string, note: string) {
+        return this.enqueueWrite(async () => {
+            const versions = await this.getVersions(strategy_id);
+            const version = versions.find(({ id }) => id === version_id);
+            if (!version) return null;
+
+            version.note = note;
+            await this.storage.setItem(getVersionsKey(strategy_id), versions);
+            return version;
+        });
+    }
+
+    removeHistory(strategy_id: string) {
+        return this.enqueueWrite(() => this.storage.removeItem(getVersionsKey(strategy_id)));
+    }
+
+    enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+        const result = this.write_queue.then(write);
+        this.write_queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+export const strategy_history = new StrategyHistory();
@@ -0,0 +1,159 @@
+import { scanStrategy } from '../strategy-scanner';
+
+const TELEGRAM_TOKEN = '123456789:AAHdqTcvCH1vGWJxfSeofSAs0K5PALDsaw0';
+const DERIV_TOKEN = 'a1-AbCdEfGhIjKlMnOpQrStUvWxYz012';
+
+const number = (value: number, id = `number-${value}`) =>
+    `<shadow type="math_number" id="${id}"><field name="NUM">${value}</field></shadow>`;
+
+const variable = (name: string, id = `get-${name}`) => `<block type="variables_get" id="${id}">
+    <field name="VAR">${name}</field>
+</block>`;
+
+const arithmetic = (operator: string, a: string, b: string, id = `arithmetic-${operator}`) => `
+<block type="math_arithmetic" id="${id}">
+    <field name="OP">${operator}</field>
+    <value name="A">${a}</value>
+    <value name="B">${b}</value>
+</block>`;
+
+const createStrategy = ({
+    stake = variable('stake'),
+    stake_value = number(1),
+    after_purchase = '',
+    purchase_attributes = '',
+    extra_blocks = '',
+} = {}) => `
+<xml xmlns="http://www.w3.org/1999/xhtml" is_dbot="true">
+    <variables><variable id="stake-id">stake</variable></variables>
+    <block type="trade_definition" id="trade" x="0" y="0">
+        <statement name="INITIALIZATION">
+            <block type="variables_set" id="set-stake">
+                <field name="VAR" id="stake-id">stake</field>
+                <value name="VALUE">${stake_value}</value>
+            </block>
+        </statement>
+        <statement name="SUBMARKET">
+            <block type="trade_definition_tradeoptions" id="options">
+                <value name="AMOUNT">${stake}</value>
+            </block>
+        </statement>
+    </block>
+    <block type="before_purchase" id="before" x="0" y="400">
+        <statement name="BEFOREPURCHASE_STACK">
+            <block type="purchase" id="purchase"${purchase_attributes}>
+                <field name="PURCHASE_LIST">CALL</field>
+            </block>
+        </statement>
+    </block>
+    <block type="after_purchase" id="after" x="0" y="800">
+        <statement name="AFTERPURCHASE_STACK">${after_purchase}</statement>
+    </block>
+    ${extra_blocks}
+</xml>`;
+
+describe('scanStrategy', () => {
+    it('should find nothing in a plain strategy', () => {
+        expect(scanStrategy(createStrategy())).toEqual([]);
+        expect(
+            scanStrategy(createStrategy({ stake_value: arithmetic('MULTIPLY', variable('stake'), number(2)) }))
+        ).toEqual([]);
+    });
+
+    it('should find nothing in XML it can not read', () => {
+        expect(scanStrategy('<xml><block')).toEqual([]);
+    });
+
+    it('should report blocks that send data out of the app', () => {
+        const findings = scanStrategy(
+            createStrategy({
+                after_purchase: `<block type="notify_telegram" id="telegram"></block>`,
+                extra_blocks: `<block type="loader" id="loader"><field name="URL">https://example.com/blocks.xml</field></block>`,
+            })
+        );
+
+        expect(findings).toEqual([
+            {
+                code: 'outbound_network',
+                block_id: 'telegram',
+                block_type: 'notify_telegram',
+                detail: 'api.telegram.org',
+            },
+            {
+                code: 'outbound_network',
+                block_id: 'loader',
+                block_type: 'loader',
+                detail: 'https://example.com/blocks.xml',
+            },
+        ]);
+    });
+
+    it('should report tokens written into the strategy', () => {
+        const findings = scanStrategy(
+            createStrategy({
+                extra_blocks: `
+                    <block type="text" id="telegram-token"><field name="TEXT">${TELEGRAM_TOKEN}</field></block>
+                    <block type="text" id="deriv-token"><field name="TEXT">token ${DERIV_TOKEN}</field></block>
+                    <block type="text" id="message"><field name="TEXT">Won 12:30</field></block>`,
+            })
+        );
+
+        expect(findings.map(({ code, block_id, detail }) => [code, block_id, detail])).toEqual([
+            ['hardcoded_token', 'telegram-token', 'telegram'],
+            ['hardcoded_token', 'deriv-token', 'deriv'],
+        ]);
+    });
+
+    it('should report trade blocks inside collapsed or disabled blocks', () => {
+        expect(scanStrategy(createStrategy({ purchase_attributes: ' collapsed="true"' }))).toEqual([
+            { code: 'hidden_purchase', block_id: 'purchase', block_type: 'purchase', detail: 'collapsed' },
+        ]);
+        expect(
+            scanStrategy(
+                createStrategy({
+                    extra_blocks: `<block type="controls_if" id="if" disabled="true">
+                        <statement name="DO0">
+                            <block type="trade_again" id="again"></block>
+                        </statement>
+                    </block>`,
+                })
+            )
+        ).toEqual([{ code: 'hidden_purchase', block_id: 'again', block_type: 'trade_again', detail: 'disabled' }]);
+    });
+
+    it('should report unusual stakes, following the variables the stake is read from', () => {
+        const findings = scanStrategy(
+            createStrategy({
+                stake_value: `<block type="balance" id="balance"><field name="BALANCE_TYPE">NUM</field></block>`,
+                after_purchase: `
+                    <block type="variables_set" id="martingale">
+                        <field name="VAR" id="stake-id">stake</field>
+                        <value name="VALUE">${arithmetic('POWER', variable('stake', 'get-stake-2'), number(2))}</value>
+                        <next>
+                            <block type="math_change" id="change">
+                                <field name="VAR" id="stake-id">stake</field>
+                                <value name="DELTA">
+                                    ${arithmetic('MULTIPLY', number(25, 'factor'), variable('stake', 'get-stake-3'), 'multiply')}
+                                </value>
+                            </block>
+                        </next>
+                    </block>`,
+                extra_blocks: `<block type="math_random_int" id="unrelated-random"></block>`,
+            })
+        );
+
+        expect(findings.map(({ code, block_id, detail }) => [code, block_id, detail])).toEqual([
+            ['unusual_stake', 'balance', 'balance'],
+            ['unusual_stake', 'arithmetic-POWER', 'power'],
+            ['unusual_stake', 'multiply', 'large_multiplier'],
+        ]);
+    });
+
+    it('should report a stake that uses a random number', () => {
+        const findings = scanStrategy(createStrategy({ stake: `<block type="math_random_int" id="random"></block>` }));
+
+        expect(findings).toEqual([
+            { code: 'unusual_stake', block_id: 'random', block_type: 'math_random_int', detail: 'random' },
+        ]);
+    });
+});
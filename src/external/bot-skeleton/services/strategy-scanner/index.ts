@@ -0,0 +1,2 @@
+export * from './scanner-messages';
+export * from './strategy-scanner';
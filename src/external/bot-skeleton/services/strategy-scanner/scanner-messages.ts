@@ -0,0 +1,52 @@
+import { localize } from '@deriv-com/translations';
+import { TScanFinding } from './strategy-scanner';
+
+const getTokenName = (kind: string) =>
+    kind === 'deriv' ? localize('A Deriv API token') : localize('A Telegram bot token');
+
+const getUnusualStakeMessage = (reason: string) => {
+    switch (reason) {
+        case 'balance':
+            return localize('The stake is worked out from your account balance.');
+        case 'random':
+            return localize('The stake uses a random number.');
+        case 'power':
+            return localize('The stake is raised to a power, so it can grow very fast.');
+        default:
+            return localize('The stake is multiplied by a large number.');
+    }
+};
+
+export const getScanFindingTitle = ({ code }: TScanFinding) => {
+    switch (code) {
+        case 'outbound_network':
+            return localize('Sends data out of the app');
+        case 'hardcoded_token':
+            return localize('Token in the strategy');
+        case 'hidden_purchase':
+            return localize('Hidden trade block');
+        case 'unusual_stake':
+            return localize('Unusual stake');
+        default:
+            return code;
+    }
+};
+
+export const getScanFindingMessage = ({ code, detail }: TScanFinding) => {
+    switch (code) {
+        case 'outbound_network':
+            return localize('A block sends data to {{ address }} while the bot runs.', { address: detail });
+        case 'hardcoded_token':
+            return localize('{{ token_name }} is written into the strategy. Whoever owns it can use it.', {
+                token_name: getTokenName(detail),
+            });
+        case 'hidden_purchase':
+            return detail === 'disabled'
+                ? localize('A block that buys or sells contracts is disabled, and trades once it is enabled.')
+                : localize('A block that buys or sells contracts is inside a collapsed block.');
+        case 'unusual_stake':
+            return getUnusualStakeMessage(detail);
+        default:
+            return detail;
+    }
+};
@@ -0,0 +1,162 @@
+export type TScanFindingCode = 'outbound_network' | 'hardcoded_token' | 'hidden_purchase' | 'unusual_stake';
+
+export type TScanFinding = {
+    code: TScanFindingCode;
+    block_id: string;
+    block_type: string;
+    /**
+     * What was found: the address a block sends to, the kind of token, why a trade block
+     * is hidden or what makes a stake unusual.
+     */
+    detail: string;
+};
+
+/** The blocks that buy or sell contracts. */
+export const TRADE_BLOCK_TYPES = ['purchase', 'sell_at_market', 'trade_again'];
+
+/** Stake factors from this one up are reported, Martingale staking usually doubles. */
+export const LARGE_STAKE_MULTIPLIER = 10;
+
+const TOKEN_PATTERNS = [
+    { kind: 'telegram', pattern: /\b\d{6,12}:[A-Za-z0-9_-]{30,}\b/ },
+    { kind: 'deriv', pattern: /\ba1-[A-Za-z0-9]{29}\b/ },
+];
+
+const getChildElements = (element: Element, tag_name: string) =>
+    Array.from(element.children).filter(child => child.tagName.toLowerCase() === tag_name);
+
+const getField = (element: Element, name: string) =>
+    getChildElements(element, 'field').find(field => field.getAttribute('name') === name)?.textContent ?? '';
+
+const isBlockElement = (element: Element | null): element is Element =>
+    !!element && ['block', 'shadow'].includes(element.tagName.toLowerCase());
+
+const getBlockElements = (element: Element | Document) =>
+    Array.from(element.getElementsByTagName('*')).filter(isBlockElement);
+
+const getInputBlocks = (element: Element, input_name: string) =>
+    getChildElements(element, 'value')
+        .filter(value => value.getAttribute('name') === input_name)
+        .flatMap(value => getBlockElements(value));
+
+const createFinding = (code: TScanFindingCode, element: Element, detail = ''): TScanFinding => ({
+    code,
+    block_id: element.getAttribute('id') ?? '',
+    block_type: element.getAttribute('type') ?? '',
+    detail,
+});
+
+const findOutboundBlocks = (blocks: Element[]) =>
+    blocks.flatMap(block => {
+        switch (block.getAttribute('type')) {
+            case 'notify_telegram':
+                return [createFinding('outbound_network', block, 'api.telegram.org')];
+            case 'loader':
+                return [createFinding('outbound_network', block, getField(block, 'URL'))];
+            default:
+                return [];
+        }
+    });
+
+const findTokens = (blocks: Element[]) =>
+    blocks.flatMap(block =>
+        getChildElements(block, 'field').flatMap(field => {
+            const text = field.textContent ?? '';
+            return TOKEN_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ kind }) =>
+                createFinding('hardcoded_token', block, kind)
+            );
+        })
+    );
+
+const getHiddenReason = (block: Element) => {
+    const blocks: Element[] = [];
+    for (let element: Element | null = block; element; element = element.parentElement) {
+        if (isBlockElement(element)) blocks.push(element);
+    }
+    if (blocks.some(element => element.getAttribute('collapsed') === 'true')) return 'collapsed';
+    if (blocks.some(element => element.getAttribute('disabled') === 'true')) return 'disabled';
+    return '';
+};
+
+const findHiddenPurchases = (blocks: Element[]) =>
+    blocks
+        .filter(block => TRADE_BLOCK_TYPES.includes(block.getAttribute('type') ?? ''))
+        .map(block => ({ block, reason: getHiddenReason(block) }))
+        .filter(({ reason }) => reason)
+        .map(({ block, reason }) => createFinding('hidden_purchase', block, reason));
+
+/**
+ * Collects the blocks that work out the stake: the stake inputs of the trade parameters and
+ * whatever sets or changes the variables used there.
+ */
+const getStakeBlocks = (blocks: Element[]) => {
+    const stake_blocks = new Set<Element>();
+    const variables = new Set<string>();
+    const queue = blocks
+        .filter(block => block.getAttribute('type')?.startsWith('trade_definition'))
+        .flatMap(block => getInputBlocks(block, 'AMOUNT'));
+
+    while (queue.length) {
+        const block = queue.shift() as Element;
+        if (stake_blocks.has(block)) continue;
+        stake_blocks.add(block);
+
+        const variable = block.getAttribute('type') === 'variables_get' ? getField(block, 'VAR') : '';
+        if (!variable || variables.has(variable)) continue;
+        variables.add(variable);
+
+        blocks
+            .filter(item => getField(item, 'VAR') === variable)
+            .forEach(item => {
+                if (item.getAttribute('type') === 'variables_set') queue.push(...getInputBlocks(item, 'VALUE'));
+                if (item.getAttribute('type') === 'math_change') queue.push(...getInputBlocks(item, 'DELTA'));
+            });
+    }
+
+    return [...stake_blocks];
+};
+
+const getNumber = (block: Element | undefined) =>
+    block?.getAttribute('type') === 'math_number' ? Number(getField(block, 'NUM')) : NaN;
+
+const getUnusualStakeReason = (block: Element) => {
+    const type = block.getAttribute('type');
+    const operator = getField(block, 'OP');
+
+    if (type === 'balance') return 'balance';
+    if (type === 'math_random_int' || type === 'math_random_float') return 'random';
+    if (type === 'math_arithmetic' && operator === 'POWER') return 'power';
+    if (
+        type === 'math_arithmetic' &&
+        operator === 'MULTIPLY' &&
+        ['A', 'B'].some(input => getNumber(getInputBlocks(block, input)[0]) >= LARGE_STAKE_MULTIPLIER)
+    ) {
+        return 'large_multiplier';
+    }
+    return '';
+};
+
+const findUnusualStakes = (blocks: Element[]) =>
+    getStakeBlocks(blocks)
+        .map(block => ({ block, reason: getUnusualStakeReason(block) }))
+        .filter(({ reason }) => reason)
+        .map(({ block, reason }) => createFinding('unusual_stake', block, reason));
+
+/**
+ * Looks through a strategy for what a shared file could hide from whoever runs it: blocks
+ * that send data out of the app, tokens written into the strategy, trade blocks kept out
+ * of sight in collapsed or disabled blocks and stakes that grow in unusual ways. XML that
+ * can't be read has no findings, loading it fails anyway.
+ */
+export const scanStrategy = (xml: string) => {
+    const xml_doc = new DOMParser().parseFromString(xml, 'text/xml');
+    if (xml_doc.getElementsByTagName('parsererror').length) return [];
+
+    const blocks = getBlockElements(xml_doc);
+    return [
+        ...findOutboundBlocks(blocks),
+        ...findTokens(blocks),
+        ...findHiddenPurchases(blocks),
+        ...findUnusualStakes(blocks),
+    ];
+};
@@ -0,0 +1,91 @@
+import { createMockForage } from '@/utils/mock/mock-storage';
+import { parseTickFile } from '../../backtest/tick-file';
+import { applyRetention, getLastDigits, mergeTicks, serialiseDataset } from '../tick-history-utils';
+import TickRecorder from '../tick-recorder';
+
+const toTicks = (epochs: number[]) => epochs.map(epoch => ({ epoch, quote: 100 + epoch / 100 }));
+
+describe('tick-history-utils', () => {
+    it('should merge overlapping tick series without duplicates', () => {
+        expect(mergeTicks(toTicks([1, 2, 3]), toTicks([3, 4])).map(({ epoch }) => epoch)).toEqual([1, 2, 3, 4]);
+        expect(mergeTicks(toTicks([2, 4]), toTicks([1, 3])).map(({ epoch }) => epoch)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should apply the age and count retention limits', () => {
+        const now = 10 * 86400;
+        const ticks = toTicks([now - 3 * 86400, now - 86400, now - 2, now - 1, now]);
+
+        expect(applyRetention(ticks, { max_ticks_per_symbol: 0, max_age_days: 2 }, now)).toHaveLength(4);
+        expect(applyRetention(ticks, { max_ticks_per_symbol: 2, max_age_days: 0 }, now)).toEqual(ticks.slice(-2));
+        expect(applyRetention(ticks, { max_ticks_per_symbol: 0, max_age_days: 0 }, now)).toBe(ticks);
+    });
+
+    it('should export files that parse back into the same dataset', () => {
+        const dataset = {
+            symbol: 'R_50',
+            pip_size: 4,
+            ticks: [
+                { epoch: 1, quote: 10.1 },
+                { epoch: 2, quote: 10.1234 },
+            ],
+        };
+
+        expect(serialiseDataset(dataset, 'csv').split('\n')[1]).toBe('1,10.1000,R_50');
+        expect(parseTickFile(serialiseDataset(dataset, 'csv'))).toEqual(dataset);
+        expect(parseTickFile(serialiseDataset(dataset, 'json'))).toEqual(dataset);
+        expect(getLastDigits(dataset)).toEqual([0, 4]);
+    });
+});
+
+describe('TickRecorder', () => {
+    it('should persist only the ticks newer than the last recorded one', async () => {
+        const recorder = new TickRecorder(createMockForage());
+        await recorder.updateSettings({ max_age_days: 0 });
+
+        recorder.record('R_100', toTicks([1, 2, 3]), 2);
+        recorder.record('R_100', toTicks([2, 3, 4]), 2);
+        expect(recorder.pending.get('R_100')?.ticks.map(({ epoch }) => epoch)).toEqual([1, 2, 3, 4]);
+
+        const dataset = await recorder.getTicks('R_100');
+        expect(dataset).toMatchObject({ symbol: 'R_100', pip_size: 2 });
+        expect(dataset?.ticks).toHaveLength(4);
+        expect(await recorder.getSummaries()).toEqual([
+            { symbol: 'R_100', pip_size: 2, count: 4, first_epoch: 1, last_epoch: 4 },
+        ]);
+    });
+
+    it('should not record while paused or disabled', async () => {
+        const recorder = new TickRecorder(createMockForage());
+
+        recorder.setIsPaused(true);
+        recorder.record('R_100', toTicks([1, 2]), 2);
+        recorder.setIsPaused(false);
+        await recorder.updateSettings({ is_enabled: false });
+        recorder.record('R_100', toTicks([3, 4]), 2);
+
+        expect(await recorder.getSummaries()).toEqual([]);
+    });
+
+    it('should trim stored ticks when the retention limit is lowered', async () => {
+        const recorder = new TickRecorder(createMockForage());
+        await recorder.updateSettings({ max_age_days: 0 });
+
+        recorder.record('R_100', toTicks([1, 2, 3, 4, 5]), 2);
+        await recorder.flush();
+        await recorder.updateSettings({ max_ticks_per_symbol: 3 });
+
+        expect((await recorder.getTicks('R_100'))?.ticks.map(({ epoch }) => epoch)).toEqual([3, 4, 5]);
+    });
+
+    it('should merge imported files into the recorded history', async () => {
+        const recorder = new TickRecorder(createMockForage());
+        await recorder.updateSettings({ max_age_days: 0 });
+
+        recorder.record('1HZ10V', toTicks([3, 4]), 2);
+        await recorder.importFile('epoch,quote,symbol\n1,10.01,1HZ10V\n2,10.02,1HZ10V\n3,10.03,1HZ10V');
+
+        const dataset = await recorder.getTicks('1HZ10V', { from: 2 });
+        expect(dataset?.ticks.map(({ epoch }) => epoch)).toEqual([2, 3, 4]);
+        expect(await recorder.exportDataset('1HZ10V', 'csv')).toContain('4,100.04,1HZ10V');
+    });
+});
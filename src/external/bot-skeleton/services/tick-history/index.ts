@@ -0,0 +1,3 @@
+export * from './tick-history-utils';
+export type { TTickStorage } from './tick-recorder';
+export { tick_recorder, default as TickRecorder } from './tick-recorder';
@@ -0,0 +1,97 @@
+import { getLastDigitOfQuote } from '../backtest/contract-simulator';
+import { TReplayDataset, TReplayTick } from '../backtest/tick-file';
+
+export type TTickHistorySettings = {
+    is_enabled: boolean;
+    max_ticks_per_symbol: number;
+    max_age_days: number;
+};
+
+export type TTickHistorySummary = {
+    symbol: string;
+    pip_size: number;
+    count: number;
+    first_epoch: number;
+    last_epoch: number;
+};
+
+export type TTickExportFormat = 'csv' | 'json';
+
+export const DEFAULT_TICK_HISTORY_SETTINGS: TTickHistorySettings = {
+    is_enabled: true,
+    max_ticks_per_symbol: 50000,
+    max_age_days: 7,
+};
+
+const SECONDS_IN_DAY = 86400;
+
+/**
+ * Merges newly received ticks into a recorded series. Ticks are keyed by epoch so a
+ * history response overlapping the stream does not produce duplicates.
+ */
+export const mergeTicks = (existing: TReplayTick[], incoming: TReplayTick[]) => {
+    const last_epoch = existing.length ? existing[existing.length - 1].epoch : -Infinity;
+
+    if (incoming.every(({ epoch }, index) => epoch > last_epoch && (!index || epoch > incoming[index - 1].epoch))) {
+        return [...existing, ...incoming];
+    }
+
+    const by_epoch = new Map<number, TReplayTick>();
+    [...existing, ...incoming].forEach(tick => by_epoch.set(tick.epoch, tick));
+
+    return [...by_epoch.values()].sort((a, b) => a.epoch - b.epoch);
+};
+
+/**
+ * Drops ticks older than `max_age_days` and keeps at most `max_ticks_per_symbol` of the
+ * most recent ones. A limit of 0 disables that rule.
+ */
+export const applyRetention = (
+    ticks: TReplayTick[],
+    { max_ticks_per_symbol, max_age_days }: Pick<TTickHistorySettings, 'max_ticks_per_symbol' | 'max_age_days'>,
+    now_epoch = Math.floor(Date.now() / 1000)
+) => {
+    let retained = ticks;
+
+    if (max_age_days > 0) {
+        const oldest_epoch = now_epoch - max_age_days * SECONDS_IN_DAY;
+        const first_index = retained.findIndex(({ epoch }) => epoch >= oldest_epoch);
+        retained = first_index === -1 ? [] : retained.slice(first_index);
+    }
+
+    if (max_ticks_per_symbol > 0 && retained.length > max_ticks_per_symbol) {
+        retained = retained.slice(-max_ticks_per_symbol);
+    }
+
+    return retained;
+};
+
+export const getPipSizeOfQuotes = (quotes: number[]) =>
+    quotes.reduce((pip_size, quote) => {
+        const [, decimals = ''] = String(quote).split('.');
+        return Math.max(pip_size, decimals.length);
+    }, 0);
+
+export const summariseDataset = ({ symbol, pip_size, ticks }: TReplayDataset): TTickHistorySummary => ({
+    symbol,
+    pip_size,
+    count: ticks.length,
+    first_epoch: ticks[0]?.epoch ?? 0,
+    last_epoch: ticks[ticks.length - 1]?.epoch ?? 0,
+});
+
+/**
+ * Serialises a recorded dataset in one of the formats `parseTickFile` reads back, so an
+ * export can be imported again or fed straight into the backtester.
+ */
+export const serialiseDataset = ({ symbol, pip_size, ticks }: TReplayDataset, format: TTickExportFormat) => {
+    if (format === 'json') {
+        return JSON.stringify({ symbol, pip_size, ticks });
+    }
+
+    const rows = ticks.map(({ epoch, quote }) => `${epoch},${quote.toFixed(pip_size)},${symbol}`);
+    return ['epoch,quote,symbol', ...rows].join('\n');
+};
+
+export const getLastDigits = ({ pip_size, ticks }: TReplayDataset) =>
+    ticks.map(({ quote }) => getLastDigitOfQuote(quote, pip_size));
@@ -0,0 +1,212 @@
+import localForage from 'localforage';
+import { parseTickFile, TReplayDataset, TReplayTick } from '../backtest/tick-file';
+import {
+    applyRetention,
+    DEFAULT_TICK_HISTORY_SETTINGS,
+    getPipSizeOfQuotes,
+    mergeTicks,
+    serialiseDataset,
+    summariseDataset,
+    TTickExportFormat,
+    TTickHistorySettings,
+    TTickHistorySummary,
+} from './tick-history-utils';
+
+export type TTickStorage = Pick<LocalForage, 'getItem' | 'setItem' | 'removeItem' | 'keys'>;
+
+type TPendingTicks = {
+    pip_size?: number;
+    ticks: TReplayTick[];
+};
+
+const DATASET_KEY_PREFIX = 'ticks:';
+const SETTINGS_KEY = 'settings';
+const FLUSH_DELAY_MS = 5000;
+
+const getDatasetKey = (symbol: string) => `${DATASET_KEY_PREFIX}${symbol}`;
+
+/**
+ * Persists the ticks streamed to the app so that analysis and replay tools can use more
+ * than the in-memory window. Ticks are buffered per symbol and written in batches.
+ */
+export default class TickRecorder {
+    storage: TTickStorage;
+    settings: TTickHistorySettings = { ...DEFAULT_TICK_HISTORY_SETTINGS };
+    is_paused = false;
+    flush_delay_ms: number;
+    pending = new Map<string, TPendingTicks>();
+    last_recorded_epochs = new Map<string, number>();
+    flush_timeout: ReturnType<typeof setTimeout> | null = null;
+    write_queue: Promise<void> = Promise.resolve();
+    settings_promise: Promise<TTickHistorySettings> | null = null;
+
+    constructor(storage?: TTickStorage, flush_delay_ms = FLUSH_DELAY_MS) {
+        this.storage = storage ?? localForage.createInstance({ name: 'dbot', storeName: 'tick_history' });
+        this.flush_delay_ms = flush_delay_ms;
+    }
+
+    loadSettings() {
+        if (!this.settings_promise) {
+            this.settings_promise = this.storage
+                .getItem<Partial<TTickHistorySettings>>(SETTINGS_KEY)
+                .then(stored_settings => {
+                    this.settings = { ...DEFAULT_TICK_HISTORY_SETTINGS, ...stored_settings };
+                    return this.settings;
+                })
+                .catch(() => this.settings);
+        }
+        return this.settings_promise;
+    }
+
+    async updateSettings(settings: Partial<TTickHistorySettings>) {
+        await this.loadSettings();
+        this.settings = { ...this.settings, ...settings };
+        await this.storage.setItem(SETTINGS_KEY, this.settings);
+        await this.enqueueWrite(() => this.applyRetentionToAll());
+        return this.settings;
+    }
+
+    setIsPaused(is_paused: boolean) {
+        this.is_paused = is_paused;
+    }
+
+    /**
+     * Queues ticks of a symbol for persistence. Accepts the whole in-memory window on
+     * every update and only keeps ticks newer than the last recorded one.
+     */
+    record(symbol: string, ticks: TReplayTick[], pip_size?: number) {
+        if (!this.settings_promise) this.loadSettings();
+        if (this.is_paused || !this.settings.is_enabled || !symbol || !ticks?.length) return;
+
+        const last_epoch = this.last_recorded_epochs.get(symbol) ?? -Infinity;
+        let first_new_index = ticks.length;
+        while (first_new_index > 0 && ticks[first_new_index - 1].epoch > last_epoch) {
+            first_new_index--;
+        }
+        if (first_new_index === ticks.length) return;
+
+        const pending = this.pending.get(symbol) ?? { ticks: [] };
+        pending.ticks.push(...ticks.slice(first_new_index));
+        if (Number.isFinite(pip_size)) pending.pip_size = pip_size;
+
+        this.pending.set(symbol, pending);
+        this.last_recorded_epochs.set(symbol, ticks[ticks.length - 1].epoch);
+        this.scheduleFlush();
+    }
+
+    scheduleFlush() {
+        if (this.flush_timeout) return;
+        this.flush_timeout = setTimeout(() => {
+            this.flush_timeout = null;
+            this.flush();
+        }, this.flush_delay_ms);
+    }
+
+    flush() {
+        if (this.flush_timeout) {
+            clearTimeout(this.flush_timeout);
+            this.flush_timeout = null;
+        }
+
+        const pending = this.pending;
+        this.pending = new Map();
+
+        return this.enqueueWrite(async () => {
+            for (const [symbol, { pip_size, ticks }] of pending) {
+                const stored = await this.getDataset(symbol);
+                await this.saveDataset({
+                    symbol,
+                    pip_size: pip_size ?? stored?.pip_size ?? getPipSizeOfQuotes(ticks.map(({ quote }) => quote)),
+                    ticks: mergeTicks(stored?.ticks ?? [], ticks),
+                });
+            }
+        });
+    }
+
+    enqueueWrite(write: () => Promise<void>) {
+        this.write_queue = this.write_queue.then(write).catch(error => {
+            // eslint-disable-next-line no-console
+            console.error('Unable to persist tick history', error);
+        });
+        return this.write_queue;
+    }
+
+    async saveDataset(dataset: TReplayDataset) {
+        await this.loadSettings();
+        const ticks = applyRetention(dataset.ticks, this.settings);
+
+        if (ticks.length) {
+            await this.storage.setItem(getDatasetKey(dataset.symbol), { ...dataset, ticks });
+        } else {
+            await this.storage.removeItem(getDatasetKey(dataset.symbol));
+        }
+    }
+
+    async applyRetentionToAll() {
+        const symbols = await this.getSymbols();
+        for (const symbol of symbols) {
+            const dataset = await this.getDataset(symbol);
+            if (dataset) await this.saveDataset(dataset);
+        }
+    }
+
+    async getSymbols() {
+        const keys = await this.storage.keys();
+        return keys.filter(key => key.startsWith(DATASET_KEY_PREFIX)).map(key => key.slice(DATASET_KEY_PREFIX.length));
+    }
+
+    getDataset(symbol: string) {
+        return this.storage.getItem<TReplayDataset>(getDatasetKey(symbol));
+    }
+
+    async getSummaries(): Promise<TTickHistorySummary[]> {
+        await this.flush();
+        const symbols = await this.getSymbols();
+        const datasets = await Promise.all(symbols.map(symbol => this.getDataset(symbol)));
+
+        return datasets
+            .filter((dataset): dataset is TReplayDataset => !!dataset?.ticks?.length)
+            .map(summariseDataset)
+            .sort((a, b) => a.symbol.localeCompare(b.symbol));
+    }
+
+    /**
+     * Returns the recorded ticks of a symbol, optionally limited to an epoch range.
+     */
+    async getTicks(symbol: string, { from = -Infinity, to = Infinity } = {}) {
+        await this.flush();
+        const dataset = await this.getDataset(symbol);
+        if (!dataset) return null;
+
+        return { ...dataset, ticks: dataset.ticks.filter(({ epoch }) => epoch >= from && epoch <= to) };
+    }
+
+    async removeSymbol(symbol: string) {
+        this.pending.delete(symbol);
+        this.last_recorded_epochs.delete(symbol);
+        await this.enqueueWrite(() => this.storage.removeItem(getDatasetKey(symbol)));
+    }
+
+    async exportDataset(symbol: string, format: TTickExportFormat) {
+        const dataset = await this.getTicks(symbol);
+        if (!dataset) throw new Error(`No ticks recorded for ${symbol}`);
+
+        return serialiseDataset(dataset, format);
+    }
+
+    /**
+     * Imports a tick file in any format accepted by `parseTickFile` and merges it into the
+     * recorded history of its symbol.
+     */
+    async importFile(content: string, defaults: Partial<Omit<TReplayDataset, 'ticks'>> = {}) {
+        const dataset = parseTickFile(content, defaults);
+        await this.flush();
+        await this.enqueueWrite(async () => {
+            const stored = await this.getDataset(dataset.symbol);
+            await this.saveDataset({ ...dataset, ticks: mergeTicks(stored?.ticks ?? [], dataset.ticks) });
+        });
+        return summariseDataset(dataset);
+    }
+}
+
+export const tick_recorder = new TickRecorder();
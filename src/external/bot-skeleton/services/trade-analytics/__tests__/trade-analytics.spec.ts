@@ -0,0 +1,108 @@
+import {
+    analyzeTrades,
+    getDrawdown,
+    getEquityCurve,
+    getHourlyStats,
+    getStreakHistogram,
+    TAnalyticsTrade,
+} from '../trade-analytics';
+
+const HOUR = 3600000;
+
+const createTrade = (index: number, profit: number, overrides: Partial<TAnalyticsTrade> = {}): TAnalyticsTrade => ({
+    contract_type: 'DIGITOVER',
+    symbol: 'R_100',
+    buy_price: 10,
+    profit,
+    purchased_at: index * HOUR,
+    settled_at: index * HOUR + 1000,
+    ...overrides,
+});
+
+// Equity: 5, -5, -15, -6, 3, 12, 2
+const TRADES = [
+    createTrade(1, 5),
+    createTrade(2, -10, { contract_type: 'DIGITUNDER' }),
+    createTrade(3, -10, { symbol: 'R_50' }),
+    createTrade(4, 9),
+    createTrade(5, 9, { contract_type: 'DIGITUNDER' }),
+    createTrade(6, 9),
+    createTrade(7, -10, { symbol: 'R_50' }),
+];
+
+describe('trade-analytics', () => {
+    it('should find the largest drawdown and how long it took to recover', () => {
+        const equity_curve = getEquityCurve(TRADES);
+
+        expect(equity_curve.map(({ equity }) => equity)).toEqual([5, -5, -15, -6, 3, 12, 2]);
+        expect(getDrawdown(equity_curve)).toEqual({
+            max_drawdown: 20,
+            peak_index: 0,
+            trough_index: 2,
+            recovery_index: 5,
+            recovery_time: 3 * HOUR,
+            recovery_trades: 3,
+        });
+    });
+
+    it('should leave the recovery empty while the equity is below its peak', () => {
+        const equity_curve = getEquityCurve([createTrade(1, -4), createTrade(2, 2)]);
+
+        expect(getDrawdown(equity_curve)).toMatchObject({
+            max_drawdown: 4,
+            peak_index: -1,
+            trough_index: 0,
+            recovery_index: null,
+            recovery_time: null,
+        });
+        expect(getDrawdown([]).max_drawdown).toBe(0);
+    });
+
+    it('should summarise the profit factor and expectancy', () => {
+        const analytics = analyzeTrades(TRADES);
+
+        expect(analytics).toMatchObject({
+            trade_count: 7,
+            wins: 4,
+            losses: 3,
+            gross_profit: 32,
+            gross_loss: 30,
+            total_profit: 2,
+            average_win: 8,
+            average_loss: 10,
+            longest_win_streak: 3,
+            longest_loss_streak: 2,
+        });
+        expect(analytics.profit_factor).toBeCloseTo(32 / 30);
+        expect(analytics.expectancy).toBeCloseTo(2 / 7);
+        expect(analyzeTrades([createTrade(1, 5)]).profit_factor).toBeNull();
+        expect(analyzeTrades([])).toMatchObject({ win_rate: 0, expectancy: 0, streaks: [] });
+    });
+
+    it('should group the win rate by contract type, symbol and hour', () => {
+        const { by_contract_type, by_symbol } = analyzeTrades(TRADES);
+
+        expect(by_contract_type).toEqual([
+            { key: 'DIGITOVER', trades: 5, wins: 3, losses: 2, win_rate: 0.6, profit: 3 },
+            { key: 'DIGITUNDER', trades: 2, wins: 1, losses: 1, win_rate: 0.5, profit: -1 },
+        ]);
+        expect(by_symbol.map(({ key, win_rate }) => [key, win_rate])).toEqual([
+            ['R_100', 0.8],
+            ['R_50', 0],
+        ]);
+
+        const by_hour = getHourlyStats([createTrade(1, 5), createTrade(25, -10), createTrade(2, 1)]);
+        expect(by_hour).toHaveLength(24);
+        expect(by_hour[1]).toMatchObject({ trades: 2, wins: 1, win_rate: 0.5 });
+        expect(by_hour[2]).toMatchObject({ trades: 1, wins: 1 });
+        expect(by_hour[0].trades).toBe(0);
+    });
+
+    it('should count the streaks of each length', () => {
+        expect(getStreakHistogram(TRADES)).toEqual([
+            { length: 1, win_streaks: 1, loss_streaks: 1 },
+            { length: 2, win_streaks: 0, loss_streaks: 1 },
+            { length: 3, win_streaks: 1, loss_streaks: 0 },
+        ]);
+    });
+});
@@ -0,0 +1,201 @@
+export type TAnalyticsTrade = {
+    contract_type: string;
+    symbol: string;
+    buy_price: number;
+    profit: number;
+    purchased_at: number;
+    settled_at: number;
+};
+
+export type TEquityPoint = {
+    time: number;
+    equity: number;
+};
+
+export type TDrawdown = {
+    max_drawdown: number;
+    /** Index in the equity curve of the peak before the largest drawdown, -1 before the first trade. */
+    peak_index: number;
+    trough_index: number;
+    /** Index of the trade that brought the equity back to the peak, or `null` while it hasn't recovered. */
+    recovery_index: number | null;
+    recovery_time: number | null;
+    recovery_trades: number | null;
+};
+
+export type TGroupStats = {
+    key: string;
+    trades: number;
+    wins: number;
+    losses: number;
+    win_rate: number;
+    profit: number;
+};
+
+export type TStreakBucket = {
+    length: number;
+    win_streaks: number;
+    loss_streaks: number;
+};
+
+export type TTradeAnalytics = {
+    trade_count: number;
+    wins: number;
+    losses: number;
+    win_rate: number;
+    total_profit: number;
+    gross_profit: number;
+    gross_loss: number;
+    /** Gross profit divided by gross loss, `null` when nothing was lost. */
+    profit_factor: number | null;
+    average_win: number;
+    average_loss: number;
+    expectancy: number;
+    equity_curve: TEquityPoint[];
+    drawdown: TDrawdown;
+    by_contract_type: TGroupStats[];
+    by_symbol: TGroupStats[];
+    by_hour: TGroupStats[];
+    streaks: TStreakBucket[];
+    longest_win_streak: number;
+    longest_loss_streak: number;
+};
+
+// Like the run panel statistics, a contract only counts as won when it made a profit.
+const isWin = ({ profit }: TAnalyticsTrade) => profit > 0;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export const getEquityCurve = (trades: TAnalyticsTrade[]): TEquityPoint[] => {
+    let equity = 0;
+    return trades.map(({ profit, settled_at }) => {
+        equity += profit;
+        return { time: settled_at, equity };
+    });
+};
+
+/**
+ * Finds the largest fall of the equity from a previous high, counting from 0 before the first
+ * trade, and how long it took from the bottom of that fall to get back to the high.
+ */
+export const getDrawdown = (equity_curve: TEquityPoint[]): TDrawdown => {
+    const drawdown: TDrawdown = {
+        max_drawdown: 0,
+        peak_index: -1,
+        trough_index: -1,
+        recovery_index: null,
+        recovery_time: null,
+        recovery_trades: null,
+    };
+    let peak = 0;
+    let peak_index = -1;
+
+    equity_curve.forEach(({ equity }, index) => {
+        if (equity > peak) {
+            peak = equity;
+            peak_index = index;
+        } else if (peak - equity > drawdown.max_drawdown) {
+            drawdown.max_drawdown = peak - equity;
+            drawdown.peak_index = peak_index;
+            drawdown.trough_index = index;
+        }
+    });
+
+    if (drawdown.max_drawdown > 0) {
+        const peak_equity = drawdown.peak_index >= 0 ? equity_curve[drawdown.peak_index].equity : 0;
+        const recovery_index = equity_curve.findIndex(
+            ({ equity }, index) => index > drawdown.trough_index && equity >= peak_equity
+        );
+        if (recovery_index >= 0) {
+            drawdown.recovery_index = recovery_index;
+            drawdown.recovery_time = equity_curve[recovery_index].time - equity_curve[drawdown.trough_index].time;
+            drawdown.recovery_trades = recovery_index - drawdown.trough_index;
+        }
+    }
+    return drawdown;
+};
+
+export const getGroupStats = (trades: TAnalyticsTrade[], getKey: (trade: TAnalyticsTrade) => string) => {
+    const groups = new Map<string, TGroupStats>();
+    trades.forEach(trade => {
+        const key = getKey(trade);
+        const group = groups.get(key) ?? { key, trades: 0, wins: 0, losses: 0, win_rate: 0, profit: 0 };
+        group.trades += 1;
+        group.wins += isWin(trade) ? 1 : 0;
+        group.losses += isWin(trade) ? 0 : 1;
+        group.win_rate = group.wins / group.trades;
+        group.profit += trade.profit;
+        groups.set(key, group);
+    });
+    return [...groups.values()].sort((a, b) => b.trades - a.trades || a.key.localeCompare(b.key));
+};
+
+/** Stats for each hour of the day in GMT, the time zone the transactions are shown in. */
+export const getHourlyStats = (trades: TAnalyticsTrade[]) => {
+    const groups = getGroupStats(trades, ({ purchased_at }) => String(new Date(purchased_at).getUTCHours()));
+    return Array.from(
+        { length: 24 },
+        (_, hour) =>
+            groups.find(({ key }) => key === String(hour)) ?? {
+                key: String(hour),
+                trades: 0,
+                wins: 0,
+                losses: 0,
+                win_rate: 0,
+                profit: 0,
+            }
+    );
+};
+
+/** Counts how many winning and losing streaks of each length the trades contain. */
+export const getStreakHistogram = (trades: TAnalyticsTrade[]): TStreakBucket[] => {
+    const streaks: { is_win: boolean; length: number }[] = [];
+    trades.forEach(trade => {
+        const last = streaks[streaks.length - 1];
+        if (last && last.is_win === isWin(trade)) last.length += 1;
+        else streaks.push({ is_win: isWin(trade), length: 1 });
+    });
+
+    const longest = Math.max(0, ...streaks.map(({ length }) => length));
+    return Array.from({ length: longest }, (_, index) => ({
+        length: index + 1,
+        win_streaks: streaks.filter(({ is_win, length }) => is_win && length === index + 1).length,
+        loss_streaks: streaks.filter(({ is_win, length }) => !is_win && length === index + 1).length,
+    }));
+};
+
+const getLongestStreak = (streaks: TStreakBucket[], key: 'win_streaks' | 'loss_streaks') =>
+    streaks.reduce((longest, bucket) => (bucket[key] ? bucket.length : longest), 0);
+
+/** Analyses completed contracts, which have to be sorted from the first to the last to settle. */
+export const analyzeTrades = (trades: TAnalyticsTrade[]): TTradeAnalytics => {
+    const won = trades.filter(isWin);
+    const lost = trades.filter(trade => !isWin(trade));
+    const gross_profit = sum(won.map(({ profit }) => profit));
+    const gross_loss = -sum(lost.map(({ profit }) => profit));
+    const total_profit = gross_profit - gross_loss;
+    const equity_curve = getEquityCurve(trades);
+    const streaks = getStreakHistogram(trades);
+
+    return {
+        trade_count: trades.length,
+        wins: won.length,
+        losses: lost.length,
+        win_rate: trades.length ? won.length / trades.length : 0,
+        total_profit,
+        gross_profit,
+        gross_loss,
+        profit_factor: gross_loss > 0 ? gross_profit / gross_loss : null,
+        average_win: won.length ? gross_profit / won.length : 0,
+        average_loss: lost.length ? gross_loss / lost.length : 0,
+        expectancy: trades.length ? total_profit / trades.length : 0,
+        equity_curve,
+        drawdown: getDrawdown(equity_curve),
+        by_contract_type: getGroupStats(trades, ({ contract_type }) => contract_type),
+        by_symbol: getGroupStats(trades, ({ symbol }) => symbol),
+        by_hour: getHourlyStats(trades),
+        streaks,
+        longest_win_streak: getLongestStreak(streaks, 'win_streaks'),
+        longest_loss_streak: getLongestStreak(streaks, 'loss_streaks'),
+    };
+};
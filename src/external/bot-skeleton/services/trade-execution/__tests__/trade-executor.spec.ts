@@ -0,0 +1,338 @@
+import { createMockStorage } from '@/utils/mock/mock-storage';
+import { Portfolio, ProposalOpenContract } from '@deriv/api-types';
+import RiskManager from '../../risk/risk-manager';
+import TradeExecutor, { TradeExecutionError, TTradeApi, TTradeRequest } from '../trade-executor';
+
+type TMessage = Parameters<Parameters<ReturnType<TTradeApi['onMessage']>['subscribe']>[0]>[0];
+
+const REQUEST: TTradeRequest = {
+    source: 'smart_trading',
+    contract_type: 'DIGITOVER',
+    symbol: 'R_100',
+    stake: 10,
+    currency: 'USD',
+    duration: 1,
+    duration_unit: 't',
+    barrier: 4,
+};
+
+type TApiError = { code: string; message: string };
+
+/**
+ * Fake connection that answers proposals and buys from queues and lets the test push
+ * `proposal_open_contract` updates to the subscribers.
+ */
+const createApi = ({
+    proposal_errors = [] as TApiError[],
+    buy_errors = [] as TApiError[],
+    portfolio = [] as Portfolio['contracts'],
+    polled_contract = {} as ProposalOpenContract,
+} = {}) => {
+    const listeners = new Set<(message: TMessage) => void>();
+    const requests: Record<string, unknown>[] = [];
+    let contract_id = 100;
+
+    const api: TTradeApi = {
+        send: jest.fn(async (request: Record<string, unknown>) => {
+            requests.push(request);
+            if (request.proposal) {
+                const error = proposal_errors.shift();
+                if (error) return Promise.reject({ msg_type: 'proposal', error });
+                return { msg_type: 'proposal', proposal: { id: `proposal-${requests.length}` } };
+            }
+            if (request.buy) {
+                const error = buy_errors.shift();
+                if (error) return Promise.reject({ msg_type: 'buy', error });
+                return { msg_type: 'buy', buy: { contract_id: ++contract_id, buy_price: 10 } as never };
+            }
+            if (request.proposal_open_contract && !request.subscribe) {
+                return { msg_type: 'proposal_open_contract', proposal_open_contract: polled_contract };
+            }
+            if (request.portfolio) return { msg_type: 'portfolio', portfolio: { contracts: portfolio } };
+            if (request.profit_table) return { msg_type: 'profit_table', profit_table: { transactions: [] } };
+            return {};
+        }),
+        onMessage: () => ({
+            subscribe: (callback: (message: TMessage) => void) => {
+                listeners.add(callback);
+                return { unsubscribe: () => listeners.delete(callback) };
+            },
+        }),
+    };
+
+    const settle = (id: number, profit: number) =>
+        listeners.forEach(listener =>
+            listener({
+                data: {
+                    msg_type: 'proposal_open_contract',
+                    proposal_open_contract: {
+                        contract_id: id,
+                        is_sold: 1,
+                        status: profit > 0 ? 'won' : 'lost',
+                        profit,
+                    },
+                    subscription: { id: 'poc' },
+                },
+            })
+        );
+
+    return { api, requests, settle, listeners };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const createExecutor = (api: TTradeApi, risk = new RiskManager(undefined, () => 0)) =>
+    new TradeExecutor({
+        getApi: () => api,
+        getAccount: () => 'CR1',
+        risk,
+        settlement_timeout_ms: 20,
+        sleep: () => Promise.resolve(),
+    });
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('TradeExecutor', () => {
+    it('should buy a proposal and resolve once the contract is sold', async () => {
+        const { api, requests, settle } = createApi();
+        const risk = new RiskManager(undefined, () => 0);
+        const onPurchase = jest.fn();
+        const onSettled = jest.fn();
+
+        const trade = createExecutor(api, risk).execute(REQUEST, { onPurchase, onSettled });
+        await flush();
+
+        expect(requests[0]).toMatchObject({ proposal: 1, amount: 10, contract_type: 'DIGITOVER', barrier: '4' });
+        expect(requests[1]).toEqual({ buy: 'proposal-1', price: 10 });
+        expect(requests[2]).toEqual({ proposal_open_contract: 1, contract_id: 101, subscribe: 1 });
+        expect(onPurchase).toHaveBeenCalledWith(expect.objectContaining({ contract_id: 101 }));
+        expect(risk.getExposure('CR1')).toBe(10);
+
+        settle(101, 9.5);
+        await expect(trade).resolves.toMatchObject({ contract_id: 101, is_win: true, profit: 9.5, stake: 10 });
+        expect(onSettled).toHaveBeenCalledTimes(1);
+        expect(risk.getExposure('CR1')).toBe(0);
+        expect(risk.getDailyProfit('CR1')).toBe(9.5);
+        expect(requests[3]).toEqual({ forget: 'poc' });
+    });
+
+    it('should notify settlement listeners until they are removed', async () => {
+        const { api, settle } = createApi();
+        const executor = createExecutor(api);
+        const listener = jest.fn();
+        const removeListener = executor.onSettled(listener);
+
+        const trade = executor.execute(REQUEST);
+        await flush();
+        settle(101, -10);
+        await trade;
+
+        expect(listener).toHaveBeenCalledWith(REQUEST, expect.objectContaining({ contract_id: 101, profit: -10 }));
+
+        removeListener();
+        const next_trade = executor.execute(REQUEST);
+        await flush();
+        settle(102, 1);
+        await next_trade;
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry with a fresh proposal after a retryable error', async () => {
+        const { api, requests, settle } = createApi({
+            buy_errors: [{ code: 'PriceMoved', message: 'The price moved' }],
+        });
+
+        const trade = createExecutor(api).execute(REQUEST);
+        await flush();
+        settle(101, -10);
+
+        await expect(trade).resolves.toMatchObject({ is_win: false, profit: -10 });
+        expect(requests.filter(request => request.proposal)).toHaveLength(2);
+    });
+
+    it('should request a fresh proposal when the proposal fails', async () => {
+        const { api, requests, settle } = createApi({
+            proposal_errors: [{ code: 'GetProposalFailure', message: 'No proposal' }],
+        });
+
+        const trade = createExecutor(api).execute(REQUEST);
+        await flush();
+        settle(101, 1);
+
+        await expect(trade).resolves.toMatchObject({ contract_id: 101 });
+        expect(requests.filter(request => request.buy)).toHaveLength(1);
+    });
+
+    it('should not buy again when the buy may have gone through', async () => {
+        const { api, requests } = createApi({
+            buy_errors: [{ code: 'WrongResponse', message: 'Something went wrong' }],
+        });
+
+        await expect(createExecutor(api).execute(REQUEST)).rejects.toMatchObject({ api_code: 'WrongResponse' });
+        expect(requests.filter(request => request.buy)).toHaveLength(1);
+    });
+
+    it('should follow the contract a buy bought before the connection dropped', async () => {
+        const { api, requests, settle } = createApi({
+            buy_errors: [{ code: 'DisconnectError', message: 'Connection lost' }],
+            portfolio: [
+                { contract_id: 90, contract_type: 'DIGITOVER', symbol: 'R_100', buy_price: 10, purchase_time: 0 },
+                { contract_id: 99, contract_type: 'DIGITOVER', symbol: 'R_100', buy_price: 10, purchase_time: 5 },
+            ],
+        });
+        const executor = new TradeExecutor({
+            getApi: () => api,
+            getAccount: () => 'CR1',
+            risk: new RiskManager(undefined, () => 0),
+            now: () => 5000,
+            sleep: () => Promise.resolve(),
+        });
+
+        const trade = executor.execute(REQUEST);
+        await flush();
+        settle(99, 9.5);
+
+        await expect(trade).resolves.toMatchObject({ contract_id: 99, profit: 9.5 });
+        expect(requests.filter(request => request.buy)).toHaveLength(1);
+    });
+
+    it('should buy again after a dropped connection when no contract was bought', async () => {
+        const { api, requests, settle } = createApi({
+            buy_errors: [{ code: 'DisconnectError', message: 'Connection lost' }],
+        });
+
+        const trade = createExecutor(api).execute(REQUEST);
+        await flush();
+        settle(101, 1);
+
+        await expect(trade).resolves.toMatchObject({ contract_id: 101 });
+        expect(requests.filter(request => request.portfolio || request.profit_table)).toHaveLength(2);
+        expect(requests.filter(request => request.buy)).toHaveLength(2);
+    });
+
+    it('should reject without retrying on other errors and release the reservation', async () => {
+        const { api, requests } = createApi({
+            buy_errors: [{ code: 'InsufficientBalance', message: 'Not enough funds' }],
+        });
+        const risk = new RiskManager(undefined, () => 0);
+
+        await expect(createExecutor(api, risk).execute(REQUEST)).rejects.toMatchObject({
+            code: 'PurchaseFailed',
+            api_code: 'InsufficientBalance',
+            message: 'Not enough funds',
+        });
+        expect(requests).toHaveLength(2);
+        expect(risk.getOpenPositions('CR1')).toEqual([]);
+    });
+
+    it('should poll the contract once when its updates stop and resolve if it was sold', async () => {
+        const { api, listeners, requests } = createApi({
+            polled_contract: { contract_id: 101, is_sold: 1, status: 'won', profit: 9.5 } as ProposalOpenContract,
+        });
+
+        const trade = createExecutor(api).execute(REQUEST);
+
+        await expect(trade).resolves.toMatchObject({ contract_id: 101, is_win: true, profit: 9.5 });
+        expect(requests.at(-1)).toEqual({ proposal_open_contract: 1, contract_id: 101 });
+        expect(listeners.size).toBe(0);
+    });
+
+    it('should keep waiting while the contract sends updates', async () => {
+        const { api, listeners, settle } = createApi();
+        const update = () =>
+            listeners.forEach(listener =>
+                listener({ data: { msg_type: 'proposal_open_contract', proposal_open_contract: { contract_id: 101 } } })
+            );
+
+        const executor = new TradeExecutor({
+            getApi: () => api,
+            getAccount: () => 'CR1',
+            risk: new RiskManager(undefined, () => 0),
+            settlement_timeout_ms: 200,
+            sleep: () => Promise.resolve(),
+        });
+
+        const trade = executor.execute(REQUEST);
+        for (let i = 0; i < 6; i++) {
+            await wait(50);
+            update();
+        }
+        settle(101, 1);
+
+        await expect(trade).resolves.toMatchObject({ contract_id: 101, profit: 1 });
+    });
+
+    it('should free the key but keep the stake reserved until a later poll finds the contract sold', async () => {
+        const polled_contract = { contract_id: 101, is_sold: 0 } as ProposalOpenContract;
+        const { api, listeners } = createApi({ polled_contract });
+        const risk = new RiskManager(createMockStorage(), () => 0);
+        const executor = new TradeExecutor({
+            getApi: () => api,
+            getAccount: () => 'CR1',
+            risk,
+            min_request_interval_ms: 0,
+            settlement_timeout_ms: 20,
+        });
+
+        await expect(executor.execute({ ...REQUEST, idempotency_key: 'speedbot' })).rejects.toMatchObject({
+            code: 'SettlementFailed',
+            message: 'The contract was not settled in time',
+        });
+        expect(executor.isInFlight('speedbot')).toBe(false);
+        expect(listeners.size).toBe(0);
+        // Its outcome is unknown, so its stake still counts towards the limits.
+        expect(risk.getExposure('CR1')).toBe(10);
+
+        Object.assign(polled_contract, { is_sold: 1, status: 'lost', profit: -10 });
+        await wait(100);
+
+        expect(risk.getExposure('CR1')).toBe(0);
+        expect(risk.getDailyProfit('CR1')).toBe(-10);
+    });
+
+    it('should reject duplicate requests while a trade with the same key is in flight', async () => {
+        const { api, settle } = createApi();
+        const executor = createExecutor(api);
+        const request = { ...REQUEST, idempotency_key: 'speedbot' };
+
+        const trade = executor.execute(request);
+        await expect(executor.execute(request)).rejects.toBeInstanceOf(TradeExecutionError);
+        await flush();
+        settle(101, 1);
+        await trade;
+
+        expect(executor.isInFlight('speedbot')).toBe(false);
+    });
+
+    it('should not send anything when the risk manager denies the purchase', async () => {
+        const { api, requests } = createApi();
+        const risk = new RiskManager(undefined, () => 0);
+        risk.setLimits({ max_stake: 5 });
+
+        await expect(createExecutor(api, risk).execute(REQUEST)).rejects.toMatchObject({
+            code: 'RiskLimitReached',
+            violation: 'MaxStakeExceeded',
+        });
+        expect(requests).toEqual([]);
+    });
+
+    it('should space out requests to respect the rate limit', async () => {
+        const { api } = createApi();
+        const sleep = jest.fn(() => Promise.resolve());
+        const executor = new TradeExecutor({
+            getApi: () => api,
+            getAccount: () => 'CR1',
+            risk: new RiskManager(undefined, () => 0),
+            min_request_interval_ms: 200,
+            now: () => 1000,
+            sleep,
+        });
+
+        await executor.throttle();
+        await executor.throttle();
+        await executor.throttle();
+
+        expect(sleep.mock.calls).toEqual([[200], [400]]);
+    });
+});
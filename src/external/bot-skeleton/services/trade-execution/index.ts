@@ -0,0 +1,10 @@
+import { api_base } from '../api/api-base';
+import TradeExecutor, { TTradeApi } from './trade-executor';
+
+export * from './trade-executor';
+export { default as TradeExecutor } from './trade-executor';
+
+export const trade_executor = new TradeExecutor({
+    getApi: () => api_base.api as unknown as TTradeApi | null,
+    getAccount: () => (api_base.account_info as { loginid?: string }).loginid ?? '',
+});
@@ -0,0 +1,497 @@
+import { Buy, Portfolio, ProfitTable, ProposalOpenContract } from '@deriv/api-types';
+import { risk_manager, TRiskSource, TRiskViolation } from '../risk/risk-manager';
+
+export type TTradeRequest = {
+    source: TRiskSource;
+    contract_type: string;
+    symbol: string;
+    stake: number;
+    currency: string;
+    duration: number;
+    duration_unit: string;
+    barrier?: string | number;
+    /**
+     * While a trade with this key is in flight, further requests with the same key are
+     * rejected with a `DuplicateTrade` error instead of buying a second contract.
+     */
+    idempotency_key?: string;
+};
+
+export type TTradeSettlement = {
+    contract: ProposalOpenContract;
+    contract_id: number;
+    is_win: boolean;
+    profit: number;
+    stake: number;
+};
+
+/** A bought contract. The ones found after a lost buy response don't report the balance. */
+export type TPurchase = Omit<Buy, 'balance_after'> & Partial<Pick<Buy, 'balance_after'>>;
+
+export type TTradeCallbacks = {
+    onPurchase?: (buy: TPurchase) => void;
+    onUpdate?: (contract: ProposalOpenContract) => void;
+    onSettled?: (settlement: TTradeSettlement) => void;
+};
+
+export type TSettlementListener = (request: TTradeRequest, settlement: TTradeSettlement) => void;
+
+export type TTradeErrorCode =
+    | 'DuplicateTrade'
+    | 'NoConnection'
+    | 'RiskLimitReached'
+    | 'ProposalFailed'
+    | 'PurchaseFailed'
+    | 'RequestTimeout'
+    | 'SettlementFailed';
+
+type TApiError = { code?: string; message?: string };
+
+type TApiResponse = {
+    error?: TApiError;
+    msg_type?: string;
+    proposal?: { id: string };
+    buy?: Buy;
+    portfolio?: Portfolio;
+    profit_table?: ProfitTable;
+    proposal_open_contract?: ProposalOpenContract;
+    subscription?: { id: string };
+};
+
+export type TTradeApi = {
+    send: (request: Record<string, unknown>) => Promise<TApiResponse>;
+    onMessage: () => {
+        subscribe: (callback: (message: { data: TApiResponse }) => void) => { unsubscribe: () => void };
+    };
+};
+
+type TRiskGuard = Pick<typeof risk_manager, 'requestPurchase' | 'releasePurchase' | 'settlePurchase'>;
+
+export type TTradeExecutorOptions = {
+    getApi: () => TTradeApi | null | undefined;
+    getAccount: () => string;
+    risk?: TRiskGuard;
+    max_retries?: number;
+    retry_delay_ms?: number;
+    min_request_interval_ms?: number;
+    request_timeout_ms?: number;
+    /** How long an open contract may go without updates before it is polled once more. */
+    settlement_timeout_ms?: number;
+    now?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+};
+
+type TPurchasedContract = Pick<
+    Portfolio['contracts'][number],
+    | 'buy_price'
+    | 'contract_id'
+    | 'contract_type'
+    | 'longcode'
+    | 'payout'
+    | 'purchase_time'
+    | 'shortcode'
+    | 'symbol'
+    | 'transaction_id'
+>;
+
+// Errors of a proposal request, after which a fresh proposal can safely be requested.
+export const RETRYABLE_PROPOSAL_ERROR_CODES = [
+    'CallError',
+    'DisconnectError',
+    'GetProposalFailure',
+    'InvalidContractProposal',
+    'PriceMoved',
+    'RateLimit',
+    'WrongResponse',
+];
+
+// Errors of a buy the server refused, so buying again cannot buy the contract twice.
+export const RETRYABLE_PURCHASE_ERROR_CODES = ['PriceMoved', 'RateLimit'];
+
+export class TradeExecutionError extends Error {
+    code: TTradeErrorCode;
+    api_code?: string;
+    violation?: TRiskViolation;
+
+    constructor(
+        code: TTradeErrorCode,
+        message: string,
+        details: { api_code?: string; violation?: TRiskViolation } = {}
+    ) {
+        super(message);
+        this.name = 'TradeExecutionError';
+        this.code = code;
+        this.api_code = details.api_code;
+        this.violation = details.violation;
+    }
+}
+
+const getApiError = (response: unknown): TApiError | null => (response as TApiResponse | undefined)?.error ?? null;
+
+const isRetryable = (error: unknown, codes: string[]) => {
+    const { api_code } = error as TradeExecutionError;
+    return !!api_code && codes.includes(api_code);
+};
+
+const toPurchase = ({
+    buy_price = 0,
+    contract_id = 0,
+    longcode = '',
+    payout = 0,
+    purchase_time = 0,
+    shortcode = '',
+    transaction_id = 0,
+}: TPurchasedContract): TPurchase => ({
+    buy_price,
+    contract_id,
+    longcode,
+    payout,
+    purchase_time,
+    shortcode,
+    start_time: purchase_time,
+    transaction_id,
+});
+
+/**
+ * Proposal → buy → `proposal_open_contract` flow shared by every trading surface outside
+ * the Blockly engine. Each purchase is approved by the risk manager, failed proposals and
+ * refused buys are retried with a fresh proposal, requests are spaced out to stay clear of
+ * rate limits and the returned promise resolves once the contract is sold.
+ */
+export default class TradeExecutor {
+    getApi: TTradeExecutorOptions['getApi'];
+    getAccount: TTradeExecutorOptions['getAccount'];
+    risk: TRiskGuard;
+    max_retries: number;
+    retry_delay_ms: number;
+    min_request_interval_ms: number;
+    request_timeout_ms: number;
+    settlement_timeout_ms: number;
+    now: () => number;
+    sleep: (ms: number) => Promise<void>;
+    in_flight_keys = new Set<string>();
+    next_request_at = 0;
+    settlement_listeners = new Set<TSettlementListener>();
+
+    constructor({
+        getApi,
+        getAccount,
+        risk = risk_manager,
+        max_retries = 2,
+        retry_delay_ms = 500,
+        min_request_interval_ms = 200,
+        request_timeout_ms = 10000,
+        settlement_timeout_ms = 60000,
+        now = () => Date.now(),
+        sleep = ms => new Promise(resolve => setTimeout(resolve, ms)),
+    }: TTradeExecutorOptions) {
+        this.getApi = getApi;
+        this.getAccount = getAccount;
+        this.risk = risk;
+        this.max_retries = max_retries;
+        this.retry_delay_ms = retry_delay_ms;
+        this.min_request_interval_ms = min_request_interval_ms;
+        this.request_timeout_ms = request_timeout_ms;
+        this.settlement_timeout_ms = settlement_timeout_ms;
+        this.now = now;
+        this.sleep = sleep;
+    }
+
+    /**
+     * Lets other features follow every settled trade, whichever surface placed it.
+     * Returns a function that removes the listener.
+     */
+    onSettled(listener: TSettlementListener) {
+        this.settlement_listeners.add(listener);
+        return () => {
+            this.settlement_listeners.delete(listener);
+        };
+    }
+
+    isInFlight(idempotency_key: string) {
+        return this.in_flight_keys.has(idempotency_key);
+    }
+
+    async execute(request: TTradeRequest, callbacks: TTradeCallbacks = {}): Promise<TTradeSettlement> {
+        const { idempotency_key } = request;
+        if (idempotency_key && this.in_flight_keys.has(idempotency_key)) {
+            throw new TradeExecutionError('DuplicateTrade', `A trade for ${idempotency_key} is already in progress`);
+        }
+
+        const api = this.getApi();
+        if (!api) throw new TradeExecutionError('NoConnection', 'The trading connection is not ready');
+
+        const risk_check = this.risk.requestPurchase({
+            source: request.source,
+            account: this.getAccount(),
+            stake: request.stake,
+        });
+        if (!risk_check.is_allowed) {
+            throw new TradeExecutionError('RiskLimitReached', risk_check.violation, {
+                violation: risk_check.violation,
+            });
+        }
+
+        if (idempotency_key) this.in_flight_keys.add(idempotency_key);
+        try {
+            let buy: TPurchase;
+            try {
+                buy = await this.purchase(api, request);
+            } catch (error) {
+                this.risk.releasePurchase(risk_check.position_id);
+                throw error;
+            }
+            callbacks.onPurchase?.(buy);
+
+            let contract: ProposalOpenContract;
+            try {
+                contract = await this.waitForSettlement(api, buy.contract_id, callbacks);
+            } catch (error) {
+                // The contract was bought, so its stake stays reserved until its outcome is seen.
+                this.settleWhenSold(buy.contract_id, risk_check.position_id);
+                throw error;
+            }
+
+            const profit = Number(contract.profit ?? 0);
+            this.risk.settlePurchase(risk_check.position_id, profit);
+
+            const settlement: TTradeSettlement = {
+                contract,
+                contract_id: buy.contract_id,
+                is_win: contract.status === 'won',
+                profit,
+                stake: request.stake,
+            };
+            callbacks.onSettled?.(settlement);
+            this.settlement_listeners.forEach(listener => listener(request, settlement));
+            return settlement;
+        } finally {
+            if (idempotency_key) this.in_flight_keys.delete(idempotency_key);
+        }
+    }
+
+    /**
+     * Polls a contract that could not be followed to its settlement, every `settlement_timeout_ms`,
+     * and settles its stake once it is sold. When the server no longer knows the contract its
+     * stake is released instead, since its outcome can't be found anymore.
+     */
+    async settleWhenSold(contract_id: number, position_id: string | null | undefined) {
+        for (;;) {
+            await this.sleep(this.settlement_timeout_ms);
+            const api = this.getApi();
+            if (!api) continue;
+
+            try {
+                const { proposal_open_contract: contract } = await this.send(
+                    api,
+                    { proposal_open_contract: 1, contract_id },
+                    'SettlementFailed'
+                );
+                if (contract?.is_sold) {
+                    this.risk.settlePurchase(position_id, Number(contract.profit ?? 0));
+                    return;
+                }
+            } catch (error) {
+                // Errors without an API code, e.g. timeouts, leave the outcome to the next poll.
+                if ((error as TradeExecutionError).api_code) {
+                    this.risk.releasePurchase(position_id);
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Buys a fresh proposal. Failed proposals are simply requested again, but a buy is only
+     * sent again when the server refused it, or when the connection dropped before it answered
+     * and the account holds no contract the lost buy could have bought.
+     */
+    async purchase(api: TTradeApi, request: TTradeRequest): Promise<TPurchase> {
+        for (let attempt = 0; ; attempt++) {
+            const can_retry = attempt < this.max_retries;
+            let proposal_id: string;
+            try {
+                proposal_id = await this.requestProposal(api, request);
+            } catch (error) {
+                if (!can_retry || !isRetryable(error, RETRYABLE_PROPOSAL_ERROR_CODES)) throw error;
+                await this.sleep(this.retry_delay_ms * (attempt + 1));
+                continue;
+            }
+
+            const sent_at = this.now();
+            try {
+                const response = await this.send(api, { buy: proposal_id, price: request.stake }, 'PurchaseFailed');
+                if (!response.buy) throw new TradeExecutionError('PurchaseFailed', 'The purchase was not confirmed');
+                return response.buy;
+            } catch (error) {
+                if (isRetryable(error, ['DisconnectError'])) {
+                    let purchase: TPurchase | null;
+                    try {
+                        purchase = await this.findPurchase(api, request, sent_at);
+                    } catch {
+                        // Without the lookup, buying again could buy the contract twice.
+                        throw error;
+                    }
+                    if (purchase) return purchase;
+                } else if (!isRetryable(error, RETRYABLE_PURCHASE_ERROR_CODES)) {
+                    throw error;
+                }
+                if (!can_retry) throw error;
+                await this.sleep(this.retry_delay_ms * (attempt + 1));
+            }
+        }
+    }
+
+    /**
+     * Looks for the contract of a buy whose response was lost. Open contracts are listed in
+     * the portfolio and the ones already sold, e.g. tick contracts, in the profit table.
+     * Resolves to `null` when the account holds no contract bought since `sent_at`.
+     */
+    async findPurchase(api: TTradeApi, request: TTradeRequest, sent_at: number): Promise<TPurchase | null> {
+        const bought_from = Math.floor(sent_at / 1000);
+        const isPurchase = ({ buy_price, contract_type, purchase_time = 0, symbol }: TPurchasedContract) =>
+            contract_type === request.contract_type &&
+            symbol === request.symbol &&
+            Number(buy_price) === Number(request.stake) &&
+            purchase_time >= bought_from;
+
+        const { portfolio } = await this.send(api, { portfolio: 1 }, 'PurchaseFailed');
+        const open_contract = portfolio?.contracts.find(isPurchase);
+        if (open_contract?.contract_id) return toPurchase(open_contract);
+
+        const { profit_table } = await this.send(
+            api,
+            { profit_table: 1, description: 1, date_from: String(bought_from), sort: 'DESC' },
+            'PurchaseFailed'
+        );
+        const sold_contract = profit_table?.transactions
+            ?.map(({ contract_id, underlying_symbol, ...transaction }) => ({
+                ...transaction,
+                contract_id: contract_id ?? undefined,
+                symbol: underlying_symbol,
+            }))
+            .find(isPurchase);
+        return sold_contract?.contract_id ? toPurchase(sold_contract) : null;
+    }
+
+    async requestProposal(api: TTradeApi, request: TTradeRequest) {
+        const { barrier, contract_type, currency, duration, duration_unit, stake, symbol } = request;
+        const response = await this.send(
+            api,
+            {
+                proposal: 1,
+                amount: stake,
+                basis: 'stake',
+                contract_type,
+                currency,
+                duration,
+                duration_unit,
+                symbol,
+                ...(barrier !== undefined && barrier !== '' ? { barrier: String(barrier) } : {}),
+            },
+            'ProposalFailed'
+        );
+        if (!response.proposal?.id) throw new TradeExecutionError('ProposalFailed', 'No proposal was received');
+        return response.proposal.id;
+    }
+
+    /**
+     * Sends a request once the rate limit allows it. API errors, whether resolved or thrown
+     * by the connection, are turned into a `TradeExecutionError` with the given code.
+     */
+    async send(api: TTradeApi, request: Record<string, unknown>, error_code: TTradeErrorCode) {
+        await this.throttle();
+
+        let timeout: ReturnType<typeof setTimeout> | undefined;
+        const timeout_promise = new Promise<never>((_, reject) => {
+            timeout = setTimeout(
+                () => reject(new TradeExecutionError('RequestTimeout', 'The request timed out')),
+                this.request_timeout_ms
+            );
+        });
+
+        let response: TApiResponse;
+        try {
+            response = await Promise.race([api.send(request), timeout_promise]);
+        } catch (error) {
+            if (error instanceof TradeExecutionError) throw error;
+            response = error as TApiResponse;
+        } finally {
+            clearTimeout(timeout);
+        }
+
+        const api_error = getApiError(response);
+        if (api_error) {
+            throw new TradeExecutionError(error_code, api_error.message ?? error_code, { api_code: api_error.code });
+        }
+        return response;
+    }
+
+    async throttle() {
+        const now = this.now();
+        const wait_ms = this.next_request_at - now;
+        this.next_request_at = Math.max(now, this.next_request_at) + this.min_request_interval_ms;
+        if (wait_ms > 0) await this.sleep(wait_ms);
+    }
+
+    /**
+     * Follows the contract until it is sold. When no update arrives for `settlement_timeout_ms`,
+     * the subscription is dropped and the contract is polled once, so a lost stream can't keep
+     * the trade in flight forever. Unless that poll finds the contract sold, the promise rejects.
+     */
+    waitForSettlement(api: TTradeApi, contract_id: number, callbacks: TTradeCallbacks) {
+        return new Promise<ProposalOpenContract>((resolve, reject) => {
+            let subscription_id: string | undefined;
+            let timeout: ReturnType<typeof setTimeout> | undefined;
+
+            const stopFollowing = () => {
+                clearTimeout(timeout);
+                subscription.unsubscribe();
+                if (subscription_id) api.send({ forget: subscription_id }).catch(() => undefined);
+            };
+            const fail = (message: string) => {
+                stopFollowing();
+                reject(new TradeExecutionError('SettlementFailed', message));
+            };
+            const poll = () => {
+                stopFollowing();
+                this.send(api, { proposal_open_contract: 1, contract_id }, 'SettlementFailed')
+                    .then(({ proposal_open_contract: contract }) => {
+                        if (!contract?.is_sold) throw new Error('The contract was not settled in time');
+                        callbacks.onUpdate?.(contract);
+                        resolve(contract);
+                    })
+                    .catch((error: Error) => reject(new TradeExecutionError('SettlementFailed', error.message)));
+            };
+            const restartTimeout = () => {
+                clearTimeout(timeout);
+                timeout = setTimeout(poll, this.settlement_timeout_ms);
+            };
+
+            const subscription = api.onMessage().subscribe(({ data }) => {
+                const contract = data?.proposal_open_contract;
+                if (data?.msg_type !== 'proposal_open_contract' || contract?.contract_id !== contract_id) return;
+
+                subscription_id = data.subscription?.id ?? subscription_id;
+                callbacks.onUpdate?.(contract);
+                if (!contract.is_sold) {
+                    restartTimeout();
+                    return;
+                }
+
+                stopFollowing();
+                resolve(contract);
+            });
+            restartTimeout();
+
+            api.send({ proposal_open_contract: 1, contract_id, subscribe: 1 }).then(
+                response => {
+                    subscription_id = response.subscription?.id ?? subscription_id;
+                    const api_error = getApiError(response);
+                    if (api_error) fail(api_error.message ?? 'SettlementFailed');
+                },
+                error => fail(getApiError(error)?.message ?? 'SettlementFailed')
+            );
+        });
+    }
+}
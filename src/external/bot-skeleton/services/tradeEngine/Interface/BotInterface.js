@@ -1,4 +1,3 @@
-import { observer as globalObserver } from '../../../utils/observer';
 import { createDetails } from '../utils/helpers';
 
 const getBotInterface = tradeEngine => {
@@ -16,8 +15,10 @@ const getBotInterface = tradeEngine => {
         sellAtMarket: () => tradeEngine.sellAtMarket(),
         getSellPrice: () => getSellPrice(tradeEngine),
         isResult: result => getDetail(10) === result,
-        isTradeAgain: result => globalObserver.emit('bot.trade_again', result),
+        isTradeAgain: result => tradeEngine.$scope.events.emit('bot.trade_again', result),
         readDetails: i => getDetail(i - 1),
+        setStakingPlan: options => tradeEngine.setStakingPlan(options),
+        getStakingPlanStake: () => tradeEngine.getStakingPlanStake(),
     };
 };
 
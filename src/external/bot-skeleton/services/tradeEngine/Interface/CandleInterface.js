@@ -1,10 +1,22 @@
+import { localize } from '@deriv-com/translations';
+import { createError } from '../../../utils/error';
+import { findCandlePatterns, isCandlePattern, isCandlePatternId } from '../../candle-patterns';
 import { expectCandle, expectCandles } from '../utils/sanitize';
 
+const expectCandlePattern = pattern => {
+    if (!isCandlePatternId(pattern)) {
+        throw createError('CandlePatternExpected', localize('Given candle pattern is not valid'));
+    }
+    return pattern;
+};
+
 const getCandleInterface = () => {
     return {
         isCandleBlack: candle => expectCandle(candle) && candle.close < candle.open,
         candleValues: (ohlc, field) => expectCandles(ohlc).map(o => o[field]),
         candleField: (candle, field) => expectCandle(candle)[field],
+        isCandlePattern: (ohlc, pattern) => isCandlePattern(expectCandles(ohlc), expectCandlePattern(pattern)),
+        candlePatterns: ohlc => findCandlePatterns(expectCandles(ohlc)),
     };
 };
 
@@ -0,0 +1,39 @@
+import { localize } from '@deriv-com/translations';
+import {
+    getDigitPercentage,
+    getLeastFrequentDigit,
+    getMostFrequentDigit,
+    getOverPercentage,
+    getParityPercentage,
+    getParityStreak,
+    getUnderPercentage,
+    isDigitUnseen,
+} from '../../digit-patterns';
+import { expectPositiveInteger } from '../utils/sanitize';
+
+const expectTicks = ticks =>
+    expectPositiveInteger(Number(ticks), localize('Number of ticks must be a positive integer'));
+
+const takeLastTicks = (digits, ticks) => digits.slice(-expectTicks(ticks));
+
+const getDigitInterface = () => {
+    return {
+        digitFrequency: (digits, ticks, digit) => getDigitPercentage(takeLastTicks(digits, ticks), Number(digit)),
+        frequentDigit: (digits, ticks, rank) =>
+            rank === 'least'
+                ? getLeastFrequentDigit(takeLastTicks(digits, ticks))
+                : getMostFrequentDigit(takeLastTicks(digits, ticks)),
+        parityPercentage: (digits, ticks, parity) => getParityPercentage(takeLastTicks(digits, ticks), parity),
+        overUnderPercentage: (digits, ticks, side, barrier) =>
+            side === 'under'
+                ? getUnderPercentage(takeLastTicks(digits, ticks), Number(barrier))
+                : getOverPercentage(takeLastTicks(digits, ticks), Number(barrier)),
+        parityStreak: (digits, parity) => {
+            const streak = getParityStreak(digits);
+            return streak.parity === parity ? streak.length : 0;
+        },
+        isDigitUnseen: (digits, digit, ticks) => isDigitUnseen(digits, Number(digit), expectTicks(ticks)),
+    };
+};
+
+export default getDigitInterface;
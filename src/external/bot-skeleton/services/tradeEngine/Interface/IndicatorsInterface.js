@@ -1,13 +1,33 @@
 import {
+    averageDirectionalIndex as adx,
+    averageDirectionalIndexArray as adxa,
+    averageTrueRange as atr,
+    averageTrueRangeArray as atra,
     bollingerBands as bb,
     bollingerBandsArray as bba,
+    commodityChannelIndex as cci,
+    commodityChannelIndexArray as ccia,
+    donchianChannels as dc,
+    donchianChannelsArray as dca,
     exponentialMovingAverage as ema,
     exponentialMovingAverageArray as emaa,
+    ichimokuCloud as ichimoku,
+    ichimokuCloudArray as ichimokua,
+    keltnerChannels as kc,
+    keltnerChannelsArray as kca,
     macdArray as macda,
+    parabolicSar as psar,
+    parabolicSarArray as psara,
     relativeStrengthIndex as rsi,
     relativeStrengthIndexArray as rsia,
     simpleMovingAverage as sma,
     simpleMovingAverageArray as smaa,
+    stochasticOscillator as stoch,
+    stochasticOscillatorArray as stocha,
+    volumeWeightedAverage as vwap,
+    volumeWeightedAverageArray as vwapa,
+    williamsPercentRange as willr,
+    williamsPercentRangeArray as willra,
 } from '@/external/indicators/index';
 
 const decorate = (f, input, tradeEngine, config, ...args) => {
@@ -26,6 +46,26 @@ const getIndicatorsInterface = tradeEngine => {
         bb: (input, config, field) => decorate(bb, input, tradeEngine, config)[field],
         bba: (input, config, field) => decorate(bba, input, tradeEngine, config).map(r => r[field]),
         macda: (input, config, field) => decorate(macda, input, tradeEngine, config).map(r => r[field]),
+        stoch: (input, config, field) => decorate(stoch, input, tradeEngine, config)[field],
+        stocha: (input, config, field) => decorate(stocha, input, tradeEngine, config).map(r => r[field]),
+        atr: (input, periods) => decorate(atr, input, tradeEngine, { periods }),
+        atra: (input, periods) => decorate(atra, input, tradeEngine, { periods }),
+        adx: (input, config, field) => decorate(adx, input, tradeEngine, config)[field],
+        adxa: (input, config, field) => decorate(adxa, input, tradeEngine, config).map(r => r[field]),
+        cci: (input, periods) => decorate(cci, input, tradeEngine, { periods }),
+        ccia: (input, periods) => decorate(ccia, input, tradeEngine, { periods }),
+        willr: (input, periods) => decorate(willr, input, tradeEngine, { periods }),
+        willra: (input, periods) => decorate(willra, input, tradeEngine, { periods }),
+        psar: (input, config) => decorate(psar, input, tradeEngine, config),
+        psara: (input, config) => decorate(psara, input, tradeEngine, config),
+        ichimoku: (input, config, field) => decorate(ichimoku, input, tradeEngine, config)[field],
+        ichimokua: (input, config, field) => decorate(ichimokua, input, tradeEngine, config).map(r => r[field]),
+        vwap: (input, periods) => decorate(vwap, input, tradeEngine, { periods }),
+        vwapa: (input, periods) => decorate(vwapa, input, tradeEngine, { periods }),
+        kc: (input, config, field) => decorate(kc, input, tradeEngine, config)[field],
+        kca: (input, config, field) => decorate(kca, input, tradeEngine, config).map(r => r[field]),
+        dc: (input, config, field) => decorate(dc, input, tradeEngine, config)[field],
+        dca: (input, config, field) => decorate(dca, input, tradeEngine, config).map(r => r[field]),
     };
 };
 
@@ -1,27 +1,37 @@
 import { localize } from '@deriv-com/translations';
-import { observer as globalObserver } from '../../../utils/observer';
-import { notify } from '../utils/broadcast';
+import { createChannel, notification_dispatcher } from '../../notifications';
 
 const getMiscInterface = tradeEngine => {
+    const { notify } = tradeEngine.$scope.broadcast;
+
     return {
-        notify: args => globalObserver.emit('ui.log.notify', args),
+        notify: args => tradeEngine.$scope.events.emit('ui.log.notify', args),
         console: ({ type, message }) => console[type](message), // eslint-disable-line no-console
         notifyTelegram: (access_token, chat_id, text) => {
-            const url = `https://api.telegram.org/bot${access_token}/sendMessage`;
-            const onError = () => notify('warn', localize('The Telegram notification could not be sent'));
+            const channel = createChannel('telegram', { access_token, chat_id });
+            notification_dispatcher.send(channel, { event: 'custom', title: '', message: text }).then(({ error }) => {
+                if (error) {
+                    notify('warn', localize('The Telegram notification could not be sent'));
+                }
+            });
+        },
+        notifyChannels: (message, channel_name) => {
+            const notification = { event: 'custom', title: '', message: String(message) };
+            if (!channel_name) {
+                notification_dispatcher.notify(notification);
+                return;
+            }
 
-            fetch(url, {
-                method: 'POST',
-                mode: 'cors',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ chat_id, text }),
-            })
-                .then(response => {
-                    if (!response.ok) {
-                        onError();
-                    }
-                })
-                .catch(onError);
+            const channels = notification_dispatcher
+                .getChannels()
+                .filter(channel => channel.is_enabled && channel.name === channel_name);
+            if (!channels.length) {
+                notify(
+                    'warn',
+                    localize('There is no enabled notification channel named "{{ channel_name }}"', { channel_name })
+                );
+            }
+            channels.forEach(channel => notification_dispatcher.send(channel, notification));
         },
         getTotalRuns: () => tradeEngine.getTotalRuns(),
         getBalance: type => tradeEngine.getBalance(type),
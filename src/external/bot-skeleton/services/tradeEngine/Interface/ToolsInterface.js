@@ -1,5 +1,6 @@
 import { localize } from '@deriv-com/translations';
 import getCandleInterface from './CandleInterface';
+import getDigitInterface from './DigitInterface';
 import getIndicatorsInterface from './IndicatorsInterface';
 import getMiscInterface from './MiscInterface';
 
@@ -44,27 +45,12 @@ const getToolsInterface = tradeEngine => {
         },
         getTime: () => parseInt(new Date().getTime() / 1000),
         ...getCandleInterface(),
+        ...getDigitInterface(),
         ...getMiscInterface(tradeEngine),
         ...getIndicatorsInterface(tradeEngine),
 
-        // Highlight the block that is being executed
-        highlightBlock: block_id => {
-            const block = window.Blockly.derivWorkspace.getBlockById(block_id);
-            window.Blockly.BlockSvg.prototype.highlightExecutedBlock = function () {
-                const highlight_block_class = 'block--execution-highlighted';
-                if (!window.Blockly.utils.dom.hasClass(this.svgGroup_, highlight_block_class)) {
-                    window.Blockly.utils.dom.addClass(this.svgGroup_, highlight_block_class);
-                    setTimeout(() => {
-                        if (this.svgGroup_) {
-                            window.Blockly.utils.dom.removeClass(this.svgGroup_, highlight_block_class);
-                        }
-                    }, 1505);
-                }
-            };
-            if (block) {
-                block.highlightExecutedBlock(block);
-            }
-        },
+        // Highlight the block that is being executed, if a workspace is listening
+        highlightBlock: block_id => tradeEngine.$scope.events.emit('bot.highlight_block', block_id),
     };
 };
 
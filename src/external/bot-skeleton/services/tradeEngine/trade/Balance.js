@@ -1,15 +1,13 @@
 import { getFormattedText } from '@/components/shared';
 import DBotStore from '../../../scratch/dbot-store';
-import { api_base } from '../../api/api-base';
-import { info } from '../utils/broadcast';
 
 let balance_string = '';
 
 export default Engine =>
     class Balance extends Engine {
         observeBalance() {
-            if (!api_base.api) return;
-            const subscription = api_base.api.onMessage().subscribe(({ data }) => {
+            if (!this.api_base.api) return;
+            const subscription = this.api_base.api.onMessage().subscribe(({ data }) => {
                 if (data?.msg_type === 'balance' && data?.balance) {
                     const {
                         balance: { balance: b, currency },
@@ -17,18 +15,21 @@ export default Engine =>
 
                     balance_string = getFormattedText(b, currency);
 
-                    if (this.accountInfo) info({ accountID: this.accountInfo.loginid, balance: balance_string });
+                    if (this.accountInfo)
+                        this.$scope.broadcast.info({ accountID: this.accountInfo.loginid, balance: balance_string });
                 }
             });
-            api_base.pushSubscription(subscription);
+            this.pushSubscription(subscription);
         }
 
         // eslint-disable-next-line class-methods-use-this
         getBalance(type) {
-            const { client } = DBotStore.instance;
-            const balance = (client && client.balance) || 0;
+            // Without the app's stores (e.g. when running headless) the balance comes from the account.
+            const { balance: account_balance, currency: account_currency } = this.api_base.account_info;
+            const { client } = DBotStore.instance ?? {};
+            const balance = (client ? client.balance : account_balance) || 0;
 
-            balance_string = getFormattedText(balance, client.currency, false);
+            balance_string = getFormattedText(balance, client ? client.currency : account_currency, false);
             return type === 'STR' ? balance_string : balance;
         }
     };
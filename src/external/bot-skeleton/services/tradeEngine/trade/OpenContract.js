@@ -1,13 +1,15 @@
 import { getRoundedNumber } from '@/components/shared';
-import { api_base } from '../../api/api-base';
-import { contract as broadcastContract, contractStatus } from '../utils/broadcast';
+import { risk_manager } from '../../risk';
+import { doUntilDone } from '../utils/helpers';
 import { openContractReceived, sell } from './state/actions';
 
+const SETTLEMENT_POLL_INTERVAL = 5000;
+
 export default Engine =>
     class OpenContract extends Engine {
         observeOpenContract() {
-            if (!api_base.api) return;
-            const subscription = api_base.api.onMessage().subscribe(({ data }) => {
+            if (!this.api_base.api) return;
+            const subscription = this.api_base.api.onMessage().subscribe(({ data }) => {
                 if (data.msg_type === 'proposal_open_contract') {
                     const contract = data.proposal_open_contract;
 
@@ -15,16 +17,24 @@ export default Engine =>
                         return;
                     }
 
+                    const { contract: broadcastContract, contractStatus } = this.$scope.broadcast;
+
                     this.setContractFlags(contract);
 
                     this.data.contract = contract;
 
-                    broadcastContract({ accountID: api_base.account_info.loginid, ...contract });
+                    broadcastContract({ accountID: this.api_base.account_info.loginid, ...contract });
 
                     if (this.isSold) {
                         this.contractId = '';
                         clearTimeout(this.transaction_recovery_timeout);
                         this.updateTotals(contract);
+                        this.recordStakingPlanResult(contract);
+                        risk_manager.settlePurchase(
+                            this.risk_position_id,
+                            Number(contract.sell_price) - Number(contract.buy_price)
+                        );
+                        this.risk_position_id = null;
                         contractStatus({
                             id: 'contract.sold',
                             data: contract.transaction_ids.sell,
@@ -41,7 +51,35 @@ export default Engine =>
                     }
                 }
             });
-            api_base.pushSubscription(subscription);
+            this.pushSubscription(subscription);
+        }
+
+        /**
+         * Settles the stake reserved for the open contract once the session no longer follows it,
+         * e.g. when the bot is stopped mid-contract: the contract is polled until it is sold.
+         * A purchase that is still in flight is settled by `Purchase` once it is answered.
+         */
+        settleReservedPosition() {
+            const position_id = this.risk_position_id;
+            const contract_id = this.contractId;
+            if (!position_id || !contract_id) return;
+            this.risk_position_id = null;
+
+            const poll = () =>
+                doUntilDone(() => this.api_base.api.send({ proposal_open_contract: 1, contract_id }))
+                    .then(({ proposal_open_contract: contract }) => {
+                        if (!contract?.is_sold) {
+                            setTimeout(poll, SETTLEMENT_POLL_INTERVAL);
+                            return;
+                        }
+                        risk_manager.settlePurchase(
+                            position_id,
+                            Number(contract.sell_price) - Number(contract.buy_price)
+                        );
+                    })
+                    // Without its outcome the stake is released, so it can't block further trades.
+                    .catch(() => risk_manager.releasePurchase(position_id));
+            poll();
         }
 
         waitForAfter() {
@@ -1,5 +1,4 @@
 import { localize } from '@deriv-com/translations';
-import { api_base } from '../../api/api-base';
 import { doUntilDone, tradeOptionToProposal } from '../utils/helpers';
 import { clearProposals, proposalsReady } from './state/actions';
 
@@ -67,7 +66,7 @@ export default Engine =>
 
             Promise.all(
                 this.proposal_templates.map(proposal => {
-                    doUntilDone(() => api_base.api.send(proposal)).catch(error => {
+                    doUntilDone(() => this.api_base.api.send(proposal)).catch(error => {
                         // We intercept ContractBuyValidationError as user may have specified
                         // e.g. a DIGITUNDER 0 or DIGITOVER 9, while one proposal may be invalid
                         // the other is valid. We will error on Purchase rather than here.
@@ -92,8 +91,8 @@ export default Engine =>
         }
 
         observeProposals() {
-            if (!api_base.api) return;
-            const subscription = api_base.api.onMessage().subscribe(response => {
+            if (!this.api_base.api) return;
+            const subscription = this.api_base.api.onMessage().subscribe(response => {
                 if (response.data.msg_type === 'proposal') {
                     const { passthrough, proposal } = response.data;
                     if (proposal && this.data.proposals.findIndex(p => p.id === proposal.id) === -1) {
@@ -103,7 +102,7 @@ export default Engine =>
                     }
                 }
             });
-            api_base.pushSubscription(subscription);
+            this.pushSubscription(subscription);
         }
 
         checkProposalReady() {
@@ -1,12 +1,11 @@
 import { LogTypes } from '../../../constants/messages';
-import { api_base } from '../../api/api-base';
-import { contractStatus, info, log } from '../utils/broadcast';
+import { createError } from '../../../utils/error';
+import { getRiskViolationMessage, risk_manager } from '../../risk';
 import { doUntilDone, getUUID, recoverFromError, tradeOptionToBuy } from '../utils/helpers';
 import { purchaseSuccessful } from './state/actions';
 import { BEFORE_PURCHASE } from './state/constants';
 
 let delayIndex = 0;
-let purchase_reference;
 
 export default Engine =>
     class Purchase extends Engine {
@@ -16,6 +15,14 @@ export default Engine =>
                 return Promise.resolve();
             }
 
+            const { contractStatus, info, log } = this.$scope.broadcast;
+
+            const releaseOnError = error => {
+                risk_manager.releasePurchase(this.risk_position_id);
+                this.risk_position_id = null;
+                throw error;
+            };
+
             const onSuccess = response => {
                 // Don't unnecessarily send a forget request for a purchased contract.
                 const { buy } = response;
@@ -27,6 +34,8 @@ export default Engine =>
                 });
 
                 this.contractId = buy.contract_id;
+                // Answered after the bot was stopped, nothing follows the contract anymore.
+                if (this.$scope.stopped) this.settleReservedPosition();
                 this.store.dispatch(purchaseSuccessful());
 
                 if (this.is_proposal_subscription_required) {
@@ -47,7 +56,11 @@ export default Engine =>
             if (this.is_proposal_subscription_required) {
                 const { id, askPrice } = this.selectProposal(contract_type);
 
-                const action = () => api_base.api.send({ buy: id, price: askPrice });
+                if (!this.reservePurchase(askPrice)) {
+                    return Promise.reject(this.risk_error);
+                }
+
+                const action = () => this.api_base.api.send({ buy: id, price: askPrice });
 
                 this.isSold = false;
 
@@ -57,7 +70,7 @@ export default Engine =>
                 });
 
                 if (!this.options.timeMachineEnabled) {
-                    return doUntilDone(action).then(onSuccess);
+                    return doUntilDone(action).then(onSuccess, releaseOnError);
                 }
 
                 return recoverFromError(
@@ -80,10 +93,15 @@ export default Engine =>
                     },
                     ['PriceMoved', 'InvalidContractProposal'],
                     delayIndex++
-                ).then(onSuccess);
+                ).then(onSuccess, releaseOnError);
+            }
+
+            if (!this.reservePurchase(this.tradeOptions.amount)) {
+                return Promise.reject(this.risk_error);
             }
+
             const trade_option = tradeOptionToBuy(contract_type, this.tradeOptions);
-            const action = () => api_base.api.send(trade_option);
+            const action = () => this.api_base.api.send(trade_option);
 
             this.isSold = false;
 
@@ -93,7 +111,7 @@ export default Engine =>
             });
 
             if (!this.options.timeMachineEnabled) {
-                return doUntilDone(action).then(onSuccess);
+                return doUntilDone(action).then(onSuccess, releaseOnError);
             }
 
             return recoverFromError(
@@ -112,10 +130,31 @@ export default Engine =>
                 },
                 ['PriceMoved', 'InvalidContractProposal'],
                 delayIndex++
-            ).then(onSuccess);
+            ).then(onSuccess, releaseOnError);
+        }
+
+        /**
+         * Asks the account-wide risk manager to reserve the stake of the next purchase.
+         * When it is refused, `risk_error` holds the error that stops the bot.
+         */
+        reservePurchase(stake) {
+            const risk_check = risk_manager.requestPurchase({
+                source: 'blockly',
+                account: this.api_base.account_info?.loginid,
+                stake: Number(stake),
+            });
+
+            if (!risk_check.is_allowed) {
+                this.risk_error = createError('RiskLimitReached', getRiskViolationMessage(risk_check.violation));
+                return false;
+            }
+
+            this.risk_position_id = risk_check.position_id;
+            return true;
         }
-        getPurchaseReference = () => purchase_reference;
+        // Kept per engine, since bots run side by side receive each other's proposals.
+        getPurchaseReference = () => this.purchase_reference;
         regeneratePurchaseReference = () => {
-            purchase_reference = getUUID();
+            this.purchase_reference = getUUID();
         };
     };
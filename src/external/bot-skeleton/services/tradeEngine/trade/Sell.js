@@ -1,7 +1,4 @@
 import { LogTypes } from '../../../constants/messages';
-import { observer as globalObserver } from '../../../utils/observer';
-import { api_base } from '../../api/api-base';
-import { contractStatus, log } from '../utils/broadcast';
 import { doUntilDone, recoverFromError } from '../utils/helpers';
 import { DURING_PURCHASE } from './state/constants';
 
@@ -12,7 +9,8 @@ export default Engine =>
         }
 
         sellAtMarket() {
-            globalObserver.emit('bot.sell');
+            const { contractStatus, log } = this.$scope.broadcast;
+            this.$scope.events.emit('bot.sell');
 
             // Prevent calling sell twice
             if (this.store.getState().scope !== DURING_PURCHASE) {
@@ -43,9 +41,9 @@ export default Engine =>
                 const contract_id = this.contractId;
 
                 const sellContractAndGetContractInfo = () => {
-                    return doUntilDone(() => api_base.api.send({ sell: contract_id, price: 0 }))
+                    return doUntilDone(() => this.api_base.api.send({ sell: contract_id, price: 0 }))
                         .then(sell_response => {
-                            doUntilDone(() => api_base.api.send({ proposal_open_contract: 1, contract_id })).then(
+                            doUntilDone(() => this.api_base.api.send({ proposal_open_contract: 1, contract_id })).then(
                                 () => sell_response
                             );
                         })
@@ -71,7 +69,7 @@ export default Engine =>
 
                             // For every other error, check whether the contract is not actually already sold.
                             return doUntilDone(() =>
-                                api_base.api.send({
+                                this.api_base.api.send({
                                     proposal_open_contract: 1,
                                     contract_id,
                                 })
@@ -0,0 +1,21 @@
+import { createStakingPlan, getStakingPlanConfig } from '../../staking-plans/staking-plans';
+
+export default Engine =>
+    class Staking extends Engine {
+        setStakingPlan({ plan, initial_stake, parameter, max_stake }) {
+            this.staking_plan = createStakingPlan(
+                getStakingPlanConfig(plan, Number(initial_stake), parameter, Number(max_stake) || 0)
+            );
+        }
+
+        getStakingPlanStake() {
+            if (!this.staking_plan) return 0;
+            return this.staking_plan.getStake({ balance: Number(this.getBalance('NUM')) });
+        }
+
+        recordStakingPlanResult(contract) {
+            if (!this.staking_plan) return;
+            const stake = Number(contract.buy_price);
+            this.staking_plan.recordResult({ profit: Number(contract.sell_price) - stake, stake });
+        }
+    };
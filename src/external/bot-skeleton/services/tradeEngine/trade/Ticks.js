@@ -2,14 +2,10 @@
 import debounce from 'lodash.debounce';
 import { localize } from '@deriv-com/translations';
 import { getLast } from '../../../utils/binary-utils';
-import { observer as globalObserver } from '../../../utils/observer';
-import { api_base } from '../../api/api-base';
 import { getDirection, getLastDigit } from '../utils/helpers';
 import { expectPositiveInteger } from '../utils/sanitize';
 import * as constants from './state/constants';
 
-let tickListenerKey;
-
 export default Engine =>
     class Ticks extends Engine {
         async watchTicks(symbol) {
@@ -19,7 +15,7 @@ export default Engine =>
 
                 await ticksService.stopMonitor({
                     symbol,
-                    key: tickListenerKey,
+                    key: this.tick_listener_key,
                 });
                 const callback = ticks => {
                     if (this.is_proposal_subscription_required) {
@@ -31,10 +27,16 @@ export default Engine =>
                 };
 
                 const key = await ticksService.monitor({ symbol, callback });
-                tickListenerKey = key;
+                this.tick_listener_key = key;
             }
         }
 
+        /** Stops listening to the ticks of the bot, for bots that share their ticks service. */
+        stopWatchingTicks() {
+            if (!this.symbol) return Promise.resolve();
+            return this.$scope.ticksService.stopMonitor({ symbol: this.symbol, key: this.tick_listener_key });
+        }
+
         checkTicksPromiseExists() {
             return this.$scope.ticksService.ticks_history_promise;
         }
@@ -67,7 +69,7 @@ export default Engine =>
                     })
                     .catch(e => {
                         if (e.code === 'MarketIsClosed') {
-                            globalObserver.emit('Error', e);
+                            this.$scope.events.emit('Error', e);
                             resolve(e.code);
                         }
                     })
@@ -122,7 +124,7 @@ export default Engine =>
             const subscription_id = this.subscription_id_for_accumulators;
             const is_proposal_requested = this.is_proposal_requested_for_accumulators;
             const proposal_request = {
-                ...window.Blockly.accumulators_request,
+                ...window.Blockly?.accumulators_request,
                 amount: this?.tradeOptions?.amount,
                 basis: this?.tradeOptions?.basis,
                 contract_type: 'ACCU',
@@ -135,7 +137,7 @@ export default Engine =>
             if (!subscription_id && !is_proposal_requested) {
                 this.is_proposal_requested_for_accumulators = true;
                 if (proposal_request) {
-                    await api_base?.api?.send(proposal_request);
+                    await this.api_base?.api?.send(proposal_request);
                 }
             }
         }
@@ -143,7 +145,7 @@ export default Engine =>
         async handleOnMessageForAccumulators() {
             let ticks_stayed_in_list = [];
             return new Promise(resolve => {
-                const subscription = api_base.api.onMessage().subscribe(({ data }) => {
+                const subscription = this.api_base.api.onMessage().subscribe(({ data }) => {
                     if (data.msg_type === 'proposal') {
                         try {
                             this.subscription_id_for_accumulators = data.subscription.id;
@@ -152,11 +154,11 @@ export default Engine =>
                             ticks_stayed_in_list = [...stat_list, ...ticks_stayed_in_list];
                             if (ticks_stayed_in_list.length > 0) resolve(ticks_stayed_in_list);
                         } catch (error) {
-                            globalObserver.emit('Unexpected message type or no proposal found:', error);
+                            this.$scope.events.emit('Unexpected message type or no proposal found:', error);
                         }
                     }
                 });
-                api_base.pushSubscription(subscription);
+                this.pushSubscription(subscription);
             });
         }
 
@@ -169,11 +171,16 @@ export default Engine =>
                 const ticks_stayed_in_list = await this.handleOnMessageForAccumulators();
                 return ticks_stayed_in_list;
             } catch (error) {
-                globalObserver.emit('Error in subscription promise:', error);
+                this.$scope.events.emit('Error in subscription promise:', error);
                 throw error;
             } finally {
-                // forget all proposal subscriptions so we can fetch new stats data on new call
-                await api_base?.api?.send({ forget_all: 'proposal' });
+                // forget all proposal subscriptions so we can fetch new stats data on new call,
+                // or only this one when other bots run side by side
+                if (this.$scope.bot_id && this.subscription_id_for_accumulators) {
+                    await this.api_base?.api?.forget(this.subscription_id_for_accumulators);
+                } else {
+                    await this.api_base?.api?.send({ forget_all: 'proposal' });
+                }
                 this.is_proposal_requested_for_accumulators = false;
                 this.subscription_id_for_accumulators = null;
             }
@@ -184,7 +191,7 @@ export default Engine =>
                 const ticks_stayed_in = await this.fetchStatsForAccumulators();
                 return ticks_stayed_in?.[0];
             } catch (error) {
-                globalObserver.emit('Error fetching current stat:', error);
+                this.$scope.events.emit('Error fetching current stat:', error);
             }
         }
 
@@ -194,7 +201,7 @@ export default Engine =>
                 // we need to send only lastest 100 ticks
                 return ticks_stayed_in?.slice(0, 100);
             } catch (error) {
-                globalObserver.emit('Error fetching current stat:', error);
+                this.$scope.events.emit('Error fetching current stat:', error);
             }
         }
 
@@ -2,8 +2,6 @@ import { getRoundedNumber } from '@/components/shared';
 import { localize } from '@deriv-com/translations';
 import { LogTypes } from '../../../constants/messages';
 import { createError } from '../../../utils/error';
-import { observer as globalObserver } from '../../../utils/observer';
-import { info, log } from '../utils/broadcast';
 
 const skeleton = {
     totalProfit: 0,
@@ -22,16 +20,17 @@ export default Engine =>
             super();
             this.sessionRuns = 0;
             this.sessionProfit = 0;
+        }
 
-            globalObserver.register('statistics.clear', this.clearStatistics.bind(this));
+        observeStatistics() {
+            this.$scope.events.register('statistics.clear', this.clearStatistics.bind(this));
         }
 
         clearStatistics() {
             this.sessionRuns = 0;
             this.sessionProfit = 0;
             if (!this.accountInfo) return;
-            const { loginid: accountID } = this.accountInfo;
-            globalStat[accountID] = { ...skeleton };
+            globalStat[this.getStatKey()] = { ...skeleton };
         }
 
         updateTotals(contract) {
@@ -42,6 +41,7 @@ export default Engine =>
             const win = profit > 0;
 
             const accountStat = this.getAccountStat();
+            const { info, log } = this.$scope.broadcast;
 
             accountStat.totalWins += win ? 1 : 0;
 
@@ -125,13 +125,20 @@ export default Engine =>
             return tradeOptions;
         }
 
-        getAccountStat() {
+        // Bots run side by side count their own statistics.
+        getStatKey() {
             const { loginid: accountID } = this.accountInfo;
+            const { bot_id } = this.$scope;
+            return bot_id ? `${accountID}:${bot_id}` : accountID;
+        }
+
+        getAccountStat() {
+            const stat_key = this.getStatKey();
 
-            if (!(accountID in globalStat)) {
-                globalStat[accountID] = { ...skeleton };
+            if (!(stat_key in globalStat)) {
+                globalStat[stat_key] = { ...skeleton };
             }
 
-            return globalStat[accountID];
+            return globalStat[stat_key];
         }
     };
@@ -0,0 +1,69 @@
+import { risk_manager } from '../../../risk';
+import OpenContract from '../OpenContract';
+
+jest.mock('@/components/shared', () => ({ getRoundedNumber: jest.fn() }));
+jest.mock('../../../risk', () => ({ risk_manager: { releasePurchase: jest.fn(), settlePurchase: jest.fn() } }));
+jest.mock('../../utils/helpers', () => ({ doUntilDone: (promiseFn: () => Promise<unknown>) => promiseFn() }));
+
+type TEngine = {
+    api_base: { api: { send: jest.Mock } };
+    contractId: string;
+    risk_position_id: string | null;
+    settleReservedPosition: () => void;
+};
+
+const createEngine = (contracts: Record<string, unknown>[], contract_id = '101') => {
+    const send = jest.fn();
+    contracts.forEach(contract => send.mockResolvedValueOnce({ proposal_open_contract: contract }));
+    const engine = new (OpenContract(class {}))() as unknown as TEngine;
+    return Object.assign(engine, {
+        api_base: { api: { send } },
+        contractId: contract_id,
+        risk_position_id: 'blockly-1',
+    });
+};
+
+const flushPromises = () => new Promise(jest.requireActual('timers').setImmediate);
+
+describe('OpenContract', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should settle the stake of a contract the bot was stopped in once it is sold', async () => {
+        const engine = createEngine([
+            { contract_id: 101, is_sold: 0 },
+            { contract_id: 101, is_sold: 1, buy_price: 10, sell_price: 0 },
+        ]);
+
+        engine.settleReservedPosition();
+        await flushPromises();
+        expect(risk_manager.settlePurchase).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(5000);
+        await flushPromises();
+
+        expect(engine.api_base.api.send).toHaveBeenCalledWith({ proposal_open_contract: 1, contract_id: '101' });
+        expect(risk_manager.settlePurchase).toHaveBeenCalledWith('blockly-1', -10);
+        expect(engine.risk_position_id).toBeNull();
+    });
+
+    it('should release the stake when the outcome of the contract cannot be looked up', async () => {
+        const engine = createEngine([]);
+        engine.api_base.api.send.mockRejectedValueOnce({ error: { code: 'InvalidContractId' } });
+
+        engine.settleReservedPosition();
+        await flushPromises();
+
+        expect(risk_manager.releasePurchase).toHaveBeenCalledWith('blockly-1');
+        expect(risk_manager.settlePurchase).not.toHaveBeenCalled();
+    });
+
+    it('should leave the stake of a purchase in flight to the purchase', () => {
+        const engine = createEngine([], '');
+
+        engine.settleReservedPosition();
+
+        expect(engine.api_base.api.send).not.toHaveBeenCalled();
+        expect(engine.risk_position_id).toBe('blockly-1');
+    });
+});
@@ -2,8 +2,6 @@ import { applyMiddleware, createStore } from 'redux';
 import { thunk } from 'redux-thunk';
 import { localize } from '@deriv-com/translations';
 import { createError } from '../../../utils/error';
-import { observer as globalObserver } from '../../../utils/observer';
-import { api_base } from '../../api/api-base';
 import { checkBlocksForProposalRequest, doUntilDone } from '../utils/helpers';
 import { expectInitArg } from '../utils/sanitize';
 import { proposalsReady, start } from './state/actions';
@@ -14,6 +12,7 @@ import OpenContract from './OpenContract';
 import Proposal from './Proposal';
 import Purchase from './Purchase';
 import Sell from './Sell';
+import Staking from './Staking';
 import Ticks from './Ticks';
 import Total from './Total';
 
@@ -34,9 +33,10 @@ const watchDuring = store =>
     });
 
 /* The watchScope function is called randomly and resets the prevTick
- * which leads to the same problem we try to solve. So prevTick is isolated
+ * which leads to the same problem we try to solve. So prevTick is isolated,
+ * and kept per store for bots run side by side.
  */
-let prevTick;
+const prev_ticks = new WeakMap();
 const watchScope = ({ store, stopScope, passScope, passFlag }) => {
     // in case watch is called after stop is fired
     if (store.getState().scope === stopScope) {
@@ -46,8 +46,8 @@ const watchScope = ({ store, stopScope, passScope, passFlag }) => {
         const unsubscribe = store.subscribe(() => {
             const newState = store.getState();
 
-            if (newState.newTick === prevTick) return;
-            prevTick = newState.newTick;
+            if (newState.newTick === prev_ticks.get(store)) return;
+            prev_ticks.set(store, newState.newTick);
 
             if (newState.scope === passScope && newState[passFlag]) {
                 unsubscribe();
@@ -62,11 +62,14 @@ const watchScope = ({ store, stopScope, passScope, passFlag }) => {
     });
 };
 
-export default class TradeEngine extends Balance(Purchase(Sell(OpenContract(Proposal(Ticks(Total(class {}))))))) {
+export default class TradeEngine extends Balance(
+    Purchase(Sell(OpenContract(Proposal(Ticks(Staking(Total(class {})))))))
+) {
     constructor($scope) {
         super();
         this.observer = $scope.observer;
         this.$scope = $scope;
+        this.api_base = $scope.api_base;
         this.observe();
         this.data = {
             contract: {},
@@ -93,7 +96,7 @@ export default class TradeEngine extends Balance(Purchase(Sell(OpenContract(Prop
             throw createError('NotInitialized', localize('Bot.init is not called'));
         }
 
-        globalObserver.emit('bot.running');
+        this.$scope.events.emit('bot.running');
 
         const validated_trade_options = this.validateTradeOptions(tradeOptions);
 
@@ -111,15 +114,15 @@ export default class TradeEngine extends Balance(Purchase(Sell(OpenContract(Prop
         // for strategies using total runs, GetTotalRuns function is trying to get loginid and it gets called before Proposals calls.
         // the below required loginid to be set in Proposal calls where loginAndGetBalance gets resolved.
         // Earlier this used to happen as soon as we get ticks_history response and by the time GetTotalRuns gets called we have required info.
-        this.accountInfo = api_base.account_info;
-        this.token = api_base.token;
+        this.accountInfo = this.api_base.account_info;
+        this.token = this.api_base.token;
         return new Promise(resolve => {
             // Try to recover from a situation where API doesn't give us a correct response on
             // "proposal_open_contract" which would make the bot run forever. When there's a "sell"
             // event, wait a couple seconds for the API to give us the correct "proposal_open_contract"
             // response, if there's none after x seconds. Send an explicit request, which _should_
             // solve the issue. This is a backup!
-            const subscription = api_base.api.onMessage().subscribe(({ data }) => {
+            const subscription = this.api_base.api.onMessage().subscribe(({ data }) => {
                 if (data.msg_type === 'transaction' && data.transaction.action === 'sell') {
                     this.transaction_recovery_timeout = setTimeout(() => {
                         const { contract } = this.data;
@@ -127,18 +130,34 @@ export default class TradeEngine extends Balance(Purchase(Sell(OpenContract(Prop
                         const is_open_contract = contract.status === 'open';
                         if (is_same_contract && is_open_contract) {
                             doUntilDone(() => {
-                                api_base.api.send({ proposal_open_contract: 1, contract_id: contract.contract_id });
+                                this.api_base.api.send({
+                                    proposal_open_contract: 1,
+                                    contract_id: contract.contract_id,
+                                });
                             }, ['PriceMoved']);
                         }
                     }, 1500);
                 }
                 resolve();
             });
-            api_base.pushSubscription(subscription);
+            this.pushSubscription(subscription);
         });
     }
 
+    /**
+     * Keeps an API subscription until the session ends. Bots run side by side keep theirs
+     * apart, so stopping one of them doesn't deafen the others.
+     */
+    pushSubscription(subscription) {
+        if (this.$scope.bot_id) {
+            this.$scope.subscriptions.push(subscription);
+        } else {
+            this.api_base.pushSubscription(subscription);
+        }
+    }
+
     observe() {
+        this.observeStatistics();
         this.observeOpenContract();
         this.observeBalance();
         this.observeProposals();
@@ -152,7 +171,7 @@ export default class TradeEngine extends Balance(Purchase(Sell(OpenContract(Prop
     }
 
     makeDirectPurchaseDecision() {
-        const { has_payout_block, is_basis_payout } = checkBlocksForProposalRequest();
+        const { has_payout_block, is_basis_payout } = checkBlocksForProposalRequest(this.$scope.workspace);
         this.is_proposal_subscription_required = has_payout_block || is_basis_payout;
 
         if (this.is_proposal_subscription_required) {
@@ -1,15 +1,19 @@
 import { config } from '../../../constants/config';
 import { observer as globalObserver } from '../../../utils/observer';
 
-export const contract = c => globalObserver.emit('bot.contract', c);
+/**
+ * Creates the functions the trade engine reports on. Bots run side by side report on
+ * their own observer, so each one has its own journal and statistics.
+ * @param {Observer} observer Observer the events are emitted on
+ */
+export const createBroadcast = observer => ({
+    contract: c => observer.emit('bot.contract', c),
+    contractStatus: c => observer.emit('contract.status', c),
+    info: i => observer.emit('bot.info', i),
+    notify: (className, message) =>
+        observer.emit('ui.log.notify', { className, message, sound: config().lists.NOTIFICATION_SOUND[0][1] }),
+    log: (log_type, extra) => observer.emit('ui.log.success', { log_type, extra }),
+    error: message => observer.emit('ui.log.error', message),
+});
 
-export const contractStatus = c => globalObserver.emit('contract.status', c);
-
-export const info = i => globalObserver.emit('bot.info', i);
-
-export const notify = (className, message) =>
-    globalObserver.emit('ui.log.notify', { className, message, sound: config().lists.NOTIFICATION_SOUND[0][1] });
-
-export const log = (log_type, extra) => globalObserver.emit('ui.log.success', { log_type, extra });
-
-export const error = message => globalObserver.emit('ui.log.error', message);
+export const { contract, contractStatus, info, notify, log, error } = createBroadcast(globalObserver);
@@ -1,9 +1,24 @@
-import Observer from '../../../utils/observer';
+import Observer, { observer as globalObserver } from '../../../utils/observer';
+import { api_base as app_api_base } from '../../api/api-base';
 import TicksService from '../../api/ticks_service';
+import { createBroadcast } from './broadcast';
 
-export const createScope = () => {
+/**
+ * Creates the state of an interpreter session. The Bot Builder bot reports on the global
+ * observer; bots run side by side pass their `bot_id`, the `events` observer their journal
+ * listens on, the `ticksService` they share and the `workspace` their code came from. A
+ * backtest passes the `api_base` its bot trades on, so the app's connection is left alone.
+ */
+export const createScope = ({
+    bot_id,
+    events = globalObserver,
+    api_base = app_api_base,
+    ticksService = new TicksService({ api_base, events }),
+    workspace,
+} = {}) => {
     const observer = new Observer();
-    const ticksService = new TicksService();
     const stopped = false;
-    return { observer, ticksService, stopped };
+    const broadcast = createBroadcast(events);
+    const subscriptions = [];
+    return { observer, ticksService, stopped, bot_id, events, api_base, broadcast, subscriptions, workspace };
 };
@@ -331,9 +331,8 @@ const hasBlockOfType = (targetType, workspace) => {
     return allBlocks.some(block => block.type === targetType && !!block.parentBlock_);
 };
 
-export const checkBlocksForProposalRequest = () => {
-    const workspace = window.Blockly.derivWorkspace;
-    const has_payout_block = hasBlockOfType('payout', workspace);
+export const checkBlocksForProposalRequest = (workspace = window.Blockly?.derivWorkspace) => {
+    const has_payout_block = !!workspace && hasBlockOfType('payout', workspace);
 
     // Code for the future for case when basis: 'payout':
     // * Since basis : '${block.type === 'trade_definition_tradeoptions' ? 'stake' : 'payout'}'
@@ -3,7 +3,6 @@ import cloneThorough from '@/utils/clone';
 import JSInterpreter from '@deriv/js-interpreter';
 import { unrecoverable_errors } from '../../../constants/messages';
 import { observer as globalObserver } from '../../../utils/observer';
-import { api_base } from '../../api/api-base';
 import Interface from '../Interface';
 import { createScope } from './cliTools';
 
@@ -34,8 +33,11 @@ const shouldStopOnError = (bot, errorName = '') => {
 const timeMachineEnabled = bot => botInitialized(bot) && bot.tradeEngine.options.timeMachineEnabled;
 
 // TODO chek beforState & duringState & startState
-const Interpreter = () => {
-    let $scope = createScope();
+/**
+ * @param {Object} [scope_options] Options of bots run side by side, see `createScope`
+ */
+const Interpreter = (scope_options = {}) => {
+    let $scope = createScope(scope_options);
     let bot = Interface($scope);
     let interpreter = {};
     let onFinish;
@@ -45,7 +47,7 @@ const Interpreter = () => {
     );
 
     function init() {
-        $scope = createScope();
+        $scope = createScope(scope_options);
         bot = Interface($scope);
         interpreter = {};
         onFinish = () => {};
@@ -159,6 +161,11 @@ const Interpreter = () => {
         js_interpreter.setProperty(scope, 'sleep', createAsync(js_interpreter, sleep));
     }
 
+    // Only the Bot Builder bot holds off new runs while it stops.
+    function setIsStopping(is_stopping) {
+        if (!$scope.bot_id) $scope.api_base.is_stopping = is_stopping;
+    }
+
     async function stop() {
         return new Promise((resolve, reject) => {
             try {
@@ -168,12 +175,12 @@ const Interpreter = () => {
                 );
 
                 if (!bot.tradeEngine.contractId && is_timeouts_cancellable) {
-                    api_base.is_stopping = true;
+                    setIsStopping(true);
                     // When user is rate limited, allow them to stop the bot immediately
                     // granted there is no active contract.
                     global_timeouts.forEach(timeout => clearTimeout(global_timeouts[timeout]));
                     terminateSession().then(() => {
-                        api_base.is_stopping = false;
+                        setIsStopping(false);
                         resolve();
                     });
                 } else if (
@@ -181,15 +188,15 @@ const Interpreter = () => {
                     !$scope.is_error_triggered &&
                     isMultiplierContract(bot?.tradeEngine?.data?.contract?.contract_type ?? '')
                 ) {
-                    globalObserver.register('contract.status', async contractStatus => {
+                    $scope.events.register('contract.status', async contractStatus => {
                         if (contractStatus.id === 'contract.sold') {
                             terminateSession().then(() => resolve());
                         }
                     });
                 } else {
-                    api_base.is_stopping = true;
+                    setIsStopping(true);
                     terminateSession().then(() => {
-                        api_base.is_stopping = false;
+                        setIsStopping(false);
                         resolve();
                     });
                 }
@@ -204,11 +211,22 @@ const Interpreter = () => {
             try {
                 $scope.stopped = true;
                 $scope.is_error_triggered = false;
-                globalObserver.emit('bot.stop');
+                $scope.events.emit('bot.stop');
+                // The subscription that settles the open contract is dropped below.
+                bot.tradeEngine.settleReservedPosition();
                 const { ticksService } = $scope;
+
+                if ($scope.bot_id) {
+                    // Bots run side by side share the ticks and the API, so only their own listeners are dropped.
+                    $scope.subscriptions.forEach(subscription => subscription.unsubscribe());
+                    $scope.subscriptions = [];
+                    bot.tradeEngine.stopWatchingTicks().then(() => resolve());
+                    return;
+                }
+
                 // Unsubscribe previous ticks_history subscription
                 // Unsubscribe the subscriptions from Proposal, Balance and OpenContract
-                api_base.clearSubscriptions();
+                $scope.api_base.clearSubscriptions();
 
                 ticksService.unsubscribeFromTicksService().then(() => {
                     resolve();
@@ -244,8 +262,8 @@ const Interpreter = () => {
                     return;
                 }
                 if (shouldStopOnError(bot, e?.code)) {
-                    globalObserver.emit('ui.log.error', e.message);
-                    globalObserver.emit('bot.click_stop');
+                    $scope.events.emit('ui.log.error', e.message);
+                    $scope.events.emit('bot.click_stop');
                     return;
                 }
 
@@ -255,7 +273,7 @@ const Interpreter = () => {
                     return;
                 }
 
-                globalObserver.emit('Error', e);
+                $scope.events.emit('Error', e);
                 const { initArgs, tradeOptions } = bot.tradeEngine;
                 terminateSession();
                 init();
@@ -281,4 +299,4 @@ const Interpreter = () => {
 };
 export default Interpreter;
 
-export const createInterpreter = () => new Interpreter();
+export const createInterpreter = scope_options => new Interpreter(scope_options);
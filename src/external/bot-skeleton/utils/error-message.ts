@@ -0,0 +1,7 @@
+type TErrorLike = { error?: { message?: string }; message?: string };
+
+/** The message of an API error response, an `Error` or anything else a bot run throws. */
+export const getErrorMessage = (error: unknown): string => {
+    const { error: api_error, message } = (error ?? {}) as TErrorLike;
+    return api_error?.message ?? message ?? String(error);
+};
@@ -3,13 +3,15 @@ import LZString from 'lz-string';
 import { config } from '../constants';
 import { save_types } from '../constants/save-type';
 import DBotStore from '../scratch/dbot-store';
+import { strategy_history } from '../services/strategy-history';
 
 /**
  * Save workspace to localStorage
  * @param {String} save_type // constants/save_types.js (unsaved, local, googledrive)
  * @param {window.Blockly.Events} event // Blockly event object
+ * @param {String} note // Optional note stored with this version of the strategy
  */
-export const saveWorkspaceToRecent = async (xml, save_type = save_types.UNSAVED) => {
+export const saveWorkspaceToRecent = async (xml, save_type = save_types.UNSAVED, note = '') => {
     const xml_dom = convertStrategyToIsDbot(xml);
     // Ensure strategies don't go through expensive conversion.
     xml.setAttribute('is_dbot', true);
@@ -24,6 +26,13 @@ export const saveWorkspaceToRecent = async (xml, save_type = save_types.UNSAVED)
     const current_timestamp = Date.now();
     const current_workspace_index = workspaces.findIndex(workspace => workspace.id === workspace_id);
 
+    await strategy_history.addVersion({
+        strategy_id: workspace_id,
+        name: save_modal.bot_name || config().default_file_name,
+        xml: current_xml,
+        note,
+    });
+
     if (current_workspace_index >= 0) {
         const current_workspace = workspaces[current_workspace_index];
         current_workspace.xml = current_xml;
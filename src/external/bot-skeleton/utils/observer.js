@@ -7,6 +7,9 @@ to set the label to is running.
 
 -bot.stop: Bot was stopped by the user
 
+-bot.highlight_block: Emitted in ToolsInterface.js with the id of the block being
+executed, the workspace highlights it when one is rendered.
+
 -bot.contract: Called in OpenContract.js, object consisting of
 accountID and a proposal_open_contract response, this will
 be emitted on each POC message from the server.
@@ -0,0 +1,20 @@
+export type TSettingsStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const getBrowserStorage = (): TSettingsStorage | undefined =>
+    typeof localStorage === 'undefined' ? undefined : localStorage;
+
+/**
+ * Reads the settings saved under `key`. Missing or corrupted settings read as `null`, so the
+ * caller starts from its defaults. The stored value is not validated.
+ */
+export const readSettings = <T>(storage: TSettingsStorage | undefined, key: string): T | null => {
+    try {
+        return JSON.parse(storage?.getItem(key) ?? 'null');
+    } catch {
+        return null;
+    }
+};
+
+export const writeSettings = (storage: TSettingsStorage | undefined, key: string, settings: unknown) => {
+    storage?.setItem(key, JSON.stringify(settings));
+};
@@ -0,0 +1,88 @@
+import {
+    averageDirectionalIndex,
+    averageDirectionalIndexArray,
+    averageTrueRange,
+    averageTrueRangeArray,
+    commodityChannelIndex,
+    commodityChannelIndexArray,
+    donchianChannels,
+    donchianChannelsArray,
+    ichimokuCloud,
+    ichimokuCloudArray,
+    keltnerChannels,
+    keltnerChannelsArray,
+    parabolicSar,
+    parabolicSarArray,
+    stochasticOscillator,
+    stochasticOscillatorArray,
+    volumeWeightedAverage,
+    volumeWeightedAverageArray,
+    williamsPercentRange,
+    williamsPercentRangeArray,
+} from '..';
+import * as reference from '../test_utils/ohlc-data';
+
+const { candles } = reference;
+const config = { pipSize: 4 };
+
+const indicators = [
+    ['stochastic', stochasticOscillator, stochasticOscillatorArray],
+    ['averageTrueRange', averageTrueRange, averageTrueRangeArray],
+    ['averageDirectionalIndex', averageDirectionalIndex, averageDirectionalIndexArray],
+    ['commodityChannelIndex', commodityChannelIndex, commodityChannelIndexArray],
+    ['williamsPercentRange', williamsPercentRange, williamsPercentRangeArray],
+    ['parabolicSar', parabolicSar, parabolicSarArray],
+    ['ichimokuCloud', ichimokuCloud, ichimokuCloudArray],
+    ['volumeWeightedAverage', volumeWeightedAverage, volumeWeightedAverageArray],
+    ['keltnerChannels', keltnerChannels, keltnerChannelsArray],
+    ['donchianChannels', donchianChannels, donchianChannelsArray],
+];
+
+describe('Indicators', () => {
+    describe.each(indicators)('%s', (name, single, array) => {
+        it('should match the reference data', () => {
+            const expected = reference[name].flat();
+            const result = array(candles, config);
+
+            expect(result).toHaveLength(reference[name].length);
+            result.flat().forEach((x, i) => expect(x).toBeCloseTo(expected[i], 3));
+        });
+
+        it('should give the last value of the array form as single value', () => {
+            expect(single(candles, config)).toEqual(array(candles, config).pop());
+        });
+
+        it('should round to the pip size', () => {
+            [single(candles, { pipSize: 1 })].flat().forEach(x => expect(x).toBe(+x.toFixed(1)));
+        });
+
+        it('should throw when there is not enough data', () => {
+            expect(() => single(candles.slice(0, 1), config)).toThrow('Periods longer than data length');
+        });
+    });
+
+    it('should read ticks as candles with the same open, high, low and close', () => {
+        const ticks = [1, 2, 3, 4, 5, 4, 3];
+
+        expect(stochasticOscillator(ticks, { periods: 5, signalPeriods: 1 })).toEqual([0, 0]);
+        expect(williamsPercentRange(ticks, { periods: 5 })).toEqual(-100);
+        expect(donchianChannels(ticks, { periods: 3 })).toEqual([4, 5, 3]);
+        expect(averageTrueRangeArray(ticks, { periods: 3 })).toEqual([1, 1, 1, 1]);
+        expect(volumeWeightedAverage(ticks, { periods: 2 })).toEqual(3.5);
+        expect(williamsPercentRange([2, 2, 2], { periods: 3 })).toEqual(-50);
+    });
+
+    it('should weigh candles without a volume the same', () => {
+        const unweighted = candles.map(({ volume, ...candle }) => candle);
+        const typical_prices = unweighted.slice(-3).map(({ high, low, close }) => (high + low + close) / 3);
+
+        expect(volumeWeightedAverage(unweighted, { periods: 3, pipSize: 4 })).toBeCloseTo(
+            typical_prices.reduce((a, b) => a + b) / 3,
+            4
+        );
+    });
+
+    it('should reverse the parabolic SAR when the price crosses it', () => {
+        expect(parabolicSarArray([1, 2, 3, 4, 1], { pipSize: 2 })).toEqual([1, 1, 1.08, 4]);
+    });
+});
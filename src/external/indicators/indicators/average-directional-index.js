@@ -0,0 +1,68 @@
+import { mean, sum, takeCandles } from '../utils/math';
+import { trueRangeArray } from './average-true-range';
+
+const wilderSum = (vals, periods) => {
+    let total = sum(vals.slice(0, periods));
+    return [total, ...vals.slice(periods).map(x => (total = total - total / periods + x))];
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ * @returns {Array} [ADX, +DI, -DI] for every item from the `2 * periods`th one on
+ */
+export const averageDirectionalIndexArray = (data, config) => {
+    const { periods = 14, pipSize = 2 } = config;
+
+    if (data.length < periods * 2) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const candles = takeCandles(data);
+    const moves = candles.slice(1).map(({ high, low }, i) => {
+        const up_move = high - candles[i].high;
+        const down_move = candles[i].low - low;
+        return [up_move > down_move && up_move > 0 ? up_move : 0, down_move > up_move && down_move > 0 ? down_move : 0];
+    });
+
+    const true_ranges = wilderSum(trueRangeArray(candles), periods);
+    const plus_moves = wilderSum(
+        moves.map(([plus]) => plus),
+        periods
+    );
+    const minus_moves = wilderSum(
+        moves.map(([, minus]) => minus),
+        periods
+    );
+
+    const indexes = true_ranges.map((true_range, i) => {
+        const plus_di = true_range ? (100 * plus_moves[i]) / true_range : 0;
+        const minus_di = true_range ? (100 * minus_moves[i]) / true_range : 0;
+        const di_sum = plus_di + minus_di;
+        return { plus_di, minus_di, dx: di_sum ? (100 * Math.abs(plus_di - minus_di)) / di_sum : 0 };
+    });
+
+    let adx = mean(indexes.slice(0, periods).map(({ dx }) => dx));
+
+    return indexes.slice(periods - 1).map(({ plus_di, minus_di, dx }, i) => {
+        if (i) {
+            adx = (adx * (periods - 1) + dx) / periods;
+        }
+        return [+adx.toFixed(pipSize), +plus_di.toFixed(pipSize), +minus_di.toFixed(pipSize)];
+    });
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ * @returns {Array} [ADX, +DI, -DI]
+ */
+export const averageDirectionalIndex = (data, config) => averageDirectionalIndexArray(data, config).pop();
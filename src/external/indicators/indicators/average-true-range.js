@@ -0,0 +1,48 @@
+import { mean, takeCandles } from '../utils/math';
+
+/**
+ * @param {Array} data of ticks or candles
+ * @returns {Array} the true range of every item but the first one, which has no previous close
+ */
+export const trueRangeArray = data => {
+    const candles = takeCandles(data);
+
+    return candles.slice(1).map(({ high, low }, i) => {
+        const { close } = candles[i];
+        return Math.max(high - low, Math.abs(high - close), Math.abs(low - close));
+    });
+};
+
+/**
+ * Wilder's average true range, the first value is the mean of the first `periods` true ranges.
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const averageTrueRangeArray = (data, config) => {
+    const { periods = 14, pipSize = 2 } = config;
+
+    if (data.length <= periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const true_ranges = trueRangeArray(data);
+    let atr = mean(true_ranges.slice(0, periods));
+
+    return [atr, ...true_ranges.slice(periods).map(tr => (atr = (atr * (periods - 1) + tr) / periods))].map(
+        x => +x.toFixed(pipSize)
+    );
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const averageTrueRange = (data, config) => averageTrueRangeArray(data, config).pop();
@@ -0,0 +1,41 @@
+import { sequence } from '@/components/shared';
+import { mean, takeCandles, takeLast, typicalPrice } from '../utils/math';
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const commodityChannelIndex = (data, config) => {
+    const { periods = 20, pipSize = 2 } = config;
+
+    if (data.length < periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const typical_prices = takeCandles(takeLast(data, periods)).map(typicalPrice);
+    const average = mean(typical_prices);
+    const mean_deviation = mean(typical_prices.map(x => Math.abs(x - average)));
+
+    if (!mean_deviation) {
+        return 0;
+    }
+
+    return +((typical_prices[periods - 1] - average) / (0.015 * mean_deviation)).toFixed(pipSize);
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const commodityChannelIndexArray = (data, config) => {
+    const { periods = 20 } = config;
+    return sequence(data.length - periods + 1).map((x, i) => commodityChannelIndex(data.slice(i, i + periods), config));
+};
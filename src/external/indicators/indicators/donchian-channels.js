@@ -0,0 +1,38 @@
+import { sequence } from '@/components/shared';
+import { highestHigh, lowestLow, takeCandles, takeLast } from '../utils/math';
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ * @returns {Array} [middle, upper, lower]
+ */
+export const donchianChannels = (data, config) => {
+    const { periods = 20, pipSize = 2 } = config;
+
+    if (data.length < periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const candles = takeCandles(takeLast(data, periods));
+    const upper = highestHigh(candles);
+    const lower = lowestLow(candles);
+
+    return [(upper + lower) / 2, upper, lower].map(x => +x.toFixed(pipSize));
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const donchianChannelsArray = (data, config) => {
+    const { periods = 20 } = config;
+    return sequence(data.length - periods + 1).map((x, i) => donchianChannels(data.slice(i, i + periods), config));
+};
@@ -0,0 +1,48 @@
+import { sequence } from '@/components/shared';
+import { highestHigh, lowestLow, takeCandles, takeLast } from '../utils/math';
+
+const midpoint = candles => (highestHigh(candles) + lowestLow(candles)) / 2;
+
+/**
+ * The leading spans are given for the item they are calculated on, shifting them forward on a
+ * chart is up to the caller.
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  conversionPeriods: number,
+ *  basePeriods: number,
+ *  spanPeriods: number,
+ *  pipSize: number,
+ * }
+ * @returns {Array} [conversion line, base line, leading span A, leading span B]
+ */
+export const ichimokuCloud = (data, config) => {
+    const { conversionPeriods = 9, basePeriods = 26, spanPeriods = 52, pipSize = 2 } = config;
+
+    if (data.length < Math.max(conversionPeriods, basePeriods, spanPeriods)) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const candles = takeCandles(data);
+    const conversion_line = midpoint(takeLast(candles, conversionPeriods));
+    const base_line = midpoint(takeLast(candles, basePeriods));
+    const span_b = midpoint(takeLast(candles, spanPeriods));
+
+    return [conversion_line, base_line, (conversion_line + base_line) / 2, span_b].map(x => +x.toFixed(pipSize));
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  conversionPeriods: number,
+ *  basePeriods: number,
+ *  spanPeriods: number,
+ *  pipSize: number,
+ * }
+ */
+export const ichimokuCloudArray = (data, config) => {
+    const { conversionPeriods = 9, basePeriods = 26, spanPeriods = 52 } = config;
+    const periods = Math.max(conversionPeriods, basePeriods, spanPeriods);
+    return sequence(data.length - periods + 1).map((x, i) => ichimokuCloud(data.slice(i, i + periods), config));
+};
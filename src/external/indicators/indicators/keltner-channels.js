@@ -0,0 +1,44 @@
+import { sequence } from '@/components/shared';
+import { takeCandles } from '../utils/math';
+import { averageTrueRangeArray } from './average-true-range';
+import { exponentialMovingAverageArray } from './exponential-moving-average';
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  atrPeriods?: number,
+ *  multiplier: number,
+ *  pipSize: number,
+ * }
+ * @returns {Array} [middle, upper, lower] for every item from the `periods + 1`th one on, the middle
+ * being the EMA of the closes and the bands `multiplier` ATRs away from it
+ */
+export const keltnerChannelsArray = (data, config) => {
+    const { periods = 20, atrPeriods = periods, multiplier = 2, pipSize = 2 } = config;
+
+    const closes = takeCandles(data).map(({ close }) => close);
+    const ema_array = exponentialMovingAverageArray(closes, { periods, pipSize: 20 });
+    const atr_array = averageTrueRangeArray(data, { periods: atrPeriods, pipSize: 20 });
+    const start = Math.max(periods - 1, atrPeriods);
+
+    return sequence(data.length - start).map((x, i) => {
+        const middle = ema_array[start + i - periods + 1];
+        const range = atr_array[start + i - atrPeriods] * multiplier;
+        return [middle, middle + range, middle - range].map(val => +val.toFixed(pipSize));
+    });
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  atrPeriods?: number,
+ *  multiplier: number,
+ *  pipSize: number,
+ * }
+ * @returns {Array} [middle, upper, lower]
+ */
+export const keltnerChannels = (data, config) => keltnerChannelsArray(data, config).pop();
@@ -0,0 +1,74 @@
+import { takeCandles } from '../utils/math';
+
+/**
+ * The trend starts up when the second close is not lower than the first one, so the first SAR
+ * is given for the second item.
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  step: number,
+ *  maxStep: number,
+ *  pipSize: number,
+ * }
+ */
+export const parabolicSarArray = (data, config) => {
+    const { step = 0.02, maxStep = 0.2, pipSize = 2 } = config;
+
+    if (data.length < 2) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const candles = takeCandles(data);
+    let is_up_trend = candles[1].close >= candles[0].close;
+    let sar = is_up_trend ? candles[0].low : candles[0].high;
+    let extreme_point = is_up_trend
+        ? Math.max(candles[0].high, candles[1].high)
+        : Math.min(candles[0].low, candles[1].low);
+    let acceleration = step;
+
+    const sars = [sar];
+
+    for (let i = 2; i < candles.length; i++) {
+        const { high, low } = candles[i];
+        sar += acceleration * (extreme_point - sar);
+
+        if (is_up_trend) {
+            sar = Math.min(sar, candles[i - 1].low, candles[i - 2].low);
+            if (low < sar) {
+                is_up_trend = false;
+                sar = extreme_point;
+                extreme_point = low;
+                acceleration = step;
+            } else if (high > extreme_point) {
+                extreme_point = high;
+                acceleration = Math.min(acceleration + step, maxStep);
+            }
+        } else {
+            sar = Math.max(sar, candles[i - 1].high, candles[i - 2].high);
+            if (high > sar) {
+                is_up_trend = true;
+                sar = extreme_point;
+                extreme_point = high;
+                acceleration = step;
+            } else if (low < extreme_point) {
+                extreme_point = low;
+                acceleration = Math.min(acceleration + step, maxStep);
+            }
+        }
+
+        sars.push(sar);
+    }
+
+    return sars.map(x => +x.toFixed(pipSize));
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  step: number,
+ *  maxStep: number,
+ *  pipSize: number,
+ * }
+ */
+export const parabolicSar = (data, config) => parabolicSarArray(data, config).pop();
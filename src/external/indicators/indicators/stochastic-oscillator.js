@@ -0,0 +1,58 @@
+import { sequence } from '@/components/shared';
+import { highestHigh, lowestLow, mean, takeCandles } from '../utils/math';
+
+const calcPercentK = candles => {
+    const { close } = candles[candles.length - 1];
+    const highest_high = highestHigh(candles);
+    const lowest_low = lowestLow(candles);
+
+    if (highest_high === lowest_low) {
+        return 50;
+    }
+
+    return (100 * (close - lowest_low)) / (highest_high - lowest_low);
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  signalPeriods: number,
+ *  pipSize: number,
+ * }
+ * @returns {Array} [%K, %D], %D being the simple moving average of the last `signalPeriods` %K values
+ */
+export const stochasticOscillator = (data, config) => {
+    const { periods = 14, signalPeriods = 3, pipSize = 2 } = config;
+    const length = periods + signalPeriods - 1;
+
+    if (data.length < length) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const candles = takeCandles(data.slice(-length));
+    const percent_k = sequence(signalPeriods).map((x, i) => calcPercentK(candles.slice(i, i + periods)));
+
+    return [+percent_k[signalPeriods - 1].toFixed(pipSize), +mean(percent_k).toFixed(pipSize)];
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  signalPeriods: number,
+ *  pipSize: number,
+ * }
+ */
+export const stochasticOscillatorArray = (data, config) => {
+    const { periods = 14, signalPeriods = 3 } = config;
+    const length = periods + signalPeriods - 1;
+
+    if (data.length < length) {
+        throw new Error('Periods longer than data length');
+    }
+
+    return sequence(data.length - length + 1).map((x, i) => stochasticOscillator(data.slice(i, i + length), config));
+};
@@ -0,0 +1,43 @@
+import { sequence } from '@/components/shared';
+import { mean, sum, takeCandles, takeLast, typicalPrice } from '../utils/math';
+
+/**
+ * Rolling average of the typical price, weighted by the `volume` of the candles. Deriv quotes
+ * carry no traded volume, so candles without one (and ticks) all weigh the same; the number of
+ * ticks a candle was built from can be passed as its volume.
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const volumeWeightedAverage = (data, config) => {
+    const { periods = 14, pipSize = 2 } = config;
+
+    if (data.length < periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const candles = takeCandles(takeLast(data, periods));
+    const volumes = candles.map(({ volume = 1 }) => +volume);
+    const total_volume = sum(volumes);
+    const average = total_volume
+        ? sum(candles.map((candle, i) => typicalPrice(candle) * volumes[i])) / total_volume
+        : mean(candles.map(typicalPrice));
+
+    return +average.toFixed(pipSize);
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const volumeWeightedAverageArray = (data, config) => {
+    const { periods = 14 } = config;
+    return sequence(data.length - periods + 1).map((x, i) => volumeWeightedAverage(data.slice(i, i + periods), config));
+};
@@ -0,0 +1,43 @@
+import { sequence } from '@/components/shared';
+import { highestHigh, lowestLow, takeCandles, takeLast } from '../utils/math';
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ * @returns {Number} from -100, closing at the lowest low, to 0, closing at the highest high
+ */
+export const williamsPercentRange = (data, config) => {
+    const { periods = 14, pipSize = 2 } = config;
+
+    if (data.length < periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const candles = takeCandles(takeLast(data, periods));
+    const { close } = candles[periods - 1];
+    const highest_high = highestHigh(candles);
+    const lowest_low = lowestLow(candles);
+
+    if (highest_high === lowest_low) {
+        return -50;
+    }
+
+    return +((-100 * (highest_high - close)) / (highest_high - lowest_low)).toFixed(pipSize);
+};
+
+/**
+ * @param {Array} data of ticks or candles
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const williamsPercentRangeArray = (data, config) => {
+    const { periods = 14 } = config;
+    return sequence(data.length - periods + 1).map((x, i) => williamsPercentRange(data.slice(i, i + periods), config));
+};
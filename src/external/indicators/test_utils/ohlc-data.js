@@ -0,0 +1,414 @@
+// Candles of 3 to 7 ticks of `data` in macd-data.js, `volume` being their tick count.
+
+export const candles = [
+    { open: 891.003, high: 891.096, low: 891.003, close: 891.096, volume: 3 },
+    { open: 891.104, high: 891.271, low: 891.104, close: 891.271, volume: 5 },
+    { open: 891.356, high: 891.356, low: 891.143, close: 891.202, volume: 7 },
+    { open: 891.184, high: 891.184, low: 891.152, close: 891.164, volume: 4 },
+    { open: 891.158, high: 891.174, low: 891.075, close: 891.124, volume: 6 },
+    { open: 891.203, high: 891.281, low: 891.169, close: 891.169, volume: 3 },
+    { open: 891.248, high: 891.409, low: 891.197, close: 891.197, volume: 5 },
+    { open: 891.319, high: 891.431, low: 891.256, close: 891.431, volume: 7 },
+    { open: 891.477, high: 891.477, low: 891.302, close: 891.374, volume: 4 },
+    { open: 891.481, high: 891.612, low: 891.48, close: 891.612, volume: 6 },
+    { open: 891.591, high: 891.591, low: 891.435, close: 891.435, volume: 3 },
+    { open: 891.442, high: 891.633, low: 891.442, close: 891.616, volume: 5 },
+    { open: 891.607, high: 891.675, low: 891.525, close: 891.675, volume: 7 },
+    { open: 891.729, high: 892.195, low: 891.729, close: 891.967, volume: 4 },
+    { open: 891.947, high: 891.994, low: 891.854, close: 891.868, volume: 6 },
+    { open: 891.932, high: 891.948, low: 891.932, close: 891.948, volume: 3 },
+    { open: 892.168, high: 892.168, low: 891.939, close: 892.096, volume: 5 },
+    { open: 891.982, high: 892.04, low: 891.936, close: 892.035, volume: 7 },
+    { open: 892.046, high: 892.081, low: 892.032, close: 892.032, volume: 4 },
+    { open: 892.016, high: 892.042, low: 891.917, close: 891.982, volume: 6 },
+    { open: 891.849, high: 891.957, low: 891.849, close: 891.902, volume: 3 },
+    { open: 891.953, high: 891.961, low: 891.925, close: 891.961, volume: 5 },
+    { open: 891.928, high: 891.936, low: 891.767, close: 891.821, volume: 7 },
+    { open: 891.8, high: 891.8, low: 891.725, close: 891.725, volume: 4 },
+    { open: 891.767, high: 891.854, low: 891.634, close: 891.634, volume: 6 },
+    { open: 891.617, high: 891.669, low: 891.496, close: 891.496, volume: 3 },
+    { open: 891.648, high: 891.648, low: 891.411, close: 891.47, volume: 5 },
+    { open: 891.421, high: 891.457, low: 891.314, close: 891.43, volume: 7 },
+    { open: 891.434, high: 891.436, low: 891.144, close: 891.144, volume: 4 },
+    { open: 891.24, high: 891.684, low: 891.24, close: 891.561, volume: 6 },
+    { open: 891.607, high: 891.717, low: 891.607, close: 891.717, volume: 3 },
+    { open: 891.674, high: 891.718, low: 891.566, close: 891.566, volume: 5 },
+    { open: 891.615, high: 891.723, low: 891.615, close: 891.627, volume: 7 },
+    { open: 891.621, high: 891.621, low: 891.415, close: 891.415, volume: 4 },
+    { open: 891.428, high: 891.573, low: 891.428, close: 891.542, volume: 6 },
+    { open: 891.545, high: 891.545, low: 891.457, close: 891.457, volume: 3 },
+    { open: 891.594, high: 891.594, low: 891.475, close: 891.567, volume: 5 },
+    { open: 891.585, high: 891.633, low: 891.44, close: 891.485, volume: 7 },
+    { open: 891.527, high: 891.728, low: 891.527, close: 891.728, volume: 4 },
+    { open: 891.64, high: 891.64, low: 891.431, close: 891.431, volume: 6 },
+    { open: 891.284, high: 891.342, low: 891.284, close: 891.315, volume: 3 },
+    { open: 891.365, high: 891.412, low: 891.219, close: 891.254, volume: 5 },
+    { open: 891.452, high: 891.655, low: 891.377, close: 891.655, volume: 7 },
+    { open: 891.779, high: 891.779, low: 891.4, close: 891.437, volume: 4 },
+    { open: 891.336, high: 891.474, low: 891.225, close: 891.225, volume: 6 },
+    { open: 891.169, high: 891.428, low: 891.169, close: 891.428, volume: 3 },
+    { open: 891.366, high: 891.466, low: 891.33, close: 891.454, volume: 5 },
+    { open: 891.528, high: 892.587, low: 891.528, close: 891.878, volume: 7 },
+    { open: 892.036, high: 892.281, low: 892.036, close: 892.224, volume: 4 },
+    { open: 892.079, high: 892.553, low: 892.079, close: 892.553, volume: 6 },
+    { open: 892.53, high: 892.771, low: 892.53, close: 892.583, volume: 3 },
+    { open: 892.679, high: 892.679, low: 892.524, close: 892.524, volume: 5 },
+    { open: 892.581, high: 892.581, low: 892.151, close: 892.479, volume: 7 },
+    { open: 891.354, high: 891.869, low: 891.354, close: 891.869, volume: 4 },
+    { open: 891.84, high: 892.045, low: 891.644, close: 891.795, volume: 6 },
+    { open: 891.778, high: 891.867, low: 891.778, close: 891.855, volume: 3 },
+    { open: 891.914, high: 891.914, low: 891.69, close: 891.824, volume: 5 },
+    { open: 891.746, high: 891.746, low: 891.039, close: 891.039, volume: 7 },
+    { open: 890.73, high: 890.73, low: 890.34, close: 890.34, volume: 4 },
+    { open: 890.272, high: 890.831, low: 890.272, close: 890.831, volume: 6 },
+    { open: 890.767, high: 890.886, low: 890.698, close: 890.886, volume: 3 },
+    { open: 890.887, high: 891.003, low: 890.864, close: 890.864, volume: 5 },
+    { open: 890.728, high: 890.99, low: 890.723, close: 890.99, volume: 7 },
+    { open: 890.955, high: 891.229, low: 890.955, close: 891.229, volume: 4 },
+    { open: 891.229, high: 891.229, low: 890.829, close: 890.931, volume: 6 },
+    { open: 890.687, high: 890.687, low: 890.396, close: 890.396, volume: 3 },
+    { open: 890.441, high: 890.567, low: 890.441, close: 890.534, volume: 5 },
+    { open: 890.621, high: 890.943, low: 890.621, close: 890.785, volume: 7 },
+    { open: 890.763, high: 890.763, low: 890.591, close: 890.681, volume: 4 },
+    { open: 890.556, high: 890.733, low: 890.55, close: 890.733, volume: 6 },
+    { open: 890.745, high: 890.763, low: 890.742, close: 890.742, volume: 3 },
+    { open: 890.816, high: 890.816, low: 890.691, close: 890.719, volume: 5 },
+    { open: 890.842, high: 891.213, low: 890.842, close: 891.177, volume: 7 },
+    { open: 891.19, high: 891.236, low: 891.096, close: 891.096, volume: 4 },
+    { open: 891.097, high: 891.245, low: 891.097, close: 891.245, volume: 6 },
+    { open: 891.142, high: 891.227, low: 891.133, close: 891.227, volume: 3 },
+    { open: 891.318, high: 891.347, low: 891.196, close: 891.347, volume: 5 },
+    { open: 891.25, high: 891.25, low: 891.007, close: 891.007, volume: 7 },
+    { open: 891.259, high: 891.259, low: 891.178, close: 891.254, volume: 4 },
+    { open: 891.229, high: 891.25, low: 891.161, close: 891.161, volume: 6 },
+];
+
+// Expected values with the default config of each indicator, rounded to 4 decimals.
+
+export const stochastic = [
+    [77.9464, 76.5408],
+    [91.1607, 79.9702],
+    [85.7143, 84.9405],
+    [84.1131, 86.996],
+    [78.6573, 82.8282],
+    [68.7966, 77.189],
+    [73.7962, 73.75],
+    [50.7895, 64.4608],
+    [38.1579, 54.2479],
+    [25.498, 38.1485],
+    [0, 21.2186],
+    [7.5255, 11.0078],
+    [13.5831, 7.0362],
+    [0, 7.0362],
+    [40.7227, 18.1019],
+    [61.1526, 33.9584],
+    [45.0374, 48.9709],
+    [53.7862, 53.3254],
+    [33.1701, 43.9979],
+    [48.7148, 45.2237],
+    [39.5202, 40.4684],
+    [59.5775, 49.2708],
+    [48.0282, 49.0419],
+    [100, 69.2019],
+    [49.1438, 65.724],
+    [29.2808, 59.4749],
+    [18.8356, 32.4201],
+    [85.6582, 44.5915],
+    [38.9286, 47.8074],
+    [1.0714, 41.8861],
+    [42.459, 27.4863],
+    [46.7213, 30.0839],
+    [50, 46.3934],
+    [74.4006, 57.0406],
+    [97.6023, 74.0009],
+    [88.2647, 86.7558],
+    [84.5818, 90.1496],
+    [81.7728, 84.8731],
+    [43.6954, 70.0166],
+    [39.0762, 54.8481],
+    [42.8215, 41.8643],
+    [40.8864, 40.928],
+    [0, 27.9026],
+    [0, 13.6288],
+    [22.3689, 7.4563],
+    [24.5698, 15.6463],
+    [23.6895, 23.5428],
+    [28.7315, 25.6636],
+    [38.2953, 30.2388],
+    [27.3785, 31.4684],
+    [5.3703, 23.6814],
+    [14.7772, 15.842],
+    [28.934, 16.3605],
+    [24.9086, 22.8733],
+    [28.0755, 27.3061],
+    [31.886, 28.2901],
+    [46.7085, 35.5567],
+    [94.5664, 57.7203],
+    [83.3333, 74.8694],
+    [100, 92.6332],
+    [97.8799, 93.7377],
+    [100, 99.2933],
+    [64.2482, 87.376],
+    [90.2208, 84.823],
+    [79.4702, 77.9797],
+];
+
+export const averageTrueRange = [
+    0.1976, 0.1892, 0.192, 0.1897, 0.1797, 0.1758, 0.1727, 0.1646, 0.1667, 0.1616, 0.1658, 0.1663, 0.1714, 0.1703,
+    0.179, 0.2048, 0.2013, 0.1978, 0.1948, 0.1961, 0.1934, 0.1858, 0.1823, 0.1831, 0.1874, 0.1952, 0.1918, 0.1919,
+    0.2068, 0.2191, 0.2212, 0.2239, 0.2176, 0.283, 0.2916, 0.3046, 0.3001, 0.2897, 0.2997, 0.3587, 0.3617, 0.3422,
+    0.3338, 0.366, 0.3898, 0.4019, 0.3866, 0.3689, 0.3616, 0.3554, 0.3586, 0.3712, 0.3569, 0.3606, 0.3487, 0.3369,
+    0.3149, 0.3014, 0.3151, 0.3026, 0.2917, 0.2788, 0.2697, 0.2747, 0.2731, 0.2602,
+];
+
+export const averageDirectionalIndex = [
+    [52.434, 25.9158, 27.6905],
+    [49.7906, 22.8956, 31.2482],
+    [46.4884, 27.234, 25.3619],
+    [43.5806, 26.8974, 23.9578],
+    [40.6548, 25.4207, 24.1234],
+    [37.9651, 24.1409, 22.735],
+    [36.0996, 22.2764, 28.2651],
+    [34.3675, 20.9762, 26.6153],
+    [32.759, 20.2666, 25.715],
+    [30.9279, 21.0985, 24.335],
+    [28.9602, 21.0314, 22.5028],
+    [27.2703, 22.7046, 20.4183],
+    [25.5736, 20.2372, 21.7121],
+    [24.8342, 19.1291, 25.9987],
+    [23.6655, 20.3607, 24.1305],
+    [22.7618, 25.9341, 20.7882],
+    [22.4938, 26.7723, 18.2196],
+    [21.2235, 24.6199, 22.4051],
+    [19.7466, 22.5859, 22.3404],
+    [18.5757, 22.8249, 21.3432],
+    [20.7528, 44.5893, 15.2404],
+    [22.7743, 40.1876, 13.7359],
+    [25.0788, 42.0988, 12.2093],
+    [27.5142, 44.8729, 11.5089],
+    [29.7448, 43.1581, 11.217],
+    [30.0691, 38.7357, 18.9563],
+    [27.9829, 30.0577, 30.5809],
+    [26.3447, 31.153, 28.1592],
+    [24.8234, 30.5744, 27.6362],
+    [23.1643, 29.1088, 28.1946],
+    [22.9015, 24.6495, 36.5797],
+    [23.7702, 21.4922, 44.7031],
+    [24.295, 21.152, 40.2617],
+    [24.6244, 21.4334, 38.8632],
+    [24.588, 23.1219, 37.8173],
+    [24.8037, 21.9025, 38.6079],
+    [24.2975, 25.5, 36.4817],
+    [24.0752, 23.4681, 36.0848],
+    [24.6285, 21.0519, 40.7023],
+    [25.1422, 20.3314, 39.3093],
+    [24.4927, 26.1322, 36.1246],
+    [23.9507, 25.0937, 35.3035],
+    [23.535, 24.12, 34.803],
+    [23.052, 24.6363, 34.5662],
+    [22.425, 25.1626, 33.5421],
+    [21.0051, 31.3435, 29.7864],
+    [19.7501, 30.8507, 28.8021],
+    [18.611, 29.9453, 27.7511],
+    [17.5533, 29.0861, 26.9548],
+    [16.9544, 31.1011, 25.8768],
+    [15.7624, 28.3516, 28.5034],
+    [14.6491, 26.7183, 26.6247],
+    [13.6539, 26.0363, 26.4117],
+];
+
+export const commodityChannelIndex = [
+    91.2924, 66.3557, 68.621, 39.4626, 13.0134, -5.5096, -58.577, -80.5333, -117.4817, -161.7021, -78.5068, -24.9176,
+    -47.2121, -35.2745, -83.3443, -66.5633, -69.2871, -44.305, -48.3673, 16.1061, -49.1023, -132.9822, -139.4417,
+    24.9218, 18.2802, -133.3764, -94.4528, -40.0116, 270.7076, 284.446, 267.2217, 248.4998, 177.8845, 118.2143, -8.3779,
+    12.3356, 10.3475, 3.5921, -91.9719, -198.8989, -149.6993, -114.1052, -95.6585, -86.8047, -52.8941, -66.1185,
+    -111.59, -97.2609, -63.6747, -68.3544, -64.4111, -51.6269, -48.2217, 13.8251, 33.9985, 57.6706, 74.6901, 120.4446,
+    64.7962, 98.761, 77.7337,
+];
+
+export const williamsPercentRange = [
+    -19.1275, -29.1964, -22.0536, -8.8393, -14.2857, -15.8869, -21.3427, -31.2034, -26.2038, -49.2105, -61.8421,
+    -74.502, -100, -92.4745, -86.4169, -100, -59.2773, -38.8474, -54.9626, -46.2138, -66.8299, -51.2852, -60.4798,
+    -40.4225, -51.9718, 0, -50.8562, -70.7192, -81.1644, -14.3418, -61.0714, -98.9286, -57.541, -53.2787, -50, -25.5994,
+    -2.3977, -11.7353, -15.4182, -18.2272, -56.3046, -60.9238, -57.1785, -59.1136, -100, -100, -77.6311, -75.4302,
+    -76.3105, -71.2685, -61.7047, -72.6215, -94.6297, -85.2228, -71.066, -75.0914, -71.9245, -68.114, -53.2915, -5.4336,
+    -16.6667, 0, -2.1201, 0, -35.7518, -9.7792, -20.5298,
+];
+
+export const parabolicSar = [
+    891.003, 891.003, 891.0171, 891.0307, 891.0437, 891.0562, 891.0773, 891.1056, 891.1428, 891.1991, 891.2486,
+    891.3024, 891.3621, 891.512, 891.6349, 891.7357, 891.8184, 891.8862, 892.195, 892.1894, 892.1758, 892.1627, 892.139,
+    892.1059, 892.0587, 891.9912, 891.9099, 891.8146, 891.6939, 891.144, 891.1555, 891.178, 891.2107, 891.2414,
+    891.2703, 891.2975, 891.323, 891.347, 891.3775, 891.728, 891.7191, 891.6991, 891.219, 891.779, 891.779, 891.7546,
+    891.169, 891.1974, 891.2252, 891.2524, 891.3131, 891.3714, 892.771, 892.7427, 892.7149, 892.6877, 892.661, 892.5961,
+    892.4607, 892.2856, 892.1246, 891.9764, 891.84, 891.7146, 891.5992, 891.493, 891.3953, 891.3054, 891.2228, 891.1467,
+    891.0767, 890.272, 890.2908, 890.3286, 890.3836, 890.4353, 890.5082, 890.5753, 890.6371,
+];
+
+export const ichimokuCloud = [
+    [891.97, 891.9575, 891.9638, 891.887],
+    [891.97, 891.9575, 891.9638, 891.923],
+    [891.97, 891.9575, 891.9638, 891.923],
+    [892.0505, 891.97, 892.0103, 891.923],
+    [892.0625, 891.97, 892.0163, 891.923],
+    [892.0625, 891.97, 892.0163, 891.9575],
+    [891.905, 891.905, 891.905, 891.905],
+    [891.5555, 891.5555, 891.5555, 891.5555],
+    [891.4755, 891.5215, 891.4985, 891.5215],
+    [891.4265, 891.5215, 891.474, 891.5215],
+    [891.1585, 891.5215, 891.34, 891.5215],
+    [891.1585, 891.5215, 891.34, 891.5215],
+    [891.093, 891.5215, 891.3073, 891.5215],
+    [891.093, 891.5215, 891.3073, 891.5215],
+    [891.009, 891.5215, 891.2653, 891.5215],
+    [890.7505, 891.5215, 891.136, 891.5215],
+    [890.7505, 891.5215, 891.136, 891.5215],
+    [890.8125, 891.5215, 891.167, 891.5215],
+    [890.8125, 891.5215, 891.167, 891.5215],
+    [890.8125, 891.5215, 891.167, 891.5215],
+    [890.8125, 891.5215, 891.167, 891.5215],
+    [890.8125, 891.5215, 891.167, 891.5215],
+    [890.816, 891.5215, 891.1688, 891.5215],
+    [890.843, 891.5215, 891.1823, 891.5215],
+    [890.8975, 891.5215, 891.2095, 891.5215],
+    [890.9485, 891.4755, 891.212, 891.5215],
+    [890.9485, 891.4265, 891.1875, 891.5215],
+    [891.019, 891.1585, 891.0888, 891.5215],
+    [891.019, 891.1585, 891.0888, 891.5215],
+];
+
+export const volumeWeightedAverage = [
+    891.3817, 891.4386, 891.4761, 891.5446, 891.6111, 891.6788, 891.7236, 891.7639, 891.8177, 891.8445, 891.8631,
+    891.8657, 891.8739, 891.8728, 891.8211, 891.7802, 891.7496, 891.7239, 891.6872, 891.6637, 891.6258, 891.6049,
+    891.5753, 891.5457, 891.5316, 891.5238, 891.5206, 891.5125, 891.5081, 891.5285, 891.532, 891.5071, 891.4922,
+    891.4699, 891.5212, 891.56, 891.6326, 891.6815, 891.764, 891.8328, 891.8539, 891.8742, 891.9138, 891.9423, 891.8992,
+    891.8678, 891.7878, 891.773, 891.6864, 891.5811, 891.4847, 891.3963, 891.2734, 891.1012, 891.0362, 890.9466,
+    890.8868, 890.815, 890.7623, 890.8098, 890.8435, 890.8737, 890.8849, 890.9135, 890.9181, 890.9294, 890.9693,
+];
+
+export const keltnerChannels = [
+    [891.5968, 891.951, 891.2426],
+    [891.6315, 891.9739, 891.2891],
+    [891.6496, 891.9942, 891.3049],
+    [891.6567, 891.9938, 891.3197],
+    [891.6546, 891.9968, 891.3124],
+    [891.6395, 891.9818, 891.2971],
+    [891.6233, 891.9723, 891.2744],
+    [891.6049, 891.952, 891.2578],
+    [891.561, 891.92, 891.2021],
+    [891.561, 891.956, 891.166],
+    [891.5759, 891.9667, 891.185],
+    [891.5749, 891.9614, 891.1884],
+    [891.5799, 891.9628, 891.197],
+    [891.5642, 891.9491, 891.1792],
+    [891.5621, 891.9436, 891.1806],
+    [891.5521, 891.9233, 891.1808],
+    [891.5535, 891.9199, 891.1871],
+    [891.547, 891.9143, 891.1796],
+    [891.5642, 891.9375, 891.1909],
+    [891.5515, 891.9358, 891.1672],
+    [891.529, 891.9088, 891.1492],
+    [891.5028, 891.8829, 891.1227],
+    [891.5173, 891.9185, 891.1161],
+    [891.5097, 891.9287, 891.0906],
+    [891.4825, 891.9055, 891.0596],
+    [891.4773, 891.9051, 891.0496],
+    [891.4751, 891.8951, 891.0552],
+    [891.5135, 892.0257, 891.0012],
+    [891.5812, 892.1081, 891.0542],
+    [891.6737, 892.2217, 891.1257],
+    [891.7603, 892.305, 891.2156],
+    [891.833, 892.366, 891.3001],
+    [891.8946, 892.4439, 891.3453],
+    [891.8921, 892.5265, 891.2578],
+    [891.8829, 892.5256, 891.2402],
+    [891.8802, 892.4997, 891.2607],
+    [891.8749, 892.4858, 891.264],
+    [891.7953, 892.4541, 891.1364],
+    [891.6567, 892.3525, 890.9608],
+    [891.578, 892.295, 890.8611],
+    [891.5121, 892.212, 890.8122],
+    [891.4504, 892.1292, 890.7716],
+    [891.4066, 892.0781, 890.735],
+    [891.3896, 892.055, 890.7243],
+    [891.346, 892.0181, 890.6739],
+    [891.2555, 891.9475, 890.5635],
+    [891.1868, 891.8613, 890.5123],
+    [891.1485, 891.8302, 890.4668],
+    [891.104, 891.771, 890.437],
+    [891.0687, 891.7206, 890.4167],
+    [891.0375, 891.6599, 890.4152],
+    [891.0072, 891.6109, 890.4035],
+    [891.0234, 891.6463, 890.4004],
+    [891.0303, 891.6361, 890.4245],
+    [891.0507, 891.6411, 890.4603],
+    [891.0675, 891.6396, 890.4954],
+    [891.0941, 891.6527, 890.5356],
+    [891.0858, 891.6505, 890.5212],
+    [891.1019, 891.6635, 890.5402],
+    [891.1075, 891.6503, 890.5647],
+];
+
+export const donchianChannels = [
+    [891.599, 892.195, 891.003],
+    [891.635, 892.195, 891.075],
+    [891.635, 892.195, 891.075],
+    [891.635, 892.195, 891.075],
+    [891.635, 892.195, 891.075],
+    [891.682, 892.195, 891.169],
+    [891.696, 892.195, 891.197],
+    [891.7255, 892.195, 891.256],
+    [891.7485, 892.195, 891.302],
+    [891.6695, 892.195, 891.144],
+    [891.6695, 892.195, 891.144],
+    [891.6695, 892.195, 891.144],
+    [891.6695, 892.195, 891.144],
+    [891.6695, 892.195, 891.144],
+    [891.656, 892.168, 891.144],
+    [891.656, 892.168, 891.144],
+    [891.656, 892.168, 891.144],
+    [891.6125, 892.081, 891.144],
+    [891.6125, 892.081, 891.144],
+    [891.593, 892.042, 891.144],
+    [891.5525, 891.961, 891.144],
+    [891.5525, 891.961, 891.144],
+    [891.54, 891.936, 891.144],
+    [891.499, 891.854, 891.144],
+    [891.499, 891.854, 891.144],
+    [891.4615, 891.779, 891.144],
+    [891.4615, 891.779, 891.144],
+    [891.4615, 891.779, 891.144],
+    [891.8655, 892.587, 891.144],
+    [891.878, 892.587, 891.169],
+    [891.878, 892.587, 891.169],
+    [891.97, 892.771, 891.169],
+    [891.97, 892.771, 891.169],
+    [891.97, 892.771, 891.169],
+    [891.97, 892.771, 891.169],
+    [891.97, 892.771, 891.169],
+    [891.97, 892.771, 891.169],
+    [891.97, 892.771, 891.169],
+    [891.905, 892.771, 891.039],
+    [891.5555, 892.771, 890.34],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.5215, 892.771, 890.272],
+    [891.4755, 892.679, 890.272],
+    [891.4265, 892.581, 890.272],
+    [891.1585, 892.045, 890.272],
+    [891.1585, 892.045, 890.272],
+    [891.093, 891.914, 890.272],
+    [891.093, 891.914, 890.272],
+    [891.009, 891.746, 890.272],
+    [890.8095, 891.347, 890.272],
+    [890.8095, 891.347, 890.272],
+    [890.8715, 891.347, 890.396],
+];
@@ -13,3 +13,20 @@ export const stddev = data => {
     const avg_sq_diff = mean(sq_diff);
     return Math.sqrt(avg_sq_diff);
 };
+
+/**
+ * Reads ticks and candles alike: a tick is a candle whose open, high, low and close are its quote.
+ * `volume` is only set when the candles carry one.
+ */
+export const takeCandles = data =>
+    data.map(x =>
+        typeof x === 'object'
+            ? { open: +x.open, high: +x.high, low: +x.low, close: +x.close, volume: x.volume }
+            : { open: +x, high: +x, low: +x, close: +x }
+    );
+
+export const highestHigh = candles => Math.max(...takeField(candles, 'high'));
+
+export const lowestLow = candles => Math.min(...takeField(candles, 'low'));
+
+export const typicalPrice = ({ high, low, close }) => (high + low + close) / 3;
@@ -1,17 +1,27 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import DerivWebSocket from '@/lib/deriv-websocket';
-import AnalysisEngine, { AnalysisResult, Signal } from '@/lib/analysis-engine';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { api_base } from '@/external/bot-skeleton';
+import { TMarketSnapshot } from '@/external/bot-skeleton/services/market-data';
+import { useStore } from '@/hooks/useStore';
 import AIPredictor, { AIPredictionResult } from '@/lib/ai-predictor';
+import AnalysisEngine, { AnalysisResult, Signal } from '@/lib/analysis-engine';
 
 export type TConnectionStatus = 'connected' | 'disconnected' | 'reconnecting';
 
+type TActiveSymbol = {
+    symbol: string;
+    display_name: string;
+};
+
+/**
+ * Streams a symbol from the market data hub into the signal engines. Components using it
+ * have to be observers, the connection status follows the app connection.
+ */
 export const useDeriv = (initialSymbol = 'R_100', maxTicks = 100) => {
-    const [connectionStatus, setConnectionStatus] = useState<TConnectionStatus>('disconnected');
+    const { common, market_data } = useStore();
     const [currentPrice, setCurrentPrice] = useState<string | number>('0.00');
     const [currentDigit, setCurrentDigit] = useState<number | null>(null);
     const [tickCount, setTickCount] = useState(0);
     const [symbol, setSymbol] = useState(initialSymbol);
-    const [availableSymbols, setAvailableSymbols] = useState<any[]>([]);
     const [connectionLogs, setConnectionLogs] = useState<string[]>([]);
 
     const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
@@ -19,82 +29,62 @@ export const useDeriv = (initialSymbol = 'R_100', maxTicks = 100) => {
     const [proSignals, setProSignals] = useState<Signal[]>([]);
     const [aiPrediction, setAiPrediction] = useState<AIPredictionResult | null>(null);
 
-    const wsRef = useRef<DerivWebSocket | null>(null);
     const engineRef = useRef<AnalysisEngine>(new AnalysisEngine(maxTicks));
     const predictorRef = useRef<AIPredictor>(new AIPredictor(maxTicks));
+    const lastEpochRef = useRef(0);
+
+    let connectionStatus: TConnectionStatus = 'disconnected';
+    if (common.is_socket_opened) connectionStatus = tickCount ? 'connected' : 'reconnecting';
+    const availableSymbols = (api_base.active_symbols ?? []) as TActiveSymbol[];
 
     const addLog = useCallback((message: string) => {
         setConnectionLogs(prev => [...prev.slice(-49), `${new Date().toLocaleTimeString()}: ${message}`]);
     }, []);
 
-    const handleTick = useCallback((data: any) => {
-        if (data.msg_type === 'tick') {
-            const quote = data.tick.quote;
-            const priceStr = String(quote);
-            const lastDigit = parseInt(priceStr[priceStr.length - 1]);
+    const handleSnapshot = useCallback(
+        ({ ticks, digits, quote, last_digit }: TMarketSnapshot) => {
+            // The first snapshot brings the buffered history, later ones a tick or so each.
+            const new_digits = digits.filter((_, index) => ticks[index].epoch > lastEpochRef.current).slice(-maxTicks);
+            lastEpochRef.current = ticks[ticks.length - 1].epoch;
 
             setCurrentPrice(quote);
-            setCurrentDigit(lastDigit);
-            setTickCount(prev => prev + 1);
+            setCurrentDigit(last_digit);
+            setTickCount(prev => prev + new_digits.length);
 
-            engineRef.current.addTick(quote);
-            predictorRef.current.addData(lastDigit);
+            new_digits.forEach(digit => {
+                engineRef.current.addDigit(digit);
+                predictorRef.current.addData(digit);
+            });
 
-            const currentAnalysis = engineRef.current.getAnalysis();
-            setAnalysis(currentAnalysis);
+            setAnalysis(engineRef.current.getAnalysis());
             setSignals(engineRef.current.generateSignals());
             setProSignals(engineRef.current.generateProSignals());
             setAiPrediction(predictorRef.current.predict());
-        }
-    }, []);
-
-    const connect = useCallback(async () => {
-        if (!wsRef.current) {
-            wsRef.current = new DerivWebSocket();
-            wsRef.current.subscribe('tick', handleTick);
+        },
+        [maxTicks]
+    );
 
-            wsRef.current.subscribe('active_symbols', data => {
-                if (data.active_symbols) {
-                    setAvailableSymbols(data.active_symbols);
-                }
-            });
-        }
-
-        try {
-            setConnectionStatus('reconnecting');
-            addLog('Connecting to Deriv...');
-            await wsRef.current.connect();
-            setConnectionStatus('connected');
-            addLog('Connected to Deriv WebSocket');
-
-            wsRef.current.subscribeTicks(symbol);
-            wsRef.current.send({ active_symbols: 'brief', product_type: 'basic' });
-        } catch (error) {
-            setConnectionStatus('disconnected');
-            addLog(`Connection error: ${error}`);
-        }
-    }, [symbol, handleTick, addLog]);
+    useEffect(() => {
+        addLog(`Connection ${connectionStatus}`);
+    }, [connectionStatus, addLog]);
 
     useEffect(() => {
-        connect();
-        return () => {
-            wsRef.current?.disconnect();
-        };
-    }, []); // Run once on mount
+        engineRef.current = new AnalysisEngine(maxTicks);
+        predictorRef.current = new AIPredictor(maxTicks);
+        lastEpochRef.current = 0;
+        setTickCount(0);
+
+        return market_data.subscribe(symbol, handleSnapshot);
+    }, [market_data, symbol, maxTicks, handleSnapshot]);
 
     const changeSymbol = useCallback(
         (newSymbol: string) => {
             if (newSymbol !== symbol) {
                 addLog(`Switching symbol to ${newSymbol}`);
-                wsRef.current?.unsubscribeTicks();
                 setSymbol(newSymbol);
-                setTickCount(0);
-                engineRef.current = new AnalysisEngine(maxTicks);
-                predictorRef.current = new AIPredictor(maxTicks);
-                wsRef.current?.subscribeTicks(newSymbol);
             }
         },
-        [symbol, maxTicks, addLog]
+        [symbol, addLog]
     );
 
     const exportData = useCallback(
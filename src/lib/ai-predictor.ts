@@ -13,9 +13,12 @@ export interface AIPredictionResult {
 class AIPredictor {
     private history: number[] = [];
     private maxHistory: number;
+    private random: () => number;
 
-    constructor(maxHistory = 100) {
+    // `random` can be replaced by a seeded generator to make predictions reproducible.
+    constructor(maxHistory = 100, random: () => number = Math.random) {
         this.maxHistory = maxHistory;
+        this.random = random;
     }
 
     public addData(digit: number): void {
@@ -63,7 +66,7 @@ class AIPredictor {
                 const absenceScore = recentFreqs[digit] === 0 ? 8 : 2;
 
                 // 5. Randomness (10%)
-                const randomScore = Math.random() * 10;
+                const randomScore = this.random() * 10;
 
                 return freqScore + recentScore + transitionScore + absenceScore + randomScore;
             });
@@ -0,0 +1,118 @@
+import {
+    createSeededRandom,
+    evaluatePredictor,
+    getPredictionFromScores,
+    LAB_PREDICTOR_IDS,
+    runStrategyLab,
+    summariseContract,
+    TLabPredictor,
+} from '../strategy-lab';
+
+const createDigits = (count: number, seed = 7) => {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: count }, () => Math.floor(random() * 10));
+};
+
+describe('strategy-lab', () => {
+    it('should turn digit scores into calls and skip ties', () => {
+        expect(getPredictionFromScores([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])).toEqual({
+            matches: 9,
+            differs: 0,
+            even_odd: 'ODD',
+            over_under: 'OVER',
+        });
+        expect(getPredictionFromScores([5, 0, 0, 0, 0, 0, 0, 0, 0, 0])).toEqual({
+            matches: 0,
+            even_odd: 'EVEN',
+            over_under: 'UNDER',
+        });
+        expect(getPredictionFromScores(new Array(10).fill(1))).toEqual({});
+    });
+
+    it('should never show a predictor the digit it is scored against', async () => {
+        const digits = createDigits(120);
+        const seen: number[][] = [];
+        const predictor: TLabPredictor = {
+            id: 'frequency_baseline',
+            predict: history => {
+                seen.push(history);
+                return {};
+            },
+        };
+
+        const evaluation = await evaluatePredictor(predictor, digits, { train_size: 20, max_predictions: 0 });
+
+        expect(evaluation.opportunities).toBe(100);
+        seen.forEach((history, index) => {
+            expect(history).toHaveLength(20);
+            expect(history).toEqual(digits.slice(index, index + 20));
+        });
+    });
+
+    it('should refit trained predictors on the configured interval', async () => {
+        const train = jest.fn();
+        const predictor: TLabPredictor = { id: 'neural_pattern', train, predict: () => ({}) };
+
+        await evaluatePredictor(predictor, createDigits(150), {
+            train_size: 50,
+            retrain_every: 25,
+            max_predictions: 0,
+        });
+
+        expect(train).toHaveBeenCalledTimes(4);
+    });
+
+    it('should credit a predictor that knows the sequence with an edge over chance', async () => {
+        const digits = Array.from({ length: 300 }, (_, index) => index % 10);
+        const predictor: TLabPredictor = {
+            id: 'multi_step',
+            predict: history => {
+                const next = (history[history.length - 1] + 1) % 10;
+                return { matches: next, even_odd: next % 2 === 0 ? 'EVEN' : 'ODD' };
+            },
+        };
+
+        const { contracts } = await evaluatePredictor(predictor, digits, { train_size: 10, max_predictions: 0 });
+
+        expect(contracts.matches).toMatchObject({ predictions: 290, hits: 290, hit_rate: 1, verdict: 'better' });
+        expect(contracts.even_odd.verdict).toBe('better');
+        expect(contracts.differs).toMatchObject({ predictions: 0, verdict: 'insufficient' });
+    });
+
+    it('should judge results against the chance rate of each contract', () => {
+        expect(summariseContract('matches', 10, 100).verdict).toBe('chance');
+        expect(summariseContract('matches', 30, 100).verdict).toBe('better');
+        expect(summariseContract('differs', 80, 100).verdict).toBe('worse');
+        expect(summariseContract('even_odd', 5, 10).verdict).toBe('insufficient');
+        expect(summariseContract('over_under', 50, 100).edge).toBe(0);
+    });
+
+    it('should not find an edge for the frequency baseline on uniform digits', async () => {
+        const report = await runStrategyLab(createDigits(1500, 1), {
+            predictor_ids: ['frequency_baseline'],
+            train_size: 200,
+            max_predictions: 0,
+        });
+
+        const { contracts } = report.evaluations[0];
+        Object.values(contracts).forEach(({ verdict }) => expect(verdict).not.toBe('better'));
+    });
+
+    it('should run every predictor reproducibly over the same digits', async () => {
+        const digits = createDigits(260);
+        const options = { train_size: 60, retrain_every: 40, max_predictions: 200, seed: 3 };
+        const progress = jest.fn();
+
+        const first = await runStrategyLab(digits, { ...options, onProgress: progress });
+        const second = await runStrategyLab(digits, options);
+
+        expect(first.evaluations.map(({ predictor_id }) => predictor_id)).toEqual(LAB_PREDICTOR_IDS);
+        expect(first.evaluations.every(({ opportunities }) => opportunities === 200)).toBe(true);
+        expect(second).toEqual(first);
+        expect(progress).toHaveBeenCalledWith({ predictor_id: 'ai_predictor', completed: 200, total: 200 });
+    });
+
+    it('should reject datasets that are shorter than the training window', async () => {
+        await expect(runStrategyLab(createDigits(50), { train_size: 50 })).rejects.toThrow('At least 51 digits');
+    });
+});
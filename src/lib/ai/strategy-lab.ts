@@ -0,0 +1,414 @@
+import AIPredictor from '../ai-predictor';
+import { SmartPredictor } from '../analysis/smart-predictions';
+import { binomialPValue, TConfidenceInterval, wilsonInterval } from '../analysis/statistics';
+import { VSenseEngine } from '../analysis/v-sense-engine';
+import { AnomalyDetector, MultiStepPredictor, NeuralPatternRecognizer } from './predictors';
+
+export type TLabContract = 'matches' | 'differs' | 'even_odd' | 'over_under';
+
+/**
+ * The call a predictor makes for the next digit, per contract type. Over/under is read as
+ * Over 4 / Under 5 so that both sides have the same 50% chance. A contract without a call
+ * is skipped for that tick.
+ */
+export type TLabPrediction = {
+    matches?: number;
+    differs?: number;
+    even_odd?: 'EVEN' | 'ODD';
+    over_under?: 'OVER' | 'UNDER';
+};
+
+export type TLabPredictorId =
+    | 'frequency_baseline'
+    | 'multi_step'
+    | 'neural_pattern'
+    | 'anomaly_detector'
+    | 'smart_predictor'
+    | 'vsense'
+    | 'ai_predictor';
+
+export type TLabPredictor = {
+    id: TLabPredictorId;
+    /** Refits the predictor on the training window, called every `retrain_every` ticks. */
+    train?: (history: number[]) => void;
+    predict: (history: number[]) => TLabPrediction;
+};
+
+export type TLabVerdict = 'better' | 'chance' | 'worse' | 'insufficient';
+
+export type TContractEvaluation = {
+    predictions: number;
+    hits: number;
+    hit_rate: number;
+    chance_rate: number;
+    interval: TConfidenceInterval;
+    /** Hit rate minus the chance rate. */
+    edge: number;
+    p_value: number;
+    verdict: TLabVerdict;
+};
+
+export type TPredictorEvaluation = {
+    predictor_id: TLabPredictorId;
+    /** Ticks the predictor was asked about. */
+    opportunities: number;
+    contracts: Record<TLabContract, TContractEvaluation>;
+};
+
+export type TWalkForwardOptions = {
+    /** Digits in the rolling window every prediction is made from. */
+    train_size: number;
+    /** Ticks between two refits of the trained predictors. */
+    retrain_every: number;
+    /** Evaluates only the most recent ticks, 0 evaluates the whole dataset. */
+    max_predictions: number;
+    /** Seed of the random component of the AI predictor, so runs can be repeated. */
+    seed: number;
+};
+
+export type TStrategyLabProgress = {
+    predictor_id: TLabPredictorId;
+    completed: number;
+    total: number;
+};
+
+export type TStrategyLabReport = {
+    dataset_size: number;
+    options: TWalkForwardOptions;
+    evaluations: TPredictorEvaluation[];
+};
+
+export type TStrategyLabRunOptions = Partial<TWalkForwardOptions> & {
+    predictor_ids?: TLabPredictorId[];
+    onProgress?: (progress: TStrategyLabProgress) => void;
+    isCancelled?: () => boolean;
+};
+
+export const LAB_CONTRACTS: TLabContract[] = ['matches', 'differs', 'even_odd', 'over_under'];
+
+export const LAB_PREDICTOR_IDS: TLabPredictorId[] = [
+    'frequency_baseline',
+    'multi_step',
+    'neural_pattern',
+    'anomaly_detector',
+    'smart_predictor',
+    'vsense',
+    'ai_predictor',
+];
+
+// Hit rate of each contract when the next digit is uniformly random.
+export const CHANCE_RATES: Record<TLabContract, number> = {
+    matches: 0.1,
+    differs: 0.9,
+    even_odd: 0.5,
+    over_under: 0.5,
+};
+
+export const DEFAULT_WALK_FORWARD_OPTIONS: TWalkForwardOptions = {
+    train_size: 300,
+    retrain_every: 50,
+    max_predictions: 2000,
+    seed: 1,
+};
+
+// Fewer calls than this are reported as insufficient rather than judged.
+export const MIN_PREDICTIONS = 30;
+
+const ANOMALY_RECENT_WINDOW = 50;
+const AI_PREDICTOR_HISTORY = 100;
+const YIELD_EVERY = 200;
+
+const isHit = (contract: TLabContract, prediction: TLabPrediction, digit: number) => {
+    switch (contract) {
+        case 'matches':
+            return prediction.matches === digit;
+        case 'differs':
+            return prediction.differs !== digit;
+        case 'even_odd':
+            return (digit % 2 === 0 ? 'EVEN' : 'ODD') === prediction.even_odd;
+        case 'over_under':
+            return (digit >= 5 ? 'OVER' : 'UNDER') === prediction.over_under;
+        default:
+            return false;
+    }
+};
+
+const getUniqueIndex = (scores: number[], value: number) =>
+    scores.filter(score => score === value).length === 1 ? scores.indexOf(value) : undefined;
+
+const sumDigits = (scores: number[], isIncluded: (digit: number) => boolean) =>
+    scores.reduce((sum, score, digit) => (isIncluded(digit) ? sum + score : sum), 0);
+
+/**
+ * Turns a score per digit into calls: matches the best digit, differs the worst and picks
+ * the sides with the larger total score. Ties make no call, so a predictor that cannot
+ * separate the digits is not credited with an arbitrary choice.
+ */
+export const getPredictionFromScores = (scores: number[]): TLabPrediction => {
+    const prediction: TLabPrediction = {};
+    if (scores.length !== 10 || scores.some(score => !Number.isFinite(score))) return prediction;
+
+    const matches = getUniqueIndex(scores, Math.max(...scores));
+    const differs = getUniqueIndex(scores, Math.min(...scores));
+    if (matches !== undefined) prediction.matches = matches;
+    if (differs !== undefined) prediction.differs = differs;
+
+    const even = sumDigits(scores, digit => digit % 2 === 0);
+    const odd = sumDigits(scores, digit => digit % 2 === 1);
+    if (even !== odd) prediction.even_odd = even > odd ? 'EVEN' : 'ODD';
+
+    const over = sumDigits(scores, digit => digit >= 5);
+    const under = sumDigits(scores, digit => digit <= 4);
+    if (over !== under) prediction.over_under = over > under ? 'OVER' : 'UNDER';
+
+    return prediction;
+};
+
+const getDigitCounts = (digits: number[]) => {
+    const counts = new Array(10).fill(0);
+    digits.forEach(digit => counts[digit]++);
+    return counts;
+};
+
+// Mulberry32, a small seeded generator that is good enough to replace Math.random here.
+export const createSeededRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Wraps each predictor behind the same train/predict interface. Every call returns a
+ * fresh adapter because most predictors keep state between calls.
+ */
+export const createLabPredictor = (id: TLabPredictorId, seed = DEFAULT_WALK_FORWARD_OPTIONS.seed): TLabPredictor => {
+    switch (id) {
+        case 'multi_step': {
+            let predictor: MultiStepPredictor | null = null;
+            return {
+                id,
+                train: history => (predictor = new MultiStepPredictor(history)),
+                predict: history => {
+                    const digit = predictor?.predictNextN(history, 1)[0]?.digit;
+                    if (digit === undefined) return {};
+                    // Only the single best digit is exposed, so the sides follow that digit.
+                    return {
+                        matches: digit,
+                        even_odd: digit % 2 === 0 ? 'EVEN' : 'ODD',
+                        over_under: digit >= 5 ? 'OVER' : 'UNDER',
+                    };
+                },
+            };
+        }
+        case 'neural_pattern': {
+            let recognizer = new NeuralPatternRecognizer();
+            return {
+                id,
+                train: history => {
+                    // Training adds to the learned patterns, so refits start from scratch.
+                    recognizer = new NeuralPatternRecognizer();
+                    recognizer.train(history);
+                },
+                predict: history => {
+                    const weights = recognizer.predictNext(history);
+                    if (!weights.size) return {};
+                    return getPredictionFromScores(Array.from({ length: 10 }, (_, digit) => weights.get(digit) ?? 0));
+                },
+            };
+        }
+        case 'anomaly_detector': {
+            const detector = new AnomalyDetector();
+            return {
+                id,
+                train: history => detector.calibrate(history),
+                predict: history => {
+                    const prediction: TLabPrediction = {};
+                    // Anomalies are sorted by severity, so the first of each kind is the strongest.
+                    detector.detect(history.slice(-ANOMALY_RECENT_WINDOW)).forEach(anomaly => {
+                        const [digit] = anomaly.affectedDigits;
+                        if (digit === undefined) return;
+                        if (prediction.matches === undefined && anomaly.recommendation.includes('matching')) {
+                            prediction.matches = digit;
+                        }
+                        if (prediction.differs === undefined && anomaly.recommendation.includes('differing')) {
+                            prediction.differs = digit;
+                        }
+                    });
+                    return prediction;
+                },
+            };
+        }
+        case 'smart_predictor':
+            return {
+                id,
+                predict: history => {
+                    const scores = new Array(10).fill(0);
+                    new SmartPredictor(history).predict().forEach(({ digit, probability }) => {
+                        scores[digit] = probability;
+                    });
+                    return getPredictionFromScores(scores);
+                },
+            };
+        case 'vsense':
+            return {
+                id,
+                predict: history => {
+                    const prediction: TLabPrediction = {};
+                    new VSenseEngine(history, '').analyze().forEach(({ strategy, targetDigit, targetSide }) => {
+                        if (strategy === 'DIFFERS' && targetDigit !== undefined) prediction.differs = targetDigit;
+                        if (strategy === 'EVEN_ODD' && (targetSide === 'EVEN' || targetSide === 'ODD')) {
+                            prediction.even_odd = targetSide;
+                        }
+                        if (strategy === 'OVER_UNDER' && (targetSide === 'OVER' || targetSide === 'UNDER')) {
+                            prediction.over_under = targetSide;
+                        }
+                    });
+                    return prediction;
+                },
+            };
+        case 'ai_predictor': {
+            const random = createSeededRandom(seed);
+            return {
+                id,
+                predict: history => {
+                    const predictor = new AIPredictor(AI_PREDICTOR_HISTORY, random);
+                    history.slice(-AI_PREDICTOR_HISTORY).forEach(digit => predictor.addData(digit));
+                    const result = predictor.predict();
+                    if (!result) return {};
+
+                    const scores = new Array(10).fill(0);
+                    result.predictions.forEach(({ digit, probability }) => (scores[digit] = probability));
+                    return getPredictionFromScores(scores);
+                },
+            };
+        }
+        case 'frequency_baseline':
+        default: {
+            // The naive strategy every real predictor has to beat: bet on what was most frequent.
+            let scores: number[] = [];
+            return {
+                id: 'frequency_baseline',
+                train: history => (scores = getDigitCounts(history)),
+                predict: () => getPredictionFromScores(scores),
+            };
+        }
+    }
+};
+
+export const summariseContract = (contract: TLabContract, hits: number, predictions: number): TContractEvaluation => {
+    const chance_rate = CHANCE_RATES[contract];
+    const hit_rate = predictions ? hits / predictions : 0;
+    const interval = wilsonInterval(hits, predictions);
+
+    let verdict: TLabVerdict = 'chance';
+    if (predictions < MIN_PREDICTIONS) verdict = 'insufficient';
+    else if (interval.lower > chance_rate) verdict = 'better';
+    else if (interval.upper < chance_rate) verdict = 'worse';
+
+    return {
+        predictions,
+        hits,
+        hit_rate,
+        chance_rate,
+        interval,
+        edge: predictions ? hit_rate - chance_rate : 0,
+        p_value: binomialPValue(hits, predictions, chance_rate),
+        verdict,
+    };
+};
+
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Walk-forward evaluation: every tick after the first `train_size` is predicted from the
+ * window of digits right before it, trained predictors are refitted on that window every
+ * `retrain_every` ticks, and the call is only then compared with the actual digit. No
+ * prediction ever sees the digit it is scored against.
+ */
+export const evaluatePredictor = async (
+    predictor: TLabPredictor,
+    digits: number[],
+    options: Partial<TWalkForwardOptions> = {},
+    onProgress?: (completed: number, total: number) => void,
+    isCancelled?: () => boolean
+): Promise<TPredictorEvaluation> => {
+    const { train_size, retrain_every, max_predictions } = { ...DEFAULT_WALK_FORWARD_OPTIONS, ...options };
+    const start = Math.max(train_size, max_predictions > 0 ? digits.length - max_predictions : 0);
+    const total = Math.max(0, digits.length - start);
+    const hits = Object.fromEntries(LAB_CONTRACTS.map(contract => [contract, 0])) as Record<TLabContract, number>;
+    const predictions = { ...hits };
+
+    let ticks_since_training = Infinity;
+    for (let index = start; index < digits.length; index++) {
+        const history = digits.slice(index - train_size, index);
+        if (predictor.train && ticks_since_training >= retrain_every) {
+            predictor.train(history);
+            ticks_since_training = 0;
+        }
+        ticks_since_training++;
+
+        const prediction = predictor.predict(history);
+        LAB_CONTRACTS.forEach(contract => {
+            if (prediction[contract] === undefined) return;
+            predictions[contract]++;
+            if (isHit(contract, prediction, digits[index])) hits[contract]++;
+        });
+
+        const completed = index - start + 1;
+        if (completed % YIELD_EVERY === 0) {
+            onProgress?.(completed, total);
+            await yieldToEventLoop();
+            if (isCancelled?.()) break;
+        }
+    }
+    onProgress?.(total, total);
+
+    return {
+        predictor_id: predictor.id,
+        opportunities: total,
+        contracts: Object.fromEntries(
+            LAB_CONTRACTS.map(contract => [
+                contract,
+                summariseContract(contract, hits[contract], predictions[contract]),
+            ])
+        ) as Record<TLabContract, TContractEvaluation>,
+    };
+};
+
+/**
+ * Runs every predictor over the same digits with the same walk-forward settings, so their
+ * hit rates can be compared with each other and with chance.
+ */
+export const runStrategyLab = async (
+    digits: number[],
+    { predictor_ids = LAB_PREDICTOR_IDS, onProgress, isCancelled, ...options }: TStrategyLabRunOptions = {}
+): Promise<TStrategyLabReport> => {
+    const walk_forward_options = { ...DEFAULT_WALK_FORWARD_OPTIONS, ...options };
+    if (walk_forward_options.train_size < 1 || walk_forward_options.retrain_every < 1) {
+        throw new Error('The training window and the refit interval must be at least 1');
+    }
+    if (digits.length <= walk_forward_options.train_size) {
+        throw new Error(`At least ${walk_forward_options.train_size + 1} digits are needed`);
+    }
+
+    const evaluations: TPredictorEvaluation[] = [];
+    for (const predictor_id of predictor_ids) {
+        if (isCancelled?.()) break;
+        evaluations.push(
+            await evaluatePredictor(
+                createLabPredictor(predictor_id, walk_forward_options.seed),
+                digits,
+                walk_forward_options,
+                (completed, total) => onProgress?.({ predictor_id, completed, total }),
+                isCancelled
+            )
+        );
+    }
+
+    return { dataset_size: digits.length, options: walk_forward_options, evaluations };
+};
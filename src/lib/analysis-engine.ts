@@ -1,3 +1,17 @@
+import {
+    getDigitFrequencies,
+    getOverPercentage,
+    getParityPercentage,
+    getUnderPercentage,
+    rankDigits,
+} from '@/external/bot-skeleton/services/digit-patterns';
+import {
+    getBinomialSignificance,
+    getRunsSignificance,
+    getUniformitySignificance,
+    TSignificance,
+} from './analysis/statistics';
+
 export interface Signal {
     type: string;
     status: 'TRADE NOW' | 'WAIT' | 'NEUTRAL';
@@ -5,6 +19,8 @@ export interface Signal {
     recommendation: string;
     entryCondition: string;
     targetDigit?: number;
+    // Whether the bias behind the signal is distinguishable from chance in this sample.
+    significance: TSignificance;
 }
 
 export interface DigitFrequency {
@@ -26,6 +42,8 @@ export interface AnalysisResult {
     missingDigits: number[];
     streaks: { digit: number; count: number }[];
     totalTicks: number;
+    uniformity: TSignificance; // chi-square test of the digit distribution
+    parityRuns: TSignificance; // runs test of the even/odd sequence
 }
 
 class AnalysisEngine {
@@ -36,10 +54,8 @@ class AnalysisEngine {
         this.maxTicks = maxTicks;
     }
 
-    public addTick(price: number): void {
-        const priceStr = String(price);
-        const lastDigit = parseInt(priceStr[priceStr.length - 1]);
-        if (!isNaN(lastDigit)) {
+    public addDigit(lastDigit: number): void {
+        if (lastDigit >= 0 && lastDigit <= 9) {
             this.ticks.push(lastDigit);
             if (this.ticks.length > this.maxTicks) {
                 this.ticks.shift();
@@ -48,32 +64,11 @@ class AnalysisEngine {
     }
 
     public getAnalysis(): AnalysisResult {
-        const counts = Array(10).fill(0);
-        let evenCount = 0;
-        let oddCount = 0;
-        let highCount = 0;
-        let lowCount = 0;
-        let overCount = 0;
-        let underCount = 0;
         const total = this.ticks.length;
-
-        this.ticks.forEach(digit => {
-            counts[digit]++;
-            if (digit % 2 === 0) evenCount++;
-            else oddCount++;
-            if (digit >= 5) highCount++;
-            else lowCount++;
-            if (digit > 4) overCount++;
-            if (digit < 5) underCount++;
-        });
-
-        const frequencies: DigitFrequency[] = counts.map((count, digit) => ({
-            digit,
-            count,
-            percentage: total > 0 ? (count / total) * 100 : 0,
-        }));
-
-        const sortedFreqs = [...frequencies].sort((a, b) => b.count - a.count);
+        const frequencies: DigitFrequency[] = getDigitFrequencies(this.ticks);
+        const rankedDigits = rankDigits(this.ticks);
+        const strongest = rankedDigits[0];
+        const weakest = rankedDigits[rankedDigits.length - 1];
         const missingDigits = frequencies.filter(f => f.count === 0).map(f => f.digit);
 
         // Entropy calculation (simplified)
@@ -101,24 +96,30 @@ class AnalysisEngine {
 
         return {
             digitFrequencies: frequencies,
-            evenPercentage: total > 0 ? (evenCount / total) * 100 : 0,
-            oddPercentage: total > 0 ? (oddCount / total) * 100 : 0,
-            highPercentage: total > 0 ? (highCount / total) * 100 : 0,
-            lowPercentage: total > 0 ? (lowCount / total) * 100 : 0,
-            overPercentage: total > 0 ? (overCount / total) * 100 : 0,
-            underPercentage: total > 0 ? (underCount / total) * 100 : 0,
+            evenPercentage: getParityPercentage(this.ticks, 'even'),
+            oddPercentage: getParityPercentage(this.ticks, 'odd'),
+            highPercentage: getOverPercentage(this.ticks, 4),
+            lowPercentage: getUnderPercentage(this.ticks, 5),
+            overPercentage: getOverPercentage(this.ticks, 4),
+            underPercentage: getUnderPercentage(this.ticks, 5),
             entropy,
             powerIndex: {
-                strongest: sortedFreqs[0]?.digit ?? 0,
-                weakest: sortedFreqs[9]?.digit ?? 0,
-                gap: (sortedFreqs[0]?.percentage ?? 0) - (sortedFreqs[9]?.percentage ?? 0),
+                strongest,
+                weakest,
+                gap: frequencies[strongest].percentage - frequencies[weakest].percentage,
             },
             missingDigits,
             streaks,
             totalTicks: total,
+            uniformity: getUniformitySignificance(this.ticks),
+            parityRuns: getRunsSignificance(this.ticks.map(digit => digit % 2 === 0)),
         };
     }
 
+    private countTicks(isCounted: (digit: number) => boolean): number {
+        return this.ticks.filter(isCounted).length;
+    }
+
     public generateSignals(): Signal[] {
         const analysis = this.getAnalysis();
         if (analysis.totalTicks < 20) return [];
@@ -152,6 +153,11 @@ class AnalysisEngine {
         const maxPct = Math.max(analysis.evenPercentage, analysis.oddPercentage);
         const type = analysis.evenPercentage >= analysis.oddPercentage ? 'Even' : 'Odd';
         const opposite = type === 'Even' ? 'Odd' : 'Even';
+        const significance = getBinomialSignificance(
+            this.countTicks(digit => (type === 'Even' ? digit % 2 === 0 : digit % 2 === 1)),
+            analysis.totalTicks,
+            0.5
+        );
 
         if (maxPct >= 60) {
             return {
@@ -160,6 +166,7 @@ class AnalysisEngine {
                 probability: maxPct,
                 recommendation: `Strong ${type.toLowerCase()} bias detected`,
                 entryCondition: `Wait for 2+ consecutive ${opposite.toLowerCase()} digits`,
+                significance,
             };
         } else if (maxPct >= 55) {
             return {
@@ -168,6 +175,7 @@ class AnalysisEngine {
                 probability: maxPct,
                 recommendation: `${type} showing moderate bias`,
                 entryCondition: `Wait for bias to reach 60%`,
+                significance,
             };
         }
         return null;
@@ -185,6 +193,11 @@ class AnalysisEngine {
                 probability: maxPct,
                 recommendation: `${type} 4.5 dominant with high power gap`,
                 entryCondition: `Trade ${type.toLowerCase()} when strongest digit appears`,
+                significance: getBinomialSignificance(
+                    this.countTicks(digit => (type === 'Over' ? digit > 4 : digit < 5)),
+                    analysis.totalTicks,
+                    0.5
+                ),
             };
         }
         return null;
@@ -200,6 +213,8 @@ class AnalysisEngine {
                 recommendation: `Digit ${strongest.digit} showing high frequency`,
                 entryCondition: `Trade immediately when digit ${strongest.digit} appears`,
                 targetDigit: strongest.digit,
+                // The hottest of ten digits is picked, hence the correction for ten comparisons.
+                significance: getBinomialSignificance(strongest.count, analysis.totalTicks, 0.1, 10),
             };
         }
         return null;
@@ -215,6 +230,7 @@ class AnalysisEngine {
                 recommendation: `Digit ${weakest.digit} appears only ${weakest.percentage.toFixed(1)}% - Strong differs signal`,
                 entryCondition: `Wait for digit ${weakest.digit} to appear, then trade DIFFERS immediately`,
                 targetDigit: weakest.digit,
+                significance: getBinomialSignificance(weakest.count, analysis.totalTicks, 0.1, 10),
             };
         }
         return null;
@@ -224,7 +240,10 @@ class AnalysisEngine {
         // Simplified trend based on high/low split over last 20 ticks
         const last20 = this.ticks.slice(-20);
         const upCount = last20.filter((t, i) => i > 0 && t > last20[i - 1]).length;
+        const downCount = last20.filter((t, i) => i > 0 && t < last20[i - 1]).length;
         const confidence = (upCount / last20.length) * 100;
+        // Rises and falls are equally likely for random digits once repeats are left out.
+        const significance = getBinomialSignificance(confidence >= 60 ? upCount : downCount, upCount + downCount, 0.5);
 
         if (confidence >= 60) {
             return {
@@ -233,6 +252,7 @@ class AnalysisEngine {
                 probability: confidence,
                 recommendation: `RISE trend detected with ${confidence.toFixed(1)}% confidence`,
                 entryCondition: 'Trade rise based on current trend',
+                significance,
             };
         } else if (confidence <= 40) {
             return {
@@ -241,6 +261,7 @@ class AnalysisEngine {
                 probability: 100 - confidence,
                 recommendation: `FALL trend detected with ${(100 - confidence).toFixed(1)}% confidence`,
                 entryCondition: 'Trade fall based on current trend',
+                significance,
             };
         }
         return null;
@@ -263,6 +284,11 @@ class AnalysisEngine {
                 probability: analysis.evenPercentage,
                 recommendation: 'PRO EVEN Strategy: Strong even bias detected',
                 entryCondition: 'Wait for 3+ consecutive odd digits, then trade EVEN',
+                significance: getBinomialSignificance(
+                    this.countTicks(digit => digit % 2 === 0),
+                    analysis.totalTicks,
+                    0.5
+                ),
             });
         }
 
@@ -279,6 +305,8 @@ class AnalysisEngine {
                 probability: 92, // Fixed high confidence for pro
                 recommendation: 'OVER 1 STRATEGY: Strong signal - 90%+ win rate detected!',
                 entryCondition: 'Trade OVER 1 when digit 0 or 1 appears',
+                // Digits above 1 come up 80% of the time by chance alone.
+                significance: getBinomialSignificance(highCount20, last20.length, 0.8),
             });
         }
 
@@ -293,6 +321,7 @@ class AnalysisEngine {
                 recommendation: `PRO DIFFERS: Digit ${weakest.digit} at ${weakest.percentage.toFixed(1)}% - ${(100 - weakest.percentage).toFixed(1)}% win rate!`,
                 entryCondition: `Wait for digit ${weakest.digit} to appear, then trade DIFFERS immediately`,
                 targetDigit: weakest.digit,
+                significance: getBinomialSignificance(weakest.count, analysis.totalTicks, 0.1, 10),
             });
         }
 
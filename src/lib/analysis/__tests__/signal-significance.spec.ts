@@ -0,0 +1,53 @@
+import AnalysisEngine from '../../analysis-engine';
+import { SmartPredictor } from '../smart-predictions';
+import { VSenseEngine } from '../v-sense-engine';
+
+// 100 digits where 8 in 10 are even and 7 shows up in every fifth tick.
+const BIASED_DIGITS = Array.from({ length: 100 }, (_, index) => (index % 5 === 4 ? 7 : [0, 2, 4, 6][index % 4]));
+
+const createEngine = (digits: number[]) => {
+    const engine = new AnalysisEngine(digits.length);
+    digits.forEach(digit => engine.addDigit(digit));
+    return engine;
+};
+
+describe('signal significance', () => {
+    it('should attach distribution tests to the analysis', () => {
+        const analysis = createEngine(BIASED_DIGITS).getAnalysis();
+
+        expect(analysis.uniformity).toMatchObject({ test: 'chi_square', sample_size: 100, is_significant: true });
+        expect(analysis.parityRuns).toMatchObject({ test: 'runs', sample_size: 100 });
+    });
+
+    it('should attach a binomial test to every signal', () => {
+        const engine = createEngine(BIASED_DIGITS);
+        const signals = [...engine.generateSignals(), ...engine.generateProSignals()];
+        const even_odd = signals.find(({ type }) => type === 'Even/Odd');
+
+        expect(signals.length).toBeGreaterThan(0);
+        signals.forEach(({ significance }) => expect(significance.sample_size).toBeGreaterThan(0));
+        expect(even_odd?.significance).toMatchObject({ test: 'binomial', statistic: 0.8, is_significant: true });
+    });
+
+    it('should not call a small sample significant', () => {
+        const digits = [0, 2, 4, 6, 8, 1, 2, 4, 6, 8, 3, 2, 4, 6, 8, 5, 1, 3, 7, 9];
+        const even_odd = createEngine(digits)
+            .generateSignals()
+            .find(({ type }) => type === 'Even/Odd');
+
+        expect(even_odd?.probability).toBe(65);
+        expect(even_odd?.significance.is_significant).toBe(false);
+    });
+
+    it('should attach significance to V-Sense and smart predictor signals', () => {
+        new VSenseEngine(BIASED_DIGITS, 'R_100').analyze().forEach(({ significance }) => {
+            expect(significance.test).toBe('binomial');
+            expect(significance.sample_size).toBe(100);
+        });
+
+        const predictor = new SmartPredictor(BIASED_DIGITS);
+        expect(predictor.getTradingSignal().significance.sample_size).toBe(100);
+        expect(predictor.getUniformity().is_significant).toBe(true);
+        expect(new SmartPredictor([]).getTradingSignal().significance.is_significant).toBe(false);
+    });
+});
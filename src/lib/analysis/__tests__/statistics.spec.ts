@@ -0,0 +1,90 @@
+import {
+    binomialPValue,
+    chiSquarePValue,
+    chiSquareUniformityTest,
+    getBinomialSignificance,
+    getRunsSignificance,
+    getUniformitySignificance,
+    normalCdf,
+    runsTest,
+    wilsonInterval,
+} from '../statistics';
+
+describe('statistics', () => {
+    it('should approximate the standard normal CDF', () => {
+        expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+        expect(normalCdf(1.959963984540054)).toBeCloseTo(0.975, 6);
+        expect(normalCdf(-1)).toBeCloseTo(0.158655, 5);
+    });
+
+    it('should compute Wilson score intervals', () => {
+        const half = wilsonInterval(50, 100);
+        expect(half.lower).toBeCloseTo(0.4038, 4);
+        expect(half.upper).toBeCloseTo(0.5962, 4);
+
+        const none = wilsonInterval(0, 10);
+        expect(none.lower).toBe(0);
+        expect(none.upper).toBeCloseTo(0.2775, 4);
+
+        expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+    });
+
+    it('should compute exact two-sided binomial p-values for small samples', () => {
+        expect(binomialPValue(50, 100, 0.5)).toBeCloseTo(1, 6);
+        expect(binomialPValue(60, 100, 0.5)).toBeCloseTo(0.0569, 4);
+        expect(binomialPValue(14, 20, 0.5)).toBeCloseTo(0.1153, 4);
+        expect(binomialPValue(70, 100, 0.5)).toBeLessThan(0.001);
+        expect(binomialPValue(3, 0, 0.5)).toBe(1);
+    });
+
+    it('should fall back to the normal approximation for large samples', () => {
+        expect(binomialPValue(1060, 2000, 0.5)).toBeCloseTo(0.008, 3);
+    });
+
+    it('should compute chi-square p-values', () => {
+        expect(chiSquarePValue(3.841459, 1)).toBeCloseTo(0.05, 5);
+        expect(chiSquarePValue(16.918978, 9)).toBeCloseTo(0.05, 5);
+        expect(chiSquarePValue(2.087901, 9)).toBeCloseTo(0.99, 5);
+        expect(chiSquarePValue(0, 9)).toBe(1);
+    });
+
+    it('should test digit counts for uniformity', () => {
+        expect(chiSquareUniformityTest(new Array(10).fill(10))).toEqual({
+            statistic: 0,
+            degrees_of_freedom: 9,
+            p_value: 1,
+        });
+
+        const skewed = chiSquareUniformityTest([30, 10, 10, 10, 10, 10, 10, 10, 0, 0]);
+        expect(skewed.statistic).toBeCloseTo(60, 6);
+        expect(skewed.p_value).toBeLessThan(0.001);
+    });
+
+    it('should detect streaky and alternating sequences with the runs test', () => {
+        const alternating = Array.from({ length: 40 }, (_, index) => index % 2 === 0);
+        const streaky = Array.from({ length: 40 }, (_, index) => index < 20);
+
+        expect(runsTest(alternating)).toMatchObject({ runs: 40, expected_runs: 21 });
+        expect(runsTest(alternating).z).toBeGreaterThan(0);
+        expect(runsTest(streaky)).toMatchObject({ runs: 2 });
+        expect(runsTest(streaky).z).toBeLessThan(0);
+        expect(runsTest(new Array(10).fill(true)).p_value).toBe(1);
+        expect(getRunsSignificance(streaky).is_significant).toBe(true);
+    });
+
+    it('should attach significance to signals and correct for multiple comparisons', () => {
+        const single = getBinomialSignificance(18, 100, 0.1);
+        const corrected = getBinomialSignificance(18, 100, 0.1, 10);
+
+        expect(single).toMatchObject({ test: 'binomial', sample_size: 100, statistic: 0.18, is_significant: true });
+        expect(corrected.p_value).toBeCloseTo(Math.min(1, single.p_value * 10), 10);
+        expect(corrected.is_significant).toBe(false);
+
+        expect(getBinomialSignificance(13, 20, 0.5).is_significant).toBe(false);
+        expect(getUniformitySignificance([1, 1, 1, 1, 1, 1, 1, 1, 1, 1])).toMatchObject({
+            test: 'chi_square',
+            sample_size: 10,
+            is_significant: true,
+        });
+    });
+});
@@ -1,3 +1,5 @@
+import { getBinomialSignificance, getUniformitySignificance, TSignificance } from "./statistics"
+
 export interface PredictionResult {
   digit: number
   probability: number
@@ -30,6 +32,7 @@ export interface TradingSignal {
   confidence: number
   reasoning: string[]
   riskLevel: "low" | "medium" | "high"
+  significance: TSignificance
 }
 
 export interface Streak {
@@ -114,6 +117,10 @@ export class SmartPredictor {
   public getRiskMetrics(): RiskMetrics {
     return this.assessRisk()
   }
+
+  public getUniformity(): TSignificance {
+    return getUniformitySignificance(this.digits)
+  }
   
   public getTradingSignal(): TradingSignal {
     const predictions = this.predict()
@@ -123,11 +130,13 @@ export class SmartPredictor {
             targetDigit: 0,
             confidence: 0,
             reasoning: ["No data available"],
-            riskLevel: "low"
+            riskLevel: "low",
+            significance: getBinomialSignificance(0, 0, 0.1)
         }
     }
     const topPrediction = predictions[0]
     const risk = this.getRiskMetrics()
+    const targetCount = this.digits.filter(d => d === topPrediction.digit).length
     
     let action: "BUY" | "HOLD" | "AVOID"
     if (topPrediction.confidence === "high" && topPrediction.probability >= 70) {
@@ -143,7 +152,8 @@ export class SmartPredictor {
       targetDigit: topPrediction.digit,
       confidence: topPrediction.probability,
       reasoning: topPrediction.reasoning,
-      riskLevel: risk.overallRisk
+      riskLevel: risk.overallRisk,
+      significance: getBinomialSignificance(targetCount, this.digits.length, 0.1, 10)
     }
   }
 
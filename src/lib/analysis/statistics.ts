@@ -0,0 +1,240 @@
+export type TConfidenceInterval = {
+    lower: number;
+    upper: number;
+};
+
+// Two-sided 95% quantile of the standard normal distribution.
+export const Z_95 = 1.959963984540054;
+
+/**
+ * Standard normal CDF using the Abramowitz and Stegun approximation of erf, accurate to
+ * about 1e-7, which is plenty for p-values shown to traders.
+ */
+export const normalCdf = (z: number) => {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const polynomial =
+        t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - polynomial * Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Wilson score interval of a binomial proportion. Unlike the normal approximation it stays
+ * inside [0, 1] and behaves well for small samples and rates close to 0 or 1, such as the
+ * 10% of a matches contract.
+ */
+export const wilsonInterval = (successes: number, trials: number, z = Z_95): TConfidenceInterval => {
+    if (trials <= 0) return { lower: 0, upper: 1 };
+
+    const rate = successes / trials;
+    const z2 = z * z;
+    const centre = (rate + z2 / (2 * trials)) / (1 + z2 / trials);
+    const margin = (z / (1 + z2 / trials)) * Math.sqrt((rate * (1 - rate)) / trials + z2 / (4 * trials * trials));
+
+    return { lower: Math.max(0, centre - margin), upper: Math.min(1, centre + margin) };
+};
+
+// Above this many trials the exact binomial sum is replaced by the normal approximation.
+const EXACT_BINOMIAL_LIMIT = 1000;
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export type TStatisticalTest = 'binomial' | 'chi_square' | 'runs';
+
+/**
+ * Attached to every signal so that the UI can tell a real bias from noise in a small
+ * sample. `statistic` is the observed rate for the binomial test, the chi-square value
+ * for the uniformity test and the z-score for the runs test.
+ */
+export type TSignificance = {
+    test: TStatisticalTest;
+    sample_size: number;
+    statistic: number;
+    p_value: number;
+    /** 95% interval of the observed rate, only for the binomial test. */
+    interval?: TConfidenceInterval;
+    is_significant: boolean;
+};
+
+export type TChiSquareResult = {
+    statistic: number;
+    degrees_of_freedom: number;
+    p_value: number;
+};
+
+export type TRunsTestResult = {
+    runs: number;
+    expected_runs: number;
+    z: number;
+    p_value: number;
+};
+
+// Lanczos approximation of ln Γ(x) for x > 0.
+const LANCZOS_COEFFICIENTS = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2,
+    -0.5395239384953e-5,
+];
+
+export const logGamma = (x: number) => {
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    const series = LANCZOS_COEFFICIENTS.reduce(
+        (sum, coefficient, index) => sum + coefficient / (x + index + 1),
+        1.000000000190015
+    );
+    return -tmp + Math.log((Math.sqrt(2 * Math.PI) * series) / x);
+};
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x), from its series below `a + 1` and
+ * its continued fraction above, as in Numerical Recipes.
+ */
+export const regularizedGammaQ = (a: number, x: number) => {
+    if (x <= 0) return 1;
+
+    const log_prefix = -x + a * Math.log(x) - logGamma(a);
+    if (x < a + 1) {
+        let term = 1 / a;
+        let sum = term;
+        for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-14; n++) {
+            term *= x / (a + n);
+            sum += term;
+        }
+        return Math.max(0, 1 - sum * Math.exp(log_prefix));
+    }
+
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 500; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-14) break;
+    }
+    return Math.min(1, Math.exp(log_prefix) * h);
+};
+
+export const chiSquarePValue = (statistic: number, degrees_of_freedom: number) =>
+    degrees_of_freedom > 0 ? regularizedGammaQ(degrees_of_freedom / 2, statistic / 2) : 1;
+
+/**
+ * Pearson's chi-square test of the counts against a uniform distribution, e.g. whether
+ * the ten last digits appear equally often.
+ */
+export const chiSquareUniformityTest = (counts: number[]): TChiSquareResult => {
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const degrees_of_freedom = counts.length - 1;
+    if (!total || degrees_of_freedom < 1) return { statistic: 0, degrees_of_freedom, p_value: 1 };
+
+    const expected = total / counts.length;
+    const statistic = counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+    return { statistic, degrees_of_freedom, p_value: chiSquarePValue(statistic, degrees_of_freedom) };
+};
+
+const logBinomialPmf = (successes: number, trials: number, probability: number) =>
+    logGamma(trials + 1) -
+    logGamma(successes + 1) -
+    logGamma(trials - successes + 1) +
+    successes * Math.log(probability) +
+    (trials - successes) * Math.log(1 - probability);
+
+/**
+ * Two-sided p-value of observing `successes` out of `trials` when the true rate is
+ * `probability`. Small samples sum the probabilities of every outcome at most as likely as
+ * the observed one; large samples use the normal approximation with continuity correction.
+ */
+export const binomialPValue = (successes: number, trials: number, probability: number) => {
+    if (trials <= 0 || probability <= 0 || probability >= 1) return 1;
+
+    if (trials <= EXACT_BINOMIAL_LIMIT) {
+        const observed = logBinomialPmf(successes, trials, probability);
+        let p_value = 0;
+        for (let k = 0; k <= trials; k++) {
+            const log_pmf = logBinomialPmf(k, trials, probability);
+            // The relative tolerance keeps outcomes exactly as likely as the observed one.
+            if (log_pmf <= observed + 1e-7) p_value += Math.exp(log_pmf);
+        }
+        return Math.min(1, p_value);
+    }
+
+    const expected = trials * probability;
+    const deviation = Math.max(0, Math.abs(successes - expected) - 0.5);
+    const z = deviation / Math.sqrt(trials * probability * (1 - probability));
+    return Math.min(1, 2 * (1 - normalCdf(z)));
+};
+
+/**
+ * Wald-Wolfowitz runs test of a two-valued sequence: too few runs mean streaks, too many
+ * mean alternation, either way the outcomes are not independent.
+ */
+export const runsTest = (sequence: boolean[]): TRunsTestResult => {
+    const positives = sequence.filter(Boolean).length;
+    const negatives = sequence.length - positives;
+    const runs = sequence.reduce(
+        (count, value, index) => (index && value !== sequence[index - 1] ? count + 1 : count),
+        sequence.length ? 1 : 0
+    );
+
+    const total = positives + negatives;
+    const expected_runs = total ? (2 * positives * negatives) / total + 1 : 0;
+    const variance = total > 1 ? ((expected_runs - 1) * (expected_runs - 2)) / (total - 1) : 0;
+    if (variance <= 0) return { runs, expected_runs, z: 0, p_value: 1 };
+
+    const z = (runs - expected_runs) / Math.sqrt(variance);
+    return { runs, expected_runs, z, p_value: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) };
+};
+
+/**
+ * Binomial test of an observed rate against the rate expected by chance. Signals that
+ * picked the most extreme of several candidates, e.g. the hottest of ten digits, pass the
+ * number of candidates as `comparisons` so the p-value is Bonferroni corrected.
+ */
+export const getBinomialSignificance = (
+    successes: number,
+    trials: number,
+    probability: number,
+    comparisons = 1
+): TSignificance => {
+    const p_value = Math.min(1, binomialPValue(successes, trials, probability) * comparisons);
+    return {
+        test: 'binomial',
+        sample_size: trials,
+        statistic: trials ? successes / trials : 0,
+        p_value,
+        interval: wilsonInterval(successes, trials),
+        is_significant: trials > 0 && p_value < SIGNIFICANCE_LEVEL,
+    };
+};
+
+export const getUniformitySignificance = (digits: number[]): TSignificance => {
+    const counts = new Array(10).fill(0);
+    digits.forEach(digit => counts[digit]++);
+    const { statistic, p_value } = chiSquareUniformityTest(counts);
+    return {
+        test: 'chi_square',
+        sample_size: digits.length,
+        statistic,
+        p_value,
+        is_significant: digits.length > 0 && p_value < SIGNIFICANCE_LEVEL,
+    };
+};
+
+export const getRunsSignificance = (sequence: boolean[]): TSignificance => {
+    const { z, p_value } = runsTest(sequence);
+    return {
+        test: 'runs',
+        sample_size: sequence.length,
+        statistic: z,
+        p_value,
+        is_significant: sequence.length > 0 && p_value < SIGNIFICANCE_LEVEL,
+    };
+};
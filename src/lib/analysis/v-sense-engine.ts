@@ -1,3 +1,5 @@
+import { getBinomialSignificance, TSignificance } from './statistics';
+
 export interface VSenseSignal {
     market: string;
     strategy: 'DIFFERS' | 'EVEN_ODD' | 'OVER_UNDER';
@@ -8,6 +10,8 @@ export interface VSenseSignal {
     confidence: number;
     status: 'SAFE' | 'MODERATE' | 'AVOID';
     reasoning: string[];
+    // Tests the imbalance the signal reacts to, not the reversion it trades on.
+    significance: TSignificance;
 }
 
 export interface VSenseState {
@@ -88,6 +92,7 @@ export class VSenseEngine {
         if (targets.length === 0) return null;
 
         const target = targets[0];
+        const targetCount = state.digits.filter(d => d === target).length;
         const highestPowerIncreasing = state.momentum[state.ranking[0]] > 0;
         const leastPowerIncreasing = state.momentum[state.ranking[9]] > 0;
         const stretch = highestPowerIncreasing || leastPowerIncreasing;
@@ -110,7 +115,8 @@ export class VSenseEngine {
                 `Target digit ${target} shows distribution stretch`,
                 state.momentum[target] < 0 ? 'Power is decreasing as expected' : 'Power stabilizing',
                 stretch ? 'Market expansion confirmed' : 'Normal distribution'
-            ]
+            ],
+            significance: getBinomialSignificance(targetCount, state.digits.length, 0.1, 10)
         };
     }
 
@@ -149,7 +155,8 @@ export class VSenseEngine {
                 `${dominant} dominance detected (${(dominant === 'EVEN' ? evenPower : oddPower).toFixed(1)}%)`,
                 `Mean-reversion potential for ${sideToTrade}`,
                 appearsTwice ? `Frequency start for ${sideToTrade} detected` : 'Waiting for compression'
-            ]
+            ],
+            significance: getBinomialSignificance(dominant === 'EVEN' ? evens : total - evens, total, 0.5)
         };
     }
 
@@ -187,7 +194,8 @@ export class VSenseEngine {
                 `${dominant} range dominance (${(dominant === 'UNDER' ? underPower : overPower).toFixed(1)}%)`,
                 `${sideToTrade} suppression detected`,
                 appearsTwice ? `Reversion trigger active` : 'Waiting for range shift'
-            ]
+            ],
+            significance: getBinomialSignificance(dominant === 'UNDER' ? unders : total - unders, total, 0.5)
         };
     }
 }
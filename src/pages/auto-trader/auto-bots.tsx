@@ -1,12 +1,13 @@
 import React from 'react';
 import classNames from 'classnames';
 import { observer } from 'mobx-react-lite';
+import { getStakingPlanOptions, TStakingPlanId } from '@/external/bot-skeleton/services/staking-plans';
 import { useStore } from '@/hooks/useStore';
-import { Localize } from '@deriv-com/translations';
+import { Localize, localize } from '@deriv-com/translations';
 
 const AutoBots = observer(() => {
     const { auto_trader } = useStore();
-    const { bots, updateBotStatus } = auto_trader;
+    const { bots, setBotStakingPlan, updateBotStatus } = auto_trader;
 
     return (
         <div className='auto-bots'>
@@ -44,6 +45,20 @@ const AutoBots = observer(() => {
                             </div>
                         </div>
 
+                        <select
+                            className='bot-card__staking-plan'
+                            value={bot.staking_plan ?? ''}
+                            onChange={e => setBotStakingPlan(bot.id, (e.target.value || undefined) as TStakingPlanId)}
+                            disabled={bot.status !== 'Idle'}
+                        >
+                            <option value=''>{localize('Staking plan from bot settings')}</option>
+                            {getStakingPlanOptions().map(({ value, text }) => (
+                                <option key={value} value={value}>
+                                    {text}
+                                </option>
+                            ))}
+                        </select>
+
                         <div className='bot-card__controls'>
                             {bot.status === 'Idle' ? (
                                 <button className='btn-start' onClick={() => updateBotStatus(bot.id, 'Running')}>
@@ -1,4 +1,10 @@
 import { observer } from 'mobx-react-lite';
+import {
+    getStakingPlanOptions,
+    getStakingPlanParameterLabel,
+    STAKING_PLAN_PARAMETERS,
+    TStakingPlanId,
+} from '@/external/bot-skeleton/services/staking-plans';
 import { useStore } from '@/hooks/useStore';
 import { Localize } from '@deriv-com/translations';
 
@@ -13,12 +19,18 @@ const BotConfig = observer(() => {
         setStopLoss,
         martingale_multiplier,
         setMartingale,
+        staking_plan,
+        setStakingPlan,
+        staking_parameter,
+        setStakingParameter,
         total_profit,
         session_profit,
         clearBotStats,
     } = auto_trader;
 
     const is_positive = session_profit >= 0;
+    const plan_parameter = STAKING_PLAN_PARAMETERS[staking_plan];
+    const is_martingale_plan = plan_parameter?.key === 'multiplier';
 
     return (
         <div className='bot-config'>
@@ -86,16 +98,36 @@ const BotConfig = observer(() => {
                 </div>
                 <div className='config-item'>
                     <label>
-                        <Localize i18n_default_text='Martingale' />
+                        <Localize i18n_default_text='Staking plan' />
                     </label>
-                    <input
-                        type='number'
-                        value={martingale_multiplier}
-                        onChange={e => setMartingale(parseFloat(e.target.value) || 0)}
-                        min='1'
-                        step='0.1'
-                    />
+                    <select value={staking_plan} onChange={e => setStakingPlan(e.target.value as TStakingPlanId)}>
+                        {getStakingPlanOptions().map(({ value, text }) => (
+                            <option key={value} value={value}>
+                                {text}
+                            </option>
+                        ))}
+                    </select>
                 </div>
+                {plan_parameter && (
+                    <div className='config-item'>
+                        <label>{getStakingPlanParameterLabel(staking_plan)}</label>
+                        <input
+                            type='number'
+                            value={
+                                is_martingale_plan
+                                    ? martingale_multiplier
+                                    : (staking_parameter ?? plan_parameter.default_value)
+                            }
+                            onChange={e => {
+                                const value = parseFloat(e.target.value) || 0;
+                                if (is_martingale_plan) setMartingale(value);
+                                else setStakingParameter(value);
+                            }}
+                            min={plan_parameter.min}
+                            step='0.1'
+                        />
+                    </div>
+                )}
             </div>
         </div>
     );
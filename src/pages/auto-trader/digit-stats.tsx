@@ -1,71 +1,16 @@
 import { useEffect, useMemo } from 'react';
 import classNames from 'classnames';
 import { observer } from 'mobx-react-lite';
+import { MARKET_DATA_BUFFER_SIZE } from '@/external/bot-skeleton/services/market-data';
 import { useStore } from '@/hooks/useStore';
 import { Localize } from '@deriv-com/translations';
 
 const DigitStats = observer(() => {
-    const { smart_trading, app } = useStore();
-    const { digit_stats, stats_sample_size, setStatsSampleSize, updateDigitStats, symbol, last_digit } = smart_trading;
-    const { api_helpers_store } = app;
+    const { smart_trading } = useStore();
+    const { digit_stats, stats_sample_size, setStatsSampleSize, last_digit } = smart_trading;
 
-    useEffect(() => {
-        if (!api_helpers_store?.ticks_service || !symbol) return;
-
-        let is_mounted = true;
-        const { ticks_service } = api_helpers_store;
-        let listenerKey: string | null = null;
-
-        const monitorTicks = async () => {
-            try {
-                // Request enough ticks to cover the largest sample size
-                const callback = (ticks: { quote: string | number }[]) => {
-                    if (is_mounted && ticks && ticks.length > 0) {
-                        const latest = ticks[ticks.length - 1];
-                        // Convert quotes to digits - Access store ACTIVE SYMBOLS safely
-                        const active_symbols = smart_trading.active_symbols_data;
-                        const decimals = active_symbols && active_symbols[symbol]?.pip
-                            ? String(active_symbols[symbol].pip).split('.')[1]?.length || 2
-                            : 2;
-
-                        const digits = ticks.map(t => {
-                            let quote_val = t.quote;
-                            let quote_str: string;
-                            if (typeof quote_val === 'number') {
-                                quote_str = quote_val.toFixed(decimals);
-                            } else {
-                                quote_str = String(quote_val);
-                            }
-                            const digit = parseInt(quote_str[quote_str.length - 1]);
-                            return isNaN(digit) ? 0 : digit;
-                        });
-
-                        // Pass ALL digits to store
-                        updateDigitStats(digits, latest.quote);
-                    }
-                };
-
-                const key = await ticks_service.monitor({ symbol, callback });
-
-                if (is_mounted) {
-                    listenerKey = key;
-                } else {
-                    ticks_service.stopMonitor({ symbol, key });
-                }
-            } catch (error) {
-                console.error(`Error monitoring ticks for ${symbol}:`, error);
-            }
-        };
-
-        monitorTicks();
-
-        return () => {
-            is_mounted = false;
-            if (listenerKey) {
-                ticks_service.stopMonitor({ symbol, key: listenerKey });
-            }
-        };
-    }, [stats_sample_size, updateDigitStats, api_helpers_store?.ticks_service, symbol]);
+    // The sample size only picks how many of the ticks the stats read, all buffered ones are fed.
+    useEffect(() => smart_trading.watchTicks(MARKET_DATA_BUFFER_SIZE), [smart_trading]);
 
     // ... (rest of logic) ...
 
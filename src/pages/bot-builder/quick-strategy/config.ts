@@ -2,8 +2,12 @@ import { config as qs_config } from '@/external/bot-skeleton';
 import { localize } from '@deriv-com/translations';
 import {
     D_ALEMBERT,
+    FIBONACCI,
+    KELLY,
+    LABOUCHERE,
     MARTINGALE,
     OSCARS_GRIND,
+    PERCENT_OF_BALANCE,
     REVERSE_D_ALEMBERT,
     REVERSE_MARTINGALE,
     STRATEGY_1_3_2_6,
@@ -296,6 +300,95 @@ const LAST_DIGIT_PREDICTION = (): TConfigItem => ({
     hide_without_should_have: true,
 });
 
+const LABEL_SEQUENCE_LENGTH = (): TConfigItem => ({
+    type: 'label',
+    label: localize('Sequence length'),
+    description: localize(
+        'Length of the starting line of numbers. A length of 4 starts with 1, 2, 3, 4 units of the initial stake.'
+    ),
+});
+
+const SEQUENCE_LENGTH = (): TConfigItem => ({
+    type: 'number',
+    name: 'sequence_length',
+    validation: [
+        'number',
+        'required',
+        'floor',
+        NUMBER_DEFAULT_VALIDATION(),
+        {
+            type: 'max',
+            value: 10,
+            getMessage: (max: string | number) => localize('Maximum sequence length allowed is {{ max }}', { max }),
+        },
+    ],
+});
+
+const LABEL_KELLY_FRACTION = (): TConfigItem => ({
+    type: 'label',
+    label: localize('Kelly fraction'),
+    description: localize(
+        'The share of the full Kelly stake used for each trade. The win rate and payout are estimated from the trades of the current run.'
+    ),
+});
+
+const KELLY_FRACTION = (): TConfigItem => ({
+    type: 'number',
+    name: 'kelly_fraction',
+    validation: [
+        'number',
+        'required',
+        {
+            type: 'min',
+            value: 0.01,
+            getMessage: (min: string | number) =>
+                localize('The value must be equal or greater than {{ min }}', { min }),
+        },
+        {
+            type: 'max',
+            value: 1,
+            getMessage: (max: string | number) => localize('The value must be equal or less than {{ max }}', { max }),
+        },
+    ],
+});
+
+const LABEL_BALANCE_PERCENTAGE = (): TConfigItem => ({
+    type: 'label',
+    label: localize('Balance percentage'),
+    description: localize(
+        'The share of your account balance staked on every trade. The initial stake is used when this amount is smaller.'
+    ),
+});
+
+const BALANCE_PERCENTAGE = (): TConfigItem => ({
+    type: 'number',
+    name: 'balance_percentage',
+    validation: [
+        'number',
+        'required',
+        {
+            type: 'min',
+            value: 0.01,
+            getMessage: (min: string | number) =>
+                localize('The value must be equal or greater than {{ min }}', { min }),
+        },
+        {
+            type: 'max',
+            value: 100,
+            getMessage: (max: string | number) => localize('The value must be equal or less than {{ max }}', { max }),
+        },
+    ],
+});
+
+// Form fields holding the parameter of each staking plan, see STAKING_PLAN_PARAMETERS.
+export const STAKING_PLAN_FORM_FIELDS: Record<string, string> = {
+    multiplier: 'size',
+    unit: 'unit',
+    sequence_length: 'sequence_length',
+    fraction: 'kelly_fraction',
+    percentage: 'balance_percentage',
+};
+
 export const STRATEGIES = (): TStrategies => ({
     MARTINGALE: {
         name: 'martingale_max-stake',
@@ -477,6 +570,129 @@ export const STRATEGIES = (): TStrategies => ({
             [LABEL_PROFIT(), PROFIT(), LABEL_LOSS(), LOSS()],
         ],
     },
+    FIBONACCI: {
+        name: 'staking_plan',
+        label: localize('Fibonacci'),
+        staking_plan: 'fibonacci',
+        description: FIBONACCI(),
+        fields: [
+            [
+                LABEL_SYMBOL(),
+                SYMBOL(),
+                LABEL_TRADETYPE(),
+                TRADETYPE(),
+                LABEL_PURCHASE_TYPE(),
+                PURCHASE_TYPE(),
+                LABEL_LAST_DIGIT_PREDICTION(),
+                LAST_DIGIT_PREDICTION(),
+                LABEL_STAKE(),
+                STAKE(),
+                LABEL_DURATION(),
+                DURATION_TYPE(),
+                DURATION(),
+            ],
+            [LABEL_PROFIT(), PROFIT(), LABEL_LOSS(), LOSS(), CHECKBOX_MAX_STAKE(), MAX_STAKE()],
+        ],
+    },
+    LABOUCHERE: {
+        name: 'staking_plan',
+        label: localize('Labouchère'),
+        staking_plan: 'labouchere',
+        description: LABOUCHERE(),
+        fields: [
+            [
+                LABEL_SYMBOL(),
+                SYMBOL(),
+                LABEL_TRADETYPE(),
+                TRADETYPE(),
+                LABEL_PURCHASE_TYPE(),
+                PURCHASE_TYPE(),
+                LABEL_LAST_DIGIT_PREDICTION(),
+                LAST_DIGIT_PREDICTION(),
+                LABEL_STAKE(),
+                STAKE(),
+                LABEL_DURATION(),
+                DURATION_TYPE(),
+                DURATION(),
+            ],
+            [
+                LABEL_PROFIT(),
+                PROFIT(),
+                LABEL_LOSS(),
+                LOSS(),
+                LABEL_SEQUENCE_LENGTH(),
+                SEQUENCE_LENGTH(),
+                CHECKBOX_MAX_STAKE(),
+                MAX_STAKE(),
+            ],
+        ],
+    },
+    KELLY: {
+        name: 'staking_plan',
+        label: localize('Kelly fraction'),
+        staking_plan: 'kelly',
+        description: KELLY(),
+        fields: [
+            [
+                LABEL_SYMBOL(),
+                SYMBOL(),
+                LABEL_TRADETYPE(),
+                TRADETYPE(),
+                LABEL_PURCHASE_TYPE(),
+                PURCHASE_TYPE(),
+                LABEL_LAST_DIGIT_PREDICTION(),
+                LAST_DIGIT_PREDICTION(),
+                LABEL_STAKE(),
+                STAKE(),
+                LABEL_DURATION(),
+                DURATION_TYPE(),
+                DURATION(),
+            ],
+            [
+                LABEL_PROFIT(),
+                PROFIT(),
+                LABEL_LOSS(),
+                LOSS(),
+                LABEL_KELLY_FRACTION(),
+                KELLY_FRACTION(),
+                CHECKBOX_MAX_STAKE(),
+                MAX_STAKE(),
+            ],
+        ],
+    },
+    PERCENT_OF_BALANCE: {
+        name: 'staking_plan',
+        label: localize('Percentage of balance'),
+        staking_plan: 'percent_of_balance',
+        description: PERCENT_OF_BALANCE(),
+        fields: [
+            [
+                LABEL_SYMBOL(),
+                SYMBOL(),
+                LABEL_TRADETYPE(),
+                TRADETYPE(),
+                LABEL_PURCHASE_TYPE(),
+                PURCHASE_TYPE(),
+                LABEL_LAST_DIGIT_PREDICTION(),
+                LAST_DIGIT_PREDICTION(),
+                LABEL_STAKE(),
+                STAKE(),
+                LABEL_DURATION(),
+                DURATION_TYPE(),
+                DURATION(),
+            ],
+            [
+                LABEL_PROFIT(),
+                PROFIT(),
+                LABEL_LOSS(),
+                LOSS(),
+                LABEL_BALANCE_PERCENTAGE(),
+                BALANCE_PERCENTAGE(),
+                CHECKBOX_MAX_STAKE(),
+                MAX_STAKE(),
+            ],
+        ],
+    },
     ACCUMULATORS_MARTINGALE: {
         name: 'accumulators_martingale',
         label: localize('Martingale'),
@@ -67,6 +67,30 @@ export const STRATEGY_TRADE_ASSOCIATIONS: TStrategyTradeAssociations = [
         id: 5,
         parent: [localize('Options')],
     },
+    {
+        name: 'FIBONACCI',
+        display_name: STRATEGIES().FIBONACCI.label,
+        id: 14,
+        parent: [localize('Options')],
+    },
+    {
+        name: 'LABOUCHERE',
+        display_name: STRATEGIES().LABOUCHERE.label,
+        id: 15,
+        parent: [localize('Options')],
+    },
+    {
+        name: 'KELLY',
+        display_name: STRATEGIES().KELLY.label,
+        id: 16,
+        parent: [localize('Options')],
+    },
+    {
+        name: 'PERCENT_OF_BALANCE',
+        display_name: STRATEGIES().PERCENT_OF_BALANCE.label,
+        id: 17,
+        parent: [localize('Options')],
+    },
     {
         name: 'ACCUMULATORS_MARTINGALE',
         display_name: STRATEGIES().ACCUMULATORS_MARTINGALE.label,
@@ -84,6 +84,9 @@ const FormikWrapper: React.FC<TFormikWrapper> = observer(({ children }) => {
             boolean_tick_count: data?.boolean_tick_count ?? false,
             max_payout: data?.max_payout ?? 0,
             max_ticks: data?.max_ticks ?? 0,
+            sequence_length: data?.sequence_length ?? 4,
+            kelly_fraction: data?.kelly_fraction ?? 0.5,
+            balance_percentage: data?.balance_percentage ?? 1,
         };
         return initial_value;
     };
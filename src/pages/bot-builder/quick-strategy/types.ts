@@ -1,4 +1,5 @@
 import { ReactNode } from 'react';
+import { TStakingPlanId } from '@/external/bot-skeleton/services/staking-plans/staking-plans';
 
 export type TDurationItemRaw = {
     display: string;
@@ -71,6 +72,8 @@ export type TStrategy = {
     description: TDescriptionItem[];
     fields: TConfigItem[][];
     rs_strategy_name?: TRsStrategyName;
+    /** Strategies built on the `staking_plan` template size their stakes with this plan. */
+    staking_plan?: TStakingPlanId;
 };
 
 export type TStrategies = {
@@ -5,13 +5,20 @@ import {
     LabelPairedArrowRotateLeftMdRegularIcon,
     LabelPairedArrowRotateRightMdRegularIcon,
     LabelPairedArrowsRotateMdRegularIcon,
+    LabelPairedBellMdRegularIcon,
+    LabelPairedChartAreaMdRegularIcon,
     LabelPairedChartLineMdRegularIcon,
     LabelPairedChartTradingviewMdRegularIcon,
+    LabelPairedClockThreeMdRegularIcon,
+    LabelPairedFileCheckMdRegularIcon,
     LabelPairedFloppyDiskMdRegularIcon,
     LabelPairedFolderOpenMdRegularIcon,
     LabelPairedMagnifyingGlassMinusMdRegularIcon,
     LabelPairedMagnifyingGlassPlusMdRegularIcon,
     LabelPairedObjectsAlignLeftMdRegularIcon,
+    LabelPairedPlaybackSpeedMdRegularIcon,
+    LabelPairedShieldCheckMdRegularIcon,
+    LabelPairedWalletMdRegularIcon,
 } from '@deriv/quill-icons/LabelPaired';
 import { localize } from '@deriv-com/translations';
 import { useDevice } from '@deriv-com/ui';
@@ -19,11 +26,30 @@ import { rudderStackSendOpenEvent } from '../../../analytics/rudderstack-common-
 import ToolbarIcon from './toolbar-icon';
 
 const WorkspaceGroup = observer(() => {
-    const { dashboard, toolbar, load_modal, save_modal } = useStore();
+    const {
+        backtest,
+        bot_linter,
+        dashboard,
+        notifications,
+        paper_trading,
+        risk,
+        strategy_history,
+        tick_history,
+        toolbar,
+        load_modal,
+        save_modal,
+    } = useStore();
     const { setPreviewOnPopup, setChartModalVisibility, setTradingViewModalVisibility } = dashboard;
     const { has_redo_stack, has_undo_stack, onResetClick, onSortClick, onUndoClick, onZoomInOutClick } = toolbar;
     const { toggleSaveModal } = save_modal;
     const { toggleLoadModal } = load_modal;
+    const { toggleModal: toggleBacktestModal } = backtest;
+    const { toggleModal: toggleTickHistoryModal } = tick_history;
+    const { toggleModal: toggleStrategyHistoryModal } = strategy_history;
+    const { error_count: lint_error_count, togglePanel: toggleBotLinterPanel } = bot_linter;
+    const { toggleModal: toggleRiskModal } = risk;
+    const { toggleModal: toggleNotificationsModal } = notifications;
+    const { is_enabled: is_paper_trading, toggleModal: togglePaperTradingModal } = paper_trading;
     const { isDesktop } = useDevice();
 
     return (
@@ -77,6 +103,19 @@ const WorkspaceGroup = observer(() => {
                         </span>
                     }
                 />
+                <ToolbarIcon
+                    popover_message={localize('Version history')}
+                    icon={
+                        <span
+                            className='toolbar__icon'
+                            id='db-toolbar__version-history-button'
+                            data-testid='dt_toolbar_version_history_button'
+                            onClick={toggleStrategyHistoryModal}
+                        >
+                            <LabelPairedClockThreeMdRegularIcon />
+                        </span>
+                    }
+                />
                 <ToolbarIcon
                     popover_message={localize('Sort blocks')}
                     icon={
@@ -90,6 +129,84 @@ const WorkspaceGroup = observer(() => {
                         </span>
                     }
                 />
+                <ToolbarIcon
+                    popover_message={localize('Check bot')}
+                    icon={
+                        <span
+                            className={classNames('toolbar__icon', { 'toolbar__icon--active': lint_error_count > 0 })}
+                            id='db-toolbar__bot-check-button'
+                            data-testid='dt_toolbar_bot_check_button'
+                            onClick={toggleBotLinterPanel}
+                        >
+                            <LabelPairedFileCheckMdRegularIcon />
+                        </span>
+                    }
+                />
+                <ToolbarIcon
+                    popover_message={localize('Backtest')}
+                    icon={
+                        <span
+                            className='toolbar__icon'
+                            id='db-toolbar__backtest-button'
+                            data-testid='dt_toolbar_backtest_button'
+                            onClick={toggleBacktestModal}
+                        >
+                            <LabelPairedPlaybackSpeedMdRegularIcon />
+                        </span>
+                    }
+                />
+                <ToolbarIcon
+                    popover_message={localize('Recorded ticks')}
+                    icon={
+                        <span
+                            className='toolbar__icon'
+                            id='db-toolbar__tick-history-button'
+                            data-testid='dt_toolbar_tick_history_button'
+                            onClick={toggleTickHistoryModal}
+                        >
+                            <LabelPairedChartAreaMdRegularIcon />
+                        </span>
+                    }
+                />
+                <ToolbarIcon
+                    popover_message={localize('Risk manager')}
+                    icon={
+                        <span
+                            className='toolbar__icon'
+                            id='db-toolbar__risk-manager-button'
+                            data-testid='dt_toolbar_risk_manager_button'
+                            onClick={toggleRiskModal}
+                        >
+                            <LabelPairedShieldCheckMdRegularIcon />
+                        </span>
+                    }
+                />
+                <ToolbarIcon
+                    popover_message={localize('Notification channels')}
+                    icon={
+                        <span
+                            className='toolbar__icon'
+                            id='db-toolbar__notifications-button'
+                            data-testid='dt_toolbar_notifications_button'
+                            onClick={toggleNotificationsModal}
+                        >
+                            <LabelPairedBellMdRegularIcon />
+                        </span>
+                    }
+                />
+                <ToolbarIcon
+                    popover_message={is_paper_trading ? localize('Paper trading is on') : localize('Paper trading')}
+                    icon={
+                        <span
+                            className={classNames('toolbar__icon', { 'toolbar__icon--active': is_paper_trading })}
+                            id='db-toolbar__paper-trading-button'
+                            data-testid='dt_toolbar_paper_trading_button'
+                            onClick={togglePaperTradingModal}
+                        >
+                            <LabelPairedWalletMdRegularIcon />
+                        </span>
+                    }
+                />
                 {isDesktop && (
                     <>
                         <div className='vertical-divider' />
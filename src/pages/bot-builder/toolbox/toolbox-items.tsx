@@ -382,6 +382,426 @@ export const ToolboxItems = () => {
                             </Block>
                         </Statement>
                     </Block>
+                    <Block type='stoch_statement'>
+                        <Field name='STOCHRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='signal_period' deletable='false' movable='false'>
+                                                <Value name='SIGNAL_PERIOD'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>3</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='stocha_statement'>
+                        <Field name='STOCHRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='signal_period' deletable='false' movable='false'>
+                                                <Value name='SIGNAL_PERIOD'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>3</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='atr_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='atra_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='adx_statement'>
+                        <Field name='ADXRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='adxa_statement'>
+                        <Field name='ADXRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='cci_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='ccia_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='willr_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='willra_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='psar_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='acceleration_step' deletable='false' movable='false'>
+                                        <Value name='ACCELERATION_STEP'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>0.02</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='acceleration_max' deletable='false' movable='false'>
+                                                <Value name='ACCELERATION_MAX'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>0.2</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='psara_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='acceleration_step' deletable='false' movable='false'>
+                                        <Value name='ACCELERATION_STEP'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>0.02</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='acceleration_max' deletable='false' movable='false'>
+                                                <Value name='ACCELERATION_MAX'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>0.2</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='ichimoku_statement'>
+                        <Field name='ICHIMOKURESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='conversion_period' deletable='false' movable='false'>
+                                        <Value name='CONVERSION_PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>9</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='base_period' deletable='false' movable='false'>
+                                                <Value name='BASE_PERIOD'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>26</Field>
+                                                    </Shadow>
+                                                </Value>
+                                                <Next>
+                                                    <Block type='span_period' deletable='false' movable='false'>
+                                                        <Value name='SPAN_PERIOD'>
+                                                            <Shadow type='math_number'>
+                                                                <Field name='NUM'>52</Field>
+                                                            </Shadow>
+                                                        </Value>
+                                                    </Block>
+                                                </Next>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='ichimokua_statement'>
+                        <Field name='ICHIMOKURESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='conversion_period' deletable='false' movable='false'>
+                                        <Value name='CONVERSION_PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>9</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='base_period' deletable='false' movable='false'>
+                                                <Value name='BASE_PERIOD'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>26</Field>
+                                                    </Shadow>
+                                                </Value>
+                                                <Next>
+                                                    <Block type='span_period' deletable='false' movable='false'>
+                                                        <Value name='SPAN_PERIOD'>
+                                                            <Shadow type='math_number'>
+                                                                <Field name='NUM'>52</Field>
+                                                            </Shadow>
+                                                        </Value>
+                                                    </Block>
+                                                </Next>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='vwap_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='vwapa_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='kc_statement'>
+                        <Field name='CHANNELRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='channel_multiplier' deletable='false' movable='false'>
+                                                <Value name='CHANNEL_MULTIPLIER'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>2</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='kca_statement'>
+                        <Field name='CHANNELRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='channel_multiplier' deletable='false' movable='false'>
+                                                <Value name='CHANNEL_MULTIPLIER'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>2</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='dc_statement'>
+                        <Field name='CHANNELRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='dca_statement'>
+                        <Field name='CHANNELRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
                 </Category>
 
                 <Category name={localize('Tick and candle analysis')} id='tick_analysis'>
@@ -392,8 +812,66 @@ export const ToolboxItems = () => {
                     <Block type='stat_list' />
                     <Block type='ticks' />
                     <Block type='lastDigitList' />
+                    <Block type='digit_frequency'>
+                        <Value name='DIGIT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>0</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='TICKS'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='frequent_digit'>
+                        <Value name='TICKS'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='parity_percentage'>
+                        <Value name='TICKS'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='over_under_percentage'>
+                        <Value name='BARRIER'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>4</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='TICKS'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='parity_streak' />
+                    <Block type='digit_unseen'>
+                        <Value name='DIGIT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>0</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='TICKS'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
                     <Block type='check_direction' />
                     <Block type='is_candle_black' />
+                    <Block type='candle_pattern'>
+                        <Field name='CANDLEPATTERN_LIST'>bullish_engulfing</Field>
+                        <Field name='CANDLEINTERVAL_LIST'>default</Field>
+                    </Block>
+                    <Block type='candle_patterns_list'>
+                        <Field name='CANDLEINTERVAL_LIST'>default</Field>
+                    </Block>
                     <Block type='read_ohlc'>
                         <Field name='OHLCFIELD_LIST'>open</Field>
                         <Field name='CANDLEINTERVAL_LIST'>default</Field>
@@ -431,6 +909,28 @@ export const ToolboxItems = () => {
                     <Block type='total_profit' />
                     <Block type='total_runs' />
                 </Category>
+
+                <Category name={localize('Staking plan')} id='staking_plan'>
+                    <Block type='staking_plan_setup'>
+                        <Field name='STAKINGPLAN_LIST'>martingale</Field>
+                        <Value name='INITIAL_STAKE'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>1</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='PARAMETER'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>2</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='MAX_STAKE'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>0</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='staking_plan_stake' />
+                </Category>
             </Category>
 
             <Category id='utility' name={localize('Utility')}>
@@ -462,6 +962,18 @@ export const ToolboxItems = () => {
                             </Shadow>
                         </Value>
                     </Block>
+                    <Block type='notify_channels'>
+                        <Value name='MESSAGE'>
+                            <Shadow type='text'>
+                                <Field name='TEXT'>abc</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='CHANNEL_NAME'>
+                            <Shadow type='text'>
+                                <Field name='TEXT' />
+                            </Shadow>
+                        </Value>
+                    </Block>
                     <Block type='notify_telegram'>
                         <Value name='TELEGRAM_ACCESS_TOKEN'>
                             <Shadow type='text'>
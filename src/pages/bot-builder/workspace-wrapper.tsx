@@ -1,5 +1,6 @@
 import React from 'react';
 import { observer } from 'mobx-react-lite';
+import BotLinterPanel from '@/components/bot-linter-panel';
 import Flyout from '@/components/flyout';
 import { useStore } from '@/hooks/useStore';
 import StopBotModal from '../dashboard/stop-bot-modal';
@@ -27,6 +28,7 @@ const WorkspaceWrapper = observer(() => {
                 <Toolbar />
                 <Flyout />
                 <StopBotModal />
+                <BotLinterPanel />
             </React.Fragment>
         );
 
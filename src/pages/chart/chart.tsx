@@ -11,8 +11,10 @@ import {
     TradingTimesRequest,
 } from '@deriv/api-types';
 import { ChartTitle, SmartChart } from '@deriv/deriv-charts';
+import { Localize } from '@deriv-com/translations';
 import { useDevice } from '@deriv-com/ui';
 import ToolbarWidgets from './toolbar-widgets';
+import { SessionProfitPanel, TradeMarker } from './trade-markers';
 import '@deriv/deriv-charts/dist/smartcharts.css';
 
 type TSubscription = {
@@ -31,12 +33,12 @@ type TError = null | {
 const subscriptions: TSubscription = {};
 
 const Chart = observer(({ show_digits_stats }: { show_digits_stats: boolean }) => {
-    const barriers: [] = [];
-    const { common, ui } = useStore();
+    const { client, common, ui } = useStore();
     const { chart_store, run_panel, dashboard } = useStore();
     const [isSafari, setIsSafari] = useState(false);
 
     const {
+        barriers,
         chart_type,
         getMarketsOrder,
         granularity,
@@ -48,6 +50,10 @@ const Chart = observer(({ show_digits_stats }: { show_digits_stats: boolean }) =
         updateSymbol,
         setChartSubscriptionId,
         chart_subscription_id,
+        is_profit_panel_visible,
+        session_profit,
+        toggleProfitPanel,
+        trade_markers,
     } = chart_store;
     const chartSubscriptionIdRef = useRef(chart_subscription_id);
     const { isDesktop, isMobile } = useDevice();
@@ -152,7 +158,23 @@ const Chart = observer(({ show_digits_stats }: { show_digits_stats: boolean }) =
                 getMarketsOrder={getMarketsOrder}
                 isLive
                 leftMargin={80}
-            />
+            >
+                {trade_markers.map(marker => (
+                    <TradeMarker {...marker} key={marker.key} />
+                ))}
+                {is_profit_panel_visible && (
+                    <SessionProfitPanel currency={client.currency || 'USD'} points={session_profit} />
+                )}
+            </SmartChart>
+            <button
+                className={classNames('bot-chart-profit__toggle', {
+                    'bot-chart-profit__toggle--active': is_profit_panel_visible,
+                })}
+                onClick={toggleProfitPanel}
+                type='button'
+            >
+                <Localize i18n_default_text='Session P/L' />
+            </button>
         </div>
     );
 });
@@ -0,0 +1,5 @@
+import SessionProfitPanel from './session-profit-panel';
+import TradeMarker from './trade-marker';
+import './trade-markers.scss';
+
+export { SessionProfitPanel, TradeMarker };
@@ -0,0 +1,107 @@
+import { memo } from 'react';
+import classNames from 'classnames';
+import { formatMoney } from '@/components/shared';
+import { TProfitPoint } from '@/external/bot-skeleton/services/chart-markers';
+import { FastMarker } from '@deriv/deriv-charts';
+import { Localize } from '@deriv-com/translations';
+import { TMarkerRef } from './trade-marker';
+
+// Height of the panel in percent of the chart, the points are laid out within it.
+const PANEL_HEIGHT = 20;
+
+type TSessionProfitPanelProps = {
+    currency: string;
+    points: TProfitPoint[];
+};
+
+type TProfitBarProps = TProfitPoint & {
+    currency: string;
+    getOffset: (total_profit: number) => number;
+};
+
+/**
+ * The profit of the session after the contract, drawn as a bar from the zero line at the epoch the
+ * contract was settled, so it moves with the price series when the chart is scrolled or zoomed.
+ */
+const ProfitBar = ({ epoch, profit, total_profit, currency, getOffset }: TProfitBarProps) => {
+    const onRef = (ref: TMarkerRef | null) => {
+        if (ref) {
+            // Without a price the marker sits at the top of the chart, so it is stretched to its bottom.
+            ref.div.style.height = '100%';
+            ref.setPosition({ epoch, price: null });
+        }
+    };
+    const zero_offset = getOffset(0);
+    const offset = getOffset(total_profit);
+
+    return (
+        <FastMarker
+            markerRef={onRef}
+            className={classNames('bot-chart-profit__point', {
+                'bot-chart-profit__point--won': total_profit > 0,
+                'bot-chart-profit__point--lost': total_profit < 0,
+            })}
+        >
+            <span
+                className='bot-chart-profit__bar'
+                style={{
+                    bottom: `calc(var(--profit-panel-bottom) + ${Math.min(offset, zero_offset)}%)`,
+                    height: `${Math.abs(offset - zero_offset)}%`,
+                }}
+            />
+            <span
+                className='bot-chart-profit__dot'
+                style={{ bottom: `calc(var(--profit-panel-bottom) + ${offset}%)` }}
+                data-testid='dt_bot_chart_profit_point'
+            >
+                <span className='bot-chart-profit__tooltip'>
+                    <Localize
+                        i18n_default_text='Contract: {{profit}}'
+                        values={{ profit: formatMoney(currency, profit) }}
+                    />
+                    <br />
+                    <Localize
+                        i18n_default_text='Session: {{total_profit}}'
+                        values={{ total_profit: formatMoney(currency, total_profit) }}
+                    />
+                </span>
+            </span>
+        </FastMarker>
+    );
+};
+
+/** Session profit after each settled contract, in a band along the bottom of the chart. */
+const SessionProfitPanel = ({ currency, points }: TSessionProfitPanelProps) => {
+    const totals = [0, ...points.map(({ total_profit }) => total_profit)];
+    const min = Math.min(...totals);
+    const span = Math.max(...totals) - min || 1;
+    const getOffset = (total_profit: number) => ((total_profit - min) / span) * PANEL_HEIGHT;
+    const total_profit = totals[totals.length - 1];
+
+    return (
+        <>
+            <div className='bot-chart-profit' style={{ height: `${PANEL_HEIGHT}%` }}>
+                <span className='bot-chart-profit__title'>
+                    <Localize i18n_default_text='Session P/L' />
+                    <span
+                        className={classNames({
+                            'bot-chart-profit__total--won': total_profit > 0,
+                            'bot-chart-profit__total--lost': total_profit < 0,
+                        })}
+                    >
+                        {formatMoney(currency, total_profit)}
+                    </span>
+                </span>
+                <span
+                    className='bot-chart-profit__zero'
+                    style={{ bottom: `${(getOffset(0) / PANEL_HEIGHT) * 100}%` }}
+                />
+            </div>
+            {points.map(point => (
+                <ProfitBar {...point} key={point.key} currency={currency} getOffset={getOffset} />
+            ))}
+        </>
+    );
+};
+
+export default memo(SessionProfitPanel);
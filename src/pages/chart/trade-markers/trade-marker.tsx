@@ -0,0 +1,54 @@
+import { memo } from 'react';
+import classNames from 'classnames';
+import { formatMoney } from '@/components/shared';
+import { TTradeMarker } from '@/external/bot-skeleton/services/chart-markers';
+import { FastMarker } from '@deriv/deriv-charts';
+import { Localize } from '@deriv-com/translations';
+
+export type TMarkerRef = {
+    div: HTMLDivElement;
+    setPosition: (position: { epoch: number | null; price: number | null }) => void;
+};
+
+/** A contract's entry or exit spot, with its stake and profit shown on hover. */
+const TradeMarker = ({ type, epoch, price, contract_type, currency, buy_price, profit }: TTradeMarker) => {
+    const onRef = (ref: TMarkerRef | null) => {
+        if (ref) {
+            ref.div.style.zIndex = '1';
+            ref.setPosition({ epoch, price });
+        }
+    };
+
+    return (
+        <FastMarker
+            markerRef={onRef}
+            className={classNames('bot-chart-marker', `bot-chart-marker--${type}`, {
+                'bot-chart-marker--won': profit !== null && profit > 0,
+                'bot-chart-marker--lost': profit !== null && profit <= 0,
+            })}
+        >
+            <span className='bot-chart-marker__spot' data-testid='dt_bot_chart_marker' />
+            <div className='bot-chart-marker__tooltip'>
+                <strong>{contract_type}</strong>
+                <span>
+                    <Localize
+                        i18n_default_text='Stake: {{stake}}'
+                        values={{ stake: formatMoney(currency, buy_price) }}
+                    />
+                </span>
+                <span>
+                    {profit === null ? (
+                        <Localize i18n_default_text='Profit/loss: open' />
+                    ) : (
+                        <Localize
+                            i18n_default_text='Profit/loss: {{profit}}'
+                            values={{ profit: formatMoney(currency, profit) }}
+                        />
+                    )}
+                </span>
+            </div>
+        </FastMarker>
+    );
+};
+
+export default memo(TradeMarker);
@@ -5,7 +5,7 @@ import { AnalysisSection, DigitCircles } from './components';
 import './circles-analysis.scss';
 
 const CirclesAnalysis = observer(() => {
-    const { analysis, app } = useStore();
+    const { analysis, market_data } = useStore();
     const {
         current_price,
         symbol,
@@ -25,37 +25,11 @@ const CirclesAnalysis = observer(() => {
         updateDigitStats,
     } = analysis;
 
-    const ticks_service = app.api_helpers_store?.ticks_service;
-
-    useEffect(() => {
-        if (!ticks_service || !symbol) return;
-
-        let is_mounted = true;
-        let listenerKey: string | null = null;
-
-        const monitorTicks = async () => {
-            const callback = (ticks: { quote: string | number }[]) => {
-                if (is_mounted && ticks && ticks.length > 0) {
-                    const latest = ticks[ticks.length - 1];
-                    const last_digits = ticks.slice(-total_ticks).map(t => {
-                        const quote_str = String(t.quote || '0');
-                        const digit = parseInt(quote_str[quote_str.length - 1]);
-                        return isNaN(digit) ? 0 : digit;
-                    });
-                    updateDigitStats(last_digits, latest.quote);
-                }
-            };
-
-            listenerKey = await ticks_service.monitor({ symbol, callback });
-        };
-
-        monitorTicks();
-
-        return () => {
-            is_mounted = false;
-            if (listenerKey) ticks_service.stopMonitor({ symbol, key: listenerKey });
-        };
-    }, [symbol, ticks_service, updateDigitStats, total_ticks]);
+    useEffect(
+        () =>
+            market_data.subscribe(symbol, ({ digits, quote }) => updateDigitStats(digits.slice(-total_ticks), quote)),
+        [market_data, symbol, updateDigitStats, total_ticks]
+    );
 
     return (
         <div className='circles-analysis-container'>
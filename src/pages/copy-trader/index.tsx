@@ -1,5 +1,7 @@
 import { observer } from 'mobx-react-lite';
 import { useStore } from '@/hooks/useStore';
+import ReconciliationTable from './reconciliation-table';
+import TargetRules from './target-rules';
 import './copy-trader.scss';
 
 const CopyTrading = observer(() => {
@@ -8,11 +10,9 @@ const CopyTrading = observer(() => {
         source_account,
         target_accounts,
         is_mirroring_internal,
-        internal_multiplier,
         setSourceToken,
         setTargetToken,
         toggleInternalMirroring,
-        setInternalMultiplier,
     } = copy_trader;
 
     return (
@@ -31,19 +31,6 @@ const CopyTrading = observer(() => {
                         <p>Automatically mirror trades from your active demo session to all target accounts.</p>
                     </div>
                     <div className='mirror-controls'>
-                        {is_mirroring_internal && (
-                            <div className='multiplier-group'>
-                                <label>Stake Multiplier</label>
-                                <input
-                                    type='number'
-                                    step='0.1'
-                                    min='0.1'
-                                    value={internal_multiplier}
-                                    onChange={e => setInternalMultiplier(parseFloat(e.target.value) || 1)}
-                                />
-                                <span className='multiplier-hint'>x</span>
-                            </div>
-                        )}
                         <button
                             className={`toggle-btn ${is_mirroring_internal ? 'on' : 'off'}`}
                             onClick={toggleInternalMirroring}
@@ -146,6 +133,7 @@ const CopyTrading = observer(() => {
                                         <span className='value'>{account.trades_count || 0}</span>
                                     </div>
                                 </div>
+                                <TargetRules account={account} index={index} />
                             </div>
                         </div>
                     ))}
@@ -174,38 +162,7 @@ const CopyTrading = observer(() => {
                 </div>
             </div>
 
-            <div className='copy-trader__monitoring'>
-                <div className='monitoring-header'>
-                    <h3>Trade Reflection Stream</h3>
-                    <div className='live-indicator'>
-                        <span className='dot'></span> LIVE
-                    </div>
-                </div>
-                <div className='table-container'>
-                    <table className='copy-table'>
-                        <thead>
-                            <tr>
-                                <th>Market</th>
-                                <th>Reference</th>
-                                <th>Status</th>
-                                <th>Stake</th>
-                                <th>Result</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            <tr>
-                                <td colSpan={5} className='no-data'>
-                                    <div className='empty-state'>
-                                        <div className='empty-icon'>📊</div>
-                                        <p>No active mirror streams detected.</p>
-                                        <span>Start trading or enable internal mirroring to see results.</span>
-                                    </div>
-                                </td>
-                            </tr>
-                        </tbody>
-                    </table>
-                </div>
-            </div>
+            <ReconciliationTable />
         </div>
     );
 });
@@ -0,0 +1,107 @@
+import { observer } from 'mobx-react-lite';
+import { summariseReplications } from '@/external/bot-skeleton/services/copy-trading';
+import { useStore } from '@/hooks/useStore';
+
+const ReconciliationTable = observer(() => {
+    const { copy_trader } = useStore();
+    const { replications, clearReplications } = copy_trader;
+    const summaries = summariseReplications(replications);
+
+    return (
+        <div className='copy-trader__monitoring'>
+            <div className='monitoring-header'>
+                <h3>Trade Reconciliation</h3>
+                <div className='monitoring-actions'>
+                    {!!replications.length && (
+                        <button className='clear-btn' onClick={clearReplications}>
+                            Clear
+                        </button>
+                    )}
+                    <div className='live-indicator'>
+                        <span className='dot'></span> LIVE
+                    </div>
+                </div>
+            </div>
+            {!!summaries.length && (
+                <div className='reconciliation-summary'>
+                    {summaries.map(({ target_key, target_label, copied, skipped, failed, profit }) => (
+                        <div key={target_key} className='summary-card'>
+                            <span className='label'>{target_label}</span>
+                            <span className='counts'>
+                                <span className='copied'>{copied} copied</span>
+                                <span className='skipped'>{skipped} skipped</span>
+                                <span className='failed'>{failed} failed</span>
+                            </span>
+                            <span className={`value ${profit < 0 ? 'loss' : 'profit'}`}>{profit.toFixed(2)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className='table-container'>
+                <table className='copy-table'>
+                    <thead>
+                        <tr>
+                            <th>Time</th>
+                            <th>Market</th>
+                            <th>Source Trade</th>
+                            <th>Targets</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {replications.length ? (
+                            replications.map(
+                                ({ source_contract_id, timestamp, symbol, contract_type, source_stake, outcomes }) => (
+                                    <tr key={source_contract_id}>
+                                        <td>{new Date(timestamp).toLocaleTimeString()}</td>
+                                        <td>
+                                            {symbol}
+                                            <small>{contract_type}</small>
+                                        </td>
+                                        <td>
+                                            {source_stake.toFixed(2)}
+                                            <small>#{source_contract_id}</small>
+                                        </td>
+                                        <td>
+                                            <div className='outcomes'>
+                                                {outcomes.map(
+                                                    ({ target_key, target_label, status, message, stake, profit }) => (
+                                                        <div key={target_key} className={`outcome ${status}`}>
+                                                            <span className='outcome-target'>{target_label}</span>
+                                                            <span className='outcome-status'>{status}</span>
+                                                            {stake !== undefined && <span>{stake.toFixed(2)}</span>}
+                                                            {profit !== undefined && (
+                                                                <span className={profit < 0 ? 'loss' : 'profit'}>
+                                                                    {profit.toFixed(2)}
+                                                                </span>
+                                                            )}
+                                                            <span className='outcome-message'>{message}</span>
+                                                        </div>
+                                                    )
+                                                )}
+                                                {!outcomes.length && (
+                                                    <span className='outcome-message'>No target accounts set up</span>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )
+                            )
+                        ) : (
+                            <tr>
+                                <td colSpan={4} className='no-data'>
+                                    <div className='empty-state'>
+                                        <div className='empty-icon'>📊</div>
+                                        <p>No active mirror streams detected.</p>
+                                        <span>Start trading or enable internal mirroring to see results.</span>
+                                    </div>
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+});
+
+export default ReconciliationTable;
@@ -0,0 +1,118 @@
+import { observer } from 'mobx-react-lite';
+import {
+    DEFAULT_REPLICATION_RULES,
+    getDailyProfit,
+    parseAllowList,
+    TStakeMode,
+} from '@/external/bot-skeleton/services/copy-trading';
+import { useStore } from '@/hooks/useStore';
+import { TCopyAccount } from '@/stores/copy-trader-store';
+
+type TTargetRulesProps = {
+    account: TCopyAccount;
+    index: number;
+};
+
+const STAKE_MODES: { value: TStakeMode; label: string }[] = [
+    { value: 'ratio', label: 'Ratio of source stake' },
+    { value: 'fixed', label: 'Fixed stake' },
+    { value: 'balance_proportional', label: 'Proportional to balance' },
+];
+
+const TargetRules = observer(({ account, index }: TTargetRulesProps) => {
+    const { copy_trader } = useStore();
+    const { setTargetRules, toggleTargetPause } = copy_trader;
+    const rules = account.rules ?? DEFAULT_REPLICATION_RULES;
+    const daily_profit = getDailyProfit(account.daily_profit, Date.now());
+
+    return (
+        <div className='target-rules'>
+            <div className='target-rules__header'>
+                <h4>Replication Rules</h4>
+                <button
+                    className={`target-rules__pause ${rules.is_paused ? 'paused' : ''}`}
+                    onClick={() => toggleTargetPause(index)}
+                >
+                    {rules.is_paused ? 'Resume' : 'Pause'}
+                </button>
+            </div>
+            <div className='target-rules__grid'>
+                <div className='input-group'>
+                    <label>Stake Scaling</label>
+                    <select
+                        value={rules.stake_mode}
+                        onChange={e => setTargetRules(index, { stake_mode: e.target.value as TStakeMode })}
+                    >
+                        {STAKE_MODES.map(({ value, label }) => (
+                            <option key={value} value={value}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                {rules.stake_mode === 'fixed' && (
+                    <div className='input-group'>
+                        <label>Stake ({account.currency})</label>
+                        <input
+                            type='number'
+                            step='0.01'
+                            min='0'
+                            value={rules.fixed_stake}
+                            onChange={e => setTargetRules(index, { fixed_stake: parseFloat(e.target.value) || 0 })}
+                        />
+                    </div>
+                )}
+                {rules.stake_mode === 'ratio' && (
+                    <div className='input-group'>
+                        <label>Stake Ratio (x)</label>
+                        <input
+                            type='number'
+                            step='0.1'
+                            min='0'
+                            value={rules.stake_ratio}
+                            onChange={e => setTargetRules(index, { stake_ratio: parseFloat(e.target.value) || 0 })}
+                        />
+                    </div>
+                )}
+                <div className='input-group'>
+                    <label>Daily Loss Cap (0 = off)</label>
+                    <input
+                        type='number'
+                        step='1'
+                        min='0'
+                        value={rules.daily_loss_cap}
+                        onChange={e =>
+                            setTargetRules(index, { daily_loss_cap: Math.max(0, parseFloat(e.target.value) || 0) })
+                        }
+                    />
+                </div>
+                <div className='input-group'>
+                    <label>Contract Types</label>
+                    <input
+                        key={`contract-types-${rules.contract_types.join()}`}
+                        placeholder='All, e.g. DIGITEVEN, DIGITODD'
+                        defaultValue={rules.contract_types.join(', ')}
+                        onBlur={e => setTargetRules(index, { contract_types: parseAllowList(e.target.value) })}
+                    />
+                </div>
+                <div className='input-group'>
+                    <label>Symbols</label>
+                    <input
+                        key={`symbols-${rules.symbols.join()}`}
+                        placeholder='All, e.g. R_100, 1HZ10V'
+                        defaultValue={rules.symbols.join(', ')}
+                        onBlur={e => setTargetRules(index, { symbols: parseAllowList(e.target.value) })}
+                    />
+                </div>
+            </div>
+            <p className='target-rules__status'>
+                {rules.is_paused ? 'Paused' : 'Active'} · Today&apos;s P/L:{' '}
+                <span className={daily_profit < 0 ? 'loss' : 'profit'}>
+                    {daily_profit.toFixed(2)} {account.currency}
+                </span>
+            </p>
+        </div>
+    );
+});
+
+export default TargetRules;
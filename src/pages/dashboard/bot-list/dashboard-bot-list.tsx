@@ -30,7 +30,7 @@ const HEADERS: THeader[] = [
 ];
 
 const DashboardBotList = observer(() => {
-    const { load_modal, dashboard } = useStore();
+    const { load_modal, dashboard, scheduler } = useStore();
     const { setDashboardStrategies, dashboard_strategies } = load_modal;
     const { setStrategySaveType, strategy_save_type } = dashboard;
     const { isDesktop } = useDevice();
@@ -66,6 +66,18 @@ const DashboardBotList = observer(() => {
                     <Text size={isDesktop ? 's' : 'xs'} weight='bold'>
                         <Localize i18n_default_text='Your bots:' />
                     </Text>
+                    <button className='bot-list__schedules' onClick={scheduler.toggleModal}>
+                        <Text size='xs' color='prominent'>
+                            {scheduler.schedules.length ? (
+                                <Localize
+                                    i18n_default_text='Schedules ({{ count }})'
+                                    values={{ count: scheduler.schedules.length }}
+                                />
+                            ) : (
+                                <Localize i18n_default_text='Schedules' />
+                            )}
+                        </Text>
+                    </button>
                 </div>
                 <div className='bot-list__header'>
                     {HEADERS.map(({ label, className }) => {
@@ -6,6 +6,8 @@ import { NOTIFICATION_TYPE } from '@/components/bot-notification/bot-notificatio
 import Dialog from '@/components/shared_ui/dialog';
 import Text from '@/components/shared_ui/text';
 import { getSavedWorkspaces } from '@/external/bot-skeleton';
+import { bot_scheduler } from '@/external/bot-skeleton/services/scheduler';
+import { strategy_history } from '@/external/bot-skeleton/services/strategy-history';
 import { useStore } from '@/hooks/useStore';
 import { TStrategy } from '@/types';
 import { localize } from '@deriv-com/translations';
@@ -44,6 +46,8 @@ const DeleteDialog = observer(() => {
         setDashboardStrategies(updated_workspaces);
         // TODO: Need to move this to skeleton
         localForage.setItem('saved_workspaces', LZString.compress(JSON.stringify(updated_workspaces)));
+        await strategy_history.removeHistory(strategy_id);
+        bot_scheduler.removeStrategySchedules(strategy_id);
         await resetStrategiesAfterDelete(strategy_id, updated_workspaces);
         onToggleDeleteDialog(false);
     };
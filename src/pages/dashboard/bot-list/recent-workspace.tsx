@@ -9,6 +9,7 @@ import { timeSince } from '@/external/bot-skeleton';
 import { useComponentVisibility } from '@/hooks/useComponentVisibility';
 import { useStore } from '@/hooks/useStore';
 import {
+    LabelPairedClockThreeSmRegularIcon,
     LabelPairedPageCircleArrowRightSmRegularIcon,
     LabelPairedTrashSmRegularIcon,
 } from '@deriv/quill-icons/LabelPaired';
@@ -38,6 +39,11 @@ export const CONTEXT_MENU = [
         ),
         label: <Localize i18n_default_text='Save' />,
     },
+    {
+        type: STRATEGY.SCHEDULE,
+        icon: <LabelPairedClockThreeSmRegularIcon fill='var(--text-general)' />,
+        label: <Localize i18n_default_text='Schedule' />,
+    },
     {
         type: STRATEGY.DELETE,
         icon: <LabelPairedTrashSmRegularIcon fill='var(--text-general)' />,
@@ -52,7 +58,7 @@ type TRecentWorkspace = {
 };
 
 const RecentWorkspace = observer(({ workspace, index }: TRecentWorkspace) => {
-    const { dashboard, load_modal, save_modal } = useStore();
+    const { dashboard, load_modal, save_modal, scheduler } = useStore();
     const { setActiveTab } = dashboard;
     const { toggleSaveModal, updateBotName } = save_modal;
     const {
@@ -119,6 +125,10 @@ const RecentWorkspace = observer(({ workspace, index }: TRecentWorkspace) => {
                 handleSave();
                 break;
 
+            case STRATEGY.SCHEDULE:
+                scheduler.openStrategySchedule({ id: workspace.id, name: workspace.name });
+                break;
+
             case STRATEGY.DELETE:
                 onToggleDeleteDialog(true);
                 rudderStackSendDashboardClickEvent({ dashboard_click_name: 'delete', subpage_name: 'dashboard' });
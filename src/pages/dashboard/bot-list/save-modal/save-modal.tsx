@@ -1,8 +1,9 @@
 import React, { useEffect } from 'react';
 import classNames from 'classnames';
-import { Field, Form, Formik } from 'formik';
+import { Field, FieldProps, Form, Formik } from 'formik';
 import { observer } from 'mobx-react-lite';
 import Button from '@/components/shared_ui/button';
+import Checkbox from '@/components/shared_ui/checkbox';
 import Input from '@/components/shared_ui/input';
 import MobileFullPageModal from '@/components/shared_ui/mobile-full-page-modal';
 import Modal from '@/components/shared_ui/modal';
@@ -10,6 +11,7 @@ import RadioGroup from '@/components/shared_ui/radio-group';
 import Text from '@/components/shared_ui/text';
 import ThemedScrollbars from '@/components/shared_ui/themed-scrollbars';
 import { config, save_types } from '@/external/bot-skeleton';
+import { BOT_RISK_LEVELS, getRiskLevelName, TBotRiskLevel } from '@/external/bot-skeleton/services/bot-library';
 import { useStore } from '@/hooks/useStore';
 import {
     DerivLightGoogleDriveIcon,
@@ -32,7 +34,15 @@ type TSaveModalForm = {
     icon?: string;
     text?: string;
     onDriveConnect?: () => void;
-    onConfirmSave: (values: { is_local: boolean; save_as_collection: boolean; bot_name: string }) => void;
+    onConfirmSave: (values: {
+        is_local: boolean;
+        save_as_collection: boolean;
+        bot_name: string;
+        note: string;
+        add_to_library: boolean;
+        description: string;
+        risk_level: TBotRiskLevel;
+    }) => void;
     setCurrentFocus: (current_focus: string) => void;
     toggleSaveModal: () => void;
     validateBotName: (values: string) => { [key: string]: string };
@@ -55,11 +65,15 @@ const SaveModalForm: React.FC<TSaveModalForm> = ({
             is_local: true,
             save_as_collection: false,
             bot_name: bot_name === config().default_file_name ? '' : bot_name,
+            note: '',
+            add_to_library: false,
+            description: '',
+            risk_level: 'medium' as TBotRiskLevel,
         }}
         validate={validateBotName}
         onSubmit={onConfirmSave}
     >
-        {({ values: { is_local }, setFieldValue, touched, errors }) => {
+        {({ values: { is_local, add_to_library }, setFieldValue, touched, errors }) => {
             const content_height = !is_mobile ? '500px' : `calc(100%)`;
             return (
                 <ThemedScrollbars height={content_height} autohide>
@@ -88,6 +102,49 @@ const SaveModalForm: React.FC<TSaveModalForm> = ({
                                     )}
                                 </Field>
                             </div>
+                            <div className='modal__content-row'>
+                                <Field name='note'>
+                                    {({ field }: FieldProps<string>) => (
+                                        <Input
+                                            className='save-type__input'
+                                            type='text'
+                                            label={localize('Version note (optional)')}
+                                            {...field}
+                                            max_characters={80}
+                                        />
+                                    )}
+                                </Field>
+                            </div>
+                            <div className='modal__content-row'>
+                                <Checkbox
+                                    name='add_to_library'
+                                    value={add_to_library}
+                                    label={localize('Add to my bot library')}
+                                    onChange={() => setFieldValue('add_to_library', !add_to_library)}
+                                />
+                            </div>
+                            {add_to_library && (
+                                <div className='modal__content-row save-type__library'>
+                                    <Field name='description'>
+                                        {({ field }: FieldProps<string>) => (
+                                            <Input
+                                                className='save-type__input'
+                                                type='text'
+                                                label={localize('Description (optional)')}
+                                                {...field}
+                                                max_characters={120}
+                                            />
+                                        )}
+                                    </Field>
+                                    <Field as='select' name='risk_level' aria-label={localize('Risk level')}>
+                                        {BOT_RISK_LEVELS.map(level => (
+                                            <option key={level} value={level}>
+                                                {getRiskLevelName(level)}
+                                            </option>
+                                        ))}
+                                    </Field>
+                                </div>
+                            )}
                             <div className='modal__content-row'>
                                 <RadioGroup
                                     className='radio-group__save-type'
@@ -1,14 +1,15 @@
-export interface TFreeBot {
-    id: string;
-    name: string;
-    description: string;
-    category: 'Automatic' | 'Hybrid' | 'Normal' | 'Popular';
-    xmlPath: string;
-    isPremium: boolean;
-    icon?: string;
-    color?: string;
-}
+import { TBotChangelogEntry, TBotManifest } from '@/external/bot-skeleton/services/bot-library';
 
+export type TFreeBot = TBotManifest;
+
+const INITIAL_CHANGELOG: TBotChangelogEntry[] = [
+    { version: '1.0.0', date: '2026-10-18', notes: 'First version in the bot library.' },
+];
+
+/**
+ * The manifests of the bots bundled with the app. A bot runs Martingale staking when its
+ * risk level is high. Update the checksum whenever its XML file changes, or it won't load.
+ */
 export const FREE_BOTS_DATA: TFreeBot[] = [
     // Automated Bots
     {
@@ -16,8 +17,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'OVER UNDER AUTO SWITCHER',
         description: 'Advanced logic to switch between Over and Under based on market trends.',
         category: 'Automatic',
-        xmlPath: 'Automatic/OVER UNDER AUTO SWITCHER.xml',
-        isPremium: true,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['overunder'],
+        markets: ['synthetic_index'],
+        risk_level: 'high',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-4122936d',
+        xml_path: 'Automatic/OVER UNDER AUTO SWITCHER.xml',
+        is_premium: true,
         color: '#ff9800',
     },
     {
@@ -25,8 +33,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'OVER UNDER AUTOMATIC X',
         description: 'High-frequency Over/Under bot with optimized entry points.',
         category: 'Automatic',
-        xmlPath: 'Automatic/OVER UNDER AUTOMATIC X .xml',
-        isPremium: true,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['overunder'],
+        markets: ['synthetic_index'],
+        risk_level: 'high',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-055d916e',
+        xml_path: 'Automatic/OVER UNDER AUTOMATIC X .xml',
+        is_premium: true,
         color: '#ff9800',
     },
     {
@@ -34,8 +49,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'PROFITHUB PREMIUM A.I.',
         description: 'AI-driven strategy for multiple market conditions.',
         category: 'Popular',
-        xmlPath: 'Automatic/PROFITHUB PREMIUM A.I.xml',
-        isPremium: true,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['overunder'],
+        markets: ['synthetic_index'],
+        risk_level: 'high',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-cde92266',
+        xml_path: 'Automatic/PROFITHUB PREMIUM A.I.xml',
+        is_premium: true,
         color: '#a855f7',
     },
     {
@@ -43,8 +65,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'PROFITHUB RISE FALL AUTO',
         description: 'Automatic Rise/Fall bot with trend following logic.',
         category: 'Automatic',
-        xmlPath: 'Automatic/PROFITHUB RISE FALL AUTO.xml',
-        isPremium: false,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['callput'],
+        markets: ['synthetic_index'],
+        risk_level: 'high',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-10660d80',
+        xml_path: 'Automatic/PROFITHUB RISE FALL AUTO.xml',
+        is_premium: false,
         color: '#ff9800',
     },
     {
@@ -52,8 +81,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'PROFITHUB UNDER 8 OVER 3 AUTO',
         description: 'Safety-first strategy focused on Under 8 and Over 3.',
         category: 'Automatic',
-        xmlPath: 'Automatic/PROFITHUB UNDER 8 OVER 3 AUTO.xml',
-        isPremium: true,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['overunder'],
+        markets: ['synthetic_index'],
+        risk_level: 'high',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-1f8e81ad',
+        xml_path: 'Automatic/PROFITHUB UNDER 8 OVER 3 AUTO.xml',
+        is_premium: true,
         color: '#ff9800',
     },
     {
@@ -61,8 +97,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'RISE AND FALL AUTOMATIC X',
         description: 'Next-gen Rise/Fall automatic bot for Volatility Indices.',
         category: 'Automatic',
-        xmlPath: 'Automatic/RISE AND FALL AUTOMATIC X .xml',
-        isPremium: true,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['callput'],
+        markets: ['synthetic_index'],
+        risk_level: 'high',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-5b2452d7',
+        xml_path: 'Automatic/RISE AND FALL AUTOMATIC X .xml',
+        is_premium: true,
         color: '#ff9800',
     },
 
@@ -72,8 +115,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'Speedbot with entry point',
         description: 'Hybrid bot combining manual entry with automatic management.',
         category: 'Hybrid',
-        xmlPath: 'Hybrid Bots/Speedbot with entry point.xml',
-        isPremium: true,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['overunder'],
+        markets: ['synthetic_index'],
+        risk_level: 'high',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-d03c99cb',
+        xml_path: 'Hybrid Bots/Speedbot with entry point.xml',
+        is_premium: true,
         color: '#4bb4b3',
     },
     {
@@ -81,8 +131,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'UNSTOPPABLE DIFFER BOT',
         description: 'Hybrid Differ bot designed for long-term consistency.',
         category: 'Hybrid',
-        xmlPath: 'Hybrid Bots/🤑UNSTOPPABLE DIFFER BOT🤑.xml',
-        isPremium: true,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['matchesdiffers'],
+        markets: ['synthetic_index'],
+        risk_level: 'medium',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-7cc6c8e2',
+        xml_path: 'Hybrid Bots/🤑UNSTOPPABLE DIFFER BOT🤑.xml',
+        is_premium: true,
         color: '#4bb4b3',
     },
 
@@ -92,8 +149,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'PROFIT HUB PRO',
         description: 'Standard pro strategy for general trading.',
         category: 'Normal',
-        xmlPath: 'Normal Bots/PROFIT HUB PRO.xml',
-        isPremium: false,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['overunder'],
+        markets: ['synthetic_index'],
+        risk_level: 'medium',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-7d087931',
+        xml_path: 'Normal Bots/PROFIT HUB PRO.xml',
+        is_premium: false,
         color: '#3b82f6',
     },
     {
@@ -101,8 +165,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'Profithub Speedbot',
         description: 'Fast execution bot for quick market movements.',
         category: 'Normal',
-        xmlPath: 'Normal Bots/Profithub Speedbot.xml',
-        isPremium: true,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['overunder'],
+        markets: ['synthetic_index'],
+        risk_level: 'medium',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-a9fe13bd',
+        xml_path: 'Normal Bots/Profithub Speedbot.xml',
+        is_premium: true,
         color: '#3b82f6',
     },
     {
@@ -110,8 +181,15 @@ export const FREE_BOTS_DATA: TFreeBot[] = [
         name: 'SPEED BOT updated',
         description: 'Updated version of the popular speed bot strategy.',
         category: 'Normal',
-        xmlPath: 'Normal Bots/SPEED BOT updated.xml',
-        isPremium: false,
+        author: 'ProfitHub',
+        version: '1.0.0',
+        contract_types: ['overunder'],
+        markets: ['synthetic_index'],
+        risk_level: 'high',
+        changelog: INITIAL_CHANGELOG,
+        checksum: 'crc32-f7b39f0a',
+        xml_path: 'Normal Bots/SPEED BOT updated.xml',
+        is_premium: false,
         color: '#3b82f6',
     },
 ];
@@ -1,14 +1,33 @@
 import React from 'react';
 import { observer } from 'mobx-react-lite';
-import { useFreeBots } from '@/hooks/use-free-bots';
+import {
+    BOT_RISK_LEVELS,
+    getImportIssueMessage,
+    getRiskLevelName,
+    TBotImportIssue,
+    TBotManifest,
+    TBotRiskLevel,
+} from '@/external/bot-skeleton/services/bot-library';
+import { useStore } from '@/hooks/useStore';
+import { LIBRARY_CATEGORIES } from '@/stores/bot-library-store';
+import { Localize, localize } from '@deriv-com/translations';
 import './free-bots-tab.scss';
 
-const BotCard = ({ bot, onLoad }: { bot: any; onLoad: (bot: any) => void }) => {
+type TBotCardProps = {
+    bot: TBotManifest;
+    issues?: TBotImportIssue[];
+    onLoad: (bot: TBotManifest) => void;
+    onRemove: (bot_id: string) => void;
+};
+
+const BotCard = ({ bot, issues = [], onLoad, onRemove }: TBotCardProps) => {
+    const [latest_change] = bot.changelog;
+
     return (
         <div className='bot-card' style={{ '--bot-color': bot.color } as React.CSSProperties}>
             <div className='bot-card__glow' />
 
-            {bot.isPremium && (
+            {bot.is_premium && (
                 <div className='bot-card__badge'>
                     PREMIUM <span>★</span>
                 </div>
@@ -16,11 +35,39 @@ const BotCard = ({ bot, onLoad }: { bot: any; onLoad: (bot: any) => void }) => {
 
             <div className='bot-card__header'>
                 <h3>{bot.name}</h3>
+                <div className='bot-card__meta'>
+                    {[bot.author, `v${bot.version}`].filter(Boolean).join(' · ')}
+                    <span className={`bot-card__risk bot-card__risk--${bot.risk_level}`}>
+                        {getRiskLevelName(bot.risk_level)}
+                    </span>
+                </div>
+            </div>
+
+            <div className='bot-card__description'>
+                {bot.description}
+                {latest_change?.notes && <p className='bot-card__changelog'>{latest_change.notes}</p>}
+            </div>
+
+            <div className='bot-card__tags'>
+                {[...bot.contract_types, ...bot.markets].map(tag => (
+                    <span key={tag} className='bot-card__tag'>
+                        {tag}
+                    </span>
+                ))}
             </div>
 
-            <div className='bot-card__description'>{bot.description}</div>
+            {issues.map((issue, index) => (
+                <p key={`${issue.code}-${index}`} className='bot-card__issue'>
+                    {getImportIssueMessage(issue)}
+                </p>
+            ))}
 
             <div className='bot-card__footer'>
+                {bot.category === 'My' && (
+                    <button className='bot-card__remove-btn' onClick={() => onRemove(bot.id)}>
+                        <Localize i18n_default_text='Remove' />
+                    </button>
+                )}
                 <button className='bot-card__load-btn' onClick={() => onLoad(bot)}>
                     Load Bot
                 </button>
@@ -30,8 +77,23 @@ const BotCard = ({ bot, onLoad }: { bot: any; onLoad: (bot: any) => void }) => {
 };
 
 const FreeBotsTab = observer(() => {
-    const { selectedCategory, setSelectedCategory, categories, filteredBots, loadBotToBuilder, isLoading } =
-        useFreeBots();
+    const { bot_library } = useStore();
+    const {
+        category,
+        contract_type,
+        contract_types,
+        filtered_bots,
+        is_loading,
+        issues,
+        loadBotToBuilder,
+        query,
+        removeBot,
+        risk_level,
+        setCategory,
+        setContractType,
+        setQuery,
+        setRiskLevel,
+    } = bot_library;
 
     return (
         <div className='free-bots-tab'>
@@ -40,25 +102,74 @@ const FreeBotsTab = observer(() => {
                 <p>Choose from our curated collection of high-performance trading bots.</p>
             </div>
 
+            <div className='free-bots-tab__filters'>
+                <input
+                    type='search'
+                    value={query}
+                    placeholder={localize('Search bots')}
+                    onChange={e => setQuery(e.target.value)}
+                />
+                <select
+                    aria-label={localize('Risk level')}
+                    value={risk_level ?? ''}
+                    onChange={e => setRiskLevel((e.target.value as TBotRiskLevel) || null)}
+                >
+                    <option value=''>{localize('Any risk')}</option>
+                    {BOT_RISK_LEVELS.map(level => (
+                        <option key={level} value={level}>
+                            {getRiskLevelName(level)}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    aria-label={localize('Trade type')}
+                    value={contract_type ?? ''}
+                    onChange={e => setContractType(e.target.value || null)}
+                >
+                    <option value=''>{localize('Any trade type')}</option>
+                    {contract_types.map(type => (
+                        <option key={type} value={type}>
+                            {type}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
             <div className='free-bots-tab__categories'>
-                {categories.map(category => (
+                {LIBRARY_CATEGORIES.map(item => (
                     <button
-                        key={category}
-                        className={`category-btn category-btn--${category} ${selectedCategory === category ? 'category-btn--active' : ''}`}
-                        onClick={() => setSelectedCategory(category)}
+                        key={item}
+                        className={`category-btn category-btn--${item} ${category === item && !query.trim() ? 'category-btn--active' : ''}`}
+                        onClick={() => setCategory(item)}
                     >
-                        {category} Bots
+                        {item} Bots
                     </button>
                 ))}
             </div>
 
             <div className='free-bots-tab__grid'>
-                {filteredBots.map(bot => (
-                    <BotCard key={bot.id} bot={bot} onLoad={loadBotToBuilder} />
+                {filtered_bots.map(bot => (
+                    <BotCard
+                        key={bot.id}
+                        bot={bot}
+                        issues={issues[bot.id]}
+                        onLoad={loadBotToBuilder}
+                        onRemove={removeBot}
+                    />
                 ))}
             </div>
 
-            {isLoading && (
+            {!filtered_bots.length && (
+                <p className='free-bots-tab__empty'>
+                    {category === 'My' && !query.trim() ? (
+                        <Localize i18n_default_text='Bots you add to your library when saving a strategy show up here.' />
+                    ) : (
+                        <Localize i18n_default_text='No bots match your search.' />
+                    )}
+                </p>
+            )}
+
+            {is_loading && (
                 <div className='loading-overlay'>
                     <div className='spinner' />
                     <p>Injecting strategy into Bot Builder...</p>
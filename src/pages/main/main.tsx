@@ -6,8 +6,17 @@ import ChunkLoader from '@/components/loader/chunk-loader';
 import { generateOAuthURL } from '@/components/shared';
 import DesktopWrapper from '@/components/shared_ui/desktop-wrapper';
 import Dialog from '@/components/shared_ui/dialog';
+import ExportModal from '@/components/export-modal';
+import ImportReviewModal from '@/components/import-review-modal';
 import MobileWrapper from '@/components/shared_ui/mobile-wrapper';
 import Tabs from '@/components/shared_ui/tabs/tabs';
+import NotificationChannelsModal from '@/components/notification-channels-modal';
+import PaperTradingModal from '@/components/paper-trading-modal';
+import RiskManagerModal from '@/components/risk-manager-modal';
+import SchedulerModal from '@/components/scheduler-modal';
+import StrategyHistoryModal from '@/components/strategy-history-modal';
+import TickHistoryModal from '@/components/tick-history-modal';
+import TradeAnalyticsModal from '@/components/trade-analytics-modal';
 import TradingViewModal from '@/components/trading-view-chart/trading-view-modal';
 import { DBOT_TABS, TAB_IDS } from '@/constants/bot-contents';
 import { api_base, updateWorkspaceName } from '@/external/bot-skeleton';
@@ -21,6 +30,7 @@ import {
     LabelPairedChartCandlestickCaptionRegularIcon,
     LabelPairedChartLineCaptionRegularIcon,
     LabelPairedCircleCaptionRegularIcon,
+    LabelPairedClockThreeCaptionRegularIcon,
     LabelPairedCopyCaptionRegularIcon,
     LabelPairedLightbulbCaptionRegularIcon,
     LabelPairedObjectsColumnCaptionRegularIcon,
@@ -52,10 +62,12 @@ const OverUnderTab = lazy(() => import('../smart-trading/components/over-under-t
 const AIAnalysisTab = lazy(() => import('../smart-trading/components/ai-analysis-tab'));
 const CirclesAnalysis = lazy(() => import('../circles-analysis/index'));
 const DTrader = lazy(() => import('../dtrader/index'));
+const StrategyLab = lazy(() => import('../strategy-lab'));
+const RunHistory = lazy(() => import('../run-history'));
 
 const AppWrapper = observer(() => {
     const { connectionStatus } = useApiBase();
-    const { dashboard, load_modal, run_panel, quick_strategy, summary_card } = useStore();
+    const { dashboard, load_modal, paper_trading, run_panel, quick_strategy, summary_card } = useStore();
     const {
         active_tab,
         active_tour,
@@ -101,6 +113,8 @@ const AppWrapper = observer(() => {
         'tutorials',
         'circles',
         'dtrader',
+        'strategy_lab',
+        'run_history',
     ];
     const { isDesktop } = useDevice();
     const location = useLocation();
@@ -272,8 +286,6 @@ const AppWrapper = observer(() => {
         [active_tab]
     );
 
-
-
     const handleLoginGeneration = async () => {
         try {
             // Check TMB status first
@@ -360,7 +372,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedSlidersCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedSlidersCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Auto Trader' />
                                     </div>
                                 }
@@ -374,7 +390,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedCopyCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedCopyCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Copy Trading' />
                                     </div>
                                 }
@@ -388,7 +408,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedSignalCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedSignalCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Signals' />
                                     </div>
                                 }
@@ -403,7 +427,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedLightbulbCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedLightbulbCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Free Bots' />
                                     </div>
                                 }
@@ -418,7 +446,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedLightbulbCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedLightbulbCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Smart Trading' />
                                     </div>
                                 }
@@ -433,7 +465,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedChartCandlestickCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedChartCandlestickCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Smart Analysis' />
                                     </div>
                                 }
@@ -448,7 +484,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedCircleCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedCircleCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Even/Odd' />
                                     </div>
                                 }
@@ -463,7 +503,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedArrowUpArrowDownCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedArrowUpArrowDownCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Over/Under' />
                                     </div>
                                 }
@@ -521,7 +565,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedCircleCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedCircleCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='Circles' />
                                     </div>
                                 }
@@ -536,7 +584,11 @@ const AppWrapper = observer(() => {
                             <div
                                 label={
                                     <div className='main__tabs-label'>
-                                        <LabelPairedChartLineCaptionRegularIcon height='20px' width='20px' fill='var(--text-general)' />
+                                        <LabelPairedChartLineCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
                                         <Localize i18n_default_text='DTrader' />
                                     </div>
                                 }
@@ -548,6 +600,44 @@ const AppWrapper = observer(() => {
                                     </Suspense>
                                 </PageContentWrapper>
                             </div>
+                            <div
+                                label={
+                                    <div className='main__tabs-label'>
+                                        <LabelPairedObjectsColumnCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
+                                        <Localize i18n_default_text='Strategy Lab' />
+                                    </div>
+                                }
+                                id='id-strategy-lab'
+                            >
+                                <PageContentWrapper>
+                                    <Suspense fallback={<ChunkLoader message={localize('Loading...')} />}>
+                                        <StrategyLab />
+                                    </Suspense>
+                                </PageContentWrapper>
+                            </div>
+                            <div
+                                label={
+                                    <div className='main__tabs-label'>
+                                        <LabelPairedClockThreeCaptionRegularIcon
+                                            height='20px'
+                                            width='20px'
+                                            fill='var(--text-general)'
+                                        />
+                                        <Localize i18n_default_text='Run history' />
+                                    </div>
+                                }
+                                id='id-run-history'
+                            >
+                                <PageContentWrapper>
+                                    <Suspense fallback={<ChunkLoader message={localize('Loading...')} />}>
+                                        <RunHistory />
+                                    </Suspense>
+                                </PageContentWrapper>
+                            </div>
                         </Tabs>
                         {!isDesktop && right_tab_shadow && <span className='tabs-shadow tabs-shadow--right' />}{' '}
                     </div>
@@ -562,6 +652,20 @@ const AppWrapper = observer(() => {
                 <TradingViewModal />
             </DesktopWrapper>
             <MobileWrapper>{!is_open && <RunPanel />}</MobileWrapper>
+            <TickHistoryModal />
+            <RiskManagerModal />
+            <PaperTradingModal />
+            <StrategyHistoryModal />
+            <TradeAnalyticsModal />
+            <ExportModal />
+            <NotificationChannelsModal />
+            <SchedulerModal />
+            <ImportReviewModal />
+            {paper_trading.is_enabled && (
+                <button type='button' className='main__paper-trading-badge' onClick={paper_trading.toggleModal}>
+                    {localize('Paper trading')}
+                </button>
+            )}
             <Dialog
                 cancel_button_text={cancel_button_text || localize('Cancel')}
                 className='dc-dialog__wrapper--fixed'
@@ -571,7 +675,7 @@ const AppWrapper = observer(() => {
                 is_visible={is_dialog_open}
                 onCancel={onCancelButtonClick || undefined}
                 onClose={onCloseDialog || undefined}
-                onConfirm={onOkButtonClick || onCloseDialog || (() => { })}
+                onConfirm={onOkButtonClick || onCloseDialog || (() => {})}
                 portal_element_id='modal_root'
                 title={title}
                 login={handleLoginGeneration}
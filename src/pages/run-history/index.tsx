@@ -0,0 +1,3 @@
+import RunHistory from './run-history';
+
+export default RunHistory;
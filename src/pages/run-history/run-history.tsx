@@ -0,0 +1,332 @@
+import React from 'react';
+import classNames from 'classnames';
+import { observer } from 'mobx-react-lite';
+import { formatMoney } from '@/components/shared';
+import { TRiskSource } from '@/external/bot-skeleton/services/risk';
+import {
+    getProfitCurve,
+    getRunSourceName,
+    getRunStopReasonMessage,
+    summarizeRun,
+    TRunSession,
+    TRunSummary,
+} from '@/external/bot-skeleton/services/run-history';
+import { useStore } from '@/hooks/useStore';
+import { MAX_COMPARED_RUNS } from '@/stores/run-history-store';
+import { Localize, localize } from '@deriv-com/translations';
+import './run-history.scss';
+
+const SOURCES: TRiskSource[] = ['blockly', 'smart_trading', 'auto_trader', 'copy_trader'];
+
+const CURVE_WIDTH = 240;
+const CURVE_HEIGHT = 60;
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const formatRunDuration = (duration: number) => {
+    const seconds = Math.floor(duration / 1000);
+    return [Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+        .map(value => String(value).padStart(2, '0'))
+        .join(':');
+};
+
+const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatAmount = (currency: string, amount: number) =>
+    `${formatMoney(currency || 'USD', amount, true)} ${currency}`.trim();
+
+const getProfitClassName = (profit: number) =>
+    classNames({
+        'run-history__profit--won': profit > 0,
+        'run-history__profit--lost': profit < 0,
+    });
+
+type TComparedMetric = {
+    getLabel: () => string;
+    getValue: (session: TRunSession, summary: TRunSummary) => React.ReactNode;
+};
+
+const COMPARED_METRICS: TComparedMetric[] = [
+    { getLabel: () => localize('Source'), getValue: ({ source }) => getRunSourceName(source) },
+    { getLabel: () => localize('Strategy hash'), getValue: ({ xml_hash }) => xml_hash ?? '-' },
+    { getLabel: () => localize('Account'), getValue: ({ account }) => account || '-' },
+    { getLabel: () => localize('Started'), getValue: ({ start_time }) => formatTimestamp(start_time) },
+    { getLabel: () => localize('Duration'), getValue: (_, { duration }) => formatRunDuration(duration) },
+    { getLabel: () => localize('Stop reason'), getValue: ({ stop_reason }) => getRunStopReasonMessage(stop_reason) },
+    { getLabel: () => localize('Number of runs'), getValue: (_, { number_of_runs }) => number_of_runs },
+    {
+        getLabel: () => localize('Won / lost'),
+        getValue: (_, { won_contracts, lost_contracts }) => `${won_contracts} / ${lost_contracts}`,
+    },
+    { getLabel: () => localize('Win rate'), getValue: (_, { win_rate }) => formatPercentage(win_rate) },
+    {
+        getLabel: () => localize('Total stake'),
+        getValue: ({ currency }, { total_stake }) => formatAmount(currency, total_stake),
+    },
+    {
+        getLabel: () => localize('Total payout'),
+        getValue: ({ currency }, { total_payout }) => formatAmount(currency, total_payout),
+    },
+    {
+        getLabel: () => localize('Average profit per run'),
+        getValue: ({ currency }, { average_profit }) => formatAmount(currency, average_profit),
+    },
+    {
+        getLabel: () => localize('Max drawdown'),
+        getValue: ({ currency }, { max_drawdown }) => formatAmount(currency, max_drawdown),
+    },
+    {
+        getLabel: () => localize('Total profit/loss'),
+        getValue: ({ currency }, { total_profit }) => (
+            <span className={getProfitClassName(total_profit)}>{formatAmount(currency, total_profit)}</span>
+        ),
+    },
+];
+
+type TProfitCurveProps = {
+    curve: number[];
+    range: { min: number; max: number };
+};
+
+/** Profit after each trade, drawn on the same scale for every compared run. */
+const ProfitCurve = ({ curve, range }: TProfitCurveProps) => {
+    const span = range.max - range.min || 1;
+    const getY = (profit: number) => CURVE_HEIGHT - ((profit - range.min) / span) * CURVE_HEIGHT;
+    const points = [0, ...curve]
+        .map((profit, index) => `${(index / Math.max(curve.length, 1)) * CURVE_WIDTH},${getY(profit)}`)
+        .join(' ');
+
+    return (
+        <svg
+            className='run-history__curve'
+            viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+            preserveAspectRatio='none'
+            role='img'
+            aria-label={localize('Profit after each run')}
+        >
+            <line className='run-history__curve-zero' x1={0} x2={CURVE_WIDTH} y1={getY(0)} y2={getY(0)} />
+            <polyline className='run-history__curve-line' points={points} />
+        </svg>
+    );
+};
+
+const RunComparison = observer(() => {
+    const { run_history } = useStore();
+    const { clearSelection, selected_sessions } = run_history;
+
+    if (selected_sessions.length < 2) {
+        return (
+            <p className='run-history__hint'>
+                {localize('Select up to {{ count }} runs in the list to compare them side by side.', {
+                    count: MAX_COMPARED_RUNS,
+                })}
+            </p>
+        );
+    }
+
+    const summaries = selected_sessions.map(session => summarizeRun(session));
+    const curves = selected_sessions.map(({ trades }) => getProfitCurve(trades));
+    const all_profits = [0, ...curves.flat()];
+    const range = { min: Math.min(...all_profits), max: Math.max(...all_profits) };
+    const is_same_strategy =
+        !!selected_sessions[0].xml_hash &&
+        selected_sessions.every(({ xml_hash }) => xml_hash === selected_sessions[0].xml_hash);
+
+    return (
+        <div className='run-history__comparison'>
+            <div className='run-history__comparison-header'>
+                <h3>{localize('Comparison')}</h3>
+                {is_same_strategy && <span>{localize('All runs used the same strategy blocks.')}</span>}
+                <button type='button' className='run-history__button' onClick={clearSelection}>
+                    {localize('Clear selection')}
+                </button>
+            </div>
+            <div className='run-history__table'>
+                <table>
+                    <thead>
+                        <tr>
+                            <th />
+                            {selected_sessions.map(({ id, bot_name }) => (
+                                <th key={id}>{bot_name}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {COMPARED_METRICS.map(({ getLabel, getValue }) => (
+                            <tr key={getLabel()}>
+                                <th>{getLabel()}</th>
+                                {selected_sessions.map((session, index) => (
+                                    <td key={session.id}>{getValue(session, summaries[index])}</td>
+                                ))}
+                            </tr>
+                        ))}
+                        <tr>
+                            <th>{localize('Profit/loss over the run')}</th>
+                            {selected_sessions.map((session, index) => (
+                                <td key={session.id}>
+                                    <ProfitCurve curve={curves[index]} range={range} />
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+});
+
+const RunHistory = observer(() => {
+    const { run_history } = useStore();
+    const { clearHistory, error_message, loadSessions, removeSession, selected_ids, sessions, toggleSelected } =
+        run_history;
+    const [source_filter, setSourceFilter] = React.useState<TRiskSource | ''>('');
+    const [is_confirming_clear, setIsConfirmingClear] = React.useState(false);
+
+    React.useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    const filtered_sessions = source_filter ? sessions.filter(({ source }) => source === source_filter) : sessions;
+
+    return (
+        <div className='run-history'>
+            <div className='run-history__header'>
+                <h2>
+                    <Localize i18n_default_text='Run history' />
+                </h2>
+                <p>
+                    <Localize i18n_default_text='Every run of a bot is kept here with its trades and the reason it stopped, including runs from Smart Trading, Auto Trader and copy trading. Clearing the run panel statistics does not remove them.' />
+                </p>
+            </div>
+
+            <div className='run-history__controls'>
+                <div className='run-history__field'>
+                    <label htmlFor='run-history-source'>{localize('Source')}</label>
+                    <select
+                        id='run-history-source'
+                        value={source_filter}
+                        onChange={e => setSourceFilter(e.target.value as TRiskSource | '')}
+                    >
+                        <option value=''>{localize('All sources')}</option>
+                        {SOURCES.map(source => (
+                            <option key={source} value={source}>
+                                {getRunSourceName(source)}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div className='run-history__actions'>
+                    {is_confirming_clear ? (
+                        <>
+                            <button
+                                type='button'
+                                className='run-history__button'
+                                onClick={() => setIsConfirmingClear(false)}
+                            >
+                                {localize('Cancel')}
+                            </button>
+                            <button
+                                type='button'
+                                className='run-history__button run-history__button--danger'
+                                onClick={() => {
+                                    clearHistory();
+                                    setIsConfirmingClear(false);
+                                }}
+                            >
+                                {localize('Delete all runs')}
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            type='button'
+                            className='run-history__button'
+                            onClick={() => setIsConfirmingClear(true)}
+                            disabled={!sessions.length}
+                        >
+                            {localize('Clear history')}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {error_message && <p className='run-history__error'>{error_message}</p>}
+
+            <RunComparison />
+
+            {!filtered_sessions.length ? (
+                <p className='run-history__hint'>
+                    <Localize i18n_default_text='No runs yet. Runs are added here as soon as a bot starts trading.' />
+                </p>
+            ) : (
+                <div className='run-history__table'>
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>{localize('Compare')}</th>
+                                <th>{localize('Bot')}</th>
+                                <th>{localize('Source')}</th>
+                                <th>{localize('Started')}</th>
+                                <th>{localize('Duration')}</th>
+                                <th>{localize('Runs')}</th>
+                                <th>{localize('Win rate')}</th>
+                                <th>{localize('Profit/loss')}</th>
+                                <th>{localize('Stop reason')}</th>
+                                <th />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filtered_sessions.map(session => {
+                                const { id, bot_name, currency, source, start_time, stop_reason, stop_message } =
+                                    session;
+                                const { duration, number_of_runs, total_profit, win_rate } = summarizeRun(session);
+                                return (
+                                    <tr key={id}>
+                                        <td>
+                                            <input
+                                                type='checkbox'
+                                                aria-label={localize('Compare this run')}
+                                                checked={selected_ids.includes(id)}
+                                                onChange={() => toggleSelected(id)}
+                                            />
+                                        </td>
+                                        <td>{bot_name}</td>
+                                        <td>{getRunSourceName(source)}</td>
+                                        <td>{formatTimestamp(start_time)}</td>
+                                        <td>{formatRunDuration(duration)}</td>
+                                        <td>{number_of_runs}</td>
+                                        <td>{number_of_runs ? formatPercentage(win_rate) : '-'}</td>
+                                        <td className={getProfitClassName(total_profit)}>
+                                            {formatAmount(currency, total_profit)}
+                                        </td>
+                                        <td title={stop_message}>
+                                            <span
+                                                className={classNames('run-history__status', {
+                                                    'run-history__status--running': !stop_reason,
+                                                    'run-history__status--error': stop_reason === 'Error',
+                                                })}
+                                            >
+                                                {getRunStopReasonMessage(stop_reason)}
+                                            </span>
+                                        </td>
+                                        <td>
+                                            <button
+                                                type='button'
+                                                className='run-history__delete'
+                                                onClick={() => removeSession(id)}
+                                                disabled={!stop_reason}
+                                            >
+                                                {localize('Delete')}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+});
+
+export default RunHistory;
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Activity, Zap, Timer, Brain, RefreshCw, Download, ShieldAlert } from 'lucide-react';
+import { observer } from 'mobx-react-lite';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import SignificanceBadge from '@/components/significance-badge';
 import { useDeriv } from '@/hooks/use-deriv';
 import './signals-tab.scss';
 
@@ -54,6 +56,13 @@ const SignalCard = ({ signal, isPro = false }: { signal: any; isPro?: boolean })
                 </div>
             </div>
 
+            {signal.significance && (
+                <div className='signal-card__significance'>
+                    <span className='label'>Statistical Check</span>
+                    <SignificanceBadge significance={signal.significance} />
+                </div>
+            )}
+
             <div className='signal-card__info'>
                 <div className='info-row'>
                     <span className='label'>Trade Explanation:</span>
@@ -76,7 +85,7 @@ const SignalCard = ({ signal, isPro = false }: { signal: any; isPro?: boolean })
     );
 };
 
-const SignalsTab = () => {
+const SignalsTab = observer(() => {
     const {
         connectionStatus,
         currentPrice,
@@ -101,7 +110,7 @@ const SignalsTab = () => {
                 <div className='loading-content'>
                     <RefreshCw className='animate-spin' size={48} />
                     <h3>Initializing Analysis Engine...</h3>
-                    <p>Collecting tick data from Deriv WebSocket ({tickCount}/20)</p>
+                    <p>Collecting tick data from the market feed ({tickCount}/20)</p>
                 </div>
             </div>
         );
@@ -156,6 +165,14 @@ const SignalsTab = () => {
                         {analysis.powerIndex.gap.toFixed(1)}%
                     </span>
                 </div>
+                <div className='stat-card'>
+                    <span className='label'>Digit Distribution</span>
+                    <SignificanceBadge significance={analysis.uniformity} />
+                </div>
+                <div className='stat-card'>
+                    <span className='label'>Even/Odd Sequence</span>
+                    <SignificanceBadge significance={analysis.parityRuns} />
+                </div>
             </div>
 
             <section className='signals-tab__section'>
@@ -259,6 +276,6 @@ const SignalsTab = () => {
             )}
         </div>
     );
-};
+});
 
 export default SignalsTab;
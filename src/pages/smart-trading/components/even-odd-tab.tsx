@@ -6,7 +6,7 @@ import QuickSettings from './quick-settings';
 import './even-odd-tab.scss';
 
 const EvenOddTab = observer(() => {
-    const { smart_trading, app } = useStore();
+    const { smart_trading } = useStore();
     const {
         ticks,
         current_price,
@@ -14,11 +14,7 @@ const EvenOddTab = observer(() => {
         symbol,
         setSymbol,
         markets,
-        updateDigitStats,
-        active_symbols_data,
     } = smart_trading;
-    const ticks_service = app.api_helpers_store?.ticks_service;
-
     const [signalTime, setSignalTime] = useState(0);
     const [lastAction, setLastAction] = useState('');
 
@@ -29,41 +25,7 @@ const EvenOddTab = observer(() => {
         return () => clearInterval(interval);
     }, []);
 
-    useEffect(() => {
-        if (!ticks_service || !symbol) return;
-
-        let is_mounted = true;
-        let listenerKey: string | null = null;
-
-        const monitorTicks = async () => {
-            const callback = (ticks_data: { quote: string | number }[]) => {
-                if (is_mounted && ticks_data && ticks_data.length > 0) {
-                    const latest = ticks_data[ticks_data.length - 1];
-                    const symbol_info = active_symbols_data[symbol];
-
-                    const last_digits = ticks_data.slice(-200).map(t => {
-                        let quote_str = String(t.quote || '0');
-                        if (symbol_info && typeof t.quote === 'number') {
-                            const decimals = Math.abs(Math.log10(symbol_info.pip));
-                            quote_str = t.quote.toFixed(decimals);
-                        }
-                        const digit = parseInt(quote_str[quote_str.length - 1]);
-                        return isNaN(digit) ? 0 : digit;
-                    });
-                    updateDigitStats(last_digits, latest.quote);
-                }
-            };
-
-            listenerKey = await ticks_service.monitor({ symbol, callback });
-        };
-
-        monitorTicks();
-
-        return () => {
-            is_mounted = false;
-            if (listenerKey) ticks_service.stopMonitor({ symbol, key: listenerKey });
-        };
-    }, [symbol, ticks_service, updateDigitStats, active_symbols_data]);
+    useEffect(() => smart_trading.watchTicks(200), [smart_trading]);
 
     const analyzeEvenOdd = (digits: number[], window: number) => {
         const slice = digits.slice(-window);
@@ -4,45 +4,18 @@ import { useStore } from '@/hooks/useStore';
 import './market-overview.scss';
 
 const MarketOverview = observer(() => {
-    const { smart_trading, app } = useStore();
-    const { symbol, setSymbol, current_price, last_digit, markets, updateDigitStats, active_symbols_data } = smart_trading;
-    const ticks_service = app.api_helpers_store?.ticks_service;
-
-    useEffect(() => {
-        if (!ticks_service || !symbol) return;
-
-        let is_mounted = true;
-        let listenerKey: string | null = null;
-
-        const monitorTicks = async () => {
-            const callback = (ticks: { quote: string | number }[]) => {
-                if (is_mounted && ticks && ticks.length > 0) {
-                    const latest = ticks[ticks.length - 1];
-                    const symbol_info = active_symbols_data[symbol];
-
-                    const last_digits = ticks.slice(-100).map(t => {
-                        let quote_str = String(t.quote || '0');
-                        if (symbol_info && typeof t.quote === 'number') {
-                            const decimals = Math.abs(Math.log10(symbol_info.pip));
-                            quote_str = t.quote.toFixed(decimals);
-                        }
-                        const digit = parseInt(quote_str[quote_str.length - 1]);
-                        return isNaN(digit) ? 0 : digit;
-                    });
-                    updateDigitStats(last_digits, latest.quote);
-                }
-            };
-
-            listenerKey = await ticks_service.monitor({ symbol, callback });
-        };
-
-        monitorTicks();
-
-        return () => {
-            is_mounted = false;
-            if (listenerKey) ticks_service.stopMonitor({ symbol, key: listenerKey });
-        };
-    }, [symbol, ticks_service, updateDigitStats, active_symbols_data]);
+    const { smart_trading, tick_history } = useStore();
+    const {
+        symbol,
+        setSymbol,
+        current_price,
+        last_digit,
+        markets,
+        recorded_dataset,
+        setRecordedDataset,
+    } = smart_trading;
+
+    useEffect(() => smart_trading.watchTicks(100), [smart_trading]);
 
     return (
         <div className='smart-market-overview'>
@@ -69,7 +42,20 @@ const MarketOverview = observer(() => {
                     <span className='label'>Last Digit</span>
                     <span className={`digit digit--${last_digit}`}>{last_digit}</span>
                 </div>
+                <button className='market-overview__recorded-button' onClick={tick_history.toggleModal}>
+                    Recorded ticks
+                </button>
             </div>
+            {recorded_dataset && (
+                <div className='market-overview__recorded-banner'>
+                    <span>
+                        Analysing {recorded_dataset.count} recorded ticks of {recorded_dataset.symbol} (
+                        {new Date(recorded_dataset.first_epoch * 1000).toLocaleString()} –{' '}
+                        {new Date(recorded_dataset.last_epoch * 1000).toLocaleString()})
+                    </span>
+                    <button onClick={() => setRecordedDataset(null)}>Back to live</button>
+                </div>
+            )}
         </div>
     );
 });
@@ -10,11 +10,12 @@ import {
     XAxis,
     YAxis,
 } from 'recharts';
+import SignificanceBadge from '@/components/significance-badge';
 import { useStore } from '@/hooks/useStore';
 import './smart-analysis-tab.scss';
 
 const SmartAnalysisTab = observer(() => {
-    const { smart_trading, app } = useStore();
+    const { smart_trading } = useStore();
     const {
         digit_stats,
         ticks,
@@ -24,48 +25,11 @@ const SmartAnalysisTab = observer(() => {
         current_price,
         last_digit,
         markets,
-        updateDigitStats,
         smart_analysis_data,
-        active_symbols_data,
         v_sense_signals,
     } = smart_trading;
-    const ticks_service = app.api_helpers_store?.ticks_service;
 
-    useEffect(() => {
-        if (!ticks_service || !symbol) return;
-
-        let is_mounted = true;
-        let listenerKey: string | null = null;
-
-        const monitorTicks = async () => {
-            const callback = (ticks_data: { quote: string | number }[]) => {
-                if (is_mounted && ticks_data && ticks_data.length > 0) {
-                    const latest = ticks_data[ticks_data.length - 1];
-                    const symbol_info = active_symbols_data[symbol];
-
-                    const last_digits = ticks_data.slice(-100).map(t => {
-                        let quote_str = String(t.quote || '0');
-                        if (symbol_info && typeof t.quote === 'number') {
-                            const decimals = Math.abs(Math.log10(symbol_info.pip));
-                            quote_str = t.quote.toFixed(decimals);
-                        }
-                        const digit = parseInt(quote_str[quote_str.length - 1]);
-                        return isNaN(digit) ? 0 : digit;
-                    });
-                    updateDigitStats(last_digits, latest.quote);
-                }
-            };
-
-            listenerKey = await ticks_service.monitor({ symbol, callback });
-        };
-
-        monitorTicks();
-
-        return () => {
-            is_mounted = false;
-            if (listenerKey) ticks_service.stopMonitor({ symbol, key: listenerKey });
-        };
-    }, [symbol, ticks_service, updateDigitStats, active_symbols_data]);
+    useEffect(() => smart_trading.watchTicks(100), [smart_trading]);
 
     const probs = calculateProbabilities();
     const last_20_ticks = ticks.slice(-20);
@@ -111,6 +75,12 @@ const SmartAnalysisTab = observer(() => {
             </div>
 
             <h2 className='section-title'>Digit Frequency Analysis</h2>
+            {smart_analysis_data && (
+                <div className='distribution-significance'>
+                    <span className='lbl'>Distribution bias</span>
+                    <SignificanceBadge significance={smart_analysis_data.uniformity} />
+                </div>
+            )}
 
             <div className='digit-freq-circles'>
                 <div className='circles-row'>
@@ -304,6 +274,9 @@ const SmartAnalysisTab = observer(() => {
                                         <span className='val'>{sig.strategy === 'DIFFERS' ? '1 Tick' : '5 Ticks'}</span>
                                     </div>
                                 </div>
+                                <div className='card-significance'>
+                                    <SignificanceBadge significance={sig.significance} />
+                                </div>
                                 <div className='reasoning-tooltip'>
                                     {sig.reasoning.map((r, idx) => <p key={idx}>{r}</p>)}
                                 </div>
@@ -339,6 +312,9 @@ const SmartAnalysisTab = observer(() => {
                                     />
                                 </div>
                             </div>
+                            <div className='signal-significance'>
+                                <SignificanceBadge significance={smart_analysis_data.signal.significance} />
+                            </div>
                             <ul className='reasoning-list'>
                                 {smart_analysis_data.signal.reasoning.map((r, i) => (
                                     <li key={i}>{r}</li>
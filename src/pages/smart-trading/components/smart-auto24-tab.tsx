@@ -1,6 +1,11 @@
 import { useState } from 'react';
 import { observer } from 'mobx-react-lite';
 import { runInAction } from 'mobx';
+import {
+    getStakingPlanOptions,
+    getStakingPlanParameterLabel,
+    STAKING_PLAN_PARAMETERS,
+} from '@/external/bot-skeleton/services/staking-plans';
 import { useStore } from '@/hooks/useStore';
 import { TStrategy } from '@/stores/smart-trading-store';
 import classNames from 'classnames';
@@ -23,6 +28,8 @@ const BotCard = observer(({ strategy }: { strategy: TStrategy }) => {
 
     const toggleBot = () => smart_trading.toggleBot(strategy.id);
     const updateSetting = (key: keyof TStrategy, value: any) => smart_trading.updateStrategySetting(strategy.id, key, value);
+    const plan_parameter = STAKING_PLAN_PARAMETERS[strategy.staking_plan];
+    const plan_parameter_key: keyof TStrategy = plan_parameter?.key === 'multiplier' ? 'martingale' : 'staking_parameter';
 
     const winRate = strategy.total_wins + strategy.total_losses > 0
         ? ((strategy.total_wins / (strategy.total_wins + strategy.total_losses)) * 100).toFixed(0)
@@ -98,9 +105,22 @@ const BotCard = observer(({ strategy }: { strategy: TStrategy }) => {
                         <input type="number" value={strategy.stake} onChange={e => updateSetting('stake', parseFloat(e.target.value))} disabled={strategy.is_running} />
                     </div>
                     <div className='setting-row'>
-                        <label>Martingale Factor</label>
-                        <input type="number" value={strategy.martingale} onChange={e => updateSetting('martingale', parseFloat(e.target.value))} disabled={strategy.is_running} />
+                        <label>Staking Plan</label>
+                        <select value={strategy.staking_plan} onChange={e => updateSetting('staking_plan', e.target.value)} disabled={strategy.is_running}>
+                            {getStakingPlanOptions().map(({ value, text }) => <option key={value} value={value}>{text}</option>)}
+                        </select>
                     </div>
+                    {plan_parameter && (
+                        <div className='setting-row'>
+                            <label>{getStakingPlanParameterLabel(strategy.staking_plan)}</label>
+                            <input
+                                type="number"
+                                value={plan_parameter_key === 'martingale' ? strategy.martingale : strategy.staking_parameter ?? plan_parameter.default_value}
+                                onChange={e => updateSetting(plan_parameter_key, parseFloat(e.target.value))}
+                                disabled={strategy.is_running}
+                            />
+                        </div>
+                    )}
                     <div className='risk-header'>Risk Controls</div>
                     <div className='setting-row'>
                         <label>Take Profit ($)</label>
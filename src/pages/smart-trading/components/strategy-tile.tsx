@@ -1,4 +1,5 @@
 import { observer } from 'mobx-react-lite';
+import { getStakingPlanName } from '@/external/bot-skeleton/services/staking-plans';
 import { useStore } from '@/hooks/useStore';
 import {
     LabelPairedChartMixedCaptionRegularIcon,
@@ -282,8 +283,8 @@ const StrategyTile = observer(({ strategy }: { strategy: any }) => {
                     <input type='number' value={strategy.stake} readOnly />
                 </div>
                 <div className='param-item'>
-                    <label>Martingale</label>
-                    <input type='number' value={strategy.martingale} readOnly />
+                    <label>Staking</label>
+                    <input type='text' value={getStakingPlanName(strategy.staking_plan)} readOnly />
                 </div>
             </div>
 
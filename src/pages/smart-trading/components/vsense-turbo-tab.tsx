@@ -15,7 +15,7 @@ import { useStore } from '@/hooks/useStore';
 import './vsense-turbo-tab.scss';
 
 const VSenseTurboTab = observer(() => {
-    const { smart_trading, app } = useStore();
+    const { smart_trading } = useStore();
     const {
         digit_stats,
         ticks,
@@ -25,8 +25,6 @@ const VSenseTurboTab = observer(() => {
         current_price,
         last_digit,
         markets,
-        updateDigitStats,
-        active_symbols_data,
         v_sense_signals,
         is_turbo_bot_running,
         turbo_bot_state,
@@ -38,43 +36,8 @@ const VSenseTurboTab = observer(() => {
         session_pl,
         is_connected,
     } = smart_trading;
-    const ticks_service = app.api_helpers_store?.ticks_service;
 
-    useEffect(() => {
-        if (!ticks_service || !symbol) return;
-
-        let is_mounted = true;
-        let listenerKey: string | null = null;
-
-        const monitorTicks = async () => {
-            const callback = (ticks_data: { quote: string | number }[]) => {
-                if (is_mounted && ticks_data && ticks_data.length > 0) {
-                    const latest = ticks_data[ticks_data.length - 1];
-                    const symbol_info = active_symbols_data[symbol];
-
-                    const last_digits = ticks_data.slice(-100).map(t => {
-                        let quote_str = String(t.quote || '0');
-                        if (symbol_info && typeof t.quote === 'number') {
-                            const decimals = Math.abs(Math.log10(symbol_info.pip));
-                            quote_str = t.quote.toFixed(decimals);
-                        }
-                        const digit = parseInt(quote_str[quote_str.length - 1]);
-                        return isNaN(digit) ? 0 : digit;
-                    });
-                    updateDigitStats(last_digits, latest.quote);
-                }
-            };
-
-            listenerKey = await ticks_service.monitor({ symbol, callback });
-        };
-
-        monitorTicks();
-
-        return () => {
-            is_mounted = false;
-            if (listenerKey) ticks_service.stopMonitor({ symbol, key: listenerKey });
-        };
-    }, [symbol, ticks_service, updateDigitStats, active_symbols_data]);
+    useEffect(() => smart_trading.watchTicks(100), [smart_trading]);
 
     const total_trades = wins + losses;
     const win_rate = total_trades > 0 ? (wins / total_trades) * 100 : 0;
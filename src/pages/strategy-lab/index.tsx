@@ -0,0 +1,3 @@
+import StrategyLab from './strategy-lab';
+
+export default StrategyLab;
@@ -0,0 +1,211 @@
+import React from 'react';
+import classNames from 'classnames';
+import { observer } from 'mobx-react-lite';
+import { useStore } from '@/hooks/useStore';
+import { LAB_CONTRACTS, TLabContract, TLabPredictorId, TLabVerdict, TWalkForwardOptions } from '@/lib/ai/strategy-lab';
+import { Localize, localize } from '@deriv-com/translations';
+import './strategy-lab.scss';
+
+const getPredictorName = (id: TLabPredictorId) =>
+    ({
+        frequency_baseline: localize('Naive frequency baseline'),
+        multi_step: localize('Multi-step predictor'),
+        neural_pattern: localize('Neural pattern recognizer'),
+        anomaly_detector: localize('Anomaly detector'),
+        smart_predictor: localize('Smart predictor'),
+        vsense: localize('V-Sense engine'),
+        ai_predictor: localize('AI predictor'),
+    })[id];
+
+const getContractName = (contract: TLabContract) =>
+    ({
+        matches: localize('Matches'),
+        differs: localize('Differs'),
+        even_odd: localize('Even/Odd'),
+        over_under: localize('Over 4/Under 5'),
+    })[contract];
+
+const getVerdictText = (verdict: TLabVerdict) =>
+    ({
+        better: localize('Better than chance'),
+        chance: localize('No better than chance'),
+        worse: localize('Worse than chance'),
+        insufficient: localize('Too few calls'),
+    })[verdict];
+
+const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const OPTION_INPUTS: { key: keyof TWalkForwardOptions; getLabel: () => string; min: number }[] = [
+    { key: 'train_size', getLabel: () => localize('Training window (ticks)'), min: 1 },
+    { key: 'retrain_every', getLabel: () => localize('Refit every (ticks)'), min: 1 },
+    { key: 'max_predictions', getLabel: () => localize('Ticks to evaluate (0 = all)'), min: 0 },
+    { key: 'seed', getLabel: () => localize('Random seed'), min: 0 },
+];
+
+const StrategyLab = observer(() => {
+    const { strategy_lab, tick_history } = useStore();
+    const {
+        error_message,
+        is_running,
+        loadSummaries,
+        options,
+        progress,
+        report,
+        report_symbol,
+        runLab,
+        setOption,
+        setSymbol,
+        stopLab,
+        summaries,
+        symbol,
+    } = strategy_lab;
+
+    React.useEffect(() => {
+        // Reload after the tick history modal closes, in case ticks were imported or deleted.
+        if (!tick_history.is_modal_open) loadSummaries();
+    }, [tick_history.is_modal_open, loadSummaries]);
+
+    return (
+        <div className='strategy-lab'>
+            <div className='strategy-lab__header'>
+                <h2>
+                    <Localize i18n_default_text='Strategy Lab' />
+                </h2>
+                <p>
+                    <Localize i18n_default_text='Runs every digit predictor over the same recorded ticks. Each tick is predicted only from the ticks before it, and the hit rate of every contract type is compared with the rate a random guess would achieve.' />
+                </p>
+            </div>
+
+            <div className='strategy-lab__controls'>
+                <div className='strategy-lab__field'>
+                    <label htmlFor='strategy-lab-dataset'>{localize('Recorded ticks')}</label>
+                    <select
+                        id='strategy-lab-dataset'
+                        value={symbol}
+                        onChange={e => setSymbol(e.target.value)}
+                        disabled={is_running || !summaries.length}
+                    >
+                        {!summaries.length && <option value=''>{localize('No ticks recorded yet')}</option>}
+                        {summaries.map(({ symbol: summary_symbol, count }) => (
+                            <option key={summary_symbol} value={summary_symbol}>
+                                {localize('{{ symbol }} ({{ count }} ticks)', { symbol: summary_symbol, count })}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                {OPTION_INPUTS.map(({ key, getLabel, min }) => (
+                    <div key={key} className='strategy-lab__field'>
+                        <label htmlFor={`strategy-lab-${key}`}>{getLabel()}</label>
+                        <input
+                            id={`strategy-lab-${key}`}
+                            type='number'
+                            min={min}
+                            value={options[key]}
+                            onChange={e => setOption(key, Math.max(min, Number(e.target.value)))}
+                            disabled={is_running}
+                        />
+                    </div>
+                ))}
+                <div className='strategy-lab__actions'>
+                    <button type='button' className='strategy-lab__button' onClick={tick_history.toggleModal}>
+                        {localize('Manage ticks')}
+                    </button>
+                    <button
+                        type='button'
+                        className='strategy-lab__button strategy-lab__button--primary'
+                        onClick={is_running ? stopLab : runLab}
+                        disabled={!is_running && !symbol}
+                    >
+                        {is_running ? localize('Stop') : localize('Run comparison')}
+                    </button>
+                </div>
+            </div>
+
+            {is_running && progress && (
+                <p className='strategy-lab__progress'>
+                    {localize('Evaluating {{ predictor }}: {{ completed }} of {{ total }} ticks', {
+                        predictor: getPredictorName(progress.predictor_id),
+                        completed: progress.completed,
+                        total: progress.total,
+                    })}
+                </p>
+            )}
+            {error_message && <p className='strategy-lab__error'>{error_message}</p>}
+
+            {report && (
+                <div className='strategy-lab__report'>
+                    <p className='strategy-lab__summary'>
+                        {localize(
+                            '{{ symbol }}: {{ count }} digits, training window of {{ train_size }} ticks, refit every {{ retrain_every }} ticks. Intervals are 95% Wilson intervals.',
+                            {
+                                symbol: report_symbol,
+                                count: report.dataset_size,
+                                train_size: report.options.train_size,
+                                retrain_every: report.options.retrain_every,
+                            }
+                        )}
+                    </p>
+                    {LAB_CONTRACTS.map(contract => (
+                        <div key={contract} className='strategy-lab__contract'>
+                            <h3>
+                                {getContractName(contract)}
+                                <span>
+                                    {localize('Chance: {{ rate }}', {
+                                        rate: formatPercentage(
+                                            report.evaluations[0]?.contracts[contract].chance_rate ?? 0
+                                        ),
+                                    })}
+                                </span>
+                            </h3>
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th>{localize('Predictor')}</th>
+                                        <th>{localize('Calls')}</th>
+                                        <th>{localize('Hit rate')}</th>
+                                        <th>{localize('95% interval')}</th>
+                                        <th>{localize('Edge')}</th>
+                                        <th>{localize('p-value')}</th>
+                                        <th>{localize('Verdict')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.evaluations.map(({ predictor_id, opportunities, contracts }) => {
+                                        const { predictions, hit_rate, interval, edge, p_value, verdict } =
+                                            contracts[contract];
+                                        return (
+                                            <tr key={predictor_id}>
+                                                <td>{getPredictorName(predictor_id)}</td>
+                                                <td>{`${predictions} / ${opportunities}`}</td>
+                                                <td>{predictions ? formatPercentage(hit_rate) : '-'}</td>
+                                                <td>
+                                                    {predictions
+                                                        ? `${formatPercentage(interval.lower)} – ${formatPercentage(interval.upper)}`
+                                                        : '-'}
+                                                </td>
+                                                <td>{predictions ? formatPercentage(edge) : '-'}</td>
+                                                <td>{predictions ? p_value.toFixed(3) : '-'}</td>
+                                                <td>
+                                                    <span
+                                                        className={classNames(
+                                                            'strategy-lab__verdict',
+                                                            `strategy-lab__verdict--${verdict}`
+                                                        )}
+                                                    >
+                                                        {getVerdictText(verdict)}
+                                                    </span>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+});
+
+export default StrategyLab;
@@ -0,0 +1,74 @@
+import { risk_manager } from '@/external/bot-skeleton/services/risk';
+import MultiBotStore from '../multi-bot-store';
+import RiskStore from '../risk-store';
+import RootStore from '../root-store';
+
+jest.mock('@deriv-com/translations', () => ({ localize: (text: string) => text }));
+jest.mock('@/external/bot-skeleton', () => ({
+    DBot: { initializeInterpreter: jest.fn() },
+    getSavedWorkspaces: jest.fn(async () => [{ id: 'strategy-1', name: 'Martingale', xml: '<xml />' }]),
+}));
+jest.mock('@/components/bot-notification/bot-notification', () => ({ botNotification: jest.fn() }));
+jest.mock('@/external/bot-skeleton/services/multi-bot', () => {
+    const active_bots = jest.requireActual('@/external/bot-skeleton/services/multi-bot/active-bots');
+    const listeners = new Set<(bots: unknown[]) => void>();
+    const mockRunner = {
+        bots: [] as { status: string }[],
+        getBots: () => [...mockRunner.bots],
+        subscribe: (listener: (bots: unknown[]) => void) => listeners.add(listener),
+        notify: () => listeners.forEach(listener => listener(mockRunner.getBots())),
+        start: jest.fn(async ({ id, name }: { id: string; name: string }) => {
+            mockRunner.bots = [
+                ...mockRunner.bots,
+                { ...active_bots.createActiveBot({ id: 'bot-1', strategy_id: id, name, symbol: 'R_100' }, 1000) },
+            ];
+            mockRunner.notify();
+        }),
+        stopAll: jest.fn(() => {
+            mockRunner.bots = mockRunner.bots.map(bot => ({ ...bot, status: 'stopped' }));
+            mockRunner.notify();
+        }),
+    };
+    return { ...active_bots, multi_bot_runner: mockRunner };
+});
+
+const createRootStore = () => {
+    const root_store = {
+        client: { loginid: 'CR1', is_logged_in: true },
+        paper_trading: { is_enabled: false },
+        self_exclusion: { should_bot_run: true },
+        ui: { setAccountSwitcherDisabledMessage: jest.fn() },
+        run_panel: { is_running: false, stopBot: jest.fn() },
+        smart_trading: { stopAllBots: jest.fn() },
+        auto_trader: { stopAllBots: jest.fn() },
+        copy_trader: { stopMirroring: jest.fn() },
+    } as unknown as RootStore;
+    root_store.multi_bot = new MultiBotStore(root_store);
+    root_store.risk = new RiskStore(root_store);
+    return root_store;
+};
+
+describe('RiskStore', () => {
+    afterEach(() => risk_manager.releaseKillSwitch());
+
+    it('should stop the bots running side by side when the kill switch engages', async () => {
+        const { multi_bot } = createRootStore();
+        multi_bot.setSelectedStrategyId('strategy-1');
+        await multi_bot.startBot();
+        expect(multi_bot.has_active_bots).toBe(true);
+
+        risk_manager.engageKillSwitch();
+
+        expect(multi_bot.has_active_bots).toBe(false);
+    });
+
+    it('should stop every other trading surface as well', () => {
+        const { auto_trader, copy_trader, risk, smart_trading } = createRootStore();
+
+        risk.engageKillSwitch();
+
+        expect(smart_trading.stopAllBots).toHaveBeenCalled();
+        expect(auto_trader.stopAllBots).toHaveBeenCalled();
+        expect(copy_trader.stopMirroring).toHaveBeenCalled();
+    });
+});
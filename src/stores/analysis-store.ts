@@ -67,13 +67,7 @@ export default class AnalysisStore {
     updateDigitStats = (last_digits: number[], price: string | number) => {
         runInAction(() => {
             this.current_price = price;
-            const price_str = String(price);
-            const last_char = price_str[price_str.length - 1];
-            const current_digit = parseInt(last_char);
-
-            if (!isNaN(current_digit)) {
-                this.last_digit = current_digit;
-            }
+            if (last_digits.length) this.last_digit = last_digits[last_digits.length - 1];
 
             this.ticks = last_digits;
             this.updateStats();
@@ -1,5 +1,13 @@
 import { action, makeObservable, observable, reaction, runInAction } from 'mobx';
 import { ApiHelpers } from '@/external/bot-skeleton';
+import {
+    createStakingPlan,
+    getStakingPlanConfig,
+    STAKING_PLAN_PARAMETERS,
+    StakingPlan,
+    TStakingPlanId,
+} from '@/external/bot-skeleton/services/staking-plans';
+import { trade_executor, TradeExecutionError, TTradeRequest } from '@/external/bot-skeleton/services/trade-execution';
 import RootStore from './root-store';
 
 export type TDigitStat = {
@@ -20,10 +28,16 @@ export type TAutoBot = {
     trades: number;
     wins: number;
     losses: number;
+    // Overrides the staking plan of the bot settings for this bot
+    staking_plan?: TStakingPlanId;
 };
 
+// Key of the staking plan used by the market strategy trades
+const STRATEGY_STAKING_KEY = 'strategy';
+
 export default class AutoTraderStore {
     root_store: RootStore;
+    staking_plans = new Map<string, StakingPlan>();
 
     @observable accessor active_sub_tab: TProSubTab = 'Speedbot';
     @observable accessor digit_stats: TDigitStat[] = Array.from({ length: 10 }, (_, i) => ({
@@ -75,7 +89,9 @@ export default class AutoTraderStore {
     @observable accessor use_capital_percentage = false;
     @observable accessor take_profit = 10;
     @observable accessor stop_loss = 10;
-    @observable accessor martingale_enabled = true;
+    @observable accessor staking_plan: TStakingPlanId = 'martingale';
+    // Parameter of staking plans other than the martingale ones, which use `martingale_multiplier`
+    @observable accessor staking_parameter: number | undefined = undefined;
     @observable accessor martingale_multiplier = 2;
     @observable accessor anti_martingale_enabled = false;
     @observable accessor total_profit = 0;
@@ -218,26 +234,20 @@ export default class AutoTraderStore {
         // Update first digit stats - Extract leading digit from price history
         this.updateFirstDigitStats(last_digits);
 
+        const current_digit = last_digits[last_digits.length - 1];
+        this.last_digit = current_digit;
+
         if (price !== undefined && price !== null) {
             this.current_price = price;
-            // Robustly get the last digit regardless of format
-            const price_str = String(price);
-            const match = price_str.match(/\d$/);
-            if (match) {
-                const current_digit = parseInt(match[0]);
-                this.last_digit = current_digit;
-
-                // Track streaks
-                if (current_digit % 2 === 0) {
-                    this.consecutive_even++;
-                    this.consecutive_odd = 0;
-                } else {
-                    this.consecutive_odd++;
-                    this.consecutive_even = 0;
-                }
+
+            // Track streaks
+            if (current_digit % 2 === 0) {
+                this.consecutive_even++;
+                this.consecutive_odd = 0;
+            } else {
+                this.consecutive_odd++;
+                this.consecutive_even = 0;
             }
-        } else {
-            this.last_digit = last_digits[last_digits.length - 1];
         }
 
         this.calculateDominance();
@@ -502,7 +512,8 @@ export default class AutoTraderStore {
 
     @action
     executeCustomTrade = async (type: string, prediction: number) => {
-        const current_stake = this.stake; // Manage Martingale here if needed
+        const staking_plan = this.getStakingPlan(STRATEGY_STAKING_KEY, this.staking_plan);
+        const current_stake = staking_plan.getStake({ balance: Number(this.root_store.client.balance) });
         let contract_type = '';
         let barrier = String(prediction);
 
@@ -516,65 +527,66 @@ export default class AutoTraderStore {
         if (type === 'EVEN' || type === 'ODD') barrier = '';
 
         try {
-            const { api_base } = await import('@/external/bot-skeleton');
-            if (!api_base.api) return;
-
-            const proposal_response = await api_base.api.send({
-                proposal: 1,
-                amount: current_stake,
-                basis: 'stake',
-                contract_type,
-                currency: this.root_store.client?.currency || 'USD',
-                duration: 1,
-                duration_unit: 't',
-                symbol: this.symbol,
-                ...(barrier ? { barrier } : {}),
-            });
-
-            if (proposal_response.error) {
-                console.error('Strategy Proposal Error:', proposal_response.error);
-                return;
-            }
-
-            const proposal_id = proposal_response.proposal?.id;
-            if (!proposal_id) return;
+            const { profit } = await trade_executor.execute(
+                this.getTradeRequest({
+                    contract_type,
+                    stake: current_stake,
+                    barrier,
+                    idempotency_key: 'auto-trader-strategy',
+                }),
+                {
+                    onPurchase: () => console.log(`Strategy Trade Placed: ${type} ${prediction}`),
+                }
+            );
 
-            const buy_response = await api_base.api.send({
-                buy: proposal_id,
-                price: current_stake,
+            runInAction(() => {
+                this.session_profit += profit;
+                this.total_profit += profit;
             });
+            staking_plan.recordResult({ profit, stake: current_stake });
+        } catch (error) {
+            this.handleTradeError(error, () => (this.is_running = false));
+        }
+    };
 
-            if (buy_response.error) {
-                console.error('Strategy Buy Error:', buy_response.error);
-                return;
-            }
+    getStakingPlan = (key: string, plan_id: TStakingPlanId) => {
+        let plan = this.staking_plans.get(key);
+        if (!plan || plan.id !== plan_id) {
+            const is_martingale_plan = STAKING_PLAN_PARAMETERS[plan_id]?.key === 'multiplier';
+            plan = createStakingPlan(
+                getStakingPlanConfig(
+                    plan_id,
+                    this.stake,
+                    is_martingale_plan ? this.martingale_multiplier : this.staking_parameter
+                )
+            );
+            this.staking_plans.set(key, plan);
+        }
+        return plan;
+    };
 
-            const contract_id = buy_response.buy?.contract_id;
-            console.log(`Strategy Trade Placed: ${type} ${prediction}`);
-
-            // Monitor result (Simplified)
-            setTimeout(async () => {
-                const poc = await api_base.api?.send({ proposal_open_contract: 1, contract_id });
-                if (poc?.proposal_open_contract) {
-                    const profit = poc.proposal_open_contract.profit || 0;
-                    const is_win = profit > 0;
-                    runInAction(() => {
-                        this.session_profit += profit;
-                        this.total_profit += profit;
-                        // Handle Martingale Logic here if requested
-                        if (!is_win && this.martingale_enabled) {
-                            this.stake = this.stake * this.martingale_multiplier;
-                        } else if (is_win) {
-                            // Reset stake? dependent on strategy. Let's reset.
-                            // this.stake = initial_stake; // Need to store initial stake
-                        }
-                    });
-                }
-            }, 2500);
+    // Every plan starts over from the initial stake after its settings change.
+    resetStakingPlans = () => {
+        this.staking_plans.clear();
+    };
 
-        } catch (e) {
-            console.error(e);
+    getTradeRequest = (request: Pick<TTradeRequest, 'contract_type' | 'stake'> & Partial<TTradeRequest>) => ({
+        source: 'auto_trader' as const,
+        symbol: this.symbol,
+        currency: this.root_store.client?.currency || 'USD',
+        duration: 1,
+        duration_unit: 't',
+        ...request,
+    });
+
+    handleTradeError = (error: unknown, onRiskLimitReached: () => void) => {
+        const { code } = error as TradeExecutionError;
+        if (code === 'DuplicateTrade') return;
+        if (code === 'RiskLimitReached') {
+            runInAction(onRiskLimitReached);
+            return;
         }
+        console.error('AutoTrader trade error:', error);
     };
 
     @action
@@ -695,94 +707,29 @@ export default class AutoTraderStore {
 
         bot.status = 'Waiting';
 
-        // Calculate current stake based on martingale logic
-        const current_stake = this.stake;
-
-        // Determine contract type based on bot type
-        const contract_type = bot.type === 'Over' ? `DIGITOVER` : `DIGITUNDER`;
-        const barrier = bot.prediction.toString();
+        const staking_plan = this.getStakingPlan(bot.id, bot.staking_plan ?? this.staking_plan);
+        const current_stake = staking_plan.getStake({ balance: Number(this.root_store.client.balance) });
 
         try {
-            // Access the API from api_base
-            const { api_base } = await import('@/external/bot-skeleton');
-
-            if (!api_base.api) {
-                console.error('AutoTrader: API not initialized');
-                bot.status = 'Running';
-                return;
-            }
-
-            // Step 1: Get proposal
-            const proposal_response = await api_base.api.send({
-                proposal: 1,
-                amount: current_stake,
-                basis: 'stake',
-                contract_type,
-                currency: this.root_store.client?.currency || 'USD',
-                duration: 1,
-                duration_unit: 't',
-                symbol: this.symbol,
-                barrier,
-            });
-
-            if (proposal_response.error) {
-                console.error('AutoTrader Proposal Error:', proposal_response.error);
-                runInAction(() => {
-                    bot.status = 'Running';
-                });
-                return;
-            }
-
-            const proposal_id = proposal_response.proposal?.id;
-            if (!proposal_id) {
-                console.error('AutoTrader: No proposal ID received');
-                bot.status = 'Running';
-                return;
-            }
-
-            // Step 2: Buy the contract
-            const buy_response = await api_base.api.send({
-                buy: proposal_id,
-                price: current_stake,
-            });
-
-            if (buy_response.error) {
-                console.error('AutoTrader Buy Error:', buy_response.error);
-                runInAction(() => {
-                    bot.status = 'Running';
-                });
-                return;
-            }
-
-            const contract_id = buy_response.buy?.contract_id;
-            console.log(`AutoTrader: Contract purchased! ID: ${contract_id}`);
-
-            // Step 3: Monitor contract result
-            setTimeout(async () => {
-                try {
-                    const poc_response = await api_base.api?.send({
-                        proposal_open_contract: 1,
-                        contract_id,
-                    });
-
-                    if (poc_response?.proposal_open_contract) {
-                        const contract = poc_response.proposal_open_contract;
-                        const is_win = contract.status === 'won';
-                        const profit = contract.profit || 0;
-                        this.handleTradeResult(bot.id, is_win, current_stake, profit);
-                    }
-                } catch (e) {
-                    console.error('AutoTrader: Error checking contract result', e);
-                    // Fallback to Running state
-                    runInAction(() => {
-                        bot.status = 'Running';
-                    });
+            const { is_win, profit } = await trade_executor.execute(
+                this.getTradeRequest({
+                    // Determine contract type based on bot type
+                    contract_type: bot.type === 'Over' ? 'DIGITOVER' : 'DIGITUNDER',
+                    stake: current_stake,
+                    barrier: bot.prediction,
+                    idempotency_key: `auto-trader-${bot.id}`,
+                }),
+                {
+                    onPurchase: ({ contract_id }) => console.log(`AutoTrader: Contract purchased! ID: ${contract_id}`),
                 }
-            }, 3000);
+            );
+
+            staking_plan.recordResult({ profit, stake: current_stake });
+            this.handleTradeResult(bot.id, is_win, current_stake, profit);
         } catch (error) {
-            console.error('AutoTrader execution error:', error);
+            this.handleTradeError(error, () => (bot.status = 'Idle'));
             runInAction(() => {
-                bot.status = 'Running';
+                if (bot.status === 'Waiting') bot.status = 'Running';
             });
         }
     };
@@ -797,7 +744,6 @@ export default class AutoTraderStore {
             runInAction(() => {
                 if (is_win) {
                     bot.wins++;
-                    // Reset stake multiplier on win if we were martingaling
                 } else {
                     bot.losses++;
                 }
@@ -817,6 +763,12 @@ export default class AutoTraderStore {
         }
     };
 
+    @action
+    stopAllBots = () => {
+        this.is_running = false;
+        this.bots.forEach(bot => (bot.status = 'Idle'));
+    };
+
     @action
     handleAutoSwitch = (bot: TAutoBot) => {
         // Logic for finding corresponding bot might need refined mapping
@@ -833,13 +785,36 @@ export default class AutoTraderStore {
     updateBotStatus = (id: string, status: TBotStatus) => {
         const bot = this.bots.find(b => b.id === id);
         if (bot) {
+            if (bot.status === 'Idle' && status !== 'Idle') this.staking_plans.delete(bot.id);
             bot.status = status;
         }
     };
 
+    @action
+    setBotStakingPlan = (id: string, plan_id?: TStakingPlanId) => {
+        const bot = this.bots.find(b => b.id === id);
+        if (bot) {
+            bot.staking_plan = plan_id;
+            this.staking_plans.delete(bot.id);
+        }
+    };
+
     @action
     setStake = (val: number) => {
         this.stake = val;
+        this.resetStakingPlans();
+    };
+
+    @action
+    setStakingPlan = (plan_id: TStakingPlanId) => {
+        this.staking_plan = plan_id;
+        this.resetStakingPlans();
+    };
+
+    @action
+    setStakingParameter = (val: number) => {
+        this.staking_parameter = val;
+        this.resetStakingPlans();
     };
 
     @action
@@ -855,6 +830,7 @@ export default class AutoTraderStore {
     @action
     setMartingale = (val: number) => {
         this.martingale_multiplier = val;
+        this.resetStakingPlans();
     };
 
     @action
@@ -867,6 +843,7 @@ export default class AutoTraderStore {
             bot.losses = 0;
             bot.status = 'Idle';
         });
+        this.resetStakingPlans();
         this.active_strategy = null;
         this.strategy_status = 'WAIT';
         this.trade_message = '';
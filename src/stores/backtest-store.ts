@@ -0,0 +1,117 @@
+import { action, makeObservable, observable, runInAction } from 'mobx';
+import {
+    parseTickFile,
+    runBacktest,
+    TBacktestProgress,
+    TBacktestResult,
+    TReplayDataset,
+} from '@/external/bot-skeleton/services/backtest';
+import RootStore from './root-store';
+
+const PROGRESS_UPDATE_INTERVAL = 25;
+
+export default class BacktestStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_modal_open: observable,
+            is_running: observable,
+            dataset: observable.ref,
+            file_name: observable,
+            initial_balance: observable,
+            progress: observable.ref,
+            result: observable.ref,
+            error_message: observable,
+            toggleModal: action.bound,
+            setDataset: action.bound,
+            setInitialBalance: action.bound,
+            onFileChange: action.bound,
+            startBacktest: action.bound,
+            stopBacktest: action.bound,
+        });
+
+        this.root_store = root_store;
+    }
+
+    is_modal_open = false;
+    is_running = false;
+    dataset: TReplayDataset | null = null;
+    file_name = '';
+    initial_balance = 1000;
+    progress: TBacktestProgress | null = null;
+    result: TBacktestResult | null = null;
+    error_message = '';
+    should_stop = false;
+
+    toggleModal = () => {
+        if (this.is_running) return;
+        this.is_modal_open = !this.is_modal_open;
+    };
+
+    setDataset = (dataset: TReplayDataset | null, file_name = '') => {
+        this.dataset = dataset;
+        this.file_name = file_name;
+        this.result = null;
+        this.error_message = '';
+    };
+
+    setInitialBalance = (initial_balance: number) => {
+        this.initial_balance = initial_balance;
+    };
+
+    onFileChange = async (file: File) => {
+        try {
+            const content = await file.text();
+            this.setDataset(parseTickFile(content), file.name);
+        } catch (error) {
+            runInAction(() => {
+                this.setDataset(null);
+                this.error_message = (error as Error).message;
+            });
+        }
+    };
+
+    startBacktest = async () => {
+        const { run_panel } = this.root_store;
+
+        if (!this.dataset || this.is_running) return;
+
+        this.is_running = true;
+        this.should_stop = false;
+        this.result = null;
+        this.progress = null;
+        this.error_message = '';
+
+        try {
+            const result = await runBacktest({
+                code: run_panel.dbot.generateCode(),
+                dataset: this.dataset,
+                initial_balance: this.initial_balance,
+                currency: this.root_store.client.currency || 'USD',
+                onProgress: progress => {
+                    if (progress.processed_ticks % PROGRESS_UPDATE_INTERVAL === 0) {
+                        runInAction(() => (this.progress = progress));
+                    }
+                },
+                shouldStop: () => this.should_stop,
+            });
+            runInAction(() => {
+                this.result = result;
+                this.error_message = result.error ?? '';
+            });
+        } catch (error) {
+            runInAction(() => {
+                this.error_message = (error as Error).message;
+            });
+        } finally {
+            runInAction(() => {
+                this.is_running = false;
+            });
+        }
+    };
+
+    stopBacktest = () => {
+        this.should_stop = true;
+    };
+}
@@ -0,0 +1,172 @@
+import { action, computed, makeObservable, observable, runInAction } from 'mobx';
+import { botNotification } from '@/components/bot-notification/bot-notification';
+import { DBOT_TABS } from '@/constants/bot-contents';
+import {
+    bot_library,
+    checkBotXml,
+    getImportIssueMessage,
+    getManifestValues,
+    searchBots,
+    TBotCategory,
+    TBotImportIssue,
+    TBotManifest,
+    TBotRiskLevel,
+    TLibraryBot,
+    TNewLibraryBot,
+} from '@/external/bot-skeleton/services/bot-library';
+import { FREE_BOTS_DATA } from '@/pages/free-bots/free-bots-data';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+export const LIBRARY_CATEGORIES: TBotCategory[] = ['Popular', 'Automatic', 'Hybrid', 'Normal', 'My'];
+
+export default class BotLibraryStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            user_bots: observable.ref,
+            query: observable,
+            category: observable,
+            risk_level: observable,
+            contract_type: observable,
+            is_loading: observable,
+            issues: observable.ref,
+            bots: computed,
+            filtered_bots: computed,
+            contract_types: computed,
+            loadLibrary: action.bound,
+            setQuery: action.bound,
+            setCategory: action.bound,
+            setRiskLevel: action.bound,
+            setContractType: action.bound,
+            loadBotToBuilder: action.bound,
+            addBotToLibrary: action.bound,
+            removeBot: action.bound,
+        });
+
+        this.root_store = root_store;
+        this.loadLibrary();
+    }
+
+    user_bots: TLibraryBot[] = [];
+    query = '';
+    category: TBotCategory | null = 'Popular';
+    risk_level: TBotRiskLevel | null = null;
+    contract_type: string | null = null;
+    is_loading = false;
+    /** The import check findings of the bots loaded so far, by bot id. */
+    issues: Record<string, TBotImportIssue[]> = {};
+
+    get bots(): TBotManifest[] {
+        return [...FREE_BOTS_DATA, ...this.user_bots.map(({ manifest }) => manifest)];
+    }
+
+    get filtered_bots() {
+        const { category, contract_type, query, risk_level } = this;
+        // Searching looks through every category.
+        return searchBots(this.bots, { query, category: query.trim() ? null : category, risk_level, contract_type });
+    }
+
+    get contract_types() {
+        return getManifestValues(this.bots, 'contract_types');
+    }
+
+    async loadLibrary() {
+        const user_bots = await bot_library.getBots();
+        runInAction(() => (this.user_bots = user_bots));
+    }
+
+    setQuery(query: string) {
+        this.query = query;
+    }
+
+    setCategory(category: TBotCategory) {
+        this.category = category;
+    }
+
+    setRiskLevel(risk_level: TBotRiskLevel | null) {
+        this.risk_level = risk_level;
+    }
+
+    setContractType(contract_type: string | null) {
+        this.contract_type = contract_type;
+    }
+
+    async getBotXml(manifest: TBotManifest) {
+        if (!manifest.xml_path) {
+            return this.user_bots.find(bot => bot.manifest.id === manifest.id)?.xml ?? '';
+        }
+        const response = await fetch(`/${manifest.xml_path}`);
+        if (!response.ok) throw new Error(`Failed to fetch ${manifest.xml_path}`);
+        return response.text();
+    }
+
+    /**
+     * Checks a bot and loads it into Bot Builder once the user has reviewed what the
+     * strategy scanner found. Bots that fail the check don't load.
+     */
+    async loadBotToBuilder(manifest: TBotManifest) {
+        this.is_loading = true;
+        try {
+            const xml = await this.getBotXml(manifest);
+            const issues = checkBotXml(xml, { checksum: manifest.checksum });
+            runInAction(() => {
+                this.issues = { ...this.issues, [manifest.id]: issues };
+                // The loading overlay would cover the review of the findings.
+                this.is_loading = false;
+            });
+
+            if (issues.length) {
+                botNotification(
+                    localize('{{ bot_name }} wasn’t loaded. {{ reason }}', {
+                        bot_name: manifest.name,
+                        reason: getImportIssueMessage(issues[0]),
+                    })
+                );
+                return;
+            }
+            if (!(await this.root_store.strategy_scan.reviewImport(xml, manifest.name))) return;
+            await this.openInBuilder(manifest, xml);
+        } catch (error) {
+            console.error('Error loading bot:', error);
+            botNotification(localize('{{ bot_name }} couldn’t be loaded.', { bot_name: manifest.name }));
+        } finally {
+            runInAction(() => (this.is_loading = false));
+        }
+    }
+
+    async openInBuilder(manifest: TBotManifest, xml: string) {
+        const { dashboard, load_modal } = this.root_store;
+        await load_modal.loadStrategyToBuilder({ id: manifest.id, name: manifest.name, xml, save_type: 'local' });
+        dashboard.setActiveTab(DBOT_TABS.BOT_BUILDER);
+    }
+
+    /** Adds a strategy to the library of the user, or makes a new version of a bot with its name. */
+    async addBotToLibrary(bot: TNewLibraryBot) {
+        const issues = checkBotXml(bot.xml);
+        if (issues.length) {
+            botNotification(
+                localize('{{ bot_name }} wasn’t added to your library. {{ reason }}', {
+                    bot_name: bot.name,
+                    reason: getImportIssueMessage(issues[0]),
+                })
+            );
+            return;
+        }
+
+        const { manifest } = await bot_library.addBot(bot);
+        await this.loadLibrary();
+        botNotification(
+            localize('{{ bot_name }} {{ version }} is in your bot library.', {
+                bot_name: manifest.name,
+                version: manifest.version,
+            })
+        );
+    }
+
+    async removeBot(bot_id: string) {
+        await bot_library.removeBot(bot_id);
+        await this.loadLibrary();
+    }
+}
@@ -0,0 +1,79 @@
+import { action, computed, makeObservable, observable } from 'mobx';
+import { observer as globalObserver } from '@/external/bot-skeleton';
+import {
+    hasLintErrors,
+    loadLintSeverities,
+    saveLintSeverities,
+    TLintFinding,
+    TLintRule,
+    TLintSeverities,
+    TLintSeverity,
+} from '@/external/bot-skeleton/services/bot-linter';
+import { TBotSkeleton } from '@/types';
+import RootStore from './root-store';
+
+export default class BotLinterStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_panel_open: observable,
+            findings: observable.ref,
+            severities: observable.ref,
+            error_message: observable,
+            error_count: computed,
+            warning_count: computed,
+            togglePanel: action.bound,
+            runLint: action.bound,
+            setFindings: action.bound,
+            setSeverity: action.bound,
+            jumpToBlock: action.bound,
+        });
+
+        this.root_store = root_store;
+        // Every run is linted first, so the panel shows what stopped the bot.
+        globalObserver.register('bot.lint', this.setFindings);
+    }
+
+    is_panel_open = false;
+    findings: TLintFinding[] = [];
+    severities: TLintSeverities = loadLintSeverities();
+    error_message = '';
+
+    get error_count() {
+        return this.findings.filter(({ severity }) => severity === 'error').length;
+    }
+
+    get warning_count() {
+        return this.findings.filter(({ severity }) => severity === 'warning').length;
+    }
+
+    togglePanel = () => {
+        this.is_panel_open = !this.is_panel_open;
+        if (this.is_panel_open) this.runLint();
+    };
+
+    runLint = () => {
+        this.error_message = '';
+        try {
+            this.findings = (this.root_store.dbot as TBotSkeleton).lintWorkspace();
+        } catch (error) {
+            this.error_message = (error as Error).message;
+        }
+    };
+
+    setFindings = (findings: TLintFinding[]) => {
+        this.findings = findings;
+        if (hasLintErrors(findings)) this.is_panel_open = true;
+    };
+
+    setSeverity = (rule: TLintRule, severity: TLintSeverity) => {
+        this.severities = { ...this.severities, [rule]: severity };
+        saveLintSeverities(this.severities);
+        if (this.is_panel_open) this.runLint();
+    };
+
+    jumpToBlock = (block_id: string) => {
+        (this.root_store.dbot as TBotSkeleton).centerAndHighlightBlock(block_id, true);
+    };
+}
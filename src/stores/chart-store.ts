@@ -1,6 +1,15 @@
 import { action, computed, makeObservable, observable, reaction } from 'mobx';
 import { LocalStore } from '@/components/shared';
+import { TContractInfo } from '@/components/summary/summary-card.types';
+import { transaction_elements } from '@/constants/transactions';
 import { api_base } from '@/external/bot-skeleton';
+import {
+    getChartContracts,
+    getContractBarrier,
+    getSessionProfit,
+    getTradeMarkers,
+    TChartBarrier,
+} from '@/external/bot-skeleton/services/chart-markers';
 import RootStore from './root-store';
 
 type TSubscription = {
@@ -16,11 +25,17 @@ export default class ChartStore {
             is_chart_loading: observable,
             chart_type: observable,
             granularity: observable,
+            is_profit_panel_visible: observable,
             is_contract_ended: computed,
+            chart_contracts: computed,
+            trade_markers: computed,
+            barriers: computed,
+            session_profit: computed,
             updateSymbol: action,
             onSymbolChange: action,
             updateGranularity: action,
             updateChartType: action,
+            toggleProfitPanel: action,
             setChartStatus: action,
             restoreFromStorage: action,
             chart_subscription_id: observable,
@@ -48,6 +63,7 @@ export default class ChartStore {
     is_chart_loading: boolean | undefined;
     chart_type: string | undefined;
     granularity: number | undefined;
+    is_profit_panel_visible = false;
 
     get is_contract_ended() {
         const { transactions } = this.root_store;
@@ -55,6 +71,26 @@ export default class ChartStore {
         return transactions.contracts.length > 0 && transactions.contracts[0].is_ended;
     }
 
+    /** The contracts of the transactions list bought on the chart symbol. */
+    get chart_contracts() {
+        const contracts = this.root_store.transactions.transactions
+            .filter(({ type, data }) => type === transaction_elements.CONTRACT && typeof data === 'object')
+            .map(({ data }) => data as TContractInfo);
+        return this.symbol ? getChartContracts(contracts, this.symbol) : [];
+    }
+
+    get trade_markers() {
+        return this.chart_contracts.flatMap(getTradeMarkers);
+    }
+
+    get barriers() {
+        return this.chart_contracts.map(getContractBarrier).filter((barrier): barrier is TChartBarrier => !!barrier);
+    }
+
+    get session_profit() {
+        return getSessionProfit(this.chart_contracts);
+    }
+
     onStartBot = () => {
         this.updateSymbol();
     };
@@ -90,6 +126,11 @@ export default class ChartStore {
         this.saveToLocalStorage();
     };
 
+    toggleProfitPanel = () => {
+        this.is_profit_panel_visible = !this.is_profit_panel_visible;
+        this.saveToLocalStorage();
+    };
+
     setChartStatus = (status: boolean) => {
         this.is_chart_loading = status;
     };
@@ -101,6 +142,7 @@ export default class ChartStore {
                 symbol: this.symbol,
                 granularity: this.granularity,
                 chart_type: this.chart_type,
+                is_profit_panel_visible: this.is_profit_panel_visible,
             })
         );
     };
@@ -110,10 +152,11 @@ export default class ChartStore {
             const props = LocalStore.get('bot.chart_props');
 
             if (props) {
-                const { symbol, granularity, chart_type } = JSON.parse(props);
+                const { symbol, granularity, chart_type, is_profit_panel_visible } = JSON.parse(props);
                 this.symbol = symbol;
                 this.granularity = granularity;
                 this.chart_type = chart_type;
+                this.is_profit_panel_visible = !!is_profit_panel_visible;
             } else {
                 this.granularity = 0;
                 this.chart_type = 'line';
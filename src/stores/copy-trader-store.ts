@@ -2,35 +2,80 @@ import { action, makeObservable, observable, reaction, runInAction } from 'mobx'
 import { ProposalOpenContract } from '@deriv/api-types';
 import RootStore from './root-store';
 import { getAppId } from '@/components/shared';
+import {
+    addDailyProfit,
+    DEFAULT_REPLICATION_RULES,
+    getDailyProfit,
+    getReplicationDecision,
+    TDailyProfit,
+    TReplicationOutcome,
+    TReplicationRecord,
+    TReplicationRules,
+    TSkipReason,
+    TSourceTrade,
+} from '@/external/bot-skeleton/services/copy-trading';
+import { getRunTrade } from '@/external/bot-skeleton/services/run-history';
 
 export type TCopyAccount = {
+    /** Keys a target until it is authorized, so its token is never used as a key. */
+    id?: string;
     token: string;
+    loginid?: string;
     label?: string;
     type: 'Source' | 'Target';
     status: 'Connected' | 'Pending' | 'Error';
     account_type: string;
     balance: string;
+    balance_amount?: number;
     currency: string;
     ws?: WebSocket;
     profit_loss?: number;
     trades_count?: number;
+    rules?: TReplicationRules;
+    daily_profit?: TDailyProfit;
 };
 
-export type TTradeResult = {
-    timestamp: number;
-    market: string;
-    stake: number;
-    status: 'Success' | 'Failed';
-    message: string;
-    target_label: string;
-    contract_id?: number | string;
+type TMirroredContract = {
+    position_id: string | null;
+    source_contract_id: string | number;
+    target: TCopyAccount;
 };
 
+const MAX_REPLICATION_RECORDS = 200;
+const RESPONSE_TIMEOUT = 5000;
+
+const SKIP_MESSAGES: Record<TSkipReason, string> = {
+    Paused: 'Copying is paused for this target',
+    ContractTypeNotAllowed: 'Contract type is not in the allow-list',
+    SymbolNotAllowed: 'Symbol is not in the allow-list',
+    DailyLossCapReached: 'Daily loss cap reached',
+    InvalidStake: 'Stake could not be calculated',
+};
+
+export const getTargetKey = (account: TCopyAccount) => account.loginid || account.id || '';
+
+let target_count = 0;
+
+const createTargetAccount = (label: string): TCopyAccount => ({
+    id: `target-${++target_count}`,
+    token: '',
+    label,
+    type: 'Target',
+    status: 'Pending',
+    account_type: '-',
+    balance: '-',
+    currency: '-',
+    rules: { ...DEFAULT_REPLICATION_RULES },
+});
+
 export default class CopyTraderStore {
     root_store: RootStore;
     private _last_mirrored_id: string | number | null = null;
+    private _mirrored_contracts = new Map<string | number, TMirroredContract>();
+    private _pending_buys = new Map<number, TMirroredContract>();
+    private _last_req_id = 0;
 
-    @observable accessor trade_history: TTradeResult[] = [];
+    @observable accessor replications: TReplicationRecord[] = [];
 
     @observable accessor source_account: TCopyAccount = {
         token: '',
@@ -41,20 +86,9 @@ export default class CopyTraderStore {
         currency: '-',
     };
 
-    @observable accessor target_accounts: TCopyAccount[] = [
-        {
-            token: '',
-            label: 'My Target Account',
-            type: 'Target',
-            status: 'Pending',
-            account_type: '-',
-            balance: '-',
-            currency: '-',
-        },
-    ];
+    @observable accessor target_accounts: TCopyAccount[] = [createTargetAccount('My Target Account')];
 
     @observable accessor is_mirroring_internal = false;
-    @observable accessor internal_multiplier = 1;
 
     constructor(root_store: RootStore) {
         makeObservable(this);
@@ -77,8 +111,27 @@ export default class CopyTraderStore {
     };
 
     @action
-    setInternalMultiplier = (value: number) => {
-        this.internal_multiplier = value;
+    stopMirroring = () => {
+        this.is_mirroring_internal = false;
+    };
+
+    @action
+    setTargetRules = (index: number, rules: Partial<TReplicationRules>) => {
+        const account = this.target_accounts[index];
+        if (account) {
+            account.rules = { ...(account.rules ?? DEFAULT_REPLICATION_RULES), ...rules };
+        }
+    };
+
+    @action
+    toggleTargetPause = (index: number) => {
+        const rules = this.target_accounts[index]?.rules ?? DEFAULT_REPLICATION_RULES;
+        this.setTargetRules(index, { is_paused: !rules.is_paused });
+    };
+
+    @action
+    clearReplications = () => {
+        this.replications = [];
     };
 
     @action
@@ -108,15 +161,7 @@ export default class CopyTraderStore {
 
     @action
     addTargetAccount = () => {
-        this.target_accounts.push({
-            token: '',
-            label: `Target Account ${this.target_accounts.length + 1}`,
-            type: 'Target',
-            status: 'Pending',
-            account_type: '-',
-            balance: '-',
-            currency: '-',
-        });
+        this.target_accounts.push(createTargetAccount(`Target Account ${this.target_accounts.length + 1}`));
     };
 
     @action
@@ -147,6 +192,12 @@ export default class CopyTraderStore {
         ws.onmessage = msg => {
             const data = JSON.parse(msg.data);
 
+            // Buys answer with their own errors, which say nothing about the account.
+            if (data.msg_type === 'buy') {
+                this.handleBuyResponse(data);
+                return;
+            }
+
             if (data.error) {
                 console.error('CopyTrader Auth Error:', data.error.message);
                 runInAction(() => {
@@ -158,19 +209,35 @@ export default class CopyTraderStore {
             if (data.msg_type === 'authorize') {
                 runInAction(() => {
                     account.status = 'Connected';
+                    account.loginid = data.authorize.loginid;
                     account.account_type = data.authorize.is_virtual ? 'Demo' : 'Real';
                     account.balance = data.authorize.balance.toLocaleString();
+                    account.balance_amount = Number(data.authorize.balance);
                     account.currency = data.authorize.currency;
                 });
 
+                // Keep balances current for balance-proportional stakes
+                ws.send(JSON.stringify({ balance: 1, subscribe: 1 }));
+
                 // Subscribe to trades on source
                 if (account.type === 'Source') {
                     ws.send(JSON.stringify({ proposal_open_contract: 1, subscribe: 1 }));
                 }
             }
 
+            if (data.msg_type === 'balance') {
+                runInAction(() => {
+                    account.balance = data.balance.balance.toLocaleString();
+                    account.balance_amount = Number(data.balance.balance);
+                });
+            }
+
             if (data.msg_type === 'proposal_open_contract') {
-                this.handleSourceTrade(data.proposal_open_contract);
+                if (account.type === 'Source') {
+                    this.handleSourceTrade(data.proposal_open_contract);
+                } else if (data.proposal_open_contract?.is_sold) {
+                    this.settleMirroredTrade(data.proposal_open_contract);
+                }
             }
         };
 
@@ -181,6 +248,39 @@ export default class CopyTraderStore {
         };
     };
 
+    getSourceBalance = () =>
+        this.is_mirroring_internal
+            ? parseFloat(this.root_store.client.balance) || 0
+            : (this.source_account.balance_amount ?? 0);
+
+    getInitialOutcome = (target: TCopyAccount, trade: TSourceTrade): TReplicationOutcome => {
+        const outcome = { target_key: getTargetKey(target), target_label: target.label || 'Target' };
+        if (target.status !== 'Connected' || !target.ws) {
+            return { ...outcome, status: 'failed', message: 'Target account is not connected' };
+        }
+
+        const decision = getReplicationDecision(target.rules ?? DEFAULT_REPLICATION_RULES, trade, {
+            balance: target.balance_amount ?? 0,
+            source_balance: this.getSourceBalance(),
+            daily_profit: getDailyProfit(target.daily_profit, Date.now()),
+        });
+        if (!decision.should_copy) {
+            return { ...outcome, status: 'skipped', message: SKIP_MESSAGES[decision.reason] };
+        }
+        return { ...outcome, status: 'pending', message: 'Copying trade...', stake: decision.stake };
+    };
+
+    @action
+    updateOutcome = (
+        source_contract_id: string | number,
+        target_key: string,
+        changes: Partial<TReplicationOutcome>
+    ) => {
+        const record = this.replications.find(item => item.source_contract_id === source_contract_id);
+        const outcome = record?.outcomes.find(item => item.target_key === target_key);
+        if (outcome) Object.assign(outcome, changes);
+    };
+
     @action
     handleSourceTrade = (contract: ProposalOpenContract) => {
         // Debounce/Filter to only mirror new 'open' contracts
@@ -191,104 +291,154 @@ export default class CopyTraderStore {
         if (this._last_mirrored_id === contract_id) return;
         this._last_mirrored_id = contract_id;
 
-        console.log('Detected source trade. Mirroring to target accounts...', contract);
-
-        this.target_accounts.forEach(async target => {
-            if (target.status === 'Connected' && target.ws) {
-                const multiplier = this.is_mirroring_internal ? this.internal_multiplier : 1;
-                const original_stake =
-                    parseFloat(String(contract.buy_price || (contract as any).stake || (contract as any).amount)) || 1;
-                const stake = original_stake * multiplier;
-
-                try {
-                    // Step 1: Get proposal on target account
-                    const proposal_request = {
-                        proposal: 1,
-                        amount: stake,
-                        basis: 'stake',
-                        contract_type: contract.contract_type,
-                        currency: target.currency || 'USD',
-                        duration: 1,
-                        duration_unit: 't',
-                        symbol: contract.underlying,
-                    };
-
-                    target.ws!.send(JSON.stringify(proposal_request));
-
-                    // Wait for proposal response
-                    const proposal_response = await new Promise<any>((resolve, reject) => {
-                        const handler = (event: MessageEvent) => {
-                            const data = JSON.parse(event.data);
-                            if (data.msg_type === 'proposal') {
-                                target.ws!.removeEventListener('message', handler);
-                                resolve(data);
-                            } else if (data.error) {
-                                target.ws!.removeEventListener('message', handler);
-                                reject(data.error);
-                            }
-                        };
-                        target.ws!.addEventListener('message', handler);
-                        setTimeout(() => reject(new Error('Proposal timeout')), 5000);
-                    });
-
-                    if (proposal_response.error) {
-                        console.error('CopyTrader Proposal Error:', proposal_response.error);
-                        runInAction(() => {
-                            this.trade_history.unshift({
-                                timestamp: Date.now(),
-                                market: String(contract.underlying),
-                                stake: stake,
-                                status: 'Failed',
-                                message: 'Proposal Error: ' + proposal_response.error.message,
-                                target_label: target.label || 'Target',
-                            });
-                        });
-                        return;
-                    }
+        const trade: TSourceTrade = {
+            contract_id,
+            contract_type: String(contract.contract_type),
+            symbol: String(contract.underlying),
+            stake: parseFloat(String(contract.buy_price || (contract as any).stake || (contract as any).amount)) || 1,
+        };
+        const targets = this.target_accounts.filter(target => target.token);
+        const outcomes = targets.map(target => this.getInitialOutcome(target, trade));
+
+        this.replications = [
+            {
+                source_contract_id: contract_id,
+                timestamp: Date.now(),
+                symbol: trade.symbol,
+                contract_type: trade.contract_type,
+                source_stake: trade.stake,
+                outcomes,
+            },
+            ...this.replications,
+        ].slice(0, MAX_REPLICATION_RECORDS);
+
+        targets.forEach((target, index) => {
+            const { status, stake } = outcomes[index];
+            if (status === 'pending' && stake) this.copyTrade(target, trade, stake);
+        });
+    };
+
+    copyTrade = async (target: TCopyAccount, trade: TSourceTrade, stake: number) => {
+        const target_key = getTargetKey(target);
+        const fail = (message: string) =>
+            this.updateOutcome(trade.contract_id, target_key, { status: 'failed', message });
 
-                    const proposal_id = proposal_response.proposal?.id;
-                    if (!proposal_id) {
-                        return;
+        const risk_check = this.root_store.risk.requestPurchase('copy_trader', stake, target_key);
+        if (!risk_check.is_allowed) {
+            fail(this.root_store.risk.last_violation_message);
+            return;
+        }
+        const { position_id } = risk_check;
+
+        try {
+            // Step 1: Get proposal on target account
+            const proposal_request = {
+                proposal: 1,
+                amount: stake,
+                basis: 'stake',
+                contract_type: trade.contract_type,
+                currency: target.currency || 'USD',
+                duration: 1,
+                duration_unit: 't',
+                symbol: trade.symbol,
+            };
+
+            target.ws!.send(JSON.stringify(proposal_request));
+
+            // Wait for proposal response
+            const proposal_response = await new Promise<any>((resolve, reject) => {
+                const settle = (callback: () => void) => {
+                    clearTimeout(timeout);
+                    target.ws!.removeEventListener('message', handler);
+                    callback();
+                };
+                const handler = (event: MessageEvent) => {
+                    const data = JSON.parse(event.data);
+                    if (data.msg_type === 'proposal') {
+                        settle(() => resolve(data));
+                    } else if (data.error) {
+                        settle(() => reject(data.error));
                     }
+                };
+                const timeout = setTimeout(() => settle(() => reject(new Error('Proposal timeout'))), RESPONSE_TIMEOUT);
+                target.ws!.addEventListener('message', handler);
+            });
 
-                    // Step 2: Buy the contract on target account
-                    const buy_request = {
-                        buy: proposal_id,
-                        price: stake,
-                    };
-
-                    target.ws!.send(JSON.stringify(buy_request));
-
-                    runInAction(() => {
-                        target.trades_count = (target.trades_count || 0) + 1;
-                        this.trade_history.unshift({
-                            timestamp: Date.now(),
-                            market: String(contract.underlying),
-                            stake: stake,
-                            status: 'Success',
-                            message: 'Trade copied successfully',
-                            target_label: target.label || 'Target',
-                            contract_id: proposal_id,
-                        });
-                    });
-
-                    console.log(
-                        `Sent mirror buy request to target account ${target.token.substring(0, 5)} with stake ${stake}...`
-                    );
-                } catch (error: any) {
-                    console.error('CopyTrader mirror error:', error);
-                    runInAction(() => {
-                        this.trade_history.unshift({
-                            timestamp: Date.now(),
-                            market: String(contract.underlying),
-                            stake: stake,
-                            status: 'Failed',
-                            message: error.message || 'Unknown Error',
-                            target_label: target.label || 'Target',
-                        });
-                    });
-                }
+            if (proposal_response.error) {
+                console.error('CopyTrader Proposal Error:', proposal_response.error);
+                this.root_store.risk.releasePurchase(position_id);
+                fail('Proposal Error: ' + proposal_response.error.message);
+                return;
             }
+
+            const proposal_id = proposal_response.proposal?.id;
+            if (!proposal_id) {
+                this.root_store.risk.releasePurchase(position_id);
+                fail('Proposal Error: no proposal was returned');
+                return;
+            }
+
+            // Step 2: Buy the contract on target account and follow it until it settles. Whenever
+            // the buy is answered, `handleBuyResponse` settles it: a late answer may still have bought
+            // the contract, so its stake stays reserved until then.
+            const req_id = ++this._last_req_id;
+            this._pending_buys.set(req_id, { position_id, source_contract_id: trade.contract_id, target });
+            target.ws!.send(JSON.stringify({ buy: proposal_id, price: stake, subscribe: 1, req_id }));
+
+            setTimeout(() => {
+                if (!this._pending_buys.has(req_id)) return;
+                this.updateOutcome(trade.contract_id, target_key, {
+                    message: 'Waiting for the purchase to be confirmed',
+                });
+            }, RESPONSE_TIMEOUT);
+        } catch (error: any) {
+            console.error('CopyTrader mirror error:', error);
+            this.root_store.risk.releasePurchase(position_id);
+            fail(error.message || 'Unknown Error');
+        }
+    };
+
+    @action
+    handleBuyResponse = (data: { req_id?: number; error?: { message?: string }; buy?: { contract_id: number } }) => {
+        const mirrored = data.req_id === undefined ? undefined : this._pending_buys.get(data.req_id);
+        if (!mirrored) return;
+        this._pending_buys.delete(data.req_id as number);
+
+        const { position_id, source_contract_id, target } = mirrored;
+        const target_key = getTargetKey(target);
+        if (data.error || !data.buy) {
+            this.root_store.risk.releasePurchase(position_id);
+            this.updateOutcome(source_contract_id, target_key, {
+                status: 'failed',
+                message: data.error?.message || 'The purchase was not confirmed',
+            });
+            return;
+        }
+
+        const { contract_id } = data.buy;
+        this._mirrored_contracts.set(contract_id, mirrored);
+        target.trades_count = (target.trades_count || 0) + 1;
+        this.updateOutcome(source_contract_id, target_key, {
+            status: 'copied',
+            message: 'Trade copied successfully',
+            contract_id,
         });
     };
+
+    @action
+    settleMirroredTrade = (contract: ProposalOpenContract) => {
+        const contract_id = contract.contract_id as number;
+        const mirrored = this._mirrored_contracts.get(contract_id);
+        if (!mirrored) return;
+
+        const profit = Number(contract.profit);
+        const { position_id, source_contract_id, target } = mirrored;
+        this.root_store.risk.settlePurchase(position_id, profit);
+        this.root_store.run_history.recordTrade('copy_trader', getRunTrade(contract));
+        this._mirrored_contracts.delete(contract_id);
+
+        target.profit_loss = (target.profit_loss || 0) + profit;
+        target.daily_profit = addDailyProfit(target.daily_profit, profit, Date.now());
+        this.updateOutcome(source_contract_id, getTargetKey(target), { profit });
+    };
 }
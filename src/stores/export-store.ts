@@ -0,0 +1,170 @@
+import { action, computed, makeObservable, observable, runInAction } from 'mobx';
+import { TContractInfo } from '@/components/summary/summary-card.types';
+import { transaction_elements } from '@/constants/transactions';
+import { api_base } from '@/external/bot-skeleton';
+import {
+    CONTRACT_COLUMNS,
+    createAuditBundle,
+    EMPTY_EXPORT_FILTER,
+    filterExportContracts,
+    filterJournalMessages,
+    getExportContract,
+    JOURNAL_COLUMNS,
+    omitTickStream,
+    serialiseRecords,
+    TExportFilter,
+    TExportFormat,
+    TExportJournalMessage,
+    TFetchTicks,
+} from '@/external/bot-skeleton/services/export';
+import { downloadFile, getSuccessJournalMessage, TExtra } from '@/utils/download';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+export type TExportTab = 'transactions' | 'journal';
+
+const EXPORT_FILES: Record<TExportFormat, { extension: string; type: string }> = {
+    csv: { extension: 'csv', type: 'text/csv;charset=utf-8' },
+    json: { extension: 'json', type: 'application/json;charset=utf-8' },
+    audit: { extension: 'json', type: 'application/json;charset=utf-8' },
+};
+
+const fetchTicks: TFetchTicks = async (symbol, start, end) => {
+    const { history } = await api_base.api.send({ ticks_history: symbol, start, end, style: 'ticks' });
+    const { prices = [], times = [] } = history ?? {};
+    return times.map((epoch: number, index: number) => ({ epoch: Number(epoch), quote: Number(prices[index]) }));
+};
+
+export default class ExportStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_modal_open: observable,
+            tab: observable,
+            format: observable,
+            filter: observable.ref,
+            is_exporting: observable,
+            error_message: observable,
+            contracts: computed,
+            journal_messages: computed,
+            bots: computed,
+            symbols: computed,
+            export_count: computed,
+            openModal: action.bound,
+            toggleModal: action.bound,
+            setFormat: action.bound,
+            setFilter: action.bound,
+            exportData: action.bound,
+        });
+
+        this.root_store = root_store;
+    }
+
+    is_modal_open = false;
+    tab: TExportTab = 'transactions';
+    format: TExportFormat = 'csv';
+    filter: TExportFilter = EMPTY_EXPORT_FILTER;
+    is_exporting = false;
+    error_message = '';
+
+    /** The contracts in the run panel, with the name of the bot that bought them when it's known. */
+    get contracts() {
+        const bot_names = new Map(
+            this.root_store.run_history.sessions.flatMap(({ bot_name, trades }) =>
+                trades.map(({ contract_id }) => [String(contract_id), bot_name] as const)
+            )
+        );
+
+        return this.root_store.transactions.transactions
+            .filter(({ type, data }) => type === transaction_elements.CONTRACT && typeof data === 'object')
+            .map(({ data }) => {
+                const contract = data as TContractInfo;
+                return getExportContract(contract, bot_names.get(String(contract.contract_id)) ?? '');
+            });
+    }
+
+    get journal_messages(): TExportJournalMessage[] {
+        return this.root_store.journal.filtered_messages.map(
+            ({ date = '', time = '', message, message_type, extra }) => ({
+                date,
+                time,
+                message_type,
+                message:
+                    message_type === 'success'
+                        ? (getSuccessJournalMessage(message.toString(), extra as TExtra)?.replace('&#x2F;', '/') ?? '')
+                        : message.toString(),
+            })
+        );
+    }
+
+    get bots() {
+        return [...new Set(this.contracts.map(({ bot }) => bot).filter(Boolean))].sort();
+    }
+
+    get symbols() {
+        return [...new Set(this.contracts.map(({ symbol }) => symbol).filter(Boolean))].sort();
+    }
+
+    get export_count() {
+        return this.tab === 'journal'
+            ? filterJournalMessages(this.journal_messages, this.filter).length
+            : filterExportContracts(this.contracts, this.filter).length;
+    }
+
+    openModal = (tab: TExportTab) => {
+        this.tab = tab;
+        this.is_modal_open = true;
+        this.error_message = '';
+        if (tab === 'journal' && this.format === 'audit') this.format = 'csv';
+        this.root_store.run_history.loadSessions();
+    };
+
+    toggleModal = () => {
+        this.is_modal_open = !this.is_modal_open;
+    };
+
+    setFormat = (format: TExportFormat) => {
+        this.format = format;
+    };
+
+    setFilter = (filter: Partial<TExportFilter>) => {
+        this.filter = { ...this.filter, ...filter };
+    };
+
+    exportData = async () => {
+        const { filter, format, tab } = this;
+        this.is_exporting = true;
+        this.error_message = '';
+
+        try {
+            const { extension, type } = EXPORT_FILES[format];
+            let content: string;
+            if (tab === 'journal') {
+                const messages = filterJournalMessages(this.journal_messages, filter);
+                content = serialiseRecords(messages, JOURNAL_COLUMNS, format === 'json' ? 'json' : 'csv');
+            } else {
+                const contracts = filterExportContracts(this.contracts, filter);
+                if (format === 'audit') {
+                    const account = this.root_store.client.loginid ?? '';
+                    content = JSON.stringify(await createAuditBundle(contracts, fetchTicks, { account, filter }));
+                } else {
+                    content = serialiseRecords(omitTickStream(contracts), CONTRACT_COLUMNS, format);
+                }
+            }
+
+            const file_name =
+                format === 'audit'
+                    ? localize('Contract audit')
+                    : tab === 'journal'
+                      ? localize('Journal')
+                      : localize('Transactions');
+            downloadFile(file_name, content, extension, type);
+            runInAction(() => (this.is_modal_open = false));
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        } finally {
+            runInAction(() => (this.is_exporting = false));
+        }
+    };
+}
@@ -129,10 +129,7 @@ export default class LoadModalStore {
 
     get selected_strategy(): TStrategy {
         const strategies = this.recent_strategies.length > 0 ? this.recent_strategies : this.dashboard_strategies;
-        return (
-            strategies.find((ws: { id: string }) => ws.id === this.selected_strategy_id) ??
-            strategies[0]
-        );
+        return strategies.find((ws: { id: string }) => ws.id === this.selected_strategy_id) ?? strategies[0];
     }
 
     get tab_name(): string {
@@ -186,6 +183,7 @@ export default class LoadModalStore {
         if (!load_file) return;
         const xml_doc = load_file?.xml_doc;
         const file_name = load_file?.file_name;
+        if (!(await this.root_store.strategy_scan.reviewImport(xml_doc, file_name))) return;
         await load({
             block_string: xml_doc,
             file_name,
@@ -386,7 +384,9 @@ export default class LoadModalStore {
                 this.drop_zone = document.querySelector('.load-strategy__local-dropzone-area');
 
                 if (this.drop_zone) {
-                    (this.drop_zone as HTMLElement).addEventListener('drop', event => this.handleFileChange(event, false));
+                    (this.drop_zone as HTMLElement).addEventListener('drop', event =>
+                        this.handleFileChange(event, false)
+                    );
                 }
             }
         }
@@ -462,6 +462,12 @@ export default class LoadModalStore {
         reader.readAsText(file);
     };
 
+    /** Resolves with whether the previewed local file may be opened, see `StrategyScanStore.reviewImport`. */
+    reviewLocalStrategy = () => {
+        const { block_string, file_name } = window.Blockly.xmlValues;
+        return this.root_store.strategy_scan.reviewImport(block_string ?? '', file_name);
+    };
+
     saveStrategyToLocalStorage = async () => {
         const { save_modal } = this.root_store;
         const { updateBotName } = save_modal;
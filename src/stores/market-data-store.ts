@@ -0,0 +1,46 @@
+import { action, makeObservable, observable, reaction } from 'mobx';
+import { api_base } from '@/external/bot-skeleton';
+import {
+    MarketDataHub,
+    TMarketDataListener,
+    TMarketStats,
+    TTickSource,
+} from '@/external/bot-skeleton/services/market-data';
+import RootStore from './root-store';
+
+export default class MarketDataStore {
+    root_store: RootStore;
+    hub: MarketDataHub;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            stats: observable.ref,
+            setStats: action.bound,
+        });
+
+        this.root_store = root_store;
+        this.hub = new MarketDataHub({
+            getPipSize: symbol => (api_base.pip_sizes as Record<string, number>)[symbol],
+            onStatsChange: this.setStats,
+        });
+
+        reaction(
+            () => this.root_store.app?.api_helpers_store?.ticks_service as TTickSource | undefined,
+            ticks_service => this.hub.setSource(ticks_service ?? null),
+            { fireImmediately: true }
+        );
+    }
+
+    /** The stats of every symbol streamed at the moment, by symbol. */
+    stats: Record<string, TMarketStats> = {};
+
+    setStats(symbol: string, stats: TMarketStats | null) {
+        const next_stats = { ...this.stats };
+        if (stats) next_stats[symbol] = stats;
+        else delete next_stats[symbol];
+        this.stats = next_stats;
+    }
+
+    /** Streams a symbol to the listener. Returns the function that unsubscribes it. */
+    subscribe = (symbol: string, listener: TMarketDataListener) => this.hub.subscribe(symbol, listener);
+}
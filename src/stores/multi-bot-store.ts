@@ -0,0 +1,128 @@
+import { action, computed, makeObservable, observable, reaction, runInAction } from 'mobx';
+import { botNotification } from '@/components/bot-notification/bot-notification';
+import { DBot, getSavedWorkspaces } from '@/external/bot-skeleton';
+import {
+    getCombinedStatistics,
+    isBotActive,
+    multi_bot_runner,
+    TActiveBot,
+} from '@/external/bot-skeleton/services/multi-bot';
+import { TStrategy } from '@/types';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+export default class MultiBotStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            bots: observable.ref,
+            selected_strategy_id: observable,
+            journal_bot_id: observable,
+            is_starting: observable,
+            active_bots: computed,
+            has_active_bots: computed,
+            combined_statistics: computed,
+            setSelectedStrategyId: action.bound,
+            toggleBotJournal: action.bound,
+            startBot: action.bound,
+            stopBot: action.bound,
+            stopAllBots: action.bound,
+            clearStoppedBots: action.bound,
+        });
+
+        this.root_store = root_store;
+
+        multi_bot_runner.subscribe(bots => runInAction(() => (this.bots = bots)));
+        reaction(() => this.has_active_bots, this.onActiveBotsChange);
+        reaction(
+            () => root_store.client.loginid,
+            () => multi_bot_runner.stopAll()
+        );
+    }
+
+    bots: TActiveBot[] = multi_bot_runner.getBots();
+    selected_strategy_id = '';
+    /** The bot whose journal is shown in the run panel. */
+    journal_bot_id: string | null = null;
+    is_starting = false;
+
+    get active_bots() {
+        return this.bots.filter(isBotActive);
+    }
+
+    get has_active_bots() {
+        return this.active_bots.length > 0;
+    }
+
+    /** The statistics of all listed bots, which trade on the same account. */
+    get combined_statistics() {
+        return getCombinedStatistics(this.bots);
+    }
+
+    setSelectedStrategyId(strategy_id: string) {
+        this.selected_strategy_id = strategy_id;
+    }
+
+    toggleBotJournal(bot_id: string) {
+        this.journal_bot_id = this.journal_bot_id === bot_id ? null : bot_id;
+    }
+
+    async startBot() {
+        const { client, paper_trading, run_panel, self_exclusion } = this.root_store;
+        const strategy: TStrategy | undefined = (await getSavedWorkspaces()).find(
+            ({ id }: TStrategy) => id === this.selected_strategy_id
+        );
+        if (!strategy) return;
+
+        if (!client.is_logged_in && !paper_trading.is_enabled) {
+            run_panel.showLoginDialog();
+            return;
+        }
+        if (run_panel.is_running) {
+            botNotification(localize('Stop the Bot Builder bot before running bots side by side.'));
+            return;
+        }
+        if (!self_exclusion.should_bot_run) {
+            botNotification(localize('Set your loss and run limits in Bot Builder before running bots side by side.'));
+            return;
+        }
+
+        this.is_starting = true;
+        try {
+            await multi_bot_runner.start(strategy);
+        } finally {
+            runInAction(() => (this.is_starting = false));
+        }
+    }
+
+    stopBot(bot_id: string) {
+        multi_bot_runner.stop(bot_id);
+    }
+
+    stopAllBots() {
+        multi_bot_runner.stopAll();
+    }
+
+    clearStoppedBots() {
+        multi_bot_runner.clearStoppedBots();
+        if (!this.bots.some(({ id }) => id === this.journal_bot_id)) this.journal_bot_id = null;
+    }
+
+    onActiveBotsChange = (has_active_bots: boolean) => {
+        const { ui } = this.root_store;
+
+        if (has_active_bots) {
+            ui.setAccountSwitcherDisabledMessage(
+                localize(
+                    'Account switching is disabled while your bots are running. Please stop your bots before switching accounts.'
+                )
+            );
+            return;
+        }
+
+        ui.setAccountSwitcherDisabledMessage('');
+        // The Bot Builder bot didn't follow symbol changes while the bots ran, so it starts afresh.
+        DBot.initializeInterpreter();
+    };
+}
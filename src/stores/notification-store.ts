@@ -0,0 +1,171 @@
+import { action, computed, makeObservable, observable, runInAction } from 'mobx';
+import { botNotification } from '@/components/bot-notification/bot-notification';
+import {
+    createChannel,
+    getChannelError,
+    getChannelErrorMessage,
+    getChannelTypeName,
+    notification_dispatcher,
+    TChannelType,
+    TDeliveryResult,
+    TNotificationChannel,
+    TNotificationEvent,
+} from '@/external/bot-skeleton/services/notifications';
+import {
+    getRunSourceName,
+    getRunStopReasonMessage,
+    summarizeRun,
+    TRunSession,
+    TRunStopReason,
+} from '@/external/bot-skeleton/services/run-history';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+const getStopEvent = (stop_reason: TRunStopReason): TNotificationEvent => {
+    switch (stop_reason) {
+        case 'TakeProfit':
+            return 'take_profit';
+        case 'StopLoss':
+            return 'stop_loss';
+        case 'Error':
+            return 'error';
+        default:
+            return 'bot_stopped';
+    }
+};
+
+export default class NotificationStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_modal_open: observable,
+            channels: observable.ref,
+            draft: observable.ref,
+            test_results: observable.ref,
+            draft_error: computed,
+            toggleModal: action.bound,
+            addChannel: action.bound,
+            editChannel: action.bound,
+            updateDraft: action.bound,
+            cancelDraft: action.bound,
+            saveDraft: action.bound,
+            toggleChannel: action.bound,
+            removeChannel: action.bound,
+            testChannel: action.bound,
+            notifyRunStopped: action.bound,
+        });
+
+        this.root_store = root_store;
+
+        notification_dispatcher.subscribe(channels => runInAction(() => (this.channels = channels)));
+        notification_dispatcher.onFailure(this.onDeliveryFailure);
+    }
+
+    is_modal_open = false;
+    channels: TNotificationChannel[] = notification_dispatcher.getChannels();
+    /** The channel being added or edited in the modal. */
+    draft: TNotificationChannel | null = null;
+    /** The outcome of the last test of each channel, by channel id. */
+    test_results: Record<string, string> = {};
+
+    get draft_error() {
+        const error = this.draft && getChannelError(this.draft);
+        return error ? getChannelErrorMessage(error) : '';
+    }
+
+    toggleModal = () => {
+        this.is_modal_open = !this.is_modal_open;
+        this.draft = null;
+    };
+
+    addChannel = (type: TChannelType = 'telegram') => {
+        this.draft = createChannel(type, { name: getChannelTypeName(type) });
+    };
+
+    editChannel = (channel_id: string) => {
+        this.draft = this.channels.find(({ id }) => id === channel_id) ?? null;
+    };
+
+    updateDraft = (details: Partial<TNotificationChannel>) => {
+        if (!this.draft) return;
+        const { type = this.draft.type, ...rest } = details;
+        // Switching the type of a new channel starts over with the defaults of that type.
+        this.draft =
+            type !== this.draft.type
+                ? createChannel(type, { id: this.draft.id, name: getChannelTypeName(type), events: this.draft.events })
+                : { ...this.draft, ...rest };
+    };
+
+    cancelDraft = () => {
+        this.draft = null;
+    };
+
+    saveDraft = () => {
+        if (!this.draft || this.draft_error) return;
+        notification_dispatcher.saveChannel({ ...this.draft, name: this.draft.name.trim() });
+        this.draft = null;
+    };
+
+    toggleChannel = (channel_id: string) => {
+        const channel = this.channels.find(({ id }) => id === channel_id);
+        if (channel) notification_dispatcher.saveChannel({ ...channel, is_enabled: !channel.is_enabled });
+    };
+
+    removeChannel = (channel_id: string) => {
+        notification_dispatcher.removeChannel(channel_id);
+    };
+
+    testChannel = async (channel: TNotificationChannel) => {
+        const key = channel.id || 'draft';
+        this.test_results = { ...this.test_results, [key]: localize('Sending…') };
+
+        // Without an id the failure listeners skip it, as the result is shown in the modal.
+        const { error } = await notification_dispatcher.send(
+            { ...channel, id: '' },
+            {
+                event: 'custom',
+                title: localize('Deriv Bot'),
+                message: localize('This is a test notification.'),
+            }
+        );
+        runInAction(() => {
+            this.test_results = { ...this.test_results, [key]: error ? error.message : localize('Sent') };
+        });
+    };
+
+    /** Tells the channels that follow the matching event that a run has stopped. */
+    notifyRunStopped = (session: TRunSession, stop_reason: TRunStopReason, stop_message = '') => {
+        const { total_profit, number_of_runs } = summarizeRun(session);
+        const bot_name = session.bot_name || getRunSourceName(session.source);
+
+        notification_dispatcher.notify({
+            event: getStopEvent(stop_reason),
+            title: localize('{{ bot_name }} stopped', { bot_name }),
+            message: [
+                stop_message || getRunStopReasonMessage(stop_reason),
+                localize('Runs: {{ number_of_runs }}, total profit/loss: {{ total_profit }} {{ currency }}', {
+                    number_of_runs,
+                    total_profit: total_profit.toFixed(2),
+                    currency: session.currency,
+                }),
+            ].join('\n'),
+            source: getRunSourceName(session.source),
+            bot_name,
+            profit: total_profit,
+            currency: session.currency,
+        });
+    };
+
+    onDeliveryFailure = ({ channel, error }: TDeliveryResult) => {
+        if (!channel.id || !error) return;
+        botNotification(
+            localize('The notification to "{{ channel_name }}" could not be sent: {{ error_message }}', {
+                channel_name: channel.name || getChannelTypeName(channel.type),
+                error_message: error.message,
+            }),
+            undefined,
+            { type: 'warning' }
+        );
+    };
+}
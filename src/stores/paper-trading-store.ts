@@ -0,0 +1,136 @@
+import { action, computed, makeObservable, observable, runInAction } from 'mobx';
+import { api_base } from '@/external/bot-skeleton';
+import { paper_trading_api, TPaperTradingState } from '@/external/bot-skeleton/services/paper-trading';
+import { tick_recorder, TTickHistorySummary } from '@/external/bot-skeleton/services/tick-history';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+const PAPER_TRADING_MODE_KEY = 'dbot_paper_trading_enabled';
+
+export default class PaperTradingStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_enabled: observable,
+            is_modal_open: observable,
+            state: observable.ref,
+            summaries: observable.ref,
+            tick_interval_ms: observable,
+            is_replaying: observable,
+            error_message: observable,
+            is_any_bot_running: computed,
+            toggleModal: action.bound,
+            setEnabled: action.bound,
+            resetBalance: action.bound,
+            loadSummaries: action.bound,
+            setTickInterval: action.bound,
+            startReplay: action.bound,
+            stopReplay: action.bound,
+        });
+
+        this.root_store = root_store;
+
+        paper_trading_api.subscribe(state => runInAction(() => (this.state = state)));
+        if (localStorage.getItem(PAPER_TRADING_MODE_KEY) === 'true') this.setEnabled(true);
+    }
+
+    is_enabled = false;
+    is_modal_open = false;
+    state: TPaperTradingState = paper_trading_api.getState();
+    summaries: TTickHistorySummary[] = [];
+    tick_interval_ms = 1000;
+    is_replaying = false;
+    error_message = '';
+    replay_timer: ReturnType<typeof setInterval> | null = null;
+
+    /**
+     * Switching accounts under a running bot would leave its open contracts on the other
+     * account, so the mode can only change while everything is stopped.
+     */
+    get is_any_bot_running() {
+        const { auto_trader, run_panel, smart_trading } = this.root_store;
+        return (
+            run_panel.is_running ||
+            smart_trading.is_speedbot_running ||
+            smart_trading.is_bulk_trading ||
+            auto_trader.is_running ||
+            auto_trader.bots.some(({ status }) => status !== 'Idle')
+        );
+    }
+
+    toggleModal = () => {
+        this.is_modal_open = !this.is_modal_open;
+        if (this.is_modal_open) this.loadSummaries();
+    };
+
+    setEnabled = (is_enabled: boolean) => {
+        if (is_enabled === this.is_enabled) return;
+        if (this.is_any_bot_running) {
+            this.error_message = localize('Stop all bots before switching between paper and real trading.');
+            return;
+        }
+
+        this.error_message = '';
+        if (!is_enabled) this.stopReplay();
+        this.is_enabled = is_enabled;
+        localStorage.setItem(PAPER_TRADING_MODE_KEY, String(is_enabled));
+        api_base.setPaperTradingApi(is_enabled ? paper_trading_api : null);
+    };
+
+    resetBalance = (balance: number) => {
+        if (!Number.isFinite(balance) || balance <= 0) return;
+        paper_trading_api.resetBalance(balance);
+        if (this.is_enabled) api_base.account_info = paper_trading_api.getAccountInfo();
+    };
+
+    loadSummaries = async () => {
+        try {
+            const summaries = await tick_recorder.getSummaries();
+            runInAction(() => (this.summaries = summaries));
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        }
+    };
+
+    setTickInterval = (tick_interval_ms: number) => {
+        if (Number.isFinite(tick_interval_ms)) this.tick_interval_ms = Math.max(50, Math.floor(tick_interval_ms));
+    };
+
+    /**
+     * Replays recorded ticks of a symbol into the paper account at a fixed pace instead of
+     * streaming live ones, so bots can be exercised without a connection or market hours.
+     */
+    startReplay = async (symbol: string) => {
+        if (!this.is_enabled || this.is_replaying) return;
+
+        this.error_message = '';
+        const dataset = await tick_recorder.getTicks(symbol);
+        if (!dataset || dataset.ticks.length < 2) {
+            runInAction(
+                () => (this.error_message = localize('Not enough ticks recorded for {{ symbol }}', { symbol }))
+            );
+            return;
+        }
+
+        paper_trading_api.loadDataset(dataset);
+        // The replayed ticks are recorded already.
+        tick_recorder.setIsPaused(true);
+        runInAction(() => {
+            this.is_replaying = true;
+            this.replay_timer = setInterval(() => {
+                if (!paper_trading_api.advance()) this.stopReplay();
+            }, this.tick_interval_ms);
+        });
+    };
+
+    stopReplay = () => {
+        if (!this.is_replaying) return;
+
+        if (this.replay_timer) clearInterval(this.replay_timer);
+        this.replay_timer = null;
+        this.is_replaying = false;
+        paper_trading_api.clearDataset();
+        tick_recorder.setIsPaused(false);
+    };
+}
@@ -1,8 +1,9 @@
 import { action, makeObservable, observable, reaction } from 'mobx';
 import { ApiHelpers, config as qs_config, load } from '@/external/bot-skeleton';
 import { save_types } from '@/external/bot-skeleton/constants/save-type';
+import { STAKING_PLAN_PARAMETERS } from '@/external/bot-skeleton/services/staking-plans/staking-plans';
 import { addDynamicBlockToDOM } from '@/utils/xml-dom-quick-strategy';
-import { STRATEGIES } from '../pages/bot-builder/quick-strategy/config';
+import { STAKING_PLAN_FORM_FIELDS, STRATEGIES } from '../pages/bot-builder/quick-strategy/config';
 import { TFormData } from '../pages/bot-builder/quick-strategy/types';
 import RootStore from './root-store';
 
@@ -174,6 +175,15 @@ export default class QuickStrategyStore implements IQuickStrategyStore {
             });
         };
         const { unit, action, type, growth_rate, ...rest_data } = data;
+        const { staking_plan } = selected_strategy;
+        const plan_parameter_key = staking_plan ? STAKING_PLAN_PARAMETERS[staking_plan]?.key : undefined;
+        const staking_plan_fields = staking_plan
+            ? {
+                  stakingplan: staking_plan,
+                  plan_parameter: plan_parameter_key ? data[STAKING_PLAN_FORM_FIELDS[plan_parameter_key]] : 0,
+                  plan_max_stake: data.boolean_max_stake ? data.max_stake : 0,
+              }
+            : {};
         const fields_to_update = {
             market,
             submarket,
@@ -184,6 +194,7 @@ export default class QuickStrategyStore implements IQuickStrategyStore {
             ...rest_data,
             purchase: type,
             growthrate: growth_rate ? growth_rate.toString() : undefined,
+            ...staking_plan_fields,
         };
 
         Object.keys(fields_to_update).forEach(key => {
@@ -0,0 +1,106 @@
+import { action, computed, makeObservable, observable, runInAction } from 'mobx';
+import {
+    getRiskViolationMessage,
+    risk_manager,
+    TRiskCheck,
+    TRiskLimits,
+    TRiskSource,
+    TRiskState,
+} from '@/external/bot-skeleton/services/risk';
+import RootStore from './root-store';
+
+export default class RiskStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_modal_open: observable,
+            state: observable.ref,
+            last_violation_message: computed,
+            account: computed,
+            daily_profit: computed,
+            exposure: computed,
+            open_contracts: computed,
+            toggleModal: action.bound,
+            setLimits: action.bound,
+            requestPurchase: action.bound,
+            engageKillSwitch: action.bound,
+            releaseKillSwitch: action.bound,
+            stopAllBots: action.bound,
+        });
+
+        this.root_store = root_store;
+
+        risk_manager.subscribe(state => runInAction(() => (this.state = state)));
+        risk_manager.onKillSwitch(() => this.stopAllBots());
+    }
+
+    is_modal_open = false;
+    state: TRiskState = risk_manager.getState();
+
+    get account() {
+        return this.root_store.client.loginid ?? '';
+    }
+
+    get last_violation_message() {
+        const { is_kill_switch_engaged, kill_switch_reason, last_violation } = this.state;
+        if (last_violation) return getRiskViolationMessage(last_violation);
+        return is_kill_switch_engaged && kill_switch_reason ? getRiskViolationMessage(kill_switch_reason) : '';
+    }
+
+    get daily_profit() {
+        return this.state.ledgers[this.account]?.profit ?? 0;
+    }
+
+    get exposure() {
+        return this.state.open_positions
+            .filter(({ account }) => account === this.account)
+            .reduce((exposure, { stake }) => exposure + stake, 0);
+    }
+
+    get open_contracts() {
+        return this.state.open_positions.filter(({ account }) => account === this.account).length;
+    }
+
+    toggleModal = () => {
+        this.is_modal_open = !this.is_modal_open;
+    };
+
+    setLimits = (limits: Partial<TRiskLimits>) => {
+        risk_manager.setLimits(limits);
+    };
+
+    /**
+     * Purchases that do not go through the trade executor, e.g. copy trades on other
+     * accounts, have to be approved here first. The returned position id must be settled
+     * or released once the purchase completes.
+     */
+    requestPurchase = (source: TRiskSource, stake: number, account = this.account): TRiskCheck =>
+        risk_manager.requestPurchase({ source, account, stake: Number(stake) });
+
+    settlePurchase = (position_id: string | null, profit: number) => {
+        risk_manager.settlePurchase(position_id, profit);
+    };
+
+    releasePurchase = (position_id: string | null) => {
+        risk_manager.releasePurchase(position_id);
+    };
+
+    engageKillSwitch = () => {
+        risk_manager.engageKillSwitch();
+    };
+
+    releaseKillSwitch = () => {
+        risk_manager.releaseKillSwitch();
+    };
+
+    stopAllBots = () => {
+        const { auto_trader, copy_trader, multi_bot, run_panel, smart_trading } = this.root_store;
+
+        if (run_panel.is_running) run_panel.stopBot();
+        multi_bot.stopAllBots();
+        smart_trading.stopAllBots();
+        auto_trader.stopAllBots();
+        copy_trader.stopMirroring();
+    };
+}
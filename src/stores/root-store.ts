@@ -1,26 +1,42 @@
 import AnalysisStore from './analysis-store';
 import AppStore from './app-store';
 import AutoTraderStore from './auto-trader-store';
+import BacktestStore from './backtest-store';
 import BlocklyStore from './blockly-store';
+import BotLibraryStore from './bot-library-store';
+import BotLinterStore from './bot-linter-store';
 import ChartStore from './chart-store';
 import ClientStore from './client-store';
 import CommonStore from './common-store';
 import CopyTraderStore from './copy-trader-store';
 import DashboardStore from './dashboard-store';
 import DataCollectionStore from './data-collection-store';
+import ExportStore from './export-store';
 import FlyoutHelpStore from './flyout-help-store';
 import FlyoutStore from './flyout-store';
 import GoogleDriveStore from './google-drive-store';
 import JournalStore from './journal-store';
 import LoadModalStore from './load-modal-store';
+import MarketDataStore from './market-data-store';
+import MultiBotStore from './multi-bot-store';
+import NotificationStore from './notification-store';
+import PaperTradingStore from './paper-trading-store';
 import QuickStrategyStore from './quick-strategy-store';
+import RiskStore from './risk-store';
+import RunHistoryStore from './run-history-store';
 import RunPanelStore from './run-panel-store';
 import SaveModalStore from './save-modal-store';
+import SchedulerStore from './scheduler-store';
 import SelfExclusionStore from './self-exclusion-store';
 import SmartTradingStore from './smart-trading-store';
+import StrategyHistoryStore from './strategy-history-store';
+import StrategyLabStore from './strategy-lab-store';
+import StrategyScanStore from './strategy-scan-store';
 import SummaryCardStore from './summary-card-store';
+import TickHistoryStore from './tick-history-store';
 import ToolbarStore from './toolbar-store';
 import ToolboxStore from './toolbox-store';
+import TradeAnalyticsStore from './trade-analytics-store';
 import TransactionsStore from './transactions-store';
 import UiStore from './ui-store';
 
@@ -31,6 +47,7 @@ export default class RootStore {
     public app: AppStore;
     public summary_card: SummaryCardStore;
     public auto_trader: AutoTraderStore;
+    public backtest: BacktestStore;
     public copy_trader: CopyTraderStore;
     public flyout: FlyoutStore;
     public flyout_help: FlyoutHelpStore;
@@ -46,6 +63,21 @@ export default class RootStore {
     public self_exclusion: SelfExclusionStore;
     public dashboard: DashboardStore;
     public smart_trading: SmartTradingStore;
+    public tick_history: TickHistoryStore;
+    public risk: RiskStore;
+    public strategy_lab: StrategyLabStore;
+    public paper_trading: PaperTradingStore;
+    public strategy_history: StrategyHistoryStore;
+    public bot_linter: BotLinterStore;
+    public run_history: RunHistoryStore;
+    public trade_analytics: TradeAnalyticsStore;
+    public export_data: ExportStore;
+    public notifications: NotificationStore;
+    public scheduler: SchedulerStore;
+    public multi_bot: MultiBotStore;
+    public bot_library: BotLibraryStore;
+    public strategy_scan: StrategyScanStore;
+    public market_data: MarketDataStore;
 
     public chart_store: ChartStore;
     public blockly_store: BlocklyStore;
@@ -94,6 +126,22 @@ export default class RootStore {
         this.self_exclusion = new SelfExclusionStore(this, this.core);
         this.dashboard = new DashboardStore(this, this.core);
         this.smart_trading = new SmartTradingStore(this);
+        this.backtest = new BacktestStore(this);
+        this.tick_history = new TickHistoryStore(this);
+        this.risk = new RiskStore(this);
+        this.strategy_lab = new StrategyLabStore(this);
+        this.paper_trading = new PaperTradingStore(this);
+        this.strategy_history = new StrategyHistoryStore(this);
+        this.bot_linter = new BotLinterStore(this);
+        this.run_history = new RunHistoryStore(this);
+        this.trade_analytics = new TradeAnalyticsStore(this);
+        this.export_data = new ExportStore(this);
+        this.notifications = new NotificationStore(this);
+        this.scheduler = new SchedulerStore(this);
+        this.multi_bot = new MultiBotStore(this);
+        this.bot_library = new BotLibraryStore(this);
+        this.strategy_scan = new StrategyScanStore(this);
+        this.market_data = new MarketDataStore(this);
 
         // need to be at last for dependency
         this.chart_store = new ChartStore(this);
@@ -0,0 +1,256 @@
+import { action, computed, makeObservable, observable, reaction, runInAction } from 'mobx';
+import { isEnded } from '@/components/shared';
+import { api_base, config, convertStrategyToIsDbot, DBot } from '@/external/bot-skeleton';
+import { TRiskSource } from '@/external/bot-skeleton/services/risk';
+import {
+    getRunTrade,
+    run_history,
+    summarizeRun,
+    TRunSession,
+    TRunStopReason,
+    TRunTrade,
+} from '@/external/bot-skeleton/services/run-history';
+import { trade_executor } from '@/external/bot-skeleton/services/trade-execution';
+import { ProposalOpenContract } from '@deriv/api-types';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+type TRunLimits = { take_profit: number; stop_loss: number } | null;
+
+type TStopDetails = { stop_reason: TRunStopReason; stop_message: string };
+
+type TRunSurface = {
+    source: TRiskSource;
+    isRunning: () => boolean;
+    getBotName: () => string;
+    getLimits: () => TRunLimits;
+};
+
+export const MAX_COMPARED_RUNS = 3;
+
+const getAutoTraderStrategyName = (strategy: string | null) =>
+    ({
+        DIFFERS: localize('Differs strategy'),
+        OVER_UNDER: localize('Over/Under strategy'),
+        EVEN_ODD: localize('Even/Odd strategy'),
+    })[strategy ?? ''];
+
+export default class RunHistoryStore {
+    root_store: RootStore;
+    active_sessions: Partial<Record<TRiskSource, Promise<TRunSession>>> = {};
+    stop_details: Partial<Record<TRiskSource, TStopDetails>> = {};
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_loading: observable,
+            sessions: observable.ref,
+            selected_ids: observable.ref,
+            error_message: observable,
+            selected_sessions: computed,
+            loadSessions: action.bound,
+            startRun: action.bound,
+            startBlocklyRun: action.bound,
+            recordTrade: action.bound,
+            onBotContractEvent: action.bound,
+            setStopReason: action.bound,
+            stopRun: action.bound,
+            toggleSelected: action.bound,
+            clearSelection: action.bound,
+            removeSession: action.bound,
+            clearHistory: action.bound,
+        });
+
+        this.root_store = root_store;
+
+        run_history.closeInterruptedSessions().finally(this.loadSessions);
+        trade_executor.onSettled((request, { contract }) => this.recordTrade(request.source, getRunTrade(contract)));
+
+        // Smart Trading, Auto Trader and copy trading have no single run button, so their
+        // runs follow whether any of their bots is running.
+        this.getSurfaces().forEach(({ source, isRunning, getBotName, getLimits }) =>
+            reaction(isRunning, is_running => {
+                if (is_running) this.startRun(source, getBotName());
+                else this.stopRun(source, getLimits());
+            })
+        );
+        reaction(
+            () => this.root_store.run_panel.is_running,
+            is_running => {
+                if (!is_running) this.stopRun('blockly');
+            }
+        );
+    }
+
+    is_loading = false;
+    sessions: TRunSession[] = [];
+    selected_ids: string[] = [];
+    error_message = '';
+
+    get selected_sessions() {
+        return this.selected_ids
+            .map(selected_id => this.sessions.find(({ id }) => id === selected_id))
+            .filter((session): session is TRunSession => !!session);
+    }
+
+    getSurfaces(): TRunSurface[] {
+        const { auto_trader, copy_trader, smart_trading } = this.root_store;
+
+        return [
+            {
+                source: 'smart_trading',
+                isRunning: () =>
+                    smart_trading.is_speedbot_running ||
+                    smart_trading.is_turbo_bot_running ||
+                    Object.values(smart_trading.strategies).some(({ is_running }) => is_running),
+                getBotName: () =>
+                    [
+                        smart_trading.is_speedbot_running && localize('Speed bot'),
+                        smart_trading.is_turbo_bot_running && localize('Turbo bot'),
+                        ...Object.values(smart_trading.strategies)
+                            .filter(({ is_running }) => is_running)
+                            .map(({ name }) => name),
+                    ]
+                        .filter(Boolean)
+                        .join(', '),
+                getLimits: () =>
+                    smart_trading.enable_tp_sl
+                        ? { take_profit: smart_trading.take_profit, stop_loss: smart_trading.stop_loss }
+                        : null,
+            },
+            {
+                source: 'auto_trader',
+                isRunning: () => auto_trader.is_running || auto_trader.bots.some(({ status }) => status !== 'Idle'),
+                getBotName: () =>
+                    [
+                        auto_trader.is_running && getAutoTraderStrategyName(auto_trader.active_strategy),
+                        ...auto_trader.bots.filter(({ status }) => status !== 'Idle').map(({ name }) => name),
+                    ]
+                        .filter(Boolean)
+                        .join(', ') || localize('Auto Trader'),
+                getLimits: () => ({ take_profit: auto_trader.take_profit, stop_loss: auto_trader.stop_loss }),
+            },
+            {
+                source: 'copy_trader',
+                isRunning: () => copy_trader.is_mirroring_internal,
+                getBotName: () => localize('Copy trading'),
+                getLimits: () => null,
+            },
+        ];
+    }
+
+    loadSessions = async () => {
+        this.is_loading = true;
+        const sessions = await run_history.getSessions();
+        runInAction(() => {
+            this.sessions = sessions;
+            this.selected_ids = this.selected_ids.filter(selected_id => sessions.some(({ id }) => id === selected_id));
+            this.is_loading = false;
+        });
+    };
+
+    startRun = (source: TRiskSource, bot_name: string, xml_hash: string | null = null) => {
+        if (this.active_sessions[source]) return;
+
+        const { loginid = '', currency = '' } = api_base.account_info as { loginid?: string; currency?: string };
+        delete this.stop_details[source];
+        const session = run_history.startSession({ source, bot_name, xml_hash, account: loginid, currency });
+        this.active_sessions[source] = session;
+        session.then(this.loadSessions, () => delete this.active_sessions[source]);
+    };
+
+    /**
+     * Starts a run of the workspace, identified by the same hash of its blocks the data
+     * collection uses for the strategy.
+     */
+    startBlocklyRun = () => {
+        const { data_collection_store, save_modal } = this.root_store;
+        let xml_hash: string | null = null;
+        try {
+            const xml_dom = convertStrategyToIsDbot(
+                data_collection_store.cleanXmlDom(window.Blockly.Xml.workspaceToDom(DBot.workspace, true))
+            );
+            xml_hash = data_collection_store.getHash(window.Blockly.Xml.domToText(xml_dom));
+        } catch (error) {
+            // The run is still recorded, only without a way to match it to its strategy.
+        }
+        this.startRun('blockly', save_modal.bot_name || config().default_file_name, xml_hash);
+    };
+
+    recordTrade = async (source: TRiskSource, trade: TRunTrade) => {
+        const session = await this.active_sessions[source];
+        if (!session) return;
+        await run_history.recordTrade(session.id, trade);
+        this.loadSessions();
+    };
+
+    onBotContractEvent = (contract: ProposalOpenContract) => {
+        if (isEnded(contract)) this.recordTrade('blockly', getRunTrade(contract));
+    };
+
+    /** Remembers why a running bot is stopping. The latest reason wins. */
+    setStopReason = (source: TRiskSource, stop_reason: TRunStopReason, stop_message = '') => {
+        if (this.active_sessions[source]) this.stop_details[source] = { stop_reason, stop_message };
+    };
+
+    stopRun = async (source: TRiskSource, limits: TRunLimits = null) => {
+        const active_session = this.active_sessions[source];
+        if (!active_session) return;
+
+        delete this.active_sessions[source];
+        const stop_details = this.stop_details[source];
+        delete this.stop_details[source];
+
+        const session = await run_history.getSession((await active_session).id);
+        if (!session) return;
+
+        const { stop_reason, stop_message } = this.getStopDetails(session, stop_details, limits);
+        await run_history.finishSession(session.id, stop_reason, stop_message);
+        this.loadSessions();
+        this.root_store.notifications.notifyRunStopped(session, stop_reason, stop_message);
+    };
+
+    getStopDetails(session: TRunSession, stop_details: TStopDetails | undefined, limits: TRunLimits): TStopDetails {
+        const { risk } = this.root_store;
+        if (risk.state.is_kill_switch_engaged) {
+            return { stop_reason: 'RiskLimit', stop_message: risk.last_violation_message };
+        }
+        if (stop_details) return stop_details;
+
+        const { total_profit } = summarizeRun(session);
+        if (limits && total_profit >= limits.take_profit) return { stop_reason: 'TakeProfit', stop_message: '' };
+        if (limits && total_profit <= -limits.stop_loss) return { stop_reason: 'StopLoss', stop_message: '' };
+        return { stop_reason: 'Manual', stop_message: '' };
+    }
+
+    toggleSelected = (session_id: string) => {
+        if (this.selected_ids.includes(session_id)) {
+            this.selected_ids = this.selected_ids.filter(id => id !== session_id);
+        } else {
+            this.selected_ids = [...this.selected_ids, session_id].slice(-MAX_COMPARED_RUNS);
+        }
+    };
+
+    clearSelection = () => {
+        this.selected_ids = [];
+    };
+
+    removeSession = async (session_id: string) => {
+        this.error_message = '';
+        try {
+            await run_history.removeSession(session_id);
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        }
+        this.loadSessions();
+    };
+
+    clearHistory = async () => {
+        this.error_message = '';
+        try {
+            await run_history.clearSessions();
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        }
+        this.loadSessions();
+    };
+}
@@ -184,15 +184,19 @@ export default class RunPanelStore {
                 }
             }, 10000);
         }
-        const { summary_card, self_exclusion } = this.root_store;
+        const { summary_card, self_exclusion, run_history } = this.root_store;
         const { client, ui } = this.core;
         const is_ios = mobileOSDetect() === 'iOS';
         this.dbot.saveRecentWorkspace();
         this.dbot.unHighlightAllBlocks();
-        if (!client.is_logged_in) {
+        if (!client.is_logged_in && !this.root_store.paper_trading.is_enabled) {
             this.showLoginDialog();
             return;
         }
+        if (this.root_store.multi_bot.has_active_bots) {
+            botNotification(localize('Stop the bots running side by side before running Bot Builder.'));
+            return;
+        }
 
         /**
          * Due to Apple's policy on cellular data usage in ios audioElement.play() should be initially called on
@@ -227,6 +231,7 @@ export default class RunPanelStore {
 
             summary_card.clear();
             this.setContractStage(contract_stages.STARTING);
+            run_history.startBlocklyRun();
             this.dbot.runBot();
         });
         this.setShowBotStopMessage(false);
@@ -245,7 +250,9 @@ export default class RunPanelStore {
 
     onStopBotClick = () => {
         const { is_multiplier } = this.root_store.summary_card;
-        const { summary_card } = this.root_store;
+        const { summary_card, run_history } = this.root_store;
+
+        run_history.setStopReason('blockly', 'Manual');
 
         if (is_multiplier) {
             this.showStopMultiplierContractDialog();
@@ -450,7 +457,7 @@ export default class RunPanelStore {
     };
 
     registerBotListeners = () => {
-        const { summary_card, transactions } = this.root_store;
+        const { run_history, summary_card, transactions } = this.root_store;
 
         observer.register('bot.running', this.onBotRunningEvent);
         observer.register('bot.sell', this.onBotSellEvent);
@@ -462,6 +469,7 @@ export default class RunPanelStore {
         observer.register('bot.contract', this.onBotContractEvent);
         observer.register('bot.contract', summary_card.onBotContractEvent);
         observer.register('bot.contract', transactions.onBotContractEvent);
+        observer.register('bot.contract', run_history.onBotContractEvent);
         observer.register('Error', this.onError);
         observer.register('bot.recoverOpenPositionLimitExceeded', this.OpenPositionLimitExceededEvent);
     };
@@ -597,6 +605,7 @@ export default class RunPanelStore {
 
     onBotTradeAgain = (is_trade_again: boolean) => {
         if (!is_trade_again) {
+            this.root_store.run_history.setStopReason('blockly', 'Finished');
             this.stopBot();
         }
     };
@@ -666,9 +675,10 @@ export default class RunPanelStore {
     };
 
     showErrorMessage = (data: string | Error) => {
-        const { journal } = this.root_store;
+        const { journal, run_history } = this.root_store;
         const { ui } = this.core;
         journal.onError(data);
+        run_history.setStopReason('blockly', 'Error', typeof data === 'string' ? data : data?.message);
         if (journal.journal_filters.some(filter => filter === MessageTypes.ERROR)) {
             this.toggleDrawer(true);
             this.setActiveTabIndex(run_panel.JOURNAL);
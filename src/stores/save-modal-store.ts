@@ -10,6 +10,8 @@ import {
     save_types,
     saveWorkspaceToRecent,
 } from '@/external/bot-skeleton';
+import { TBotRiskLevel } from '@/external/bot-skeleton/services/bot-library';
+import { strategy_history } from '@/external/bot-skeleton/services/strategy-history';
 import { localize } from '@deriv-com/translations';
 import { TStrategy } from 'Types';
 import RootStore from './root-store';
@@ -18,6 +20,10 @@ type IOnConfirmProps = {
     is_local: boolean;
     save_as_collection: boolean;
     bot_name: string;
+    note?: string;
+    add_to_library?: boolean;
+    description?: string;
+    risk_level?: TBotRiskLevel;
 };
 
 interface ISaveModalStore {
@@ -78,7 +84,8 @@ export default class SaveModalStore implements ISaveModalStore {
         is_local: boolean,
         save_as_collection: boolean,
         bot_name: string,
-        xml: string
+        xml: string,
+        note = ''
     ) => {
         try {
             const workspace = await getSavedWorkspaces();
@@ -100,6 +107,13 @@ export default class SaveModalStore implements ISaveModalStore {
                 save_type,
             };
 
+            await strategy_history.addVersion({
+                strategy_id: workspace_id,
+                name: bot_name,
+                xml: workspace_structure.xml,
+                note,
+            });
+
             if (current_workspace_index >= 0) {
                 const current_workspace = workspace_structure;
                 workspace[current_workspace_index] = current_workspace;
@@ -130,8 +144,16 @@ export default class SaveModalStore implements ISaveModalStore {
         }
     };
 
-    onConfirmSave = async ({ is_local, save_as_collection, bot_name }: IOnConfirmProps) => {
-        const { load_modal, dashboard, google_drive } = this.root_store;
+    onConfirmSave = async ({
+        is_local,
+        save_as_collection,
+        bot_name,
+        note = '',
+        add_to_library = false,
+        description = '',
+        risk_level,
+    }: IOnConfirmProps) => {
+        const { bot_library, load_modal, dashboard, google_drive } = this.root_store;
         const { loadStrategyToBuilder, selected_strategy } = load_modal;
         const { active_tab } = dashboard;
         this.setButtonStatus(button_status.LOADING);
@@ -163,12 +185,22 @@ export default class SaveModalStore implements ISaveModalStore {
 
         this.updateBotName(bot_name);
 
+        if (add_to_library) {
+            await bot_library.addBotToLibrary({
+                name: bot_name,
+                xml: window.Blockly.Xml.domToText(xml),
+                description,
+                risk_level,
+                notes: note,
+            });
+        }
+
         if (active_tab === 0) {
             const workspace_id = selected_strategy.id ?? Blockly?.utils?.genUid();
-            await this.addStrategyToWorkspace(workspace_id, is_local, save_as_collection, bot_name, xml);
+            await this.addStrategyToWorkspace(workspace_id, is_local, save_as_collection, bot_name, xml, note);
             if (main_strategy) await loadStrategyToBuilder(main_strategy);
         } else {
-            await saveWorkspaceToRecent(xml, is_local ? save_types.LOCAL : save_types.GOOGLE_DRIVE);
+            await saveWorkspaceToRecent(xml, is_local ? save_types.LOCAL : save_types.GOOGLE_DRIVE, note);
         }
         this.toggleSaveModal();
     };
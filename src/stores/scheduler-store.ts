@@ -0,0 +1,246 @@
+import { action, computed, makeObservable, observable, runInAction } from 'mobx';
+import { botNotification } from '@/components/bot-notification/bot-notification';
+import { ApiHelpers, DBot, getSavedWorkspaces, ServerTime } from '@/external/bot-skeleton';
+import {
+    ALL_DAYS,
+    bot_scheduler,
+    getActiveWindow,
+    getLastStopTime,
+    getScheduleError,
+    getScheduleErrorMessage,
+    getSkipReasonMessage,
+    getStrategySymbol,
+    isMarketOpen,
+    TBotSchedule,
+    TSkippedRun,
+    TSkipReason,
+    TSymbolTradingTimes,
+} from '@/external/bot-skeleton/services/scheduler';
+import { TStrategy } from '@/types';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+const CHECK_INTERVAL_MS = 15 * 1000;
+// Stop-only schedules ignore stop times older than this, so a bot started after the stop
+// time, or a page that wakes up from sleep, isn't stopped late.
+const STOP_GRACE_MS = 2 * 60 * 1000;
+
+const getServerTime = () => ServerTime.get()?.valueOf() ?? Date.now();
+
+type TTradingTimesHelper = { trading_times?: { trading_times: Record<string, TSymbolTradingTimes> } } | null;
+
+const getSymbolTradingTimes = (symbol: string) =>
+    (ApiHelpers.instance as TTradingTimesHelper)?.trading_times?.trading_times[symbol];
+
+const getLoadedStrategyId = (): string => window.Blockly?.derivWorkspace?.current_strategy_id ?? '';
+
+// Loading the scheduled strategy replaces the workspace, so edits that weren't saved would be lost.
+const hasUnsavedChanges = (saved_workspaces: TStrategy[]): boolean => {
+    const workspace = window.Blockly?.derivWorkspace;
+    return !!workspace && DBot.isStrategyUpdated(window.Blockly.Xml.workspaceToDom(workspace), saved_workspaces);
+};
+
+export default class SchedulerStore {
+    root_store: RootStore;
+    /** The window start or stop time each schedule last acted on, so it acts once per window. */
+    handled_times: Record<string, number> = {};
+    is_checking = false;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_modal_open: observable,
+            schedules: observable.ref,
+            skipped_runs: observable.ref,
+            draft: observable.ref,
+            active_schedule_id: observable,
+            draft_error: computed,
+            toggleModal: action.bound,
+            openStrategySchedule: action.bound,
+            addSchedule: action.bound,
+            editSchedule: action.bound,
+            updateDraft: action.bound,
+            cancelDraft: action.bound,
+            saveDraft: action.bound,
+            toggleSchedule: action.bound,
+            removeSchedule: action.bound,
+            clearSkippedRuns: action.bound,
+            checkSchedules: action.bound,
+            checkActiveSchedule: action.bound,
+            stopRun: action.bound,
+        });
+
+        this.root_store = root_store;
+
+        bot_scheduler.subscribe(({ schedules, skipped_runs }) =>
+            runInAction(() => {
+                this.schedules = schedules;
+                this.skipped_runs = skipped_runs;
+            })
+        );
+        setInterval(this.checkSchedules, CHECK_INTERVAL_MS);
+    }
+
+    is_modal_open = false;
+    schedules: TBotSchedule[] = bot_scheduler.getState().schedules;
+    skipped_runs: TSkippedRun[] = bot_scheduler.getState().skipped_runs;
+    /** The schedule being added or edited in the modal. */
+    draft: TBotSchedule | null = null;
+    /** The schedule that started the running Bot Builder bot. */
+    active_schedule_id: string | null = null;
+
+    get draft_error() {
+        const error = this.draft && getScheduleError(this.draft);
+        return error ? getScheduleErrorMessage(error) : '';
+    }
+
+    toggleModal = () => {
+        this.is_modal_open = !this.is_modal_open;
+        this.draft = null;
+    };
+
+    /** Opens the modal on the schedule of a strategy, or on a new one. */
+    openStrategySchedule = (strategy: Pick<TStrategy, 'id' | 'name'>) => {
+        this.is_modal_open = true;
+        const schedule = this.schedules.find(({ strategy_id }) => strategy_id === strategy.id);
+        if (schedule) this.editSchedule(schedule.id);
+        else this.addSchedule(strategy);
+    };
+
+    addSchedule = (strategy?: Pick<TStrategy, 'id' | 'name'>) => {
+        this.draft = {
+            id: '',
+            strategy_id: strategy?.id ?? '',
+            strategy_name: strategy?.name ?? '',
+            is_enabled: true,
+            days: [...ALL_DAYS],
+            start_time: '08:00',
+            end_time: '11:00',
+        };
+    };
+
+    editSchedule = (schedule_id: string) => {
+        this.draft = this.schedules.find(({ id }) => id === schedule_id) ?? null;
+    };
+
+    updateDraft = (details: Partial<TBotSchedule>) => {
+        if (this.draft) this.draft = { ...this.draft, ...details };
+    };
+
+    cancelDraft = () => {
+        this.draft = null;
+    };
+
+    saveDraft = () => {
+        if (!this.draft || this.draft_error) return;
+        const { id } = bot_scheduler.saveSchedule(this.draft, getServerTime());
+        // A changed schedule may act on the current window again.
+        delete this.handled_times[id];
+        this.draft = null;
+    };
+
+    toggleSchedule = (schedule_id: string) => {
+        const schedule = this.schedules.find(({ id }) => id === schedule_id);
+        if (!schedule) return;
+        bot_scheduler.saveSchedule({ ...schedule, is_enabled: !schedule.is_enabled });
+        delete this.handled_times[schedule_id];
+    };
+
+    removeSchedule = (schedule_id: string) => {
+        bot_scheduler.removeSchedule(schedule_id);
+    };
+
+    clearSkippedRuns = () => {
+        bot_scheduler.clearSkippedRuns();
+    };
+
+    checkSchedules = async () => {
+        if (this.is_checking) return;
+        this.is_checking = true;
+        try {
+            const now = getServerTime();
+            this.checkActiveSchedule(now);
+
+            for (const schedule of this.schedules.filter(({ is_enabled }) => is_enabled)) {
+                const stop_time = getLastStopTime(schedule, now);
+                if (
+                    !schedule.start_time &&
+                    stop_time &&
+                    now - stop_time < STOP_GRACE_MS &&
+                    this.handled_times[schedule.id] !== stop_time
+                ) {
+                    this.handled_times[schedule.id] = stop_time;
+                    if (this.root_store.run_panel.is_running && getLoadedStrategyId() === schedule.strategy_id) {
+                        this.stopRun(localize('Stop time reached'));
+                    }
+                }
+
+                const active_window = getActiveWindow(schedule, now);
+                if (active_window && this.handled_times[schedule.id] !== active_window.start) {
+                    this.handled_times[schedule.id] = active_window.start;
+                    await this.startRun(schedule, now);
+                }
+            }
+        } finally {
+            this.is_checking = false;
+        }
+    };
+
+    /** Stops the bot a schedule started once its window ends or its market closes. */
+    checkActiveSchedule(now: number) {
+        if (!this.active_schedule_id) return;
+
+        if (!this.root_store.run_panel.is_running) {
+            this.active_schedule_id = null;
+            return;
+        }
+
+        const schedule = this.schedules.find(({ id }) => id === this.active_schedule_id);
+        if (!schedule?.is_enabled || !getActiveWindow(schedule, now)) {
+            this.stopRun(localize('The schedule window ended'));
+            return;
+        }
+
+        const xml = window.Blockly?.derivWorkspace?.strategy_to_load ?? '';
+        if (!isMarketOpen(getSymbolTradingTimes(getStrategySymbol(xml)), now)) {
+            this.stopRun(localize('The market closed'));
+        }
+    }
+
+    async startRun(schedule: TBotSchedule, now: number) {
+        const { backtest, load_modal, multi_bot, run_panel } = this.root_store;
+        const saved_workspaces: TStrategy[] = await getSavedWorkspaces();
+        const strategy = saved_workspaces.find(({ id }) => id === schedule.strategy_id);
+        const strategy_name = strategy?.name ?? schedule.strategy_name;
+        const symbol = strategy ? getStrategySymbol(strategy.xml) : '';
+        const skip = (reason: TSkipReason) => {
+            bot_scheduler.recordSkippedRun({ schedule_id: schedule.id, strategy_name, symbol, reason, time: now });
+            botNotification(
+                localize('The scheduled run of {{ strategy_name }} was skipped. {{ reason }}.', {
+                    strategy_name,
+                    reason: getSkipReasonMessage(reason),
+                })
+            );
+        };
+
+        if (!strategy) return skip('StrategyMissing');
+        if (run_panel.is_running || multi_bot.has_active_bots) return skip('BotRunning');
+        // The backtest replays the strategy loaded in Bot Builder, which the run would replace.
+        if (backtest.is_running) return skip('BacktestRunning');
+        if (!isMarketOpen(getSymbolTradingTimes(symbol), now)) return skip('MarketClosed');
+        if (!window.Blockly?.derivWorkspace) return skip('NotStarted');
+        if (hasUnsavedChanges(saved_workspaces)) return skip('UnsavedChanges');
+
+        await load_modal.loadStrategyToBuilder(strategy, false);
+        await run_panel.onRunButtonClick();
+
+        if (!run_panel.is_running) return skip('NotStarted');
+        runInAction(() => (this.active_schedule_id = schedule.id));
+    }
+
+    stopRun(stop_message: string) {
+        const { run_history, run_panel } = this.root_store;
+        run_history.setStopReason('blockly', 'Schedule', stop_message);
+        run_panel.stopBot();
+        this.active_schedule_id = null;
+    }
+}
@@ -2,6 +2,33 @@ import { action, makeObservable, observable, reaction, runInAction } from 'mobx'
 import { DBOT_TABS } from '@/constants/bot-contents';
 import { contract_stages } from '@/constants/contract-stage';
 import { ApiHelpers, api_base, observer as globalObserver } from '@/external/bot-skeleton';
+import { getLastDigitOfQuote, TReplayDataset } from '@/external/bot-skeleton/services/backtest';
+import {
+    getDigitFrequencies,
+    getOverPercentage,
+    getParityPercentage,
+    getParityStreak,
+    rankDigits,
+} from '@/external/bot-skeleton/services/digit-patterns';
+import {
+    createStakingPlan,
+    getStakingPlanConfig,
+    STAKING_PLAN_PARAMETERS,
+    StakingPlan,
+    TStakingPlanId,
+} from '@/external/bot-skeleton/services/staking-plans';
+import {
+    getLastDigits,
+    getPipSizeOfQuotes,
+    summariseDataset,
+    TTickHistorySummary,
+} from '@/external/bot-skeleton/services/tick-history';
+import {
+    trade_executor,
+    TradeExecutionError,
+    TTradeCallbacks,
+    TTradeRequest,
+} from '@/external/bot-skeleton/services/trade-execution';
 import AnalysisEngine from '@/lib/analysis-engine';
 import {
     HotColdData,
@@ -10,21 +37,14 @@ import {
     SmartPredictor,
     TradingSignal,
 } from '@/lib/analysis/smart-predictions';
+import { TSignificance } from '@/lib/analysis/statistics';
 import { VSenseEngine, VSenseSignal } from '@/lib/analysis/v-sense-engine';
 import RootStore from './root-store';
 
-type TDerivResponse = {
-    proposal_open_contract?: {
-        is_sold?: boolean;
-        status?: string;
-        profit?: string;
-        contract_id?: number | string;
-    };
-    subscription?: { id: string };
-    error?: { message: string; code: string };
-    buy?: { contract_id: string | number };
-    proposal?: { id: string };
-};
+const DIGIT_BARRIER_CONTRACTS = ['DIGITMATCH', 'DIGITDIFF', 'DIGITOVER', 'DIGITUNDER'];
+
+// Changing any of these restarts the staking plan of a strategy from its initial stake.
+const STAKING_SETTING_KEYS: (keyof TStrategy)[] = ['stake', 'martingale', 'staking_plan', 'staking_parameter'];
 
 export type TSmartSubtab = 'speed' | 'bulk' | 'automated' | 'analysis' | 'even_odd' | 'over_under' | 'advanced_ou' | 'differs' | 'matches' | 'charts' | 'turbo' | 'vsense_turbo';
 
@@ -47,6 +67,9 @@ export interface TStrategy {
     status: 'idle' | 'waiting' | 'trading' | 'error';
     stake: number;
     martingale: number;
+    staking_plan: TStakingPlanId;
+    // Parameter of staking plans other than the martingale ones, which use `martingale`
+    staking_parameter?: number;
     current_stake: number;
     ticks: number;
     barrier?: { over: number; under: number } | number;
@@ -95,6 +118,7 @@ export type TTradeHistory = {
 
 export default class SmartTradingStore {
     root_store: RootStore;
+    staking_plans = new Map<string, StakingPlan>();
 
     @observable accessor is_speedbot_running = false;
     @observable accessor speedbot_contract_type: string = 'DIGITEVEN';
@@ -148,6 +172,7 @@ export default class SmartTradingStore {
     }));
 
     @observable accessor ticks: number[] = [];
+    @observable accessor recorded_dataset: TTickHistorySummary | null = null;
     @observable accessor tick_count = 1; // Number of ticks to wait before trade
     @observable accessor symbol = 'R_100';
     @observable accessor current_price: string | number = '0.00';
@@ -178,6 +203,7 @@ export default class SmartTradingStore {
         hotCold: HotColdData;
         risk: RiskMetrics;
         signal: TradingSignal;
+        uniformity: TSignificance;
     } | null = null;
 
     // Market Scanning State
@@ -251,6 +277,7 @@ export default class SmartTradingStore {
             status: 'idle',
             stake: 1.0,
             martingale: 2.1,
+            staking_plan: 'martingale',
             current_stake: 1.0,
             ticks: 1,
             take_profit: 10,
@@ -283,6 +310,7 @@ export default class SmartTradingStore {
             status: 'idle',
             stake: 1.0,
             martingale: 2.6,
+            staking_plan: 'martingale',
             current_stake: 1.0,
             ticks: 1,
             take_profit: 10,
@@ -315,6 +343,7 @@ export default class SmartTradingStore {
             status: 'idle',
             stake: 1.0,
             martingale: 3.5,
+            staking_plan: 'martingale',
             current_stake: 1.0,
             ticks: 1,
             take_profit: 10,
@@ -346,6 +375,7 @@ export default class SmartTradingStore {
             status: 'idle',
             stake: 1.0,
             martingale: 10,
+            staking_plan: 'martingale',
             current_stake: 1.0,
             ticks: 1,
             take_profit: 10,
@@ -377,6 +407,7 @@ export default class SmartTradingStore {
             status: 'idle',
             stake: 1.0,
             martingale: 1.1,
+            staking_plan: 'martingale',
             current_stake: 1.0,
             ticks: 1,
             take_profit: 10,
@@ -430,26 +461,48 @@ export default class SmartTradingStore {
         );
     }
 
-    @action
-    updateDigitStats = (last_digits: number[], price?: string | number) => {
-        if (!last_digits || last_digits.length === 0) return;
+    private tick_windows: number[] = [];
+    private last_tick_epoch = 0;
+    private disposeTickFeed: (() => void) | null = null;
+
+    /**
+     * Feeds the digit stats from the market data hub while a tab shows them. Tabs showing
+     * different numbers of ticks share one feed of the largest window they need, so every
+     * tick is counted once. Returns the function that stops watching.
+     */
+    watchTicks = (tick_window: number) => {
+        this.tick_windows.push(tick_window);
+        this.subscribeToTicks();
+        return () => {
+            this.tick_windows.splice(this.tick_windows.indexOf(tick_window), 1);
+            this.subscribeToTicks();
+        };
+    };
 
-        const stats = Array.from({ length: 10 }, (_, i) => ({
-            digit: i,
-            count: 0,
-            percentage: 0,
-        }));
+    subscribeToTicks = () => {
+        const disposePreviousFeed = this.disposeTickFeed;
+        const tick_window = Math.max(...this.tick_windows);
+
+        // Subscribing before unsubscribing keeps the stream of the symbol open.
+        this.disposeTickFeed = this.tick_windows.length
+            ? this.root_store.market_data.subscribe(this.symbol, ({ digits, epoch, quote }) => {
+                  if (epoch === this.last_tick_epoch) return;
+                  this.last_tick_epoch = epoch;
+                  this.updateDigitStats(digits.slice(-tick_window), quote);
+              })
+            : null;
+        disposePreviousFeed?.();
+    };
 
-        last_digits.forEach(digit => {
-            if (digit >= 0 && digit <= 9) stats[digit].count++;
-        });
+    @action
+    updateDigitStats = (last_digits: number[], price?: string | number, is_recorded = false) => {
+        if (!last_digits || last_digits.length === 0) return;
+        // Live ticks are ignored while a recorded dataset is the analysis input, and
+        // recorded ticks never trigger any of the trading bots.
+        if (this.recorded_dataset && !is_recorded) return;
+        const can_trade = !is_recorded;
 
-        const total = last_digits.length;
-        if (total > 0) {
-            stats.forEach(stat => {
-                stat.percentage = (stat.count / total) * 100;
-            });
-        }
+        const stats = getDigitFrequencies(last_digits);
 
         this.digit_stats = stats;
         this.ticks = last_digits;
@@ -458,29 +511,18 @@ export default class SmartTradingStore {
         if (price !== undefined && price !== null) {
             runInAction(() => {
                 this.current_price = price;
-                const price_str = String(price);
-                const last_char = price_str[price_str.length - 1];
-                const current_digit = parseInt(last_char);
-                if (!isNaN(current_digit)) {
-                    // Use the last digit from the input array which comes from the source of truth
-                    // avoiding string parsing issues (e.g. "1.50" -> "1.5" -> 5 instead of 0)
-                    const safe_last_digit = last_digits[last_digits.length - 1];
-                    this.last_digit = safe_last_digit !== undefined ? safe_last_digit : current_digit;
-
-                    if (this.last_digit % 2 === 0) {
-                        this.consecutive_even++;
-                        this.consecutive_odd = 0;
-                    } else {
-                        this.consecutive_odd++;
-                        this.consecutive_even = 0;
-                    }
-                }
+                // The digits come with the pip size of the symbol, "1.50" must not read as 5.
+                this.last_digit = last_digits[last_digits.length - 1];
+
+                const { parity, length } = getParityStreak(last_digits);
+                this.consecutive_even = parity === 'even' ? length : 0;
+                this.consecutive_odd = parity === 'odd' ? length : 0;
             });
         }
 
         this.calculateDominance();
 
-        if (this.is_speedbot_running) {
+        if (can_trade && this.is_speedbot_running) {
             this.executeSpeedTrade();
         }
 
@@ -488,7 +530,7 @@ export default class SmartTradingStore {
         const predictor = new SmartPredictor(last_digits);
         runInAction(() => {
             if (price !== undefined) {
-                this.analysis_engine.addTick(Number(price));
+                this.analysis_engine.addDigit(last_digits[last_digits.length - 1]);
                 this.root_store.analysis.updateDigitStats(last_digits, price);
             }
 
@@ -497,17 +539,19 @@ export default class SmartTradingStore {
                 hotCold: predictor.getHotCold(),
                 risk: predictor.getRiskMetrics(),
                 signal: predictor.getTradingSignal(),
+                uniformity: predictor.getUniformity(),
             };
 
             // Update VSense
             const vsense = new VSenseEngine(this.ticks, this.symbol);
             this.v_sense_signals = vsense.analyze();
 
-            if (this.is_turbo_bot_running) {
+            if (can_trade && this.is_turbo_bot_running) {
                 this.processTurboBot();
             }
         });
 
+        if (!can_trade) return;
         this.updatePowerHistory(stats);
         this.checkStrategyTriggers();
     };
@@ -630,10 +674,26 @@ export default class SmartTradingStore {
     @action
     setSymbol = (symbol: string) => {
         this.symbol = symbol;
+        this.recorded_dataset = null;
         this.resetStats();
+        this.subscribeToTicks();
         this.root_store.analysis.setSymbol(symbol);
     };
 
+    /**
+     * Uses a recorded tick dataset as the input of the analysis tabs instead of the live
+     * stream. Passing `null` switches back to live ticks.
+     */
+    @action
+    setRecordedDataset = (dataset: TReplayDataset | null) => {
+        this.recorded_dataset = dataset ? summariseDataset(dataset) : null;
+        this.resetStats();
+        if (!dataset?.ticks.length) return;
+
+        const last_quote = dataset.ticks[dataset.ticks.length - 1].quote;
+        this.updateDigitStats(getLastDigits(dataset), last_quote.toFixed(dataset.pip_size), true);
+    };
+
     @action
     setActiveSubtab = (subtab: TSmartSubtab) => {
         this.active_subtab = subtab;
@@ -657,7 +717,7 @@ export default class SmartTradingStore {
             this.current_stake = this.speedbot_stake;
 
             Object.values(this.strategies).forEach(s => {
-                s.current_stake = s.stake;
+                this.resetStrategyStake(s);
                 s.status = s.is_active ? 'waiting' : 'idle';
             });
         });
@@ -680,7 +740,7 @@ export default class SmartTradingStore {
     executeSpeedTrade = async () => {
         if (!this.root_store.common.is_socket_opened || !this.is_speedbot_running || this.is_executing) return;
 
-        if (!this.root_store.client.is_logged_in) {
+        if (!this.root_store.client.is_logged_in && !this.root_store.paper_trading.is_enabled) {
             this.toggleSpeedbot();
             this.root_store.run_panel.showLoginDialog();
             return;
@@ -706,169 +766,111 @@ export default class SmartTradingStore {
         globalObserver.emit('contract.status', { id: 'contract.purchase_sent' });
 
         const contract_type = this.speedbot_contract_type;
-        const stake = this.current_stake;
-        const symbol = this.symbol;
-        const barrier = ['DIGITMATCH', 'DIGITDIFF', 'DIGITOVER', 'DIGITUNDER'].includes(contract_type)
-            ? this.speedbot_prediction
-            : undefined;
 
         try {
-            if (!api_base.api) return;
-
-            type TProposalRequest = {
-                proposal: number;
-                amount: number;
-                basis: string;
-                contract_type: string;
-                currency: string;
-                duration: number;
-                duration_unit: string;
-                symbol: string;
-                barrier?: number;
-            };
-
-            const proposal_request: TProposalRequest = {
-                proposal: 1,
-                amount: stake,
-                basis: 'stake',
-                contract_type,
-                currency: this.root_store.client.currency || 'USD',
-                duration: 1,
-                duration_unit: 't',
-                symbol,
-            };
-
-            if (barrier !== undefined) {
-                proposal_request.barrier = barrier;
-            }
-
-            const proposal_response = await api_base.api.send(proposal_request);
-
-            if (proposal_response.error) {
-                console.error('SmartTrading Speedbot Proposal Error:', proposal_response.error);
-                this.is_executing = false;
-                return;
-            }
+            const { is_win, profit } = await trade_executor.execute(
+                this.getTradeRequest({
+                    contract_type,
+                    stake: this.current_stake,
+                    barrier: DIGIT_BARRIER_CONTRACTS.includes(contract_type) ? this.speedbot_prediction : undefined,
+                    idempotency_key: 'speedbot',
+                }),
+                this.contract_status_callbacks
+            );
 
-            const proposal_id = proposal_response.proposal?.id;
-            if (!proposal_id) {
-                this.is_executing = false;
-                return;
-            }
+            runInAction(() => {
+                this.updateSpeedbotResult(is_win, profit);
+
+                // Alternates
+                if (!is_win && (this.alternate_on_loss || this.alternate_even_odd)) {
+                    const alternates: Record<string, string> = {
+                        DIGITEVEN: 'DIGITODD',
+                        DIGITODD: 'DIGITEVEN',
+                        DIGITOVER: 'DIGITUNDER',
+                        DIGITUNDER: 'DIGITOVER',
+                        DIGITMATCH: 'DIGITDIFF',
+                        DIGITDIFF: 'DIGITMATCH',
+                    };
 
-            const buy_response = await api_base.api.send({
-                buy: proposal_id,
-                price: stake,
+                    // The Even/Odd toggle only alternates Even/Odd contracts
+                    const can_alternate =
+                        !this.alternate_even_odd || ['DIGITEVEN', 'DIGITODD'].includes(this.speedbot_contract_type);
+                    if (alternates[this.speedbot_contract_type] && can_alternate) {
+                        this.speedbot_contract_type = alternates[this.speedbot_contract_type];
+                    }
+                }
             });
-
-            if (buy_response.error) {
-                console.error('SmartTrading Speedbot Buy Error:', buy_response.error);
+        } catch (error) {
+            this.handleTradeError(error, () => this.is_speedbot_running && this.toggleSpeedbot());
+        } finally {
+            runInAction(() => {
                 this.is_executing = false;
-                return;
-            }
+            });
+        }
+    };
 
-            const contract_id = buy_response.buy?.contract_id;
+    /**
+     * Builds an executor request with the market, currency and 1 tick duration used by the
+     * Smart Trading tabs unless the caller overrides them.
+     */
+    getTradeRequest = (request: Pick<TTradeRequest, 'contract_type' | 'stake'> & Partial<TTradeRequest>) => ({
+        source: 'smart_trading' as const,
+        symbol: this.symbol,
+        currency: this.root_store.client.currency || 'USD',
+        duration: 1,
+        duration_unit: 't',
+        ...request,
+    });
+
+    contract_status_callbacks: TTradeCallbacks = {
+        onPurchase: buy => {
+            runInAction(() => this.root_store.run_panel.setContractStage(contract_stages.PURCHASE_RECEIVED));
+            globalObserver.emit('contract.status', { id: 'contract.purchase_received', buy });
+        },
+        onSettled: ({ contract }) => {
+            globalObserver.emit('bot.contract', contract);
+            globalObserver.emit('contract.status', { id: 'contract.sold', contract });
+        },
+    };
 
-            if (contract_id) {
-                this.root_store.run_panel.setContractStage(contract_stages.PURCHASE_RECEIVED);
-                globalObserver.emit('contract.status', {
-                    id: 'contract.purchase_received',
-                    buy: buy_response.buy,
-                });
+    handleTradeError = (error: unknown, onRiskLimitReached?: () => void) => {
+        const { code } = error as TradeExecutionError;
+        if (code === 'DuplicateTrade') return;
+        if (code === 'RiskLimitReached') {
+            runInAction(() => onRiskLimitReached?.());
+            return;
+        }
+        console.error('SmartTrading trade error:', error);
+    };
 
-                // Track result
-                const unsubscribe = api_base.api.subscribe(
-                    {
-                        proposal_open_contract: 1,
-                        contract_id,
-                    },
-                    (response: TDerivResponse) => {
-                        if (response.proposal_open_contract?.is_sold) {
-                            const status = response.proposal_open_contract?.status;
-                            const profit = parseFloat(response.proposal_open_contract?.profit || '0');
-
-                            globalObserver.emit('bot.contract', response.proposal_open_contract);
-                            globalObserver.emit('contract.status', {
-                                id: 'contract.sold',
-                                contract: response.proposal_open_contract,
-                            });
-
-                            runInAction(() => {
-                                if (status === 'won') {
-                                    this.wins++;
-                                    this.consecutive_losses = 0;
-                                    this.current_stake = this.speedbot_stake; // Reset stake
-                                    if (this.current_streak < 0) this.current_streak = 1;
-                                    else this.current_streak++;
-
-                                    // Reset contract type if alternating on loss was enabled
-                                    // (Actually, usually we keep alternating or reset based on user preference)
-                                } else {
-                                    this.losses++;
-                                    this.consecutive_losses++;
-
-                                    if (this.current_streak > 0) this.current_streak = -1;
-                                    else this.current_streak--;
-
-                                    // Martingale
-                                    if (this.use_martingale) {
-                                        this.current_stake = this.current_stake * this.martingale_multiplier;
-                                        if (this.is_max_stake_enabled && this.current_stake > this.max_stake_limit) {
-                                            this.current_stake = this.max_stake_limit;
-                                        }
-                                    }
-
-                                    // Alternates
-                                    if (this.alternate_on_loss || this.alternate_even_odd) {
-                                        const alternates: Record<string, string> = {
-                                            DIGITEVEN: 'DIGITODD',
-                                            DIGITODD: 'DIGITEVEN',
-                                            DIGITOVER: 'DIGITUNDER',
-                                            DIGITUNDER: 'DIGITOVER',
-                                            DIGITMATCH: 'DIGITDIFF',
-                                            DIGITDIFF: 'DIGITMATCH',
-                                        };
-
-                                        if (alternates[this.speedbot_contract_type]) {
-                                            // Specific Even/Odd check for alternate_even_odd toggle
-                                            if (
-                                                this.alternate_even_odd &&
-                                                !['DIGITEVEN', 'DIGITODD'].includes(this.speedbot_contract_type)
-                                            ) {
-                                                // Do nothing or switch to even?
-                                            } else {
-                                                this.speedbot_contract_type = alternates[this.speedbot_contract_type];
-                                            }
-                                        }
-                                    }
-                                }
-                                this.session_pl += profit;
-                                this.is_executing = false;
-                            });
-
-                            // Close subscription
-                            if (unsubscribe && typeof unsubscribe === 'function') {
-                                unsubscribe();
-                            } else {
-                                api_base.api.send({ forget: response.subscription?.id });
-                            }
-                        }
-                    }
-                );
-            } else {
-                this.is_executing = false;
+    @action
+    updateSpeedbotResult = (is_win: boolean, profit: number) => {
+        if (is_win) {
+            this.wins++;
+            this.consecutive_losses = 0;
+            this.current_stake = this.speedbot_stake; // Reset stake
+            this.current_streak = this.current_streak < 0 ? 1 : this.current_streak + 1;
+        } else {
+            this.losses++;
+            this.consecutive_losses++;
+            this.current_streak = this.current_streak > 0 ? -1 : this.current_streak - 1;
+
+            // Martingale
+            if (this.use_martingale) {
+                this.current_stake = this.current_stake * this.martingale_multiplier;
+                if (this.is_max_stake_enabled && this.current_stake > this.max_stake_limit) {
+                    this.current_stake = this.max_stake_limit;
+                }
             }
-        } catch (error) {
-            console.error('SmartTrading Speedbot execution error:', error);
-            this.is_executing = false;
         }
+        this.session_pl += profit;
     };
 
     @action
     executeBulkTrade = async () => {
         if (!this.root_store.common.is_socket_opened || this.is_bulk_trading) return;
 
-        if (!this.root_store.client.is_logged_in) {
+        if (!this.root_store.client.is_logged_in && !this.root_store.paper_trading.is_enabled) {
             this.root_store.run_panel.showLoginDialog();
             return;
         }
@@ -904,7 +906,7 @@ export default class SmartTradingStore {
         strategy.is_active = !strategy.is_active;
         if (!strategy.is_active) {
             strategy.status = 'idle';
-            strategy.current_stake = strategy.stake;
+            this.resetStrategyStake(strategy);
         } else {
             strategy.status = 'waiting';
         }
@@ -1015,9 +1017,32 @@ export default class SmartTradingStore {
         const strategy = this.strategies[strategy_id];
         if (strategy) {
             (strategy as any)[key] = value;
+            if (STAKING_SETTING_KEYS.includes(key)) this.resetStrategyStake(strategy);
         }
     };
 
+    getStrategyStakingPlan = (strategy: TStrategy) => {
+        let plan = this.staking_plans.get(strategy.id);
+        if (!plan) {
+            const is_martingale_plan = STAKING_PLAN_PARAMETERS[strategy.staking_plan]?.key === 'multiplier';
+            plan = createStakingPlan(
+                getStakingPlanConfig(
+                    strategy.staking_plan,
+                    strategy.stake,
+                    is_martingale_plan ? strategy.martingale : strategy.staking_parameter
+                )
+            );
+            this.staking_plans.set(strategy.id, plan);
+        }
+        return plan;
+    };
+
+    @action
+    resetStrategyStake = (strategy: TStrategy) => {
+        this.staking_plans.delete(strategy.id);
+        strategy.current_stake = strategy.stake;
+    };
+
     @action
     runSmartAuto24Loop = async () => {
         // This is legacy now, but keeping for compatibility if referenced elsewhere
@@ -1029,10 +1054,10 @@ export default class SmartTradingStore {
         const strategy = this.strategies[strategy_id];
         if (!strategy || !this.digit_stats) return { action: 'WAIT' };
 
-        const sorted_stats = [...this.digit_stats].sort((a, b) => b.percentage - a.percentage);
-        const most_appearing = sorted_stats[0].digit;
-        const second_most = sorted_stats[1].digit;
-        const least_appearing = sorted_stats[sorted_stats.length - 1].digit;
+        const ranked_digits = rankDigits(digits);
+        const most_appearing = ranked_digits[0];
+        const second_most = ranked_digits[1];
+        const least_appearing = ranked_digits[ranked_digits.length - 1];
 
         const getPowerTrend = (digit: number) => {
             const history = strategy.power_history || [];
@@ -1051,7 +1076,7 @@ export default class SmartTradingStore {
                 const second_is_even = is_even(second_most);
                 const least_is_even = is_even(least_appearing);
 
-                const even_pct = this.digit_stats.filter(s => is_even(s.digit)).reduce((acc, s) => acc + s.percentage, 0);
+                const even_pct = getParityPercentage(digits, 'even');
                 const odd_pct = 100 - even_pct;
 
                 // Check for unstable market (decreasing power)
@@ -1106,7 +1131,7 @@ export default class SmartTradingStore {
             }
             case 'OVER3UNDER6':
             case 'OVER2UNDER7': {
-                const over_pct = this.digit_stats.filter(s => s.digit > 4).reduce((acc, s) => acc + s.percentage, 0);
+                const over_pct = getOverPercentage(digits, 4);
                 const under_pct = 100 - over_pct;
 
                 const is_over = over_pct >= under_pct;
@@ -1267,123 +1292,67 @@ export default class SmartTradingStore {
         strategy.status = 'trading';
         const trade_type = override_type || strategy.trade_type;
         const prediction = override_prediction !== undefined ? override_prediction : strategy.prediction;
+        const staking_plan = this.getStrategyStakingPlan(strategy);
+        const stake = staking_plan.getStake({ balance: Number(this.root_store.client.balance) });
+        strategy.current_stake = stake;
 
         this.root_store.run_panel.setContractStage(contract_stages.PURCHASE_SENT);
         globalObserver.emit('contract.status', { id: 'contract.purchase_sent' });
 
-        // Helper for timeouts
-        const timeoutPromise = (ms: number, msg: string) =>
-            new Promise<never>((_, reject) => setTimeout(() => reject(new Error(msg)), ms));
-
         try {
-            // PROPOSAL Step with Timeout
-            const proposal = await Promise.race([
-                api_base.api.send({
-                    proposal: 1,
-                    amount: strategy.current_stake,
-                    basis: 'stake',
-                    contract_type: trade_type,
-                    currency: this.root_store.client.currency || 'USD',
+            const { is_win, profit, contract } = await trade_executor.execute(
+                this.getTradeRequest({
+                    contract_type: trade_type ?? '',
+                    stake,
                     duration: strategy.ticks,
-                    duration_unit: 't',
-                    symbol: this.symbol,
-                    ...((['DIGITOVER', 'DIGITUNDER', 'DIGITMATCH', 'DIGITDIFF'].includes(trade_type || '')) && prediction !== undefined ? { barrier: String(prediction) } : {}),
-                }),
-                timeoutPromise(10000, 'Proposal timed out')
-            ]);
-
-            if (proposal.error) {
-                console.warn('Strategy Proposal Error:', proposal.error.message);
-                runInAction(() => { strategy.status = 'waiting'; });
-                return;
-            }
-
-            // BUY Step with Timeout
-            const buy = await Promise.race([
-                api_base.api.send({
-                    buy: proposal.proposal.id,
-                    price: strategy.current_stake,
+                    barrier: DIGIT_BARRIER_CONTRACTS.includes(trade_type || '') ? prediction : undefined,
+                    idempotency_key: `strategy-${id}`,
                 }),
-                timeoutPromise(10000, 'Buy timed out')
-            ]);
-
-            if (buy.error) {
-                console.warn('Strategy Buy Error:', buy.error.message);
-                runInAction(() => { strategy.status = 'waiting'; });
-                return;
-            }
-
-            const contract_id = buy.buy.contract_id;
+                this.contract_status_callbacks
+            );
 
             runInAction(() => {
-                this.root_store.run_panel.setContractStage(contract_stages.PURCHASE_RECEIVED);
-            });
-            globalObserver.emit('contract.status', {
-                id: 'contract.purchase_received',
-                buy: buy.buy,
-            });
+                const status = contract.status || 'lost';
+                const trade_result = {
+                    timestamp: Date.now(),
+                    contractType: trade_type || 'Unknown',
+                    stake,
+                    result: status.toUpperCase(),
+                    profitLoss: profit,
+                };
+                this.trade_history.push(trade_result as TTradeHistory);
+
+                // Update global stats
+                if (is_win) {
+                    this.wins++;
+                    this.consecutive_losses = 0;
+                } else {
+                    this.losses++;
+                    this.consecutive_losses++;
+                }
+                this.session_pl += profit;
+                this.max_drawdown = Math.min(this.max_drawdown, this.session_pl);
 
-            // Subscription doesn't block the next tick loop directly, but let's ensure we catch errors
-            const unsubscribe = api_base.api.subscribe(
-                {
-                    proposal_open_contract: 1,
-                    contract_id,
-                },
-                (response: TDerivResponse) => {
-                    if (response.proposal_open_contract?.is_sold) {
-                        const status = response.proposal_open_contract?.status || 'lost';
-                        const profit = parseFloat(response.proposal_open_contract?.profit || '0');
-
-                        globalObserver.emit('bot.contract', response.proposal_open_contract);
-                        globalObserver.emit('contract.status', {
-                            id: 'contract.sold',
-                            contract: response.proposal_open_contract,
-                        });
-
-                        runInAction(() => {
-                            const trade_result = {
-                                timestamp: Date.now(),
-                                contractType: trade_type || 'Unknown',
-                                stake: strategy.current_stake,
-                                result: status.toUpperCase(),
-                                profitLoss: profit,
-                            };
-                            this.trade_history.push(trade_result as TTradeHistory);
-
-                            // Update global stats
-                            if (status === 'won') {
-                                this.wins++;
-                                this.consecutive_losses = 0;
-                            } else {
-                                this.losses++;
-                                this.consecutive_losses++;
-                            }
-                            this.session_pl += profit;
-                            this.max_drawdown = Math.min(this.max_drawdown, this.session_pl);
-
-                            // Update per-strategy stats
-                            if (status === 'won') {
-                                strategy.total_wins++;
-                                strategy.consecutive_losses = 0;
-                                strategy.current_stake = strategy.stake;
-                            } else {
-                                strategy.total_losses++;
-                                strategy.consecutive_losses++;
-                                strategy.current_stake *= strategy.martingale;
-                            }
-                            strategy.profit_loss += profit;
-                            strategy.status = 'waiting';
-                        });
-
-                        if (unsubscribe && typeof unsubscribe === 'function') unsubscribe();
-                    }
+                // Update per-strategy stats
+                if (is_win) {
+                    strategy.total_wins++;
+                    strategy.consecutive_losses = 0;
+                } else {
+                    strategy.total_losses++;
+                    strategy.consecutive_losses++;
                 }
-            );
-        } catch (error: any) {
-            console.error('ExecuteStrategyTrade Timeout/Error:', error.message);
-            runInAction(() => {
+                staking_plan.recordResult({ profit, stake });
+                strategy.current_stake = staking_plan.getStake({ balance: Number(this.root_store.client.balance) });
+                strategy.profit_loss += profit;
                 strategy.status = 'waiting';
-                // Optionally add a small delay before retry to avoid spamming a bad connection
+            });
+        } catch (error) {
+            this.handleTradeError(error, () => {
+                strategy.is_running = false;
+                strategy.is_active = false;
+            });
+            runInAction(() => {
+                strategy.status = strategy.is_active ? 'waiting' : 'idle';
             });
         }
     };
@@ -1391,7 +1360,7 @@ export default class SmartTradingStore {
     manualTrade = async (contract_type: string, prediction?: number) => {
         if (!this.root_store.common.is_socket_opened || this.is_executing) return;
 
-        if (!this.root_store.client.is_logged_in) {
+        if (!this.root_store.client.is_logged_in && !this.root_store.paper_trading.is_enabled) {
             this.root_store.run_panel.showLoginDialog();
             return;
         }
@@ -1401,113 +1370,39 @@ export default class SmartTradingStore {
         this.root_store.run_panel.setContractStage(contract_stages.PURCHASE_SENT);
         globalObserver.emit('contract.status', { id: 'contract.purchase_sent' });
 
-        const stake = this.current_stake;
-        const symbol = this.symbol;
-
         try {
-            if (!api_base.api) {
-                this.is_executing = false;
-                this.root_store.run_panel.setIsRunning(false);
-                return;
-            }
-
-            const proposal_request: any = {
-                proposal: 1,
-                amount: stake,
-                basis: 'stake',
-                contract_type,
-                currency: this.root_store.client.currency || 'USD',
-                duration: 1,
-                duration_unit: 't',
-                symbol,
-            };
-
-            if (prediction !== undefined) {
-                proposal_request.barrier = String(prediction);
-            }
-
-            const proposal_response = await api_base.api.send(proposal_request);
+            const { is_win, profit } = await trade_executor.execute(
+                this.getTradeRequest({
+                    contract_type,
+                    stake: this.current_stake,
+                    barrier: prediction,
+                    idempotency_key: 'manual',
+                }),
+                this.contract_status_callbacks
+            );
 
-            if (proposal_response.error) {
-                console.error('SmartTrading Manual Proposal Error:', proposal_response.error);
+            this.updateSpeedbotResult(is_win, profit);
+        } catch (error) {
+            this.handleTradeError(error);
+            runInAction(() => this.root_store.run_panel.setIsRunning(false));
+        } finally {
+            runInAction(() => {
                 this.is_executing = false;
-                this.root_store.run_panel.setIsRunning(false);
-                return;
-            }
-
-            const proposal_id = proposal_response.proposal?.id;
-            const buy_response = await api_base.api.send({
-                buy: proposal_id,
-                price: stake,
             });
+        }
+    };
 
-            if (buy_response.error) {
-                console.error('SmartTrading Manual Buy Error:', buy_response.error);
-                this.is_executing = false;
-                this.root_store.run_panel.setIsRunning(false);
-                return;
-            }
-
-            const contract_id = buy_response.buy?.contract_id;
-            if (contract_id) {
-                this.root_store.run_panel.setContractStage(contract_stages.PURCHASE_RECEIVED);
-                globalObserver.emit('contract.status', {
-                    id: 'contract.purchase_received',
-                    buy: buy_response.buy,
-                });
+    @action
+    stopAllBots = () => {
+        this.is_speedbot_running = false;
+        this.is_bulk_trading = false;
+        if (this.is_turbo_bot_running) this.toggleTurboBot();
 
-                const unsubscribe = api_base.api.subscribe(
-                    { proposal_open_contract: 1, contract_id },
-                    (response: TDerivResponse) => {
-                        if (response.proposal_open_contract?.is_sold) {
-                            const status = response.proposal_open_contract?.status;
-                            const profit = parseFloat(response.proposal_open_contract?.profit || '0');
-
-                            globalObserver.emit('bot.contract', response.proposal_open_contract);
-                            globalObserver.emit('contract.status', {
-                                id: 'contract.sold',
-                                contract: response.proposal_open_contract,
-                            });
-
-                            runInAction(() => {
-                                if (status === 'won') {
-                                    this.wins++;
-                                    this.consecutive_losses = 0;
-                                    this.current_stake = this.speedbot_stake;
-                                    this.current_streak = this.current_streak < 0 ? 1 : this.current_streak + 1;
-                                } else {
-                                    this.losses++;
-                                    this.consecutive_losses++;
-                                    this.current_streak = this.current_streak > 0 ? -1 : this.current_streak - 1;
-
-                                    if (this.use_martingale) {
-                                        this.current_stake = this.current_stake * this.martingale_multiplier;
-                                        if (this.is_max_stake_enabled && this.current_stake > this.max_stake_limit) {
-                                            this.current_stake = this.max_stake_limit;
-                                        }
-                                    }
-                                }
-                                this.session_pl += profit;
-                                this.is_executing = false;
-                            });
-
-                            if (unsubscribe && typeof unsubscribe === 'function') {
-                                unsubscribe();
-                            } else {
-                                api_base.api.send({ forget: response.subscription?.id });
-                            }
-                        }
-                    }
-                );
-            } else {
-                this.is_executing = false;
-                this.root_store.run_panel.setIsRunning(false);
-            }
-        } catch (error) {
-            console.error('SmartTrading Manual execution error:', error);
-            this.is_executing = false;
-            this.root_store.run_panel.setIsRunning(false);
-        }
+        Object.values(this.strategies).forEach(strategy => {
+            strategy.is_running = false;
+            strategy.is_active = false;
+            strategy.status = 'idle';
+        });
     };
 
     @action
@@ -1618,12 +1513,13 @@ export default class SmartTradingStore {
 
                     if (response.error || !response.history?.prices) return null;
 
-                    const prices = response.history.prices;
-                    const current_price = prices[prices.length - 1];
-                    const digits = prices.map((p: number | string) => {
-                        const s = String(p);
-                        return parseInt(s[s.length - 1]);
-                    });
+                    const quotes: number[] = response.history.prices.map(Number);
+                    // The prices come without trailing zeros, so their last digits use the pip size of
+                    // the symbol: 1.50 must read as 0, not 5.
+                    const pip_size =
+                        (api_base.pip_sizes as Record<string, number>)[symbol] ?? getPipSizeOfQuotes(quotes);
+                    const current_price = quotes[quotes.length - 1].toFixed(pip_size);
+                    const digits = quotes.map(quote => getLastDigitOfQuote(quote, pip_size));
 
                     const last_digit = digits[digits.length - 1];
 
@@ -1675,7 +1571,7 @@ export default class SmartTradingStore {
 
                     return {
                         symbol,
-                        price: String(current_price),
+                        price: current_price,
                         last_digit,
                         even_pct,
                         odd_pct,
@@ -1717,63 +1613,36 @@ export default class SmartTradingStore {
 
     @action
     fireTurboContract = async (type: string, stake: number, duration: number, prediction?: number) => {
-        if (!api_base.api) return;
-
         try {
-            const proposal = await api_base.api.send({
-                proposal: 1,
-                amount: stake,
-                basis: 'stake',
-                contract_type: type,
-                currency: this.root_store.client.currency || 'USD',
-                duration,
-                duration_unit: 't',
-                symbol: this.symbol,
-                ...((prediction !== undefined) ? { barrier: String(prediction) } : {}),
-            });
-
-            if (proposal.error) return;
-
-            const buy = await api_base.api.send({
-                buy: proposal.proposal.id,
-                price: stake,
-            });
+            const { is_win, profit } = await trade_executor.execute(
+                this.getTradeRequest({ contract_type: type, stake, duration, barrier: prediction }),
+                this.contract_status_callbacks
+            );
 
-            if (buy.error) return;
-
-            const contract_id = buy.buy.contract_id;
-            const unsubscribe = api_base.api.subscribe(
-                { proposal_open_contract: 1, contract_id },
-                (response: TDerivResponse) => {
-                    if (response.proposal_open_contract?.is_sold) {
-                        const is_win = response.proposal_open_contract.status === 'won';
-                        const profit = parseFloat(response.proposal_open_contract.profit || '0');
-
-                        runInAction(() => {
-                            if (is_win) this.wins++;
-                            else {
-                                this.losses++;
-                                if (this.is_turbo_bot_running) {
-                                    this.is_turbo_bot_running = false;
-                                    this.turbo_bot_state = 'STOPPED';
-                                }
-                            }
-                            this.session_pl += profit;
-
-                            this.trade_history.push({
-                                timestamp: Date.now(),
-                                contractType: type,
-                                stake,
-                                result: is_win ? 'WON' : 'LOST',
-                                profitLoss: profit,
-                            } as TTradeHistory);
-                        });
-                        if (unsubscribe && typeof unsubscribe === 'function') unsubscribe();
+            runInAction(() => {
+                if (is_win) this.wins++;
+                else {
+                    this.losses++;
+                    if (this.is_turbo_bot_running) {
+                        this.is_turbo_bot_running = false;
+                        this.turbo_bot_state = 'STOPPED';
                     }
                 }
-            );
-        } catch (e) {
-            console.error('Turbo Exec Error:', e);
+                this.session_pl += profit;
+
+                this.trade_history.push({
+                    timestamp: Date.now(),
+                    contractType: type,
+                    stake,
+                    result: is_win ? 'WON' : 'LOST',
+                    profitLoss: profit,
+                } as TTradeHistory);
+            });
+        } catch (error) {
+            this.handleTradeError(error, () => {
+                this.is_turbo_bot_running = false;
+                this.turbo_bot_state = 'STOPPED';
+            });
         }
     };
 }
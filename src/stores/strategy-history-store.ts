@@ -0,0 +1,130 @@
+import { action, computed, makeObservable, observable, runInAction } from 'mobx';
+import { save_types } from '@/external/bot-skeleton';
+import {
+    diffStrategies,
+    strategy_history,
+    TStrategyDiff,
+    TStrategyVersion,
+} from '@/external/bot-skeleton/services/strategy-history';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+export default class StrategyHistoryStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_modal_open: observable,
+            is_loading: observable,
+            strategy_id: observable,
+            versions: observable.ref,
+            base_version_id: observable,
+            compare_version_id: observable,
+            error_message: observable,
+            base_version: computed,
+            compare_version: computed,
+            diff: computed,
+            toggleModal: action.bound,
+            loadVersions: action.bound,
+            setBaseVersionId: action.bound,
+            setCompareVersionId: action.bound,
+            updateNote: action.bound,
+            restoreVersion: action.bound,
+        });
+
+        this.root_store = root_store;
+    }
+
+    is_modal_open = false;
+    is_loading = false;
+    strategy_id = '';
+    versions: TStrategyVersion[] = [];
+    base_version_id = '';
+    compare_version_id = '';
+    error_message = '';
+
+    get base_version() {
+        return this.versions.find(({ id }) => id === this.base_version_id);
+    }
+
+    get compare_version() {
+        return this.versions.find(({ id }) => id === this.compare_version_id);
+    }
+
+    get diff(): TStrategyDiff | null {
+        if (!this.base_version || !this.compare_version) return null;
+        try {
+            return diffStrategies(this.base_version.xml, this.compare_version.xml);
+        } catch (error) {
+            return null;
+        }
+    }
+
+    toggleModal = () => {
+        this.is_modal_open = !this.is_modal_open;
+        if (this.is_modal_open) this.loadVersions(window.Blockly?.derivWorkspace?.current_strategy_id ?? '');
+    };
+
+    loadVersions = async (strategy_id: string) => {
+        this.strategy_id = strategy_id;
+        this.is_loading = true;
+        this.error_message = '';
+        try {
+            const versions = await strategy_history.getVersions(strategy_id);
+            runInAction(() => {
+                this.versions = versions;
+                // Compares the latest version with the one before it by default.
+                this.compare_version_id = versions[0]?.id ?? '';
+                this.base_version_id = versions[1]?.id ?? versions[0]?.id ?? '';
+            });
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        } finally {
+            runInAction(() => (this.is_loading = false));
+        }
+    };
+
+    setBaseVersionId = (version_id: string) => {
+        this.base_version_id = version_id;
+    };
+
+    setCompareVersionId = (version_id: string) => {
+        this.compare_version_id = version_id;
+    };
+
+    updateNote = async (version_id: string, note: string) => {
+        const version = await strategy_history.updateNote(this.strategy_id, version_id, note);
+        if (!version) return;
+        runInAction(() => {
+            this.versions = this.versions.map(item => (item.id === version_id ? { ...item, note } : item));
+        });
+    };
+
+    restoreVersion = async (version_id: string) => {
+        const version = this.versions.find(({ id }) => id === version_id);
+        if (!version) return;
+
+        this.error_message = '';
+        try {
+            await this.root_store.load_modal.loadStrategyToBuilder({
+                id: version.strategy_id,
+                xml: version.xml,
+                name: version.name,
+                save_type: save_types.LOCAL,
+                timestamp: Date.now(),
+            });
+            // Loading saves the restored blocks as the latest version, which gets this note.
+            await strategy_history.addVersion({
+                strategy_id: version.strategy_id,
+                name: version.name,
+                xml: version.xml,
+                note: localize('Restored version from {{ date }}', {
+                    date: new Date(version.timestamp).toLocaleString(),
+                }),
+            });
+            runInAction(() => (this.is_modal_open = false));
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        }
+    };
+}
@@ -0,0 +1,114 @@
+import { action, makeObservable, observable, runInAction } from 'mobx';
+import { getLastDigits, tick_recorder, TTickHistorySummary } from '@/external/bot-skeleton/services/tick-history';
+import {
+    DEFAULT_WALK_FORWARD_OPTIONS,
+    runStrategyLab,
+    TStrategyLabProgress,
+    TStrategyLabReport,
+    TWalkForwardOptions,
+} from '@/lib/ai/strategy-lab';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+export default class StrategyLabStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            summaries: observable.ref,
+            symbol: observable,
+            options: observable.ref,
+            is_running: observable,
+            progress: observable.ref,
+            report: observable.ref,
+            report_symbol: observable,
+            error_message: observable,
+            loadSummaries: action.bound,
+            setSymbol: action.bound,
+            setOption: action.bound,
+            runLab: action.bound,
+            stopLab: action.bound,
+        });
+
+        this.root_store = root_store;
+    }
+
+    summaries: TTickHistorySummary[] = [];
+    symbol = '';
+    options: TWalkForwardOptions = { ...DEFAULT_WALK_FORWARD_OPTIONS };
+    is_running = false;
+    progress: TStrategyLabProgress | null = null;
+    report: TStrategyLabReport | null = null;
+    report_symbol = '';
+    error_message = '';
+    should_stop = false;
+
+    loadSummaries = async () => {
+        try {
+            const summaries = await tick_recorder.getSummaries();
+            runInAction(() => {
+                this.summaries = summaries;
+                if (!summaries.some(({ symbol }) => symbol === this.symbol)) this.symbol = summaries[0]?.symbol ?? '';
+            });
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        }
+    };
+
+    setSymbol = (symbol: string) => {
+        this.symbol = symbol;
+        this.error_message = '';
+    };
+
+    setOption = (key: keyof TWalkForwardOptions, value: number) => {
+        if (!Number.isFinite(value)) return;
+        this.options = { ...this.options, [key]: Math.max(0, Math.floor(value)) };
+    };
+
+    runLab = async () => {
+        if (this.is_running || !this.symbol) return;
+
+        this.error_message = '';
+        const { symbol, options } = this;
+        const dataset = await tick_recorder.getTicks(symbol);
+        const digits = dataset ? getLastDigits(dataset) : [];
+        if (digits.length <= options.train_size) {
+            runInAction(
+                () =>
+                    (this.error_message = localize(
+                        'At least {{ count }} recorded ticks are needed for a training window of {{ train_size }}.',
+                        { count: options.train_size + 1, train_size: options.train_size }
+                    ))
+            );
+            return;
+        }
+
+        runInAction(() => {
+            this.is_running = true;
+            this.should_stop = false;
+            this.progress = null;
+        });
+        try {
+            const report = await runStrategyLab(digits, {
+                ...options,
+                onProgress: progress => runInAction(() => (this.progress = progress)),
+                isCancelled: () => this.should_stop,
+            });
+            runInAction(() => {
+                this.report = report;
+                this.report_symbol = symbol;
+            });
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        } finally {
+            runInAction(() => {
+                this.is_running = false;
+                this.progress = null;
+            });
+        }
+    };
+
+    stopLab = () => {
+        this.should_stop = true;
+    };
+}
@@ -0,0 +1,56 @@
+import { action, makeObservable, observable } from 'mobx';
+import { scanStrategy, TScanFinding } from '@/external/bot-skeleton/services/strategy-scanner';
+import RootStore from './root-store';
+
+type TImportReview = {
+    name: string;
+    findings: TScanFinding[];
+};
+
+export default class StrategyScanStore {
+    root_store: RootStore;
+    resolveReview: ((is_confirmed: boolean) => void) | null = null;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            review: observable.ref,
+            reviewImport: action.bound,
+            confirmReview: action.bound,
+            cancelReview: action.bound,
+        });
+
+        this.root_store = root_store;
+    }
+
+    /** The findings of an imported strategy, waiting for the user to confirm them. */
+    review: TImportReview | null = null;
+
+    /**
+     * Scans a strategy before it is imported. Resolves with whether it may load: right
+     * away when nothing was found, or once the user has reviewed the findings.
+     */
+    reviewImport(xml: string, name: string) {
+        const findings = scanStrategy(xml);
+        if (!findings.length) return Promise.resolve(true);
+
+        // A newer import replaces one still waiting for review.
+        this.settleReview(false);
+        this.review = { name, findings };
+        return new Promise<boolean>(resolve => (this.resolveReview = resolve));
+    }
+
+    confirmReview() {
+        this.settleReview(true);
+    }
+
+    cancelReview() {
+        this.settleReview(false);
+    }
+
+    settleReview(is_confirmed: boolean) {
+        const resolveReview = this.resolveReview;
+        this.review = null;
+        this.resolveReview = null;
+        resolveReview?.(is_confirmed);
+    }
+}
@@ -0,0 +1,129 @@
+import { action, makeObservable, observable, runInAction } from 'mobx';
+import { saveAs } from '@/external/bot-skeleton/scratch/shared';
+import {
+    tick_recorder,
+    TTickExportFormat,
+    TTickHistorySettings,
+    TTickHistorySummary,
+} from '@/external/bot-skeleton/services/tick-history';
+import { localize } from '@deriv-com/translations';
+import RootStore from './root-store';
+
+const EXPORT_MIME_TYPES: Record<TTickExportFormat, string> = {
+    csv: 'text/csv;charset=utf-8',
+    json: 'application/json;charset=utf-8',
+};
+
+export default class TickHistoryStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_modal_open: observable,
+            is_loading: observable,
+            summaries: observable.ref,
+            settings: observable.ref,
+            error_message: observable,
+            toggleModal: action.bound,
+            loadSummaries: action.bound,
+            updateSettings: action.bound,
+            importFile: action.bound,
+            exportSymbol: action.bound,
+            removeSymbol: action.bound,
+            useForAnalysis: action.bound,
+            useForBacktest: action.bound,
+        });
+
+        this.root_store = root_store;
+    }
+
+    is_modal_open = false;
+    is_loading = false;
+    summaries: TTickHistorySummary[] = [];
+    settings: TTickHistorySettings = tick_recorder.settings;
+    error_message = '';
+
+    toggleModal = () => {
+        this.is_modal_open = !this.is_modal_open;
+        if (this.is_modal_open) this.loadSummaries();
+    };
+
+    loadSummaries = async () => {
+        this.is_loading = true;
+        this.error_message = '';
+        try {
+            const settings = await tick_recorder.loadSettings();
+            const summaries = await tick_recorder.getSummaries();
+            runInAction(() => {
+                this.settings = settings;
+                this.summaries = summaries;
+            });
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        } finally {
+            runInAction(() => (this.is_loading = false));
+        }
+    };
+
+    updateSettings = async (settings: Partial<TTickHistorySettings>) => {
+        const updated_settings = await tick_recorder.updateSettings(settings);
+        runInAction(() => (this.settings = updated_settings));
+        await this.loadSummaries();
+    };
+
+    importFile = async (file: File) => {
+        this.error_message = '';
+        try {
+            await tick_recorder.importFile(await file.text());
+            await this.loadSummaries();
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        }
+    };
+
+    exportSymbol = async (symbol: string, format: TTickExportFormat) => {
+        try {
+            const data = await tick_recorder.exportDataset(symbol, format);
+            saveAs({ data, filename: `${symbol}-ticks.${format}`, type: EXPORT_MIME_TYPES[format] });
+        } catch (error) {
+            runInAction(() => (this.error_message = (error as Error).message));
+        }
+    };
+
+    removeSymbol = async (symbol: string) => {
+        const { smart_trading, backtest } = this.root_store;
+
+        await tick_recorder.removeSymbol(symbol);
+        if (smart_trading.recorded_dataset?.symbol === symbol) smart_trading.setRecordedDataset(null);
+        if (backtest.dataset?.symbol === symbol && !backtest.is_running) backtest.setDataset(null);
+        await this.loadSummaries();
+    };
+
+    useForAnalysis = async (symbol: string) => {
+        const dataset = await tick_recorder.getTicks(symbol);
+        if (!dataset?.ticks.length) {
+            runInAction(() => (this.error_message = localize('No ticks recorded for {{ symbol }}', { symbol })));
+            return;
+        }
+
+        this.root_store.smart_trading.setRecordedDataset(dataset);
+        runInAction(() => (this.is_modal_open = false));
+    };
+
+    useForBacktest = async (symbol: string) => {
+        const { backtest } = this.root_store;
+        if (backtest.is_running) return;
+
+        const dataset = await tick_recorder.getTicks(symbol);
+        if (!dataset || dataset.ticks.length < 2) {
+            runInAction(
+                () => (this.error_message = localize('Not enough ticks recorded for {{ symbol }}', { symbol }))
+            );
+            return;
+        }
+
+        backtest.setDataset(dataset, localize('Recorded {{ symbol }} ticks', { symbol }));
+        runInAction(() => (this.is_modal_open = false));
+        if (!backtest.is_modal_open) backtest.toggleModal();
+    };
+}
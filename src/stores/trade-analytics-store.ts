@@ -0,0 +1,92 @@
+import { action, computed, makeObservable, observable } from 'mobx';
+import { TContractInfo } from '@/components/summary/summary-card.types';
+import { transaction_elements } from '@/constants/transactions';
+import { TRiskSource } from '@/external/bot-skeleton/services/risk';
+import { analyzeTrades, TAnalyticsTrade } from '@/external/bot-skeleton/services/trade-analytics';
+import RootStore from './root-store';
+
+/** `transactions` covers the run panel list, `history` every run kept in the run history. */
+export type TAnalyticsScope = 'transactions' | 'history';
+
+const bySettlement = (a: TAnalyticsTrade, b: TAnalyticsTrade) => a.settled_at - b.settled_at;
+
+export default class TradeAnalyticsStore {
+    root_store: RootStore;
+
+    constructor(root_store: RootStore) {
+        makeObservable(this, {
+            is_modal_open: observable,
+            scope: observable,
+            source_filter: observable,
+            currency: computed,
+            trades: computed,
+            analytics: computed,
+            toggleModal: action.bound,
+            setScope: action.bound,
+            setSourceFilter: action.bound,
+        });
+
+        this.root_store = root_store;
+    }
+
+    is_modal_open = false;
+    scope: TAnalyticsScope = 'transactions';
+    source_filter: TRiskSource | '' = '';
+
+    get currency() {
+        return this.root_store.client.currency || 'USD';
+    }
+
+    get trades(): TAnalyticsTrade[] {
+        if (this.scope === 'history') {
+            const { currency } = this;
+            return this.root_store.run_history.sessions
+                .filter(session => session.currency === currency)
+                .filter(({ source }) => !this.source_filter || source === this.source_filter)
+                .flatMap(({ trades }) => trades)
+                .map(({ contract_type, symbol, buy_price, profit, purchased_at, settled_at }) => ({
+                    contract_type,
+                    symbol,
+                    buy_price,
+                    profit,
+                    purchased_at: purchased_at ?? settled_at,
+                    settled_at,
+                }))
+                .sort(bySettlement);
+        }
+
+        return this.root_store.transactions.transactions
+            .filter(({ type, data }) => type === transaction_elements.CONTRACT && typeof data === 'object')
+            .map(({ data }) => data as TContractInfo)
+            .filter(({ is_completed }) => is_completed)
+            .map(({ contract_type, underlying, buy_price, profit, purchase_time, sell_time, date_expiry }) => {
+                const settled_at = (sell_time ?? date_expiry ?? purchase_time ?? 0) * 1000;
+                return {
+                    contract_type: contract_type ?? '',
+                    symbol: underlying ?? '',
+                    buy_price: Number(buy_price ?? 0),
+                    profit: Number(profit ?? 0),
+                    purchased_at: purchase_time ? purchase_time * 1000 : settled_at,
+                    settled_at,
+                };
+            })
+            .sort(bySettlement);
+    }
+
+    get analytics() {
+        return analyzeTrades(this.trades);
+    }
+
+    toggleModal = () => {
+        this.is_modal_open = !this.is_modal_open;
+        if (this.is_modal_open) this.root_store.run_history.loadSessions();
+    };
+
+    setScope = (scope: TAnalyticsScope) => {
+        this.scope = scope;
+    };
+
+    setSourceFilter = (source_filter: TRiskSource | '') => {
+        this.source_filter = source_filter;
+    };
+}
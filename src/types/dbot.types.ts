@@ -1,3 +1,5 @@
+import { TLintFinding } from '@/external/bot-skeleton/services/bot-linter';
+
 export type TBotSkeleton = {
     interpreter: unknown;
     workspace: window.Blockly.WorkspaceSvg | null;
@@ -23,6 +25,8 @@ export type TBotSkeleton = {
     centerAndHighlightBlock: (block_id: string, should_animate?: boolean) => void;
     unHighlightAllBlocks: () => void;
     checkForRequiredBlocks: () => boolean;
+    lintWorkspace: () => TLintFinding[];
+    checkForLintErrors: () => boolean;
     valueInputLimitationsListener: (event: unknown, force_check?: boolean) => void | boolean;
     getStrategySounds: () => unknown[];
     handleDragOver?: (event: unknown) => void;
@@ -1,19 +1,7 @@
 import { LogTypes } from '@/external/bot-skeleton';
+import { saveAs } from '@/external/bot-skeleton/scratch/shared';
 import { localize } from '@deriv-com/translations';
 
-export type TTransaction = {
-    display_name: string;
-    transaction_ids: { buy: string; sell: string };
-    barrier: string;
-    date_start: string;
-    entry_tick: string;
-    entry_tick_time: string;
-    exit_tick: string;
-    exit_tick_time: string;
-    buy_price: string;
-    profit: string;
-};
-
 export type TLogTypes = Readonly<{
     LOAD_BLOCK: 'load_block';
     PURCHASE: 'purchase';
@@ -85,16 +73,5 @@ export const getSuccessJournalMessage = (message: string, extra: TExtra) => {
     }
 };
 
-export const downloadFile = (file_name: string, content: string) => {
-    const uri = encodeURI(`data:text/csv;charset=utf-8, ${content}`);
-    const link = document.createElement('a');
-    link.setAttribute('href', uri);
-    link.setAttribute('download', `${file_name} ${getCurrentDateTimeLocale()}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    const parent_element = link.parentNode;
-    const child_element = link;
-    if (parent_element && child_element && parent_element?.contains(child_element)) {
-        parent_element?.removeChild(child_element);
-    }
-};
+export const downloadFile = (file_name: string, content: string, extension = 'csv', type = 'text/csv;charset=utf-8') =>
+    saveAs({ data: content, filename: `${file_name} ${getCurrentDateTimeLocale()}.${extension}`, type });
@@ -0,0 +1,30 @@
+// In-memory stand-ins for the storage that services take in their constructors, e.g.
+// import { createMockStorage } from '@/utils/mock/mock-storage';
+
+/** Stands in for `localStorage`, where services save their settings. */
+export const createMockStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, value);
+        },
+    };
+};
+
+/** Stands in for `localForage`, where services keep larger data such as histories. */
+export const createMockForage = () => {
+    const items = new Map<string, unknown>();
+    const storage = {
+        getItem: async (key: string) => (items.has(key) ? items.get(key) : null),
+        setItem: async (key: string, value: unknown) => {
+            items.set(key, value);
+            return value;
+        },
+        removeItem: async (key: string) => {
+            items.delete(key);
+        },
+        keys: async () => [...items.keys()],
+    };
+    return storage as unknown as LocalForage;
+};